@@ -24,6 +24,8 @@ import GridIsolated from "@/pages/GridIsolated";
 import Ama from "@/pages/Ama";
 import Telegram from "@/pages/Telegram";
 import NotFound from "@/pages/not-found";
+import Login from "@/pages/Login";
+import { useAuthMe } from "@/hooks/useAuth";
 
 function Router() {
   return (
@@ -72,17 +74,33 @@ function Router() {
   );
 }
 
+// Login gate: nothing (including the events WebSocket) starts until /api/auth/me resolves a principal
+function AuthenticatedApp() {
+  const { data: me, isLoading } = useAuthMe();
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-background" />;
+  }
+  if (!me) {
+    return <Login />;
+  }
+
+  return (
+    <EventsWebSocketProvider>
+      <Toaster />
+      <div className="mobile-content-padding">
+        <Router />
+      </div>
+      <MobileTabBar />
+    </EventsWebSocketProvider>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <EventsWebSocketProvider>
-          <Toaster />
-          <div className="mobile-content-padding">
-            <Router />
-          </div>
-          <MobileTabBar />
-        </EventsWebSocketProvider>
+        <AuthenticatedApp />
       </TooltipProvider>
     </QueryClientProvider>
   );
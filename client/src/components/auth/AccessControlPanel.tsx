@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, Users, Copy } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useAuthMe,
+  useAuthUsers,
+  useCreateAuthUser,
+  useUpdateAuthUser,
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+  useAuthAudit,
+  hasRole,
+  type AuthRole,
+} from "@/hooks/useAuth";
+
+const ROLE_LABELS: Record<AuthRole, string> = {
+  viewer: "Lectura",
+  operator: "Operador",
+  admin: "Admin",
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString("es-ES") : "—";
+}
+
+/**
+ * Users, API keys and audit trail. Rendered only for admins; the server
+ * enforces the same rule on every /api/auth/* call.
+ */
+export function AccessControlPanel() {
+  const { data: me } = useAuthMe();
+  const isAdmin = hasRole(me, "admin") && !me?.authDisabled;
+
+  const { data: users = [] } = useAuthUsers(isAdmin);
+  const { data: apiKeys = [] } = useApiKeys(isAdmin);
+  const { data: audit = [] } = useAuthAudit(isAdmin, 25);
+  const createUser = useCreateAuthUser();
+  const updateUser = useUpdateAuthUser();
+  const createApiKey = useCreateApiKey();
+  const revokeApiKey = useRevokeApiKey();
+
+  const [newUsername, setNewUsername] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newRole, setNewRole] = useState<AuthRole>("viewer");
+  const [keyUserId, setKeyUserId] = useState<string>("");
+  const [keyLabel, setKeyLabel] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  if (!isAdmin) return null;
+
+  const handleCreateUser = () => {
+    createUser.mutate(
+      { username: newUsername, password: newPassword, role: newRole },
+      {
+        onSuccess: () => {
+          toast.success(`Usuario ${newUsername} creado`);
+          setNewUsername("");
+          setNewPassword("");
+        },
+        onError: (e: Error) => toast.error(e.message),
+      },
+    );
+  };
+
+  const handleCreateKey = () => {
+    createApiKey.mutate(
+      { userId: parseInt(keyUserId, 10), label: keyLabel || undefined },
+      {
+        onSuccess: (data) => {
+          setCreatedKey(data.token);
+          setKeyLabel("");
+        },
+        onError: (e: Error) => toast.error(e.message),
+      },
+    );
+  };
+
+  return (
+    <Card className="glass-panel border-border/50">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-500/20 rounded-lg">
+            <Users className="h-6 w-6 text-emerald-400" />
+          </div>
+          <div>
+            <CardTitle>Acceso y Auditoría</CardTitle>
+            <CardDescription>Usuarios, roles (lectura / operador / admin), API keys y registro de acciones.</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Users */}
+        <div className="space-y-2">
+          {users.map((u) => (
+            <div key={u.id} className="flex items-center gap-3 p-2 rounded-lg border border-border/50 bg-background/50" data-testid={`row-user-${u.id}`}>
+              <span className="font-mono text-sm flex-1">{u.username}</span>
+              <span className="text-xs text-muted-foreground hidden md:inline">Último acceso: {formatDate(u.lastLoginAt)}</span>
+              <Select
+                value={u.role}
+                onValueChange={(role) => updateUser.mutate({ id: u.id, role: role as AuthRole }, { onError: (e: Error) => toast.error(e.message) })}
+                disabled={u.id === me?.userId}
+              >
+                <SelectTrigger className="w-32 h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ROLE_LABELS) as AuthRole[]).map((r) => (
+                    <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Switch
+                checked={u.isActive}
+                onCheckedChange={(isActive) => updateUser.mutate({ id: u.id, isActive }, { onError: (e: Error) => toast.error(e.message) })}
+                disabled={u.id === me?.userId}
+                data-testid={`switch-user-active-${u.id}`}
+              />
+            </div>
+          ))}
+          <div className="grid gap-2 md:grid-cols-[1fr_1fr_8rem_auto] items-end pt-2">
+            <div className="grid gap-1">
+              <Label htmlFor="new-user-name">Nuevo usuario</Label>
+              <Input id="new-user-name" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} data-testid="input-new-user-name" />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="new-user-password">Contraseña (mín. 10)</Label>
+              <Input id="new-user-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} data-testid="input-new-user-password" />
+            </div>
+            <Select value={newRole} onValueChange={(r) => setNewRole(r as AuthRole)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ROLE_LABELS) as AuthRole[]).map((r) => (
+                  <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleCreateUser} disabled={!newUsername || newPassword.length < 10 || createUser.isPending} data-testid="button-create-user">
+              Crear
+            </Button>
+          </div>
+        </div>
+
+        {/* API keys */}
+        <div className="space-y-2 pt-2 border-t border-border/50">
+          <div className="flex items-center gap-2 text-sm font-medium pt-2">
+            <KeyRound className="h-4 w-4" /> API keys
+          </div>
+          {apiKeys.map((k) => (
+            <div key={k.id} className="flex items-center gap-3 p-2 rounded-lg border border-border/50 bg-background/50 text-sm">
+              <span className="font-mono">{k.tokenPrefix}…</span>
+              <span className="flex-1 text-muted-foreground">{k.label || "sin etiqueta"} · {k.username}</span>
+              <span className="text-xs text-muted-foreground hidden md:inline">Uso: {formatDate(k.lastUsedAt)}</span>
+              {k.revokedAt ? (
+                <Badge variant="outline">Revocada</Badge>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => revokeApiKey.mutate(k.id)} data-testid={`button-revoke-key-${k.id}`}>
+                  Revocar
+                </Button>
+              )}
+            </div>
+          ))}
+          <div className="grid gap-2 md:grid-cols-[10rem_1fr_auto] items-end">
+            <Select value={keyUserId} onValueChange={setKeyUserId}>
+              <SelectTrigger><SelectValue placeholder="Usuario" /></SelectTrigger>
+              <SelectContent>
+                {users.map((u) => (
+                  <SelectItem key={u.id} value={String(u.id)}>{u.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Etiqueta (p.ej. grafana)" value={keyLabel} onChange={(e) => setKeyLabel(e.target.value)} data-testid="input-api-key-label" />
+            <Button onClick={handleCreateKey} disabled={!keyUserId || createApiKey.isPending} data-testid="button-create-api-key">
+              Generar
+            </Button>
+          </div>
+          {createdKey && (
+            <div className="p-3 rounded-lg border border-yellow-500/30 bg-yellow-500/5 space-y-2">
+              <p className="text-xs text-yellow-500">Copia la API key ahora: no se volverá a mostrar.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={createdKey} className="font-mono text-xs" data-testid="text-created-api-key" />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => navigator.clipboard.writeText(createdKey).then(() => toast.success("Copiada"))}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Audit trail */}
+        <div className="space-y-1 pt-2 border-t border-border/50">
+          <div className="text-sm font-medium pt-2">Últimas acciones</div>
+          <div className="max-h-64 overflow-y-auto font-mono text-xs">
+            {audit.length === 0 && <p className="text-muted-foreground">Sin registros.</p>}
+            {audit.map((a) => (
+              <div key={a.id} className="flex gap-2 py-0.5 border-b border-border/20" data-testid={`row-audit-${a.id}`}>
+                <span className="text-muted-foreground w-36 shrink-0">{formatDate(a.timestamp)}</span>
+                <span className="w-28 shrink-0 truncate">{a.username || "anónimo"}</span>
+                <span className="w-14 shrink-0">{a.method}</span>
+                <span className="flex-1 truncate">{a.path}</span>
+                <span className={a.statusCode && a.statusCode >= 400 ? "text-red-400" : "text-green-500"}>{a.statusCode ?? "—"}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
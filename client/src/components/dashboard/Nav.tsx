@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
-import { LayoutDashboard, Activity, Settings, Wallet, Bell, Plug, Menu, X, BookOpen, BarChart3, Monitor, HardDrive, Calculator, Brain, CircleDollarSign, Grid3x3, MessageSquare, TrendingDown } from "lucide-react";
+import { LayoutDashboard, Activity, Settings, Wallet, Bell, Plug, Menu, X, BookOpen, BarChart3, Monitor, HardDrive, Calculator, Brain, CircleDollarSign, Grid3x3, MessageSquare, TrendingDown, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useAuthMe, useLogout } from "@/hooks/useAuth";
 
 type NavLink = { href: string; label: string; icon: React.ComponentType<{ className?: string }> };
 type NavSeparator = { separator: true; label: string };
@@ -15,6 +16,8 @@ function isSeparator(item: NavItem): item is NavSeparator {
 export function Nav() {
   const [location] = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { data: me } = useAuthMe();
+  const logout = useLogout();
 
   const navItems: NavItem[] = [
     // TRADING
@@ -96,7 +99,24 @@ export function Nav() {
             <Bell className="h-5 w-5" />
             <span className="absolute top-2 right-2 h-2 w-2 bg-red-500 rounded-full animate-pulse" />
           </Button>
-          <div className="h-7 w-7 md:h-8 md:w-8 rounded-full bg-gradient-to-tr from-primary to-purple-500 border border-white/10" />
+          <div
+            className="h-7 w-7 md:h-8 md:w-8 rounded-full bg-gradient-to-tr from-primary to-purple-500 border border-white/10"
+            title={me ? `${me.username} (${me.role})` : undefined}
+            data-testid="avatar-current-user"
+          />
+          {me && !me.authDisabled && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-muted-foreground hover:text-foreground h-11 w-11 touch-target"
+              onClick={() => logout.mutate()}
+              disabled={logout.isPending}
+              title="Cerrar sesión"
+              data-testid="button-logout"
+            >
+              <LogOut className="h-5 w-5" />
+            </Button>
+          )}
         </div>
       </nav>
       
@@ -35,25 +35,40 @@ interface SignalConfig {
   transition: { min: number; max: number; current: number };
 }
 
+interface CounterfactualMetrics {
+  trades: number;
+  winRatePct: number;
+  expectancyUsd: number;
+  netPnlUsd: number;
+  maxDrawdownPct: number;
+}
+
+// Counterfactual replay: current config vs proposed thresholds on the same candles
 interface SimulationResult {
-  tradesExecuted: number;
-  falsePositives: number;
-  profitability: number;
-  impact: {
-    trades: string;
-    risk: string;
-    confidence: string;
+  window: { pairs: string[]; timeframe: string; startDate: string; endDate: string; skippedPairs: string[] };
+  current: { metrics: CounterfactualMetrics };
+  proposed: { metrics: CounterfactualMetrics };
+  delta: {
+    trades: number;
+    tradesPct: number | null;
+    winRatePct: number;
+    expectancyUsd: number;
+    netPnlUsd: number;
+    maxDrawdownPct: number;
   };
 }
 
 interface OptimizationSuggestion {
   regime: string;
+  current?: number;
   recommended: number;
   reason: string;
   confidence: number;
   expectedImpact: string;
 }
 
+const signed = (v: number, digits = 1, suffix = "") => `${v > 0 ? "+" : ""}${v.toFixed(digits)}${suffix}`;
+
 export function SignalThresholdConfig() {
   const queryClient = useQueryClient();
   const [selectedRegime, setSelectedRegime] = useState<"TREND" | "RANGE" | "TRANSITION">("TREND");
@@ -82,7 +97,9 @@ export function SignalThresholdConfig() {
       if (!res.ok) throw new Error("Failed to fetch optimization suggestions");
       return res.json();
     },
-    refetchInterval: 60000,
+    // Server-side sweep is cached 15 min; no point polling faster
+    staleTime: 15 * 60 * 1000,
+    refetchInterval: 15 * 60 * 1000,
   });
 
   // Update configuration mutation
@@ -113,7 +130,10 @@ export function SignalThresholdConfig() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(thresholds),
       });
-      if (!res.ok) throw new Error("Failed to simulate");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.details || body.error || "Failed to simulate");
+      }
       return res.json();
     },
     onSuccess: (result) => {
@@ -121,9 +141,9 @@ export function SignalThresholdConfig() {
       setIsSimulating(false);
       toast.success("Simulación completada");
     },
-    onError: () => {
+    onError: (error: Error) => {
       setIsSimulating(false);
-      toast.error("Error en simulación");
+      toast.error(`Error en simulación: ${error.message}`);
     },
   });
 
@@ -390,21 +410,25 @@ export function SignalThresholdConfig() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="text-center p-3 bg-muted/30 rounded-lg">
                     <div className="text-lg font-bold text-green-400">
-                      {simulationResult ? simulationResult.impact.trades : "+23%"}
+                      {simulationResult
+                        ? simulationResult.delta.tradesPct !== null
+                          ? signed(simulationResult.delta.tradesPct, 1, "%")
+                          : signed(simulationResult.delta.trades, 0)
+                        : "—"}
                     </div>
-                    <div className="text-xs text-muted-foreground">Trades esperados</div>
+                    <div className="text-xs text-muted-foreground">Trades vs actual</div>
                   </div>
                   <div className="text-center p-3 bg-muted/30 rounded-lg">
-                    <div className={`text-lg font-bold ${riskLevel.color}`}>
-                      {simulationResult ? simulationResult.impact.risk : "+12%"}
+                    <div className={`text-lg font-bold ${simulationResult && simulationResult.delta.maxDrawdownPct > 0 ? "text-red-400" : "text-green-400"}`}>
+                      {simulationResult ? signed(simulationResult.delta.maxDrawdownPct, 2, " pp") : "—"}
                     </div>
-                    <div className="text-xs text-muted-foreground">Riesgo adicional</div>
+                    <div className="text-xs text-muted-foreground">Drawdown vs actual</div>
                   </div>
                   <div className="text-center p-3 bg-muted/30 rounded-lg">
-                    <div className="text-lg font-bold text-blue-400">
-                      {simulationResult ? simulationResult.impact.confidence : "85%"}
+                    <div className={`text-lg font-bold ${simulationResult && simulationResult.delta.expectancyUsd < 0 ? "text-red-400" : "text-blue-400"}`}>
+                      {simulationResult ? `${signed(simulationResult.delta.expectancyUsd, 2)} $` : "—"}
                     </div>
-                    <div className="text-xs text-muted-foreground">Confianza</div>
+                    <div className="text-xs text-muted-foreground">Expectancy por trade</div>
                   </div>
                 </div>
 
@@ -434,9 +458,27 @@ export function SignalThresholdConfig() {
                     <CheckCircle className="h-4 w-4 text-green-400" />
                     <AlertDescription className="text-xs text-green-300">
                       <div className="space-y-1">
-                        <div>Trades simulados: {simulationResult.tradesExecuted}</div>
-                        <div>Falsos positivos: {simulationResult.falsePositives}</div>
-                        <div>Rentabilidad estimada: {simulationResult.profitability.toFixed(2)}%</div>
+                        <div>
+                          Replay {simulationResult.window.timeframe} · {simulationResult.window.pairs.join(", ")} ·{" "}
+                          {new Date(simulationResult.window.startDate).toLocaleDateString()} → {new Date(simulationResult.window.endDate).toLocaleDateString()}
+                        </div>
+                        <table className="w-full font-mono">
+                          <thead>
+                            <tr className="text-left">
+                              <th></th><th>Actual</th><th>Propuesta</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            <tr><td>Trades</td><td>{simulationResult.current.metrics.trades}</td><td>{simulationResult.proposed.metrics.trades}</td></tr>
+                            <tr><td>Win rate</td><td>{simulationResult.current.metrics.winRatePct.toFixed(1)}%</td><td>{simulationResult.proposed.metrics.winRatePct.toFixed(1)}%</td></tr>
+                            <tr><td>Expectancy</td><td>${simulationResult.current.metrics.expectancyUsd.toFixed(2)}</td><td>${simulationResult.proposed.metrics.expectancyUsd.toFixed(2)}</td></tr>
+                            <tr><td>PnL neto</td><td>${simulationResult.current.metrics.netPnlUsd.toFixed(2)}</td><td>${simulationResult.proposed.metrics.netPnlUsd.toFixed(2)}</td></tr>
+                            <tr><td>Max DD</td><td>{simulationResult.current.metrics.maxDrawdownPct.toFixed(2)}%</td><td>{simulationResult.proposed.metrics.maxDrawdownPct.toFixed(2)}%</td></tr>
+                          </tbody>
+                        </table>
+                        {simulationResult.window.skippedPairs.length > 0 && (
+                          <div className="text-yellow-300">Sin velas suficientes: {simulationResult.window.skippedPairs.join(", ")}</div>
+                        )}
                       </div>
                     </AlertDescription>
                   </Alert>
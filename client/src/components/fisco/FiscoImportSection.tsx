@@ -48,8 +48,14 @@ function StatusBadge({ status }: { status: ImportPreviewRow["status"] }) {
   );
 }
 
+const EXCHANGE_LABELS: Record<"kraken" | "revolutx" | "binance", { name: string; csv: string }> = {
+  kraken:   { name: "Kraken",   csv: "Kraken Ledger" },
+  revolutx: { name: "RevolutX", csv: "RevolutX" },
+  binance:  { name: "Binance",  csv: "Binance (historial de operaciones Spot)" },
+};
+
 export function FiscoImportSection() {
-  const [exchange, setExchange]   = useState<"kraken" | "revolutx">("kraken");
+  const [exchange, setExchange]   = useState<"kraken" | "revolutx" | "binance">("kraken");
   const [options, setOptions]     = useState<ImportOptions>(DEFAULT_OPTIONS);
   const [file, setFile]           = useState<File | null>(null);
   const [preview, setPreview]     = useState<ImportPreviewResult | null>(null);
@@ -127,7 +133,7 @@ export function FiscoImportSection() {
           <CardContent className="p-4 space-y-3">
             <div className="text-[10px] font-mono text-muted-foreground uppercase tracking-wider">Exchange</div>
             <div className="flex gap-2">
-              {(["kraken", "revolutx"] as const).map(ex => (
+              {(["kraken", "revolutx", "binance"] as const).map(ex => (
                 <button
                   key={ex}
                   onClick={() => { setExchange(ex); setPreview(null); setFile(null); }}
@@ -137,7 +143,7 @@ export function FiscoImportSection() {
                       : "border-border text-muted-foreground hover:border-border/80"
                   }`}
                 >
-                  {ex === "kraken" ? "Kraken" : "RevolutX"}
+                  {EXCHANGE_LABELS[ex].name}
                 </button>
               ))}
             </div>
@@ -158,7 +164,7 @@ export function FiscoImportSection() {
                 ) : (
                   <div className="text-muted-foreground text-sm">
                     <Upload className="h-5 w-5 mx-auto mb-1.5 opacity-50" />
-                    <p>Clic para seleccionar CSV de {exchange === "kraken" ? "Kraken Ledger" : "RevolutX"}</p>
+                    <p>Clic para seleccionar CSV de {EXCHANGE_LABELS[exchange].csv}</p>
                     <p className="text-[10px] mt-0.5 opacity-60">CSV, máx. 50 MB</p>
                   </div>
                 )}
@@ -2,27 +2,30 @@
  * FiscoReportsCenter
  *
  * Centro de Informes y Exportaciones Fiscales.
- * Three modules:
- *   1. Informe anual oficial (reutiliza annual-report existente)
+ * Four modules:
+ *   1. Informe anual oficial (reutiliza annual-report existente) + casillas Modelo 100
  *   2. Informe multi-año de auditoría
  *   3. Exportaciones técnicas CSV/ZIP
+ *   4. Modelo 721 (monedas virtuales en custodios extranjeros)
  *
- * INVARIANTS: never calls destructive endpoints. Read-only.
+ * INVARIANTS: never calls destructive endpoints. Read-only, except registering
+ * a Modelo 721 filing (reference for next year's increase threshold).
  */
 
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   FileText, Download, Archive, CheckCircle2, AlertTriangle, XCircle,
   Loader2, Globe, Building2, RefreshCw, FileDown, Table2, FileSpreadsheet,
-  ShieldCheck, Lock, Info,
+  ShieldCheck, Lock, Info, Landmark,
 } from "lucide-react";
 import {
   formatFiscoEngineModeLabel,
@@ -73,6 +76,57 @@ interface MultiYearReport {
   };
 }
 
+interface Modelo100Export {
+  year: number;
+  engine: "legacy_fifo" | "v2_official";
+  casillas: Record<string, string>;
+  transmissions: Array<{
+    asset: string;
+    contraprestacion: "F" | "N" | "O";
+    transmission_value_eur: number;
+    acquisition_value_eur: number;
+    gain_eur: number;
+    loss_eur: number;
+    deferred_loss_eur: number;
+    disposals_count: number;
+    source: string;
+  }>;
+  totals: { transmission_value_eur: number; acquisition_value_eur: number; gains_eur: number; losses_eur: number; net_gain_loss_eur: number; deferred_loss_eur: number };
+  capital_income: { casilla: string; rows: Array<{ asset: string; amount_eur: number; operations_count: number }>; total_eur: number };
+  reconciliation: {
+    status: "OK" | "DIFFERENCES";
+    annual_summary: { final_taxable_gain_loss_eur: number; staking_total_eur: number };
+    diff_gain_loss_eur: number;
+    diff_capital_income_eur: number;
+    notes: string[];
+  };
+  warnings: string[];
+}
+
+interface Modelo721Summary {
+  year: number;
+  valuationDate: string;
+  thresholdEur: number;
+  increaseThresholdEur: number;
+  positions: Array<{
+    asset: string;
+    exchange: string;
+    custodian: { name: string; countryCode: string };
+    quantity: number;
+    priceEur: number | null;
+    valueEur: number;
+    origin: "A" | "M" | "C";
+  }>;
+  custodians: Array<{ exchange: string; name: string; countryCode: string; valueEur: number; positions: number }>;
+  totalValueEur: number;
+  previousFiling: { year: number; totalValueEur: number; filedAt: string; declarationId: string | null } | null;
+  increaseVsPreviousEur: number | null;
+  obligated: boolean;
+  obligationReason: string;
+  excluded: Array<{ asset: string; exchange: string; quantity: number; reason: string }>;
+  warnings: string[];
+}
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 function StatusBadge({ ok, warn, label }: { ok: boolean; warn?: boolean; label?: string }) {
   if (ok && !warn) return <Badge className="bg-green-500/20 text-green-400 border-green-500/30">{label ?? "✓ OK"}</Badge>;
@@ -140,6 +194,16 @@ function AnnualReportModule() {
   });
   const isV2Official = controlStatus?.official_engine === "v2_official";
 
+  const { data: modelo100, isFetching: modelo100Loading, refetch: loadModelo100 } = useQuery<Modelo100Export>({
+    queryKey: ["modelo100", year],
+    queryFn: async () => {
+      const r = await fetch(`/api/fisco/export/modelo100.json?year=${year}`);
+      if (!r.ok) throw new Error(await r.text());
+      return r.json();
+    },
+    enabled: false,
+  });
+
   return (
     <div className="space-y-4">
       <p className="text-sm text-muted-foreground">
@@ -354,6 +418,68 @@ function AnnualReportModule() {
       <p className="text-xs text-muted-foreground">
         El informe se abre en una nueva pestaña. Usa Ctrl+P / Cmd+P del navegador para imprimir o guardar como PDF.
       </p>
+
+      <div className="rounded-lg border p-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">Modelo 100 — casillas de monedas virtuales {year}</span>
+          <Button variant="outline" size="sm" onClick={() => loadModelo100()} disabled={modelo100Loading}>
+            {modelo100Loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Calcular casillas
+          </Button>
+          <a href={`/api/fisco/export/modelo100.csv?year=${year}&delimiter=semicolon`} download={`fisco_modelo100_${year}.csv`}>
+            <Button variant="outline" size="sm"><FileSpreadsheet className="h-4 w-4 mr-2" />CSV</Button>
+          </a>
+          <a href={`/api/fisco/export/modelo100.json?year=${year}`} download={`fisco_modelo100_${year}.json`}>
+            <Button variant="outline" size="sm"><FileDown className="h-4 w-4 mr-2" />JSON</Button>
+          </a>
+        </div>
+
+        {modelo100 && (
+          <div className="space-y-2 text-xs">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="text-left p-1">{modelo100.casillas.denominacion} Moneda</th>
+                    <th className="text-left p-1">{modelo100.casillas.contraprestacion}</th>
+                    <th className="text-right p-1">{modelo100.casillas.valorTransmision} Transmisión</th>
+                    <th className="text-right p-1">{modelo100.casillas.valorAdquisicion} Adquisición</th>
+                    <th className="text-right p-1">{modelo100.casillas.ganancia} Ganancia</th>
+                    <th className="text-right p-1">{modelo100.casillas.perdida} Pérdida</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {modelo100.transmissions.map(t => (
+                    <tr key={`${t.source}-${t.asset}-${t.contraprestacion}`} className="border-t border-border/40">
+                      <td className="p-1 font-mono">{t.asset}{t.source !== "fifo" && <span className="text-muted-foreground"> (externa)</span>}</td>
+                      <td className="p-1">{t.contraprestacion}</td>
+                      <td className="p-1 text-right font-mono">{eur(t.transmission_value_eur)}</td>
+                      <td className="p-1 text-right font-mono">{eur(t.acquisition_value_eur)}</td>
+                      <td className="p-1 text-right font-mono">{t.gain_eur ? eur(t.gain_eur) : ""}</td>
+                      <td className="p-1 text-right font-mono">{t.loss_eur ? eur(t.loss_eur) : ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p>
+              Neto: <strong>{formatEurSigned(modelo100.totals.net_gain_loss_eur)}</strong>
+              {" · "}Staking (casilla {modelo100.capital_income.casilla}): <strong>{eur(modelo100.capital_income.total_eur)}</strong>
+              {" · "}Motor: {formatFiscoEngineModeLabel(modelo100.engine === "v2_official" ? "v2_official" : "legacy")}
+            </p>
+            <div className="flex items-center gap-2">
+              <RecBadge status={modelo100.reconciliation.status} />
+              <span className="text-muted-foreground">
+                Resumen anual {eur(modelo100.reconciliation.annual_summary.final_taxable_gain_loss_eur)} (diff {eur(modelo100.reconciliation.diff_gain_loss_eur)})
+                {" · "}staking {eur(modelo100.reconciliation.annual_summary.staking_total_eur)} (diff {eur(modelo100.reconciliation.diff_capital_income_eur)})
+              </span>
+            </div>
+            {[...modelo100.reconciliation.notes, ...modelo100.warnings].map((n, i) => (
+              <div key={i} className="text-yellow-300"><AlertTriangle className="inline h-3 w-3 mr-1" />{n}</div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -607,6 +733,13 @@ function ExportsModule() {
       desc:  "event_at, amount_sent, market_price_eur, proceeds_eur, cost_basis_eur, gain_loss_eur …",
       icon:  <FileText className="h-4 w-4" />,
     },
+    {
+      label: "Pérdidas diferidas (regla 2 meses)",
+      file:  "fisco_loss_deferrals.csv",
+      url:   `/api/fisco/export/loss-deferrals.csv${base}`,
+      desc:  "asset, disposed_at, loss_before_deferral_eur, deferred_loss_eur, computable_loss_eur, replacement_operation_ids …",
+      icon:  <FileSpreadsheet className="h-4 w-4" />,
+    },
   ];
 
   const zipUrl = `/api/fisco/export/audit-pack.zip?years=${years}&exchanges=${exchanges}${rawParam}`;
@@ -697,6 +830,212 @@ function ExportsModule() {
   );
 }
 
+// ─── Module 4: Modelo 721 ─────────────────────────────────────────────────────
+const ORIGIN_LABELS: Record<string, string> = { A: "Alta", M: "Ya declarado", C: "Extinguido" };
+
+function Modelo721Module() {
+  const queryClient = useQueryClient();
+  const [year, setYear]                   = useState<string>("2025");
+  const [nif, setNif]                     = useState("");
+  const [name, setName]                   = useState("");
+  const [phone, setPhone]                 = useState("");
+  const [declarationId, setDeclarationId] = useState("");
+  const [downloading, setDownloading]     = useState(false);
+  const [fileError, setFileError]         = useState<string | null>(null);
+
+  const { data: summary, isFetching, error, refetch } = useQuery<Modelo721Summary>({
+    queryKey: ["modelo721", year],
+    queryFn: async () => {
+      const r = await fetch(`/api/fisco/modelo721?year=${year}`);
+      if (!r.ok) throw new Error((await r.json()).error ?? r.statusText);
+      return r.json();
+    },
+  });
+
+  const recordFiling = useMutation({
+    mutationFn: async () => {
+      const r = await fetch("/api/fisco/modelo721/filings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ year: Number(year), declarationId: declarationId || undefined }),
+      });
+      if (!r.ok) throw new Error((await r.json()).error ?? r.statusText);
+      return r.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["modelo721"] }),
+  });
+
+  const downloadFile = async () => {
+    setDownloading(true);
+    setFileError(null);
+    try {
+      const r = await fetch("/api/fisco/modelo721/file", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ year: Number(year), nif, name, phone: phone || undefined, declarationId: declarationId || undefined }),
+      });
+      if (!r.ok) throw new Error((await r.json()).error ?? r.statusText);
+      const blob = await r.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `modelo721_${year}_${nif.toUpperCase()}.txt`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setFileError(e.message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-muted-foreground">
+        Declaración informativa de monedas virtuales custodiadas en el extranjero. Saldos a 31/12 por custodio,
+        valorados a precio de mercado. Obligación: valor conjunto &gt; 50.000 € (primera vez) o incremento &gt; 20.000 €
+        respecto a la última declaración registrada.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <Label className="mb-2 block">Ejercicio</Label>
+          <Select value={year} onValueChange={setYear}>
+            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {AVAILABLE_YEARS.map(y => <SelectItem key={y} value={String(y)}>{y}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          {isFetching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+          Recalcular
+        </Button>
+        <a href={`/api/fisco/modelo721/summary.txt?year=${year}`} download={`modelo721_${year}_resumen.txt`}>
+          <Button variant="outline" size="sm">
+            <FileDown className="h-4 w-4 mr-2" />
+            Resumen legible
+          </Button>
+        </a>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-950/20 px-4 py-3 text-sm text-red-300">
+          <XCircle className="inline h-4 w-4 mr-1" /> {(error as Error).message}
+        </div>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Valor conjunto a {summary.valuationDate}</p>
+              <p className="text-lg font-bold">{eur(summary.totalValueEur)}</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Última declaración</p>
+              {summary.previousFiling ? (
+                <p className="text-sm">
+                  {summary.previousFiling.year}: {eur(summary.previousFiling.totalValueEur)}
+                  <span className="block text-xs text-muted-foreground">
+                    Incremento {formatEurSigned(summary.increaseVsPreviousEur ?? 0)}
+                  </span>
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">Sin presentaciones registradas</p>
+              )}
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Obligación</p>
+              <StatusBadge ok={!summary.obligated} warn={summary.obligated} label={summary.obligated ? "Debe presentar" : "No obligado"} />
+              <p className="text-xs text-muted-foreground mt-1">{summary.obligationReason}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40 text-xs text-muted-foreground">
+                <tr>
+                  <th className="text-left p-2">Custodio</th>
+                  <th className="text-left p-2">País</th>
+                  <th className="text-left p-2">Activo</th>
+                  <th className="text-right p-2">Cantidad</th>
+                  <th className="text-right p-2">Precio 31/12</th>
+                  <th className="text-right p-2">Valor</th>
+                  <th className="text-left p-2">Origen</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.positions.length === 0 && (
+                  <tr><td colSpan={7} className="p-3 text-center text-muted-foreground">Sin saldos en custodios extranjeros a 31/12/{summary.year}</td></tr>
+                )}
+                {summary.positions.map(p => (
+                  <tr key={`${p.exchange}-${p.asset}`} className="border-t">
+                    <td className="p-2">{p.custodian.name}</td>
+                    <td className="p-2">{p.custodian.countryCode}</td>
+                    <td className="p-2 font-mono">{p.asset}</td>
+                    <td className="p-2 text-right font-mono">{p.quantity.toFixed(8)}</td>
+                    <td className="p-2 text-right">{p.priceEur !== null ? eur(p.priceEur) : "—"}</td>
+                    <td className="p-2 text-right">{eur(p.valueEur)}</td>
+                    <td className="p-2"><Badge variant="outline">{p.origin} · {ORIGIN_LABELS[p.origin]}</Badge></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {(summary.warnings.length > 0 || summary.excluded.length > 0) && (
+            <div className="rounded-lg border border-yellow-500/30 bg-yellow-950/20 px-4 py-3 text-xs text-yellow-200 space-y-1">
+              {summary.warnings.map((w, i) => <p key={i}><AlertTriangle className="inline h-3 w-3 mr-1" />{w}</p>)}
+              {summary.excluded.map(x => (
+                <p key={`${x.exchange}-${x.asset}`}><Info className="inline h-3 w-3 mr-1" />{x.exchange} {x.asset}: {x.reason}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="rounded-lg border p-4 space-y-3">
+            <h3 className="text-sm font-semibold">Fichero para la AEAT</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor="m721-nif" className="mb-1 block text-xs">NIF declarante</Label>
+                <Input id="m721-nif" value={nif} onChange={e => setNif(e.target.value)} maxLength={9} />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="m721-name" className="mb-1 block text-xs">Apellidos y nombre</Label>
+                <Input id="m721-name" value={name} onChange={e => setName(e.target.value)} maxLength={40} />
+              </div>
+              <div>
+                <Label htmlFor="m721-phone" className="mb-1 block text-xs">Teléfono</Label>
+                <Input id="m721-phone" value={phone} onChange={e => setPhone(e.target.value)} maxLength={9} />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="m721-decl" className="mb-1 block text-xs">Nº justificante (13 dígitos)</Label>
+                <Input id="m721-decl" value={declarationId} onChange={e => setDeclarationId(e.target.value)} maxLength={13} />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={downloadFile} disabled={downloading || !nif || !name || summary.positions.length === 0}>
+                {downloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                Descargar fichero 721
+              </Button>
+              <Button variant="outline" onClick={() => recordFiling.mutate()} disabled={recordFiling.isPending}>
+                {recordFiling.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                Registrar presentación {year}
+              </Button>
+            </div>
+            {fileError && <p className="text-xs text-red-400">{fileError}</p>}
+            {recordFiling.isError && <p className="text-xs text-red-400">{(recordFiling.error as Error).message}</p>}
+            {recordFiling.isSuccess && <p className="text-xs text-green-400">Presentación registrada: será la referencia del incremento del año siguiente.</p>}
+            <p className="text-xs text-muted-foreground">
+              Valida el fichero con el servicio de prevalidación de la Sede Electrónica antes de presentarlo.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // ─── Main Component ───────────────────────────────────────────────────────────
 export function FiscoReportsCenter() {
   return (
@@ -713,7 +1052,7 @@ export function FiscoReportsCenter() {
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="annual">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="annual" className="flex items-center gap-1.5">
               <FileText className="h-3.5 w-3.5" />
               Informe anual oficial
@@ -726,6 +1065,10 @@ export function FiscoReportsCenter() {
               <Download className="h-3.5 w-3.5" />
               Exportaciones CSV/ZIP
             </TabsTrigger>
+            <TabsTrigger value="modelo721" className="flex items-center gap-1.5">
+              <Landmark className="h-3.5 w-3.5" />
+              Modelo 721
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="annual" className="mt-4">
@@ -739,6 +1082,10 @@ export function FiscoReportsCenter() {
           <TabsContent value="exports" className="mt-4">
             <ExportsModule />
           </TabsContent>
+
+          <TabsContent value="modelo721" className="mt-4">
+            <Modelo721Module />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
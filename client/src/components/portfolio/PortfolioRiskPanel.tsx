@@ -0,0 +1,436 @@
+/**
+ * PortfolioRiskPanel — subtab "Riesgo" de la Cartera Global
+ *
+ * Exposición combinada por activo (Trading + IDCA + Grid + AMA + reservas),
+ * VaR / CVaR histórico a 1 día, matriz de correlación y límites
+ * (portfolio_risk_limits) que PortfolioIntegrationAdapter.beforeOrder aplica.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, Gauge, Grid3x3, RefreshCw, Settings, Trash2 } from "lucide-react";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+interface AssetRiskExposure {
+  asset: string;
+  priceUsd: number | null;
+  quantity: number;
+  exposureUsd: number;
+  pendingUsd: number;
+  byModeUsd: Record<string, number>;
+  sharePct: number | null;
+  dailyVolatilityPct: number | null;
+  varUsd: number | null;
+  cvarUsd: number | null;
+  observations: number;
+}
+
+interface RiskLimit {
+  asset: string;
+  maxExposureUsd: number | null;
+  maxExposurePct: number | null;
+  maxVarUsd: number | null;
+  maxCvarUsd: number | null;
+  enabled: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+interface RiskBreach {
+  asset: string;
+  metric: "EXPOSURE_USD" | "EXPOSURE_PCT" | "VAR" | "CVAR";
+  value: number;
+  limit: number;
+}
+
+interface PortfolioRiskReport {
+  generatedAt: string;
+  confidence: number;
+  lookbackDays: number;
+  portfolioValueUsd: number | null;
+  totalExposureUsd: number;
+  assets: AssetRiskExposure[];
+  portfolio: {
+    varUsd: number | null;
+    cvarUsd: number | null;
+    undiversifiedVarUsd: number | null;
+    diversificationBenefitUsd: number | null;
+    parametricVarUsd: number | null;
+    observations: number;
+  };
+  correlations: { assets: string[]; matrix: number[][] };
+  limits: RiskLimit[];
+  breaches: RiskBreach[];
+}
+
+type LimitField = "maxExposureUsd" | "maxExposurePct" | "maxVarUsd" | "maxCvarUsd";
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+const MODES = ["SPOT_NORMAL", "IDCA", "GRID", "AMA"] as const;
+
+const MODE_LABELS: Record<string, string> = {
+  SPOT_NORMAL: "Trading",
+  IDCA: "IDCA",
+  GRID: "Grid",
+  AMA: "AMA",
+};
+
+const METRIC_LABELS: Record<RiskBreach["metric"], string> = {
+  EXPOSURE_USD: "Exposición",
+  EXPOSURE_PCT: "Exposición %",
+  VAR: "VaR",
+  CVAR: "CVaR",
+};
+
+const LIMIT_FIELDS: { key: LimitField; label: string }[] = [
+  { key: "maxExposureUsd", label: "Exposición máx. (USD)" },
+  { key: "maxExposurePct", label: "Exposición máx. (%)" },
+  { key: "maxVarUsd", label: "VaR máx. (USD)" },
+  { key: "maxCvarUsd", label: "CVaR máx. (USD)" },
+];
+
+function fmtUsd(n: number | null | undefined): string {
+  if (n == null) return "—";
+  return `$${n.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function fmtPct(n: number | null | undefined): string {
+  if (n == null) return "—";
+  return `${n.toFixed(2)}%`;
+}
+
+function scopeLabel(asset: string): string {
+  return asset === "*" ? "Cartera" : asset;
+}
+
+function correlationColor(rho: number): string {
+  if (rho >= 0.7) return "bg-red-500/30";
+  if (rho >= 0.3) return "bg-amber-500/20";
+  if (rho <= -0.3) return "bg-green-500/20";
+  return "";
+}
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export function PortfolioRiskPanel() {
+  const [report, setReport] = useState<PortfolioRiskReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/portfolio/risk");
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error);
+      setReport(json.data);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  if (loading && !report) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 animate-spin mr-2" />
+        Calculando riesgo...
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="flex items-center justify-center py-8 text-destructive">
+        <AlertTriangle className="h-5 w-5 mr-2" />
+        {error ?? "Sin datos de riesgo"}
+      </div>
+    );
+  }
+
+  const p = report.portfolio;
+  const confidencePct = Math.round(report.confidence * 100);
+
+  return (
+    <div className="space-y-4" data-testid="tab-content-riesgo">
+      {/* Portfolio totals */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <RiskCard label="Exposición total" value={fmtUsd(report.totalExposureUsd)} />
+        <RiskCard label={`VaR ${confidencePct}% 1d`} value={fmtUsd(p.varUsd)} accent="text-orange-400" />
+        <RiskCard label={`CVaR ${confidencePct}% 1d`} value={fmtUsd(p.cvarUsd)} accent="text-red-400" />
+        <RiskCard label="VaR paramétrico" value={fmtUsd(p.parametricVarUsd)} />
+        <RiskCard label="Beneficio diversificación" value={fmtUsd(p.diversificationBenefitUsd)} accent="text-green-400" />
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          Histórico {report.lookbackDays} días · {p.observations} observaciones comunes · valor cartera {fmtUsd(report.portfolioValueUsd)}
+        </span>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={fetchReport} data-testid="risk-refresh">
+          <RefreshCw className={`h-3 w-3 mr-1 ${loading ? "animate-spin" : ""}`} /> Recalcular
+        </Button>
+      </div>
+
+      {/* Breaches */}
+      {report.breaches.length > 0 ? (
+        <Card className="border-red-500/40 bg-red-500/5" data-testid="risk-breaches">
+          <CardContent className="pt-4 space-y-1">
+            {report.breaches.map((b, i) => (
+              <div key={i} className="flex items-center gap-2 text-xs text-red-400">
+                <AlertTriangle className="h-4 w-4" />
+                {scopeLabel(b.asset)} · {METRIC_LABELS[b.metric]}{" "}
+                {b.metric === "EXPOSURE_PCT" ? fmtPct(b.value) : fmtUsd(b.value)} supera el límite{" "}
+                {b.metric === "EXPOSURE_PCT" ? fmtPct(b.limit) : fmtUsd(b.limit)} — nuevas compras bloqueadas
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="flex items-center gap-2 text-xs text-green-400">
+          <CheckCircle2 className="h-4 w-4" /> Dentro de todos los límites de riesgo
+        </div>
+      )}
+
+      {/* Exposure per asset */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Gauge className="h-4 w-4" /> Exposición por activo
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="text-left py-2">Activo</th>
+                  {MODES.map((m) => <th key={m} className="text-right">{MODE_LABELS[m]}</th>)}
+                  <th className="text-right">Total</th>
+                  <th className="text-right">% cartera</th>
+                  <th className="text-right">Vol. diaria</th>
+                  <th className="text-right">VaR</th>
+                  <th className="text-right">CVaR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.assets.map((a) => (
+                  <tr key={a.asset} className="border-b border-border/30">
+                    <td className="py-2 font-medium">
+                      {a.asset}
+                      {a.priceUsd == null && <Badge variant="outline" className="ml-2 text-[10px]">a coste</Badge>}
+                    </td>
+                    {MODES.map((m) => (
+                      <td key={m} className="text-right font-mono">{a.byModeUsd[m] ? fmtUsd(a.byModeUsd[m]) : "—"}</td>
+                    ))}
+                    <td className="text-right font-mono font-medium">{fmtUsd(a.exposureUsd)}</td>
+                    <td className="text-right font-mono">{fmtPct(a.sharePct)}</td>
+                    <td className="text-right font-mono">{fmtPct(a.dailyVolatilityPct)}</td>
+                    <td className="text-right font-mono text-orange-400">{fmtUsd(a.varUsd)}</td>
+                    <td className="text-right font-mono text-red-400">{fmtUsd(a.cvarUsd)}</td>
+                  </tr>
+                ))}
+                {report.assets.length === 0 && (
+                  <tr><td colSpan={10} className="py-8 text-center text-muted-foreground">Sin exposición abierta.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Correlations */}
+      {report.correlations.matrix.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Grid3x3 className="h-4 w-4" /> Correlación de retornos diarios
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="text-xs font-mono" data-testid="risk-correlations">
+              <thead>
+                <tr>
+                  <th />
+                  {report.correlations.assets.map((a) => <th key={a} className="px-3 py-1 text-muted-foreground">{a}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {report.correlations.matrix.map((row, i) => (
+                  <tr key={i}>
+                    <td className="pr-3 text-muted-foreground">{report.correlations.assets[i]}</td>
+                    {row.map((rho, j) => (
+                      <td key={j} className={`px-3 py-1 text-center ${i === j ? "" : correlationColor(rho)}`}>{rho.toFixed(2)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <RiskLimitsEditor limits={report.limits} assets={report.assets.map((a) => a.asset)} onSaved={fetchReport} />
+    </div>
+  );
+}
+
+// ─── Limits editor ───────────────────────────────────────────────────
+
+function RiskLimitsEditor({ limits, assets, onSaved }: {
+  limits: RiskLimit[];
+  assets: string[];
+  onSaved: () => void;
+}) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Record<LimitField, string>>({ maxExposureUsd: "", maxExposurePct: "", maxVarUsd: "", maxCvarUsd: "" });
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const scopes = Array.from(new Set(["*", ...limits.map((l) => l.asset), ...assets]));
+
+  const startEdit = (asset: string) => {
+    const current = limits.find((l) => l.asset === asset);
+    setEditing(asset);
+    setEnabled(current?.enabled ?? true);
+    setSaveError(null);
+    setDraft({
+      maxExposureUsd: current?.maxExposureUsd?.toString() ?? "",
+      maxExposurePct: current?.maxExposurePct?.toString() ?? "",
+      maxVarUsd: current?.maxVarUsd?.toString() ?? "",
+      maxCvarUsd: current?.maxCvarUsd?.toString() ?? "",
+    });
+  };
+
+  const save = async () => {
+    if (!editing) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const body: Record<string, number | boolean | null> = { enabled };
+      for (const f of LIMIT_FIELDS) body[f.key] = draft[f.key] === "" ? null : parseFloat(draft[f.key]);
+      const res = await fetch(`/api/portfolio/risk/limits/${encodeURIComponent(editing)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error);
+      setEditing(null);
+      onSaved();
+    } catch (e) {
+      setSaveError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (asset: string) => {
+    await fetch(`/api/portfolio/risk/limits/${encodeURIComponent(asset)}`, { method: "DELETE" });
+    onSaved();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Settings className="h-4 w-4" /> Límites de riesgo
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground border-b">
+                <th className="text-left py-2">Ámbito</th>
+                {LIMIT_FIELDS.map((f) => <th key={f.key} className="text-right">{f.label}</th>)}
+                <th className="text-center">Estado</th>
+                <th className="text-center">Acción</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scopes.map((asset) => {
+                const l = limits.find((x) => x.asset === asset);
+                return (
+                  <tr key={asset} className="border-b border-border/30">
+                    <td className="py-2 font-medium">{scopeLabel(asset)}</td>
+                    <td className="text-right font-mono">{fmtUsd(l?.maxExposureUsd)}</td>
+                    <td className="text-right font-mono">{fmtPct(l?.maxExposurePct)}</td>
+                    <td className="text-right font-mono">{fmtUsd(l?.maxVarUsd)}</td>
+                    <td className="text-right font-mono">{fmtUsd(l?.maxCvarUsd)}</td>
+                    <td className="text-center">
+                      {l ? (
+                        <Badge variant={l.enabled ? "default" : "secondary"} className="text-[10px]">
+                          {l.enabled ? "Activo" : "Desactivado"}
+                        </Badge>
+                      ) : <span className="text-muted-foreground">Sin límite</span>}
+                    </td>
+                    <td className="text-center whitespace-nowrap">
+                      <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => startEdit(asset)} data-testid={`edit-risk-limit-${asset}`}>
+                        <Settings className="h-3 w-3" />
+                      </Button>
+                      {l && (
+                        <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => remove(asset)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {editing && (
+          <Card className="border-primary/30 bg-primary/5" data-testid="risk-limit-edit">
+            <CardContent className="pt-4 space-y-3">
+              <div className="text-xs font-medium">Límites — {scopeLabel(editing)} (vacío = sin límite)</div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {LIMIT_FIELDS.map((f) => (
+                  <div key={f.key}>
+                    <label className="text-xs text-muted-foreground block mb-1">{f.label}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft[f.key]}
+                      onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })}
+                      className="w-full px-3 py-2 text-sm rounded-md border bg-background font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs">
+                <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+                Aplicar en beforeOrder
+              </label>
+              {saveError && <div className="text-xs text-red-400">{saveError}</div>}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={save} disabled={saving} data-testid="save-risk-limit">Guardar</Button>
+                <Button variant="outline" size="sm" onClick={() => setEditing(null)}>Cancelar</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RiskCard({ label, value, accent }: { label: string; value: string; accent?: string }) {
+  return (
+    <Card className="border-border/50">
+      <CardContent className="pt-4">
+        <div className="text-xs text-muted-foreground">{label}</div>
+        <div className={`text-xl font-bold font-mono mt-1 ${accent || ""}`}>{value}</div>
+      </CardContent>
+    </Card>
+  );
+}
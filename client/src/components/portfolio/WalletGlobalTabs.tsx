@@ -1,7 +1,7 @@
 /**
  * WalletGlobalTabs — R2.18-R2.27
  *
- * 8 subtabs for the Cartera Global:
+ * 9 subtabs for the Cartera Global:
  * 1. Resumen — Summary with totals, PnL, distribution chart
  * 2. Por modo — Cards per mode (AMA, Grid, IDCA, Trading)
  * 3. Por exchange — Kraken, Revolut X breakdown
@@ -10,6 +10,7 @@
  * 6. Reservas — Active reservations table
  * 7. Ledger — Ledger entries with filters
  * 8. Reconciliación — Reconciliation status and runs
+ * 9. Riesgo — Cross-mode exposure, VaR/CVaR, correlations and limits (PortfolioRiskPanel)
  *
  * All text in Spanish. Uses /api/portfolio/* unified API.
  */
@@ -22,8 +23,9 @@ import { Progress } from "@/components/ui/progress";
 import {
   Wallet, PieChart, RefreshCw, Layers, Server, Zap,
   AlertCircle, CheckCircle2, XCircle, Clock, ArrowUpDown,
-  BookOpen, ShieldCheck, Settings, TrendingUp, TrendingDown,
+  BookOpen, ShieldCheck, Settings, TrendingUp, TrendingDown, Gauge,
 } from "lucide-react";
+import { PortfolioRiskPanel } from "./PortfolioRiskPanel";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -178,7 +180,7 @@ async function apiFetch<T>(path: string): Promise<T> {
 
 // ─── Main Component ──────────────────────────────────────────────────
 
-type SubTab = "resumen" | "modos" | "exchanges" | "inventario" | "asignacion" | "reservas" | "ledger" | "reconciliacion";
+type SubTab = "resumen" | "modos" | "exchanges" | "inventario" | "asignacion" | "reservas" | "ledger" | "reconciliacion" | "riesgo";
 
 const SUBTABS: { key: SubTab; label: string; icon: typeof Wallet }[] = [
   { key: "resumen", label: "Resumen", icon: PieChart },
@@ -189,6 +191,7 @@ const SUBTABS: { key: SubTab; label: string; icon: typeof Wallet }[] = [
   { key: "reservas", label: "Reservas", icon: Clock },
   { key: "ledger", label: "Ledger", icon: BookOpen },
   { key: "reconciliacion", label: "Reconciliación", icon: ShieldCheck },
+  { key: "riesgo", label: "Riesgo", icon: Gauge },
 ];
 
 export function WalletGlobalTabs() {
@@ -291,6 +294,7 @@ export function WalletGlobalTabs() {
           setReconReport(report);
         } catch (e) { setError(String(e)); }
       }} />}
+      {activeSubtab === "riesgo" && <PortfolioRiskPanel />}
     </div>
   );
 }
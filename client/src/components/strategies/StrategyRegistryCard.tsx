@@ -0,0 +1,171 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Puzzle } from "lucide-react";
+import { toast } from "sonner";
+
+export interface StrategyParamSchema {
+  key: string;
+  label: string;
+  type: "number" | "boolean";
+  default: number | boolean;
+  min?: number;
+  max?: number;
+  description: string;
+}
+
+export interface StrategyDescriptor {
+  id: string;
+  name: string;
+  description: string;
+  signalMode: "cycle" | "candles";
+  timeframes: string[];
+  warmupLength: number;
+  cycleIntervalMs: number;
+  preferredRegimes: string[];
+  defaultExitProfile: { sgBeAtPct: number; sgTrailDistancePct: number; sgTrailStepPct: number; sgTpFixedPct: number };
+  paramsSchema: StrategyParamSchema[];
+  builtin: boolean;
+  source: string;
+}
+
+export interface StrategiesResponse {
+  strategies: StrategyDescriptor[];
+  globalStrategy: string;
+  signalTimeframe: string;
+  signalMode: "cycle" | "candles";
+  pairStrategies: Record<string, string>;
+}
+
+const GLOBAL = "__global__";
+
+export function useStrategies() {
+  return useQuery<StrategiesResponse>({
+    queryKey: ["strategies"],
+    queryFn: async () => {
+      const res = await fetch("/api/strategies");
+      if (!res.ok) throw new Error("Failed to fetch strategies");
+      return res.json();
+    },
+  });
+}
+
+export function StrategyRegistryCard({ activePairs }: { activePairs: string[] }) {
+  const queryClient = useQueryClient();
+  const { data } = useStrategies();
+
+  const assignMutation = useMutation({
+    mutationFn: async (pairStrategies: Record<string, string>) => {
+      const res = await fetch("/api/strategies/assignments", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pairStrategies }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update assignments");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["botConfig"] });
+      toast.success("Asignación de estrategias actualizada");
+    },
+    onError: (error: Error) => {
+      toast.error(`Error al asignar estrategia: ${error.message}`);
+    },
+  });
+
+  if (!data) return null;
+
+  const assign = (pair: string, strategyId: string) => {
+    const next = { ...data.pairStrategies };
+    if (strategyId === GLOBAL) delete next[pair];
+    else next[pair] = strategyId;
+    assignMutation.mutate(next);
+  };
+
+  const modeLabel = data.signalMode === "candles" ? `velas ${data.signalTimeframe}` : "ciclos";
+
+  return (
+    <Card className="glass-panel border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base md:text-lg">
+          <Puzzle className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+          Estrategias registradas
+        </CardTitle>
+        <CardDescription>
+          Plugins disponibles y estrategia por par. Modo actual: <span className="font-mono">{modeLabel}</span> — sólo se aplican las asignaciones de ese modo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {activePairs.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {activePairs.map((pair) => {
+              const assigned = data.pairStrategies[pair];
+              const plugin = data.strategies.find(s => s.id === assigned);
+              const inactive = plugin && plugin.signalMode !== data.signalMode;
+              return (
+                <div key={pair} className="flex items-center gap-2" data-testid={`pair-strategy-${pair.replace("/", "-")}`}>
+                  <span className="font-mono text-sm w-20 shrink-0">{pair}</span>
+                  <Select value={assigned ?? GLOBAL} onValueChange={(v) => assign(pair, v)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={GLOBAL}>Global ({data.signalMode === "candles" ? "router" : data.globalStrategy})</SelectItem>
+                      {data.strategies.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.name} <span className="text-muted-foreground">· {s.signalMode === "candles" ? "velas" : "ciclos"}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {inactive && (
+                    <Badge variant="outline" className="text-[10px] text-yellow-400 border-yellow-500/40 shrink-0">inactiva</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {data.strategies.map((s) => (
+            <div key={s.id} className="p-3 rounded-lg border border-border/50 space-y-2 text-xs" data-testid={`registry-strategy-${s.id}`}>
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium text-sm">{s.name}</span>
+                <Badge variant="outline" className="font-mono text-[10px]">{s.id}</Badge>
+                <Badge variant="secondary" className="text-[10px]">{s.signalMode === "candles" ? "velas" : "ciclos"}</Badge>
+                {!s.builtin && <Badge variant="outline" className="text-[10px] text-cyan-400 border-cyan-500/40">módulo</Badge>}
+              </div>
+              <div className="text-muted-foreground">{s.description}</div>
+              <div className="font-mono text-muted-foreground/80">
+                warm-up {s.warmupLength} · régimen {s.preferredRegimes.join("/") || "—"}
+                {s.timeframes.length > 0 && <> · {s.timeframes.join(", ")}</>}
+              </div>
+              <div className="font-mono text-muted-foreground/80">
+                salida: BE {s.defaultExitProfile.sgBeAtPct}% · trail {s.defaultExitProfile.sgTrailDistancePct}%/{s.defaultExitProfile.sgTrailStepPct}% · TP {s.defaultExitProfile.sgTpFixedPct}%
+              </div>
+              {s.paramsSchema.length > 0 && (
+                <table className="w-full">
+                  <tbody>
+                    {s.paramsSchema.map((p) => (
+                      <tr key={p.key} title={p.description}>
+                        <td className="font-mono pr-2">{p.key}</td>
+                        <td className="text-muted-foreground pr-2">{p.type}{p.min !== undefined && p.max !== undefined ? ` [${p.min}-${p.max}]` : ""}</td>
+                        <td className="font-mono">= {String(p.default)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,339 @@
+/**
+ * NotificationChannelsTab — Canales de alerta además de Telegram (notification_channels)
+ *
+ * Webhook firmado, email SMTP, ntfy, Gotify y Discord. Cada canal filtra por
+ * modo y severidad mínima; "sólo si Telegram falla" lo convierte en respaldo.
+ */
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Send, Plus, Trash2, Shield, X } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+type ChannelType = "webhook" | "email" | "ntfy" | "gotify" | "discord";
+
+interface NotificationChannel {
+  id: number;
+  name: string;
+  type: ChannelType;
+  isActive: boolean;
+  configJson: Record<string, any>;
+  enabledModes: string[];
+  minSeverity: string;
+  onlyOnTelegramFailure: boolean;
+  lastSentAt: string | null;
+  lastError: string | null;
+}
+
+type ChannelForm = Omit<NotificationChannel, "id" | "lastSentAt" | "lastError">;
+
+const TYPE_LABELS: Record<ChannelType, string> = {
+  webhook: "Webhook JSON firmado",
+  email: "Email (SMTP)",
+  ntfy: "ntfy",
+  gotify: "Gotify",
+  discord: "Discord",
+};
+
+const CONFIG_FIELDS: Record<ChannelType, { key: string; label: string; placeholder?: string; secret?: boolean }[]> = {
+  webhook: [
+    { key: "url", label: "URL", placeholder: "https://example.com/hooks/alerts" },
+    { key: "secret", label: "Secreto HMAC (X-Signature-256)", secret: true },
+  ],
+  email: [
+    { key: "host", label: "Servidor SMTP", placeholder: "smtp.example.com" },
+    { key: "port", label: "Puerto", placeholder: "587" },
+    { key: "username", label: "Usuario" },
+    { key: "password", label: "Contraseña", secret: true },
+    { key: "from", label: "Remitente", placeholder: "Bot <bot@example.com>" },
+    { key: "to", label: "Destinatarios (coma-separados)", placeholder: "ops@example.com" },
+  ],
+  ntfy: [
+    { key: "serverUrl", label: "Servidor", placeholder: "https://ntfy.sh" },
+    { key: "topic", label: "Topic" },
+    { key: "token", label: "Token de acceso (opcional)", secret: true },
+  ],
+  gotify: [
+    { key: "serverUrl", label: "Servidor", placeholder: "https://gotify.example.com" },
+    { key: "appToken", label: "Token de aplicación", secret: true },
+  ],
+  discord: [
+    { key: "webhookUrl", label: "Webhook URL", placeholder: "https://discord.com/api/webhooks/...", secret: true },
+    { key: "username", label: "Nombre del bot (opcional)" },
+  ],
+};
+
+const MODE_OPTIONS = [
+  { value: "spot", label: "SPOT" },
+  { value: "spot_dry_run", label: "SPOT Dry Run" },
+  { value: "idca", label: "IDCA" },
+  { value: "idca_hybrid", label: "IDCA Hybrid" },
+  { value: "smart_exit", label: "Smart Exit" },
+  { value: "grid", label: "Grid" },
+  { value: "ama", label: "AMA" },
+  { value: "fisco", label: "Fisco" },
+  { value: "system", label: "Sistema" },
+  { value: "ai", label: "IA" },
+];
+
+const SEVERITIES = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+const emptyForm = (): ChannelForm => ({
+  name: "",
+  type: "webhook",
+  isActive: true,
+  configJson: {},
+  enabledModes: [],
+  minSeverity: "HIGH",
+  onlyOnTelegramFailure: false,
+});
+
+async function apiJson(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "Failed");
+  return data;
+}
+
+export default function NotificationChannelsTab() {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [form, setForm] = useState<ChannelForm>(emptyForm());
+
+  const { data: channels = [], isLoading } = useQuery<NotificationChannel[]>({
+    queryKey: ["notificationChannels"],
+    queryFn: async () => {
+      const res = await fetch("/api/telegram/notification-channels");
+      if (!res.ok) throw new Error("Failed");
+      return res.json();
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["notificationChannels"] });
+
+  const saveChannel = useMutation({
+    mutationFn: async () => editingId === "new"
+      ? apiJson("/api/telegram/notification-channels", "POST", form)
+      : apiJson(`/api/telegram/notification-channels/${editingId}`, "PATCH", form),
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+      toast.success("Canal guardado");
+    },
+    onError: (err: Error) => toast.error(`Error al guardar canal: ${err.message}`),
+  });
+
+  const toggleChannel = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) =>
+      apiJson(`/api/telegram/notification-channels/${id}`, "PATCH", { isActive }),
+    onSuccess: invalidate,
+    onError: () => toast.error("Error al actualizar canal"),
+  });
+
+  const deleteChannel = useMutation({
+    mutationFn: async (id: number) => apiJson(`/api/telegram/notification-channels/${id}`, "DELETE"),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Canal eliminado");
+    },
+    onError: () => toast.error("Error al eliminar canal"),
+  });
+
+  const testChannel = useMutation({
+    mutationFn: async (id: number) => apiJson(`/api/telegram/notification-channels/${id}/test`, "POST"),
+    onSuccess: (data) => {
+      invalidate();
+      if (data.success) toast.success("Mensaje de prueba enviado");
+      else toast.error(`Prueba fallida: ${data.error}`);
+    },
+    onError: () => toast.error("Error al probar canal"),
+  });
+
+  const startEdit = (channel?: NotificationChannel) => {
+    setEditingId(channel ? channel.id : "new");
+    setForm(channel ? {
+      name: channel.name,
+      type: channel.type,
+      isActive: channel.isActive,
+      configJson: { ...channel.configJson },
+      enabledModes: channel.enabledModes ?? [],
+      minSeverity: channel.minSeverity,
+      onlyOnTelegramFailure: channel.onlyOnTelegramFailure,
+    } : emptyForm());
+  };
+
+  const toggleMode = (mode: string) => {
+    const modes = form.enabledModes.includes(mode)
+      ? form.enabledModes.filter(m => m !== mode)
+      : [...form.enabledModes, mode];
+    setForm({ ...form, enabledModes: modes });
+  };
+
+  const activeCount = channels.filter(c => c.isActive).length;
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border/50">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-500/20 rounded-lg">
+              <Send className="h-5 w-5 text-cyan-400" />
+            </div>
+            <div className="flex-1">
+              <CardTitle className="text-sm">Otros canales de alerta</CardTitle>
+              <CardDescription className="text-xs">
+                {activeCount} activos · {channels.length} total · Reciben las alertas que superan kill switch, silent mode, quiet hours, dedupe y rate limit
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Button size="sm" onClick={() => (editingId ? setEditingId(null) : startEdit())} className="w-full">
+            <Plus className="h-3 w-3 mr-1" /> {editingId ? "Cancelar" : "Añadir canal"}
+          </Button>
+
+          {editingId && (
+            <div className="p-4 rounded-lg border border-border/50 bg-muted/30 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold">{editingId === "new" ? "Nuevo canal" : "Editar canal"}</span>
+                <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setEditingId(null)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs">Nombre</Label>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="text-xs" />
+                </div>
+                <div>
+                  <Label className="text-xs">Tipo</Label>
+                  <select
+                    value={form.type}
+                    disabled={editingId !== "new"}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as ChannelType, configJson: {} })}
+                    className="w-full h-9 px-3 rounded-md border border-input bg-background text-xs"
+                  >
+                    {(Object.keys(TYPE_LABELS) as ChannelType[]).map(t => (
+                      <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {CONFIG_FIELDS[form.type].map(field => (
+                  <div key={field.key}>
+                    <Label className="text-xs">{field.label}</Label>
+                    <Input
+                      value={form.configJson[field.key] ?? ""}
+                      placeholder={field.placeholder}
+                      type={field.secret ? "password" : "text"}
+                      onChange={(e) => setForm({ ...form, configJson: { ...form.configJson, [field.key]: e.target.value } })}
+                      className="font-mono text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <Label className="text-xs">Modos (ninguno = todos)</Label>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {MODE_OPTIONS.map(m => (
+                    <Badge
+                      key={m.value}
+                      variant="outline"
+                      onClick={() => toggleMode(m.value)}
+                      className={`cursor-pointer text-[10px] ${form.enabledModes.includes(m.value) ? "text-cyan-400 border-cyan-500/50 bg-cyan-500/10" : "text-muted-foreground"}`}
+                    >
+                      {m.label}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs">Severidad mínima</Label>
+                  <select
+                    value={form.minSeverity}
+                    onChange={(e) => setForm({ ...form, minSeverity: e.target.value })}
+                    className="w-full h-9 px-3 rounded-md border border-input bg-background text-xs"
+                  >
+                    {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </div>
+                <div className="flex flex-col gap-2 justify-end">
+                  <div className="flex items-center gap-2">
+                    <Switch checked={form.isActive} onCheckedChange={(v) => setForm({ ...form, isActive: v })} />
+                    <Label className="text-xs">Activo</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch checked={form.onlyOnTelegramFailure} onCheckedChange={(v) => setForm({ ...form, onlyOnTelegramFailure: v })} />
+                    <Label className="text-xs">Sólo si Telegram falla (respaldo)</Label>
+                  </div>
+                </div>
+              </div>
+
+              <Button size="sm" disabled={!form.name || saveChannel.isPending} onClick={() => saveChannel.mutate()} className="w-full">
+                Guardar
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-4 text-muted-foreground text-xs">Cargando...</div>
+          ) : channels.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground text-xs">No hay canales adicionales configurados</div>
+          ) : (
+            <div className="space-y-2">
+              {channels.map((channel) => (
+                <div key={channel.id} className={`p-3 rounded-lg border ${channel.isActive ? "border-green-500/30 bg-green-500/5" : "border-red-500/30 bg-red-500/5"}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant="outline" className="text-[10px]">{TYPE_LABELS[channel.type] ?? channel.type}</Badge>
+                      <span className="text-sm font-medium">{channel.name}</span>
+                      <Badge variant="outline" className="text-[9px]">≥ {channel.minSeverity}</Badge>
+                      {channel.onlyOnTelegramFailure && (
+                        <Badge variant="outline" className="text-[9px] text-yellow-400 border-yellow-500/40">RESPALDO</Badge>
+                      )}
+                      <span className="text-[10px] text-muted-foreground">
+                        {channel.enabledModes?.length ? channel.enabledModes.join(", ") : "todos los modos"}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch checked={channel.isActive} onCheckedChange={(v) => toggleChannel.mutate({ id: channel.id, isActive: v })} />
+                      <Button size="sm" variant="ghost" className="h-7 text-[10px]" onClick={() => startEdit(channel)}>
+                        Editar
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-7 text-[10px]" onClick={() => testChannel.mutate(channel.id)} disabled={testChannel.isPending}>
+                        <Shield className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteChannel.mutate(channel.id)}>
+                        <Trash2 className="h-3 w-3 text-red-400" />
+                      </Button>
+                    </div>
+                  </div>
+                  {(channel.lastSentAt || channel.lastError) && (
+                    <div className="mt-1 text-[10px] font-mono text-muted-foreground">
+                      {channel.lastSentAt && <>Último envío: {new Date(channel.lastSentAt).toLocaleString("es-ES")}</>}
+                      {channel.lastError && <span className="text-red-400 ml-2">Error: {channel.lastError}</span>}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ interface AlertEvent {
   status: string;
   blockReason: string | null;
   chatId: string | null;
+  transport?: string;
+  notificationChannelId?: number | null;
   pair: string | null;
   dedupeKey: string | null;
   sentAt: string | null;
@@ -125,7 +127,7 @@ export default function TelegramAuditTab() {
                     <th className="text-left py-2 px-2 text-muted-foreground">Sev</th>
                     <th className="text-left py-2 px-2 text-muted-foreground">Estado</th>
                     <th className="text-left py-2 px-2 text-muted-foreground">Par</th>
-                    <th className="text-left py-2 px-2 text-muted-foreground">Chat</th>
+                    <th className="text-left py-2 px-2 text-muted-foreground">Canal</th>
                     <th className="text-left py-2 px-2 text-muted-foreground">Motivo</th>
                   </tr>
                 </thead>
@@ -142,7 +144,11 @@ export default function TelegramAuditTab() {
                         </Badge>
                       </td>
                       <td className="py-1.5 px-2 font-mono text-[10px]">{evt.pair || "—"}</td>
-                      <td className="py-1.5 px-2 font-mono text-[10px]">{evt.chatId || "—"}</td>
+                      <td className="py-1.5 px-2 font-mono text-[10px]">
+                        {evt.transport && evt.transport !== "telegram"
+                          ? `${evt.transport}#${evt.notificationChannelId ?? "?"}`
+                          : evt.chatId || "—"}
+                      </td>
                       <td className="py-1.5 px-2 text-[10px] text-muted-foreground">{evt.blockReason || evt.errorMessage || "—"}</td>
                     </tr>
                   ))}
@@ -99,6 +99,25 @@ const ALERT_SUBTYPES: { category: string; icon: string; subtypes: { key: string;
       { key: "fisco_error_sync", label: "Error de sincronización fiscal" },
     ],
   },
+  {
+    category: "Grid Isolated",
+    icon: "🧱",
+    subtypes: [
+      { key: "grid_cycle_fill", label: "Compra de ciclo ejecutada" },
+      { key: "grid_cycle_closed", label: "Ciclo cerrado (PnL)" },
+      { key: "grid_circuit_breaker", label: "Circuit breaker" },
+      { key: "grid_pump_dump_guard", label: "Pump/Dump guard" },
+      { key: "grid_range_rebuild", label: "Rango reconstruido" },
+    ],
+  },
+  {
+    category: "AMA",
+    icon: "🏦",
+    subtypes: [
+      { key: "ama_tranche_plan", label: "Nuevo plan de tramos" },
+      { key: "ama_real_gate_failed", label: "Gate REAL_LIMITED fallido" },
+    ],
+  },
 ];
 
 const MODE_OPTIONS = [
@@ -106,6 +125,7 @@ const MODE_OPTIONS = [
   { value: "SPOT_DRY_RUN", label: "SPOT Dry Run" },
   { value: "IDCA", label: "IDCA" },
   { value: "GRID", label: "Grid / Hybrid" },
+  { value: "AMA", label: "AMA" },
   { value: "SMART_EXIT", label: "Smart Exit" },
   { value: "FISCO", label: "Fiscalidad" },
   { value: "SYSTEM", label: "Sistema" },
@@ -119,6 +139,7 @@ const ALERT_OPTIONS = [
   { value: "balance", label: "Balance" },
   { value: "heartbeat", label: "Heartbeat" },
   { value: "grid", label: "Grid" },
+  { value: "ama", label: "AMA" },
   { value: "fiscal", label: "Fiscal" },
   { value: "smart_exit", label: "Smart Exit" },
   { value: "shadow", label: "Shadow" },
@@ -0,0 +1,187 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export type AuthRole = "viewer" | "operator" | "admin";
+
+export interface AuthMe {
+  userId: number | null;
+  username: string;
+  role: AuthRole;
+  authMethod: "session" | "api_key" | "legacy_token" | "disabled";
+  authDisabled: boolean;
+}
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: AuthRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeySummary {
+  id: number;
+  userId: number;
+  username: string;
+  label: string | null;
+  tokenPrefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface AuthAuditEntry {
+  id: number;
+  timestamp: string;
+  username: string | null;
+  role: string | null;
+  authMethod: string | null;
+  method: string;
+  path: string;
+  statusCode: number | null;
+  ip: string | null;
+}
+
+const ROLE_RANK: Record<AuthRole, number> = { viewer: 1, operator: 2, admin: 3 };
+
+export function hasRole(me: AuthMe | null | undefined, required: AuthRole): boolean {
+  return !!me && ROLE_RANK[me.role] >= ROLE_RANK[required];
+}
+
+async function jsonOrThrow(res: Response) {
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+/**
+ * Current principal. Resolves to null when the session is missing or expired,
+ * so the app can render the login screen instead.
+ */
+export function useAuthMe() {
+  return useQuery<AuthMe | null>({
+    queryKey: ["authMe"],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/me", { credentials: "include" });
+      if (res.status === 401) return null;
+      return jsonOrThrow(res);
+    },
+    refetchInterval: 60_000,
+    staleTime: 30_000,
+  });
+}
+
+export function useLogin() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (body: { username: string; password: string }) => {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body),
+      });
+      return jsonOrThrow(res);
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.invalidateQueries({ queryKey: ["authMe"] });
+    },
+  });
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
+      return jsonOrThrow(res);
+    },
+    onSettled: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["authMe"], null);
+    },
+  });
+}
+
+// ---- Admin: users, API keys, audit
+
+export function useAuthUsers(enabled: boolean) {
+  return useQuery<AuthUser[]>({
+    queryKey: ["authUsers"],
+    queryFn: async () => jsonOrThrow(await fetch("/api/auth/users")),
+    enabled,
+  });
+}
+
+export function useCreateAuthUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (body: { username: string; password: string; role: AuthRole }) => {
+      const res = await fetch("/api/auth/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      return jsonOrThrow(res);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["authUsers"] }),
+  });
+}
+
+export function useUpdateAuthUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...body }: { id: number; role?: AuthRole; isActive?: boolean; password?: string }) => {
+      const res = await fetch(`/api/auth/users/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      return jsonOrThrow(res);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["authUsers"] }),
+  });
+}
+
+export function useApiKeys(enabled: boolean) {
+  return useQuery<ApiKeySummary[]>({
+    queryKey: ["authApiKeys"],
+    queryFn: async () => jsonOrThrow(await fetch("/api/auth/api-keys")),
+    enabled,
+  });
+}
+
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+  return useMutation<{ token: string; apiKey: ApiKeySummary }, Error, { userId: number; label?: string }>({
+    mutationFn: async (body) => {
+      const res = await fetch("/api/auth/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      return jsonOrThrow(res);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["authApiKeys"] }),
+  });
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => jsonOrThrow(await fetch(`/api/auth/api-keys/${id}`, { method: "DELETE" })),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["authApiKeys"] }),
+  });
+}
+
+export function useAuthAudit(enabled: boolean, limit = 50) {
+  return useQuery<AuthAuditEntry[]>({
+    queryKey: ["authAudit", limit],
+    queryFn: async () => jsonOrThrow(await fetch(`/api/auth/audit?limit=${limit}`)),
+    enabled,
+    refetchInterval: enabled ? 30_000 : false,
+  });
+}
@@ -91,6 +91,13 @@ export interface IdcaAssetConfig {
   trailingMarginPct: string;
   cooldownMinutesBetweenBuys: number;
   maxCycleDurationHours: number;
+  // Per-asset guardrails — null falls back to the global BTC/ETH values
+  minTrailingPct: string | null;
+  maxTrailingPct: string | null;
+  minTpPct: string | null;
+  maxTpPct: string | null;
+  maxAssetExposurePct: string | null;
+  btcGateEnabled: boolean | null;
   // Ladder ATRP config
   ladderAtrpConfigJson?: {
     enabled: boolean;
@@ -730,6 +737,19 @@ export function useUpdateAssetConfig() {
   });
 }
 
+export function useCreateAssetConfig() {
+  const qc = useQueryClient();
+  return useMutation<IdcaAssetConfig, Error, { pair: string; enabled?: boolean }>({
+    mutationFn: async (body) => {
+      const res = await apiRequest("POST", `${PREFIX}/asset-configs`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["idca", "assetConfigs"] });
+    },
+  });
+}
+
 export function useUpdateTrailingBuyPolicy() {
   const qc = useQueryClient();
   return useMutation({
@@ -1628,3 +1648,121 @@ export function useIdcaPerformance(mode?: string) {
     staleTime: 30000,
   });
 }
+
+// ─── Backtests ─────────────────────────────────────────────────────
+
+export interface IdcaBacktestOrder {
+  orderType: string;
+  time: string;
+  price: number;
+  quantity: number;
+  grossValueUsd: number;
+  feesUsd: number;
+  slippageUsd: number;
+  netValueUsd: number;
+  reason: string;
+}
+
+export interface IdcaBacktestCycle {
+  id: number;
+  cycleType: "main" | "plus" | "recovery";
+  parentCycleId: number | null;
+  entrySource: "normal" | "trailing_buy";
+  openedAt: string;
+  closedAt: string | null;
+  closeReason: string | null;
+  buyCount: number;
+  avgEntryPrice: number;
+  exitPrice: number | null;
+  capitalUsedUsd: number;
+  realizedPnlUsd: number | null;
+  realizedPnlPct: number | null;
+  maxDrawdownPct: number;
+  durationHours: number | null;
+  marketScore: number | null;
+  sizeProfile: string | null;
+  orders: IdcaBacktestOrder[];
+}
+
+export interface IdcaBacktestResults {
+  pair: string;
+  timeframe: "15m" | "1h" | "4h";
+  fromDate: string;
+  toDate: string;
+  summary: {
+    candlesProcessed: number;
+    cyclesCount: number;
+    cyclesByType: Record<"main" | "plus" | "recovery", number>;
+    wins: number;
+    losses: number;
+    winRatePct: number;
+    totalReturnUsd: number;
+    totalReturnPct: number;
+    maxDrawdownPct: number;
+    profitFactor: number | null;
+    avgCycleDurationHours: number;
+    totalFeesUsd: number;
+    initialBalanceUsd: number;
+    finalEquityUsd: number;
+    closeReasons: Record<string, number>;
+  };
+  cycles: IdcaBacktestCycle[];
+  entryBlocks: Record<string, number>;
+  equityCurve: { time: string; equityUsd: number }[];
+  assumptions: { feePct: number; slippagePct: number; fillModel: string; anchorModel: string };
+}
+
+export interface IdcaBacktest {
+  id: number;
+  pair: string;
+  fromDate: string;
+  toDate: string;
+  configSnapshotJson: Record<string, any>;
+  totalReturnPct: string | null;
+  totalReturnUsd: string | null;
+  maxDrawdownPct: string | null;
+  winRatePct: string | null;
+  profitFactor: string | null;
+  cyclesCount: number | null;
+  avgCycleDurationHours: string | null;
+  resultsJson: IdcaBacktestResults | null;
+  createdAt: string;
+}
+
+export interface IdcaBacktestRunParams {
+  pair: string;
+  fromDate: string;
+  toDate: string;
+  timeframe?: "15m" | "1h" | "4h";
+  initialBalanceUsd?: number;
+  config?: Record<string, unknown>;
+  assetConfig?: Record<string, unknown>;
+}
+
+export function useIdcaBacktests() {
+  return useQuery<IdcaBacktest[]>({
+    queryKey: ["idca", "backtests"],
+    queryFn: async () => {
+      const res = await fetch(`${PREFIX}/backtests`);
+      if (!res.ok) throw new Error("Failed to fetch IDCA backtests");
+      return res.json();
+    },
+  });
+}
+
+export function useRunIdcaBacktest() {
+  const qc = useQueryClient();
+  return useMutation<{ backtest: IdcaBacktest | null; results: IdcaBacktestResults }, Error, IdcaBacktestRunParams>({
+    mutationFn: async (params) => {
+      const res = await apiRequest("POST", `${PREFIX}/backtests/run`, params);
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Unknown error" }));
+        throw new Error(err.error || "Failed to run backtest");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["idca", "backtests"] });
+    },
+  });
+}
@@ -163,6 +163,209 @@ function ResumenTab({ status, diag, validSamples, minSamples, labeled, progress
   );
 }
 
+function ModelVersionsCard() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const { data: modelsData } = useQuery({
+    queryKey: ["/api/ai/models"],
+    queryFn: () => API("/api/ai/models"),
+  });
+
+  const rollbackMut = useMutation({
+    mutationFn: (version?: string) => postAPI("/api/ai/models/rollback", version ? { version } : undefined),
+    onSuccess: (data) => {
+      if (data.success) {
+        toast({ title: "Modelo revertido", description: data.message });
+      } else {
+        toast({ variant: "destructive", title: "No se pudo revertir", description: data.message });
+      }
+      qc.invalidateQueries({ queryKey: ["/api/ai/models"] });
+      qc.invalidateQueries({ queryKey: ["/api/ai/models/insights"] });
+      qc.invalidateQueries({ queryKey: ["/api/ai/status"] });
+      qc.invalidateQueries({ queryKey: ["/api/ai/shadow/report"] });
+    },
+    onError: () => toast({ variant: "destructive", title: "Error al revertir el modelo" }),
+  });
+
+  const models: any[] = modelsData?.models ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <Brain className="h-4 w-4 text-purple-400" />
+          Versiones del Modelo
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Cada entrenamiento guarda una versión nueva. El modelo anterior se sigue puntuando en modo observador para compararlos, y puedes volver a él en cualquier momento.
+        </p>
+        {models.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Todavía no hay modelos exportados. Entrena la IA para crear el primero.</p>
+        ) : (
+          <div className="space-y-2">
+            {models.map((m) => (
+              <div key={m.version} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-white/5 border border-white/10">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono truncate">{m.version}</span>
+                    {m.active && <Badge className="text-[10px] bg-green-500/20 text-green-400 border-green-500/30">Activo</Badge>}
+                    {m.previous && <Badge variant="outline" className="text-[10px]">Anterior</Badge>}
+                  </div>
+                  <p className="text-[11px] text-muted-foreground">
+                    {m.error
+                      ? <span className="text-red-400">{m.error}</span>
+                      : <>{formatDate(m.createdAt)} · {m.trees} árboles · acc {pct(m.metrics?.accuracy)} · prec {pct(m.metrics?.precision)}</>}
+                  </p>
+                </div>
+                {!m.active && !m.error && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="font-mono text-xs shrink-0"
+                    disabled={rollbackMut.isPending}
+                    onClick={() => {
+                      if (!window.confirm(`¿Activar el modelo ${m.version}? El modelo actual pasará a ser el anterior.`)) return;
+                      rollbackMut.mutate(m.version);
+                    }}
+                  >
+                    {rollbackMut.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Activar"}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ModelInsightsCard() {
+  const [segmentKey, setSegmentKey] = useState<string>("pooled");
+
+  const { data: insights } = useQuery({
+    queryKey: ["/api/ai/models/insights"],
+    queryFn: () => API("/api/ai/models/insights"),
+  });
+
+  const segments: any[] = insights?.pooled ? [insights.pooled, ...(insights.segments ?? [])] : [];
+  const selected = segments.find((s) => s.key === segmentKey) ?? segments[0] ?? null;
+  const topFeatures: any[] = (selected?.featureImportance ?? []).slice(0, 8);
+  const maxImportance = topFeatures[0]?.importance || 1;
+  const store = insights?.featureStore;
+  const byPair: any[] = store?.byPair ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <BarChart3 className="h-4 w-4 text-cyan-400" />
+          Por qué decide la IA
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Cada decisión de compra guarda sus indicadores, régimen, alineación multi-timeframe y métricas de expansión. Con datos suficientes se entrena un modelo por par y régimen; si no, se usa el modelo global.
+        </p>
+
+        {!selected ? (
+          <p className="text-xs text-muted-foreground">No hay un modelo activo con datos de importancia. Entrena la IA para verlos.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-1.5">
+              {segments.map((s) => (
+                <Button
+                  key={s.key}
+                  size="sm"
+                  variant={s.key === selected.key ? "default" : "outline"}
+                  className="font-mono text-[11px] h-7 px-2"
+                  onClick={() => setSegmentKey(s.key)}
+                >
+                  {s.key === "pooled" ? "Global" : s.key.replace("|*", "").replace("*|", "")}
+                </Button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <MetricBox label="Muestras" value={selected.metrics?.nSamples ?? "—"} sub={`${selected.trees} árboles`} />
+              <MetricBox label="Win Rate" value={pct(selected.metrics?.winRate)} sub="histórico del segmento" />
+              <MetricBox label="Precisión" value={pct(selected.metrics?.precision)} sub="validación" />
+              <MetricBox label="Brier" value={selected.calibration?.brier != null ? selected.calibration.brier.toFixed(3) : "—"} sub="menor es mejor" />
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-mono text-muted-foreground">Features más influyentes</p>
+              {topFeatures.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Este modelo no incluye importancia de features.</p>
+              ) : (
+                topFeatures.map((f) => (
+                  <div key={f.feature} className="flex items-center gap-2">
+                    <span className="text-[11px] font-mono w-40 truncate">{f.feature}</span>
+                    <div className="flex-1 h-2 rounded bg-white/5">
+                      <div className="h-2 rounded bg-cyan-500/60" style={{ width: `${(f.importance / maxImportance) * 100}%` }} />
+                    </div>
+                    <span className="text-[11px] font-mono w-12 text-right">{pct(f.importance)}</span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {selected.calibration?.bins?.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-mono text-muted-foreground">Calibración (probabilidad predicha vs. resultado real)</p>
+                <div className="grid grid-cols-4 gap-2 text-[11px] font-mono text-muted-foreground">
+                  <span>Rango</span><span className="text-right">Trades</span><span className="text-right">Predicho</span><span className="text-right">Real</span>
+                </div>
+                {selected.calibration.bins.map((b: any) => (
+                  <div key={b.lo} className="grid grid-cols-4 gap-2 text-[11px] font-mono">
+                    <span>{(b.lo * 100).toFixed(0)}–{(b.hi * 100).toFixed(0)}%</span>
+                    <span className="text-right">{b.count}</span>
+                    <span className="text-right">{pct(b.meanPredicted)}</span>
+                    <span className="text-right">{pct(b.winRate)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <Separator />
+
+        <div className="space-y-1">
+          <p className="text-xs font-mono text-muted-foreground">
+            Decisiones por par (últimos {store?.days ?? 30} días) · feature store {store?.featureSetVersion ?? "—"}: {store?.labeledCurrentVersion ?? 0} etiquetadas de {store?.total ?? 0}
+          </p>
+          {!store?.tableExists ? (
+            <p className="text-xs text-muted-foreground">La tabla ai_feature_store no existe todavía. Ejecuta las migraciones.</p>
+          ) : byPair.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Sin decisiones registradas en el periodo.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-6 gap-2 text-[11px] font-mono text-muted-foreground">
+                <span>Par</span><span className="text-right">Decisiones</span><span className="text-right">Bloqueo</span>
+                <span className="text-right">Score medio</span><span className="text-right">Win Rate</span><span className="text-right">Modelo</span>
+              </div>
+              {byPair.map((p) => (
+                <div key={p.pair} className="grid grid-cols-6 gap-2 text-[11px] font-mono">
+                  <span>{p.pair}</span>
+                  <span className="text-right">{p.decisions}</span>
+                  <span className={`text-right ${p.blockRate != null && p.blockRate > 0.5 ? "text-red-400" : ""}`}>{pct(p.blockRate)}</span>
+                  <span className="text-right">{p.avgScore != null ? p.avgScore.toFixed(3) : "—"}</span>
+                  <span className="text-right">{pct(p.winRate)}</span>
+                  <span className="text-right truncate">{p.topSegment ?? "—"}</span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function AprendizajeTab({ status, diag, validSamples, minSamples, labeled, progress, discardReasons, lastBackfillDiscard, totalDiscard }: any) {
   const { toast } = useToast();
   const qc = useQueryClient();
@@ -172,6 +375,8 @@ function AprendizajeTab({ status, diag, validSamples, minSamples, labeled, progr
     setRefreshing(true);
     await qc.invalidateQueries({ queryKey: ["/api/ai/status"] });
     await qc.invalidateQueries({ queryKey: ["/api/ai/diagnostic"] });
+    await qc.invalidateQueries({ queryKey: ["/api/ai/models"] });
+    await qc.invalidateQueries({ queryKey: ["/api/ai/models/insights"] });
     setRefreshing(false);
   };
 
@@ -271,6 +476,10 @@ function AprendizajeTab({ status, diag, validSamples, minSamples, labeled, progr
         </CardContent>
       </Card>
 
+      <ModelVersionsCard />
+
+      <ModelInsightsCard />
+
       {totalDiscard > 0 && (
         <Card>
           <CardHeader>
@@ -474,6 +683,32 @@ function ObservacionTab({ status, shadowReport, shadowTotal, shadowPending, shad
                 </>
               )}
 
+              {shadowReport?.modelComparison && (
+                <>
+                  <Separator />
+                  <div className="p-3 rounded-lg bg-white/[0.03] border border-white/10 space-y-2">
+                    <p className="text-xs font-semibold text-purple-300">
+                      Comparación de modelos: <span className="font-mono">{shadowReport.modelComparison.modelVersion ?? "—"}</span> (activo) vs{" "}
+                      <span className="font-mono">{shadowReport.modelComparison.compareModelVersion}</span> (anterior)
+                    </p>
+                    <div className="grid grid-cols-3 gap-3">
+                      <MetricBox label="Comparadas" value={shadowReport.modelComparison.compared} sub="mismas señales" />
+                      <MetricBox label="Coincidencia" value={shadowReport.modelComparison.agreementPct.toFixed(1) + "%"} sub="misma decisión" />
+                      <MetricBox label="Δ score medio" value={(shadowReport.modelComparison.avgScoreDelta * 100).toFixed(1) + " pts"} sub="activo − anterior" />
+                    </div>
+                    {shadowReport.modelComparison.evaluated > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Con resultado conocido ({shadowReport.modelComparison.evaluated}): el activo habría evitado{" "}
+                        <strong className="text-white">{shadowReport.modelComparison.activeBlockedLosers}</strong> pérdidas
+                        ({shadowReport.modelComparison.activeBlockedWinners} ganadoras bloqueadas); el anterior{" "}
+                        <strong className="text-white">{shadowReport.modelComparison.compareBlockedLosers}</strong>
+                        ({shadowReport.modelComparison.compareBlockedWinners} ganadoras bloqueadas).
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+
               {/* C: Resumen agregado con interpretación */}
               {avgScore !== null && (
                 <>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Download, Trash2, Star, RefreshCw, Database, Code, HardDrive, AlertTriangle, CheckCircle, Clock, RotateCcw } from 'lucide-react';
+import { Download, Trash2, Star, RefreshCw, Database, Code, HardDrive, AlertTriangle, CheckCircle, Clock, RotateCcw, Lock, ShieldCheck, CalendarClock } from 'lucide-react';
 import { Nav } from '@/components/dashboard/Nav';
 
 interface BackupFile {
@@ -10,6 +10,7 @@ interface BackupFile {
   createdAt: string;
   isMaster: boolean;
   masterInfo?: MasterBackup;
+  encrypted?: boolean;
 }
 
 interface MasterBackup {
@@ -36,6 +37,37 @@ interface DiskSpace {
   percentage: string;
 }
 
+interface BackupRun {
+  id: number;
+  kind: 'daily' | 'weekly' | 'drill';
+  backupName: string | null;
+  status: 'running' | 'ok' | 'warning' | 'failed';
+  error: string | null;
+  details: {
+    checks?: Array<{ name: string; expected: number | null; actual: number | null; status: string }>;
+    retentionDeleted?: string[];
+    psqlErrors?: number;
+    checksum?: unknown;
+  };
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface ScheduleData {
+  config: {
+    enabled: boolean;
+    dailyCron: string;
+    weeklyCron: string;
+    drillCron: string;
+    retentionDaily: number;
+    retentionWeekly: number;
+    drillRowTolerance: number;
+    encryptionEnabled: boolean;
+  };
+  busy: boolean;
+  runs: BackupRun[];
+}
+
 interface BackupsData {
   backups: BackupFile[];
   diskSpace: DiskSpace;
@@ -63,11 +95,56 @@ export default function Backups() {
   const [createName, setCreateName] = useState('');
   const [masterNotes, setMasterNotes] = useState('');
   const [restoreConfirmation, setRestoreConfirmation] = useState('');
+  const [schedule, setSchedule] = useState<ScheduleData | null>(null);
 
   useEffect(() => {
     loadBackups();
+    loadSchedule();
   }, []);
 
+  const loadSchedule = async () => {
+    try {
+      const response = await fetch('/api/backups/schedule');
+      if (response.ok) setSchedule(await response.json());
+    } catch (error) {
+      console.error('Error loading backup schedule:', error);
+    }
+  };
+
+  const runDrill = async () => {
+    if (!confirm('¿Ejecutar ahora un restore drill del último backup de base de datos?')) return;
+
+    try {
+      const response = await fetch('/api/backups/drill', { method: 'POST' });
+      if (response.ok) {
+        alert('Restore drill iniciado. El resultado aparecerá en el historial.');
+        await loadSchedule();
+      } else {
+        const error = await response.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error starting restore drill:', error);
+    }
+  };
+
+  const verifyBackup = async (name: string) => {
+    try {
+      const response = await fetch(`/api/backups/${name}/verify`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Error: ${result.error}`);
+      } else if (result.success) {
+        alert(`✓ Checksum correcto (${result.files.length} fichero/s)`);
+      } else {
+        const detail = result.error || result.files.filter((f: any) => !f.ok).map((f: any) => `${f.file}: ${f.error}`).join('\n');
+        alert(`✗ Verificación fallida\n${detail}`);
+      }
+    } catch (error) {
+      console.error('Error verifying backup:', error);
+    }
+  };
+
   const loadBackups = async () => {
     try {
       const response = await fetch('/api/backups');
@@ -234,6 +311,19 @@ export default function Backups() {
     }
   };
 
+  const getRunStatusColor = (status: BackupRun['status']) => {
+    switch (status) {
+      case 'ok':
+        return 'text-green-500';
+      case 'warning':
+        return 'text-yellow-500';
+      case 'failed':
+        return 'text-red-500';
+      default:
+        return 'text-muted-foreground';
+    }
+  };
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'database':
@@ -308,6 +398,64 @@ export default function Backups() {
         </div>
       )}
 
+      {/* Schedule + Restore Drill */}
+      {schedule && (
+        <div className="bg-card rounded-lg p-4 border border-border space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <CalendarClock className="w-5 h-5 text-muted-foreground" />
+              <div>
+                <p className="text-sm font-medium text-foreground">Programación y restore drill</p>
+                <p className="text-xs text-muted-foreground">
+                  {schedule.config.enabled
+                    ? `Diario ${schedule.config.dailyCron} (conserva ${schedule.config.retentionDaily}) · Semanal ${schedule.config.weeklyCron} (conserva ${schedule.config.retentionWeekly}) · Drill ${schedule.config.drillCron}`
+                    : 'Backups automáticos desactivados (BACKUP_SCHEDULE_ENABLED)'}
+                  {schedule.config.encryptionEnabled && ' · cifrado AES-256'}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={loadSchedule} className="p-1.5 text-muted-foreground hover:bg-muted rounded" title="Actualizar"><RefreshCw className="w-4 h-4" /></button>
+              <button
+                onClick={runDrill}
+                disabled={schedule.busy}
+                className="px-3 py-1.5 bg-primary text-primary-foreground rounded hover:bg-primary/90 text-sm disabled:opacity-50"
+              >
+                {schedule.busy ? 'En curso...' : 'Ejecutar drill'}
+              </button>
+            </div>
+          </div>
+          {schedule.runs.length > 0 && (
+            <div className="divide-y divide-border text-xs">
+              {schedule.runs.slice(0, 8).map((run) => {
+                const failedChecks = (run.details.checks || []).filter(c => c.status !== 'ok');
+                return (
+                  <div key={run.id} className="py-2 flex items-start justify-between gap-4">
+                    <div>
+                      <span className="font-medium text-foreground">{run.kind}</span>
+                      {run.backupName && <span className="text-muted-foreground"> · {run.backupName}</span>}
+                      {run.error && <p className="text-red-400">{run.error}</p>}
+                      {failedChecks.map(c => (
+                        <p key={c.name} className="text-muted-foreground">
+                          {c.name}: esperado {c.expected ?? '—'}, restaurado {c.actual ?? '—'}
+                        </p>
+                      ))}
+                      {!!run.details.checks?.length && failedChecks.length === 0 && (
+                        <p className="text-muted-foreground">{run.details.checks.length} checks OK</p>
+                      )}
+                    </div>
+                    <div className="text-right whitespace-nowrap">
+                      <p className={`font-semibold uppercase ${getRunStatusColor(run.status)}`}>{run.status}</p>
+                      <p className="text-muted-foreground">{formatDate(run.startedAt)}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Master Backups */}
       {masterBackups.length > 0 && (
         <div className="space-y-3">
@@ -422,12 +570,18 @@ export default function Backups() {
                       <span className="text-xs font-medium">{backup.type}</span>
                     </div>
                   </td>
-                  <td className="px-4 py-3 text-sm font-medium text-foreground">{backup.name}</td>
+                  <td className="px-4 py-3 text-sm font-medium text-foreground">
+                    <div className="flex items-center gap-2">
+                      {backup.name}
+                      {backup.encrypted && <span title="Cifrado en reposo"><Lock className="w-3.5 h-3.5 text-muted-foreground" /></span>}
+                    </div>
+                  </td>
                   <td className="px-4 py-3 text-sm text-muted-foreground">{formatDate(backup.createdAt)}</td>
                   <td className="px-4 py-3 text-sm text-muted-foreground">{backup.size}</td>
                   <td className="px-4 py-3">
                     <div className="flex items-center justify-end gap-2">
                       <button onClick={() => { setSelectedBackup(backup); setShowMasterModal(true); }} className="p-1.5 text-yellow-500 hover:bg-yellow-500/10 rounded" title="Marcar como maestro"><Star className="w-4 h-4" /></button>
+                      <button onClick={() => verifyBackup(backup.name)} className="p-1.5 text-blue-500 hover:bg-blue-500/10 rounded" title="Verificar checksum"><ShieldCheck className="w-4 h-4" /></button>
                       <button onClick={() => { setSelectedBackup(backup); setShowRestoreModal(true); }} className="p-1.5 text-green-500 hover:bg-green-500/10 rounded" title="Restaurar"><RotateCcw className="w-4 h-4" /></button>
                       <button onClick={() => deleteBackup(backup.name)} className="p-1.5 text-red-500 hover:bg-red-500/10 rounded" title="Eliminar"><Trash2 className="w-4 h-4" /></button>
                     </div>
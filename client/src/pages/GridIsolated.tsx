@@ -6,7 +6,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { Activity, RefreshCw, Lightbulb } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity, RefreshCw, Lightbulb, Plus } from "lucide-react";
 import { GridOperationalHeader } from "@/components/grid/GridOperationalHeader";
 import { GridOverviewPanel } from "@/components/grid/GridOverviewPanel";
 import { GridOpenCyclesPanel } from "@/components/grid/GridOpenCyclesPanel";
@@ -19,27 +21,57 @@ import type { ConfigurationRecommendation, RecommendationAlternative } from "@sh
 
 const API_BASE = "/api/grid-isolated";
 
+interface GridInstanceSummary {
+  pair: string;
+  mode: string;
+  isActive: boolean;
+  isRunning: boolean;
+  isDefault: boolean;
+}
+
+/** Appends ?pair= so every call targets the selected Grid instance. */
+function withPair(path: string, pair: string | null): string {
+  if (!pair) return `${API_BASE}${path}`;
+  const sep = path.includes("?") ? "&" : "?";
+  return `${API_BASE}${path}${sep}pair=${encodeURIComponent(pair)}`;
+}
+
 export default function GridIsolated() {
   const queryClient = useQueryClient();
   const refreshAudit = () => queryClient.invalidateQueries({ queryKey: ["grid-audit"] });
   const [activeTab, setActiveTab] = useState("resumen");
   const [recDialogOpen, setRecDialogOpen] = useState(false);
   const [highlightedSettings, setHighlightedSettings] = useState<string[]>([]);
+  const [selectedPair, setSelectedPair] = useState<string | null>(null);
+  const [newPair, setNewPair] = useState("");
 
   // ─── Queries ─────────────────────────────────────────────
+  const { data: instances = [] } = useQuery<GridInstanceSummary[]>({
+    queryKey: ["grid-instances"],
+    queryFn: async () => {
+      const res = await fetch(`${API_BASE}/instances`);
+      if (!res.ok) throw new Error("Failed to load instances");
+      return res.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  // Sin selección explícita se usa la instancia por defecto
+  const activePair = selectedPair ?? instances.find(i => i.isDefault)?.pair ?? null;
+
   const { data: config, isLoading: configLoading } = useQuery({
-    queryKey: ["grid-config"],
+    queryKey: ["grid-config", activePair],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE}/config`);
+      const res = await fetch(withPair("/config", activePair));
       if (!res.ok) throw new Error("Failed to load config");
       return res.json();
     },
   });
 
   const { data: status } = useQuery({
-    queryKey: ["grid-status"],
+    queryKey: ["grid-status", activePair],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE}/status`);
+      const res = await fetch(withPair("/status", activePair));
       if (!res.ok) throw new Error("Failed to load status");
       return res.json();
     },
@@ -47,9 +79,9 @@ export default function GridIsolated() {
   });
 
   const { data: auditData } = useQuery({
-    queryKey: ["grid-audit"],
+    queryKey: ["grid-audit", activePair],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE}/monitor/audit`);
+      const res = await fetch(withPair("/monitor/audit", activePair));
       if (!res.ok) throw new Error("Failed to load audit");
       return res.json();
     },
@@ -84,7 +116,7 @@ export default function GridIsolated() {
   // ─── Mutations ───────────────────────────────────────────
   const activateMutation = useMutation({
     mutationFn: async (active: boolean) => {
-      const res = await fetch(`${API_BASE}/activate`, {
+      const res = await fetch(withPair("/activate", activePair), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ active }),
@@ -95,12 +127,13 @@ export default function GridIsolated() {
       queryClient.invalidateQueries({ queryKey: ["grid-config"] });
       queryClient.invalidateQueries({ queryKey: ["grid-status"] });
       queryClient.invalidateQueries({ queryKey: ["grid-audit"] });
+      queryClient.invalidateQueries({ queryKey: ["grid-instances"] });
     },
   });
 
   const shadowValidateMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch(`${API_BASE}/shadow-validate`, {
+      const res = await fetch(withPair("/shadow-validate", activePair), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({}),
@@ -115,7 +148,7 @@ export default function GridIsolated() {
 
   const configMutation = useMutation({
     mutationFn: async (updates: Record<string, any>) => {
-      const res = await fetch(`${API_BASE}/config`, {
+      const res = await fetch(withPair("/config", activePair), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(updates),
@@ -128,6 +161,24 @@ export default function GridIsolated() {
     },
   });
 
+  const createInstanceMutation = useMutation({
+    mutationFn: async (pair: string) => {
+      const res = await fetch(`${API_BASE}/instances`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pair }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Error al crear la instancia");
+      return data as { pair: string };
+    },
+    onSuccess: (data) => {
+      setNewPair("");
+      setSelectedPair(data.pair);
+      queryClient.invalidateQueries({ queryKey: ["grid-instances"] });
+    },
+  });
+
   const mode = config?.mode || "OFF";
   const isActive = config?.isActive ?? false;
   const isRunning = status?.isRunning ?? false;
@@ -159,6 +210,41 @@ export default function GridIsolated() {
           <CardContent className="p-3">
             <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-3">
               <div className="flex flex-wrap items-center gap-2 w-full md:w-auto">
+                <Select value={activePair ?? undefined} onValueChange={setSelectedPair}>
+                  <SelectTrigger className="h-8 w-[160px] text-xs" data-testid="select-grid-instance">
+                    <SelectValue placeholder="Instancia" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {instances.map(inst => (
+                      <SelectItem key={inst.pair} value={inst.pair} className="text-xs">
+                        {inst.pair} · {inst.mode}{inst.isRunning ? " · en marcha" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={newPair}
+                    onChange={(e) => setNewPair(e.target.value.toUpperCase())}
+                    placeholder="ETH/USD"
+                    className="h-8 w-[100px] text-xs"
+                    data-testid="input-grid-new-pair"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-xs h-8"
+                    onClick={() => createInstanceMutation.mutate(newPair.trim())}
+                    disabled={!newPair.trim() || createInstanceMutation.isPending}
+                    title="Crear instancia Grid (modo OFF)"
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Instancia
+                  </Button>
+                </div>
+                {createInstanceMutation.isError && (
+                  <span className="text-xs text-red-400">{(createInstanceMutation.error as Error).message}</span>
+                )}
                 <div className="flex items-center gap-2 rounded-md border border-border/50 px-3 py-1.5">
                   <Switch
                     id="grid-active"
@@ -270,7 +356,7 @@ export default function GridIsolated() {
             setActiveTab("ajustes");
           }}
           onApply={async (alt: RecommendationAlternative, rec: ConfigurationRecommendation) => {
-            const res = await fetch(`${API_BASE}/config/recommendation/apply`, {
+            const res = await fetch(withPair("/config/recommendation/apply", activePair), {
               method: "POST",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -37,6 +37,7 @@ import {
   useUpdateIdcaControls,
   useUpdateIdcaConfig,
   useUpdateAssetConfig,
+  useCreateAssetConfig,
   useEmergencyCloseAll,
   useResetSimulationWallet,
   useIdcaTelegramTest,
@@ -62,6 +63,10 @@ import {
   useAllMarketDataHealth,
   useIdcaEntryDiagnostics,
   useIdcaPerformance,
+  useIdcaBacktests,
+  useRunIdcaBacktest,
+  type IdcaAssetConfig,
+  type IdcaBacktestResults,
   type MarketContextPreview,
 } from "@/hooks/useInstitutionalDca";
 import {
@@ -286,8 +291,7 @@ function ControlsBar() {
   const isPaused = controls?.globalTradingPause ?? false;
   const mode = config?.mode || "disabled";
 
-  const btc = assetConfigs?.find((a: any) => a.pair === "BTC/USD");
-  const eth = assetConfigs?.find((a: any) => a.pair === "ETH/USD");
+  const pairAssets = [...(assetConfigs ?? [])].sort((a, b) => a.pair.localeCompare(b.pair));
 
   const handlePairToggle = (pair: string, newEnabled: boolean) => {
     updateAssetCtrl.mutate({ pair, enabled: newEnabled }, {
@@ -374,41 +378,21 @@ function ControlsBar() {
         </div>
 
         {/* Per-pair operation toggles */}
-        {(btc || eth) && (
+        {pairAssets.length > 0 && (
           <div className="flex flex-wrap items-center gap-3 pt-1 border-t border-border/30">
             <span className="text-[10px] font-mono text-muted-foreground/70 uppercase tracking-wider">Operativa par</span>
-            {btc && (
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <div className="flex items-center gap-1.5">
-                    <Switch
-                      checked={btc.enabled}
-                      onCheckedChange={(v) => handlePairToggle(btc.pair, v)}
-                      className="scale-75"
-                    />
-                    <span className="text-xs font-mono">BTC/USD</span>
-                    <Badge variant="outline" className={cn("text-[10px] font-mono px-1.5 py-0", btc.enabled ? "text-green-400 border-green-400/50 bg-green-400/5" : "text-amber-400 border-amber-400/50 bg-amber-400/5")}>
-                      {btc.enabled ? "Activo" : "Solo salidas"}
-                    </Badge>
-                  </div>
-                </TooltipTrigger>
-                <TooltipContent side="bottom" className="max-w-xs text-xs">
-                  Activo: el par puede abrir ciclos y hacer compras. Solo salidas: no hará nuevas compras, safety buys, Plus ni Recovery, pero seguirá permitiendo TP, trailing, break-even y cierre manual.
-                </TooltipContent>
-              </Tooltip>
-            )}
-            {eth && (
-              <Tooltip>
+            {pairAssets.map((asset) => (
+              <Tooltip key={asset.pair}>
                 <TooltipTrigger asChild>
                   <div className="flex items-center gap-1.5">
                     <Switch
-                      checked={eth.enabled}
-                      onCheckedChange={(v) => handlePairToggle(eth.pair, v)}
+                      checked={asset.enabled}
+                      onCheckedChange={(v) => handlePairToggle(asset.pair, v)}
                       className="scale-75"
                     />
-                    <span className="text-xs font-mono">ETH/USD</span>
-                    <Badge variant="outline" className={cn("text-[10px] font-mono px-1.5 py-0", eth.enabled ? "text-green-400 border-green-400/50 bg-green-400/5" : "text-amber-400 border-amber-400/50 bg-amber-400/5")}>
-                      {eth.enabled ? "Activo" : "Solo salidas"}
+                    <span className="text-xs font-mono">{asset.pair}</span>
+                    <Badge variant="outline" className={cn("text-[10px] font-mono px-1.5 py-0", asset.enabled ? "text-green-400 border-green-400/50 bg-green-400/5" : "text-amber-400 border-amber-400/50 bg-amber-400/5")}>
+                      {asset.enabled ? "Activo" : "Solo salidas"}
                     </Badge>
                   </div>
                 </TooltipTrigger>
@@ -416,7 +400,7 @@ function ControlsBar() {
                   Activo: el par puede abrir ciclos y hacer compras. Solo salidas: no hará nuevas compras, safety buys, Plus ni Recovery, pero seguirá permitiendo TP, trailing, break-even y cierre manual.
                 </TooltipContent>
               </Tooltip>
-            )}
+            ))}
           </div>
         )}
       </CardContent>
@@ -1234,8 +1218,8 @@ function modeLabel(mode?: string): string {
   return "🎯 Entrada asistida";
 }
 
-function EntrySubSections({ config, updateConfig, btcAsset, ethAsset, updateAsset }: {
-  config: any; updateConfig: any; btcAsset: any; ethAsset: any; updateAsset: any;
+function EntrySubSections({ config, updateConfig, assets, updateAsset }: {
+  config: any; updateConfig: any; assets: any[]; updateAsset: any;
 }) {
   const [section, setSection] = useState<EntrySection>("resumen");
   const [confirmDynamic, setConfirmDynamic] = useState<string | null>(null);
@@ -1285,7 +1269,7 @@ function EntrySubSections({ config, updateConfig, btcAsset, ethAsset, updateAsse
               <p className="text-xs text-muted-foreground">Cada par puede usar un modo de entrada diferente. El cambio se guarda en base de datos de forma inmediata.</p>
             </CardHeader>
             <CardContent className="space-y-4">
-              {[btcAsset, ethAsset].filter(Boolean).map((asset: any) => {
+              {assets.map((asset: any) => {
                 const mode = asset.entryMode ?? "assisted_entry";
                 const isDynamic = mode === "dynamic_intelligent_entry";
                 const diag = (diagData?.pairs as any)?.[asset.pair];
@@ -1412,7 +1396,7 @@ function EntrySubSections({ config, updateConfig, btcAsset, ethAsset, updateAsse
       {/* ─── DINÁMICA INTELIGENTE ─── */}
       {section === "dinamica" && (
         <div className="space-y-4">
-          {[btcAsset, ethAsset].filter(Boolean).map((asset: any) => {
+          {assets.map((asset: any) => {
             const mode = asset.entryMode ?? "assisted_entry";
             const isDynamic = mode === "dynamic_intelligent_entry";
             return (
@@ -1494,124 +1478,69 @@ function EntrySubSections({ config, updateConfig, btcAsset, ethAsset, updateAsse
           </CardHeader>
           <CardContent className="space-y-3 text-xs">
             <div className="grid grid-cols-2 gap-4">
-              {diagData?.pairs["BTC/USD"] && (
-                <div className="space-y-2 p-3 rounded border border-border/30 bg-card/40">
-                  <div className="flex items-center justify-between">
-                    <span className="font-medium text-foreground font-mono">BTC/USD</span>
-                    <Badge variant="outline" className={
-                      diagData.pairs["BTC/USD"].trailingBuy?.state === "armed" ||
-                      diagData.pairs["BTC/USD"].trailingBuy?.state === "watching_rebound" ||
-                      diagData.pairs["BTC/USD"].trailingBuy?.state === "confirmed"
-                        ? "text-green-400 border-green-400/30"
-                        : "text-muted-foreground"
-                    }>
-                      {diagData.pairs["BTC/USD"].trailingBuy?.state === "inactive" ? "Inactivo" :
-                       diagData.pairs["BTC/USD"].trailingBuy?.state === "armed" ? "Armado" :
-                       diagData.pairs["BTC/USD"].trailingBuy?.state === "watching_rebound" ? "Vigilando rebote" :
-                       diagData.pairs["BTC/USD"].trailingBuy?.state === "confirmed" ? "Confirmado" :
-                       diagData.pairs["BTC/USD"].trailingBuy?.state === "overextended" ? "Sobre-extendido" :
-                       diagData.pairs["BTC/USD"].trailingBuy?.state === "blocked" ? "Bloqueado" :
-                       diagData.pairs["BTC/USD"].trailingBuy?.state || "Desconocido"}
-                    </Badge>
-                  </div>
-                  {diagData.pairs["BTC/USD"].trailingBuy?.state !== "inactive" && diagData.pairs["BTC/USD"].trailingBuy && (
-                    <div className="space-y-1 text-[10px] font-mono text-muted-foreground">
-                      <div className="flex justify-between">
-                        <span>Source:</span>
-                        <span className={diagData.pairs["BTC/USD"].trailingBuy.source === "dynamic_rebound" ? "text-purple-400" : ""}>
-                          {diagData.pairs["BTC/USD"].trailingBuy.source === "dynamic_rebound" ? "Dinámico" :
-                           diagData.pairs["BTC/USD"].trailingBuy.source === "assisted_rebound" ? "Asistido" :
-                           diagData.pairs["BTC/USD"].trailingBuy.source === "legacy_rebound" ? "Legacy" :
-                           diagData.pairs["BTC/USD"].trailingBuy.source}
-                        </span>
-                      </div>
-                      {diagData.pairs["BTC/USD"].trailingBuy.localLowPrice && (
-                        <div className="flex justify-between">
-                          <span>Mín local:</span>
-                          <span>${diagData.pairs["BTC/USD"].trailingBuy.localLowPrice.toLocaleString("en-US", { maximumFractionDigits: 0 })}</span>
-                        </div>
-                      )}
-                      {diagData.pairs["BTC/USD"].trailingBuy.reboundPct && diagData.pairs["BTC/USD"].trailingBuy.reboundTriggerPrice && (
-                        <div className="flex justify-between">
-                          <span>Trigger rebote:</span>
-                          <span className="text-green-400">${diagData.pairs["BTC/USD"].trailingBuy.reboundTriggerPrice.toLocaleString("en-US", { maximumFractionDigits: 0 })} (+{diagData.pairs["BTC/USD"].trailingBuy.reboundPct.toFixed(2)}%)</span>
-                        </div>
-                      )}
-                      {diagData.pairs["BTC/USD"].trailingBuy.maxExecutionPrice && (
-                        <div className="flex justify-between">
-                          <span>Máx ejecución:</span>
-                          <span className="text-amber-400">${diagData.pairs["BTC/USD"].trailingBuy.maxExecutionPrice.toLocaleString("en-US", { maximumFractionDigits: 0 })}</span>
-                        </div>
-                      )}
-                      {diagData.pairs["BTC/USD"].trailingBuy.blocker && (
-                        <div className="flex justify-between text-red-400">
-                          <span>Bloqueador:</span>
-                          <span>{diagData.pairs["BTC/USD"].trailingBuy.blocker}</span>
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
-              )}
-              {diagData?.pairs["ETH/USD"] && (
-                <div className="space-y-2 p-3 rounded border border-border/30 bg-card/40">
+              {Object.entries(diagData?.pairs ?? {}).map(([pair, d]: [string, any]) => {
+                const tb = d.trailingBuy;
+                const digits = pair === "BTC/USD" ? 0 : 2;
+                return (
+                <div key={pair} className="space-y-2 p-3 rounded border border-border/30 bg-card/40">
                   <div className="flex items-center justify-between">
-                    <span className="font-medium text-foreground font-mono">ETH/USD</span>
+                    <span className="font-medium text-foreground font-mono">{pair}</span>
                     <Badge variant="outline" className={
-                      diagData.pairs["ETH/USD"].trailingBuy?.state === "armed" ||
-                      diagData.pairs["ETH/USD"].trailingBuy?.state === "watching_rebound" ||
-                      diagData.pairs["ETH/USD"].trailingBuy?.state === "confirmed"
+                      tb?.state === "armed" ||
+                      tb?.state === "watching_rebound" ||
+                      tb?.state === "confirmed"
                         ? "text-green-400 border-green-400/30"
                         : "text-muted-foreground"
                     }>
-                      {diagData.pairs["ETH/USD"].trailingBuy?.state === "inactive" ? "Inactivo" :
-                       diagData.pairs["ETH/USD"].trailingBuy?.state === "armed" ? "Armado" :
-                       diagData.pairs["ETH/USD"].trailingBuy?.state === "watching_rebound" ? "Vigilando rebote" :
-                       diagData.pairs["ETH/USD"].trailingBuy?.state === "confirmed" ? "Confirmado" :
-                       diagData.pairs["ETH/USD"].trailingBuy?.state === "overextended" ? "Sobre-extendido" :
-                       diagData.pairs["ETH/USD"].trailingBuy?.state === "blocked" ? "Bloqueado" :
-                       diagData.pairs["ETH/USD"].trailingBuy?.state || "Desconocido"}
+                      {tb?.state === "inactive" ? "Inactivo" :
+                       tb?.state === "armed" ? "Armado" :
+                       tb?.state === "watching_rebound" ? "Vigilando rebote" :
+                       tb?.state === "confirmed" ? "Confirmado" :
+                       tb?.state === "overextended" ? "Sobre-extendido" :
+                       tb?.state === "blocked" ? "Bloqueado" :
+                       tb?.state || "Desconocido"}
                     </Badge>
                   </div>
-                  {diagData.pairs["ETH/USD"].trailingBuy?.state !== "inactive" && diagData.pairs["ETH/USD"].trailingBuy && (
+                  {tb?.state !== "inactive" && tb && (
                     <div className="space-y-1 text-[10px] font-mono text-muted-foreground">
                       <div className="flex justify-between">
                         <span>Source:</span>
-                        <span className={diagData.pairs["ETH/USD"].trailingBuy.source === "dynamic_rebound" ? "text-purple-400" : ""}>
-                          {diagData.pairs["ETH/USD"].trailingBuy.source === "dynamic_rebound" ? "Dinámico" :
-                           diagData.pairs["ETH/USD"].trailingBuy.source === "assisted_rebound" ? "Asistido" :
-                           diagData.pairs["ETH/USD"].trailingBuy.source === "legacy_rebound" ? "Legacy" :
-                           diagData.pairs["ETH/USD"].trailingBuy.source}
+                        <span className={tb.source === "dynamic_rebound" ? "text-purple-400" : ""}>
+                          {tb.source === "dynamic_rebound" ? "Dinámico" :
+                           tb.source === "assisted_rebound" ? "Asistido" :
+                           tb.source === "legacy_rebound" ? "Legacy" :
+                           tb.source}
                         </span>
                       </div>
-                      {diagData.pairs["ETH/USD"].trailingBuy.localLowPrice && (
+                      {tb.localLowPrice && (
                         <div className="flex justify-between">
                           <span>Mín local:</span>
-                          <span>${diagData.pairs["ETH/USD"].trailingBuy.localLowPrice.toLocaleString("en-US", { maximumFractionDigits: 2 })}</span>
+                          <span>${tb.localLowPrice.toLocaleString("en-US", { maximumFractionDigits: digits })}</span>
                         </div>
                       )}
-                      {diagData.pairs["ETH/USD"].trailingBuy.reboundPct && diagData.pairs["ETH/USD"].trailingBuy.reboundTriggerPrice && (
+                      {tb.reboundPct && tb.reboundTriggerPrice && (
                         <div className="flex justify-between">
                           <span>Trigger rebote:</span>
-                          <span className="text-green-400">${diagData.pairs["ETH/USD"].trailingBuy.reboundTriggerPrice.toLocaleString("en-US", { maximumFractionDigits: 2 })} (+{diagData.pairs["ETH/USD"].trailingBuy.reboundPct.toFixed(2)}%)</span>
+                          <span className="text-green-400">${tb.reboundTriggerPrice.toLocaleString("en-US", { maximumFractionDigits: digits })} (+{tb.reboundPct.toFixed(2)}%)</span>
                         </div>
                       )}
-                      {diagData.pairs["ETH/USD"].trailingBuy.maxExecutionPrice && (
+                      {tb.maxExecutionPrice && (
                         <div className="flex justify-between">
                           <span>Máx ejecución:</span>
-                          <span className="text-amber-400">${diagData.pairs["ETH/USD"].trailingBuy.maxExecutionPrice.toLocaleString("en-US", { maximumFractionDigits: 2 })}</span>
+                          <span className="text-amber-400">${tb.maxExecutionPrice.toLocaleString("en-US", { maximumFractionDigits: digits })}</span>
                         </div>
                       )}
-                      {diagData.pairs["ETH/USD"].trailingBuy.blocker && (
+                      {tb.blocker && (
                         <div className="flex justify-between text-red-400">
                           <span>Bloqueador:</span>
-                          <span>{diagData.pairs["ETH/USD"].trailingBuy.blocker}</span>
+                          <span>{tb.blocker}</span>
                         </div>
                       )}
                     </div>
                   )}
                 </div>
-              )}
+                );
+              })}
             </div>
             <p className="text-[10px] text-muted-foreground">Para configurar los umbrales de activación y rebote mínimo, ve a la pestaña <strong>VWAP &amp; Rebound</strong>.</p>
           </CardContent>
@@ -1622,30 +1551,18 @@ function EntrySubSections({ config, updateConfig, btcAsset, ethAsset, updateAsse
       {section === "safety" && (
         <div className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
-            {btcAsset && (
-              <div className="space-y-2 p-3 rounded border border-amber-500/20 bg-amber-500/5">
-                <span className="font-medium text-foreground font-mono text-sm">BTC/USD</span>
-                <div className="text-xs space-y-1">
-                  <div className="flex justify-between"><span className="text-muted-foreground">Máx. safety orders</span><span className="font-mono">{btcAsset.maxSafetyOrders}</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Niveles configurados</span><span className="font-mono">{btcAsset.safetyOrdersJson?.length ?? 0}</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Modo distancia</span>
-                    <Badge variant="outline" className="text-[10px]">{(btcAsset.dynamicDistanceConfigJson as any)?.mode ?? "manual"}</Badge>
-                  </div>
-                </div>
-              </div>
-            )}
-            {ethAsset && (
-              <div className="space-y-2 p-3 rounded border border-amber-500/20 bg-amber-500/5">
-                <span className="font-medium text-foreground font-mono text-sm">ETH/USD</span>
+            {assets.map((asset: any) => (
+              <div key={asset.pair} className="space-y-2 p-3 rounded border border-amber-500/20 bg-amber-500/5">
+                <span className="font-medium text-foreground font-mono text-sm">{asset.pair}</span>
                 <div className="text-xs space-y-1">
-                  <div className="flex justify-between"><span className="text-muted-foreground">Máx. safety orders</span><span className="font-mono">{ethAsset.maxSafetyOrders}</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Niveles configurados</span><span className="font-mono">{ethAsset.safetyOrdersJson?.length ?? 0}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Máx. safety orders</span><span className="font-mono">{asset.maxSafetyOrders}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Niveles configurados</span><span className="font-mono">{asset.safetyOrdersJson?.length ?? 0}</span></div>
                   <div className="flex justify-between"><span className="text-muted-foreground">Modo distancia</span>
-                    <Badge variant="outline" className="text-[10px]">{(ethAsset.dynamicDistanceConfigJson as any)?.mode ?? "manual"}</Badge>
+                    <Badge variant="outline" className="text-[10px]">{(asset.dynamicDistanceConfigJson as any)?.mode ?? "manual"}</Badge>
                   </div>
                 </div>
               </div>
-            )}
+            ))}
           </div>
         </div>
       )}
@@ -1673,7 +1590,7 @@ function EntrySubSections({ config, updateConfig, btcAsset, ethAsset, updateAsse
                     </Button>
                   </CollapsibleTrigger>
                   <CollapsibleContent className="space-y-2 pt-2">
-                    {["BTC/USD", "ETH/USD"].map(pair => {
+                    {Object.keys(diagData.pairs).map(pair => {
                       const pairData = diagData.pairs[pair];
                       if (!pairData?.trailingBuy) return null;
                       const tb = pairData.trailingBuy;
@@ -1762,6 +1679,80 @@ function EntrySubSections({ config, updateConfig, btcAsset, ethAsset, updateAsse
 
 // ─── Main ConfigTab ─────────────────────────────────────────────
 
+// ─── Pares IDCA ──────────────────────────────────────────────────
+// Every row in institutional_dca_asset_configs is traded. Empty guardrail
+// fields are stored as NULL so the engine falls back to the global BTC/ETH values.
+
+const PAIR_BOUND_FIELDS = [
+  { key: "minTrailingPct", label: "Trailing mín %" },
+  { key: "maxTrailingPct", label: "Trailing máx %" },
+  { key: "minTpPct", label: "TP mín %" },
+  { key: "maxTpPct", label: "TP máx %" },
+  { key: "maxAssetExposurePct", label: "Exposición máx %" },
+] as const;
+
+function IdcaPairsBlock({ assets, updateAsset, ethGateFallback }: {
+  assets: IdcaAssetConfig[]; updateAsset: ReturnType<typeof useUpdateAssetConfig>; ethGateFallback: boolean;
+}) {
+  const createAsset = useCreateAssetConfig();
+  const { toast } = useToast();
+  const [newPair, setNewPair] = useState("");
+
+  const handleCreate = () => {
+    const pair = newPair.trim().toUpperCase();
+    if (!pair) return;
+    createAsset.mutate({ pair }, {
+      onSuccess: () => {
+        setNewPair("");
+        toast({ title: "Par añadido", description: `${pair} creado en modo solo salidas. Revisa sus límites antes de activarlo.` });
+      },
+      onError: (e) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <ConfigBlock icon={Bitcoin} title="Pares IDCA"
+      desc="Pares que opera el módulo. Los campos vacíos heredan los valores globales de BTC (BTC/USD) o de ETH (resto de pares).">
+      <div id="idca-config-pairs" className="space-y-3">
+        {assets.map((asset) => (
+          <div key={asset.pair} className="space-y-3 rounded-lg border border-border/30 bg-card/40 p-3">
+            <div className="flex items-center justify-between">
+              <span className="font-mono font-bold text-sm">{asset.pair}</span>
+              <Badge variant="outline" className={cn("text-[10px] font-mono px-1.5 py-0", asset.enabled ? "text-green-400 border-green-400/50 bg-green-400/5" : "text-amber-400 border-amber-400/50 bg-amber-400/5")}>
+                {asset.enabled ? "Activo" : "Solo salidas"}
+              </Badge>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {PAIR_BOUND_FIELDS.map(({ key, label }) => (
+                <ConfigField key={key} label={label} type="number" value={asset[key] ?? ""}
+                  onChange={(v) => updateAsset.mutate({ pair: asset.pair, [key]: v.trim() === "" ? null : v })} />
+              ))}
+            </div>
+            {asset.pair !== "BTC/USD" && (
+              <ToggleField label="BTC Gate" checked={asset.btcGateEnabled ?? (asset.pair === "ETH/USD" && ethGateFallback)}
+                onChange={(v) => updateAsset.mutate({ pair: asset.pair, btcGateEnabled: v })}
+                desc="Bloquea compras de este par mientras BTC esté en ruptura." />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="border-t border-border/30 pt-4 space-y-2">
+        <Label className="text-sm font-semibold">Añadir par</Label>
+        <div className="flex items-center gap-2">
+          <Input value={newPair} placeholder="SOL/USD" className="h-9 text-sm font-mono max-w-[200px]"
+            onChange={(e) => setNewPair(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") handleCreate(); }} />
+          <Button size="sm" onClick={handleCreate} disabled={createAsset.isPending || !newPair.trim()}>
+            {createAsset.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlusCircle className="h-4 w-4 mr-1" />}
+            Añadir
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Los pares nuevos se crean en modo solo salidas. Actívalos desde la barra de controles superior.</p>
+      </div>
+    </ConfigBlock>
+  );
+}
+
 function ConfigTab({ configSubTab, setConfigSubTab }: { configSubTab: "entrada" | "general" | "vwap" | "distancia" | "plus"; setConfigSubTab: (tab: "entrada" | "general" | "vwap" | "distancia" | "plus") => void }) {
   const { data: config } = useIdcaConfig();
   const { data: assetConfigs } = useIdcaAssetConfigs();
@@ -1773,6 +1764,7 @@ function ConfigTab({ configSubTab, setConfigSubTab }: { configSubTab: "entrada"
 
   const btc = assetConfigs?.find((a) => a.pair.includes("BTC"));
   const eth = assetConfigs?.find((a) => a.pair.includes("ETH"));
+  const sortedAssets = [...(assetConfigs ?? [])].sort((a, b) => a.pair.localeCompare(b.pair));
   const dtp = config.dynamicTpConfigJson || {};
   const plus = config.plusConfigJson || {};
   const recovery = config.recoveryConfigJson || {};
@@ -1852,7 +1844,7 @@ function ConfigTab({ configSubTab, setConfigSubTab }: { configSubTab: "entrada"
       </div>
 
       {/* ════ ENTRADA (SUB-SECCIONES) ════ */}
-      {configSubTab === "entrada" && <EntrySubSections config={config} updateConfig={updateConfig} btcAsset={btc} ethAsset={eth} updateAsset={updateAsset} />}
+      {configSubTab === "entrada" && <EntrySubSections config={config} updateConfig={updateConfig} assets={sortedAssets} updateAsset={updateAsset} />}
 
       {configSubTab === "general" && (<>
 
@@ -1939,39 +1931,17 @@ function ConfigTab({ configSubTab, setConfigSubTab }: { configSubTab: "entrada"
           {/* blockOnBreakdown, blockOnHighSpread, blockOnSellPressure — removed: not consumed by engine (legacy/decorative) */}
           <ToggleField label="BTC Gate para ETH" checked={config.btcMarketGateForEthEnabled}
             onChange={(v) => updateConfig.mutate({ btcMarketGateForEthEnabled: v })}
-            desc="Impide comprar ETH si BTC está débil o deteriorado." />
+            desc="Impide comprar ETH si BTC está débil o deteriorado. Los demás pares lo configuran en Pares IDCA." />
           <ToggleField label="Sizing adaptativo" checked={config.adaptivePositionSizingEnabled}
             onChange={(v) => updateConfig.mutate({ adaptivePositionSizingEnabled: v })}
             desc="Ajusta automáticamente el tamaño de cada compra según la volatilidad del mercado." />
         </div>
 
-        {/* Asset enable — read-only here, editable in ControlsBar */}
-        <div className="border-t border-border/30 pt-4">
-          <p className="text-xs font-semibold text-muted-foreground mb-2">Operativa del par</p>
-          <p className="text-xs text-muted-foreground mb-3">
-            Activar o desactivar un par se hace en la <strong>barra de controles superior</strong> (switch junto al nombre del par).
-          </p>
-          <div className="flex flex-wrap gap-4">
-            {btc && (
-              <div className="flex items-center gap-2">
-                <span className="text-xs font-mono text-muted-foreground">{btc.pair}</span>
-                <Badge variant="outline" className={cn("text-[10px] font-mono px-1.5 py-0", btc.enabled ? "text-green-400 border-green-400/50 bg-green-400/5" : "text-amber-400 border-amber-400/50 bg-amber-400/5")}>
-                  {btc.enabled ? "Activo" : "Solo salidas"}
-                </Badge>
-              </div>
-            )}
-            {eth && (
-              <div className="flex items-center gap-2">
-                <span className="text-xs font-mono text-muted-foreground">{eth.pair}</span>
-                <Badge variant="outline" className={cn("text-[10px] font-mono px-1.5 py-0", eth.enabled ? "text-green-400 border-green-400/50 bg-green-400/5" : "text-amber-400 border-amber-400/50 bg-amber-400/5")}>
-                  {eth.enabled ? "Activo" : "Solo salidas"}
-                </Badge>
-              </div>
-            )}
-          </div>
-        </div>
       </ConfigBlock>
 
+      {/* ════ BLOQUE 2B — PARES IDCA ════ */}
+      <IdcaPairsBlock assets={sortedAssets} updateAsset={updateAsset} ethGateFallback={config.btcMarketGateForEthEnabled} />
+
       {/* ════ BLOQUE 3 — CUÁNDO VENDER ════ */}
       <ConfigBlock icon={TrendingUp} title="Cuándo vender"
         desc="Controla la salida del ciclo: primero protección, después trailing, cierre al romper el trailing.">
@@ -2707,6 +2677,8 @@ function ConfigTab({ configSubTab, setConfigSubTab }: { configSubTab: "entrada"
 
 function ImportPositionModal({ open, onClose }: { open: boolean; onClose: () => void }) {
   const { data: importable } = useImportableStatus();
+  const { data: assetConfigs } = useIdcaAssetConfigs();
+  const importPairs = (assetConfigs ?? []).map((a) => a.pair).sort();
   const { data: presetsData } = useExchangeFeePresets();
   const importMutation = useImportPosition();
   const { toast } = useToast();
@@ -2829,8 +2801,8 @@ function ImportPositionModal({ open, onClose }: { open: boolean; onClose: () =>
               {/* Par */}
               <div className="space-y-1">
                 <Label className="text-xs font-mono text-muted-foreground">PAR</Label>
-                <div className="flex gap-2">
-                  {["BTC/USD", "ETH/USD"].map((p) => (
+                <div className="flex flex-wrap gap-2">
+                  {importPairs.map((p) => (
                     <Button key={p} size="sm" variant={pair === p ? "default" : "outline"}
                       className={cn("text-xs h-8 flex-1", pair === p && (p === "BTC/USD" ? "bg-orange-600 hover:bg-orange-700" : "bg-blue-600 hover:bg-blue-700"))}
                       onClick={() => { setPair(p); setWarningAck(false); }}>{p}
@@ -2864,7 +2836,7 @@ function ImportPositionModal({ open, onClose }: { open: boolean; onClose: () =>
 
               {/* Cantidad */}
               <div className="space-y-1">
-                <Label className="text-xs font-mono text-muted-foreground">CANTIDAD ({pair === "BTC/USD" ? "BTC" : "ETH"})</Label>
+                <Label className="text-xs font-mono text-muted-foreground">CANTIDAD ({pair.split("/")[0]})</Label>
                 <Input type="number" step="any" min="0" placeholder="Ej: 0.015" value={quantity} onChange={(e) => setQuantity(e.target.value)} className="h-8 text-sm font-mono" />
               </div>
 
@@ -4981,6 +4953,211 @@ function SimulationTab() {
           </Button>
         </CardContent>
       </Card>
+
+      <BacktestPanel />
+    </div>
+  );
+}
+
+const BACKTEST_CYCLE_TYPE_ES: Record<string, string> = {
+  main: "Principal",
+  plus: "Plus",
+  recovery: "Recovery",
+};
+
+function BacktestPanel() {
+  const { data: backtests } = useIdcaBacktests();
+  const { data: assetConfigs } = useIdcaAssetConfigs();
+  const runBacktest = useRunIdcaBacktest();
+  const { toast } = useToast();
+  const today = new Date().toISOString().slice(0, 10);
+  const [pair, setPair] = useState("BTC/USD");
+  const [timeframe, setTimeframe] = useState<"15m" | "1h" | "4h">("1h");
+  const [fromDate, setFromDate] = useState(new Date(Date.now() - 90 * 86400000).toISOString().slice(0, 10));
+  const [toDate, setToDate] = useState(today);
+  const [initialBalance, setInitialBalance] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [lastRun, setLastRun] = useState<IdcaBacktestResults | null>(null);
+
+  const selected = selectedId != null ? backtests?.find(b => b.id === selectedId)?.resultsJson ?? null : lastRun;
+
+  const handleRun = () => {
+    runBacktest.mutate({
+      pair,
+      timeframe,
+      fromDate,
+      toDate,
+      initialBalanceUsd: initialBalance ? parseFloat(initialBalance) : undefined,
+    }, {
+      onSuccess: (data) => {
+        setSelectedId(data.backtest?.id ?? null);
+        setLastRun(data.results);
+        toast({ title: "Backtest completado", description: `${data.results.summary.cyclesCount} ciclos · ${fmtPct(data.results.summary.totalReturnPct)}` });
+      },
+      onError: (err) => toast({ title: "Error en backtest", description: err.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <BarChart3 className="h-4 w-4" /> Backtest IDCA
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Reproduce velas históricas con la configuración actual: entradas, compras adicionales, Plus/Recovery, protección y trailing. No envía órdenes ni modifica ciclos.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Par</Label>
+            <Select value={pair} onValueChange={setPair}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(assetConfigs ?? []).map((a) => a.pair).sort().map((p) => (
+                  <SelectItem key={p} value={p}>{p}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Timeframe</Label>
+            <Select value={timeframe} onValueChange={(v) => setTimeframe(v as "15m" | "1h" | "4h")}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="15m">15m</SelectItem>
+                <SelectItem value="1h">1h</SelectItem>
+                <SelectItem value="4h">4h</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Desde</Label>
+            <Input type="date" className="h-8 text-xs" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Hasta</Label>
+            <Input type="date" className="h-8 text-xs" value={toDate} max={today} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Balance inicial (USD)</Label>
+            <Input type="number" className="h-8 text-xs" placeholder="Wallet sim." value={initialBalance} onChange={(e) => setInitialBalance(e.target.value)} />
+          </div>
+          <Button size="sm" className="h-8 text-xs" disabled={runBacktest.isPending} onClick={handleRun}>
+            {runBacktest.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Play className="h-3 w-3 mr-1" />}
+            Ejecutar
+          </Button>
+        </div>
+
+        {backtests && backtests.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border/50">
+                  <th className="text-left py-1 pr-2">Fecha</th>
+                  <th className="text-left py-1 pr-2">Par</th>
+                  <th className="text-left py-1 pr-2">Periodo</th>
+                  <th className="text-right py-1 pr-2">Ciclos</th>
+                  <th className="text-right py-1 pr-2">Win rate</th>
+                  <th className="text-right py-1 pr-2">Retorno</th>
+                  <th className="text-right py-1">Max DD</th>
+                </tr>
+              </thead>
+              <tbody>
+                {backtests.map((b) => (
+                  <tr
+                    key={b.id}
+                    className={cn("border-b border-border/20 cursor-pointer hover:bg-muted/30", selectedId === b.id && "bg-muted/40")}
+                    onClick={() => setSelectedId(b.id)}
+                  >
+                    <td className="py-1 pr-2">{fmtDate(b.createdAt)}</td>
+                    <td className="py-1 pr-2">{b.pair}</td>
+                    <td className="py-1 pr-2">{b.fromDate.slice(0, 10)} → {b.toDate.slice(0, 10)}</td>
+                    <td className="py-1 pr-2 text-right">{b.cyclesCount ?? 0}</td>
+                    <td className="py-1 pr-2 text-right">{parseFloat(b.winRatePct || "0").toFixed(1)}%</td>
+                    <td className={cn("py-1 pr-2 text-right", parseFloat(b.totalReturnPct || "0") >= 0 ? "text-green-400" : "text-red-400")}>
+                      {fmtPct(b.totalReturnPct)}
+                    </td>
+                    <td className="py-1 text-right text-red-400">{parseFloat(b.maxDrawdownPct || "0").toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {selected && <BacktestResultsView results={selected} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BacktestResultsView({ results }: { results: IdcaBacktestResults }) {
+  const s = results.summary;
+  const blocks = Object.entries(results.entryBlocks).sort((a, b) => b[1] - a[1]).slice(0, 6);
+
+  return (
+    <div className="space-y-3 border-t border-border/50 pt-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <KpiCard icon={BarChart3} label="Retorno" value={`${fmtUsd(s.totalReturnUsd)} (${fmtPct(s.totalReturnPct)})`}
+          color={s.totalReturnUsd >= 0 ? "text-green-400" : "text-red-400"} />
+        <KpiCard icon={TrendingDown} label="Max Drawdown" value={`${s.maxDrawdownPct.toFixed(2)}%`} color="text-red-400" />
+        <KpiCard icon={CheckCircle2} label="Win rate" value={`${s.winRatePct.toFixed(1)}% (${s.wins}/${s.wins + s.losses})`} />
+        <KpiCard icon={Activity} label="Profit factor" value={s.profitFactor != null ? s.profitFactor.toFixed(2) : "—"} />
+        <KpiCard icon={ListOrdered} label="Ciclos" value={`${s.cyclesByType.main} / ${s.cyclesByType.plus} / ${s.cyclesByType.recovery}`} />
+        <KpiCard icon={Clock} label="Duración media" value={`${s.avgCycleDurationHours.toFixed(1)}h`} />
+        <KpiCard icon={CircleDollarSign} label="Fees + slippage" value={fmtUsd(s.totalFeesUsd)} />
+        <KpiCard icon={Wallet} label="Equity final" value={fmtUsd(s.finalEquityUsd)} />
+      </div>
+
+      {blocks.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          <span className="text-xs text-muted-foreground mr-1">Bloqueos de entrada:</span>
+          {blocks.map(([code, count]) => (
+            <Badge key={code} variant="outline" className="text-[10px] font-mono">{code} ×{count}</Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-80">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-muted-foreground border-b border-border/50">
+              <th className="text-left py-1 pr-2">#</th>
+              <th className="text-left py-1 pr-2">Tipo</th>
+              <th className="text-left py-1 pr-2">Apertura</th>
+              <th className="text-right py-1 pr-2">Compras</th>
+              <th className="text-right py-1 pr-2">Precio medio</th>
+              <th className="text-right py-1 pr-2">Salida</th>
+              <th className="text-right py-1 pr-2">PnL</th>
+              <th className="text-right py-1 pr-2">DD máx</th>
+              <th className="text-left py-1">Cierre</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.cycles.map((c) => (
+              <tr key={c.id} className="border-b border-border/20">
+                <td className="py-1 pr-2">{c.id}</td>
+                <td className="py-1 pr-2">{BACKTEST_CYCLE_TYPE_ES[c.cycleType] ?? c.cycleType}</td>
+                <td className="py-1 pr-2">{fmtDate(c.openedAt)}</td>
+                <td className="py-1 pr-2 text-right">{c.buyCount}</td>
+                <td className="py-1 pr-2 text-right">{fmtPrice(c.avgEntryPrice)}</td>
+                <td className="py-1 pr-2 text-right">{c.exitPrice != null ? fmtPrice(c.exitPrice) : "—"}</td>
+                <td className={cn("py-1 pr-2 text-right", (c.realizedPnlUsd ?? 0) >= 0 ? "text-green-400" : "text-red-400")}>
+                  {c.realizedPnlUsd != null ? `${fmtUsd(c.realizedPnlUsd)} (${fmtPct(c.realizedPnlPct)})` : "—"}
+                </td>
+                <td className="py-1 pr-2 text-right">{c.maxDrawdownPct.toFixed(2)}%</td>
+                <td className="py-1">{c.closeReason ?? "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">
+        {results.timeframe} · {s.candlesProcessed} velas · fee {results.assumptions.feePct}% · slippage {results.assumptions.slippagePct}% · ancla {results.assumptions.anchorModel}
+      </p>
     </div>
   );
 }
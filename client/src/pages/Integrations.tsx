@@ -7,11 +7,19 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
-import { MessageSquare, Server, Check, Plug, Eye, EyeOff, ArrowRight, Zap, Crown, Settings, TrendingUp, BarChart2 } from "lucide-react";
+import { MessageSquare, Server, Check, Plug, Eye, EyeOff, ArrowRight, Zap, Crown, Settings, TrendingUp, BarChart2, Coins } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { Link } from "wouter";
 
+type ExchangeId = "kraken" | "revolutx" | "binance";
+
+const EXCHANGE_NAMES: Record<ExchangeId, string> = {
+  kraken: "Kraken",
+  revolutx: "Revolut X",
+  binance: "Binance",
+};
+
 export default function Integrations() {
   const queryClient = useQueryClient();
   
@@ -29,9 +37,15 @@ export default function Integrations() {
   const [showRevolutxKey, setShowRevolutxKey] = useState(false);
   const [showRevolutxPrivateKey, setShowRevolutxPrivateKey] = useState(false);
   
-  const [activeExchange, setActiveExchange] = useState<"kraken" | "revolutx">("kraken");
-  const [tradingExchange, setTradingExchange] = useState<"kraken" | "revolutx">("kraken");
-  const [dataExchange, setDataExchange] = useState<"kraken" | "revolutx">("kraken");
+  const [binanceApiKey, setBinanceApiKey] = useState("");
+  const [binanceApiSecret, setBinanceApiSecret] = useState("");
+  const [binanceConnected, setBinanceConnected] = useState(false);
+  const [showBinanceKey, setShowBinanceKey] = useState(false);
+  const [showBinanceSecret, setShowBinanceSecret] = useState(false);
+  
+  const [activeExchange, setActiveExchange] = useState<ExchangeId>("kraken");
+  const [tradingExchange, setTradingExchange] = useState<ExchangeId>("kraken");
+  const [dataExchange, setDataExchange] = useState<ExchangeId>("kraken");
 
   const { data: apiConfig } = useQuery({
     queryKey: ["apiConfig"],
@@ -48,6 +62,7 @@ export default function Integrations() {
       setKrakenEnabled(apiConfig.krakenEnabled ?? true);
       setRevolutxConnected(apiConfig.revolutxConnected ?? false);
       setRevolutxEnabled(apiConfig.revolutxEnabled ?? false);
+      setBinanceConnected(apiConfig.binanceConnected ?? false);
       setActiveExchange(apiConfig.activeExchange ?? "kraken");
       setTradingExchange(apiConfig.tradingExchange ?? apiConfig.activeExchange ?? "kraken");
       setDataExchange(apiConfig.dataExchange ?? apiConfig.activeExchange ?? "kraken");
@@ -93,8 +108,28 @@ export default function Integrations() {
     },
   });
 
+  const binanceMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/config/binance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey: binanceApiKey, apiSecret: binanceApiSecret }),
+      });
+      if (!res.ok) throw new Error("Failed to connect");
+      return res.json();
+    },
+    onSuccess: () => {
+      setBinanceConnected(true);
+      queryClient.invalidateQueries({ queryKey: ["apiConfig"] });
+      toast.success("Binance conectado correctamente");
+    },
+    onError: () => {
+      toast.error("Error al conectar con Binance");
+    },
+  });
+
   const activeExchangeMutation = useMutation({
-    mutationFn: async (exchange: "kraken" | "revolutx") => {
+    mutationFn: async (exchange: ExchangeId) => {
       const res = await fetch("/api/config/active-exchange", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -109,7 +144,7 @@ export default function Integrations() {
     onSuccess: (_, exchange) => {
       setActiveExchange(exchange);
       queryClient.invalidateQueries({ queryKey: ["apiConfig"] });
-      toast.success(`Exchange activo cambiado a ${exchange === "kraken" ? "Kraken" : "Revolut X"}`);
+      toast.success(`Exchange activo cambiado a ${EXCHANGE_NAMES[exchange]}`);
     },
     onError: (error: Error) => {
       toast.error(error.message);
@@ -168,6 +203,12 @@ export default function Integrations() {
                         Kraken
                         <span className="text-xs text-muted-foreground font-normal">(0.40% fees)</span>
                       </span>
+                    ) : tradingExchange === "binance" ? (
+                      <span className="flex items-center gap-2">
+                        <Coins className="h-5 w-5 text-yellow-400" />
+                        Binance
+                        <span className="text-xs text-muted-foreground font-normal">(0.10% fees)</span>
+                      </span>
                     ) : (
                       <span className="flex items-center gap-2">
                         <Zap className="h-5 w-5 text-purple-400" />
@@ -193,7 +234,7 @@ export default function Integrations() {
               </div>
               {tradingExchange !== dataExchange && (
                 <p className="text-xs text-yellow-500/80 mt-3">
-                  Modo hibrido activo: Trading en {tradingExchange === "kraken" ? "Kraken" : "Revolut X"}, datos de mercado desde {dataExchange === "kraken" ? "Kraken" : "Revolut X"}.
+                  Modo hibrido activo: Trading en {EXCHANGE_NAMES[tradingExchange]}, datos de mercado desde {EXCHANGE_NAMES[dataExchange]}.
                 </p>
               )}
             </CardContent>
@@ -396,6 +437,106 @@ export default function Integrations() {
               </CardContent>
             </Card>
 
+            <Card className="glass-panel border-border/50">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-yellow-500/20 rounded-lg">
+                    <Coins className="h-6 w-6 text-yellow-400" />
+                  </div>
+                  <div className="flex-1">
+                    <CardTitle className="flex items-center gap-2">
+                      Binance Spot
+                      <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-0.5 rounded">0.10% fees</span>
+                    </CardTitle>
+                    <CardDescription>Exchange spot con pares USDT (se operan como /USD).</CardDescription>
+                  </div>
+                  {binanceConnected ? (
+                    <div className="flex items-center gap-2 text-green-500">
+                      <Check className="h-5 w-5" />
+                      <span className="text-sm font-mono">CONECTADO</span>
+                    </div>
+                  ) : (
+                    <span className="text-sm font-mono text-yellow-500">DESCONECTADO</span>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-2">
+                  <Label>API Key</Label>
+                  <div className="relative">
+                    <Input 
+                      type={showBinanceKey ? "text" : "password"}
+                      placeholder="Tu Binance API Key" 
+                      className="font-mono bg-background/50 pr-10"
+                      value={binanceApiKey}
+                      onChange={(e) => setBinanceApiKey(e.target.value)}
+                      data-testid="input-binance-api-key"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="absolute right-0 top-0 h-full"
+                      onClick={() => setShowBinanceKey(!showBinanceKey)}
+                    >
+                      {showBinanceKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid gap-2">
+                  <Label>Secret Key</Label>
+                  <div className="relative">
+                    <Input 
+                      type={showBinanceSecret ? "text" : "password"}
+                      placeholder="Tu Binance Secret Key" 
+                      className="font-mono bg-background/50 pr-10"
+                      value={binanceApiSecret}
+                      onChange={(e) => setBinanceApiSecret(e.target.value)}
+                      data-testid="input-binance-api-secret"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="absolute right-0 top-0 h-full"
+                      onClick={() => setShowBinanceSecret(!showBinanceSecret)}
+                    >
+                      {showBinanceSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+                <Button 
+                  className="w-full bg-yellow-600 hover:bg-yellow-700" 
+                  onClick={() => binanceMutation.mutate()}
+                  disabled={!binanceApiKey || !binanceApiSecret || binanceMutation.isPending}
+                  data-testid="button-connect-binance"
+                >
+                  {binanceMutation.isPending ? "Conectando..." : binanceConnected ? "Reconectar" : "Conectar a Binance"}
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Crea una API key con permisos de lectura y Spot Trading (sin retiros) en binance.com → API Management.
+                </p>
+                
+                {binanceConnected && (
+                  <div className="flex items-center justify-between pt-2 border-t border-border/50">
+                    <div className="flex items-center gap-2">
+                      {activeExchange === "binance" && <Crown className="h-4 w-4 text-yellow-500" />}
+                      <span className="text-sm">{activeExchange === "binance" ? "Exchange activo" : "Usar como exchange activo"}</span>
+                    </div>
+                    <Button
+                      variant={activeExchange === "binance" ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => activeExchangeMutation.mutate("binance")}
+                      disabled={activeExchange === "binance" || activeExchangeMutation.isPending}
+                      data-testid="button-activate-binance"
+                    >
+                      {activeExchange === "binance" ? "Activo" : "Activar"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card className="glass-panel border-border/50">
               <CardHeader>
                 <div className="flex items-center gap-3">
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import generatedImage from "../assets/dark_digital_hex_grid_background.png";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Activity, Lock } from "lucide-react";
+import { useLogin } from "@/hooks/useAuth";
+
+export default function Login() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const login = useLogin();
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password) return;
+    login.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center relative overflow-hidden px-4">
+      <div
+        className="fixed inset-0 z-0 opacity-10 pointer-events-none"
+        style={{ backgroundImage: `url(${generatedImage})`, backgroundSize: "cover", backgroundPosition: "center" }}
+      />
+      <Card className="glass-panel border-border/50 w-full max-w-sm relative z-10">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/20 rounded-lg border border-primary/50">
+              <Activity className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <CardTitle>NEXA Crypto Suite</CardTitle>
+              <CardDescription>Inicia sesión para continuar.</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={submit}>
+            <div className="grid gap-2">
+              <Label htmlFor="login-username">Usuario</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                autoFocus
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                data-testid="input-login-username"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="login-password">Contraseña</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-login-password"
+              />
+            </div>
+            {login.isError && (
+              <p className="text-sm text-red-400" data-testid="text-login-error">
+                {login.error.message === "INVALID_CREDENTIALS" ? "Usuario o contraseña incorrectos" : login.error.message}
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={!username || !password || login.isPending} data-testid="button-login">
+              <Lock className="mr-2 h-4 w-4" />
+              {login.isPending ? "Entrando..." : "Entrar"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { cn } from "@/lib/utils";
 // TradingConfigDashboard moved to Trading page
 import { Link } from "wouter";
 import { toast } from "sonner";
+import { AccessControlPanel } from "@/components/auth/AccessControlPanel";
 
 interface AiStatus {
   phase: "red" | "yellow" | "green";
@@ -390,6 +391,9 @@ export default function Settings() {
               </CardContent>
             </Card>
 
+            {/* Users, API keys and audit (admin only) */}
+            <AccessControlPanel />
+
             {/* Monitor Tokens */}
             <Card className="glass-panel border-border/50">
               <CardHeader>
@@ -399,7 +403,7 @@ export default function Settings() {
                   </div>
                   <div>
                     <CardTitle>Tokens de Monitor</CardTitle>
-                    <CardDescription>Tokens de autenticación para WebSocket (deben coincidir con los del servidor).</CardDescription>
+                    <CardDescription>Tokens legacy para WebSocket. Opcionales: la sesión iniciada ya autentica /ws/events y /ws/logs (admin).</CardDescription>
                   </div>
                 </div>
               </CardHeader>
@@ -17,6 +17,7 @@ import { EntradasTab } from "@/components/trading/EntradasTab";
 import { SalidasTab } from "@/components/trading/SalidasTab";
 import { MercadoTab } from "@/components/trading/MercadoTab";
 import { RiesgoTab } from "@/components/trading/RiesgoTab";
+import { StrategyRegistryCard, useStrategies } from "@/components/strategies/StrategyRegistryCard";
 
 interface BotConfig {
   id: number;
@@ -35,12 +36,13 @@ interface BotConfig {
   riskPerTradePct: string;
 }
 
-const STRATEGIES = [
-  { id: "momentum", name: "Momentum", description: "Sigue tendencias fuertes del mercado", icon: TrendingUp },
-  { id: "mean_reversion", name: "Reversión a la Media", description: "Opera cuando el precio se aleja de promedios", icon: RefreshCw },
-  { id: "scalping", name: "Scalping", description: "Operaciones rápidas con pequeñas ganancias", icon: Zap },
-  { id: "grid", name: "Grid Trading", description: "Órdenes escalonadas en rangos de precio", icon: Target },
-];
+// Global strategy = cycle-mode plugins from /api/strategies; unknown ids get the generic icon
+const STRATEGY_ICONS: Record<string, typeof TrendingUp> = {
+  momentum: TrendingUp,
+  mean_reversion: RefreshCw,
+  scalping: Zap,
+  grid: Target,
+};
 
 const SIGNAL_TIMEFRAMES = [
   { id: "cycle", name: "Ciclos (30s)", description: "Evalúa cada ciclo del bot (~30 segundos)" },
@@ -87,6 +89,11 @@ export default function Strategies() {
     },
   });
 
+  const { data: strategiesData } = useStrategies();
+  const STRATEGIES = (strategiesData?.strategies ?? [])
+    .filter(s => s.signalMode === "cycle")
+    .map(s => ({ ...s, icon: STRATEGY_ICONS[s.id] ?? Activity }));
+
   // Signal config for Entradas tab
   const { data: signalConfig } = useQuery<SignalConfig>({
     queryKey: ["signalConfig"],
@@ -141,6 +148,7 @@ export default function Strategies() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["botConfig"] });
+      queryClient.invalidateQueries({ queryKey: ["strategies"] });
       toast.success("Configuración actualizada");
     },
     onError: () => {
@@ -545,6 +553,10 @@ export default function Strategies() {
             </div>
           </div>
 
+          {activeTab === "config" && (
+            <StrategyRegistryCard activePairs={config?.activePairs ?? []} />
+          )}
+
           {/* Trade Size and Exposure now in Riesgo tab */}
         </main>
       </div>
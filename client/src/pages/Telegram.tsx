@@ -1,13 +1,14 @@
 /**
  * Telegram.tsx — Página principal unificada de Telegram (FASE UX: reorganizada)
  *
- * 6 grupos lógicos:
+ * 7 grupos lógicos:
  *  1. General   (Ajustes: kill switch, token, silent mode, severidad, dedupe, rate-limit, quiet hours)
  *  2. Tokens    (Multi-bot: añadir, editar, activar/inactivar, probar, eliminar)
  *  3. Canales   (CRUD completo de canales con token, modos, alertas)
- *  4. Alertas por modo (subpestañas: SPOT, SPOT Dry Run, IDCA, Grid/Hybrid, Smart Exit, Fiscalidad, Sistema, IA)
- *  5. Comandos  (catálogo + logs)
- *  6. Auditoría (enviados/bloqueados/fallidos + diagnóstico telegram:audit)
+ *  4. Otros canales (webhook, email, ntfy, Gotify, Discord por modo/severidad)
+ *  5. Alertas por modo (subpestañas: SPOT, SPOT Dry Run, IDCA, Grid/Hybrid, Smart Exit, Fiscalidad, Sistema, IA)
+ *  6. Comandos  (catálogo + logs)
+ *  7. Auditoría (enviados/bloqueados/fallidos + diagnóstico telegram:audit)
  */
 
 import { useState } from "react";
@@ -16,12 +17,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Settings, Users, Terminal, TrendingUp, FlaskConical,
   CircleDollarSign, Brain, Bell, FileText, AlertTriangle,
-  Sparkles, History, MessageSquare, Layers, Key
+  Sparkles, History, MessageSquare, Layers, Key, Send
 } from "lucide-react";
 
 import TelegramSettingsTab from "@/components/telegram/TelegramSettingsTab";
 import TelegramChannelsTab from "@/components/telegram/TelegramChannelsTab";
 import TelegramTokensTab from "@/components/telegram/TelegramTokensTab";
+import NotificationChannelsTab from "@/components/telegram/NotificationChannelsTab";
 import TelegramCommandsTab from "@/components/telegram/TelegramCommandsTab";
 import TelegramSpotTab from "@/components/telegram/TelegramSpotTab";
 import TelegramSpotDryRunTab from "@/components/telegram/TelegramSpotDryRunTab";
@@ -67,10 +69,11 @@ export default function Telegram() {
         </div>
 
         <Tabs value={activeGroup} onValueChange={setActiveGroup}>
-          <TabsList className="grid grid-cols-6 gap-1 h-auto p-1">
+          <TabsList className="grid grid-cols-7 gap-1 h-auto p-1">
             <TabsTrigger value="general" className="text-xs gap-1.5"><Settings className="h-3.5 w-3.5" /> General</TabsTrigger>
             <TabsTrigger value="tokens" className="text-xs gap-1.5"><Key className="h-3.5 w-3.5" /> Tokens</TabsTrigger>
             <TabsTrigger value="channels" className="text-xs gap-1.5"><Users className="h-3.5 w-3.5" /> Canales</TabsTrigger>
+            <TabsTrigger value="external" className="text-xs gap-1.5"><Send className="h-3.5 w-3.5" /> Otros canales</TabsTrigger>
             <TabsTrigger value="alerts" className="text-xs gap-1.5"><Layers className="h-3.5 w-3.5" /> Alertas por modo</TabsTrigger>
             <TabsTrigger value="commands" className="text-xs gap-1.5"><Terminal className="h-3.5 w-3.5" /> Comandos</TabsTrigger>
             <TabsTrigger value="audit" className="text-xs gap-1.5"><History className="h-3.5 w-3.5" /> Auditoría</TabsTrigger>
@@ -79,6 +82,7 @@ export default function Telegram() {
           <TabsContent value="general"><TelegramSettingsTab /></TabsContent>
           <TabsContent value="tokens"><TelegramTokensTab /></TabsContent>
           <TabsContent value="channels"><TelegramChannelsTab /></TabsContent>
+          <TabsContent value="external"><NotificationChannelsTab /></TabsContent>
 
           <TabsContent value="alerts">
             <Tabs value={activeAlertMode} onValueChange={setActiveAlertMode}>
@@ -405,4 +405,4 @@ export default function Wallet() {
 }
 
 // ─── Wallet Global Tab ───────────────────────────────────────────────
-// Replaced by WalletGlobalTabs component (8 subtabs)
+// Replaced by WalletGlobalTabs component (9 subtabs, incl. Riesgo)
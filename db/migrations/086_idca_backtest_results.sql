@@ -0,0 +1,7 @@
+-- 086_idca_backtest_results.sql — Cycle-level results for IDCA backtests
+-- The replay engine stores cycles, orders, equity curve and entry block counts
+-- alongside the summary columns already present in institutional_dca_backtests.
+-- Idempotent: uses ADD COLUMN IF NOT EXISTS
+
+ALTER TABLE institutional_dca_backtests
+  ADD COLUMN IF NOT EXISTS results_json JSONB;
@@ -0,0 +1,14 @@
+-- 087_idca_asset_guardrails.sql — Per-asset guardrails so IDCA can run beyond BTC/ETH
+-- TP/trailing bounds, exposure cap and BTC market gate move from the global
+-- *_btc / *_eth config columns into institutional_dca_asset_configs.
+-- NULL keeps the legacy behaviour: BTC/USD reads the *_btc values, every other
+-- pair reads the *_eth values, and the BTC gate only applies to ETH/USD.
+-- Idempotent: uses ADD COLUMN IF NOT EXISTS
+
+ALTER TABLE institutional_dca_asset_configs
+  ADD COLUMN IF NOT EXISTS min_trailing_pct DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS max_trailing_pct DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS min_tp_pct DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS max_tp_pct DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS max_asset_exposure_pct DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS btc_gate_enabled BOOLEAN;
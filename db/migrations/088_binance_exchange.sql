@@ -0,0 +1,14 @@
+-- 088_binance_exchange.sql — Binance Spot as third exchange (IExchangeService adapter)
+-- Credentials live next to Kraken / Revolut X in api_config.
+-- Idempotent: uses ADD COLUMN IF NOT EXISTS
+
+ALTER TABLE api_config
+  ADD COLUMN IF NOT EXISTS binance_api_key TEXT,
+  ADD COLUMN IF NOT EXISTS binance_api_secret TEXT,
+  ADD COLUMN IF NOT EXISTS binance_connected BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS binance_enabled BOOLEAN NOT NULL DEFAULT false;
+
+-- FISCO: accept Binance trade-history CSV imports
+ALTER TABLE fisco_import_batches DROP CONSTRAINT IF EXISTS fisco_import_batches_exchange_check;
+ALTER TABLE fisco_import_batches ADD CONSTRAINT fisco_import_batches_exchange_check
+  CHECK (exchange IN ('kraken', 'revolutx', 'binance'));
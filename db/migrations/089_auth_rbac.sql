@@ -0,0 +1,50 @@
+-- 089_auth_rbac.sql — Users, session/API-key tokens and audit trail for the REST API
+-- Idempotent: CREATE TABLE IF NOT EXISTS, CREATE INDEX IF NOT EXISTS.
+--
+-- Roles: viewer (read-only) < operator (mutating calls) < admin (credentials, users, backups).
+-- Tokens are stored as SHA-256 hashes; the plain token is only shown once.
+
+CREATE TABLE IF NOT EXISTS auth_users (
+  id             SERIAL PRIMARY KEY,
+  username       TEXT        NOT NULL UNIQUE,
+  password_hash  TEXT        NOT NULL,
+  role           TEXT        NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+  is_active      BOOLEAN     NOT NULL DEFAULT TRUE,
+  last_login_at  TIMESTAMP,
+  created_at     TIMESTAMP   NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMP   NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id             SERIAL PRIMARY KEY,
+  user_id        INTEGER     NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  kind           TEXT        NOT NULL CHECK (kind IN ('session', 'api_key')),
+  label          TEXT,
+  token_hash     TEXT        NOT NULL UNIQUE,
+  token_prefix   TEXT        NOT NULL,
+  created_at     TIMESTAMP   NOT NULL DEFAULT NOW(),
+  expires_at     TIMESTAMP,
+  last_used_at   TIMESTAMP,
+  revoked_at     TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user ON auth_tokens (user_id, kind);
+
+-- Who performed each mutating call (POST/PUT/PATCH/DELETE), including rejected ones.
+CREATE TABLE IF NOT EXISTS auth_audit_log (
+  id             BIGSERIAL PRIMARY KEY,
+  timestamp      TIMESTAMP   NOT NULL DEFAULT NOW(),
+  user_id        INTEGER,
+  username       TEXT,
+  role           TEXT,
+  auth_method    TEXT,
+  method         TEXT        NOT NULL,
+  path           TEXT        NOT NULL,
+  status_code    INTEGER,
+  ip             TEXT,
+  duration_ms    INTEGER,
+  request_body   JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_audit_log_ts ON auth_audit_log (timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_audit_log_user_ts ON auth_audit_log (user_id, timestamp DESC);
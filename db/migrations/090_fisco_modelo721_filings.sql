@@ -0,0 +1,13 @@
+-- Migration 090: FISCO Modelo 721 — presentaciones registradas
+-- Guarda la valoración declarada de cada ejercicio para aplicar el umbral
+-- de incremento (> 20.000 €) y detectar extinciones en el ejercicio siguiente.
+
+CREATE TABLE IF NOT EXISTS fisco_modelo721_filings (
+  id SERIAL PRIMARY KEY,
+  fiscal_year INTEGER NOT NULL UNIQUE,
+  total_value_eur DECIMAL(18,2) NOT NULL,
+  positions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  declaration_id TEXT,
+  filed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,26 @@
+-- 091_orderbook_depth_snapshots.sql — L2 order-book depth snapshots for audit
+-- Idempotent: CREATE TABLE IF NOT EXISTS, CREATE INDEX IF NOT EXISTS.
+--
+-- Written by OrderBookDepthService when a consumer (SmartExit, SpreadFilter,
+-- IDCA LIVE guard, Grid planning) uses depth, throttled per pair + reason.
+-- Retention: 30 days (purged by the service).
+
+CREATE TABLE IF NOT EXISTS orderbook_depth_snapshots (
+  id              BIGSERIAL PRIMARY KEY,
+  pair            TEXT        NOT NULL,
+  exchange        TEXT        NOT NULL,
+  reason          TEXT        NOT NULL,
+  best_bid        DECIMAL(18,8) NOT NULL,
+  best_ask        DECIMAL(18,8) NOT NULL,
+  mid             DECIMAL(18,8) NOT NULL,
+  spread_bps      DECIMAL(10,4) NOT NULL,
+  orderbook_bias  DECIMAL(6,4)  NOT NULL,
+  bands           JSONB       NOT NULL DEFAULT '[]'::jsonb,
+  slippage        JSONB       NOT NULL DEFAULT '[]'::jsonb,
+  top_levels      JSONB,
+  book_ts         TIMESTAMP   NOT NULL,
+  captured_at     TIMESTAMP   NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orderbook_depth_snapshots_pair_ts
+  ON orderbook_depth_snapshots (pair, captured_at DESC);
@@ -0,0 +1,11 @@
+-- 092_open_positions_exchange_stop.sql — exchange-resident protective stop per lot
+-- Idempotent: ADD COLUMN IF NOT EXISTS.
+--
+-- ExchangeStopManager mirrors each open Spot lot's current stop as a native
+-- stop-loss order on the exchange (Kraken) so positions stay protected if the
+-- bot process is down. The order id and trigger price are persisted here so
+-- the stop can be reconciled on startup.
+
+ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS exchange_stop_order_id TEXT;
+ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS exchange_stop_price DECIMAL(18,8);
+ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS exchange_stop_updated_at TIMESTAMP;
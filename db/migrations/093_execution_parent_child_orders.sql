@@ -0,0 +1,52 @@
+-- 093_execution_parent_child_orders.sql — sliced execution (TWAP / participation / maker-first)
+-- Idempotent: CREATE TABLE IF NOT EXISTS, CREATE INDEX IF NOT EXISTS.
+--
+-- SlicedExecutionEngine splits a large buy/sell (parent) into child orders.
+-- Parent rows carry aggregate fill state (filled qty, average price, fees);
+-- child rows carry each exchange order, its partial fills and cancel/replace
+-- chain. IDCA orders reference the parent through exchange_order_id
+-- (parent_id), AMA ledger entries through logical_intent_id.
+
+CREATE TABLE IF NOT EXISTS execution_parent_orders (
+  parent_id     TEXT PRIMARY KEY,
+  source        TEXT          NOT NULL,          -- IDCA | AMA
+  source_ref    TEXT,                            -- cycleId / trancheId
+  exchange      TEXT          NOT NULL,
+  pair          TEXT          NOT NULL,
+  side          TEXT          NOT NULL,
+  algo          TEXT          NOT NULL,          -- twap | participation | maker_first
+  status        TEXT          NOT NULL,          -- working | completed | partial | failed
+  target_qty    DECIMAL(18,8) NOT NULL,
+  filled_qty    DECIMAL(18,8) NOT NULL DEFAULT 0,
+  filled_usd    DECIMAL(18,8) NOT NULL DEFAULT 0,
+  avg_price     DECIMAL(18,8),
+  fee_usd       DECIMAL(18,8) NOT NULL DEFAULT 0,
+  child_count   INTEGER       NOT NULL DEFAULT 0,
+  config_json   JSONB,
+  error         TEXT,
+  started_at    TIMESTAMP     NOT NULL DEFAULT NOW(),
+  finished_at   TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_parent_orders_source ON execution_parent_orders (source, source_ref);
+
+CREATE TABLE IF NOT EXISTS execution_child_orders (
+  child_id          TEXT PRIMARY KEY,
+  parent_id         TEXT          NOT NULL REFERENCES execution_parent_orders(parent_id),
+  child_index       INTEGER       NOT NULL,
+  exchange_order_id TEXT,
+  order_type        TEXT          NOT NULL,      -- limit | market
+  post_only         BOOLEAN       NOT NULL DEFAULT FALSE,
+  limit_price       DECIMAL(18,8),
+  requested_qty     DECIMAL(18,8) NOT NULL,
+  filled_qty        DECIMAL(18,8) NOT NULL DEFAULT 0,
+  avg_price         DECIMAL(18,8),
+  fee_usd           DECIMAL(18,8) NOT NULL DEFAULT 0,
+  status            TEXT          NOT NULL,      -- open | partially_filled | filled | canceled | replaced | failed
+  replaced_by       TEXT,
+  error             TEXT,
+  created_at        TIMESTAMP     NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMP     NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_child_orders_parent ON execution_child_orders (parent_id, child_index);
@@ -0,0 +1,28 @@
+-- 094_notification_channels.sql — transportes de alerta además de Telegram
+-- Idempotent: CREATE TABLE IF NOT EXISTS, ADD COLUMN IF NOT EXISTS.
+--
+-- TelegramNotificationCenter reparte cada NormalizedAlert que supera los
+-- filtros globales (kill switch, silent mode, severidad, quiet hours, reglas,
+-- dedupe, rate limit) también a estos canales: webhook JSON firmado, email
+-- SMTP, ntfy, Gotify y Discord. Cada canal filtra por modo y severidad
+-- mínima y puede configurarse como respaldo (sólo si Telegram no entrega).
+-- Los resultados de entrega se auditan en telegram_alert_events con
+-- transport = tipo de canal.
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id                        SERIAL PRIMARY KEY,
+  name                      TEXT      NOT NULL,
+  type                      TEXT      NOT NULL,               -- webhook | email | ntfy | gotify | discord
+  is_active                 BOOLEAN   NOT NULL DEFAULT TRUE,
+  config_json               JSONB     NOT NULL DEFAULT '{}'::jsonb,
+  enabled_modes             TEXT[]    NOT NULL DEFAULT '{}',      -- AlertMode[]; vacío = todos
+  min_severity              TEXT      NOT NULL DEFAULT 'HIGH',
+  only_on_telegram_failure  BOOLEAN   NOT NULL DEFAULT FALSE,
+  last_sent_at              TIMESTAMP,
+  last_error                TEXT,
+  created_at                TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at                TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE telegram_alert_events ADD COLUMN IF NOT EXISTS transport TEXT NOT NULL DEFAULT 'telegram';
+ALTER TABLE telegram_alert_events ADD COLUMN IF NOT EXISTS notification_channel_id INTEGER;
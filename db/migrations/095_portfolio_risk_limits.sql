@@ -0,0 +1,23 @@
+-- 095_portfolio_risk_limits.sql — límites de riesgo de cartera (exposición + VaR/CVaR)
+-- Idempotent: CREATE TABLE IF NOT EXISTS.
+--
+-- PortfolioRiskService suma la exposición por activo de SPOT_NORMAL, IDCA,
+-- GRID y AMA (más reservas pendientes) y calcula VaR/CVaR histórico a 1 día
+-- con las velas diarias de market_candles. PortfolioIntegrationAdapter.beforeOrder
+-- rechaza la reserva si la exposición pro-forma rompe alguno de estos límites.
+--
+-- asset = 'BTC', 'ETH', ... límite del activo en todos los modos
+-- asset = '*'                límite de la cartera completa (exposición crypto total, VaR agregado)
+-- Columna NULL = sin límite para esa métrica.
+
+CREATE TABLE IF NOT EXISTS portfolio_risk_limits (
+  asset             TEXT PRIMARY KEY,
+  max_exposure_usd  NUMERIC(18, 2) CHECK (max_exposure_usd IS NULL OR max_exposure_usd >= 0),
+  max_exposure_pct  NUMERIC(6, 2)  CHECK (max_exposure_pct IS NULL OR (max_exposure_pct >= 0 AND max_exposure_pct <= 100)),
+  max_var_usd       NUMERIC(18, 2) CHECK (max_var_usd IS NULL OR max_var_usd >= 0),
+  max_cvar_usd      NUMERIC(18, 2) CHECK (max_cvar_usd IS NULL OR max_cvar_usd >= 0),
+  enabled           BOOLEAN        NOT NULL DEFAULT TRUE,
+  updated_by        TEXT,
+  created_at        TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
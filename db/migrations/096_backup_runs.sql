@@ -0,0 +1,21 @@
+-- 096_backup_runs.sql — historial de backups programados y simulacros de restauración
+-- Idempotent: CREATE TABLE IF NOT EXISTS.
+--
+-- BackupScheduler registra aquí cada ejecución:
+--   kind = 'daily'  → backup de base de datos diario
+--   kind = 'weekly' → backup completo (DB + código) semanal
+--   kind = 'drill'  → restauración del último dump en un schema temporal + comprobaciones
+-- details guarda checksums, retención aplicada y el resultado de cada comprobación.
+
+CREATE TABLE IF NOT EXISTS backup_runs (
+  id           SERIAL PRIMARY KEY,
+  kind         TEXT        NOT NULL CHECK (kind IN ('daily', 'weekly', 'drill')),
+  backup_name  TEXT,
+  status       TEXT        NOT NULL CHECK (status IN ('running', 'ok', 'warning', 'failed')),
+  error        TEXT,
+  details      JSONB       NOT NULL DEFAULT '{}'::jsonb,
+  started_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at  TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_backup_runs_kind_started ON backup_runs (kind, started_at DESC);
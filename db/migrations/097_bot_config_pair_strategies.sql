@@ -0,0 +1,10 @@
+-- 097_bot_config_pair_strategies.sql — asignación de estrategia por par
+-- Idempotent: ADD COLUMN IF NOT EXISTS.
+--
+-- Mapa { "BTC/USD": "grid", "ETH/USD": "mean_reversion_simple" } con ids del
+-- StrategyRegistry. Un par sin entrada usa la estrategia global (bot_config.strategy)
+-- o el router de régimen en modo velas. La asignación sólo se aplica si el
+-- signalMode del plugin (cycle | candles) coincide con el modo activo.
+
+ALTER TABLE bot_config
+  ADD COLUMN IF NOT EXISTS pair_strategies JSONB NOT NULL DEFAULT '{}'::jsonb;
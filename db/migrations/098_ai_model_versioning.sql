@@ -0,0 +1,15 @@
+-- 098_ai_model_versioning.sql — versionado del modelo del filtro IA + scoring comparado
+-- Idempotent: ADD COLUMN IF NOT EXISTS.
+--
+-- ai_config.previous_model_version → modelo anterior (destino del rollback y
+--   modelo de comparación en modo observador).
+-- ai_shadow_decisions.compare_* → puntuación del modelo anterior sobre la misma
+--   señal, para comparar ambos modelos lado a lado antes de confiar en el nuevo.
+
+ALTER TABLE ai_config
+  ADD COLUMN IF NOT EXISTS previous_model_version TEXT;
+
+ALTER TABLE ai_shadow_decisions
+  ADD COLUMN IF NOT EXISTS compare_model_version TEXT,
+  ADD COLUMN IF NOT EXISTS compare_score DECIMAL(5, 4),
+  ADD COLUMN IF NOT EXISTS compare_would_block BOOLEAN;
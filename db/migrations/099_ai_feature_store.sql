@@ -0,0 +1,35 @@
+-- 099_ai_feature_store.sql — feature store del filtro IA
+-- Idempotent: CREATE TABLE / INDEX IF NOT EXISTS.
+--
+-- Una fila por señal BUY evaluada por la IA, con el vector de features
+-- versionado (feature_set_version) capturado en el momento de la decisión:
+-- indicadores base, régimen, alineación MTF, métricas de expansión de momentum
+-- y spread. Cuando la compra se ejecuta se enlaza el lote (lot_id) y al vender
+-- se etiqueta con el resultado (pnl_net / label_win). El entrenamiento usa las
+-- filas etiquetadas de la versión actual para los modelos por par y régimen.
+
+CREATE TABLE IF NOT EXISTS ai_feature_store (
+  id                   SERIAL PRIMARY KEY,
+  pair                 TEXT          NOT NULL,
+  regime               TEXT,
+  strategy_id          TEXT,
+  timeframe            TEXT,
+  mode                 TEXT          NOT NULL DEFAULT 'LIVE' CHECK (mode IN ('LIVE', 'DRY_RUN')),
+  feature_set_version  TEXT          NOT NULL,
+  features_json        JSONB         NOT NULL,
+  ai_score             DECIMAL(5, 4),
+  ai_threshold         DECIMAL(5, 4),
+  would_block          BOOLEAN,
+  model_version        TEXT,
+  model_segment        TEXT,
+  lot_id               TEXT,
+  pnl_net              DECIMAL(18, 8),
+  pnl_pct              DECIMAL(10, 4),
+  label_win            INTEGER,
+  labeled_at           TIMESTAMPTZ,
+  created_at           TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_feature_store_version_label ON ai_feature_store (feature_set_version, label_win);
+CREATE INDEX IF NOT EXISTS idx_ai_feature_store_lot ON ai_feature_store (lot_id) WHERE lot_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ai_feature_store_pair_created ON ai_feature_store (pair, created_at DESC);
@@ -0,0 +1,10 @@
+-- 100_capital_reservations_exchange.sql — exchange of each capital reservation
+-- Idempotent: ADD COLUMN / INDEX IF NOT EXISTS.
+--
+-- The combined Grid Isolated budget (PortfolioAllocationGuard) is a per-exchange
+-- GRID budget, so reservations must record the trading exchange they were made
+-- on. Rows written before this column existed were all made on Revolut X.
+
+ALTER TABLE strategy_capital_reservations ADD COLUMN IF NOT EXISTS exchange TEXT NOT NULL DEFAULT 'revolutx';
+
+CREATE INDEX IF NOT EXISTS idx_capital_reservations_exchange ON strategy_capital_reservations(exchange);
@@ -17,6 +17,8 @@ BACKUP_DIR="${BACKUP_BASE_DIR}/database"
 BACKUP_NAME="$1"
 BACKUP_FILE="${BACKUP_DIR}/db_${BACKUP_NAME}.sql"
 BACKUP_FILE_COMPRESSED="${BACKUP_FILE}.gz"
+# Salida --verbose de pg_dump: a un log aparte, nunca dentro del dump
+DUMP_LOG="${BACKUP_BASE_DIR}/meta/db_${BACKUP_NAME}.pg_dump.log"
 
 # Colores para output
 GREEN='\033[0;32m'
@@ -30,7 +32,7 @@ echo "Backup: ${BACKUP_NAME}"
 echo ""
 
 # Crear directorio de backups si no existe
-mkdir -p "${BACKUP_DIR}"
+mkdir -p "${BACKUP_DIR}" "${BACKUP_BASE_DIR}/meta"
 
 # Verificar que el contenedor de base de datos está corriendo
 if ! docker ps | grep -q krakenbot-staging-db; then
@@ -52,7 +54,7 @@ docker exec krakenbot-staging-db pg_dump \
     --if-exists \
     --create \
     --verbose \
-    > "${BACKUP_FILE}" 2>&1
+    > "${BACKUP_FILE}" 2> "${DUMP_LOG}"
 
 if [ $? -eq 0 ]; then
     echo -e "${GREEN}✓ Dump creado exitosamente${NC}"
@@ -3,6 +3,7 @@ import type { Server } from "http";
 import { storage } from "./storage";
 import { krakenService } from "./services/kraken";
 import { revolutXService } from "./services/exchanges/RevolutXService";
+import { binanceService } from "./services/exchanges/BinanceService";
 import { telegramService } from "./services/telegram";
 import { botLogger } from "./services/botLogger";
 import { TradingEngine } from "./services/tradingEngine";
@@ -10,8 +11,12 @@ import { eventsWs } from "./services/eventsWebSocket";
 import { terminalWsServer } from "./services/terminalWebSocket";
 import { environment } from "./services/environment";
 import { registerConfigRoutes } from "./routes/config";
-import { ExchangeFactory } from "./services/exchanges/ExchangeFactory";
+import { ExchangeFactory, type ExchangeType } from "./services/exchanges/ExchangeFactory";
 import { MarketDataService } from "./services/MarketDataService";
+import { startKrakenMarketStream, getKrakenMarketStream } from "./services/marketData/KrakenMarketStream";
+import { OrderBookDepthService } from "./services/marketData/OrderBookDepthService";
+import { slicedExecutionEngine } from "./services/execution/SlicedExecutionEngine";
+import { getParentWithChildren, getRecentParentOrders } from "./services/execution/ExecutionOrderRepository";
 import { krakenRateLimiter } from "./utils/krakenRateLimiter";
 import { z } from "zod";
 import { errorAlertService } from "./services/ErrorAlertService";
@@ -21,6 +26,10 @@ import type { RouterDeps } from "./routes/types";
 import { runIdcaHistoricalDuplicateCleanupOnce } from "./services/institutionalDca/IdcaHistoricalDuplicateCleanupService";
 import { AutoMigrationRunner } from "./services/AutoMigrationRunner";
 import { ensureFiscoV2Schema } from "./services/fisco/FiscoV2SchemaEnsureService";
+import { authenticateRequest } from "./services/auth/authMiddleware";
+import { authService } from "./services/auth/AuthService";
+import { registerAuthRoutes } from "./routes/auth.routes";
+import { positionsWs } from "./services/positionsWebSocket";
 import { db } from "./db";
 import path from "path";
 import fs from "fs";
@@ -69,6 +78,7 @@ export const MIGRATIONS = [
 export function initializeWebSockets(httpServer: Server): void {
   eventsWs.initialize(httpServer);
   terminalWsServer.initialize(httpServer);
+  positionsWs.initialize(httpServer);
   
   httpServer.on("upgrade", (req, socket, head) => {
     const pathname = new URL(req.url || "", `http://${req.headers.host}`).pathname;
@@ -77,6 +87,8 @@ export function initializeWebSockets(httpServer: Server): void {
       eventsWs.handleUpgrade(req, socket, head);
     } else if (pathname === "/ws/logs") {
       terminalWsServer.handleUpgrade(req, socket, head);
+    } else if (pathname === "/ws/positions") {
+      positionsWs.handleUpgrade(req, socket, head);
     } else {
       socket.destroy();
     }
@@ -97,6 +109,11 @@ export async function registerRoutes(
     revolutxService: revolutXService,
   };
 
+  // Authentication + role check for the whole REST API (see services/auth/authPolicy.ts).
+  // MUST be mounted before any route; /api/health and /api/auth/login stay public.
+  app.use("/api", authenticateRequest);
+  registerAuthRoutes(app);
+
   // Health check endpoint - MUST be registered before any other routes
   // Returns JSON for monitoring/load balancers (not index.html)
   // Returns 503 on errors so monitors can detect failures
@@ -147,6 +164,40 @@ export async function registerRoutes(
     }
   });
 
+  // Kraken WebSocket market stream status
+  app.get("/api/market-data/stream", (_req, res) => {
+    try {
+      const stream = getKrakenMarketStream();
+      res.json(stream ? { enabled: true, ...stream.getStatus() } : { enabled: false });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // L2 order-book depth (imbalance, depth per band, slippage estimates)
+  app.get("/api/market-data/depth", async (req, res) => {
+    try {
+      const pair = typeof req.query.pair === "string" ? req.query.pair : null;
+      if (!pair) {
+        return res.json(OrderBookDepthService.getStatus());
+      }
+      const depth = await OrderBookDepthService.getDepth(pair);
+      res.json({ pair, depth });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/market-data/depth/snapshots", async (req, res) => {
+    try {
+      const pair = typeof req.query.pair === "string" ? req.query.pair : undefined;
+      const limit = parseInt(String(req.query.limit ?? "50"), 10) || 50;
+      res.json(await OrderBookDepthService.getRecentSnapshots(pair, limit));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Kraken rate limiter diagnostics
   app.get("/api/rate-limiter/stats", (_req, res) => {
     try {
@@ -233,6 +284,13 @@ export async function registerRoutes(
     console.error('[startup] FISCO V2 schema ensure error (non-fatal):', e?.message || e);
   }
 
+  // Auth: create the bootstrap admin from env on first boot
+  try {
+    await authService.ensureBootstrapAdmin();
+  } catch (e: any) {
+    console.error('[startup] Auth bootstrap error (non-fatal):', e?.message || e);
+  }
+
   // Load saved API credentials on startup
   try {
     const apiConfig = await storage.getApiConfig();
@@ -245,9 +303,12 @@ export async function registerRoutes(
         revolutxApiKey: apiConfig.revolutxApiKey ?? undefined,
         revolutxPrivateKey: apiConfig.revolutxPrivateKey ?? undefined,
         revolutxEnabled: apiConfig.revolutxEnabled ?? false,
-        activeExchange: (apiConfig.activeExchange as "kraken" | "revolutx") ?? "kraken",
-        tradingExchange: ((apiConfig as any).tradingExchange as "kraken" | "revolutx") ?? "kraken",
-        dataExchange: ((apiConfig as any).dataExchange as "kraken" | "revolutx") ?? "kraken",
+        binanceApiKey: apiConfig.binanceApiKey ?? undefined,
+        binanceApiSecret: apiConfig.binanceApiSecret ?? undefined,
+        binanceEnabled: apiConfig.binanceEnabled ?? false,
+        activeExchange: (apiConfig.activeExchange as ExchangeType) ?? "kraken",
+        tradingExchange: ((apiConfig as any).tradingExchange as ExchangeType) ?? "kraken",
+        dataExchange: ((apiConfig as any).dataExchange as ExchangeType) ?? "kraken",
       });
       console.log(`[startup] ExchangeFactory initialized. Active: ${ExchangeFactory.getActiveExchangeType()}`);
       
@@ -267,6 +328,14 @@ export async function registerRoutes(
       }
     }
     
+    // Strategy plugins from STRATEGY_PLUGIN_MODULES (built-ins are always registered)
+    try {
+      const { strategyRegistry } = await import('./services/strategyPlugins/StrategyRegistry');
+      await strategyRegistry.loadExternalModules();
+    } catch (e: any) {
+      console.error('[startup] Failed to load strategy plugin modules:', e?.message || e);
+    }
+
     // Initialize trading engine
     tradingEngine = new TradingEngine(krakenService, telegramService);
     
@@ -277,6 +346,10 @@ export async function registerRoutes(
       isActive: () => tradingEngine?.isActive() ?? false,
       getBalance: async () => krakenService.isInitialized() ? await krakenService.getBalanceRaw() : {},
       getOpenPositions: () => tradingEngine?.getOpenPositions() ?? new Map(),
+      forceClosePosition: async (pair, currentPrice, correlationId, reason, lotId) => {
+        if (!tradingEngine) return { success: false, error: "Motor de trading no inicializado" };
+        return tradingEngine.forceClosePosition(pair, currentPrice, correlationId, reason, lotId);
+      },
     });
     
     // Start heartbeat for Telegram notifications
@@ -365,6 +438,14 @@ export async function registerRoutes(
     } catch (e: any) {
       console.error('[startup] Failed to initialize LogRetentionScheduler:', e?.message || e);
     }
+
+    // Inicializar BackupScheduler (backups diarios/semanales + restore drill; BACKUP_SCHEDULE_ENABLED)
+    try {
+      const { backupScheduler } = await import('./services/backup/BackupScheduler');
+      backupScheduler.initialize();
+    } catch (e: any) {
+      console.error('[startup] Failed to initialize BackupScheduler:', e?.message || e);
+    }
     
     // Auto-start if bot was active
     const botConfig = await storage.getBotConfig();
@@ -419,7 +500,24 @@ export async function registerRoutes(
         }
       }
       
+      if (body.strategy !== undefined || body.pairStrategies !== undefined) {
+        const { strategyRegistry } = await import('./services/strategyPlugins/StrategyRegistry');
+        if (body.strategy !== undefined && strategyRegistry.get(body.strategy)?.signalMode !== "cycle") {
+          return res.status(400).json({ error: `Estrategia desconocida: ${body.strategy}` });
+        }
+        if (body.pairStrategies !== undefined) {
+          const pairStrategiesError = strategyRegistry.validatePairStrategies(body.pairStrategies);
+          if (pairStrategiesError) {
+            return res.status(400).json({ error: pairStrategiesError });
+          }
+        }
+      }
+      
       const updated = await storage.updateBotConfig(body);
+
+      if (Array.isArray(req.body.activePairs)) {
+        getKrakenMarketStream()?.setPairs(updated.activePairs);
+      }
       
       if (req.body.isActive !== undefined && tradingEngine) {
         if (req.body.isActive) {
@@ -444,12 +542,15 @@ export async function registerRoutes(
         krakenEnabled: config?.krakenEnabled ?? true,
         revolutxConnected: config?.revolutxConnected || false,
         revolutxEnabled: config?.revolutxEnabled || false,
+        binanceConnected: config?.binanceConnected || false,
+        binanceEnabled: config?.binanceEnabled || false,
         activeExchange: activeEx,
         tradingExchange: config?.tradingExchange || activeEx,
         dataExchange: "kraken",
         telegramConnected: config?.telegramConnected || false,
         hasKrakenKeys: !!(config?.krakenApiKey && config?.krakenApiSecret),
         hasRevolutxKeys: !!(config?.revolutxApiKey && config?.revolutxPrivateKey),
+        hasBinanceKeys: !!(config?.binanceApiKey && config?.binanceApiSecret),
         hasTelegramKeys: !!(config?.telegramToken && config?.telegramChatId),
       });
     } catch (error) {
@@ -483,6 +584,44 @@ export async function registerRoutes(
     }
   });
 
+  // === STOPS PROTECTORES EN EXCHANGE ===
+  app.get("/api/exchange-stops", async (req, res) => {
+    try {
+      if (!tradingEngine) {
+        return res.status(503).json({ error: "Motor de trading no inicializado" });
+      }
+      res.json(tradingEngine.getExchangeStopStatus());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // === EJECUCIÓN TROCEADA (órdenes padre/hija) ===
+  app.get("/api/execution/orders", async (req, res) => {
+    try {
+      const source = typeof req.query.source === "string" ? req.query.source.toUpperCase() : undefined;
+      const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+      res.json({
+        active: slicedExecutionEngine.getActive(),
+        recent: await getRecentParentOrders({ source, limit }),
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/execution/orders/:parentId", async (req, res) => {
+    try {
+      const order = await getParentWithChildren(req.params.parentId);
+      if (!order) {
+        return res.status(404).json({ error: "Orden padre no encontrada" });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   app.post("/api/config/kraken", async (req, res) => {
     try {
       const { apiKey, apiSecret } = req.body;
@@ -530,12 +669,39 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/config/binance", async (req, res) => {
+    try {
+      const { apiKey, apiSecret } = req.body;
+      
+      if (!apiKey || !apiSecret) {
+        return res.status(400).json({ error: "API key and secret required" });
+      }
+
+      binanceService.initialize({ apiKey, apiSecret });
+      
+      const balance = await binanceService.getBalance();
+      
+      await storage.updateApiConfig({
+        binanceApiKey: apiKey,
+        binanceApiSecret: apiSecret,
+        binanceConnected: true,
+        binanceEnabled: true,
+      });
+      ExchangeFactory.setExchangeEnabled("binance", true);
+      
+      res.json({ success: true, message: "Binance connected successfully", balance });
+    } catch (error) {
+      await storage.updateApiConfig({ binanceConnected: false });
+      res.status(500).json({ error: "Failed to connect to Binance" });
+    }
+  });
+
   app.post("/api/config/active-exchange", async (req, res) => {
     try {
       const { activeExchange } = req.body;
       
-      if (!activeExchange || !["kraken", "revolutx"].includes(activeExchange)) {
-        return res.status(400).json({ error: "Invalid exchange. Must be 'kraken' or 'revolutx'" });
+      if (!activeExchange || !["kraken", "revolutx", "binance"].includes(activeExchange)) {
+        return res.status(400).json({ error: "Invalid exchange. Must be 'kraken', 'revolutx' or 'binance'" });
       }
 
       const config = await storage.getApiConfig();
@@ -548,6 +714,10 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Revolut X no está conectado. Configura las credenciales primero." });
       }
 
+      if (activeExchange === "binance" && !config?.binanceConnected) {
+        return res.status(400).json({ error: "Binance no está conectado. Configura las credenciales primero." });
+      }
+
       // Update ExchangeFactory runtime state
       try {
         ExchangeFactory.setActiveExchange(activeExchange);
@@ -1181,6 +1351,114 @@ export async function registerRoutes(
     }
   });
 
+  // ── Notification channels (webhook, email, ntfy, Gotify, Discord) ──
+  app.get("/api/telegram/notification-channels", async (req, res) => {
+    try {
+      const { maskChannelConfig } = await import("./services/notifications/NotificationChannelDispatcher");
+      const channels = await storage.getNotificationChannels();
+      res.json(channels.map(c => ({ ...c, configJson: maskChannelConfig(c.type, (c.configJson ?? {}) as Record<string, any>) })));
+    } catch (error) {
+      res.status(500).json({ error: "Error obteniendo canales de notificación" });
+    }
+  });
+
+  app.post("/api/telegram/notification-channels", async (req, res) => {
+    try {
+      const {
+        isNotificationChannelType, missingConfigKeys, maskChannelConfig, notificationChannelDispatcher,
+      } = await import("./services/notifications/NotificationChannelDispatcher");
+      const { name, type, isActive, configJson, enabledModes, minSeverity, onlyOnTelegramFailure } = req.body;
+
+      if (!name || !isNotificationChannelType(type)) {
+        return res.status(400).json({ error: "name y type (webhook|email|ntfy|gotify|discord) son requeridos" });
+      }
+      const config = configJson ?? {};
+      const missing = missingConfigKeys(type, config);
+      if (missing.length > 0) {
+        return res.status(400).json({ error: `Faltan campos de configuración: ${missing.join(", ")}` });
+      }
+
+      const channel = await storage.createNotificationChannel({
+        name,
+        type,
+        isActive: isActive ?? true,
+        configJson: config,
+        enabledModes: Array.isArray(enabledModes) ? enabledModes : [],
+        minSeverity: minSeverity ?? "HIGH",
+        onlyOnTelegramFailure: onlyOnTelegramFailure ?? false,
+      });
+      notificationChannelDispatcher.invalidateCache();
+      res.json({ ...channel, configJson: maskChannelConfig(channel.type, config) });
+    } catch (error) {
+      res.status(500).json({ error: "Error creando canal de notificación" });
+    }
+  });
+
+  app.patch("/api/telegram/notification-channels/:id", async (req, res) => {
+    try {
+      const {
+        isNotificationChannelType, missingConfigKeys, maskChannelConfig, mergeChannelConfig, notificationChannelDispatcher,
+      } = await import("./services/notifications/NotificationChannelDispatcher");
+      const id = parseInt(req.params.id);
+      const existing = await storage.getNotificationChannelById(id);
+      if (!existing || !isNotificationChannelType(existing.type)) {
+        return res.status(404).json({ error: "Canal no encontrado" });
+      }
+
+      const { name, isActive, configJson, enabledModes, minSeverity, onlyOnTelegramFailure } = req.body;
+      const updates: any = {};
+      if (name !== undefined) updates.name = name;
+      if (isActive !== undefined) updates.isActive = isActive;
+      if (enabledModes !== undefined) updates.enabledModes = Array.isArray(enabledModes) ? enabledModes : [];
+      if (minSeverity !== undefined) updates.minSeverity = minSeverity;
+      if (onlyOnTelegramFailure !== undefined) updates.onlyOnTelegramFailure = onlyOnTelegramFailure;
+      if (configJson !== undefined) {
+        updates.configJson = mergeChannelConfig(existing.type, (existing.configJson ?? {}) as Record<string, any>, configJson);
+        const missing = missingConfigKeys(existing.type, updates.configJson);
+        if (missing.length > 0) {
+          return res.status(400).json({ error: `Faltan campos de configuración: ${missing.join(", ")}` });
+        }
+      }
+
+      const channel = await storage.updateNotificationChannel(id, updates);
+      notificationChannelDispatcher.invalidateCache();
+      res.json(channel ? { ...channel, configJson: maskChannelConfig(channel.type, (channel.configJson ?? {}) as Record<string, any>) } : null);
+    } catch (error) {
+      res.status(500).json({ error: "Error actualizando canal de notificación" });
+    }
+  });
+
+  app.delete("/api/telegram/notification-channels/:id", async (req, res) => {
+    try {
+      const { notificationChannelDispatcher } = await import("./services/notifications/NotificationChannelDispatcher");
+      await storage.deleteNotificationChannel(parseInt(req.params.id));
+      notificationChannelDispatcher.invalidateCache();
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Error eliminando canal de notificación" });
+    }
+  });
+
+  app.post("/api/telegram/notification-channels/:id/test", async (req, res) => {
+    try {
+      const { notificationChannelDispatcher } = await import("./services/notifications/NotificationChannelDispatcher");
+      const { telegramNotificationCenter } = await import("./services/TelegramNotificationCenter");
+      const channel = await storage.getNotificationChannelById(parseInt(req.params.id));
+      if (!channel) {
+        return res.status(404).json({ error: "Canal no encontrado" });
+      }
+      const config = await telegramNotificationCenter.getGlobalConfig();
+      try {
+        await notificationChannelDispatcher.sendTest(channel, config?.telegramEnvironmentLabel || "unknown");
+        res.json({ success: true });
+      } catch (err: any) {
+        res.json({ success: false, error: err?.message || String(err) });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Error probando canal de notificación" });
+    }
+  });
+
   // ── Telegram Global Config (kill switch, dedupe, rate-limit, quiet hours) ──
   app.get("/api/telegram/global-config", async (req, res) => {
     try {
@@ -1786,12 +2064,16 @@ export async function registerRoutes(
 
   // Grid SHADOW startup (only starts if mode=SHADOW and isActive=true)
   try {
-    const { initializeGridShadowAtStartup } = await import('./services/gridIsolated/gridCycleStartupService');
+    const { initializeGridShadowAtStartup, initializeGridSecondaryInstancesAtStartup } = await import('./services/gridIsolated/gridCycleStartupService');
     if (!gridMigrationsSucceeded) {
       console.error('[startup] Grid SHADOW startup skipped: migrations did not complete successfully');
     } else {
       const result = await initializeGridShadowAtStartup();
       console.log('[startup] Grid SHADOW startup result:', result);
+      const secondary = await initializeGridSecondaryInstancesAtStartup();
+      if (secondary.length > 0) {
+        console.log('[startup] Grid secondary instances startup result:', secondary);
+      }
     }
   } catch (e: any) {
     console.error('[startup] Grid SHADOW startup failed:', e?.message || e);
@@ -1832,6 +2114,24 @@ export async function registerRoutes(
   const { registerMarketMetricsRoutes } = await import('./routes/marketMetrics.routes');
   registerMarketMetricsRoutes(app);
 
+  // ============================================================
+  // PROMETHEUS / OPENMETRICS EXPORTER
+  // ============================================================
+  const { registerMetricsRoutes } = await import('./routes/metrics.routes');
+  registerMetricsRoutes(app);
+
+  // ============================================================
+  // SPOT BACKTEST (candle replay)
+  // ============================================================
+  const { registerSpotBacktestRoutes } = await import('./routes/backtest.routes');
+  registerSpotBacktestRoutes(app, routerDeps);
+
+  // ============================================================
+  // STRATEGY REGISTRY (plugins + per-pair assignment)
+  // ============================================================
+  const { registerStrategyRoutes } = await import('./routes/strategies.routes');
+  registerStrategyRoutes(app, routerDeps);
+
   // ============================================
   // MARKET METRICS SCHEDULER
   // Refresca métricas cada 4 horas por defecto
@@ -1864,6 +2164,24 @@ export async function registerRoutes(
     console.error('[startup] Failed to initialize Market Metrics scheduler:', e?.message ?? e);
   }
 
+  // ============================================================
+  // KRAKEN MARKET STREAM (WS ticker/trade/ohlc → MarketDataService)
+  // ============================================================
+  try {
+    const streamEnabled = String(process.env.KRAKEN_WS_ENABLED ?? 'true').toLowerCase() === 'true';
+    if (streamEnabled && ExchangeFactory.getDataExchangeType() === "kraken") {
+      const botConfig = await storage.getBotConfig();
+      const pairs = botConfig?.activePairs ?? ["BTC/USD", "ETH/USD", "SOL/USD"];
+      const stream = startKrakenMarketStream({ pairs, url: process.env.KRAKEN_WS_URL || undefined });
+      tradingEngine?.attachMarketStream(stream);
+      console.log(`[startup] Kraken market stream started for ${pairs.join(", ")}`);
+    } else {
+      console.log('[startup] Kraken market stream disabled (KRAKEN_WS_ENABLED=false or data exchange is not Kraken)');
+    }
+  } catch (e: any) {
+    console.warn(`[startup] Kraken market stream init failed (non-critical): ${e?.message}`);
+  }
+
   // ============================================================
   // TRADE METRICS TRACKER (Phase 5 — MFE/MAE scheduler, 5min)
   // ============================================================
@@ -1891,6 +2209,16 @@ export async function registerRoutes(
     console.warn(`[startup] TradeMetricsTracker init failed (non-critical): ${e?.message}`);
   }
 
+  // ============================================================
+  // TUNING PROPOSAL GENERATOR (Phase 10 — replay-based proposals, 6h)
+  // ============================================================
+  try {
+    const { tuningProposalGenerator } = await import('./services/TuningProposalGenerator');
+    tuningProposalGenerator.startScheduler();
+  } catch (e: any) {
+    console.warn(`[startup] TuningProposalGenerator init failed (non-critical): ${e?.message}`);
+  }
+
   // === AUTO-REBUILD P&L ON STARTUP (background, non-blocking) ===
   setTimeout(async () => {
     try {
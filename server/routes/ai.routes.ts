@@ -336,6 +336,7 @@ export const registerAiRoutes: RegisterRoutes = (app, _deps) => {
         blockedLosers: report.blockedLosers,
         passedLosers: report.passedLosers,
         recent: report.recent,
+        modelComparison: report.modelComparison,
         message,
       });
     } catch (error: any) {
@@ -356,6 +357,45 @@ export const registerAiRoutes: RegisterRoutes = (app, _deps) => {
     }
   });
 
+  app.get("/api/ai/models", async (req, res) => {
+    try {
+      res.json(await aiService.getModels());
+    } catch (error: any) {
+      console.error("[api/ai/models] Error:", error.message);
+      res.status(500).json({ errorCode: "MODELS_ERROR", message: "Error al listar los modelos de IA" });
+    }
+  });
+
+  app.get("/api/ai/models/insights", async (req, res) => {
+    try {
+      res.json(await aiService.getModelInsights());
+    } catch (error: any) {
+      console.error("[api/ai/models/insights] Error:", error.message);
+      res.status(500).json({ errorCode: "INSIGHTS_ERROR", message: "Error al obtener importancia y calibración del modelo" });
+    }
+  });
+
+  app.post("/api/ai/models/rollback", async (req, res) => {
+    try {
+      const { version } = req.body ?? {};
+      if (version !== undefined && typeof version !== "string") {
+        return res.status(400).json({ errorCode: "INVALID_VERSION", message: "La versión debe ser un texto" });
+      }
+
+      const result = await aiService.rollback(version);
+      if (!result.success) {
+        const status = result.errorCode === "MODEL_NOT_FOUND" ? 404 : 409;
+        return res.status(status).json({ errorCode: result.errorCode, message: result.message });
+      }
+
+      const status = await aiService.getStatus();
+      res.json({ ...result, status });
+    } catch (error: any) {
+      console.error("[api/ai/models/rollback] Error:", error.message);
+      res.status(500).json({ errorCode: "ROLLBACK_ERROR", message: `Error al revertir el modelo: ${error.message}` });
+    }
+  });
+
   app.post("/api/ai/toggle", async (req, res) => {
     try {
       const { filterEnabled, shadowEnabled, threshold } = req.body;
@@ -0,0 +1,182 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { AUTH_ROLES } from "@shared/schema";
+import { authService, AuthError, isAuthDisabled, sessionTtlMs, SESSION_COOKIE_NAME } from "../services/auth/AuthService";
+import { extractToken, getAuthPrincipal } from "../services/auth/authMiddleware";
+
+const loginSchema = z.object({
+  username: z.string().min(1).max(64),
+  password: z.string().min(1).max(256),
+});
+
+const createUserSchema = z.object({
+  username: z.string().regex(/^[a-zA-Z0-9_.-]{3,64}$/),
+  password: z.string().min(1).max(256),
+  role: z.enum(AUTH_ROLES),
+});
+
+const updateUserSchema = z.object({
+  role: z.enum(AUTH_ROLES).optional(),
+  isActive: z.boolean().optional(),
+  password: z.string().min(1).max(256).optional(),
+});
+
+const createApiKeySchema = z.object({
+  userId: z.number().int().positive(),
+  label: z.string().max(100).optional(),
+});
+
+function authErrorStatus(error: AuthError): number {
+  if (error.code === "USER_NOT_FOUND") return 404;
+  if (error.code === "USER_EXISTS") return 409;
+  return 400;
+}
+
+function setSessionCookie(res: Response, token: string): void {
+  res.cookie(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.AUTH_COOKIE_SECURE === "true",
+    path: "/",
+    maxAge: sessionTtlMs(),
+  });
+}
+
+export function registerAuthRoutes(app: Express): void {
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const parsed = loginSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+      }
+      const result = await authService.login(parsed.data.username, parsed.data.password);
+      if (!result) {
+        return res.status(401).json({ error: "INVALID_CREDENTIALS" });
+      }
+      setSessionCookie(res, result.token);
+      res.locals.auth = { userId: result.user.id, username: result.user.username, role: result.user.role, authMethod: "session", tokenId: null };
+      res.json({ user: result.user, expiresAt: result.expiresAt });
+    } catch (error: any) {
+      console.error("[auth] login error:", error?.message || error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { token, source } = extractToken(req);
+      if (token && source === "cookie") {
+        await authService.logout(token);
+      }
+      res.clearCookie(SESSION_COOKIE_NAME, { path: "/" });
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/auth/me", (_req, res) => {
+    const principal = getAuthPrincipal(res);
+    res.json({ ...principal, authDisabled: isAuthDisabled() });
+  });
+
+  // ---- Users (admin)
+
+  app.get("/api/auth/users", async (_req, res) => {
+    try {
+      res.json(await authService.listUsers());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/users", async (req, res) => {
+    try {
+      const parsed = createUserSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+      }
+      res.status(201).json(await authService.createUser(parsed.data));
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return res.status(authErrorStatus(error)).json({ error: error.code, message: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/auth/users/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const parsed = updateUserSchema.safeParse(req.body || {});
+      if (!Number.isFinite(id) || !parsed.success) {
+        return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.success ? [] : parsed.error.issues });
+      }
+      // An admin cannot lock itself out
+      const principal = getAuthPrincipal(res);
+      if (principal?.userId === id && (parsed.data.isActive === false || (parsed.data.role && parsed.data.role !== "admin"))) {
+        return res.status(400).json({ error: "CANNOT_DEMOTE_SELF" });
+      }
+      res.json(await authService.updateUser(id, parsed.data));
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return res.status(authErrorStatus(error)).json({ error: error.code, message: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ---- API keys (admin). The plain key is only returned once, on creation.
+
+  app.get("/api/auth/api-keys", async (_req, res) => {
+    try {
+      res.json(await authService.listApiKeys());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/api-keys", async (req, res) => {
+    try {
+      const parsed = createApiKeySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+      }
+      res.status(201).json(await authService.createApiKey(parsed.data.userId, parsed.data.label ?? null));
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return res.status(authErrorStatus(error)).json({ error: error.code, message: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/auth/api-keys/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (!Number.isFinite(id)) {
+        return res.status(400).json({ error: "VALIDATION_ERROR" });
+      }
+      const revoked = await authService.revokeApiKey(id);
+      if (!revoked) {
+        return res.status(404).json({ error: "API_KEY_NOT_FOUND" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ---- Audit trail (admin)
+
+  app.get("/api/auth/audit", async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt((req.query.limit as string) || "100", 10) || 100, 1), 1000);
+      const username = typeof req.query.username === "string" && req.query.username ? req.query.username : undefined;
+      res.json(await authService.listAudit({ limit, username }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+}
@@ -10,6 +10,8 @@
  *   PATCH /api/autotuning/profiles/:id    — update profile
  *   GET  /api/autotuning/proposals        — list tuning proposals
  *   POST /api/autotuning/proposals        — create proposal
+ *   POST /api/autotuning/proposals/generate — run the automatic proposal generator now
+ *   GET  /api/autotuning/proposals/generator — generator scheduler status + last run
  *   PATCH /api/autotuning/proposals/:id/status — update proposal status
  *   POST /api/autotuning/proposals/:id/approve — approve proposal (APPROVED)
  *   POST /api/autotuning/proposals/:id/reject  — reject proposal (REJECTED)
@@ -20,6 +22,7 @@
 import type { Express } from "express";
 import type { RouterDeps } from "./types";
 import { storage } from "../storage";
+import { tuningProposalGenerator } from "../services/TuningProposalGenerator";
 
 export function registerAutotuningRoutes(app: Express, _deps: RouterDeps): void {
 
@@ -148,6 +151,24 @@ export function registerAutotuningRoutes(app: Express, _deps: RouterDeps): void
     }
   });
 
+  // Automatic generator (replay over snapshots + MFE/MAE, always creates OBSERVING)
+  app.post("/api/autotuning/proposals/generate", async (req, res) => {
+    try {
+      const { strategyType, pair } = req.body ?? {};
+      if (tuningProposalGenerator.getStatus().running) {
+        return res.status(409).json({ error: "Generator already running" });
+      }
+      const result = await tuningProposalGenerator.runOnce({ strategyType, pair });
+      res.json(result);
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message ?? "Unknown error" });
+    }
+  });
+
+  app.get("/api/autotuning/proposals/generator", async (_req, res) => {
+    res.json(tuningProposalGenerator.getStatus());
+  });
+
   app.patch("/api/autotuning/proposals/:id/status", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -0,0 +1,93 @@
+/**
+ * Spot Backtest Routes — candle replay of the Spot pipeline
+ *
+ * Endpoints:
+ *   POST /api/spot-backtest/run — replay stored market_candles through the
+ *                                 Spot entry gates + exit managers
+ *
+ * Body:
+ *   pair, timeframe, startDate, endDate, initialCapitalUsd, orderUsd
+ *   useCurrentBotConfig (default true) — start from the live bot_config row
+ *   botConfig            — overrides applied on top (what-if a config change)
+ */
+
+import { z } from "zod";
+import type { RegisterRoutes } from "./types";
+import { storage } from "../storage";
+import { spotBacktestEngine, botConfigFromRow } from "../services/backtest/spotBacktestEngine";
+import type { SpotBacktestConfig } from "../services/backtest/spotBacktestTypes";
+
+const botConfigOverridesSchema = z.object({
+  positionMode: z.enum(["SMART_GUARD", "SINGLE", "DCA"]).optional(),
+  regimeDetectionEnabled: z.boolean().optional(),
+  regimeRouterEnabled: z.boolean().optional(),
+  transitionSizeFactor: z.number().min(0).max(1).optional(),
+  signalScoringEnabled: z.boolean().optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  maxLotsPerPair: z.number().int().min(1).max(10).optional(),
+  pairCooldownMinutes: z.number().min(0).optional(),
+  stopLossCooldownMinutes: z.number().min(0).optional(),
+  stopLossPercent: z.number().positive().optional(),
+  sgBeAtPct: z.number().positive().optional(),
+  sgFeeCushionPct: z.number().min(0).optional(),
+  sgTrailStartPct: z.number().positive().optional(),
+  sgTrailDistancePct: z.number().positive().optional(),
+  sgTrailStepPct: z.number().min(0).optional(),
+  sgTpFixedEnabled: z.boolean().optional(),
+  sgTpFixedPct: z.number().positive().optional(),
+  timeStopHours: z.number().positive().optional(),
+  timeStopEnabled: z.boolean().optional(),
+  smartTimeStopV2Enabled: z.boolean().optional(),
+  smartExitConfig: z.record(z.any()).nullable().optional(),
+  spreadFilterEnabled: z.boolean().optional(),
+  spreadDynamicEnabled: z.boolean().optional(),
+  spreadMaxPct: z.number().positive().optional(),
+  spreadThresholdTrend: z.number().positive().optional(),
+  spreadThresholdRange: z.number().positive().optional(),
+  spreadThresholdTransition: z.number().positive().optional(),
+  spreadCapPct: z.number().positive().optional(),
+  spreadFloorPct: z.number().min(0).optional(),
+  spreadRevolutxMarkupPct: z.number().min(0).optional(),
+});
+
+const runSchema = z.object({
+  pair: z.string().min(3),
+  timeframe: z.enum(["5m", "15m", "30m", "1h", "4h", "1d"]).default("15m"),
+  startDate: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  endDate: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  initialCapitalUsd: z.number().positive().default(1000),
+  orderUsd: z.number().positive().default(100),
+  tradingExchange: z.enum(["kraken", "revolutx"]).optional(),
+  feePct: z.number().min(0).max(5).optional(),
+  slippagePct: z.number().min(0).max(5).optional(),
+  simulatedSpreadPct: z.number().min(0).max(10).optional(),
+  lookbackCandles: z.number().int().min(50).max(500).optional(),
+  useCurrentBotConfig: z.boolean().default(true),
+  botConfig: botConfigOverridesSchema.optional(),
+});
+
+export const registerSpotBacktestRoutes: RegisterRoutes = (app, _deps) => {
+
+  app.post("/api/spot-backtest/run", async (req, res) => {
+    const parsed = runSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+    }
+    try {
+      const { useCurrentBotConfig, botConfig: overrides, ...rest } = parsed.data;
+      const liveRow = useCurrentBotConfig ? await storage.getBotConfig() : undefined;
+      const apiCfg = rest.tradingExchange ? undefined : await storage.getApiConfig();
+
+      const config: SpotBacktestConfig = {
+        ...rest,
+        tradingExchange: rest.tradingExchange ?? (apiCfg?.tradingExchange === "revolutx" ? "revolutx" : "kraken"),
+        botConfig: { ...botConfigFromRow(liveRow), ...(overrides ?? {}) },
+      };
+
+      const result = await spotBacktestEngine.runBacktest(config);
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error?.message ?? String(error) });
+    }
+  });
+};
@@ -124,6 +124,47 @@ export const registerBackupRoutes: RegisterRoutes = async (app, _deps) => {
     }
   });
 
+  // Schedule config + recent scheduled runs / restore drills
+  app.get("/api/backups/schedule", async (req, res) => {
+    try {
+      const { backupScheduler, getBackupScheduleConfig } = await import('../services/backup/BackupScheduler');
+      const runs = await backupScheduler.getRecentRuns(parseInt(String(req.query.limit ?? '20'), 10) || 20);
+      res.json({ config: getBackupScheduleConfig(), busy: backupScheduler.isBusy(), runs });
+    } catch (error: any) {
+      console.error('[API] Error getting backup schedule:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Run a restore drill now (async; result shows up in /api/backups/schedule)
+  app.post("/api/backups/drill", async (req, res) => {
+    try {
+      const { backupScheduler } = await import('../services/backup/BackupScheduler');
+      if (backupScheduler.isBusy()) {
+        return res.status(409).json({ error: 'Backup operation already in progress' });
+      }
+      backupScheduler.runRestoreDrill().catch((e: any) =>
+        console.error('[API] Restore drill error:', e?.message || e)
+      );
+      res.status(202).json({ success: true, started: true });
+    } catch (error: any) {
+      console.error('[API] Error starting restore drill:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Verify backup checksums against its manifest
+  app.post("/api/backups/:name/verify", async (req, res) => {
+    try {
+      const { name } = req.params;
+      const result = await backupService.verifyBackup(name);
+      res.json(result);
+    } catch (error: any) {
+      console.error('[API] Error verifying backup:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Delete a backup
   app.delete("/api/backups/:name", async (req, res) => {
     try {
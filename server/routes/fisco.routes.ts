@@ -19,6 +19,8 @@ import { pool } from "../db";
 import { FiscoAutoSyncService } from "../services/fisco/FiscoAutoSyncService";
 import { FiscoPendingDetector } from "../services/fisco/FiscoPendingDetector";
 import { FiscoInventorySnapshotService } from "../services/fisco/FiscoInventorySnapshotService";
+import { FiscoModelo100Service } from "../services/fisco/FiscoModelo100Service";
+import { FiscoModelo721Service, buildModelo721File, renderModelo721SummaryText } from "../services/fisco/FiscoModelo721Service";
 import { createImportPreview, confirmImport, getImportBatches, getImportBatch, type ImportOptions } from "../services/fisco/FiscoImportService";
 import { getFiscoConfig, setFiscoConfig, getFinalizationStatus } from "../services/fisco/FiscoConfigService";
 import { runComparison } from "../services/fisco/FiscoComparisonService";
@@ -3252,6 +3254,72 @@ export function registerFiscoRebuildRoutes(app: Express): void {
     }
   });
 
+  /**
+   * GET /api/fisco/export/loss-deferrals.csv
+   * Exports losses deferred by the two-month repurchase rule (art. 33.5.f LIRPF).
+   */
+  app.get("/api/fisco/export/loss-deferrals.csv", async (req, res) => {
+    try {
+      const opts = parseExportParams(req.query as Record<string, string>);
+      const csv  = await new FiscoExportService(pool).exportLossDeferralsCsv(opts);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="fisco_loss_deferrals.csv"');
+      res.send(csv);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  /** Resuelve motor y opciones del Modelo 100 a partir de fisco_config */
+  async function modelo100Options() {
+    const config = await getFiscoConfig();
+    return {
+      engine: config.fiscoEngineMode === "v2_official" ? "v2_official" as const : "legacy_fifo" as const,
+      feeMode: config.feeMode,
+      blockIfRewardWithoutPrice: config.blockIfRewardWithoutPrice,
+      blockIfSellWithoutCostBasis: config.blockIfSellWithoutCostBasis,
+    };
+  }
+
+  /**
+   * GET /api/fisco/export/modelo100.json?year=YYYY
+   * Casillas de Renta (monedas virtuales + staking) con conciliación contra el
+   * resumen anual. Usa V2 cuando v2_official está activo.
+   */
+  app.get("/api/fisco/export/modelo100.json", async (req, res) => {
+    try {
+      const year = parseInt(req.query.year as string);
+      if (isNaN(year) || year < 2020 || year > 2100) {
+        return res.status(400).json({ error: "year inválido" });
+      }
+      const data = await new FiscoModelo100Service(pool).build(year, await modelo100Options());
+      return res.json(data);
+    } catch (e: any) {
+      console.error("[fisco/export/modelo100]", e);
+      return res.status(500).json({ error: e.message });
+    }
+  });
+
+  /**
+   * GET /api/fisco/export/modelo100.csv?year=YYYY&delimiter=comma|semicolon
+   */
+  app.get("/api/fisco/export/modelo100.csv", async (req, res) => {
+    try {
+      const year = parseInt(req.query.year as string);
+      if (isNaN(year) || year < 2020 || year > 2100) {
+        return res.status(400).json({ error: "year inválido" });
+      }
+      const { delimiter } = parseExportParams(req.query as Record<string, string>);
+      const csv = await new FiscoExportService(pool).exportModelo100Csv(year, { ...(await modelo100Options()), delimiter });
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="fisco_modelo100_${year}.csv"`);
+      return res.send(csv);
+    } catch (e: any) {
+      console.error("[fisco/export/modelo100.csv]", e);
+      return res.status(500).json({ error: e.message });
+    }
+  });
+
   /**
    * GET /api/fisco/report/annual/html
    * Returns a complete, interactive annual fiscal HTML report in Spanish.
@@ -3295,12 +3363,13 @@ export function registerFiscoRebuildRoutes(app: Express): void {
       const validSvc   = new FiscoValidationService(pool);
 
       // Generate all data in parallel
-      const [opscsv, dispCsv, lotsCsv, stmtCsv, consDisCsv, multiReport, counts] = await Promise.all([
+      const [opscsv, dispCsv, lotsCsv, stmtCsv, consDisCsv, deferralsCsv, multiReport, counts] = await Promise.all([
         exportSvc.exportOperationsCsv({ years, exchanges, delimiter: opts.delimiter }),
         exportSvc.exportDisposalsCsv({ years, exchanges, delimiter: opts.delimiter }),
         exportSvc.exportLotsCsv({ exchanges, delimiter: opts.delimiter }),
         exportSvc.exportStatementItemsCsv({ years, exchanges, delimiter: opts.delimiter }),
         exportSvc.exportConservativeDisposalsCsv({ years, exchanges, delimiter: opts.delimiter }),
+        exportSvc.exportLossDeferralsCsv({ years, exchanges, delimiter: opts.delimiter }),
         reportSvc.generate({ years, exchanges, includeGlobal: true, includeExchangeBreakdown: false }),
         exportSvc.getCounts({ years, exchanges }),
       ]);
@@ -3369,6 +3438,7 @@ export function registerFiscoRebuildRoutes(app: Express): void {
       zip.file("csv/fisco_lots.csv",                    lotsCsv);
       zip.file("csv/fisco_statement_items.csv",         stmtCsv);
       zip.file("csv/fisco_conservative_disposals.csv",  consDisCsv);
+      zip.file("csv/fisco_loss_deferrals.csv",          deferralsCsv);
       zip.file("json/reconciliation_summary.json",      JSON.stringify(multiReport, null, 2));
       zip.file("json/audit_metadata.json",              JSON.stringify(auditMeta, null, 2));
 
@@ -3739,6 +3809,126 @@ export function registerFiscoRebuildRoutes(app: Express): void {
     }
   });
 
+  // ============================================================
+  // MODELO 721 — Monedas virtuales custodiadas en el extranjero
+  // ============================================================
+
+  function parseModelo721Year(raw: unknown): number | null {
+    const year = parseInt(String(raw ?? ""));
+    return isNaN(year) || year < 2023 || year > 2100 ? null : year;
+  }
+
+  /**
+   * GET /api/fisco/modelo721?year=2025
+   * Saldos a 31/12 por custodio extranjero, valoración de mercado y
+   * obligación de declarar (umbral 50.000 € / incremento > 20.000 €).
+   */
+  app.get("/api/fisco/modelo721", async (req, res) => {
+    try {
+      const year = parseModelo721Year(req.query.year);
+      if (year === null) return res.status(400).json({ error: "year inválido (Modelo 721 desde ejercicio 2023)" });
+      const summary = await new FiscoModelo721Service(pool).buildSummary(year);
+      return res.json(summary);
+    } catch (e: any) {
+      console.error("[fisco/modelo721]", e);
+      return res.status(500).json({ error: e.message });
+    }
+  });
+
+  /**
+   * GET /api/fisco/modelo721/summary.txt?year=2025
+   * Resumen legible para adjuntar al expediente.
+   */
+  app.get("/api/fisco/modelo721/summary.txt", async (req, res) => {
+    try {
+      const year = parseModelo721Year(req.query.year);
+      if (year === null) return res.status(400).json({ error: "year inválido (Modelo 721 desde ejercicio 2023)" });
+      const summary = await new FiscoModelo721Service(pool).buildSummary(year);
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="modelo721_${year}_resumen.txt"`);
+      return res.send(renderModelo721SummaryText(summary));
+    } catch (e: any) {
+      console.error("[fisco/modelo721/summary]", e);
+      return res.status(500).json({ error: e.message });
+    }
+  });
+
+  /**
+   * POST /api/fisco/modelo721/file
+   * Body: { year, nif, name, phone?, contactName?, declarationId?, complementary?, substitutive?, previousDeclarationId? }
+   * Devuelve el fichero de ancho fijo (ISO-8859-1, CRLF) para presentación.
+   */
+  app.post("/api/fisco/modelo721/file", async (req, res) => {
+    try {
+      const body = req.body || {};
+      const year = parseModelo721Year(body.year);
+      if (year === null) return res.status(400).json({ error: "year inválido (Modelo 721 desde ejercicio 2023)" });
+      const nif = String(body.nif ?? "").trim().toUpperCase();
+      const name = String(body.name ?? "").trim();
+      if (!/^[A-Z0-9]{9}$/.test(nif)) return res.status(400).json({ error: "nif inválido (9 caracteres)" });
+      if (!name) return res.status(400).json({ error: "name es obligatorio (apellidos y nombre)" });
+
+      const summary = await new FiscoModelo721Service(pool).buildSummary(year);
+      if (summary.positions.length === 0) {
+        return res.status(409).json({ error: "No hay posiciones en custodios extranjeros para declarar", summary });
+      }
+      const content = buildModelo721File(summary, {
+        nif,
+        name,
+        phone: body.phone,
+        contactName: body.contactName,
+        declarationId: body.declarationId,
+        complementary: !!body.complementary,
+        substitutive: !!body.substitutive,
+        previousDeclarationId: body.previousDeclarationId,
+      });
+      res.setHeader("Content-Type", "text/plain; charset=iso-8859-1");
+      res.setHeader("Content-Disposition", `attachment; filename="modelo721_${year}_${nif}.txt"`);
+      return res.send(Buffer.from(content, "latin1"));
+    } catch (e: any) {
+      console.error("[fisco/modelo721/file]", e);
+      return res.status(500).json({ error: e.message });
+    }
+  });
+
+  /**
+   * GET /api/fisco/modelo721/filings
+   * Presentaciones registradas (base del umbral de incremento).
+   */
+  app.get("/api/fisco/modelo721/filings", async (_req, res) => {
+    try {
+      const filings = await new FiscoModelo721Service(pool).listFilings();
+      return res.json({ filings });
+    } catch (e: any) {
+      console.error("[fisco/modelo721/filings]", e);
+      return res.status(500).json({ error: e.message });
+    }
+  });
+
+  /**
+   * POST /api/fisco/modelo721/filings
+   * Body: { year, declarationId?, filedAt? }
+   * Registra la presentación del ejercicio con la valoración actual.
+   */
+  app.post("/api/fisco/modelo721/filings", async (req, res) => {
+    try {
+      const body = req.body || {};
+      const year = parseModelo721Year(body.year);
+      if (year === null) return res.status(400).json({ error: "year inválido (Modelo 721 desde ejercicio 2023)" });
+      if (body.filedAt && isNaN(new Date(body.filedAt).getTime())) {
+        return res.status(400).json({ error: "filedAt inválido" });
+      }
+      const filing = await new FiscoModelo721Service(pool).recordFiling(year, {
+        declarationId: body.declarationId ? String(body.declarationId) : null,
+        filedAt: body.filedAt ?? null,
+      });
+      return res.json({ success: true, filing });
+    } catch (e: any) {
+      console.error("[fisco/modelo721/filings]", e);
+      return res.status(500).json({ error: e.message });
+    }
+  });
+
   /**
    * GET /api/fisco/transfer-links?year=YYYY&dateBasis=economic|created
    * Lista transfer links del año con columnas reales de fisco_transfer_links.
@@ -3871,8 +4061,8 @@ export function registerFiscoRebuildRoutes(app: Express): void {
       if (!file) {
         return res.status(400).json({ error: "file is required (multipart/form-data)" });
       }
-      if (exchange !== "kraken" && exchange !== "revolutx") {
-        return res.status(400).json({ error: "exchange must be 'kraken' or 'revolutx'" });
+      if (exchange !== "kraken" && exchange !== "revolutx" && exchange !== "binance") {
+        return res.status(400).json({ error: "exchange must be 'kraken', 'revolutx' or 'binance'" });
       }
 
       // Convert buffer to string
@@ -1,7 +1,13 @@
 /**
  * Grid Isolated Routes — API endpoints for the Grid Isolated Engine.
  *
+ * Every endpoint accepts ?pair=BASE/USD to target one Grid instance (one
+ * engine per pair, see gridIsolatedRegistry). Without it the default
+ * instance is used.
+ *
  * Endpoints:
+ *   GET  /api/grid-isolated/instances           — List Grid instances (pair, mode, isActive, isRunning)
+ *   POST /api/grid-isolated/instances           — Create a Grid instance for a new pair (mode OFF)
  *   GET  /api/grid-isolated/config              — Get current config
  *   POST /api/grid-isolated/config              — Update config
  *   POST /api/grid-isolated/mode                — Change mode (with safety lock)
@@ -28,7 +34,9 @@
  */
 
 import { Express, Request, Response } from "express";
-import { gridIsolatedEngine } from "../services/gridIsolated/gridIsolatedEngine";
+import { z } from "zod";
+import type { GridIsolatedEngine } from "../services/gridIsolated/gridIsolatedEngine";
+import { gridIsolatedRegistry, GridInstanceError } from "../services/gridIsolated/gridIsolatedRegistry";
 import { gridModeLockService } from "../services/gridIsolated/gridModeLockService";
 import { gridReconciliationRunner } from "../services/gridIsolated/gridReconciliationRunner";
 import { gridBacktestEngine } from "../services/gridIsolated/gridBacktest";
@@ -60,6 +68,39 @@ import {
 import { gridRecommendationRegistry } from "../services/gridIsolated/gridRecommendationRegistry";
 import { getGridBandSnapshot } from "../services/gridIsolated/gridBandAdapter";
 
+// ─── Instance resolution (one Grid engine per pair) ─────────────────────────
+
+const createInstanceSchema = z.object({
+  pair: z.string().trim().toUpperCase(),
+});
+
+function requestedPair(req: Request): string | undefined {
+  const pair = req.query.pair;
+  return typeof pair === "string" && pair.trim() ? pair.trim().toUpperCase() : undefined;
+}
+
+/**
+ * Engine for ?pair=… (default instance when omitted). Responds 404 and
+ * returns null when the pair has no Grid instance.
+ */
+async function engineFor(req: Request, res: Response): Promise<GridIsolatedEngine | null> {
+  try {
+    return await gridIsolatedRegistry.resolve(requestedPair(req));
+  } catch (error) {
+    if (error instanceof GridInstanceError) {
+      res.status(404).json({ error: error.message, code: error.code });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Events filter for ?pair=…; without pair all instances are listed (legacy behaviour). */
+function eventsPairCondition(req: Request) {
+  const pair = requestedPair(req);
+  return pair ? eq(gridIsolatedEvents.pair, pair) : undefined;
+}
+
 // ─── Timing metadata helpers for audit/export ───────────────────────────────
 
 const LEVEL_STATUS_LABELS: Record<string, string> = {
@@ -657,16 +698,16 @@ function naturalRangeEventMessage(eventType: string, rawMessage: string, meta: a
 
 /**
  * Resolve active range from multiple sources:
- * 1. In-memory activeRangeVersion (gridIsolatedEngine)
+ * 1. In-memory activeRangeVersion (engine of the requested instance)
  * 2. status.activeRangeVersionId
  * 3. Last GRID_RANGE_ACTIVATED event with rangeVersionId
  * 4. Last GRID_RANGE_PROPOSED event if no activated
  * 5. DB gridRangeVersions table by id
  * 6. Partial from metadataJson
  */
-async function resolveActiveRange(events: any[], status: any, cyclesCount: number): Promise<any> {
+async function resolveActiveRange(engine: GridIsolatedEngine, events: any[], status: any, cyclesCount: number): Promise<any> {
   // 1. Try in-memory first
-  const memRv = gridIsolatedEngine.getActiveRangeVersion();
+  const memRv = engine.getActiveRangeVersion();
   if (memRv) {
     return {
       activeRangeVersionId: memRv.id,
@@ -808,11 +849,41 @@ async function resolveActiveRange(events: any[], status: any, cyclesCount: numbe
 }
 
 export function registerGridIsolatedRoutes(app: Express): void {
+  // ─── Instances ───────────────────────────────────────────
+
+  app.get("/api/grid-isolated/instances", async (_req: Request, res: Response) => {
+    try {
+      const instances = await gridIsolatedRegistry.listInstances();
+      res.json(instances);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  app.post("/api/grid-isolated/instances", async (req: Request, res: Response) => {
+    try {
+      const parsed = createInstanceSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+      }
+      const engine = await gridIsolatedRegistry.create(parsed.data.pair);
+      res.status(201).json({ pair: engine.getPair(), config: engine.getConfig() });
+    } catch (error) {
+      if (error instanceof GridInstanceError) {
+        const status = error.code === "INSTANCE_EXISTS" ? 409 : 400;
+        return res.status(status).json({ error: error.message, code: error.code });
+      }
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
   // ─── Config ──────────────────────────────────────────────
 
-  app.get("/api/grid-isolated/config", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/config", async (req: Request, res: Response) => {
     try {
-      const config = await gridIsolatedEngine.loadConfig();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const config = await engine.loadConfig();
       res.json(config);
     } catch (error) {
       res.status(500).json({ error: String(error) });
@@ -821,12 +892,21 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   app.post("/api/grid-isolated/config", async (req: Request, res: Response) => {
     try {
-      const config = await gridIsolatedEngine.loadConfig();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const config = await engine.loadConfig();
       const updates = req.body as Partial<GridIsolatedConfig>;
+      if (updates.pair !== undefined && String(updates.pair).toUpperCase() !== config.pair.toUpperCase()) {
+        return res.status(400).json({
+          error: `El par de una instancia Grid no se puede cambiar (${config.pair}); crea una instancia para ${updates.pair}`,
+          code: "PAIR_IMMUTABLE",
+        });
+      }
 
-      // Update fields (excluding id, createdAt, updatedAt)
+      // Update fields (excluding id, pair, createdAt, updatedAt). The pair is
+      // the instance identity: a new pair is a new instance, not an edit.
       const allowedFields: (keyof GridIsolatedConfig)[] = [
-        "pair", "capitalProfile", "executionPolicy", "netProfitTargetPct",
+        "capitalProfile", "executionPolicy", "netProfitTargetPct",
         "bandPeriod", "bandStdDevMultiplier", "atrPeriod", "atrTimeframe",
         "gridStepAtrMultiplier", "gridStepMinPct", "gridStepMaxPct",
         "trailingActivationPct", "trailingStopPct",
@@ -864,17 +944,17 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
       // Save via engine (which persists to DB)
       // We need to update the engine's internal config
-      const currentConfig = gridIsolatedEngine.getConfig();
+      const currentConfig = engine.getConfig();
       if (currentConfig) {
         for (const field of allowedFields) {
           if (updates[field] !== undefined) {
             (currentConfig as any)[field] = updates[field];
           }
         }
-        await gridIsolatedEngine.saveConfig();
+        await engine.saveConfig();
       }
 
-      res.json(gridIsolatedEngine.getConfig());
+      res.json(engine.getConfig());
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
@@ -887,7 +967,9 @@ export function registerGridIsolatedRoutes(app: Express): void {
       res.status(status).json({ error: reason, reason, code });
 
     try {
-      const runtimeConfig = await gridIsolatedEngine.loadConfig();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const runtimeConfig = await engine.loadConfig();
       const currentMode = runtimeConfig?.mode ?? "OFF";
       const pair = runtimeConfig?.pair || "BTC/USD";
 
@@ -1047,7 +1129,7 @@ export function registerGridIsolatedRoutes(app: Express): void {
       }
 
       // 7. Validate active range fingerprint
-      const runtimeStatus = await gridIsolatedEngine.getStatusSafe();
+      const runtimeStatus = await engine.getStatusSafe();
       const currentActiveRangeVersionId = runtimeStatus?.activeRangeVersionId ?? null;
       const currentActiveRangeFingerprint = buildActiveRangeFingerprint(currentActiveRangeVersionId);
       if (recommendation.activeRangeFingerprint && recommendation.activeRangeFingerprint !== currentActiveRangeFingerprint) {
@@ -1098,12 +1180,12 @@ export function registerGridIsolatedRoutes(app: Express): void {
       }
 
       // 10. Get current config object and validate/apply atomically
-      const currentConfig = gridIsolatedEngine.getConfig();
+      const currentConfig = engine.getConfig();
       if (!currentConfig) {
         return ERR("CONFIG_NOT_AVAILABLE", 500, "Config no disponible");
       }
 
-      const applyResult = await applyRecommendationPatchAtomically(currentConfig, alt, () => gridIsolatedEngine.saveConfig(), effectiveRegimeMaxPct);
+      const applyResult = await applyRecommendationPatchAtomically(currentConfig, alt, () => engine.saveConfig(), effectiveRegimeMaxPct);
 
       if (!applyResult.success) {
         return ERR(applyResult.errorCode ?? "APPLY_FAILED", 500, applyResult.error ?? "Error al aplicar la recomendación");
@@ -1136,8 +1218,10 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   app.post("/api/grid-isolated/mode", async (req: Request, res: Response) => {
     try {
+      const engine = await engineFor(req, res);
+      if (!engine) return;
       const { mode } = req.body as { mode: GridMode };
-      const result = await gridIsolatedEngine.changeMode(mode);
+      const result = await engine.changeMode(mode);
       res.json(result);
     } catch (error) {
       res.status(500).json({ error: String(error) });
@@ -1162,10 +1246,12 @@ export function registerGridIsolatedRoutes(app: Express): void {
     }
   });
 
-  app.get("/api/grid-isolated/unlock-status", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/unlock-status", async (req: Request, res: Response) => {
     try {
+      const engine = await engineFor(req, res);
+      if (!engine) return;
       const checks = await gridModeLockService.runUnlockChecks();
-      const config = gridIsolatedEngine.getConfig();
+      const config = engine.getConfig();
       const currentMode: GridMode = config?.mode || "OFF";
       const blockingReasons = buildBlockingReasons(checks, config);
       res.json({
@@ -1183,36 +1269,44 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   // ─── Status & Data ───────────────────────────────────────
 
-  app.get("/api/grid-isolated/status", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/status", async (req: Request, res: Response) => {
     try {
-      const status = await gridIsolatedEngine.getStatusSafe();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const status = await engine.getStatusSafe();
       res.json(status);
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.get("/api/grid-isolated/levels", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/levels", async (req: Request, res: Response) => {
     try {
-      const snapshot = await gridIsolatedEngine.getRuntimeSnapshot();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const snapshot = await engine.getRuntimeSnapshot();
       res.json(snapshot.levels);
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.get("/api/grid-isolated/cycles", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/cycles", async (req: Request, res: Response) => {
     try {
-      const snapshot = await gridIsolatedEngine.getRuntimeSnapshot();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const snapshot = await engine.getRuntimeSnapshot();
       res.json(snapshot.cycles);
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
   });
 
-  app.get("/api/grid-isolated/pump-dump-state", (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/pump-dump-state", async (req: Request, res: Response) => {
     try {
-      res.json(gridIsolatedEngine.getPumpDumpState());
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      res.json(engine.getPumpDumpState());
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
@@ -1230,6 +1324,8 @@ export function registerGridIsolatedRoutes(app: Express): void {
       const onlyErrors = req.query.onlyErrors === "true";
 
       const conditions: any[] = [];
+      const pairCondition = eventsPairCondition(req);
+      if (pairCondition) conditions.push(pairCondition);
       if (eventType) conditions.push(eq(gridIsolatedEvents.eventType, eventType));
       if (mode) conditions.push(eq(gridIsolatedEvents.mode, mode));
       if (cycleId) conditions.push(eq(gridIsolatedEvents.cycleId, cycleId));
@@ -1275,7 +1371,7 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
       const events = await db.select()
         .from(gridIsolatedEvents)
-        .where(sql`${gridIsolatedEvents.id} > ${sinceId}`)
+        .where(and(sql`${gridIsolatedEvents.id} > ${sinceId}`, eventsPairCondition(req)))
         .orderBy(desc(gridIsolatedEvents.createdAt))
         .limit(limit);
 
@@ -1301,21 +1397,23 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   // ─── Monitor / Audit ─────────────────────────────────────
 
-  app.get("/api/grid-isolated/monitor/audit", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/monitor/audit", async (req: Request, res: Response) => {
     try {
-      const snapshot = await gridIsolatedEngine.getRuntimeSnapshot();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const snapshot = await engine.getRuntimeSnapshot();
       const config = snapshot.config;
-      const status = await gridIsolatedEngine.getStatusSafe();
+      const status = await engine.getStatusSafe();
       const checks = await gridModeLockService.runUnlockChecks();
 
       // Stored execution config (may differ from normalized/effective config)
-      const storedConfigRows = await db.select().from(gridIsolatedConfigs).limit(1);
+      const storedConfigRows = await db.select().from(gridIsolatedConfigs).where(eq(gridIsolatedConfigs.pair, engine.getPair())).limit(1);
       const storedConfig = storedConfigRows[0] || null;
 
       // shadowCleanupPreview is read-only/dryRun — safe to call for audit diagnostics
       let cleanupPreview: any = null;
       try {
-        cleanupPreview = await gridIsolatedEngine.shadowCleanupPreview();
+        cleanupPreview = await engine.shadowCleanupPreview();
       } catch {
         // If preview fails, audit still works with fallback from status
       }
@@ -1350,6 +1448,7 @@ export function registerGridIsolatedRoutes(app: Express): void {
       try {
         events = await db.select()
           .from(gridIsolatedEvents)
+          .where(eventsPairCondition(req))
           .orderBy(desc(gridIsolatedEvents.createdAt))
           .limit(50);
       } catch {
@@ -1357,7 +1456,7 @@ export function registerGridIsolatedRoutes(app: Express): void {
       }
 
       const decisions = buildDecisions(mode, checks, status, blockingReasons, config);
-      const resolvedRange = await resolveActiveRange(events, status, cycles.length);
+      const resolvedRange = await resolveActiveRange(engine, events, status, cycles.length);
       const chatgptSummary = buildChatGPTSummary(mode, checks, status, blockingReasons, levels, cycles, events, config, resolvedRange);
 
       // Separate current vs historical levels for the UI
@@ -1668,8 +1767,8 @@ export function registerGridIsolatedRoutes(app: Express): void {
         },
       };
 
-      const lastShadowValidation = gridIsolatedEngine.getLastShadowValidation();
-      const lastProfessionalValidation = gridIsolatedEngine.getLastProfessionalGeneratorValidation();
+      const lastShadowValidation = engine.getLastShadowValidation();
+      const lastProfessionalValidation = engine.getLastProfessionalGeneratorValidation();
 
       // ─── Canonical level counts (g1 normalization) ───────────
       const plannedLevelsCount = levels.filter((l: any) => l?.status === "planned").length;
@@ -1769,7 +1868,7 @@ export function registerGridIsolatedRoutes(app: Express): void {
           });
 
       // REV-C12B: Get real projection state from engine — exact data from the last tick.
-      const projectionState = gridIsolatedEngine.getRecommendationProjectionState();
+      const projectionState = engine.getRecommendationProjectionState();
 
       const gridViewModel = buildGridAuditViewModel(
         mode,
@@ -1786,7 +1885,7 @@ export function registerGridIsolatedRoutes(app: Express): void {
         rangeLifecycle,
         // REV-C12B: Real execution gate + microstructure + allocation from engine projection state.
         // The projection state is the exact data used by buildRangeProposal during the last tick.
-        gridIsolatedEngine.getExecutionGate(),
+        engine.getExecutionGate(),
         projectionState?.executionMarketSnapshot ?? null,
         projectionState?.pairConstraints ?? null,
         projectionState?.allocation ?? null,
@@ -2144,9 +2243,11 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   // ─── Shadow Cleanup Preview (dry-run only, no DB modifications) ────────
 
-  app.post("/api/grid-isolated/shadow-cleanup/preview", async (_req: Request, res: Response) => {
+  app.post("/api/grid-isolated/shadow-cleanup/preview", async (req: Request, res: Response) => {
     try {
-      const preview = await gridIsolatedEngine.shadowCleanupPreview();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const preview = await engine.shadowCleanupPreview();
       res.json(preview);
     } catch (error) {
       res.status(500).json({ error: String(error) });
@@ -2157,6 +2258,8 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   app.post("/api/grid-isolated/shadow-cleanup/apply", async (req: Request, res: Response) => {
     try {
+      const engine = await engineFor(req, res);
+      if (!engine) return;
       const { dryRun, confirmToken, expectedCyclesCount, expectedLevelsCount } = req.body as {
         dryRun?: boolean;
         confirmToken?: string | null;
@@ -2164,7 +2267,7 @@ export function registerGridIsolatedRoutes(app: Express): void {
         expectedLevelsCount?: number;
       };
 
-      const result = await gridIsolatedEngine.applyShadowCleanup({
+      const result = await engine.applyShadowCleanup({
         dryRun: dryRun !== false,
         confirmToken: confirmToken ?? null,
         expectedCyclesCount,
@@ -2185,6 +2288,8 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   app.post("/api/grid-isolated/rebuild-planned-levels", async (req: Request, res: Response) => {
     try {
+      const engine = await engineFor(req, res);
+      if (!engine) return;
       // Gate 1: env var must be explicitly enabled
       if (process.env.GRID_ADMIN_REBUILD_ENABLED !== "true") {
         return res.status(403).json({ success: false, reason: "GRID_ADMIN_REBUILD_ENABLED is not set to 'true'" });
@@ -2205,10 +2310,10 @@ export function registerGridIsolatedRoutes(app: Express): void {
       const isDryRun = dryRun !== false;
 
       // Ensure engine state is fresh from DB
-      await gridIsolatedEngine.loadConfig();
+      await engine.loadConfig();
 
-      const status = gridIsolatedEngine.getExecutionStatus();
-      const config = gridIsolatedEngine.getConfig();
+      const status = engine.getExecutionStatus();
+      const config = engine.getConfig();
 
       // Pre-flight safety checks
       if (!config) {
@@ -2223,11 +2328,11 @@ export function registerGridIsolatedRoutes(app: Express): void {
       if (status.openCycles > 0) {
         return res.status(403).json({ success: false, reason: `Cannot rebuild: ${status.openCycles} open cycles` });
       }
-      if (gridIsolatedEngine.isRunning()) {
+      if (engine.isRunning()) {
         return res.status(403).json({ success: false, reason: "Engine is running — stop the grid before rebuild" });
       }
 
-      const result = await gridIsolatedEngine.rebuildPlannedLevels({ dryRun: isDryRun, reason: reason.trim() });
+      const result = await engine.rebuildPlannedLevels({ dryRun: isDryRun, reason: reason.trim() });
       if (!result.success) {
         return res.status(400).json(result);
       }
@@ -2239,10 +2344,12 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   app.post("/api/grid-isolated/reconcile", async (req: Request, res: Response) => {
     try {
+      const engine = await engineFor(req, res);
+      if (!engine) return;
       const { pair } = req.body as { pair?: string };
-      const config = gridIsolatedEngine.getConfig();
+      const config = engine.getConfig();
       const effectivePair = pair || config?.pair || "BTC/USD";
-      const levels = gridIsolatedEngine.getLevels();
+      const levels = engine.getLevels();
       const result = await gridReconciliationRunner.reconcile(effectivePair, levels);
       res.json(result);
     } catch (error) {
@@ -2272,9 +2379,11 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   // ─── Shadow Validation ───────────────────────────────────
 
-  app.post("/api/grid-isolated/shadow-validate", async (_req: Request, res: Response) => {
+  app.post("/api/grid-isolated/shadow-validate", async (req: Request, res: Response) => {
     try {
-      const result = await gridIsolatedEngine.runShadowValidation();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const result = await engine.runShadowValidation();
       res.json(result);
     } catch (error) {
       res.status(500).json({ error: String(error) });
@@ -2285,9 +2394,11 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   app.post("/api/grid-isolated/activate", async (req: Request, res: Response) => {
     try {
+      const engine = await engineFor(req, res);
+      if (!engine) return;
       const { active } = req.body as { active?: boolean };
       const targetActive = active !== false; // default true if not specified
-      const result = await gridIsolatedEngine.setActive(targetActive);
+      const result = await engine.setActive(targetActive);
       res.json({
         success: result.success,
         isActive: result.isActive,
@@ -2303,22 +2414,24 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
   // ─── Export ──────────────────────────────────────────────
 
-  app.get("/api/grid-isolated/export/chatgpt", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/export/chatgpt", async (req: Request, res: Response) => {
     try {
-      const config = gridIsolatedEngine.getConfig();
-      const status = gridIsolatedEngine.getExecutionStatus();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const config = engine.getConfig();
+      const status = engine.getExecutionStatus();
       const checks = await gridModeLockService.runUnlockChecks();
       const blockingReasons = buildBlockingReasons(checks, config);
       const mode = status?.mode ?? config?.mode ?? "OFF";
-      const levels = gridIsolatedEngine.getLevels();
-      const cycles = gridIsolatedEngine.getCycles();
+      const levels = engine.getLevels();
+      const cycles = engine.getCycles();
 
       let events: any[] = [];
       try {
-        events = await db.select().from(gridIsolatedEvents).orderBy(desc(gridIsolatedEvents.createdAt)).limit(20);
+        events = await db.select().from(gridIsolatedEvents).where(eventsPairCondition(req)).orderBy(desc(gridIsolatedEvents.createdAt)).limit(20);
       } catch {}
 
-      const resolvedRange = await resolveActiveRange(events, status, cycles.length);
+      const resolvedRange = await resolveActiveRange(engine, events, status, cycles.length);
       const summary = buildChatGPTSummary(mode, checks, status, blockingReasons, levels, cycles, events, config, resolvedRange);
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
       res.send(summary);
@@ -2327,11 +2440,13 @@ export function registerGridIsolatedRoutes(app: Express): void {
     }
   });
 
-  app.get("/api/grid-isolated/export/json", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/export/json", async (req: Request, res: Response) => {
     try {
-      const snapshot = await gridIsolatedEngine.getRuntimeSnapshot();
+      const engine = await engineFor(req, res);
+      if (!engine) return;
+      const snapshot = await engine.getRuntimeSnapshot();
       const config = snapshot.config;
-      const status = await gridIsolatedEngine.getStatusSafe();
+      const status = await engine.getStatusSafe();
       const checks = await gridModeLockService.runUnlockChecks();
       const blockingReasons = buildBlockingReasons(checks, config);
       const mode = status?.mode ?? config?.mode ?? "OFF";
@@ -2341,17 +2456,17 @@ export function registerGridIsolatedRoutes(app: Express): void {
 
       let events: any[] = [];
       try {
-        events = await db.select().from(gridIsolatedEvents).orderBy(desc(gridIsolatedEvents.createdAt)).limit(50);
+        events = await db.select().from(gridIsolatedEvents).where(eventsPairCondition(req)).orderBy(desc(gridIsolatedEvents.createdAt)).limit(50);
       } catch {}
 
-      const resolvedRange = await resolveActiveRange(events, status, cycles.length);
-      const lastShadowValidation = gridIsolatedEngine.getLastShadowValidation();
-      const lastProfessionalValidation = gridIsolatedEngine.getLastProfessionalGeneratorValidation();
+      const resolvedRange = await resolveActiveRange(engine, events, status, cycles.length);
+      const lastShadowValidation = engine.getLastShadowValidation();
+      const lastProfessionalValidation = engine.getLastProfessionalGeneratorValidation();
       const marketContext: GridMarketContext | null = null; // Export endpoint uses minimal view model without live market data
       // REV-C12B Step 11: Single read of projection state — reused for all 3 fields.
       // This prevents the state from expiring between multiple reads of the same response.
-      const exportProjectionState = gridIsolatedEngine.getRecommendationProjectionState();
-      const exportExecutionGate = gridIsolatedEngine.getExecutionGate();
+      const exportProjectionState = engine.getRecommendationProjectionState();
+      const exportExecutionGate = engine.getExecutionGate();
       const gridViewModel = buildGridAuditViewModel(
         mode,
         config,
@@ -2396,11 +2511,11 @@ export function registerGridIsolatedRoutes(app: Express): void {
     }
   });
 
-  app.get("/api/grid-isolated/export/csv", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/export/csv", async (req: Request, res: Response) => {
     try {
       let events: any[] = [];
       try {
-        events = await db.select().from(gridIsolatedEvents).orderBy(desc(gridIsolatedEvents.createdAt)).limit(100);
+        events = await db.select().from(gridIsolatedEvents).where(eventsPairCondition(req)).orderBy(desc(gridIsolatedEvents.createdAt)).limit(100);
       } catch {}
 
       const header = "id,event_type,pair,mode,level_id,cycle_id,message,created_at\n";
@@ -2422,12 +2537,10 @@ export function registerGridIsolatedRoutes(app: Express): void {
    * Does NOT persist ranges, levels, or place orders.
    * Safe to call even when market conditions are unsuitable.
    */
-  app.post("/api/grid-isolated/professional-generator/validate", async (_req: Request, res: Response) => {
+  app.post("/api/grid-isolated/professional-generator/validate", async (req: Request, res: Response) => {
     try {
-      const engine = gridIsolatedEngine;
-      if (!engine) {
-        return res.status(503).json({ error: "Grid engine not available" });
-      }
+      const engine = await engineFor(req, res);
+      if (!engine) return;
 
       const result = await engine.validateProfessionalGeneratorReadOnly();
       res.json(result);
@@ -2442,12 +2555,10 @@ export function registerGridIsolatedRoutes(app: Express): void {
    * Reports whether each cycle would be closed by processOpenCyclesShadow()
    * without actually closing cycles, modifying the DB, or placing orders.
    */
-  app.get("/api/grid-isolated/shadow-open-cycles/diagnose", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/shadow-open-cycles/diagnose", async (req: Request, res: Response) => {
     try {
-      const engine = gridIsolatedEngine;
-      if (!engine) {
-        return res.status(503).json({ error: "Grid engine not available" });
-      }
+      const engine = await engineFor(req, res);
+      if (!engine) return;
 
       const result = await engine.diagnoseShadowOpenCycles();
       res.json(result);
@@ -2465,12 +2576,10 @@ export function registerGridIsolatedRoutes(app: Express): void {
    * Kept for backwards compatibility. Returns the same payload with
    * a `deprecated` flag and `replacement` URL.
    */
-  app.get("/api/grid-isolated/shadow-orphan-cycles/diagnose", async (_req: Request, res: Response) => {
+  app.get("/api/grid-isolated/shadow-orphan-cycles/diagnose", async (req: Request, res: Response) => {
     try {
-      const engine = gridIsolatedEngine;
-      if (!engine) {
-        return res.status(503).json({ error: "Grid engine not available" });
-      }
+      const engine = await engineFor(req, res);
+      if (!engine) return;
 
       const result = await engine.diagnoseShadowOpenCycles();
       res.json({
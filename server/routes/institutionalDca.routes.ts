@@ -4,16 +4,17 @@
  * Completely isolated from the main bot routes.
  */
 import type { Express } from "express";
+import { z } from "zod";
 import * as repo from "../services/institutionalDca/IdcaRepository";
 import * as engine from "../services/institutionalDca/IdcaEngine";
 import * as telegram from "../services/institutionalDca/IdcaTelegramNotifier";
 import * as exitRepo from "../services/institutionalDca/IdcaExitInstructionRepository";
+import { runIdcaBacktest } from "../services/institutionalDca/IdcaBacktestEngine";
 import {
-  sendInstructionCreatedTelegram,
   sendInstructionCancelledTelegram,
-  executeExitInstruction,
+  createAndDispatchExitInstruction,
 } from "../services/institutionalDca/IdcaExitExecutor";
-import { INSTITUTIONAL_DCA_ALLOWED_PAIRS } from "@shared/schema";
+import { INSTITUTIONAL_DCA_PAIR_PATTERN } from "@shared/schema";
 import { serverLogsService } from "../services/serverLogsService";
 import { isIdcaLine, parseIdcaLog } from "../services/institutionalDca/idcaLogParser";
 import { getEffectiveEntryConfig, ENTRY_SLIDER_DEFAULTS, type EntryUiConfig } from "../services/institutionalDca/IdcaSliderConfig";
@@ -140,7 +141,7 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
   app.get(`${PREFIX}/config/effective`, async (_req, res) => {
     try {
       const config = await repo.getIdcaConfig();
-      const pairs = ["BTC/USD", "ETH/USD"] as const;
+      const pairs = await repo.getConfiguredPairs();
 
       const pairsData = await Promise.all(pairs.map(async (pair) => {
         const assetConfig = await repo.getAssetConfig(pair);
@@ -218,11 +219,35 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
     }
   });
 
+  // New pairs start in exit-only mode (enabled=false) so nothing is bought
+  // until the per-asset guardrails have been reviewed and the pair is enabled.
+  const createAssetConfigSchema = z.object({
+    pair: z.string().regex(INSTITUTIONAL_DCA_PAIR_PATTERN, "Formato de par: BASE/USD (ej. SOL/USD)"),
+    enabled: z.boolean().default(false),
+  });
+
+  app.post(`${PREFIX}/asset-configs`, async (req, res) => {
+    const parsed = createAssetConfigSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+    }
+    try {
+      const { pair, enabled } = parsed.data;
+      if (await repo.getAssetConfig(pair)) {
+        return res.status(409).json({ error: `Asset config for ${pair} already exists` });
+      }
+      const created = await repo.upsertAssetConfig(pair, { enabled });
+      res.status(201).json(created);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
   app.patch(`${PREFIX}/asset-configs/:pair`, async (req, res) => {
     try {
       const pair = decodeURIComponent(req.params.pair);
-      if (!INSTITUTIONAL_DCA_ALLOWED_PAIRS.includes(pair as any)) {
-        return res.status(400).json({ error: `Pair ${pair} not allowed. Allowed: ${INSTITUTIONAL_DCA_ALLOWED_PAIRS.join(", ")}` });
+      if (!(await repo.getAssetConfig(pair))) {
+        return res.status(404).json({ error: `Asset config for ${pair} not found. Create it with POST ${PREFIX}/asset-configs` });
       }
       const updated = await repo.upsertAssetConfig(pair, req.body);
       res.json(updated);
@@ -520,6 +545,33 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
     }
   });
 
+  // Replays cached OHLCV through the IDCA cycle logic and stores the run.
+  // config / assetConfig are overrides on top of the live rows (what-if).
+  const backtestRunSchema = z.object({
+    pair: z.string().regex(INSTITUTIONAL_DCA_PAIR_PATTERN),
+    fromDate: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+    toDate: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+    timeframe: z.enum(["15m", "1h", "4h"]).default("1h"),
+    lookbackCandles: z.number().int().min(24).max(5000).optional(),
+    initialBalanceUsd: z.number().positive().optional(),
+    config: z.record(z.any()).optional(),
+    assetConfig: z.record(z.any()).optional(),
+    persist: z.boolean().default(true),
+  });
+
+  app.post(`${PREFIX}/backtests/run`, async (req, res) => {
+    const parsed = backtestRunSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+    }
+    try {
+      const { backtest, results } = await runIdcaBacktest(parsed.data);
+      res.json({ backtest, results });
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
   // ─── Import Position ─────────────────────────────────────────────
 
   app.get(`${PREFIX}/importable-status`, async (_req, res) => {
@@ -555,8 +607,8 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
       if (!pair || !quantity || !avgEntryPrice) {
         return res.status(400).json({ error: "Campos requeridos: pair, quantity, avgEntryPrice" });
       }
-      if (!["BTC/USD", "ETH/USD"].includes(pair)) {
-        return res.status(400).json({ error: `Par no permitido: ${pair}. Solo BTC/USD o ETH/USD.` });
+      if (!(await repo.getAssetConfig(pair))) {
+        return res.status(400).json({ error: `Par no permitido: ${pair}. Añádelo primero en Config → Pares IDCA.` });
       }
       if (quantity <= 0 || avgEntryPrice <= 0) {
         return res.status(400).json({ error: "quantity y avgEntryPrice deben ser positivos." });
@@ -1090,7 +1142,7 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
     try {
       const config = await repo.getIdcaConfig();
       const mode = config.mode ?? "simulation";
-      const pairs = ["BTC/USD", "ETH/USD"];
+      const pairs = await repo.getConfiguredPairs();
       const results = await Promise.all(pairs.map(p => checkMarketDataHealth(p, mode)));
       res.json(results);
     } catch (e: any) {
@@ -1423,8 +1475,9 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
 
   app.get(`${PREFIX}/price-context`, async (_req, res) => {
     try {
+      const pairs = await repo.getConfiguredPairs();
       const results = await Promise.all(
-        INSTITUTIONAL_DCA_ALLOWED_PAIRS.map(async (pair) => ({
+        pairs.map(async (pair) => ({
           pair,
           staticData: await repo.getPriceContextStatic(pair),
           liveContext: engine.getMacroContext(pair) ?? null,
@@ -1459,7 +1512,7 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
   app.get(`${PREFIX}/market-context/preview`, async (_req, res) => {
     try {
       const { idcaMarketContextService } = await import('../services/institutionalDca/IdcaMarketContextService');
-      const results = await idcaMarketContextService.getMultipleContexts([...INSTITUTIONAL_DCA_ALLOWED_PAIRS]);
+      const results = await idcaMarketContextService.getMultipleContexts(await repo.getConfiguredPairs());
       const previews = results.map((r: any) => ({
         pair: r.pair,
         anchorPrice: r.anchorPrice,
@@ -2215,45 +2268,16 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
         return res.status(400).json({ error: "scheduled_time requiere triggerTime (ISO8601)" });
       }
 
-      // Snapshot requested quantity
-      const totalQty = parseFloat(String(cycle.totalQuantity || "0"));
-      const requestedQuantity = totalQty * (pct / 100);
-
-      const instruction = await exitRepo.createExitInstruction({
-        cycleId,
-        pair: cycle.pair,
-        mode: cycle.mode,
+      const instruction = await createAndDispatchExitInstruction(cycle, {
         type,
-        closePct: pct.toFixed(2),
-        triggerPrice: triggerPrice ? parseFloat(String(triggerPrice)).toFixed(8) : undefined,
+        closePct: pct,
+        triggerPrice: triggerPrice ? parseFloat(String(triggerPrice)) : undefined,
         triggerDirection: triggerDirection ?? undefined,
         triggerTime: triggerTime ? new Date(triggerTime) : undefined,
-        timezone: timezone || "Europe/Madrid",
-        requestedQuantity: requestedQuantity.toFixed(8),
-        notes: notes ?? undefined,
+        timezone,
+        notes,
       });
 
-      // Determine trigger info for Telegram
-      let triggerInfo = "inmediata";
-      if (type === "price_target") triggerInfo = `${triggerDirection === "above" ? "↑" : "↓"} $${parseFloat(String(triggerPrice)).toFixed(2)}`;
-      if (type === "scheduled_time") triggerInfo = new Date(triggerTime).toLocaleString("es-ES", { timeZone: timezone || "Europe/Madrid" });
-
-      // Telegram notification
-      try {
-        await sendInstructionCreatedTelegram(cycle, instruction.id, type, pct, triggerInfo);
-      } catch { /* ignore */ }
-
-      // Immediate instructions: execute now in background
-      if (type === "immediate") {
-        const { MarketDataService } = await import("../services/MarketDataService");
-        const price = await MarketDataService.getPrice(cycle.pair);
-        if (price > 0) {
-          executeExitInstruction(instruction.id, price).catch((e: Error) => {
-            console.error(`[IDCA_EXIT_ROUTES] Immediate instruction #${instruction.id} failed: ${e.message}`);
-          });
-        }
-      }
-
       res.status(201).json({ success: true, instruction });
     } catch (e: any) {
       console.error('[IDCA] createExitInstruction error:', e.message);
@@ -2310,7 +2334,7 @@ export function registerInstitutionalDcaRoutes(app: Express): void {
   app.get(`${PREFIX}/entry-diagnostics`, async (_req, res) => {
     try {
       const { MarketDataService } = await import("../services/MarketDataService");
-      const pairsToCheck = INSTITUTIONAL_DCA_ALLOWED_PAIRS as readonly string[];
+      const pairsToCheck = await repo.getConfiguredPairs();
       const globalConfig = await repo.getIdcaConfig();
       const result: Record<string, unknown> = {};
 
@@ -0,0 +1,26 @@
+// ============================================================
+// metrics.routes.ts
+// Exportador Prometheus / OpenMetrics (GET /api/metrics)
+// Autenticación: la del resto de /api (rol viewer). Para Prometheus,
+// usar una API key como bearer token en la configuración del scrape.
+// ============================================================
+
+import type { Express } from "express";
+import { metricsRegistry, negotiateMetricsFormat, contentTypeFor } from "../services/metrics/metricsRegistry";
+import "../services/metrics/appMetrics";
+
+export function registerMetricsRoutes(app: Express): void {
+
+  // GET /api/metrics — OpenMetrics si el Accept lo pide, si no texto Prometheus 0.0.4
+  app.get("/api/metrics", async (req, res) => {
+    try {
+      const format = negotiateMetricsFormat(req.headers.accept);
+      const body = await metricsRegistry.render(format);
+      res.setHeader("Content-Type", contentTypeFor(format));
+      res.setHeader("Cache-Control", "no-store");
+      res.send(body);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message ?? "Error generando métricas" });
+    }
+  });
+}
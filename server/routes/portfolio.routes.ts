@@ -12,6 +12,9 @@ import { portfolioGlobalService } from "../services/portfolio/portfolioGlobalSer
 import { portfolioAllocationGuard } from "../services/portfolio/PortfolioAllocationGuard";
 import { portfolioBootstrapService } from "../services/portfolio/PortfolioBootstrapService";
 import { portfolioReconciliationService } from "../services/portfolio/PortfolioReconciliationService";
+import { portfolioRiskService } from "../services/portfolio/PortfolioRiskService";
+import { PORTFOLIO_RISK_SCOPE } from "../services/portfolio/portfolioTypes";
+import { getAuthPrincipal } from "../services/auth/authMiddleware";
 
 const operationalModeSchema = z.enum(["AMA", "IDCA", "GRID", "SPOT_NORMAL", "MANUAL"]);
 
@@ -82,6 +85,17 @@ const addAttributionSchema = z.object({
   lotId: z.string().optional(),
 });
 
+const riskAssetSchema = z.string().regex(/^(\*|[A-Za-z0-9]{2,12})$/, "asset must be a symbol or *");
+
+const setRiskLimitSchema = z.object({
+  maxExposureUsd: z.number().nonnegative().nullable().optional().default(null),
+  maxExposurePct: z.number().min(0).max(100).nullable().optional().default(null),
+  maxVarUsd: z.number().nonnegative().nullable().optional().default(null),
+  maxCvarUsd: z.number().nonnegative().nullable().optional().default(null),
+  enabled: z.boolean().optional().default(true),
+  updatedBy: z.string().optional(),
+});
+
 function ok<T>(data: T) {
   return { success: true, data, timestamp: new Date().toISOString() };
 }
@@ -519,6 +533,54 @@ export function registerPortfolioRoutes(app: Express): void {
     }
   });
 
+  // ── Risk (exposure + VaR/CVaR limits) ────────────────────────────
+  app.get("/api/portfolio/risk", async (_req, res) => {
+    try {
+      res.json(ok(await portfolioRiskService.getRiskReport()));
+    } catch (e) {
+      res.status(500).json(err(String(e)));
+    }
+  });
+
+  app.get("/api/portfolio/risk/limits", async (_req, res) => {
+    try {
+      res.json(ok(await portfolioGlobalService.getRiskLimits()));
+    } catch (e) {
+      res.status(500).json(err(String(e)));
+    }
+  });
+
+  app.put("/api/portfolio/risk/limits/:asset", async (req, res) => {
+    try {
+      const asset = riskAssetSchema.safeParse(req.params.asset);
+      const parsed = setRiskLimitSchema.safeParse(req.body);
+      if (!asset.success || !parsed.success) {
+        const issues = [...(asset.error?.issues ?? []), ...(parsed.error?.issues ?? [])];
+        return res.status(400).json(err(`Invalid risk limit: ${issues.map((i) => i.message).join("; ")}`));
+      }
+      const { updatedBy, ...limits } = parsed.data;
+      const limit = await portfolioGlobalService.setRiskLimit({
+        asset: asset.data === PORTFOLIO_RISK_SCOPE ? asset.data : asset.data.toUpperCase(),
+        ...limits,
+        updatedBy: getAuthPrincipal(res)?.username ?? updatedBy ?? null,
+      });
+      res.json(ok(limit));
+    } catch (e) {
+      res.status(500).json(err(String(e)));
+    }
+  });
+
+  app.delete("/api/portfolio/risk/limits/:asset", async (req, res) => {
+    try {
+      const asset = req.params.asset === PORTFOLIO_RISK_SCOPE ? req.params.asset : req.params.asset.toUpperCase();
+      const deleted = await portfolioGlobalService.deleteRiskLimit(asset);
+      if (!deleted) return res.status(404).json(err("Risk limit not found"));
+      res.json(ok({ asset, deleted }));
+    } catch (e) {
+      res.status(500).json(err(String(e)));
+    }
+  });
+
   // ── Bootstrap ─────────────────────────────────────────────────────
   app.post("/api/portfolio/bootstrap", async (_req, res) => {
     try {
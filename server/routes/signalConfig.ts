@@ -3,6 +3,7 @@ import { z } from "zod";
 import { storage } from "../storage";
 import { botLogger } from "../services/botLogger";
 import { environment } from "../services/environment";
+import { signalCounterfactualEngine, type CounterfactualOptions } from "../services/backtest/signalCounterfactual";
 
 // Interfaces for signal configuration
 interface SignalConfig {
@@ -11,25 +12,6 @@ interface SignalConfig {
   transition: { min: number; max: number; current: number };
 }
 
-interface SimulationResult {
-  tradesExecuted: number;
-  falsePositives: number;
-  profitability: number;
-  impact: {
-    trades: string;
-    risk: string;
-    confidence: string;
-  };
-}
-
-interface OptimizationSuggestion {
-  regime: string;
-  recommended: number;
-  reason: string;
-  confidence: number;
-  expectedImpact: string;
-}
-
 // Validation schemas
 const SIGNAL_CONFIG_SCHEMA = z.object({
   trend: z.object({
@@ -49,7 +31,14 @@ const SIGNAL_CONFIG_SCHEMA = z.object({
   }),
 });
 
-const SIMULATION_SCHEMA = z.object({
+const COUNTERFACTUAL_OPTIONS_SCHEMA = z.object({
+  pairs: z.array(z.string().min(3)).max(20).optional(),
+  timeframe: z.enum(["5m", "15m", "30m", "1h", "4h", "1d"]).optional(),
+  days: z.number().int().min(1).max(180).optional(),
+  orderUsd: z.number().positive().optional(),
+});
+
+const SIMULATION_SCHEMA = COUNTERFACTUAL_OPTIONS_SCHEMA.extend({
   trend: z.object({
     min: z.number().min(1).max(10),
     max: z.number().min(1).max(10),
@@ -153,44 +142,47 @@ export function registerSignalConfigRoutes(app: Express): void {
         });
       }
 
-      // Get recent trades for simulation
-      const recentTrades = await storage.getTrades(100);
-      const recentScans = await storage.getRecentScans(200); // Assuming this method exists
-      
-      // Simulate with the new thresholds
-      const simulationResult = await simulateSignalThresholds(
-        parsedConfig.data,
-        recentTrades,
-        recentScans
+      // Counterfactual: replay stored candles with the current vs proposed per-regime minSignals
+      const { pairs, timeframe, days, orderUsd, trend, range, transition } = parsedConfig.data;
+      const currentConfig = await storage.getSignalConfig() || DEFAULT_SIGNAL_CONFIG;
+      const simulationResult = await signalCounterfactualEngine.simulate(
+        SIGNAL_CONFIG_SCHEMA.parse(currentConfig),
+        { TREND: trend.current, RANGE: range.current, TRANSITION: transition.current },
+        { pairs, timeframe, days, orderUsd },
       );
 
       res.json(simulationResult);
-    } catch (error) {
+    } catch (error: any) {
       console.error("[signals/simulate] Error:", error);
-      res.status(500).json({ error: "Failed to simulate signal configuration" });
+      res.status(500).json({ error: "Failed to simulate signal configuration", details: error?.message });
     }
   });
 
   // GET optimization suggestions
   app.get("/api/trading/signals/optimize", async (req, res) => {
     try {
-      const { pair } = req.query;
-      
-      // Get historical data for optimization
-      const historicalTrades = await storage.getTrades(500);
-      const historicalScans = await storage.getRecentScans(1000);
-      
-      // Generate optimization suggestions
-      const suggestions = await generateOptimizationSuggestions(
-        historicalTrades,
-        historicalScans,
-        pair as string
-      );
+      const { pair, timeframe, days } = req.query;
+      const parsedOptions = COUNTERFACTUAL_OPTIONS_SCHEMA.safeParse({
+        pairs: pair ? [String(pair)] : undefined,
+        timeframe: timeframe ? String(timeframe) : undefined,
+        days: days ? parseInt(String(days), 10) : undefined,
+      });
+      if (!parsedOptions.success) {
+        return res.status(400).json({
+          error: "Invalid optimization options",
+          details: parsedOptions.error.flatten()
+        });
+      }
+
+      // Sweep each regime's minSignals over its [min, max] range (cached server-side)
+      const currentConfig = await storage.getSignalConfig() || DEFAULT_SIGNAL_CONFIG;
+      const options: CounterfactualOptions = parsedOptions.data;
+      const suggestions = await signalCounterfactualEngine.optimize(SIGNAL_CONFIG_SCHEMA.parse(currentConfig), options);
 
       res.json(suggestions);
-    } catch (error) {
+    } catch (error: any) {
       console.error("[signals/optimize] Error:", error);
-      res.status(500).json({ error: "Failed to generate optimization suggestions" });
+      res.status(500).json({ error: "Failed to generate optimization suggestions", details: error?.message });
     }
   });
 
@@ -217,144 +209,6 @@ export function registerSignalConfigRoutes(app: Express): void {
 
 // Helper functions
 
-async function simulateSignalThresholds(
-  config: SignalConfig,
-  trades: any[],
-  scans: any[]
-): Promise<SimulationResult> {
-  // This is a simplified simulation - in a real implementation,
-  // you would run the actual trading engine logic with the new thresholds
-  
-  let tradesExecuted = 0;
-  let falsePositives = 0;
-  let profitability = 0;
-
-  // Simulate based on historical scans
-  for (const scan of scans) {
-    if (!scan.signalsCount || !scan.regime || !scan.rawSignal) continue;
-
-    const regimeConfig = config[scan.regime.toLowerCase() as keyof SignalConfig];
-    if (!regimeConfig) continue;
-
-    // Check if signal would have triggered with new thresholds
-    const wouldTrigger = scan.signalsCount >= regimeConfig.current;
-    
-    if (wouldTrigger && scan.rawSignal !== "NONE") {
-      tradesExecuted++;
-      
-      // Check if it would have been profitable (simplified)
-      const correspondingTrade = trades.find(t => 
-        t.pair === scan.pair && 
-        new Date(t.createdAt).getTime() > new Date(scan.scanTime).getTime()
-      );
-      
-      if (correspondingTrade) {
-        const pnl = parseFloat(correspondingTrade.pnlUsd || "0");
-        profitability += pnl;
-        
-        if (pnl < 0) {
-          falsePositives++;
-        }
-      }
-    }
-  }
-
-  // Calculate impact metrics
-  const currentTrades = trades.length;
-  const tradeIncrease = currentTrades > 0 ? ((tradesExecuted - currentTrades) / currentTrades) * 100 : 0;
-  const riskIncrease = tradesExecuted > 0 ? (falsePositives / tradesExecuted) * 100 : 0;
-  const avgProfitability = tradesExecuted > 0 ? profitability / tradesExecuted : 0;
-
-  return {
-    tradesExecuted,
-    falsePositives,
-    profitability: avgProfitability,
-    impact: {
-      trades: `${tradeIncrease > 0 ? '+' : ''}${tradeIncrease.toFixed(1)}%`,
-      risk: `${riskIncrease.toFixed(1)}%`,
-      confidence: `${Math.max(50, 100 - riskIncrease).toFixed(0)}%`,
-    },
-  };
-}
-
-async function generateOptimizationSuggestions(
-  trades: any[],
-  scans: any[],
-  pair?: string
-): Promise<OptimizationSuggestion[]> {
-  const suggestions: OptimizationSuggestion[] = [];
-  
-  // Analyze performance by regime
-  const regimes = ["TREND", "RANGE", "TRANSITION"];
-  
-  for (const regime of regimes) {
-    const regimeScans = scans.filter(s => s.regime === regime);
-    const regimeTrades = trades.filter(t => {
-      const correspondingScan = scans.find(s => 
-        s.pair === t.pair && 
-        new Date(t.createdAt).getTime() > new Date(s.scanTime).getTime()
-      );
-      return correspondingScan?.regime === regime;
-    });
-
-    // Calculate optimal threshold (simplified)
-    const signalCounts = regimeScans.map(s => s.signalsCount || 0).filter(n => n > 0);
-    const avgSignals = signalCounts.length > 0 ? signalCounts.reduce((a, b) => a + b, 0) / signalCounts.length : 0;
-    
-    // Calculate success rate by signal count
-    const successBySignals: Record<number, { success: number; total: number }> = {};
-    
-    for (const scan of regimeScans) {
-      const signalCount = scan.signalsCount || 0;
-      if (!successBySignals[signalCount]) {
-        successBySignals[signalCount] = { success: 0, total: 0 };
-      }
-      
-      successBySignals[signalCount].total++;
-      
-      // Check if corresponding trade was profitable
-      const correspondingTrade = regimeTrades.find(t => 
-        t.pair === scan.pair && 
-        Math.abs(new Date(t.createdAt).getTime() - new Date(scan.scanTime).getTime()) < 300000 // 5 minutes
-      );
-      
-      if (correspondingTrade && parseFloat(correspondingTrade.pnlUsd || "0") > 0) {
-        successBySignals[signalCount].success++;
-      }
-    }
-
-    // Find optimal threshold (highest success rate with sufficient samples)
-    let optimalThreshold = Math.round(avgSignals);
-    let bestSuccessRate = 0;
-    
-    for (const [signalCount, stats] of Object.entries(successBySignals)) {
-      if (stats.total >= 5) { // Minimum sample size
-        const successRate = stats.success / stats.total;
-        if (successRate > bestSuccessRate) {
-          bestSuccessRate = successRate;
-          optimalThreshold = parseInt(signalCount);
-        }
-      }
-    }
-
-    // Generate suggestion
-    const confidence = Math.round(bestSuccessRate * 100);
-    const expectedImpact = confidence > 70 ? "Alta probabilidad de mejora" : 
-                          confidence > 50 ? "Mejora moderada esperada" : 
-                          "Riesgo elevado, proceder con caution";
-
-    suggestions.push({
-      regime,
-      recommended: optimalThreshold,
-      reason: `Basado en ${regimeScans.length} scans históricos. Tasa de éxito: ${bestSuccessRate.toFixed(2)}%`,
-      confidence,
-      expectedImpact,
-    });
-  }
-
-  return suggestions;
-}
-
 async function calculatePerformanceMetrics(
   config: SignalConfig,
   trades: any[],
@@ -0,0 +1,57 @@
+/**
+ * Strategy Routes — registered Spot strategy plugins and per-pair assignment
+ *
+ * Endpoints:
+ *   GET /api/strategies              — plugins (metadata + params schema) and current assignment
+ *   PUT /api/strategies/assignments  — replace bot_config.pair_strategies
+ *
+ * signalMode tells which plugins the engine can run right now: candle mode is
+ * momentum + signalTimeframe != "cycle"; everything else is cycle mode.
+ */
+
+import { z } from "zod";
+import type { RegisterRoutes } from "./types";
+import { storage } from "../storage";
+import { strategyRegistry } from "../services/strategyPlugins/StrategyRegistry";
+
+const assignmentsSchema = z.object({
+  pairStrategies: z.record(z.string().min(3), z.string()),
+});
+
+export const registerStrategyRoutes: RegisterRoutes = (app, _deps) => {
+
+  app.get("/api/strategies", async (_req, res) => {
+    try {
+      const config = await storage.getBotConfig();
+      const signalTimeframe = config?.signalTimeframe || "cycle";
+      res.json({
+        strategies: strategyRegistry.describe(),
+        globalStrategy: config?.strategy ?? "momentum",
+        signalTimeframe,
+        signalMode: signalTimeframe !== "cycle" && config?.strategy === "momentum" ? "candles" : "cycle",
+        pairStrategies: config?.pairStrategies ?? {},
+      });
+    } catch (error: any) {
+      console.error('[API] Error listing strategies:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/strategies/assignments", async (req, res) => {
+    const parsed = assignmentsSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "VALIDATION_ERROR", details: parsed.error.issues });
+    }
+    const validationError = strategyRegistry.validatePairStrategies(parsed.data.pairStrategies);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    try {
+      const updated = await storage.updateBotConfig({ pairStrategies: parsed.data.pairStrategies });
+      res.json({ success: true, pairStrategies: updated.pairStrategies });
+    } catch (error: any) {
+      console.error('[API] Error updating strategy assignments:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+};
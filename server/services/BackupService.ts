@@ -1,12 +1,23 @@
 import { exec, spawnSync } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
-import { existsSync } from 'fs';
+import { createReadStream, existsSync } from 'fs';
 import * as path from 'path';
-import { db } from '../db';
+import type { Readable } from 'stream';
+import { db, pool } from '../db';
 import { masterBackups, type InsertMasterBackup, type MasterBackup } from '@shared/schema';
 import { eq, desc } from 'drizzle-orm';
 import { storage } from '../storage';
+import {
+  ENCRYPTED_SUFFIX,
+  createDecryptStream,
+  decryptFile,
+  encryptFile,
+  isEncryptedPath,
+  loadOrCreateKey,
+  sha256File,
+} from './backup/backupCrypto';
+import { captureIntegrityBaseline, type IntegrityBaseline } from './backup/restoreDrill';
 
 const execAsync = promisify(exec);
 
@@ -18,6 +29,29 @@ interface BackupFile {
   createdAt: Date;
   isMaster: boolean;
   masterInfo?: MasterBackup;
+  encrypted: boolean;
+}
+
+export interface BackupManifestFile {
+  file: string;       // relative to BACKUP_DIR, e.g. database/db_x.sql.gz.enc
+  sha256: string;     // of the file as stored on disk
+  bytes: number;
+  encrypted: boolean;
+}
+
+export interface BackupMetadata {
+  backupId: string;
+  displayName: string;
+  type: string;
+  createdAt: string;
+  files?: BackupManifestFile[];
+  integrityBaseline?: IntegrityBaseline | null;
+}
+
+export interface BackupVerifyResult {
+  success: boolean;
+  files: Array<{ file: string; ok: boolean; error?: string }>;
+  error?: string;
 }
 
 interface BackupMetrics {
@@ -43,6 +77,8 @@ export class BackupService {
   private static instance: BackupService;
   private backupDir = process.env.BACKUP_DIR || '/app/backups';
   private scriptsDir = process.env.BACKUP_SCRIPTS_DIR || '/app/scripts';
+  private encryptionEnabled = String(process.env.BACKUP_ENCRYPTION_ENABLED ?? 'false').toLowerCase() === 'true';
+  private keyFile = process.env.BACKUP_ENCRYPTION_KEY_FILE || '/app/secrets/backup.key';
 
   private constructor() {
     console.log(`[BackupService] Initialized with scriptsDir=${this.scriptsDir}, backupDir=${this.backupDir}`);
@@ -72,7 +108,7 @@ export class BackupService {
 
     // Process database backups
     for (const file of dbFiles) {
-      const basename = path.basename(file.name, '.sql.gz');
+      const basename = path.basename(file.name.replace(/\.enc$/, ''), '.sql.gz');
       const master = masterMap.get(basename);
       allBackups.push({
         name: basename,
@@ -82,12 +118,13 @@ export class BackupService {
         createdAt: file.createdAt,
         isMaster: !!master,
         masterInfo: master,
+        encrypted: file.encrypted,
       });
     }
 
     // Process code backups
     for (const file of codeFiles) {
-      const basename = path.basename(file.name, '.tar.gz');
+      const basename = path.basename(file.name.replace(/\.enc$/, ''), '.tar.gz');
       const master = masterMap.get(basename);
       allBackups.push({
         name: basename,
@@ -97,6 +134,7 @@ export class BackupService {
         createdAt: file.createdAt,
         isMaster: !!master,
         masterInfo: master,
+        encrypted: file.encrypted,
       });
     }
 
@@ -113,13 +151,13 @@ export class BackupService {
   /**
    * List backup files from filesystem
    */
-  private async listBackupFiles(type: 'database' | 'code'): Promise<Array<{ name: string; path: string; size: string; createdAt: Date }>> {
+  private async listBackupFiles(type: 'database' | 'code'): Promise<Array<{ name: string; path: string; size: string; createdAt: Date; encrypted: boolean }>> {
     const dir = type === 'database' ? `${this.backupDir}/database` : `${this.backupDir}/code`;
     const extension = type === 'database' ? '.sql.gz' : '.tar.gz';
 
     try {
       const files = await fs.readdir(dir);
-      const backupFiles = files.filter(f => f.endsWith(extension));
+      const backupFiles = files.filter(f => f.endsWith(extension) || f.endsWith(extension + ENCRYPTED_SUFFIX));
 
       const filesWithStats = await Promise.all(
         backupFiles.map(async (file) => {
@@ -130,6 +168,7 @@ export class BackupService {
             path: filePath,
             size: this.formatBytes(stats.size),
             createdAt: stats.mtime,
+            encrypted: isEncryptedPath(file),
           };
         })
       );
@@ -175,6 +214,16 @@ export class BackupService {
       }
 
       const scriptPath = path.join(this.scriptsDir, scriptName);
+
+      // Baseline for the restore drill: row counts / ledger sums right before the dump
+      let integrityBaseline: IntegrityBaseline | null = null;
+      if (type !== 'code') {
+        try {
+          integrityBaseline = await captureIntegrityBaseline((sql, params) => pool.query(sql, params as any[]));
+        } catch (error: any) {
+          console.warn('[BackupService] Could not capture integrity baseline:', error.message);
+        }
+      }
       
       // Detect shell: prefer bash, fallback to sh if bash not available (Alpine containers)
       const shell = existsSync('/bin/bash') ? 'bash' : 'sh';
@@ -186,8 +235,11 @@ export class BackupService {
       console.log('[BackupService] Backup created:', stdout);
       if (stderr) console.error('[BackupService] Backup stderr:', stderr);
 
+      // Checksums (+ encryption at rest when BACKUP_ENCRYPTION_ENABLED)
+      const files = await this.sealBackup(backupId, type);
+
       // Save metadata for display purposes
-      await this.saveBackupMetadata(backupId, displayName, type);
+      await this.saveBackupMetadata(backupId, displayName, type, { files, integrityBaseline });
 
       return { success: true, name: backupId };
     } catch (error: any) {
@@ -199,17 +251,23 @@ export class BackupService {
   /**
    * Save backup metadata
    */
-  private async saveBackupMetadata(backupId: string, displayName: string, type: string): Promise<void> {
+  private async saveBackupMetadata(
+    backupId: string,
+    displayName: string,
+    type: string,
+    extra: Pick<BackupMetadata, 'files' | 'integrityBaseline'> = {},
+  ): Promise<void> {
     try {
       const metaDir = path.join(this.backupDir, 'meta');
       await fs.mkdir(metaDir, { recursive: true });
       
       const metaFile = path.join(metaDir, `${backupId}.json`);
-      const metadata = {
+      const metadata: BackupMetadata = {
         backupId,
         displayName,
         type,
-        createdAt: new Date().toISOString()
+        createdAt: new Date().toISOString(),
+        ...extra,
       };
       
       await fs.writeFile(metaFile, JSON.stringify(metadata, null, 2));
@@ -220,6 +278,112 @@ export class BackupService {
     }
   }
 
+  /**
+   * Compute checksums of the files produced by the script and, if enabled,
+   * replace them with their encrypted version (.enc).
+   */
+  private async sealBackup(backupId: string, type: 'full' | 'database' | 'code'): Promise<BackupManifestFile[]> {
+    const candidates: string[] = [];
+    if (type !== 'code') candidates.push(`database/db_${backupId}.sql.gz`);
+    if (type !== 'database') candidates.push(`code/code_${backupId}.tar.gz`);
+
+    const key = this.encryptionEnabled ? await loadOrCreateKey(this.keyFile) : null;
+    const manifest: BackupManifestFile[] = [];
+    for (const rel of candidates) {
+      let file = rel;
+      const plainPath = path.join(this.backupDir, rel);
+      if (!existsSync(plainPath)) continue;
+      if (key) {
+        await encryptFile(plainPath, plainPath + ENCRYPTED_SUFFIX, key);
+        await fs.unlink(plainPath);
+        file = rel + ENCRYPTED_SUFFIX;
+      }
+      const fullPath = path.join(this.backupDir, file);
+      const [sha256, stats] = await Promise.all([sha256File(fullPath), fs.stat(fullPath)]);
+      manifest.push({ file, sha256, bytes: stats.size, encrypted: !!key });
+    }
+    return manifest;
+  }
+
+  /**
+   * Read the metadata of a backup. Accepts the backupId or the file name
+   * shown in the list (db_<id> / code_<id>).
+   */
+  async getBackupMetadata(backupName: string): Promise<BackupMetadata | null> {
+    const ids = [backupName, backupName.replace(/^(db|code)_/, '')];
+    for (const id of ids) {
+      try {
+        const raw = await fs.readFile(path.join(this.backupDir, 'meta', `${id}.json`), 'utf-8');
+        return JSON.parse(raw) as BackupMetadata;
+      } catch {}
+    }
+    return null;
+  }
+
+  /**
+   * Path of a database/code backup on disk, plain or encrypted
+   */
+  private resolveBackupFile(type: 'database' | 'code', backupName: string): string | null {
+    const base = type === 'database'
+      ? `${this.backupDir}/database/${backupName}.sql.gz`
+      : `${this.backupDir}/code/${backupName}.tar.gz`;
+    if (existsSync(base)) return base;
+    if (existsSync(base + ENCRYPTED_SUFFIX)) return base + ENCRYPTED_SUFFIX;
+    return null;
+  }
+
+  /**
+   * Recompute the checksums of a backup and compare them with its manifest
+   */
+  async verifyBackup(backupName: string): Promise<BackupVerifyResult> {
+    const meta = await this.getBackupMetadata(backupName);
+    if (!meta?.files?.length) {
+      return { success: false, files: [], error: 'Backup has no checksum manifest' };
+    }
+
+    // db_x checks the dump, code_x the tarball, the bare id every file
+    const prefix = backupName.match(/^(db|code)_/)?.[1];
+    const entries = meta.files.filter((f) =>
+      !prefix || path.basename(f.file).startsWith(`${prefix}_`),
+    );
+
+    const files: BackupVerifyResult['files'] = [];
+    for (const entry of entries) {
+      try {
+        const actual = await sha256File(path.join(this.backupDir, entry.file));
+        files.push(actual === entry.sha256
+          ? { file: entry.file, ok: true }
+          : { file: entry.file, ok: false, error: 'Checksum mismatch' });
+      } catch (error: any) {
+        files.push({ file: entry.file, ok: false, error: error.code === 'ENOENT' ? 'File not found' : error.message });
+      }
+    }
+    return { success: files.length > 0 && files.every((f) => f.ok), files };
+  }
+
+  /**
+   * Latest database dump on disk (name as shown in the list, e.g. db_x)
+   */
+  async getLatestDatabaseBackup(): Promise<{ name: string; path: string; encrypted: boolean; createdAt: Date } | null> {
+    const files = await this.listBackupFiles('database');
+    if (files.length === 0) return null;
+    const latest = files.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+    return {
+      name: path.basename(latest.name.replace(/\.enc$/, ''), '.sql.gz'),
+      path: latest.path,
+      encrypted: latest.encrypted,
+      createdAt: latest.createdAt,
+    };
+  }
+
+  /**
+   * Stream of the gzipped dump, decrypted if needed
+   */
+  async openDatabaseDump(filePath: string): Promise<Readable> {
+    if (!isEncryptedPath(filePath)) return createReadStream(filePath);
+    return createDecryptStream(filePath, await loadOrCreateKey(this.keyFile));
+  }
+
   /**
    * Mark a backup as master
    */
@@ -241,8 +405,8 @@ export class BackupService {
       }
 
       // Determine backup type and path
-      const dbPath = `${this.backupDir}/database/${backupName}.sql.gz`;
-      const codePath = `${this.backupDir}/code/${backupName}.tar.gz`;
+      const dbPath = this.resolveBackupFile('database', backupName) ?? `${this.backupDir}/database/${backupName}.sql.gz`;
+      const codePath = this.resolveBackupFile('code', backupName) ?? `${this.backupDir}/code/${backupName}.tar.gz`;
 
       let type: 'database' | 'code' | 'full' = 'full';
       let filePath = '';
@@ -342,11 +506,23 @@ export class BackupService {
       if (type === 'database' || type === 'full') {
         const scriptPath = path.join(this.scriptsDir, 'restore-database.sh');
         const dbBackupName = backupName.startsWith('db_') ? backupName : `db_${backupName}`;
-        
-        // Note: This requires manual confirmation in the script
-        const { stdout, stderr } = await execAsync(`echo "SI" | bash ${scriptPath} ${dbBackupName}`);
-        console.log('[BackupService] Restore output:', stdout);
-        if (stderr) console.error('[BackupService] Restore stderr:', stderr);
+
+        // The script expects a plain .sql.gz: decrypt it temporarily
+        const plainPath = `${this.backupDir}/database/${dbBackupName}.sql.gz`;
+        const encryptedPath = plainPath + ENCRYPTED_SUFFIX;
+        const decrypted = !existsSync(plainPath) && existsSync(encryptedPath);
+        if (decrypted) {
+          await decryptFile(encryptedPath, plainPath, await loadOrCreateKey(this.keyFile));
+        }
+
+        try {
+          // Note: This requires manual confirmation in the script
+          const { stdout, stderr } = await execAsync(`echo "SI" | bash ${scriptPath} ${dbBackupName}`);
+          console.log('[BackupService] Restore output:', stdout);
+          if (stderr) console.error('[BackupService] Restore stderr:', stderr);
+        } finally {
+          if (decrypted) await fs.unlink(plainPath).catch(() => {});
+        }
       }
 
       return { success: true };
@@ -367,17 +543,23 @@ export class BackupService {
         return { success: false, error: 'Cannot delete master backup. Unmark it first.' };
       }
 
-      // Delete files
+      // Delete files (plain and encrypted)
       const dbPath = `${this.backupDir}/database/${backupName}.sql.gz`;
       const codePath = `${this.backupDir}/code/${backupName}.tar.gz`;
 
-      try {
-        await fs.unlink(dbPath);
-      } catch {}
+      for (const file of [dbPath, codePath, dbPath + ENCRYPTED_SUFFIX, codePath + ENCRYPTED_SUFFIX]) {
+        try {
+          await fs.unlink(file);
+        } catch {}
+      }
 
-      try {
-        await fs.unlink(codePath);
-      } catch {}
+      // Metadata goes once no file of the backup remains
+      const backupId = backupName.replace(/^(db|code)_/, '');
+      if (!this.resolveBackupFile('database', `db_${backupId}`) && !this.resolveBackupFile('code', `code_${backupId}`)) {
+        try {
+          await fs.unlink(path.join(this.backupDir, 'meta', `${backupId}.json`));
+        } catch {}
+      }
 
       return { success: true };
     } catch (error: any) {
@@ -15,6 +15,7 @@
 
 import { calculateEMA, calculateMACD, type OHLCCandle } from "./indicators";
 import type { MomentumExpansionResult } from "./MomentumExpansionDetector";
+import type { IndicatorSnapshot } from "./incrementalIndicators";
 
 // ─── Context Type ─────────────────────────────────────────────────────────────
 
@@ -58,6 +59,13 @@ export interface EntryDecisionContext {
   /** ATR% over last 14 periods */
   atrPct: number | null;
 
+  /**
+   * Extended indicators (VWAP, Stoch RSI, Supertrend, OBV, Keltner, Ichimoku,
+   * Donchian, volume profile) from the incremental store for this
+   * pair/timeframe. Informational — no guard reads them yet.
+   */
+  indicators: IndicatorSnapshot | null;
+
   // === Candle references ===
   lastCandle: OHLCCandle | null;
   prevCandle: OHLCCandle | null;
@@ -93,7 +101,8 @@ export function buildEntryDecisionContext(
   regime: string | null,
   closedCandles: OHLCCandle[],
   currentPrice: number,
-  mtfAlignment: number | null
+  mtfAlignment: number | null,
+  indicators: IndicatorSnapshot | null = null
 ): EntryDecisionContext {
   const decisionId = `edc-${pair.replace("/", "_")}-${Date.now()}`;
   const missing: string[] = [];
@@ -190,6 +199,7 @@ export function buildEntryDecisionContext(
     volumeRatio,
     priceVsEma20Pct,
     atrPct,
+    indicators,
     lastCandle,
     prevCandle,
     expansionResult: null,
@@ -0,0 +1,427 @@
+/**
+ * ExchangeStopManager — Stops protectores residentes en el exchange (Spot).
+ *
+ * El SL / trailing / SMART_GUARD de ExitManager sólo protege mientras el proceso
+ * Node está vivo y sondeando. Con EXCHANGE_STOPS_ENABLED=true cada lote abierto
+ * tiene además una orden stop-loss (o stop-loss-limit) nativa en Kraken que
+ * replica su stop actual:
+ * - syncAll(): coloca el stop que falte y lo modifica (AmendOrder) cuando el stop
+ *   del bot sube al menos EXCHANGE_STOPS_MIN_STEP_PCT o cambia la cantidad del lote
+ * - releaseForExit(): cancela el stop antes de una venta del bot (Kraken reserva el
+ *   saldo de las órdenes abiertas); si ya se había ejecutado, cierra el lote y aborta
+ * - reconcileOnStartup(): adopta, cierra o descarta los stops persistidos en DB
+ * - FillWatcher vigila cada stop y avisa cuando se ejecuta en el exchange
+ *
+ * Sólo activo en LIVE con Kraken como exchange de trading. Delegado desde
+ * TradingEngine via IExchangeStopHost.
+ */
+
+import { storage } from "../storage";
+import { log } from "../utils/logger";
+import { botLogger } from "./botLogger";
+import {
+  startProtectiveStopWatcher,
+  stopProtectiveStopWatcher,
+  recordProtectiveStopFill,
+} from "./FillWatcher";
+import type { OpenPosition } from "./exitManager";
+import type { IExchangeService, ExchangeOrderStatus } from "./exchanges/IExchangeService";
+
+// === Config ===
+
+export function isExchangeStopsEnabled(): boolean {
+  return String(process.env.EXCHANGE_STOPS_ENABLED ?? "false").toLowerCase() === "true";
+}
+
+/** >0 → stop-loss-limit con el límite este % por debajo del trigger; 0 → stop-loss (mercado). */
+function getLimitOffsetPct(): number {
+  const v = parseFloat(process.env.EXCHANGE_STOPS_LIMIT_OFFSET_PCT ?? "0");
+  return Number.isFinite(v) && v > 0 ? v : 0;
+}
+
+function getMinStepPct(): number {
+  const v = parseFloat(process.env.EXCHANGE_STOPS_MIN_STEP_PCT ?? "0.1");
+  return Number.isFinite(v) && v >= 0 ? v : 0.1;
+}
+
+// === Types ===
+
+export interface StopDefaults {
+  stopLossPercent: number;
+  trailingStopEnabled: boolean;
+  trailingStopPercent: number;
+}
+
+export interface ExchangeStopState {
+  lotId: string;
+  pair: string;
+  orderId: string;
+  stopPrice: number;
+  volume: number;
+  updatedAt: number;
+}
+
+export interface ProtectiveStopFill {
+  stopOrderId: string;
+  filledVolume: number;
+  avgPrice: number;
+  feeUsd: number;
+  pnlUsd: number;
+  pnlPct: number;
+  executedAt: Date;
+}
+
+export interface IExchangeStopHost {
+  getOpenPositions(): Map<string, OpenPosition>;
+  getTradingExchange(): IExchangeService;
+  getTradingExchangeType(): string;
+  isDryRunMode(): boolean;
+  /** El stop se ejecutó en el exchange: eliminar/reducir el lote, cooldown, alertas. */
+  onProtectiveStopFilled(lotId: string, fill: ProtectiveStopFill): Promise<void>;
+}
+
+// === Pure functions ===
+
+/**
+ * Stop vigente del lote según la misma lógica que ExitManager:
+ * - SMART_GUARD: max(stop dinámico BE/trailing, SL de emergencia)
+ * - Legacy: max(SL, máximo × (1 − trailing%)) cuando el trailing está armado
+ */
+export function computeProtectiveStopPrice(position: OpenPosition, defaults: StopDefaults): number | null {
+  if (!(position.entryPrice > 0)) return null;
+  const snapshot = position.configSnapshot;
+  const slPct = snapshot?.stopLossPercent ?? defaults.stopLossPercent;
+  const slPrice = slPct > 0 ? position.entryPrice * (1 - slPct / 100) : 0;
+
+  if (position.entryMode === "SMART_GUARD" && snapshot) {
+    const stop = Math.max(slPrice, position.sgCurrentStopPrice ?? 0);
+    return stop > 0 ? stop : null;
+  }
+
+  const trailingEnabled = snapshot ? snapshot.trailingStopEnabled : defaults.trailingStopEnabled;
+  const trailingPct = snapshot ? snapshot.trailingStopPercent : defaults.trailingStopPercent;
+  let stop = slPrice;
+  if (trailingEnabled && trailingPct > 0 && position.highestPrice > position.entryPrice) {
+    stop = Math.max(stop, position.highestPrice * (1 - trailingPct / 100));
+  }
+  return stop > 0 ? stop : null;
+}
+
+/** ¿Hay que mover el stop residente? Sólo hacia arriba (salvo cambio de cantidad). */
+export function needsStopUpdate(
+  current: Pick<ExchangeStopState, "stopPrice" | "volume">,
+  desiredStop: number,
+  desiredVolume: number,
+  minStepPct: number,
+): boolean {
+  if (Math.abs(desiredVolume - current.volume) > current.volume * 1e-6) return true;
+  return desiredStop > current.stopPrice * (1 + minStepPct / 100);
+}
+
+function fixed(value: number, decimals: number | undefined, fallback: number): string {
+  const d = Number.isInteger(decimals) && decimals! >= 0 ? decimals! : fallback;
+  return value.toFixed(d);
+}
+
+// === ExchangeStopManager ===
+
+export class ExchangeStopManager {
+  private host: IExchangeStopHost;
+  private stops = new Map<string, ExchangeStopState>();
+  private busyLots = new Set<string>();
+
+  constructor(host: IExchangeStopHost) {
+    this.host = host;
+  }
+
+  isActive(): boolean {
+    if (!isExchangeStopsEnabled() || this.host.isDryRunMode()) return false;
+    if (this.host.getTradingExchangeType() !== "kraken") return false;
+    const exchange = this.host.getTradingExchange();
+    return exchange.isInitialized() && typeof exchange.placeStopOrder === "function" && typeof exchange.getOrderStatus === "function";
+  }
+
+  getStop(lotId: string): ExchangeStopState | undefined {
+    return this.stops.get(lotId);
+  }
+
+  getStatus() {
+    return {
+      enabled: isExchangeStopsEnabled(),
+      active: this.isActive(),
+      stops: Array.from(this.stops.values()),
+    };
+  }
+
+  /** Coloca/actualiza los stops de todos los lotes abiertos y cancela los huérfanos. */
+  async syncAll(defaults: StopDefaults): Promise<void> {
+    if (!this.isActive()) return;
+    const positions = this.host.getOpenPositions();
+
+    for (const position of positions.values()) {
+      await this.syncPosition(position, defaults);
+    }
+
+    for (const state of Array.from(this.stops.values())) {
+      if (positions.has(state.lotId) || this.busyLots.has(state.lotId)) continue;
+      log(`[EXCHANGE_STOP] Lote ${state.lotId.substring(0, 12)} ya no está abierto — cancelando stop ${state.orderId}`, "trading");
+      await this.releaseLot(state);
+    }
+  }
+
+  async syncPosition(position: OpenPosition, defaults: StopDefaults): Promise<void> {
+    const { lotId, pair } = position;
+    if (this.busyLots.has(lotId) || !(position.amount > 0)) return;
+
+    const desired = computeProtectiveStopPrice(position, defaults);
+    if (!desired) return;
+
+    const exchange = this.host.getTradingExchange();
+    const meta = exchange.getPairMetadata(pair);
+    const triggerPrice = fixed(desired, meta?.pairDecimals, 5);
+    const volume = fixed(position.amount, meta?.lotDecimals, 8);
+    const stopPrice = parseFloat(triggerPrice);
+    const offsetPct = getLimitOffsetPct();
+    const limitPrice = offsetPct > 0 ? fixed(stopPrice * (1 - offsetPct / 100), meta?.pairDecimals, 5) : undefined;
+
+    const current = this.stops.get(lotId);
+    if (current && !needsStopUpdate(current, stopPrice, parseFloat(volume), getMinStepPct())) return;
+
+    this.busyLots.add(lotId);
+    try {
+      if (!current) {
+        const result = await exchange.placeStopOrder!({ pair, volume, triggerPrice, limitPrice });
+        if (!result.success || !result.orderId) {
+          log(`[EXCHANGE_STOP] ${pair} ${lotId.substring(0, 12)}: no se pudo colocar stop @ ${triggerPrice}: ${result.error ?? "sin txid"}`, "trading");
+          return;
+        }
+        await this.saveState({ lotId, pair, orderId: result.orderId, stopPrice, volume: parseFloat(volume), updatedAt: Date.now() });
+        log(`[EXCHANGE_STOP] ${pair} ${lotId.substring(0, 12)}: stop colocado ${result.orderId} @ ${triggerPrice} vol=${volume}`, "trading");
+        await botLogger.info("EXCHANGE_STOP_PLACED", `Stop protector colocado en exchange para ${pair}`, {
+          pair, lotId, orderId: result.orderId, triggerPrice: stopPrice, limitPrice: limitPrice ?? null, volume,
+        });
+        return;
+      }
+
+      let orderId = current.orderId;
+      const amended = exchange.amendStopOrder
+        ? await exchange.amendStopOrder(current.orderId, { volume, triggerPrice, limitPrice })
+        : { success: false, error: "amend not supported" };
+      if (!amended.success) {
+        // Fallback: cancelar + recolocar. Si la cancelación falla el stop pudo ejecutarse.
+        if (!(await exchange.cancelOrder(current.orderId))) {
+          await this.resolveUnreleasable(current);
+          return;
+        }
+        const replaced = await exchange.placeStopOrder!({ pair, volume, triggerPrice, limitPrice });
+        if (!replaced.success || !replaced.orderId) {
+          await this.clearState(lotId);
+          log(`[EXCHANGE_STOP] ${pair} ${lotId.substring(0, 12)}: stop cancelado pero no recolocado (${replaced.error}) — se reintentará`, "trading");
+          return;
+        }
+        orderId = replaced.orderId;
+      }
+
+      await this.saveState({ ...current, orderId, stopPrice, volume: parseFloat(volume), updatedAt: Date.now() });
+      log(`[EXCHANGE_STOP] ${pair} ${lotId.substring(0, 12)}: stop movido ${current.stopPrice} → ${triggerPrice} (${amended.success ? "amend" : "replace"})`, "trading");
+    } catch (e: any) {
+      log(`[EXCHANGE_STOP] ${pair} ${lotId.substring(0, 12)}: error sincronizando stop: ${e?.message}`, "trading");
+    } finally {
+      this.busyLots.delete(lotId);
+    }
+  }
+
+  /**
+   * Libera los stops residentes antes de una venta del bot.
+   * lotId → sólo ese lote; sin lotId → todos los lotes del par.
+   * Devuelve proceed=false si la venta no debe enviarse (el stop ya vendió o sigue vivo).
+   */
+  async releaseForExit(pair: string, lotId?: string): Promise<{ proceed: boolean; reason?: string }> {
+    const targets = Array.from(this.stops.values()).filter(s => lotId ? s.lotId === lotId : s.pair === pair);
+    if (targets.length === 0) return { proceed: true };
+
+    let proceed = true;
+    let reason: string | undefined;
+    for (const state of targets) {
+      const outcome = await this.releaseLot(state);
+      if (outcome === "FILLED" && (!lotId || state.lotId === lotId)) {
+        proceed = false;
+        reason = "EXCHANGE_STOP_ALREADY_FILLED";
+      } else if (outcome === "STILL_OPEN") {
+        proceed = false;
+        reason ??= "EXCHANGE_STOP_CANCEL_FAILED";
+      }
+    }
+    return { proceed, reason };
+  }
+
+  /** Arranque: adopta stops vivos, cierra lotes cuyo stop se ejecutó con el bot parado. */
+  async reconcileOnStartup(): Promise<{ adopted: number; filled: number; cleared: number }> {
+    const summary = { adopted: 0, filled: 0, cleared: 0 };
+    if (!this.isActive()) return summary;
+
+    const exchange = this.host.getTradingExchange();
+    const positions = this.host.getOpenPositions();
+    const rows = await storage.getOpenPositions();
+
+    for (const row of rows as any[]) {
+      if (!row.exchangeStopOrderId || !row.lotId) continue;
+      const state: ExchangeStopState = {
+        lotId: row.lotId,
+        pair: row.pair,
+        orderId: row.exchangeStopOrderId,
+        stopPrice: parseFloat(row.exchangeStopPrice ?? "0"),
+        volume: parseFloat(row.amount ?? "0"),
+        updatedAt: row.exchangeStopUpdatedAt ? new Date(row.exchangeStopUpdatedAt).getTime() : Date.now(),
+      };
+
+      let status: ExchangeOrderStatus | null = null;
+      try {
+        status = await exchange.getOrderStatus!(state.orderId);
+      } catch (e: any) {
+        log(`[EXCHANGE_STOP] Reconciliación ${state.pair}: error consultando ${state.orderId}: ${e?.message} — se mantiene`, "trading");
+        this.stops.set(state.lotId, state);
+        continue;
+      }
+
+      if (status && status.filledVolume > 0 && status.status !== "open" && status.status !== "pending") {
+        this.stops.set(state.lotId, state);
+        await this.processFill(state, status);
+        summary.filled++;
+      } else if (status && (status.status === "open" || status.status === "pending") && positions.has(state.lotId)) {
+        this.stops.set(state.lotId, { ...state, volume: status.volume || state.volume });
+        this.watch(state);
+        summary.adopted++;
+      } else {
+        if (status && (status.status === "open" || status.status === "pending")) {
+          await exchange.cancelOrder(state.orderId);
+        }
+        await this.clearState(state.lotId);
+        summary.cleared++;
+      }
+    }
+
+    log(`[EXCHANGE_STOP] Reconciliación al arranque: adopted=${summary.adopted} filled=${summary.filled} cleared=${summary.cleared}`, "trading");
+    return summary;
+  }
+
+  // ── Internals ─────────────────────────────────────────────────
+
+  private async releaseLot(state: ExchangeStopState): Promise<"RELEASED" | "FILLED" | "STILL_OPEN"> {
+    const exchange = this.host.getTradingExchange();
+    this.busyLots.add(state.lotId);
+    try {
+      if (await exchange.cancelOrder(state.orderId)) {
+        await this.clearState(state.lotId);
+        return "RELEASED";
+      }
+      return await this.resolveUnreleasable(state);
+    } finally {
+      this.busyLots.delete(state.lotId);
+    }
+  }
+
+  /** La cancelación falló: consultar el estado real de la orden. */
+  private async resolveUnreleasable(state: ExchangeStopState): Promise<"RELEASED" | "FILLED" | "STILL_OPEN"> {
+    let status: ExchangeOrderStatus | null = null;
+    try {
+      status = await this.host.getTradingExchange().getOrderStatus!(state.orderId);
+    } catch (e: any) {
+      log(`[EXCHANGE_STOP] ${state.pair}: no se pudo consultar stop ${state.orderId}: ${e?.message}`, "trading");
+      return "STILL_OPEN";
+    }
+    if (status && status.filledVolume > 0 && status.status !== "open" && status.status !== "pending") {
+      await this.processFill(state, status);
+      return "FILLED";
+    }
+    if (!status || status.status === "canceled" || status.status === "expired") {
+      await this.clearState(state.lotId);
+      return "RELEASED";
+    }
+    return "STILL_OPEN";
+  }
+
+  private watch(state: ExchangeStopState): void {
+    startProtectiveStopWatcher({
+      lotId: state.lotId,
+      pair: state.pair,
+      exchange: this.host.getTradingExchangeType(),
+      stopOrderId: state.orderId,
+      exchangeService: this.host.getTradingExchange(),
+      onStopFilled: async (status) => {
+        const current = this.stops.get(state.lotId);
+        if (current?.orderId === state.orderId) await this.processFill(current, status);
+      },
+      onStopCanceled: async () => {
+        if (this.stops.get(state.lotId)?.orderId === state.orderId) await this.clearState(state.lotId);
+      },
+    });
+  }
+
+  private async processFill(state: ExchangeStopState, status: ExchangeOrderStatus): Promise<void> {
+    if (this.stops.get(state.lotId)?.orderId !== state.orderId) return; // ya procesado
+    this.stops.delete(state.lotId);
+    stopProtectiveStopWatcher(state.lotId);
+
+    const position = this.host.getOpenPositions().get(state.lotId);
+    const avgPrice = status.avgPrice ?? state.stopPrice;
+    const executedAt = status.closedAt ?? new Date();
+    const entryPrice = position?.entryPrice ?? 0;
+    const { pnlUsd, pnlPct } = await recordProtectiveStopFill({
+      exchange: this.host.getTradingExchangeType(),
+      pair: state.pair,
+      stopOrderId: state.orderId,
+      filledVolume: status.filledVolume,
+      avgPrice,
+      feeUsd: status.fee,
+      executedAt,
+      entryPrice,
+      entryFee: position?.entryFee ?? 0,
+      positionAmount: position?.amount ?? status.filledVolume,
+    });
+
+    log(`[EXCHANGE_STOP] ${state.pair} ${state.lotId.substring(0, 12)}: stop ${state.orderId} EJECUTADO en exchange ${status.filledVolume} @ ${avgPrice} pnl=${pnlUsd.toFixed(2)} USD`, "trading");
+    await botLogger.warn("EXCHANGE_STOP_FILLED", `Stop protector ejecutado en exchange para ${state.pair}`, {
+      pair: state.pair, lotId: state.lotId, orderId: state.orderId, filledVolume: status.filledVolume,
+      avgPrice, feeUsd: status.fee, pnlUsd, pnlPct, positionKnown: !!position,
+    });
+
+    await this.host.onProtectiveStopFilled(state.lotId, {
+      stopOrderId: state.orderId,
+      filledVolume: status.filledVolume,
+      avgPrice,
+      feeUsd: status.fee,
+      pnlUsd,
+      pnlPct,
+      executedAt,
+    });
+  }
+
+  private async saveState(state: ExchangeStopState): Promise<void> {
+    this.stops.set(state.lotId, state);
+    this.watch(state);
+    try {
+      await storage.updateOpenPositionByLotId(state.lotId, {
+        exchangeStopOrderId: state.orderId,
+        exchangeStopPrice: state.stopPrice.toString(),
+        exchangeStopUpdatedAt: new Date(state.updatedAt),
+      });
+    } catch (e: any) {
+      log(`[EXCHANGE_STOP] Error persistiendo stop de ${state.lotId}: ${e?.message}`, "trading");
+    }
+  }
+
+  private async clearState(lotId: string): Promise<void> {
+    this.stops.delete(lotId);
+    stopProtectiveStopWatcher(lotId);
+    try {
+      await storage.updateOpenPositionByLotId(lotId, {
+        exchangeStopOrderId: null,
+        exchangeStopPrice: null,
+        exchangeStopUpdatedAt: new Date(),
+      });
+    } catch (e: any) {
+      log(`[EXCHANGE_STOP] Error limpiando stop de ${lotId}: ${e?.message}`, "trading");
+    }
+  }
+}
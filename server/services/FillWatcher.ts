@@ -15,6 +15,7 @@ import { storage } from '../storage';
 import { botLogger } from './botLogger';
 import { positionsWs } from './positionsWebSocket';
 import { fifoMatcher } from './fifoMatcher';
+import type { IExchangeService, ExchangeOrderStatus } from './exchanges/IExchangeService';
 
 async function tryRecalculatePnlForPairExchange(params: { pair: string; exchange: string; sinceMs?: number }): Promise<void> {
   const { pair, exchange, sinceMs = 30 * 24 * 60 * 60 * 1000 } = params;
@@ -764,6 +765,154 @@ export function stopAllFillWatchers(): void {
     console.log(`[FillWatcher] Stopped watcher for ${clientOrderId}`);
   }
   activeWatchers.clear();
+  for (const lotId of Array.from(protectiveStopWatchers.keys())) {
+    stopProtectiveStopWatcher(lotId);
+  }
+}
+
+// ============================================================================
+// Protective stop watcher (exchange-resident stop-loss orders)
+// ============================================================================
+
+interface ProtectiveStopWatcherConfig {
+  lotId: string;
+  pair: string;
+  exchange: string;
+  stopOrderId: string;
+  exchangeService: Pick<IExchangeService, 'getOrderStatus'>;
+  pollIntervalMs?: number;
+  /** Stop ejecutado en el exchange (total o parcialmente antes de cerrarse). */
+  onStopFilled: (status: ExchangeOrderStatus) => void | Promise<void>;
+  /** Stop cancelado/expirado sin ejecución (p. ej. cancelado a mano en el exchange). */
+  onStopCanceled?: (status: ExchangeOrderStatus) => void | Promise<void>;
+}
+
+// Protective stop watchers registry (key: lotId). Long-lived: no timeout.
+const protectiveStopWatchers = new Map<string, { stopOrderId: string; intervalId: NodeJS.Timeout }>();
+
+/**
+ * Watch a resting protective stop order until it fires or disappears.
+ * Replaces any previous watcher for the same lot (the stop order may have been re-placed).
+ */
+export function startProtectiveStopWatcher(config: ProtectiveStopWatcherConfig): void {
+  const { lotId, pair, stopOrderId, exchangeService, pollIntervalMs = 15000, onStopFilled, onStopCanceled } = config;
+
+  const existing = protectiveStopWatchers.get(lotId);
+  if (existing?.stopOrderId === stopOrderId) return;
+  stopProtectiveStopWatcher(lotId);
+
+  let polling = false;
+  const poll = async () => {
+    if (polling || !exchangeService.getOrderStatus) return;
+    polling = true;
+    try {
+      const status = await exchangeService.getOrderStatus(stopOrderId);
+      if (!status) return;
+      if (protectiveStopWatchers.get(lotId)?.stopOrderId !== stopOrderId) return;
+
+      const fired = status.filledVolume > 0 && (status.status === 'closed' || status.status === 'canceled' || status.status === 'expired');
+      if (fired) {
+        console.log(`[FillWatcher] Protective stop FIRED for ${pair} lot=${lotId} order=${stopOrderId} filled=${status.filledVolume} @ ${status.avgPrice}`);
+        stopProtectiveStopWatcher(lotId);
+        await onStopFilled(status);
+      } else if (status.status === 'canceled' || status.status === 'expired') {
+        console.warn(`[FillWatcher] Protective stop ${status.status} without fills for ${pair} lot=${lotId} order=${stopOrderId}`);
+        stopProtectiveStopWatcher(lotId);
+        await onStopCanceled?.(status);
+      }
+    } catch (error: any) {
+      console.warn(`[FillWatcher] Protective stop poll error for ${pair} lot=${lotId}: ${error?.message ?? String(error)}`);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const intervalId = setInterval(poll, pollIntervalMs);
+  protectiveStopWatchers.set(lotId, { stopOrderId, intervalId });
+  console.log(`[FillWatcher] Watching protective stop for ${pair} lot=${lotId} order=${stopOrderId}`);
+}
+
+export function stopProtectiveStopWatcher(lotId: string): void {
+  const watcher = protectiveStopWatchers.get(lotId);
+  if (watcher) {
+    clearInterval(watcher.intervalId);
+    protectiveStopWatchers.delete(lotId);
+  }
+}
+
+export function getProtectiveStopWatcherCount(): number {
+  return protectiveStopWatchers.size;
+}
+
+/**
+ * Persist the SELL produced by a protective stop that fired on the exchange:
+ * order-level trade (with P&L against the lot's entry) + trade fill.
+ * Idempotent: keyed by the stop order id.
+ */
+export async function recordProtectiveStopFill(params: {
+  exchange: string;
+  pair: string;
+  stopOrderId: string;
+  filledVolume: number;
+  avgPrice: number;
+  feeUsd: number;
+  executedAt: Date;
+  entryPrice: number;
+  entryFee: number;
+  positionAmount: number;
+}): Promise<{ pnlUsd: number; pnlPct: number }> {
+  const { exchange, pair, stopOrderId, filledVolume, avgPrice, feeUsd, executedAt, entryPrice, entryFee, positionAmount } = params;
+
+  const entryValue = entryPrice * filledVolume;
+  const exitValue = avgPrice * filledVolume;
+  const entryFeePart = positionAmount > 0 ? entryFee * Math.min(1, filledVolume / positionAmount) : entryFee;
+  const pnlUsd = (exitValue - entryValue) - entryFeePart - feeUsd;
+  const pnlPct = entryValue > 0 ? (pnlUsd / entryValue) * 100 : 0;
+
+  try {
+    await storage.insertTradeIgnoreDuplicate({
+      tradeId: stopOrderId,
+      exchange,
+      pair,
+      type: 'sell',
+      price: avgPrice.toString(),
+      amount: filledVolume.toFixed(8),
+      executedAt,
+      origin: 'engine',
+      executedByBot: true,
+      status: 'filled',
+      krakenOrderId: stopOrderId,
+      entryPrice: entryPrice.toString(),
+      realizedPnlUsd: pnlUsd.toFixed(8),
+      realizedPnlPct: pnlPct.toFixed(4),
+    } as any);
+  } catch (e: any) {
+    console.warn(`[FillWatcher] Protective stop trade persist failed for ${pair}: ${e?.message ?? String(e)}`);
+  }
+
+  try {
+    await storage.upsertTradeFill({
+      txid: stopOrderId,
+      orderId: stopOrderId,
+      exchange,
+      pair,
+      type: 'sell',
+      price: avgPrice.toString(),
+      amount: filledVolume.toFixed(8),
+      cost: exitValue.toFixed(8),
+      fee: feeUsd.toFixed(8),
+      executedAt,
+      matched: false,
+    } as any);
+  } catch (e: any) {
+    console.warn(`[FillWatcher] Protective stop fill persist failed for ${pair}: ${e?.message ?? String(e)}`);
+  }
+
+  await botLogger.info('ORDER_FILLED', `Protective stop filled: ${pair} sell ${filledVolume.toFixed(8)} @ $${avgPrice.toFixed(2)}`, {
+    stopOrderId, pair, exchange, filledVolume, avgPrice, feeUsd, pnlUsd, pnlPct,
+  });
+
+  return { pnlUsd, pnlPct };
 }
 
 /**
@@ -940,4 +1089,7 @@ export default {
   stopAllFillWatchers,
   getActiveWatcherCount,
   cleanupProcessedFills,
+  startProtectiveStopWatcher,
+  stopProtectiveStopWatcher,
+  recordProtectiveStopFill,
 };
@@ -17,6 +17,8 @@
  *   - Cache hit/miss counters accessible via getStats()
  *   - CACHE_HIT / CACHE_MISS / FETCH_SHARED / FETCH_BYPASS logged at debug level
  *   - getATR(pair, tf, period) for ATR computation over cached candles
+ *   - applyStream*() hooks let KrakenMarketStream push WS ticks/candles into the
+ *     same caches; REST remains the seed and the gap-backfill path
  */
 
 import { ExchangeFactory } from "./exchanges/ExchangeFactory";
@@ -41,6 +43,8 @@ export interface CachedPrice {
   // Manual putPrice: marketDataVenue=null, source="MANUAL_OR_UNKNOWN".
   marketDataVenue: "KRAKEN" | null;
   source: "KRAKEN_MARKET_DATA" | "MANUAL_OR_UNKNOWN";
+  /** Last written by KrakenMarketStream (WS) rather than a REST fetch. */
+  viaStream?: boolean;
 }
 
 export interface MarketDataStats {
@@ -49,6 +53,7 @@ export interface MarketDataStats {
   hits: number;
   misses: number;
   sharedFetches: number;
+  streamUpdates: number;
   entries: {
     key: string;
     count: number;
@@ -101,6 +106,11 @@ const DEFAULT_TTL_MS: Record<string, number> = {
   "15d": 24 * 60 * 60 * 1000,     // 24 hours
 };
 
+/** Candles kept in memory per pair+tf when the stream appends (Kraken REST returns 720). */
+const MAX_CACHED_CANDLES = 720;
+
+export type StreamCandleResult = "updated" | "appended" | "gap" | "ignored";
+
 let PRICE_TTL_MS = 45 * 1000; // 45 seconds (overridable via setPriceTtl) — staggered from UI 30s polling
 
 // ─── Service ──────────────────────────────────────────────────────
@@ -118,6 +128,7 @@ class MarketDataServiceClass {
   private _hits   = 0;
   private _misses = 0;
   private _shared = 0;
+  private _streamUpdates = 0;
 
   // ── Configuration ─────────────────────────────────────────────
 
@@ -331,6 +342,88 @@ class MarketDataServiceClass {
     });
   }
 
+  // ── Streaming hooks (KrakenMarketStream) ──────────────────────
+
+  /**
+   * WS ticker update: replaces the cached ticker with Kraken provenance.
+   * `pair` is the bot pair ("BTC/USD"), the same key getPrice/getTicker consumers use.
+   */
+  applyStreamTicker(pair: string, ticker: Ticker): void {
+    this._streamUpdates++;
+    this.priceCache.set(pair, {
+      ticker,
+      fetchedAt: Date.now(),
+      marketDataVenue: "KRAKEN",
+      source: "KRAKEN_MARKET_DATA",
+      viaStream: true,
+    });
+  }
+
+  /**
+   * Ticker pushed by the stream within maxAgeMs, or null (stream down, pair not
+   * subscribed, or last update came from REST). Never fetches.
+   */
+  getStreamTicker(pair: string, maxAgeMs: number): Ticker | null {
+    const cached = this.priceCache.get(pair);
+    if (!cached?.viaStream) return null;
+    const ageMs = Date.now() - cached.fetchedAt;
+    return ageMs >= 0 && ageMs < maxAgeMs ? cached.ticker : null;
+  }
+
+  /** WS trade print: refreshes `last` while keeping the latest bid/ask. */
+  applyStreamTrade(pair: string, price: number): void {
+    if (!Number.isFinite(price) || price <= 0) return;
+    const existing = this.priceCache.get(pair);
+    this.applyStreamTicker(pair, existing?.ticker
+      ? { ...existing.ticker, last: price }
+      : { bid: price, ask: price, last: price });
+  }
+
+  /**
+   * WS OHLC update for the candle in formation.
+   * Same open time → replaces the last candle; next interval → appends and persists
+   * the candle that just closed. A skipped interval (or no REST seed yet) returns "gap"
+   * so the caller can backfill through refreshCandles().
+   */
+  applyStreamCandle(pair: string, tf: Timeframe, candle: OHLC): StreamCandleResult {
+    const key = this.candleKey(pair, tf);
+    const cached = this.candleCache.get(key);
+    const intervalMin = TIMEFRAME_INTERVAL_MINUTES[tf];
+    if (!intervalMin) return "ignored";
+    if (!cached || cached.candles.length === 0) return "gap";
+
+    const candles = cached.candles;
+    const last = candles[candles.length - 1];
+    const intervalSec = intervalMin * 60;
+
+    if (candle.time < last.time) return "ignored";
+    if (candle.time > last.time + intervalSec) return "gap";
+
+    this._streamUpdates++;
+    if (candle.time === last.time) {
+      const next = candles.slice(0, -1);
+      next.push(candle);
+      this.candleCache.set(key, { candles: next, fetchedAt: Date.now() });
+      return "updated";
+    }
+
+    const next = candles.slice(-(MAX_CACHED_CANDLES - 1));
+    next.push(candle);
+    this.candleCache.set(key, { candles: next, fetchedAt: Date.now() });
+    MarketCandleRepository.upsertCandles(pair, tf, "kraken", [{ ...last, isClosed: true }]).catch((error) => {
+      console.debug(`[MDS] Failed to persist streamed candle for ${pair}/${tf}:`, error);
+    });
+    return "appended";
+  }
+
+  /** Force a REST fetch for pair+tf (gap backfill after reconnect or a skipped interval). */
+  async refreshCandles(pair: string, tf: Timeframe): Promise<OHLC[]> {
+    const key = this.candleKey(pair, tf);
+    const cached = this.candleCache.get(key);
+    if (cached) this.candleCache.set(key, { ...cached, fetchedAt: 0 });
+    return this.getCandles(pair, tf);
+  }
+
   // ── ATR computation ───────────────────────────────────────────
 
   /**
@@ -494,6 +587,7 @@ class MarketDataServiceClass {
       hits:    this._hits,
       misses:  this._misses,
       sharedFetches: this._shared,
+      streamUpdates: this._streamUpdates,
       entries,
     };
   }
@@ -502,6 +596,7 @@ class MarketDataServiceClass {
     this._hits = 0;
     this._misses = 0;
     this._shared = 0;
+    this._streamUpdates = 0;
   }
 
   clearAll(): void {
@@ -43,6 +43,18 @@ export interface MomentumExpansionContext {
 
   /** MACD histogram value of the previous cycle */
   prevMacdHist: number;
+
+  // Optional extended indicators (incremental store). They only feed
+  // `confirmations` and never change the score.
+
+  /** Session VWAP */
+  vwap?: number | null;
+  /** Supertrend direction is up */
+  supertrendUp?: boolean | null;
+  /** OBV change over its slope window */
+  obvChange?: number | null;
+  /** Keltner upper band */
+  keltnerUpper?: number | null;
 }
 
 // ─── Result ───────────────────────────────────────────────────────────────────
@@ -60,6 +72,9 @@ export interface MomentumExpansionResult {
   /** Human-readable list of fired conditions */
   reasons: string[];
 
+  /** Extended-indicator confirmations (non-scoring) */
+  confirmations: string[];
+
   metrics: {
     bodyPct: number;
     rangePct: number;
@@ -89,6 +104,9 @@ export interface MomentumExpansionResult {
  *  -1  UPPER_WICK_EXHAUSTION upperWickRatio > 0.35
  *
  * isExpansion = score >= 5
+ *
+ * Non-scoring confirmations (only when the optional inputs are provided):
+ *  ABOVE_VWAP, SUPERTREND_UP, OBV_RISING, KELTNER_BREAKOUT
  */
 export function evaluateMomentumExpansion(
   ctx: MomentumExpansionContext
@@ -150,6 +168,12 @@ export function evaluateMomentumExpansion(
     reasons.push('UPPER_WICK_EXHAUSTION');
   }
 
+  const confirmations: string[] = [];
+  if (ctx.vwap != null && ctx.vwap > 0 && close > ctx.vwap) confirmations.push('ABOVE_VWAP');
+  if (ctx.supertrendUp === true) confirmations.push('SUPERTREND_UP');
+  if (ctx.obvChange != null && ctx.obvChange > 0) confirmations.push('OBV_RISING');
+  if (ctx.keltnerUpper != null && close > ctx.keltnerUpper) confirmations.push('KELTNER_BREAKOUT');
+
   const isExpansion = score >= 5;
   const confidence  = Math.min(99, Math.max(0, 50 + score * 8));
 
@@ -158,6 +182,7 @@ export function evaluateMomentumExpansion(
     score,
     confidence,
     reasons,
+    confirmations,
     metrics: {
       bodyPct,
       rangePct,
@@ -146,6 +146,7 @@ export interface SmartExitMarketData {
   volumeRatio?: number;
   orderbookBias?: number | null; // -1 to 1 (sell to buy pressure)
   exchangeNetflow?: number | null;
+  nowMs?: number; // Clock override for candle replays (defaults to Date.now())
 }
 
 /** Position data for Smart Exit evaluation */
@@ -416,9 +417,10 @@ export class SmartExitEngine {
   evaluateStagnation(
     position: SmartExitPosition,
     config: SmartExitConfig,
-    candles?: OHLCCandle[]
+    candles?: OHLCCandle[],
+    nowMs: number = Date.now()
   ): SignalContribution | null {
-    const ageSec = (Date.now() - position.openedAt) / 1000;
+    const ageSec = (nowMs - position.openedAt) / 1000;
     const ageMin = ageSec / 60;
 
     if (ageMin >= config.stagnationMinutes && Math.abs(position.pnlPct) < config.stagnationMinPnlPct) {
@@ -438,7 +440,8 @@ export class SmartExitEngine {
     market: SmartExitMarketData,
     config: SmartExitConfig
   ): SmartExitDecision {
-    const positionAgeSec = (Date.now() - position.openedAt) / 1000;
+    const nowMs = market.nowMs ?? Date.now();
+    const positionAgeSec = (nowMs - position.openedAt) / 1000;
 
     // Detect regime
     const regime = market.candles
@@ -538,7 +541,7 @@ export class SmartExitEngine {
     }
 
     if (config.signals.stagnationExit) {
-      const r = this.evaluateStagnation(position, config, candles);
+      const r = this.evaluateStagnation(position, config, candles, nowMs);
       if (r) contributions.push(r);
     }
 
@@ -16,6 +16,7 @@
 
 import { log } from "../utils/logger";
 import { MarketDataService } from "./MarketDataService";
+import type { OHLCCandle } from "./indicators";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -104,7 +105,7 @@ function computeRSI(closes: number[], period: number = 14): number {
 
 // ─── Market score computation ─────────────────────────────────────────────────
 
-interface MarketScores {
+export interface MarketScores {
   trendScore: number;
   momentumScore: number;
   riskScore: number;
@@ -114,103 +115,110 @@ interface MarketScores {
 async function computeMarketScores(pair: string, currentPrice: number): Promise<MarketScores> {
   try {
     const candles = await MarketDataService.getCandles(pair, "1h");
-    if (!candles || candles.length < 20) {
-      log(`[SMART_TS_V2] ${pair}: insufficient candles (${candles?.length ?? 0}), using neutral scores`, "trading");
-      return { trendScore: 50, momentumScore: 50, riskScore: 50, dataPoints: candles?.length ?? 0 };
-    }
+    return computeMarketScoresFromCandles(pair, candles ?? [], currentPrice);
+  } catch (err: any) {
+    log(`[SMART_TS_V2] ${pair}: error computing scores: ${err?.message}`, "trading");
+    return { trendScore: 50, momentumScore: 50, riskScore: 50, dataPoints: 0 };
+  }
+}
 
-    const closes = candles.map(c => c.close);
-    const n = closes.length;
+/**
+ * Pure variant of computeMarketScores over a caller-supplied 1h candle window.
+ * Used by the Spot backtester so replayed time-stops score the same way as live.
+ */
+export function computeMarketScoresFromCandles(pair: string, candles: OHLCCandle[], currentPrice: number): MarketScores {
+  if (candles.length < 20) {
+    log(`[SMART_TS_V2] ${pair}: insufficient candles (${candles.length}), using neutral scores`, "trading");
+    return { trendScore: 50, momentumScore: 50, riskScore: 50, dataPoints: candles.length };
+  }
 
-    // ── trendScore ────────────────────────────────────────────────
-    let trendPoints = 0;
-    let trendChecks = 0;
+  const closes = candles.map(c => c.close);
+  const n = closes.length;
 
-    // EMA20
-    const ema20arr = computeEMA(closes, 20);
-    const ema20 = ema20arr.length > 0 ? ema20arr[ema20arr.length - 1] : null;
-    if (ema20 !== null) {
-      trendChecks++;
-      if (currentPrice > ema20) trendPoints += 25;
-    }
+  // ── trendScore ────────────────────────────────────────────────
+  let trendPoints = 0;
+  let trendChecks = 0;
 
-    // EMA50
-    if (closes.length >= 50) {
-      const ema50arr = computeEMA(closes, 50);
-      const ema50 = ema50arr.length > 0 ? ema50arr[ema50arr.length - 1] : null;
-      if (ema50 !== null) {
+  // EMA20
+  const ema20arr = computeEMA(closes, 20);
+  const ema20 = ema20arr.length > 0 ? ema20arr[ema20arr.length - 1] : null;
+  if (ema20 !== null) {
+    trendChecks++;
+    if (currentPrice > ema20) trendPoints += 25;
+  }
+
+  // EMA50
+  if (closes.length >= 50) {
+    const ema50arr = computeEMA(closes, 50);
+    const ema50 = ema50arr.length > 0 ? ema50arr[ema50arr.length - 1] : null;
+    if (ema50 !== null) {
+      trendChecks++;
+      if (currentPrice > ema50) trendPoints += 20;
+      // EMA20 > EMA50 (bullish cross)
+      if (ema20 !== null) {
         trendChecks++;
-        if (currentPrice > ema50) trendPoints += 20;
-        // EMA20 > EMA50 (bullish cross)
-        if (ema20 !== null) {
-          trendChecks++;
-          if (ema20 > ema50) trendPoints += 20;
-        }
+        if (ema20 > ema50) trendPoints += 20;
       }
     }
+  }
 
-    // Higher high / higher low (last 5 candles)
-    if (n >= 6) {
-      const recentHighs = candles.slice(-6).map(c => c.high);
-      const recentLows  = candles.slice(-6).map(c => c.low);
-      const higherHigh = recentHighs[5] > recentHighs[4] && recentHighs[4] > recentHighs[3];
-      const higherLow  = recentLows[5]  > recentLows[4]  && recentLows[4]  > recentLows[3];
-      trendChecks += 2;
-      if (higherHigh) trendPoints += 20;
-      if (higherLow)  trendPoints += 15;
-    }
-
-    const trendScore = trendChecks > 0 ? Math.min(100, Math.round((trendPoints / (trendChecks > 0 ? Math.max(trendPoints, 80) : 80)) * 100)) : 50;
-
-    // ── momentumScore ─────────────────────────────────────────────
-    let momentumScore = 50;
-    const rsi = computeRSI(closes, 14);
-    // RSI 45-70 = strong momentum zone
-    if (rsi >= 45 && rsi <= 70) momentumScore += 20;
-    else if (rsi > 70) momentumScore += 10;    // overbought = reducing
-    else if (rsi < 45) momentumScore -= 20;    // losing momentum
-
-    // Last candle direction
-    if (n >= 2) {
-      const lastClose = closes[n - 1];
-      const prevClose = closes[n - 2];
-      if (lastClose > prevClose) momentumScore += 15;
-      else if (lastClose < prevClose) momentumScore -= 15;
-    }
+  // Higher high / higher low (last 5 candles)
+  if (n >= 6) {
+    const recentHighs = candles.slice(-6).map(c => c.high);
+    const recentLows  = candles.slice(-6).map(c => c.low);
+    const higherHigh = recentHighs[5] > recentHighs[4] && recentHighs[4] > recentHighs[3];
+    const higherLow  = recentLows[5]  > recentLows[4]  && recentLows[4]  > recentLows[3];
+    trendChecks += 2;
+    if (higherHigh) trendPoints += 20;
+    if (higherLow)  trendPoints += 15;
+  }
 
-    // 3-candle trend
-    if (n >= 4) {
-      const c4 = [closes[n-4], closes[n-3], closes[n-2], closes[n-1]];
-      const bullish3 = c4[3] > c4[2] && c4[2] > c4[1];
-      const bearish3 = c4[3] < c4[2] && c4[2] < c4[1];
-      if (bullish3) momentumScore += 15;
-      if (bearish3) momentumScore -= 15;
-    }
+  const trendScore = trendChecks > 0 ? Math.min(100, Math.round((trendPoints / (trendChecks > 0 ? Math.max(trendPoints, 80) : 80)) * 100)) : 50;
+
+  // ── momentumScore ─────────────────────────────────────────────
+  let momentumScore = 50;
+  const rsi = computeRSI(closes, 14);
+  // RSI 45-70 = strong momentum zone
+  if (rsi >= 45 && rsi <= 70) momentumScore += 20;
+  else if (rsi > 70) momentumScore += 10;    // overbought = reducing
+  else if (rsi < 45) momentumScore -= 20;    // losing momentum
+
+  // Last candle direction
+  if (n >= 2) {
+    const lastClose = closes[n - 1];
+    const prevClose = closes[n - 2];
+    if (lastClose > prevClose) momentumScore += 15;
+    else if (lastClose < prevClose) momentumScore -= 15;
+  }
 
-    momentumScore = Math.max(0, Math.min(100, momentumScore));
+  // 3-candle trend
+  if (n >= 4) {
+    const c4 = [closes[n-4], closes[n-3], closes[n-2], closes[n-1]];
+    const bullish3 = c4[3] > c4[2] && c4[2] > c4[1];
+    const bearish3 = c4[3] < c4[2] && c4[2] < c4[1];
+    if (bullish3) momentumScore += 15;
+    if (bearish3) momentumScore -= 15;
+  }
 
-    // ── riskScore (higher = more risk) ───────────────────────────
-    let riskScore = 50;
-    // Overbought RSI → higher risk of reversal
-    if (rsi > 70) riskScore += 20;
-    if (rsi < 35) riskScore -= 10; // oversold = lower reversal risk
+  momentumScore = Math.max(0, Math.min(100, momentumScore));
 
-    // Price below EMA20 = elevated risk
-    if (ema20 !== null && currentPrice < ema20) riskScore += 20;
+  // ── riskScore (higher = more risk) ───────────────────────────
+  let riskScore = 50;
+  // Overbought RSI → higher risk of reversal
+  if (rsi > 70) riskScore += 20;
+  if (rsi < 35) riskScore -= 10; // oversold = lower reversal risk
 
-    riskScore = Math.max(0, Math.min(100, riskScore));
+  // Price below EMA20 = elevated risk
+  if (ema20 !== null && currentPrice < ema20) riskScore += 20;
 
-    return {
-      trendScore: Math.max(0, Math.min(100, trendScore)),
-      momentumScore,
-      riskScore,
-      dataPoints: n,
-    };
+  riskScore = Math.max(0, Math.min(100, riskScore));
 
-  } catch (err: any) {
-    log(`[SMART_TS_V2] ${pair}: error computing scores: ${err?.message}`, "trading");
-    return { trendScore: 50, momentumScore: 50, riskScore: 50, dataPoints: 0 };
-  }
+  return {
+    trendScore: Math.max(0, Math.min(100, trendScore)),
+    momentumScore,
+    riskScore,
+    dataPoints: n,
+  };
 }
 
 // ─── Main evaluation function ─────────────────────────────────────────────────
@@ -233,12 +241,24 @@ export async function evaluateSmartTimeStopV2(
     };
   }
 
-  const { pair, lotId, ageHours, ttlHours, regime,
-          currentPrice, entryPrice, netPnlPct,
-          sgTrailingActivated, sgCurrentStopPrice, sgBreakEvenActivated } = ctx;
-
   // Compute market scores
-  const { trendScore, momentumScore, riskScore, dataPoints } = await computeMarketScores(pair, currentPrice);
+  const scores = await computeMarketScores(ctx.pair, ctx.currentPrice);
+  return decideSmartTimeStopV2(ctx, scores);
+}
+
+/**
+ * Decision tree of Smart TimeStop V2 given precomputed market scores.
+ * Pure (logging aside) so replays can feed scores from historical candles.
+ */
+export function decideSmartTimeStopV2(
+  ctx: SmartTimeStopV2Context,
+  scores: MarketScores,
+): SmartTimeStopV2Result {
+  const cfg = SMART_TS_V2_CONFIG;
+  const { pair, lotId, ageHours, ttlHours, regime,
+          currentPrice, netPnlPct,
+          sgTrailingActivated, sgCurrentStopPrice } = ctx;
+  const { trendScore, momentumScore, riskScore, dataPoints } = scores;
 
   // Distance from current price to trailing stop (%)
   const distanceToStopPct = (sgTrailingActivated && sgCurrentStopPrice && sgCurrentStopPrice > 0)
@@ -10,12 +10,15 @@
  *   5. Centralized rate-limit (per source_module per hour)
  *   6. Quiet hours
  *   7. Audit logging (telegram_alert_events)
+ *   8. Fan-out to non-Telegram channels (notifications/NotificationChannelDispatcher)
  *
  * TelegramService is kept as low-level transport only.
  */
 
 import { storage } from "../storage";
 import { log } from "../utils/logger";
+import { notificationChannelDispatcher } from "./notifications/NotificationChannelDispatcher";
+import { recordAlertDelivery } from "./metrics/appMetrics";
 
 // ─── Types ────────────────────────────────────────────────────
 
@@ -27,7 +30,9 @@ export type AlertMode =
   | "smart_exit"
   | "fisco"
   | "system"
-  | "ai";
+  | "ai"
+  | "grid"
+  | "ama";
 
 export type AlertSeverity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
 
@@ -58,7 +63,7 @@ export interface NormalizedAlert {
   positionId?: string;
   dryRunId?: string;
   message: string;
-  alertCategory?: "trades" | "errors" | "system" | "balance" | "heartbeat" | "strategy" | "fisco";
+  alertCategory?: "trades" | "errors" | "system" | "balance" | "heartbeat" | "strategy" | "fisco" | "grid" | "ama";
   alertSubtype?: string;
   dedupeKey?: string;
   skipDedupe?: boolean;
@@ -86,7 +91,7 @@ interface CommandDefinition {
   name: string;
   permission: CommandPermission;
   description: string;
-  module?: "general" | "spot" | "idca" | "grid" | "fisco" | "system";
+  module?: "general" | "spot" | "idca" | "grid" | "ama" | "fisco" | "system";
   deprecated?: boolean;
   aliasOf?: string;
   requiresConfirmation?: boolean;
@@ -116,11 +121,15 @@ const COMMAND_DEFINITIONS: CommandDefinition[] = [
   { name: "/idca_summary", permission: "read_only", description: "Resumen P&L y capital IDCA", module: "idca" },
 
   // ── Grid ─────────────────────────────────────────────────
+  { name: "/grid", permission: "read_only", description: "Resumen Grid Isolated (rango, ciclos, protecciones)", module: "grid" },
   { name: "/grid_status", permission: "read_only", description: "Estado del sistema Grid/Hybrid", module: "grid" },
   { name: "/grid_observer", permission: "read_only", description: "Estado del Grid Observer (modo simulado)", module: "grid" },
   { name: "/grid_cycles", permission: "read_only", description: "Ciclos Grid observados", module: "grid" },
   { name: "/grid_proposals", permission: "read_only", description: "Propuestas asistidas de Grid pendientes", module: "grid" },
 
+  // ── AMA ──────────────────────────────────────────────────
+  { name: "/ama", permission: "read_only", description: "Resumen AMA (estado, ciclo, capital, plan de tramos)", module: "ama" },
+
   // ── Fiscalidad ───────────────────────────────────────────
   { name: "/fisco_status", permission: "read_only", description: "Estado de sincronización fiscal", module: "fisco" },
   { name: "/informe_fiscal", permission: "action", description: "Generar informe fiscal", module: "fisco", requiresConfirmation: true },
@@ -135,10 +144,15 @@ const COMMAND_DEFINITIONS: CommandDefinition[] = [
   { name: "/resume_bot", permission: "action", description: "Reanudar el bot completo", module: "system", requiresConfirmation: true },
   { name: "/spot_pause", permission: "action", description: "Pausar trading SPOT", module: "spot", requiresConfirmation: true },
   { name: "/spot_resume", permission: "action", description: "Reanudar trading SPOT", module: "spot", requiresConfirmation: true },
-  { name: "/idca_pause", permission: "action", description: "Pausar módulo IDCA", module: "idca", requiresConfirmation: true },
-  { name: "/idca_resume", permission: "action", description: "Reanudar módulo IDCA", module: "idca", requiresConfirmation: true },
+  { name: "/spot_close", permission: "action", description: "Cerrar un lote SPOT a mercado: /spot_close LOT_ID", module: "spot", requiresConfirmation: true },
+  { name: "/idca_pause", permission: "action", description: "Pausar compras IDCA de un par (exit-only): /idca_pause BTC/USD", module: "idca", requiresConfirmation: true },
+  { name: "/idca_resume", permission: "action", description: "Reanudar compras IDCA de un par: /idca_resume BTC/USD", module: "idca", requiresConfirmation: true },
+  { name: "/idca_exit", permission: "action", description: "Instrucción de salida IDCA: /idca_exit BTC/USD 25|50|75|100 [precio]", module: "idca", requiresConfirmation: true },
   { name: "/grid_pause", permission: "action", description: "Pausar módulo Grid", module: "grid", requiresConfirmation: true },
   { name: "/grid_resume", permission: "action", description: "Reanudar módulo Grid", module: "grid", requiresConfirmation: true },
+  { name: "/grid_mode", permission: "action", description: "Cambiar modo Grid: /grid_mode OFF|SHADOW|REAL_LIMITED|REAL_FULL [PAR]", module: "grid", requiresConfirmation: true },
+  { name: "/tuning_approve", permission: "action", description: "Aprobar propuesta de auto-tuning: /tuning_approve ID", module: "system", requiresConfirmation: true },
+  { name: "/tuning_reject", permission: "action", description: "Rechazar propuesta de auto-tuning: /tuning_reject ID [motivo]", module: "system", requiresConfirmation: true },
   { name: "/telegram_mute", permission: "admin", description: "Activar modo silencioso Telegram", module: "system", requiresConfirmation: true },
   { name: "/telegram_unmute", permission: "admin", description: "Desactivar modo silencioso Telegram", module: "system", requiresConfirmation: true },
   { name: "/refresh_commands", permission: "admin", description: "Admin: refrescar catálogo de comandos", module: "system" },
@@ -282,6 +296,35 @@ class TelegramNotificationCenter {
       }
     }
 
+    // 8-15. Telegram; 16. canales externos (webhook, email, ntfy, Gotify, Discord).
+    // Si Telegram no entrega, los canales de respaldo siguen recibiendo la alerta.
+    const status = await this.deliverToTelegram(alert, env, alertCategory, rule);
+    const externalSent = await notificationChannelDispatcher.dispatch(alert, {
+      environment: env,
+      telegramDelivered: status === "sent",
+    });
+    if (status !== "sent" && externalSent === 0) return status;
+
+    // 17. Mark dedupe + rate limit
+    if (!alert.skipDedupe) {
+      const dedupeKey = alert.dedupeKey || this.buildDedupeKey(alert);
+      this.markDeduped(dedupeKey);
+    }
+    if (!alert.skipRateLimit) {
+      const rateLimitKey = `${alert.sourceModule}:${alert.mode}`;
+      this.markRateLimited(rateLimitKey);
+    }
+
+    return status;
+  }
+
+  /** Pasos 8-15 de send(): canal, token y envío por Telegram. */
+  private async deliverToTelegram(
+    alert: NormalizedAlert,
+    env: string,
+    alertCategory: string,
+    rule: any | null,
+  ): Promise<AlertStatus> {
     // 8. Get all chats (not just active — we need to check isActive in routing)
     const allChats = await storage.getTelegramChats();
     const activeChats = allChats.filter(c => c.isActive);
@@ -364,16 +407,6 @@ class TelegramNotificationCenter {
       return "failed_send";
     }
 
-    // 16. Mark dedupe + rate limit
-    if (!alert.skipDedupe) {
-      const dedupeKey = alert.dedupeKey || this.buildDedupeKey(alert);
-      this.markDeduped(dedupeKey);
-    }
-    if (!alert.skipRateLimit) {
-      const rateLimitKey = `${alert.sourceModule}:${alert.mode}`;
-      this.markRateLimited(rateLimitKey);
-    }
-
     return "sent";
   }
 
@@ -605,8 +638,10 @@ class TelegramNotificationCenter {
     }
   }
 
-  private inferCategory(mode: AlertMode, alertType: string): "trades" | "errors" | "system" | "balance" | "heartbeat" | "strategy" | "fisco" {
+  private inferCategory(mode: AlertMode, alertType: string): "trades" | "errors" | "system" | "balance" | "heartbeat" | "strategy" | "fisco" | "grid" | "ama" {
     if (mode === "fisco") return "fisco";
+    if (mode === "grid") return "grid";
+    if (mode === "ama") return "ama";
     if (alertType.startsWith("error") || alertType.startsWith("critical")) return "errors";
     if (alertType.startsWith("system") || alertType.startsWith("bot_")) return "system";
     if (alertType.startsWith("heartbeat") || alertType.startsWith("daily_report")) return "heartbeat";
@@ -628,6 +663,8 @@ class TelegramNotificationCenter {
       case "heartbeat": return chat.alertHeartbeat;
       case "strategy": return true;
       case "fisco": return true;
+      case "grid": return true;
+      case "ama": return true;
       default: return false;
     }
   }
@@ -644,6 +681,8 @@ class TelegramNotificationCenter {
       fisco: "fiscal",
       system: "system",
       ai: "trading",
+      grid: "grid",
+      ama: "ama",
     };
     return modeMap[mode] || mode;
   }
@@ -652,7 +691,8 @@ class TelegramNotificationCenter {
     const enabledModes = chat.enabledModes as string[] | null;
     if (!enabledModes || enabledModes.length === 0) return true;
     const mappedMode = this.mapModeToEnabledMode(mode);
-    return enabledModes.includes(mappedMode);
+    // La UI guarda algunos modos en mayúsculas (p. ej. "GRID", "AMA")
+    return enabledModes.some(m => m.toLowerCase() === mappedMode);
   }
 
   private isChannelAllowedForAlert(chat: any, alertCategory: string): boolean {
@@ -727,6 +767,7 @@ class TelegramNotificationCenter {
     channelId?: number,
     tokenId?: number,
   ): Promise<void> {
+    recordAlertDelivery("telegram", status);
     try {
       await storage.insertTelegramAlertEvent({
         environment: env,
@@ -0,0 +1,449 @@
+/**
+ * TuningProposalGenerator — Phase 10 (automatic proposals)
+ *
+ * Background analyzer that mines trade_snapshots + trade_metrics (MFE/MAE) and
+ * ai_shadow_decisions per strategy/pair, replays candidate parameter values over
+ * the closed trades and stores the best improvement as a tuning proposal in
+ * OBSERVING state. It NEVER applies anything: approval stays manual.
+ *
+ * Replay model (deliberately conservative):
+ *   - takeProfitPercent:  trades whose MFE reached the candidate TP exit at TP.
+ *   - trailingStopPercent: trades exit at MFE − trail if that beats the real exit.
+ *   - spreadMaxPct / aiFilterThreshold: trades outside the gate are dropped.
+ * Outcomes after the real exit are unknown, so loosening a value never shows an improvement.
+ *
+ * minSignals (BOT_SPOT only) cannot be replayed from the snapshots, which record
+ * the signal score and not the signal count. It is replayed instead through the
+ * signal counterfactual (stored candles → momentumCandlesStrategy → exit stack)
+ * with each candidate threshold, and the same acceptance bars apply in USD.
+ */
+
+import { storage, type AutotuningTradeSampleRow } from "../storage";
+import { runCounterfactual, signalCounterfactualEngine, type CounterfactualMetrics } from "./backtest/signalCounterfactual";
+import type { TuningProposal } from "@shared/schema";
+
+const RUN_INTERVAL_MS        = 6 * 60 * 60 * 1000; // 6 hours
+const FIRST_RUN_DELAY_MS     = 5 * 60 * 1000;
+const LOOKBACK_DAYS          = 90;
+const MIN_SAMPLES            = 30;    // raw closed trades per strategy/pair
+const MIN_WEIGHTED_SAMPLES   = 10;    // after evidence weighting (REAL 1.0 … SHADOW 0.3)
+const FULL_CONFIDENCE_WEIGHT = 150;
+const MIN_RETAINED_SHARE     = 0.6;   // filters may not drop more than 40% of trades
+const MIN_AVG_PNL_GAIN       = 0.05;  // in the metric unit (pct points or USD)
+const ROUND_TRIP_FEE_PCT     = 0.52;  // taker entry + exit, applied to replayed exits
+const OPEN_STATUSES          = ["OBSERVING", "TESTING", "READY"];
+
+export type TunableParameter =
+  | "takeProfitPercent"
+  | "trailingStopPercent"
+  | "minSignals"
+  | "spreadMaxPct"
+  | "aiFilterThreshold";
+
+export interface ReplaySample {
+  weight:       number;
+  pnl:          number;        // pnlPct for trades, finalPnlNet (USD) for shadow decisions
+  mfePct?:      number | null;
+  maePct?:      number | null;
+  signalScore?: number | null;
+  spreadPct?:   number | null;
+  aiScore?:     number | null;
+  exitCategory?: string | null;
+}
+
+export interface ReplayMetrics {
+  unit:             "pct" | "usd";
+  samples:          number;
+  weightedSamples:  number;
+  winRate:          number;
+  avgPnl:           number;
+  profitFactor:     number;
+  avgMaePct:        number | null;
+}
+
+export interface ProposalCandidate {
+  strategyType:    string;
+  pair:            string;
+  parameter:       TunableParameter;
+  from:            number;
+  to:              number;
+  before:          ReplayMetrics;
+  after:           ReplayMetrics;
+  confidenceScore: number;
+  riskScore:       number;
+  recommendation:  string;
+}
+
+export interface GeneratorRunResult {
+  startedAt:   string;
+  finishedAt:  string;
+  groups:      number;
+  skipped:     Array<{ strategyType: string; pair: string; reason: string }>;
+  created:     number[];
+  duplicates:  number;
+  error?:      string;
+}
+
+// ─── Pure replay helpers ─────────────────────────────────────────────────────
+
+function round(value: number, decimals = 4): number {
+  const f = 10 ** decimals;
+  return Math.round(value * f) / f;
+}
+
+export function computeReplayMetrics(samples: ReplaySample[], unit: "pct" | "usd" = "pct"): ReplayMetrics {
+  let weighted = 0, wins = 0, pnlSum = 0, grossProfit = 0, grossLoss = 0;
+  let maeSum = 0, maeWeight = 0;
+  for (const s of samples) {
+    weighted += s.weight;
+    pnlSum   += s.pnl * s.weight;
+    if (s.pnl > 0) { wins += s.weight; grossProfit += s.pnl * s.weight; }
+    else           { grossLoss += -s.pnl * s.weight; }
+    if (s.maePct != null) { maeSum += s.maePct * s.weight; maeWeight += s.weight; }
+  }
+  return {
+    unit,
+    samples:         samples.length,
+    weightedSamples: round(weighted, 3),
+    winRate:         weighted > 0 ? round(wins / weighted) : 0,
+    avgPnl:          weighted > 0 ? round(pnlSum / weighted) : 0,
+    profitFactor:    grossLoss > 0 ? round(grossProfit / grossLoss, 3) : grossProfit > 0 ? 999 : 0,
+    avgMaePct:       maeWeight > 0 ? round(maeSum / maeWeight) : null,
+  };
+}
+
+/** Exit at TP when the trade's MFE reached it (capping bigger winners too); otherwise the real outcome stands. */
+export function replayTakeProfit(samples: ReplaySample[], tpPct: number): ReplaySample[] {
+  return samples.map(s =>
+    s.mfePct != null && s.mfePct >= tpPct ? { ...s, pnl: tpPct - ROUND_TRIP_FEE_PCT } : s
+  );
+}
+
+/** Exit at MFE − trail when that locks more than the real exit did. */
+export function replayTrailing(samples: ReplaySample[], trailPct: number): ReplaySample[] {
+  return samples.map(s => {
+    if (s.mfePct == null || s.mfePct <= trailPct) return s;
+    const locked = s.mfePct - trailPct - ROUND_TRIP_FEE_PCT;
+    return locked > s.pnl ? { ...s, pnl: locked } : s;
+  });
+}
+
+/** Drop trades below the gate; samples without the field are kept (no evidence either way). */
+export function replayMinGate(samples: ReplaySample[], field: "signalScore" | "aiScore", min: number): ReplaySample[] {
+  return samples.filter(s => s[field] == null || (s[field] as number) >= min);
+}
+
+export function replayMaxSpread(samples: ReplaySample[], maxSpreadPct: number): ReplaySample[] {
+  return samples.filter(s => s.spreadPct == null || s.spreadPct <= maxSpreadPct);
+}
+
+export function scoreConfidence(after: ReplayMetrics, before: ReplayMetrics): number {
+  const sampleFactor = Math.min(1, Math.sqrt(after.weightedSamples / FULL_CONFIDENCE_WEIGHT));
+  const gain = after.avgPnl - before.avgPnl;
+  const scale = Math.max(Math.abs(before.avgPnl), 0.5);
+  const gainFactor = Math.min(1, Math.max(0, gain / scale));
+  return round(Math.min(100, 100 * sampleFactor * (0.5 + 0.5 * gainFactor)), 2);
+}
+
+export function scoreRisk(from: number, to: number, before: ReplayMetrics, after: ReplayMetrics): number {
+  const relChange = from !== 0 ? Math.abs(to - from) / Math.abs(from) : 1;
+  const dropped = before.samples > 0 ? 1 - after.samples / before.samples : 0;
+  let risk = relChange * 100 * 0.6 + dropped * 50;
+  if (after.samples < 100) risk += 15;
+  if (after.avgMaePct != null && after.avgMaePct < -3) risk += 15;
+  return round(Math.min(100, Math.max(0, risk)), 2);
+}
+
+function candidateValues(parameter: TunableParameter, current: number): number[] {
+  switch (parameter) {
+    case "takeProfitPercent":
+    case "trailingStopPercent":
+      // Only tighter values are observable through MFE (see header).
+      return [0.6, 0.75, 0.9].map(f => round(current * f, 2)).filter(v => v > 0);
+    case "spreadMaxPct":
+      return [0.5, 0.7, 0.85].map(f => round(current * f, 2)).filter(v => v > 0);
+    case "minSignals":
+      // Full counterfactual replay: a looser value is observable too.
+      return [-1, 1, 2].map(d => current + d).filter(v => v >= 1);
+    case "aiFilterThreshold":
+      return [0.05, 0.1, 0.15].map(d => round(current + d, 2)).filter(v => v < 1);
+  }
+}
+
+function replayFor(parameter: Exclude<TunableParameter, "minSignals">, samples: ReplaySample[], value: number): ReplaySample[] {
+  switch (parameter) {
+    case "takeProfitPercent":   return replayTakeProfit(samples, value);
+    case "trailingStopPercent": return replayTrailing(samples, value);
+    case "spreadMaxPct":        return replayMaxSpread(samples, value);
+    case "aiFilterThreshold":   return replayMinGate(samples, "aiScore", value);
+  }
+}
+
+/** Counterfactual book → ReplayMetrics (USD per trade, every replayed trade weighs 1). */
+export function replayMetricsFromCounterfactual(m: CounterfactualMetrics): ReplayMetrics {
+  return {
+    unit:            "usd",
+    samples:         m.trades,
+    weightedSamples: m.trades,
+    winRate:         round(m.winRatePct / 100),
+    avgPnl:          round(m.expectancyUsd),
+    profitFactor:    m.profitFactor != null ? round(m.profitFactor, 3) : m.netPnlUsd > 0 ? 999 : 0,
+    avgMaePct:       null,
+  };
+}
+
+/** Improvement, profit-factor and retention bars shared by every parameter. */
+function acceptCandidate(
+  strategyType: string,
+  pair: string,
+  parameter: TunableParameter,
+  current: number,
+  to: number,
+  before: ReplayMetrics,
+  after: ReplayMetrics,
+  best: ProposalCandidate | null,
+): ProposalCandidate | null {
+  if (after.samples < before.samples * MIN_RETAINED_SHARE) return null;
+  if (after.samples < MIN_SAMPLES || after.weightedSamples < MIN_WEIGHTED_SAMPLES) return null;
+  if (after.avgPnl - before.avgPnl < MIN_AVG_PNL_GAIN) return null;
+  if (after.profitFactor < before.profitFactor) return null;
+  if (best && after.avgPnl <= best.after.avgPnl) return null;
+
+  const u = before.unit === "pct" ? "%" : " USD";
+  return {
+    strategyType, pair, parameter, from: current, to, before, after,
+    confidenceScore: scoreConfidence(after, before),
+    riskScore:       scoreRisk(current, to, before, after),
+    recommendation:
+      `${parameter}: ${current} → ${to}. Replay sobre ${after.samples}/${before.samples} trades: ` +
+      `PnL medio ${before.avgPnl}${u} → ${after.avgPnl}${u}, PF ${before.profitFactor} → ${after.profitFactor}, ` +
+      `win rate ${(before.winRate * 100).toFixed(1)}% → ${(after.winRate * 100).toFixed(1)}%.`,
+  };
+}
+
+/**
+ * Evaluate all candidate values for one parameter and return the best one
+ * (highest avgPnl) that clears the improvement, profit-factor and retention bars.
+ */
+export function evaluateParameter(
+  strategyType: string,
+  pair: string,
+  parameter: Exclude<TunableParameter, "minSignals">,
+  current: number,
+  samples: ReplaySample[],
+  unit: "pct" | "usd" = "pct",
+): ProposalCandidate | null {
+  if (samples.length < MIN_SAMPLES) return null;
+  const before = computeReplayMetrics(samples, unit);
+  if (before.weightedSamples < MIN_WEIGHTED_SAMPLES) return null;
+
+  let best: ProposalCandidate | null = null;
+  for (const to of candidateValues(parameter, current)) {
+    if (to === current) continue;
+    const after = computeReplayMetrics(replayFor(parameter, samples, to), unit);
+    best = acceptCandidate(strategyType, pair, parameter, current, to, before, after, best) ?? best;
+  }
+  return best;
+}
+
+/**
+ * Same search for minSignals, where each value is a counterfactual replay
+ * (`replay(minSignals)`) instead of a filter over the recorded trades.
+ */
+export async function evaluateMinSignals(
+  strategyType: string,
+  pair: string,
+  current: number,
+  replay: (minSignals: number) => Promise<ReplayMetrics>,
+): Promise<ProposalCandidate | null> {
+  const before = await replay(current);
+  if (before.samples < MIN_SAMPLES || before.weightedSamples < MIN_WEIGHTED_SAMPLES) return null;
+
+  let best: ProposalCandidate | null = null;
+  for (const to of candidateValues("minSignals", current)) {
+    const after = await replay(to);
+    best = acceptCandidate(strategyType, pair, "minSignals", current, to, before, after, best) ?? best;
+  }
+  return best;
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+function toReplaySample(r: AutotuningTradeSampleRow): ReplaySample {
+  return {
+    weight:       r.evidenceWeight,
+    pnl:          r.pnlPct,
+    mfePct:       r.mfePct,
+    maePct:       r.maePct,
+    signalScore:  r.signalScore,
+    spreadPct:    r.spreadPct,
+    exitCategory: r.exitCategory,
+  };
+}
+
+function readNumber(source: Record<string, unknown> | null | undefined, key: string): number | null {
+  const v = source?.[key];
+  if (v == null || v === "") return null;
+  const n = typeof v === "number" ? v : parseFloat(String(v));
+  return Number.isFinite(n) ? n : null;
+}
+
+function isOpenDuplicate(existing: TuningProposal[], c: ProposalCandidate): boolean {
+  return existing.some(p =>
+    OPEN_STATUSES.includes(p.status) &&
+    p.strategyType === c.strategyType &&
+    (p.pair ?? "") === c.pair &&
+    (p.parameterChangesJson as any)?.parameter === c.parameter
+  );
+}
+
+class TuningProposalGenerator {
+  private static instance: TuningProposalGenerator;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private firstRunTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private lastResult: GeneratorRunResult | null = null;
+
+  static getInstance(): TuningProposalGenerator {
+    if (!TuningProposalGenerator.instance) {
+      TuningProposalGenerator.instance = new TuningProposalGenerator();
+    }
+    return TuningProposalGenerator.instance;
+  }
+
+  /** Called from routes.ts on startup. */
+  startScheduler(): void {
+    if (this.intervalId) return;
+    const tick = () => {
+      this.runOnce().catch(e =>
+        console.warn(`[tuning-generator] run error (non-critical): ${e?.message}`)
+      );
+    };
+    this.firstRunTimer = setTimeout(tick, FIRST_RUN_DELAY_MS);
+    this.intervalId = setInterval(tick, RUN_INTERVAL_MS);
+    console.log("[tuning-generator] scheduler started (6h interval)");
+  }
+
+  stopScheduler(): void {
+    if (this.firstRunTimer) { clearTimeout(this.firstRunTimer); this.firstRunTimer = null; }
+    if (this.intervalId) { clearInterval(this.intervalId); this.intervalId = null; }
+  }
+
+  getStatus(): { schedulerActive: boolean; running: boolean; lastResult: GeneratorRunResult | null } {
+    return { schedulerActive: this.intervalId !== null, running: this.running, lastResult: this.lastResult };
+  }
+
+  async runOnce(options?: { strategyType?: string; pair?: string }): Promise<GeneratorRunResult> {
+    if (this.running) throw new Error("Tuning proposal generator already running");
+    this.running = true;
+    const result: GeneratorRunResult = {
+      startedAt: new Date().toISOString(), finishedAt: "", groups: 0, skipped: [], created: [], duplicates: 0,
+    };
+    try {
+      const [rows, shadow, botConfig, existing] = await Promise.all([
+        storage.getAutotuningTradeSamples({ strategyType: options?.strategyType, pair: options?.pair, sinceDays: LOOKBACK_DAYS }),
+        storage.getAiShadowOutcomes({ pair: options?.pair, sinceDays: LOOKBACK_DAYS }).catch(() => []),
+        storage.getBotConfig(),
+        storage.getTuningProposals(),
+      ]);
+
+      const groups = new Map<string, AutotuningTradeSampleRow[]>();
+      for (const r of rows) {
+        const key = `${r.strategyType}::${r.pair}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(r);
+      }
+      result.groups = groups.size;
+
+      const candidates: Array<{ candidate: ProposalCandidate; profileId: number | null; sampleCount: number }> = [];
+      for (const [key, groupRows] of Array.from(groups.entries())) {
+        const [strategyType, pair] = key.split("::");
+        if (groupRows.length < MIN_SAMPLES) {
+          result.skipped.push({ strategyType, pair, reason: `${groupRows.length}/${MIN_SAMPLES} trades cerrados` });
+          continue;
+        }
+        const profile = await storage.getActiveStrategyProfile(strategyType, pair).catch(() => undefined);
+        const profileCfg = (profile?.configJson ?? null) as Record<string, unknown> | null;
+        const botCfg = strategyType === "BOT_SPOT" ? (botConfig as unknown as Record<string, unknown> | undefined) : undefined;
+        const samples = groupRows.map(toReplaySample);
+
+        const baselines: Array<[Exclude<TunableParameter, "minSignals">, number | null]> = [
+          ["takeProfitPercent",   readNumber(profileCfg, "takeProfitPercent")   ?? readNumber(botCfg, "takeProfitPercent")],
+          ["trailingStopPercent", readNumber(profileCfg, "trailingStopPercent") ?? readNumber(botCfg, "trailingStopPercent")],
+          ["spreadMaxPct",        readNumber(profileCfg, "spreadMaxPct")        ?? readNumber(botCfg, "spreadMaxPct")],
+        ];
+        for (const [parameter, current] of baselines) {
+          if (current == null) continue;
+          const c = evaluateParameter(strategyType, pair, parameter, current, samples);
+          if (c) candidates.push({ candidate: c, profileId: profile?.id ?? null, sampleCount: groupRows.length });
+        }
+
+        const minSignals = readNumber(profileCfg, "minSignals") ?? readNumber(profileCfg, "minSignalsRequired");
+        if (strategyType === "BOT_SPOT" && minSignals != null) {
+          const c = await this.evaluateMinSignalsForPair(strategyType, pair, minSignals);
+          if (c) candidates.push({ candidate: c, profileId: profile?.id ?? null, sampleCount: groupRows.length });
+        }
+
+        if (strategyType === "BOT_SPOT") {
+          const pairShadow = shadow.filter(s => s.pair === pair);
+          if (pairShadow.length) {
+            const current = round(pairShadow.reduce((a, s) => a + s.threshold, 0) / pairShadow.length, 2);
+            const aiSamples: ReplaySample[] = pairShadow.map(s => ({ weight: 1, pnl: s.finalPnlNet, aiScore: s.score }));
+            const c = evaluateParameter(strategyType, pair, "aiFilterThreshold", current, aiSamples, "usd");
+            if (c) candidates.push({ candidate: c, profileId: profile?.id ?? null, sampleCount: pairShadow.length });
+          }
+        }
+      }
+
+      for (const { candidate: c, profileId, sampleCount } of candidates) {
+        if (isOpenDuplicate(existing, c)) { result.duplicates++; continue; }
+        const saved = await storage.saveTuningProposal({
+          strategyType: c.strategyType,
+          pair: c.pair,
+          profileId,
+          status: "OBSERVING",
+          parameterChangesJson: { parameter: c.parameter, from: c.from, to: c.to, source: "auto_generator" },
+          metricsBeforeJson: c.before,
+          metricsAfterJson: c.after,
+          confidenceScore: c.confidenceScore.toFixed(2),
+          riskScore: c.riskScore.toFixed(2),
+          recommendation: c.recommendation,
+          sampleCountAtDecision: sampleCount,
+        });
+        existing.push(saved);
+        result.created.push(saved.id);
+      }
+
+      if (result.created.length) {
+        console.log(`[tuning-generator] ${result.created.length} proposal(s) created in OBSERVING (groups=${result.groups}, duplicates=${result.duplicates})`);
+      }
+    } catch (e: any) {
+      result.error = e?.message ?? String(e);
+      throw e;
+    } finally {
+      result.finishedAt = new Date().toISOString();
+      this.lastResult = result;
+      this.running = false;
+    }
+    return result;
+  }
+
+  /**
+   * Counterfactual replay of the pair's stored candles with one minSignals
+   * applied to every regime. Without candles for the pair there is no proposal.
+   */
+  private async evaluateMinSignalsForPair(strategyType: string, pair: string, current: number): Promise<ProposalCandidate | null> {
+    try {
+      const dataset = await signalCounterfactualEngine.loadDataset({ pairs: [pair], days: LOOKBACK_DAYS });
+      return await evaluateMinSignals(strategyType, pair, current, async (value) => {
+        const { metrics } = await runCounterfactual(dataset, { TREND: value, RANGE: value, TRANSITION: value });
+        return replayMetricsFromCounterfactual(metrics);
+      });
+    } catch (e: any) {
+      console.warn(`[tuning-generator] minSignals replay skipped for ${pair}: ${e?.message}`);
+      return null;
+    }
+  }
+}
+
+export const tuningProposalGenerator = TuningProposalGenerator.getInstance();
@@ -0,0 +1,237 @@
+/**
+ * aiTreeEnsemble.test.ts
+ *
+ * In-process evaluator for the exported AI filter model (tree_ensemble_v1),
+ * per-pair / per-regime segment selection, the fs_v2 feature record and the
+ * active-vs-previous shadow comparison summary.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AI_FEATURE_ORDER,
+  featureVector,
+  predictProba,
+  predictSegmentProba,
+  scoreTree,
+  selectSegment,
+  validateTreeEnsemble,
+  type AiDecisionTree,
+  type AiTreeEnsembleModel,
+} from "../ai/treeEnsemble";
+import { AI_FEATURE_SET, buildAiFeatureRecord, normalizeAiRegime } from "../ai/featureSet";
+import { summarizeShadowComparison, type ShadowComparisonRow } from "../ai/shadowComparison";
+import type { AiFeatures } from "../aiService";
+
+function features(overrides: Partial<AiFeatures> = {}): AiFeatures {
+  return {
+    rsi14: 50, macdLine: 0, macdSignal: 0, macdHist: 0,
+    bbUpper: 0, bbMiddle: 0, bbLower: 0, atr14: 0,
+    ema12: 0, ema26: 0, volume24hChange: 0,
+    priceChange1h: 0, priceChange4h: 0, priceChange24h: 0,
+    spreadPct: 0, confidence: 50,
+    ...overrides,
+  };
+}
+
+const RSI = AI_FEATURE_ORDER.indexOf("rsi14");
+const CONF = AI_FEATURE_ORDER.indexOf("confidence");
+
+// rsi14 <= 30 → 0.8 ; else confidence <= 60 → 0.2 ; else 0.6
+const treeA: AiDecisionTree = {
+  feature:   [RSI, -2, CONF, -2, -2],
+  threshold: [30, -2, 60, -2, -2],
+  left:      [1, -1, 3, -1, -1],
+  right:     [2, -1, 4, -1, -1],
+  value:     [0.5, 0.8, 0.4, 0.2, 0.6],
+};
+
+// single leaf
+const treeB: AiDecisionTree = { feature: [-2], threshold: [-2], left: [-1], right: [-1], value: [0.4] };
+
+function model(trees: AiDecisionTree[] = [treeA, treeB]): AiTreeEnsembleModel {
+  return {
+    format: "tree_ensemble_v1",
+    version: "v1",
+    createdAt: "2026-01-01T00:00:00Z",
+    features: [...AI_FEATURE_ORDER],
+    trees,
+  };
+}
+
+describe("treeEnsemble — evaluator", () => {
+  it("walks each tree to its leaf", () => {
+    expect(scoreTree(treeA, featureVector(features({ rsi14: 25 })))).toBe(0.8);
+    expect(scoreTree(treeA, featureVector(features({ rsi14: 45, confidence: 55 })))).toBe(0.2);
+    expect(scoreTree(treeA, featureVector(features({ rsi14: 45, confidence: 75 })))).toBe(0.6);
+  });
+
+  it("averages per-tree probabilities like predict_proba", () => {
+    expect(predictProba(model(), features({ rsi14: 25 }))).toBeCloseTo(0.6, 10);
+    expect(predictProba(model(), features({ rsi14: 45, confidence: 55 }))).toBeCloseTo(0.3, 10);
+  });
+
+  it("compares in float32 like sklearn", () => {
+    // sklearn stores the split as a float64 midpoint that can sit between a
+    // float64 value and its float32 rounding
+    const value = 0.1;
+    const threshold = (Math.fround(value) + value) / 2;
+    const tree: AiDecisionTree = { ...treeA, threshold: [threshold, -2, 60, -2, -2] };
+    expect(value <= threshold).toBe(true);
+    expect(scoreTree(tree, featureVector(features({ rsi14: value, confidence: 75 })))).toBe(0.6);
+  });
+
+  it("replaces non-finite features with the training defaults", () => {
+    const x = featureVector(features({ rsi14: NaN, confidence: Infinity, atr14: NaN }));
+    expect(x[RSI]).toBe(50);
+    expect(x[CONF]).toBe(50);
+    expect(x[AI_FEATURE_ORDER.indexOf("atr14")]).toBe(0);
+  });
+
+  it("uses the feature order declared by the model", () => {
+    const m = { ...model([{ feature: [0, -2, -2], threshold: [60, -2, -2], left: [1, -1, -1], right: [2, -1, -1], value: [0.5, 0.1, 0.9] }]), features: ["confidence"] };
+    expect(validateTreeEnsemble(m)).toBeNull();
+    expect(predictProba(m, features({ confidence: 80 }))).toBe(0.9);
+  });
+});
+
+describe("treeEnsemble — validation", () => {
+  it("accepts a well-formed model", () => {
+    expect(validateTreeEnsemble(model())).toBeNull();
+  });
+
+  it("rejects unknown formats and empty models", () => {
+    expect(validateTreeEnsemble(null)).toContain("objeto");
+    expect(validateTreeEnsemble({ ...model(), format: "sklearn_pickle" })).toContain("Formato");
+    expect(validateTreeEnsemble({ ...model(), trees: [] })).toContain("árboles");
+    expect(validateTreeEnsemble({ ...model(), features: ["rsi14", "funding"] })).toContain("funding");
+  });
+
+  it("rejects trees that could loop or index out of range", () => {
+    const cyclic = { ...treeA, left: [1, -1, 0, -1, -1] };
+    expect(validateTreeEnsemble(model([cyclic]))).toContain("hijos inválidos");
+    const badFeature = { ...treeA, feature: [99, -2, CONF, -2, -2] };
+    expect(validateTreeEnsemble(model([badFeature]))).toContain("feature");
+    const ragged = { ...treeA, value: [0.5, 0.8] };
+    expect(validateTreeEnsemble(model([ragged]))).toContain("longitud");
+    const badLeaf = { ...treeA, value: [0.5, 1.2, 0.4, 0.2, 0.6] };
+    expect(validateTreeEnsemble(model([badLeaf]))).toContain("probabilidad");
+  });
+});
+
+const leaf = (p: number): AiDecisionTree => ({ feature: [-2], threshold: [-2], left: [-1], right: [-1], value: [p] });
+
+function segmented(): AiTreeEnsembleModel {
+  const segment = (key: string, p: number) => {
+    const [pair, regime] = key.split("|");
+    return { key, pair: pair === "*" ? null : pair, regime: regime === "*" ? null : regime, trees: [leaf(p)] };
+  };
+  return {
+    ...model([leaf(0.5)]),
+    segments: [segment("SOL/USD|TREND", 0.9), segment("SOL/USD|*", 0.7), segment("*|RANGE", 0.3)],
+  };
+}
+
+describe("treeEnsemble — segments", () => {
+  it("picks pair+regime, then pair, then regime, then the pooled trees", () => {
+    const m = segmented();
+    expect(selectSegment(m, "SOL/USD", "TREND").key).toBe("SOL/USD|TREND");
+    expect(selectSegment(m, "SOL/USD", "TRANSITION").key).toBe("SOL/USD|*");
+    expect(selectSegment(m, "BTC/USD", "RANGE").key).toBe("*|RANGE");
+    expect(selectSegment(m, "BTC/USD", "TREND").key).toBe("pooled");
+    expect(selectSegment(m, "BTC/USD", "ERROR").key).toBe("pooled");
+    expect(selectSegment(model(), "SOL/USD", "TREND").key).toBe("pooled");
+  });
+
+  it("scores with the selected segment", () => {
+    expect(predictSegmentProba(segmented(), features(), "SOL/USD", "trend")).toEqual({ score: 0.9, segment: "SOL/USD|TREND" });
+    expect(predictSegmentProba(segmented(), features(), null, null)).toEqual({ score: 0.5, segment: "pooled" });
+  });
+
+  it("validates segment trees too", () => {
+    const m = segmented();
+    expect(validateTreeEnsemble(m)).toBeNull();
+    m.segments![1].trees = [{ ...treeA, left: [1, -1, 0, -1, -1] }];
+    expect(validateTreeEnsemble(m)).toContain("Segmento SOL/USD|*");
+    expect(validateTreeEnsemble({ ...model(), segments: [{ trees: [leaf(0.5)] }] })).toContain("clave");
+  });
+
+  it("accepts the fs_v2 context features", () => {
+    const m = { ...model([{ feature: [0, -2, -2], threshold: [0.5, -2, -2], left: [1, -1, -1], right: [2, -1, -1], value: [0.5, 0.2, 0.8] }]), features: ["regimeTrend"] };
+    expect(validateTreeEnsemble(m)).toBeNull();
+    const record = buildAiFeatureRecord(features(), { regime: "TREND" });
+    expect(predictProba(m, record)).toBe(0.8);
+    expect(predictProba(m, features())).toBe(0.2);
+  });
+});
+
+describe("featureSet", () => {
+  it("normalizes detector regimes", () => {
+    expect(normalizeAiRegime("trend")).toBe("TREND");
+    expect(normalizeAiRegime("RANGE")).toBe("RANGE");
+    expect(normalizeAiRegime("ERROR")).toBeNull();
+    expect(normalizeAiRegime(null)).toBeNull();
+  });
+
+  it("builds the full fs_v2 record with regime one-hot and expansion metrics", () => {
+    const record = buildAiFeatureRecord(features({ rsi14: 42 }), {
+      regime: "RANGE",
+      mtfAlignment: 0.7,
+      expansion: {
+        score: 6,
+        metrics: { volumeRatio: 1.8, bodyPct: 0.02, closeLocation: 0.9, priceVsEma20Pct: 0.01, emaSpreadPct: 0.004, upperWickRatio: 0.1 },
+      },
+    });
+    expect(Object.keys(record).sort()).toEqual([...AI_FEATURE_SET].sort());
+    expect(record).toMatchObject({
+      rsi14: 42, regimeTrend: 0, regimeRange: 1, regimeTransition: 0, mtfAlignment: 0.7,
+      expansionAvailable: 1, expansionScore: 6, expansionVolumeRatio: 1.8, expansionUpperWickRatio: 0.1,
+    });
+  });
+
+  it("zeroes the context when regime, MTF or expansion are missing", () => {
+    const record = buildAiFeatureRecord(features(), { regime: "DISABLED", mtfAlignment: NaN, expansion: null });
+    expect(record).toMatchObject({
+      regimeTrend: 0, regimeRange: 0, regimeTransition: 0, mtfAlignment: 0, expansionAvailable: 0, expansionScore: 0,
+    });
+  });
+});
+
+describe("shadowComparison", () => {
+  function row(overrides: Partial<ShadowComparisonRow>): ShadowComparisonRow {
+    return {
+      modelVersion: "v2",
+      compareModelVersion: "v1",
+      score: "0.7000",
+      compareScore: "0.5000",
+      wouldBlock: false,
+      compareWouldBlock: true,
+      finalPnlNet: null,
+      ...overrides,
+    };
+  }
+
+  it("returns null when no decision was scored by both models", () => {
+    expect(summarizeShadowComparison([row({ compareModelVersion: null, compareScore: null, compareWouldBlock: null })])).toBeNull();
+  });
+
+  it("summarizes agreement and outcomes for the latest model pair only", () => {
+    const summary = summarizeShadowComparison([
+      row({ finalPnlNet: "-1.5" }),
+      row({ wouldBlock: true, score: "0.4000", compareScore: "0.4000", finalPnlNet: "-2" }),
+      row({ wouldBlock: true, compareWouldBlock: false, score: "0.5000", compareScore: "0.7000", finalPnlNet: "3" }),
+      row({ modelVersion: "v1", compareModelVersion: "v0" }),
+    ])!;
+
+    expect(summary.modelVersion).toBe("v2");
+    expect(summary.compareModelVersion).toBe("v1");
+    expect(summary.compared).toBe(3);
+    expect(summary.agreement).toBe(1);
+    expect(summary.agreementPct).toBeCloseTo(100 / 3, 6);
+    expect(summary.avgScoreDelta).toBeCloseTo(0, 6);
+    expect(summary.evaluated).toBe(3);
+    expect(summary.activeBlockedLosers).toBe(1);
+    expect(summary.activeBlockedWinners).toBe(1);
+    expect(summary.compareBlockedLosers).toBe(2);
+    expect(summary.compareBlockedWinners).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests para ExchangeStopManager (stops protectores residentes en exchange).
+ *
+ * XS01. Precio de stop: SMART_GUARD (stop dinámico vs SL) y legacy (SL vs trailing)
+ * XS02. syncAll coloca el stop una vez y lo modifica sólo cuando sube ≥ paso mínimo
+ * XS03. Amend falla → cancel + replace
+ * XS04. releaseForExit cancela; si el stop ya se ejecutó, registra la venta y aborta
+ * XS05. FillWatcher detecta el stop ejecutado y cierra el lote
+ * XS06. Reconciliación al arranque: adopta, cierra y descarta
+ * XS07. Sin EXCHANGE_STOPS_ENABLED no hace nada
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    updateOpenPositionByLotId: vi.fn(async () => undefined),
+    getOpenPositions: vi.fn(async () => [] as any[]),
+    insertTradeIgnoreDuplicate: vi.fn(async () => ({ trade: { id: 1 } })),
+    upsertTradeFill: vi.fn(async () => undefined),
+  },
+}));
+
+vi.mock("../../storage", () => ({ storage: mocks.storage }));
+vi.mock("../botLogger", () => ({
+  botLogger: {
+    info: vi.fn().mockResolvedValue(undefined),
+    warn: vi.fn().mockResolvedValue(undefined),
+    error: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+vi.mock("../positionsWebSocket", () => ({ positionsWs: {} }));
+vi.mock("../fifoMatcher", () => ({ fifoMatcher: {} }));
+
+import {
+  ExchangeStopManager,
+  computeProtectiveStopPrice,
+  type IExchangeStopHost,
+} from "../ExchangeStopManager";
+import { stopAllFillWatchers, getProtectiveStopWatcherCount } from "../FillWatcher";
+import type { OpenPosition } from "../exitManager";
+
+const defaults = { stopLossPercent: 5, trailingStopEnabled: true, trailingStopPercent: 2 };
+
+function position(extra: Partial<OpenPosition> = {}): OpenPosition {
+  return {
+    lotId: "lot-1", pair: "BTC/USD", amount: 0.01, entryPrice: 100_000, entryFee: 4,
+    highestPrice: 100_000, openedAt: Date.now(), entryStrategyId: "momentum_cycle", entrySignalTf: "cycle",
+    ...extra,
+  };
+}
+
+function setup() {
+  const positions = new Map<string, OpenPosition>([["lot-1", position()]]);
+  const exchange = {
+    isInitialized: () => true,
+    getPairMetadata: () => ({ pairDecimals: 1, lotDecimals: 8 }),
+    placeStopOrder: vi.fn(async () => ({ success: true, orderId: `STOP-${exchange.placeStopOrder.mock.calls.length}` })),
+    amendStopOrder: vi.fn(async (orderId: string) => ({ success: true, orderId })),
+    cancelOrder: vi.fn(async () => true),
+    getOrderStatus: vi.fn(async (): Promise<any> => null),
+  };
+  const host: IExchangeStopHost = {
+    getOpenPositions: () => positions,
+    getTradingExchange: () => exchange as any,
+    getTradingExchangeType: () => "kraken",
+    isDryRunMode: () => false,
+    onProtectiveStopFilled: vi.fn(async (lotId: string) => { positions.delete(lotId); }),
+  };
+  return { positions, exchange, host, manager: new ExchangeStopManager(host) };
+}
+
+const filled = (orderId: string) => ({
+  orderId, status: "closed", volume: 0.01, filledVolume: 0.01, avgPrice: 94_900, cost: 949, fee: 2.47,
+  closedAt: new Date("2026-10-01T00:00:00Z"),
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.EXCHANGE_STOPS_ENABLED = "true";
+});
+
+afterEach(() => {
+  stopAllFillWatchers();
+  vi.useRealTimers();
+  delete process.env.EXCHANGE_STOPS_ENABLED;
+});
+
+describe("computeProtectiveStopPrice", () => {
+  it("XS01. SMART_GUARD y legacy", () => {
+    const sg = position({ entryMode: "SMART_GUARD", configSnapshot: { stopLossPercent: 4 } as any });
+    expect(computeProtectiveStopPrice(sg, defaults)).toBeCloseTo(96_000);
+    expect(computeProtectiveStopPrice({ ...sg, sgCurrentStopPrice: 100_450 }, defaults)).toBe(100_450);
+
+    expect(computeProtectiveStopPrice(position(), defaults)).toBeCloseTo(95_000);
+    expect(computeProtectiveStopPrice(position({ highestPrice: 110_000 }), defaults)).toBeCloseTo(107_800);
+    expect(computeProtectiveStopPrice(position({ highestPrice: 110_000 }), { ...defaults, trailingStopEnabled: false })).toBeCloseTo(95_000);
+  });
+});
+
+describe("ExchangeStopManager", () => {
+  it("XS02. coloca una vez y sólo modifica al subir el stop", async () => {
+    const { manager, exchange, positions } = setup();
+    await manager.syncAll(defaults);
+    await manager.syncAll(defaults);
+    expect(exchange.placeStopOrder).toHaveBeenCalledTimes(1);
+    expect(exchange.placeStopOrder).toHaveBeenCalledWith({ pair: "BTC/USD", volume: "0.01000000", triggerPrice: "95000.0", limitPrice: undefined });
+    expect(mocks.storage.updateOpenPositionByLotId).toHaveBeenCalledWith("lot-1", expect.objectContaining({ exchangeStopOrderId: "STOP-1", exchangeStopPrice: "95000" }));
+
+    positions.get("lot-1")!.highestPrice = 110_000;
+    await manager.syncAll(defaults);
+    expect(exchange.amendStopOrder).toHaveBeenCalledWith("STOP-1", { volume: "0.01000000", triggerPrice: "107800.0", limitPrice: undefined });
+    expect(manager.getStop("lot-1")).toMatchObject({ orderId: "STOP-1", stopPrice: 107_800 });
+
+    positions.get("lot-1")!.highestPrice = 110_050; // +0.045% < paso mínimo 0.1%
+    await manager.syncAll(defaults);
+    expect(exchange.amendStopOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it("XS03. amend fallido → cancel + replace", async () => {
+    const { manager, exchange, positions } = setup();
+    await manager.syncAll(defaults);
+    exchange.amendStopOrder.mockResolvedValueOnce({ success: false, orderId: "STOP-1", error: "EOrder:Unknown" } as any);
+    positions.get("lot-1")!.highestPrice = 110_000;
+    await manager.syncAll(defaults);
+    expect(exchange.cancelOrder).toHaveBeenCalledWith("STOP-1");
+    expect(manager.getStop("lot-1")?.orderId).toBe("STOP-2");
+  });
+
+  it("XS04. releaseForExit cancela, o aborta si el stop ya vendió", async () => {
+    const { manager, exchange, host } = setup();
+    await manager.syncAll(defaults);
+    expect(await manager.releaseForExit("BTC/USD", "lot-1")).toEqual({ proceed: true, reason: undefined });
+    expect(manager.getStop("lot-1")).toBeUndefined();
+
+    await manager.syncAll(defaults);
+    exchange.cancelOrder.mockResolvedValueOnce(false);
+    exchange.getOrderStatus.mockResolvedValueOnce(filled("STOP-2"));
+    const release = await manager.releaseForExit("BTC/USD");
+    expect(release).toEqual({ proceed: false, reason: "EXCHANGE_STOP_ALREADY_FILLED" });
+    expect(mocks.storage.insertTradeIgnoreDuplicate).toHaveBeenCalledWith(expect.objectContaining({
+      tradeId: "STOP-2", type: "sell", amount: "0.01000000", executedByBot: true,
+    }));
+    const pnl = (94_900 - 100_000) * 0.01 - 4 - 2.47;
+    expect(host.onProtectiveStopFilled).toHaveBeenCalledWith("lot-1", expect.objectContaining({ avgPrice: 94_900 }));
+    expect((host.onProtectiveStopFilled as any).mock.calls[0][1].pnlUsd).toBeCloseTo(pnl);
+  });
+
+  it("XS05. FillWatcher detecta el stop ejecutado y cierra el lote", async () => {
+    vi.useFakeTimers();
+    const { manager, exchange, host, positions } = setup();
+    await manager.syncAll(defaults);
+    expect(getProtectiveStopWatcherCount()).toBe(1);
+
+    exchange.getOrderStatus.mockResolvedValue({ ...filled("STOP-1"), status: "open", filledVolume: 0 });
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(host.onProtectiveStopFilled).not.toHaveBeenCalled();
+
+    exchange.getOrderStatus.mockResolvedValue(filled("STOP-1"));
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(host.onProtectiveStopFilled).toHaveBeenCalledTimes(1);
+    expect(positions.has("lot-1")).toBe(false);
+    expect(getProtectiveStopWatcherCount()).toBe(0);
+    expect(mocks.storage.upsertTradeFill).toHaveBeenCalledWith(expect.objectContaining({ txid: "STOP-1", fee: "2.47000000" }));
+  });
+
+  it("XS06. reconciliación al arranque", async () => {
+    const { manager, exchange, positions, host } = setup();
+    positions.set("lot-2", position({ lotId: "lot-2" }));
+    positions.set("lot-3", position({ lotId: "lot-3" }));
+    mocks.storage.getOpenPositions.mockResolvedValueOnce([
+      { lotId: "lot-1", pair: "BTC/USD", amount: "0.01", exchangeStopOrderId: "S-OPEN", exchangeStopPrice: "95000" },
+      { lotId: "lot-2", pair: "BTC/USD", amount: "0.01", exchangeStopOrderId: "S-FILLED", exchangeStopPrice: "95000" },
+      { lotId: "lot-3", pair: "BTC/USD", amount: "0.01", exchangeStopOrderId: "S-GONE", exchangeStopPrice: "95000" },
+    ]);
+    exchange.getOrderStatus.mockImplementation(async (id: string) =>
+      id === "S-OPEN" ? { ...filled(id), status: "open", filledVolume: 0 }
+        : id === "S-FILLED" ? filled(id)
+          : { ...filled(id), status: "canceled", filledVolume: 0 });
+
+    expect(await manager.reconcileOnStartup()).toEqual({ adopted: 1, filled: 1, cleared: 1 });
+    expect(manager.getStop("lot-1")?.orderId).toBe("S-OPEN");
+    expect(host.onProtectiveStopFilled).toHaveBeenCalledWith("lot-2", expect.anything());
+    expect(manager.getStop("lot-3")).toBeUndefined();
+
+    // El lote sin stop se vuelve a proteger en el siguiente ciclo
+    await manager.syncAll(defaults);
+    expect(exchange.placeStopOrder).toHaveBeenCalledTimes(1);
+    expect(manager.getStop("lot-3")).toBeDefined();
+  });
+
+  it("XS07. inactivo sin flag", async () => {
+    delete process.env.EXCHANGE_STOPS_ENABLED;
+    const { manager, exchange } = setup();
+    await manager.syncAll(defaults);
+    expect(exchange.placeStopOrder).not.toHaveBeenCalled();
+    expect(await manager.releaseForExit("BTC/USD")).toEqual({ proceed: true });
+  });
+});
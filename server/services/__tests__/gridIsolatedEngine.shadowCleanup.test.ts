@@ -123,16 +123,19 @@ vi.mock("../../db", () => {
       }),
       where: vi.fn().mockReturnThis(),
       orderBy: vi.fn().mockReturnThis(),
-      limit: vi.fn().mockImplementation(async (n: number) => {
-        // Return data based on which table mock object was passed
-        // Since schema is mocked, we identify by the mock object reference
-        if (tableRef && tableRef.__mockTable === "cycles") return currentCycles;
-        if (tableRef && tableRef.__mockTable === "levels") return currentLevels;
-        if (tableRef && tableRef.__mockTable === "range") return mockRangeRows;
-        if (tableRef && tableRef.__mockTable === "config") return mockConfigRows;
-        if (tableRef && tableRef.__mockTable === "events") return [];
-        return [];
-      }),
+      limit: vi.fn().mockImplementation(async (n: number) => rows()),
+      // Queries that end in .where() (no .limit) are awaited directly
+      then: (resolve: (v: any) => any, reject?: (e: any) => any) => Promise.resolve(rows()).then(resolve, reject),
+    };
+    // Return data based on which table mock object was passed
+    // Since schema is mocked, we identify by the mock object reference
+    const rows = (): any[] => {
+      if (tableRef && tableRef.__mockTable === "cycles") return currentCycles;
+      if (tableRef && tableRef.__mockTable === "levels") return currentLevels;
+      if (tableRef && tableRef.__mockTable === "range") return mockRangeRows;
+      if (tableRef && tableRef.__mockTable === "config") return mockConfigRows;
+      if (tableRef && tableRef.__mockTable === "events") return [];
+      return [];
     };
     return chainable;
   });
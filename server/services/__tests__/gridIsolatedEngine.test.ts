@@ -11,8 +11,14 @@ vi.mock("../../db", () => ({
     select: vi.fn().mockReturnValue({
       from: vi.fn().mockReturnValue({
         limit: vi.fn().mockResolvedValue([]),
+        orderBy: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue([]),
+        }),
         where: vi.fn().mockReturnValue({
           limit: vi.fn().mockResolvedValue([]),
+          orderBy: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([]),
+          }),
         }),
       }),
     }),
@@ -31,6 +31,12 @@ vi.mock("@shared/schema", () => ({
   exchangeBalanceSnapshots: {},
 }));
 
+vi.mock("../portfolio/PortfolioIntegrationAdapter", () => ({
+  portfolioIntegrationAdapter: {
+    checkRisk: vi.fn().mockResolvedValue({ allowed: true, breaches: [], reason: null }),
+  },
+}));
+
 import { gridExecutionService } from "../gridIsolated/gridExecutionService";
 import { gridReconciliationRunner } from "../gridIsolated/gridReconciliationRunner";
 import { gridRiskManager } from "../gridIsolated/gridRiskManager";
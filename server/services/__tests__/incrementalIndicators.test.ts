@@ -0,0 +1,304 @@
+/**
+ * Tests for the incremental indicator library: published / hand-computed
+ * reference values, and equality with naive full-array recomputation.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  IncrementalRsi,
+  StochRsi,
+  Supertrend,
+  KeltnerChannels,
+  DonchianChannels,
+  Ichimoku,
+  Vwap,
+  Obv,
+  VolumeProfile,
+  IndicatorSet,
+  IncrementalIndicatorStore,
+  computeIndicatorSnapshot,
+  type IndicatorCandle,
+} from "../incrementalIndicators";
+
+const HOUR = 3600;
+
+/** Deterministic random walk (LCG) with trend changes, times in epoch seconds. */
+function makeCandles(count: number, seed = 7): IndicatorCandle[] {
+  let state = seed;
+  const rnd = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  const candles: IndicatorCandle[] = [];
+  let price = 100;
+  for (let i = 0; i < count; i++) {
+    const drift = Math.sin(i / 15) * 0.4;
+    const open = price;
+    const close = Math.max(1, open + drift + (rnd() - 0.5) * 2);
+    const high = Math.max(open, close) + rnd();
+    const low = Math.min(open, close) - rnd();
+    candles.push({ time: 1_700_000_000 + i * HOUR, open, high, low, close, volume: 100 + Math.round(rnd() * 900) });
+    price = close;
+  }
+  return candles;
+}
+
+// ─── Naive references ──────────────────────────────────────────────────────────
+
+function wilder(values: number[], period: number): Array<number | null> {
+  const out: Array<number | null> = [];
+  let avg: number | null = null;
+  for (let i = 0; i < values.length; i++) {
+    if (i + 1 < period) out.push(null);
+    else if (i + 1 === period) out.push(avg = values.slice(0, period).reduce((a, b) => a + b, 0) / period);
+    else out.push(avg = (avg! * (period - 1) + values[i]) / period);
+  }
+  return out;
+}
+
+function trueRanges(c: IndicatorCandle[]): number[] {
+  return c.map((x, i) => i === 0
+    ? x.high - x.low
+    : Math.max(x.high - x.low, Math.abs(x.high - c[i - 1].close), Math.abs(x.low - c[i - 1].close)));
+}
+
+function sma(values: number[], period: number, end: number): number {
+  return values.slice(end - period + 1, end + 1).reduce((a, b) => a + b, 0) / period;
+}
+
+function naiveRsi(closes: number[], period: number): Array<number | null> {
+  const changes = closes.slice(1).map((c, i) => c - closes[i]);
+  const gains = wilder(changes.map(c => Math.max(c, 0)), period);
+  const losses = wilder(changes.map(c => Math.max(-c, 0)), period);
+  return [null, ...gains.map((g, i) => g === null ? null : losses[i] === 0 ? 100 : 100 - 100 / (1 + g / losses[i]!))];
+}
+
+function feed<T>(ind: { update(c: IndicatorCandle): void; value(): T | null }, candles: IndicatorCandle[]): Array<T | null> {
+  return candles.map(c => {
+    ind.update(c);
+    return ind.value();
+  });
+}
+
+const candles = makeCandles(300);
+
+// ─── Oscillators ───────────────────────────────────────────────────────────────
+
+describe("IncrementalRsi / StochRsi", () => {
+  it("matches the Wilder RSI reference series (StockCharts example closes)", () => {
+    const closes = [44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+      45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64];
+    const rsi = new IncrementalRsi(14);
+    const values = closes.map(c => rsi.push(c));
+    expect(values.slice(0, 14).every(v => v === null)).toBe(true);
+    const expected = [70.46, 66.25, 66.48, 69.35, 66.29, 57.92];
+    values.slice(14).forEach((v, i) => expect(v!).toBeCloseTo(expected[i], 2));
+  });
+
+  it("Stoch RSI equals a full recomputation at every candle", () => {
+    const rsi = naiveRsi(candles.map(c => c.close), 14);
+    const raw: Array<number | null> = rsi.map((r, i) => {
+      if (r === null || i < 14 + 13) return null;
+      const win = rsi.slice(i - 13, i + 1) as number[];
+      const hi = Math.max(...win);
+      const lo = Math.min(...win);
+      return hi > lo ? ((r - lo) / (hi - lo)) * 100 : 50;
+    });
+    const firstRaw = raw.findIndex(v => v !== null);
+    const stoch = feed(new StochRsi(), candles);
+
+    for (let i = firstRaw + 4; i < candles.length; i += 17) {
+      const k = sma(raw as number[], 3, i);
+      const d = (sma(raw as number[], 3, i) + sma(raw as number[], 3, i - 1) + sma(raw as number[], 3, i - 2)) / 3;
+      expect(stoch[i]!.rsi).toBeCloseTo(rsi[i]!, 9);
+      expect(stoch[i]!.k).toBeCloseTo(k, 9);
+      expect(stoch[i]!.d).toBeCloseTo(d, 9);
+    }
+    // Warm-up: 14 RSI + 13 stoch + 2 %K + 2 %D
+    expect(stoch[firstRaw + 3]).toBeNull();
+    expect(stoch[firstRaw + 4]).not.toBeNull();
+  });
+});
+
+// ─── Trend / channels ─────────────────────────────────────────────────────────
+
+describe("Supertrend", () => {
+  it("matches a batch implementation of the TradingView algorithm", () => {
+    const atr = wilder(trueRanges(candles), 10);
+    let up: number | null = null;
+    let dn: number | null = null;
+    let dir: "up" | "down" = "down";
+    const st = feed(new Supertrend(10, 3), candles);
+
+    for (let i = 1; i < candles.length; i++) {
+      if (atr[i] === null) continue;
+      const c = candles[i];
+      const hl2 = (c.high + c.low) / 2;
+      let u = hl2 + 3 * atr[i]!;
+      let l = hl2 - 3 * atr[i]!;
+      const prevClose = candles[i - 1].close;
+      if (up !== null) {
+        if (!(u < up || prevClose > up)) u = up;
+        if (!(l > dn! || prevClose < dn!)) l = dn!;
+        dir = dir === "down" ? (c.close > u ? "up" : "down") : (c.close < l ? "down" : "up");
+      }
+      up = u;
+      dn = l;
+      expect(st[i]!.direction).toBe(dir);
+      expect(st[i]!.value).toBeCloseTo(dir === "up" ? l : u, 9);
+    }
+    expect(st.filter(v => v?.flipped).length).toBeGreaterThan(1);
+  });
+
+  it("follows a steady uptrend", () => {
+    const rising = Array.from({ length: 40 }, (_, i) => ({
+      time: i * HOUR, open: 100 + i, high: 101.5 + i, low: 99.5 + i, close: 101 + i, volume: 1,
+    }));
+    const st = new Supertrend(10, 3);
+    rising.forEach(c => st.update(c));
+    expect(st.value()!.direction).toBe("up");
+    expect(st.value()!.value).toBeLessThan(rising[rising.length - 1].low);
+  });
+});
+
+describe("Keltner / Donchian / Ichimoku", () => {
+  it("Keltner = SMA-seeded EMA(20) ± 2 × Wilder ATR(10)", () => {
+    const closes = candles.map(c => c.close);
+    const atr = wilder(trueRanges(candles), 10);
+    let ema = sma(closes, 20, 19);
+    const kc = feed(new KeltnerChannels(20, 10, 2), candles);
+    expect(kc[18]).toBeNull();
+    for (let i = 19; i < candles.length; i++) {
+      if (i > 19) ema = (closes[i] - ema) * (2 / 21) + ema;
+      expect(kc[i]!.middle).toBeCloseTo(ema, 9);
+      expect(kc[i]!.upper).toBeCloseTo(ema + 2 * atr[i]!, 9);
+      expect(kc[i]!.lower).toBeCloseTo(ema - 2 * atr[i]!, 9);
+    }
+  });
+
+  it("Donchian = highest high / lowest low of the window", () => {
+    const dc = feed(new DonchianChannels(20), candles);
+    expect(dc[18]).toBeNull();
+    for (let i = 19; i < candles.length; i++) {
+      const win = candles.slice(i - 19, i + 1);
+      expect(dc[i]!.upper).toBe(Math.max(...win.map(c => c.high)));
+      expect(dc[i]!.lower).toBe(Math.min(...win.map(c => c.low)));
+    }
+  });
+
+  it("Ichimoku lines and the displaced cloud", () => {
+    const mid = (from: number, to: number) => {
+      const win = candles.slice(from, to + 1);
+      return (Math.max(...win.map(c => c.high)) + Math.min(...win.map(c => c.low))) / 2;
+    };
+    const ichi = feed(new Ichimoku(), candles);
+    expect(ichi[50]).toBeNull();
+    expect(ichi[51]!.cloudTop).toBeNull();
+
+    for (const i of [51, 77, 120, 299]) {
+      const tenkan = mid(i - 8, i);
+      const kijun = mid(i - 25, i);
+      expect(ichi[i]!.tenkan).toBeCloseTo(tenkan, 9);
+      expect(ichi[i]!.kijun).toBeCloseTo(kijun, 9);
+      expect(ichi[i]!.senkouB).toBeCloseTo(mid(i - 51, i), 9);
+      expect(ichi[i]!.tkBullish).toBe(tenkan > kijun);
+    }
+    // Cloud under candle i = spans computed at i - 26
+    const i = 200;
+    const a = (mid(i - 26 - 8, i - 26) + mid(i - 26 - 25, i - 26)) / 2;
+    const b = mid(i - 26 - 51, i - 26);
+    expect(ichi[i]!.cloudTop).toBeCloseTo(Math.max(a, b), 9);
+    expect(ichi[i]!.cloudBottom).toBeCloseTo(Math.min(a, b), 9);
+  });
+});
+
+// ─── Volume ────────────────────────────────────────────────────────────────────
+
+describe("Vwap / Obv / VolumeProfile", () => {
+  const day = Date.UTC(2026, 0, 5) / 1000;
+
+  it("session VWAP accumulates hlc3 × volume and resets at the UTC day", () => {
+    const vwap = new Vwap();
+    vwap.update({ time: day + 22 * HOUR, high: 11, low: 9, close: 10, volume: 1 });
+    vwap.update({ time: day + 23 * HOUR, high: 13, low: 11, close: 12, volume: 3 });
+    // (10×1 + 12×3) / 4 = 11.5; variance = (100 + 432)/4 - 11.5² = 0.75
+    expect(vwap.value()!.vwap).toBeCloseTo(11.5, 12);
+    expect(vwap.value()!.stdDev).toBeCloseTo(Math.sqrt(0.75), 12);
+    expect(vwap.value()!.candles).toBe(2);
+
+    vwap.update({ time: day + 24 * HOUR, high: 21, low: 19, close: 20, volume: 2 });
+    expect(vwap.value()!.vwap).toBe(20);
+    expect(vwap.value()!.startedAt).toBe((day + 24 * HOUR) * 1000);
+  });
+
+  it("anchored VWAP ignores candles before the anchor (ms or seconds)", () => {
+    const vwap = new Vwap({ kind: "anchored", anchorTime: (day + HOUR) * 1000 });
+    vwap.update({ time: day, high: 100, low: 100, close: 100, volume: 50 });
+    expect(vwap.value()).toBeNull();
+    vwap.update({ time: day + HOUR, high: 10, low: 10, close: 10, volume: 1 });
+    vwap.update({ time: day + 30 * HOUR, high: 16, low: 16, close: 16, volume: 1 });
+    expect(vwap.value()!.vwap).toBe(13);
+  });
+
+  it("OBV adds / subtracts volume by close direction", () => {
+    const obv = new Obv(2);
+    const closes = [10, 11, 11, 9, 12];
+    const volumes = [5, 7, 3, 4, 6];
+    const out = closes.map((close, i) => {
+      obv.update({ time: i, high: close, low: close, close, volume: volumes[i] });
+      return obv.value();
+    });
+    // obv: 0, 7, 7, 3, 9
+    expect(out[1]).toBeNull();
+    expect(out[2]).toEqual({ obv: 7, change: 7, trend: "up" });
+    expect(out[3]).toEqual({ obv: 3, change: -4, trend: "down" });
+    expect(out[4]).toEqual({ obv: 9, change: 2, trend: "up" });
+  });
+
+  it("volume profile finds the POC and the 70% value area", () => {
+    const vp = new VolumeProfile(5, 5, 0.7);
+    // Range 100–110 → 2-wide bins; typical price = close (flat candles inside the range)
+    const rows = [[100, 110, 105, 50], [101, 101, 101, 10], [103, 103, 103, 20], [107, 107, 107, 15], [109, 109, 109, 5]];
+    rows.forEach(([low, high, close, volume], i) => vp.update({ time: i, high, low, close, volume }));
+    const v = vp.value()!;
+    // bins: [100,102)=10 [102,104)=20 [104,106)=50 [106,108)=15 [108,110]=5; total 100
+    expect(v.bins.map(b => b.volume)).toEqual([10, 20, 50, 15, 5]);
+    expect(v.poc).toBe(105);
+    // 50 → +20 (below, heavier) = 70 ≥ 70
+    expect(v.valueAreaLow).toBe(102);
+    expect(v.valueAreaHigh).toBe(106);
+  });
+});
+
+// ─── IndicatorSet / store ──────────────────────────────────────────────────────
+
+describe("IndicatorSet", () => {
+  it("incremental ingestion equals a one-shot computation", () => {
+    const set = new IndicatorSet();
+    for (let end = 50; end <= candles.length; end += 50) {
+      set.ingest(candles.slice(0, end));
+    }
+    expect(set.snapshot()).toEqual(computeIndicatorSnapshot(candles));
+    expect(set.snapshot().candles).toBe(candles.length);
+  });
+
+  it("the store only feeds candles newer than the last one", () => {
+    const store = new IncrementalIndicatorStore();
+    store.sync("BTC/USD:1h", candles.slice(0, 200));
+    const set = store.get("BTC/USD:1h")!;
+    expect(set.ingest(candles.slice(150, 210))).toBe(10);
+    expect(set.ingest(candles.slice(150, 210))).toBe(0);
+
+    const snap = store.sync("BTC/USD:1h", candles.slice(-100));
+    expect(snap.candles).toBe(300);
+    expect(snap.lastTime).toBe(candles[299].time);
+    expect(snap.priceVsVwapPct).toBeCloseTo(((candles[299].close - snap.vwap!.vwap) / snap.vwap!.vwap) * 100, 10);
+  });
+
+  it("rebuilds when the series goes backwards", () => {
+    const set = new IndicatorSet();
+    set.ingest(candles);
+    set.ingest(candles.slice(0, 120));
+    expect(set.snapshot()).toEqual(computeIndicatorSnapshot(candles.slice(0, 120)));
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests para KrakenMarketStream contra un servidor WS local.
+ *
+ * KWS01. Suscribe ticker/trade/ohlc para los pares configurados
+ * KWS02. ticker y trade actualizan la caché de precios de MarketDataService
+ * KWS03. ohlc: misma vela → reemplaza; siguiente intervalo → añade
+ * KWS04. ohlc que salta intervalos → backfill REST
+ * KWS05. Reconexión tras caída + resuscripción + backfill de huecos
+ * KWS06. Símbolos WS (XBT/USD) → par del bot; getStreamTicker sólo con datos del stream
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { WebSocketServer, WebSocket } from "ws";
+import type { AddressInfo } from "net";
+
+vi.mock("../marketData/MarketCandleRepository", () => ({
+  MarketCandleRepository: {
+    upsertCandles: vi.fn(async () => 0),
+    getRecentCandles: vi.fn(async () => []),
+    deleteOldCandles: vi.fn(async () => 0),
+  },
+}));
+
+import { MarketDataService } from "../MarketDataService";
+import { KrakenMarketStream, normalizeStreamPair } from "../marketData/KrakenMarketStream";
+import type { OHLC } from "../exchanges/IExchangeService";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error("waitFor timeout");
+    await new Promise(r => setTimeout(r, 10));
+  }
+}
+
+function candlesFrom(startSec: number, n: number, intervalSec: number): OHLC[] {
+  return Array.from({ length: n }, (_, i) => ({
+    time: startSec + i * intervalSec, open: 100, high: 101, low: 99, close: 100 + i, volume: 1,
+  }));
+}
+
+function ohlcMsg(pair: string, interval: number, beginSec: number, close: number) {
+  return JSON.stringify({
+    channel: "ohlc",
+    type: "update",
+    data: [{
+      symbol: pair, open: 100, high: close + 1, low: 99, close, volume: 2.5, trades: 10,
+      interval_begin: new Date(beginSec * 1000).toISOString(), interval, timestamp: new Date().toISOString(),
+    }],
+  });
+}
+
+let server: WebSocketServer;
+let url: string;
+let sockets: WebSocket[];
+let received: any[];
+let stream: KrakenMarketStream | null;
+
+beforeEach(async () => {
+  MarketDataService.clearAll();
+  sockets = [];
+  received = [];
+  stream = null;
+  server = new WebSocketServer({ port: 0 });
+  await new Promise<void>(r => server.once("listening", () => r()));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  server.on("connection", (ws) => {
+    sockets.push(ws);
+    ws.on("message", (raw) => received.push(JSON.parse(raw.toString())));
+  });
+});
+
+afterEach(async () => {
+  stream?.stop();
+  for (const ws of sockets) ws.terminate();
+  await new Promise<void>(r => server.close(() => r()));
+  vi.restoreAllMocks();
+});
+
+function startStream(overrides: Partial<ConstructorParameters<typeof KrakenMarketStream>[0]> = {}) {
+  stream = new KrakenMarketStream({ url, pairs: ["BTC/USD"], ohlcIntervals: [5], reconnectBaseMs: 20, ...overrides });
+  stream.start();
+  return stream;
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("KrakenMarketStream", () => {
+  it("KWS01. suscribe ticker, trade y ohlc por par", async () => {
+    startStream({ pairs: ["BTC/USD", "ETH/USD"], ohlcIntervals: [5, 60] });
+    await waitFor(() => received.length >= 4);
+
+    const channels = received.map(m => `${m.params.channel}${m.params.interval ? `:${m.params.interval}` : ""}`);
+    expect(channels).toEqual(["ticker", "trade", "ohlc:5", "ohlc:60"]);
+    expect(received.every(m => m.method === "subscribe")).toBe(true);
+    expect(received[0].params.symbol).toEqual(["BTC/USD", "ETH/USD"]);
+  });
+
+  it("KWS02. ticker y trade actualizan la caché de precios", async () => {
+    const s = startStream();
+    await waitFor(() => sockets.length === 1 && s.isConnected());
+
+    sockets[0].send(JSON.stringify({ channel: "ticker", type: "update", data: [{ symbol: "BTC/USD", bid: 99990, ask: 100010, last: 100000, volume: 1234 }] }));
+    await waitFor(() => s.getStatus().messages.ticker === 1);
+    expect(await MarketDataService.getTicker("BTC/USD")).toEqual({ bid: 99990, ask: 100010, last: 100000, volume24h: 1234 });
+
+    sockets[0].send(JSON.stringify({ channel: "trade", type: "update", data: [{ symbol: "BTC/USD", side: "sell", price: 100050, qty: 0.1, timestamp: "2026-01-01T00:00:00Z" }] }));
+    await waitFor(() => s.getStatus().messages.trade === 1);
+    const ticker = await MarketDataService.getTicker("BTC/USD");
+    expect(ticker?.last).toBe(100050);
+    expect(ticker?.bid).toBe(99990);
+  });
+
+  it("KWS03. ohlc reemplaza la vela en formación y añade la siguiente", async () => {
+    const start = 1_767_225_600; // 2026-01-01T00:00:00Z
+    MarketDataService.putCandles("BTC/USD", "5m", candlesFrom(start, 10, 300));
+    const s = startStream();
+    await waitFor(() => sockets.length === 1 && s.isConnected());
+
+    const lastTime = start + 9 * 300;
+    sockets[0].send(ohlcMsg("BTC/USD", 5, lastTime, 150));
+    sockets[0].send(ohlcMsg("BTC/USD", 5, lastTime + 300, 151));
+    await waitFor(() => s.getStatus().messages.ohlc === 2);
+
+    const candles = await MarketDataService.getCandles("BTC/USD", "5m");
+    expect(candles).toHaveLength(11);
+    expect(candles[9].close).toBe(150);
+    expect(candles[10]).toMatchObject({ time: lastTime + 300, close: 151, volume: 2.5 });
+  });
+
+  it("KWS04. una vela que salta intervalos dispara backfill REST", async () => {
+    const start = 1_767_225_600;
+    MarketDataService.putCandles("BTC/USD", "5m", candlesFrom(start, 10, 300));
+    const refresh = vi.spyOn(MarketDataService, "refreshCandles").mockResolvedValue([]);
+    const s = startStream();
+    await waitFor(() => sockets.length === 1 && s.isConnected());
+
+    sockets[0].send(ohlcMsg("BTC/USD", 5, start + 12 * 300, 160));
+    await waitFor(() => refresh.mock.calls.length === 1);
+    expect(refresh).toHaveBeenCalledWith("BTC/USD", "5m");
+    expect((await MarketDataService.getCandles("BTC/USD", "5m"))).toHaveLength(10);
+  });
+
+  it("KWS05. reconecta, vuelve a suscribir y rellena huecos", async () => {
+    const refresh = vi.spyOn(MarketDataService, "refreshCandles").mockResolvedValue([]);
+    const s = startStream();
+    await waitFor(() => sockets.length === 1 && s.isConnected());
+    expect(refresh).not.toHaveBeenCalled();
+
+    sockets[0].terminate();
+    await waitFor(() => sockets.length === 2 && s.isConnected());
+    await waitFor(() => received.filter(m => m.params.channel === "ticker").length === 2);
+
+    expect(s.getStatus().reconnects).toBe(1);
+    expect(refresh).toHaveBeenCalledWith("BTC/USD", "5m");
+  });
+
+  it("KWS06. normaliza símbolos WS al par del bot y marca el ticker como del stream", async () => {
+    expect(normalizeStreamPair("XBT/USD")).toBe("BTC/USD");
+    expect(normalizeStreamPair("xdg/eur")).toBe("DOGE/EUR");
+    expect(normalizeStreamPair("BTCUSD")).toBe("");
+
+    MarketDataService.putPrice("ETH/USD", 3000);
+    expect(MarketDataService.getStreamTicker("ETH/USD", 5000)).toBeNull();
+
+    const s = startStream();
+    const events: string[] = [];
+    s.on("ticker", (pair: string) => events.push(pair));
+    await waitFor(() => sockets.length === 1 && s.isConnected());
+
+    sockets[0].send(JSON.stringify({ channel: "ticker", type: "update", data: [{ symbol: "XBT/USD", bid: 99990, ask: 100010, last: 100000 }] }));
+    await waitFor(() => s.getStatus().messages.ticker === 1);
+
+    expect(events).toEqual(["BTC/USD"]);
+    expect(MarketDataService.getStreamTicker("BTC/USD", 5000)?.last).toBe(100000);
+    expect(MarketDataService.getStreamTicker("BTC/USD", 0)).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests del exportador de métricas.
+ *
+ * MR01. Counter / Gauge en formato Prometheus 0.0.4 y OpenMetrics 1.0
+ * MR02. Histogram: buckets acumulados, +Inf, _sum y _count
+ * MR03. Escapado de labels y validación de nombres
+ * MR04. Collectors: se ejecutan en cada scrape y un fallo no rompe el render
+ * MR05. observeEngineTick / observeOrder / recordReconciliation
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  MetricsRegistry,
+  negotiateMetricsFormat,
+  contentTypeFor,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+} from "../metrics/metricsRegistry";
+import {
+  observeEngineTick,
+  observeOrder,
+  recordReconciliation,
+  engineTickDuration,
+  engineTickErrors,
+  exchangeOrders,
+  reconciliationDrift,
+  reconciliationDiscrepancies,
+} from "../metrics/appMetrics";
+
+describe("MR01 — Counter y Gauge", () => {
+  it("Prometheus: la familia del counter lleva _total", async () => {
+    const reg = new MetricsRegistry();
+    const c = reg.counter({ name: "orders", help: "Órdenes", labelNames: ["exchange"] });
+    const g = reg.gauge({ name: "queue_length", help: "Cola" });
+    c.inc({ exchange: "kraken" });
+    c.inc({ exchange: "kraken" }, 2);
+    g.set({}, 7);
+
+    const text = await reg.render("prometheus");
+    expect(text).toContain("# TYPE orders_total counter");
+    expect(text).toContain('orders_total{exchange="kraken"} 3');
+    expect(text).toContain("# TYPE queue_length gauge");
+    expect(text).toContain("queue_length 7");
+    expect(text).not.toContain("# EOF");
+  });
+
+  it("OpenMetrics: familia sin _total, muestra con _total y # EOF final", async () => {
+    const reg = new MetricsRegistry();
+    reg.counter({ name: "orders", help: "Órdenes" }).inc();
+    const text = await reg.render("openmetrics");
+    expect(text).toContain("# TYPE orders counter");
+    expect(text).toContain("orders_total 1");
+    expect(text.endsWith("# EOF\n")).toBe(true);
+  });
+
+  it("negocia el formato por Accept", () => {
+    expect(negotiateMetricsFormat("application/openmetrics-text;version=1.0.0,text/plain;q=0.5")).toBe("openmetrics");
+    expect(negotiateMetricsFormat("text/plain")).toBe("prometheus");
+    expect(negotiateMetricsFormat(undefined)).toBe("prometheus");
+    expect(contentTypeFor("openmetrics")).toBe(OPENMETRICS_CONTENT_TYPE);
+    expect(contentTypeFor("prometheus")).toBe(PROMETHEUS_CONTENT_TYPE);
+  });
+
+  it("un counter no puede decrecer", () => {
+    const c = new MetricsRegistry().counter({ name: "x", help: "x" });
+    expect(() => c.inc({}, -1)).toThrow();
+  });
+});
+
+describe("MR02 — Histogram", () => {
+  it("buckets acumulados con +Inf, _sum y _count", async () => {
+    const reg = new MetricsRegistry();
+    const h = reg.histogram({ name: "tick_seconds", help: "Tick", labelNames: ["engine"], buckets: [1, 0.1] });
+    h.observe({ engine: "idca" }, 0.05);
+    h.observe({ engine: "idca" }, 0.5);
+    h.observe({ engine: "idca" }, 3);
+
+    const text = await reg.render("prometheus");
+    expect(text).toContain('tick_seconds_bucket{engine="idca",le="0.1"} 1');
+    expect(text).toContain('tick_seconds_bucket{engine="idca",le="1"} 2');
+    expect(text).toContain('tick_seconds_bucket{engine="idca",le="+Inf"} 3');
+    expect(text).toContain('tick_seconds_sum{engine="idca"} 3.55');
+    expect(text).toContain('tick_seconds_count{engine="idca"} 3');
+  });
+
+  it("startTimer registra la duración", () => {
+    const h = new MetricsRegistry().histogram({ name: "t", help: "t" });
+    const seconds = h.startTimer()();
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(h.getCount()).toBe(1);
+  });
+});
+
+describe("MR03 — Escapado y validación", () => {
+  it("escapa comillas, barras y saltos de línea en los labels", async () => {
+    const reg = new MetricsRegistry();
+    reg.gauge({ name: "g", help: "g", labelNames: ["v"] }).set({ v: 'a"b\\c\nd' }, 1);
+    expect(await reg.render("prometheus")).toContain('g{v="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it("rechaza nombres inválidos, labels desconocidos y duplicados", () => {
+    const reg = new MetricsRegistry();
+    expect(() => reg.gauge({ name: "bad-name", help: "" })).toThrow();
+    expect(() => reg.counter({ name: "x_total", help: "" })).toThrow();
+    expect(() => reg.histogram({ name: "h", help: "", labelNames: ["le"] })).toThrow();
+    const g = reg.gauge({ name: "ok", help: "", labelNames: ["a"] });
+    expect(() => g.set({ b: "1" }, 1)).toThrow();
+    expect(() => reg.gauge({ name: "ok", help: "" })).toThrow();
+  });
+});
+
+describe("MR04 — Collectors", () => {
+  it("se ejecutan en cada scrape; uno que falla no impide renderizar el resto", async () => {
+    const reg = new MetricsRegistry();
+    const g = reg.gauge({ name: "scrapes", help: "s" });
+    let n = 0;
+    reg.registerCollector("ok", () => { g.set({}, ++n); });
+    reg.registerCollector("broken", async () => { throw new Error("db down"); });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    expect(await reg.collect()).toEqual(["broken"]);
+    const text = await reg.render("prometheus");
+    expect(text).toContain("scrapes 2");
+    warn.mockRestore();
+  });
+});
+
+describe("MR05 — Instrumentación del bot", () => {
+  it("observeEngineTick mide el tick y cuenta los errores sin tragárselos", async () => {
+    const before = engineTickDuration.getCount({ engine: "grid" });
+    await observeEngineTick("grid", async () => "ok");
+    await expect(observeEngineTick("grid", async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(engineTickDuration.getCount({ engine: "grid" })).toBe(before + 2);
+    expect(engineTickErrors.get({ engine: "grid" })).toBeGreaterThanOrEqual(1);
+  });
+
+  it("observeOrder distingue success / rejected / error", async () => {
+    await observeOrder("binance", "buy", async () => ({ success: true, orderId: "1" }));
+    await observeOrder("binance", "buy", async () => ({ success: false, error: "insufficient funds" }));
+    await expect(observeOrder("binance", "buy", async () => { throw new Error("timeout"); })).rejects.toThrow();
+    expect(exchangeOrders.get({ exchange: "binance", side: "buy", outcome: "success" })).toBe(1);
+    expect(exchangeOrders.get({ exchange: "binance", side: "buy", outcome: "rejected" })).toBe(1);
+    expect(exchangeOrders.get({ exchange: "binance", side: "buy", outcome: "error" })).toBe(1);
+  });
+
+  it("recordReconciliation sustituye la deriva de la ejecución anterior", () => {
+    const base = { overallStatus: "RECONCILED" as const, blockedModeAssets: [] };
+    const result = (asset: string, effectiveDifference: number) => ({
+      exchange: "kraken", asset, effectiveDifference,
+      physicalBalance: 0, attributedBalance: 0, difference: 0, openOrderReserved: 0,
+      status: "RECONCILED" as const,
+      details: { budgetedUsd: 0, deployedUsd: 0, reservedUsd: 0, pendingReservations: 0, ledgerEntries: 0, lastLedgerEntry: null },
+    });
+    recordReconciliation({ ...base, generatedAt: "2026-01-01T00:00:00Z", results: [result("BTC", 0.01)], criticalDiscrepancies: [{ exchange: "kraken", asset: "BTC", difference: 0.01 }] });
+    recordReconciliation({ ...base, generatedAt: "2026-01-01T01:00:00Z", results: [result("ETH", 0)], criticalDiscrepancies: [] });
+    expect(reconciliationDrift.get({ exchange: "kraken", asset: "BTC" })).toBeUndefined();
+    expect(reconciliationDrift.get({ exchange: "kraken", asset: "ETH" })).toBe(0);
+    expect(reconciliationDiscrepancies.get()).toBe(0);
+  });
+});
@@ -154,6 +154,23 @@ console.log("\n[ HEALTHY_EMA_DISTANCE boundary ]");
   assert(!r3.reasons.includes("HEALTHY_EMA_DISTANCE"), "HEALTHY_EMA_DISTANCE should NOT fire at pct=0.001 (below min)", `pct=${r3.metrics.priceVsEma20Pct.toFixed(4)}`);
 }
 
+// Extended-indicator confirmations never change the score
+console.log("\n[ EXTENDED CONFIRMATIONS ]");
+{
+  const base = evaluateMomentumExpansion(makeCtx());
+  assert(base.confirmations.length === 0, "No confirmations without extended inputs");
+
+  const r = evaluateMomentumExpansion(makeCtx({ vwap: 102, supertrendUp: true, obvChange: 500, keltnerUpper: 103 }));
+  assert(r.score === base.score, "Extended inputs do not change the score", `score=${r.score} base=${base.score}`);
+  assert(
+    ["ABOVE_VWAP", "SUPERTREND_UP", "OBV_RISING", "KELTNER_BREAKOUT"].every(c => r.confirmations.includes(c)),
+    "All four confirmations fire", `confirmations=${r.confirmations.join(",")}`
+  );
+
+  const r2 = evaluateMomentumExpansion(makeCtx({ vwap: 104, supertrendUp: false, obvChange: -1, keltnerUpper: null }));
+  assert(r2.confirmations.length === 0, "Bearish extended inputs add no confirmations", `confirmations=${r2.confirmations.join(",")}`);
+}
+
 // ── Summary ──────────────────────────────────────────────────────────────────
 
 console.log(`\n─────────────────────────────────────────`);
@@ -0,0 +1,135 @@
+/**
+ * Tests para OrderBookDepthService (profundidad L2).
+ *
+ * OBD01. Profundidad por banda e imbalance (orderbookBias)
+ * OBD02. Slippage VWAP vs mejor precio; libro insuficiente → exhausted
+ * OBD03. Libro cruzado o vacío → sin métricas
+ * OBD04. Caché + single-flight; fallo del exchange → null (fail-open)
+ * OBD05. Snapshot de auditoría throttled por par + motivo
+ * OBD06. IDCA LIVE guard bloquea por profundidad insuficiente
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  getOrderBook: vi.fn(),
+  execute: vi.fn(async () => ({ rows: [] })),
+}));
+
+vi.mock("../../db", () => ({ db: { execute: mocks.execute } }));
+vi.mock("../exchanges/ExchangeFactory", () => ({
+  ExchangeFactory: {
+    getDataExchange: () => ({ isInitialized: () => true, getOrderBook: mocks.getOrderBook }),
+    getDataExchangeType: () => "kraken",
+  },
+}));
+
+import {
+  OrderBookDepthService,
+  computeDepthMetrics,
+  estimateSlippage,
+} from "../marketData/OrderBookDepthService";
+import { checkOrderBookDepth, type BuyIntention } from "../institutionalDca/IdcaLiveExecutionGuard";
+import type { OrderBook } from "../exchanges/IExchangeService";
+
+// mid = 100; bids más profundos que asks cerca del mid
+function book(): OrderBook {
+  return {
+    bids: [
+      { price: 99.95, qty: 10 },  // 5 bps
+      { price: 99.8, qty: 10 },   // 20 bps
+      { price: 99.1, qty: 50 },   // 90 bps
+    ],
+    asks: [
+      { price: 100.05, qty: 2 },  // 5 bps
+      { price: 100.2, qty: 3 },   // 20 bps
+      { price: 100.9, qty: 5 },   // 90 bps
+    ],
+    timestamp: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  OrderBookDepthService.clearAll();
+});
+
+describe("computeDepthMetrics", () => {
+  it("OBD01. profundidad por banda e imbalance", () => {
+    const m = computeDepthMetrics("BTC/USD", "kraken", book(), { bandsBps: [10, 25, 100], notionalsUsd: [] })!;
+    expect(m.mid).toBeCloseTo(100);
+    expect(m.spreadBps).toBeCloseTo(10);
+    expect(m.bands[0].bidUsd).toBeCloseTo(999.5);
+    expect(m.bands[0].askUsd).toBeCloseTo(200.1);
+    expect(m.bands[2].bidUsd).toBeCloseTo(999.5 + 998 + 4955);
+    const band25 = m.bands[1];
+    expect(m.orderbookBias).toBeCloseTo((band25.bidUsd - band25.askUsd) / (band25.bidUsd + band25.askUsd));
+    expect(m.orderbookBias).toBeGreaterThan(0.3);
+  });
+
+  it("OBD02. slippage VWAP y libro insuficiente", () => {
+    const small = estimateSlippage(book(), "buy", 100);
+    expect(small.slippageBps).toBe(0);
+    expect(small.exhausted).toBe(false);
+
+    const mid = estimateSlippage(book(), "buy", 500);
+    expect(mid.avgPrice!).toBeGreaterThan(100.05);
+    expect(mid.slippagePct).toBeCloseTo(mid.slippageBps / 100);
+
+    const huge = estimateSlippage(book(), "buy", 10_000);
+    expect(huge.exhausted).toBe(true);
+    expect(huge.filledUsd).toBeCloseTo(200.1 + 300.6 + 504.5);
+  });
+
+  it("OBD03. libro cruzado o vacío → null", () => {
+    expect(computeDepthMetrics("BTC/USD", "kraken", { bids: [], asks: [], timestamp: 0 })).toBeNull();
+    expect(computeDepthMetrics("BTC/USD", "kraken", {
+      bids: [{ price: 101, qty: 1 }], asks: [{ price: 100, qty: 1 }], timestamp: 0,
+    })).toBeNull();
+  });
+});
+
+describe("OrderBookDepthService", () => {
+  it("OBD04. caché + single-flight y fail-open", async () => {
+    mocks.getOrderBook.mockResolvedValue(book());
+    const [a, b] = await Promise.all([
+      OrderBookDepthService.getDepth("BTC/USD"),
+      OrderBookDepthService.getOrderbookBias("BTC/USD"),
+    ]);
+    expect(a?.pair).toBe("BTC/USD");
+    expect(b).toBeCloseTo(a!.orderbookBias);
+    await OrderBookDepthService.getDepth("BTC/USD");
+    expect(mocks.getOrderBook).toHaveBeenCalledTimes(1);
+
+    mocks.getOrderBook.mockRejectedValueOnce(new Error("EAPI:Rate limit exceeded"));
+    expect(await OrderBookDepthService.getDepth("ETH/USD")).toBeNull();
+    expect(OrderBookDepthService.getStatus().errors).toBe(1);
+  });
+
+  it("OBD05. snapshot throttled por par + motivo", async () => {
+    mocks.getOrderBook.mockResolvedValue(book());
+    await OrderBookDepthService.getDepth("BTC/USD", { reason: "GRID_GUARD" });
+    await OrderBookDepthService.getDepth("BTC/USD", { reason: "GRID_GUARD" });
+    await OrderBookDepthService.estimateSlippage("BTC/USD", "buy", 250, "IDCA_GUARD");
+    await new Promise(r => setTimeout(r, 0));
+
+    const inserts = mocks.execute.mock.calls.filter((c: any[]) =>
+      c[0].queryChunks.some((q: any) => String(q?.value ?? "").includes("INSERT INTO orderbook_depth_snapshots")));
+    expect(inserts).toHaveLength(2);
+    expect(OrderBookDepthService.getStatus().snapshots).toBe(2);
+  });
+});
+
+describe("IDCA LIVE guard — profundidad", () => {
+  const intention: BuyIntention = {
+    pair: "BTC/USD", cycleId: 1, buyType: "safety", intendedUsd: 500, intendedQty: 0.005,
+    currentPrice: 100_000, feePct: 0.1, slippagePct: 0.1, mode: "live",
+  };
+
+  it("OBD06. bloquea si el libro no cubre la orden o el slippage supera el máximo", () => {
+    expect(checkOrderBookDepth(intention)).toBeNull();
+    expect(checkOrderBookDepth({ ...intention, depthSlippagePct: 0.2 })).toBeNull();
+    expect(checkOrderBookDepth({ ...intention, depthSlippagePct: 1.5 })).toContain("insufficient_orderbook_depth");
+    expect(checkOrderBookDepth({ ...intention, depthExhausted: true })).toContain("insufficient_orderbook_depth");
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Tests for the signal-config counterfactual engine.
+ *
+ * Strategy output and regime detection are mocked so each scenario controls
+ * the signal count and the regime; the minSignals gate and exits run through
+ * the real replay code.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../botLogger", () => ({
+  botLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock("../marketData/MarketCandleRepository", () => ({
+  MarketCandleRepository: { getCandlesSince: vi.fn() },
+}));
+
+vi.mock("../../storage", () => ({
+  storage: { getBotConfig: vi.fn(), getApiConfig: vi.fn() },
+}));
+
+const strategyMock = vi.hoisted(() => ({
+  momentum: vi.fn(),
+  meanReversion: vi.fn(),
+  regime: { value: "RANGE" },
+}));
+
+vi.mock("../strategies", () => ({
+  momentumCandlesStrategy: strategyMock.momentum,
+  meanReversionSimpleStrategy: strategyMock.meanReversion,
+}));
+
+vi.mock("../regimeDetection", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../regimeDetection")>();
+  return {
+    ...actual,
+    detectMarketRegime: () => ({ regime: strategyMock.regime.value, adx: 20, emaAlignment: 0, bollingerWidth: 2, confidence: 0.8, reason: "test" }),
+  };
+});
+
+import {
+  aggregateCounterfactual,
+  compareSignalThresholds,
+  optimizeSignalThresholds,
+  pickRecommendation,
+  runCounterfactual,
+  signalCounterfactualEngine,
+  type CounterfactualDataset,
+  type CounterfactualMetrics,
+} from "../backtest/signalCounterfactual";
+import { MarketCandleRepository } from "../marketData/MarketCandleRepository";
+import { storage } from "../../storage";
+import type { OHLCCandle } from "../indicators";
+import type { SpotBacktestResult, SpotBacktestTrade } from "../backtest/spotBacktestTypes";
+
+const TF_SEC = 900;
+const T0 = Math.floor(Date.UTC(2026, 0, 1) / 1000);
+
+function flatCandles(n: number, price = 100): OHLCCandle[] {
+  return Array.from({ length: n }, (_, i) => ({
+    time: T0 + i * TF_SEC,
+    open: price,
+    high: price * 1.001,
+    low: price * 0.999,
+    close: price,
+    volume: 10,
+  }));
+}
+
+function buy(signalsCount: number) {
+  return { action: "buy", pair: "BTC/USD", confidence: 0.8, reason: "test buy", signalsCount, minSignalsRequired: 5 };
+}
+
+const HOLD = { action: "hold", pair: "BTC/USD", confidence: 0, reason: "none" };
+
+function dataset(n = 100): CounterfactualDataset {
+  const candles = flatCandles(n);
+  return {
+    window: {
+      pairs: ["BTC/USD"],
+      timeframe: "15m",
+      startDate: new Date(candles[60].time * 1000).toISOString(),
+      endDate: new Date(candles[n - 1].time * 1000).toISOString(),
+      initialCapitalUsd: 1000,
+      orderUsd: 100,
+      tradingExchange: "kraken",
+      botConfig: { positionMode: "SMART_GUARD", smartExitConfig: { enabled: false }, maxLotsPerPair: 1, timeStopHours: 1, smartTimeStopV2Enabled: false },
+    },
+    candlesByPair: { "BTC/USD": candles },
+    skippedPairs: [],
+  };
+}
+
+function trade(pnl: number, exitIdx: number, regime: SpotBacktestTrade["regimeAtEntry"] = "TREND"): SpotBacktestTrade {
+  const exitTime = new Date((T0 + exitIdx * TF_SEC) * 1000).toISOString();
+  return {
+    lotId: `L${exitIdx}`, pair: "BTC/USD", strategyId: "momentum", regimeAtEntry: regime, signalsCount: 5,
+    entryTime: exitTime, entryPrice: 100, amount: 1, entryFeeUsd: 0,
+    exitTime, exitPrice: 100 + pnl, exitFeeUsd: 0, exitReason: "TAKE_PROFIT", exitDetail: null,
+    pnlNetUsd: pnl, pnlNetPct: pnl, holdingHours: 1,
+  };
+}
+
+function result(trades: SpotBacktestTrade[], maxDrawdownPct = 0): SpotBacktestResult {
+  return { trades, summary: { maxDrawdownPct } } as unknown as SpotBacktestResult;
+}
+
+function metrics(overrides: Partial<CounterfactualMetrics> = {}): CounterfactualMetrics {
+  return {
+    trades: 20, wins: 10, losses: 10, winRatePct: 50, expectancyUsd: 0.5, netPnlUsd: 10, profitFactor: 1.2,
+    maxDrawdownUsd: 20, maxDrawdownPct: 2, maxPairDrawdownPct: 2,
+    byRegime: {} as CounterfactualMetrics["byRegime"],
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  strategyMock.momentum.mockReset();
+  strategyMock.meanReversion.mockReset();
+  strategyMock.momentum.mockReturnValue(HOLD);
+  strategyMock.meanReversion.mockReturnValue(HOLD);
+  strategyMock.regime.value = "RANGE";
+});
+
+describe("runCounterfactual", () => {
+  it("feeds the per-regime threshold to the strategy and the minSignals gate", async () => {
+    strategyMock.momentum.mockReturnValue(buy(4));
+
+    const loose = await runCounterfactual(dataset(), { TREND: 6, RANGE: 3, TRANSITION: 4 });
+    expect(strategyMock.momentum.mock.calls[0][3]).toBe(3);
+    expect(loose.metrics.trades).toBeGreaterThan(0);
+    expect(loose.metrics.byRegime.RANGE.trades).toBe(loose.metrics.trades);
+    expect(loose.candlesProcessed).toBe(40);
+
+    strategyMock.momentum.mockClear();
+    const strict = await runCounterfactual(dataset(), { TREND: 6, RANGE: 5, TRANSITION: 4 });
+    expect(strategyMock.momentum.mock.calls[0][3]).toBe(5);
+    expect(strict.metrics.trades).toBe(0);
+  });
+
+  it("only the threshold of the detected regime matters", async () => {
+    strategyMock.regime.value = "TREND";
+    strategyMock.momentum.mockReturnValue(buy(4));
+
+    const cmp = await compareSignalThresholds(dataset(), { TREND: 5, RANGE: 3, TRANSITION: 4 }, { TREND: 4, RANGE: 9, TRANSITION: 4 });
+    expect(cmp.current.metrics.trades).toBe(0);
+    expect(cmp.proposed.metrics.trades).toBeGreaterThan(0);
+    expect(cmp.delta.trades).toBe(cmp.proposed.metrics.trades);
+    expect(cmp.delta.tradesPct).toBeNull();
+    // Flat market: every entry pays fees
+    expect(cmp.delta.netPnlUsd).toBeLessThan(0);
+  });
+});
+
+describe("aggregateCounterfactual", () => {
+  it("merges pairs into one book ordered by exit time", () => {
+    const m = aggregateCounterfactual([
+      result([trade(10, 1), trade(-8, 3, "RANGE")], 1.5),
+      result([trade(-4, 2), trade(6, 4, "RANGE")], 3),
+    ], 1000);
+
+    expect(m.trades).toBe(4);
+    expect(m.wins).toBe(2);
+    expect(m.netPnlUsd).toBeCloseTo(4, 9);
+    expect(m.expectancyUsd).toBeCloseTo(1, 9);
+    expect(m.profitFactor).toBeCloseTo(16 / 12, 9);
+    // Cumulative 10 → 6 → -2 → 4: peak 10, trough -2
+    expect(m.maxDrawdownUsd).toBeCloseTo(12, 9);
+    expect(m.maxDrawdownPct).toBeCloseTo((12 / 2010) * 100, 9);
+    expect(m.maxPairDrawdownPct).toBe(3);
+    expect(m.byRegime.TREND).toMatchObject({ trades: 2, netPnlUsd: 6, winRatePct: 50 });
+    expect(m.byRegime.RANGE).toMatchObject({ trades: 2, netPnlUsd: -2 });
+    expect(m.byRegime.TRANSITION.trades).toBe(0);
+  });
+
+  it("ignores trades that never closed", () => {
+    const open = { ...trade(0, 1), exitTime: null, pnlNetUsd: null };
+    expect(aggregateCounterfactual([result([open])], 1000).trades).toBe(0);
+  });
+});
+
+describe("pickRecommendation", () => {
+  const point = (minSignals: number, trades: number, netPnlUsd: number, maxDrawdownPct = 2) =>
+    ({ minSignals, trades, netPnlUsd, maxDrawdownPct, winRatePct: 50, expectancyUsd: netPnlUsd / Math.max(1, trades) });
+
+  it("picks the best net PnL among values with enough trades and acceptable drawdown", () => {
+    const baseline = metrics({ netPnlUsd: 10, maxDrawdownPct: 2 });
+    expect(pickRecommendation(5, baseline, [
+      point(3, 40, 50, 9),   // drawdown too much worse
+      point(4, 25, 30, 3.5),
+      point(5, 20, 10),
+      point(6, 5, 80),       // too few trades
+    ])).toBe(4);
+  });
+
+  it("keeps the current value when nothing beats it and breaks ties towards it", () => {
+    const baseline = metrics({ netPnlUsd: 10 });
+    expect(pickRecommendation(5, baseline, [point(3, 30, 5), point(5, 20, 10)])).toBe(5);
+    expect(pickRecommendation(5, metrics({ netPnlUsd: -1 }), [point(2, 30, 20), point(6, 30, 20)])).toBe(6);
+  });
+});
+
+describe("optimizeSignalThresholds", () => {
+  it("sweeps each regime over its configured range and keeps current without evidence", async () => {
+    strategyMock.momentum.mockReturnValue(buy(4));
+    const config = {
+      trend: { min: 4, max: 6, current: 5 },
+      range: { min: 2, max: 4, current: 3 },
+      transition: { min: 3, max: 5, current: 4 },
+    };
+
+    const suggestions = await optimizeSignalThresholds(dataset(), config);
+    expect(suggestions.map(s => s.regime)).toEqual(["TREND", "RANGE", "TRANSITION"]);
+    expect(suggestions[1].sweep.map(p => p.minSignals)).toEqual([2, 3, 4]);
+    for (const s of suggestions) {
+      expect(s.recommended).toBe(s.current);
+      expect(s.confidence).toBeGreaterThanOrEqual(30);
+      expect(s.confidence).toBeLessThanOrEqual(95);
+    }
+  });
+});
+
+describe("signalCounterfactualEngine.loadDataset", () => {
+  it("uses the live signal timeframe and active pairs and skips pairs without data", async () => {
+    vi.mocked(storage.getBotConfig).mockResolvedValue({ signalTimeframe: "1h", activePairs: ["BTC/USD", "ETH/USD"] } as any);
+    vi.mocked(storage.getApiConfig).mockResolvedValue({ tradingExchange: "revolutx" } as any);
+    const now = Date.now();
+    vi.mocked(MarketCandleRepository.getCandlesSince).mockImplementation(async (pair: string) =>
+      pair === "BTC/USD"
+        ? flatCandles(100).map((c, i) => ({ ...c, time: now - (100 - i) * 3_600_000 })) as any
+        : [],
+    );
+
+    const ds = await signalCounterfactualEngine.loadDataset({ days: 2 });
+    expect(ds.window.timeframe).toBe("1h");
+    expect(ds.window.pairs).toEqual(["BTC/USD"]);
+    expect(ds.skippedPairs).toEqual(["ETH/USD"]);
+    expect(ds.window.tradingExchange).toBe("revolutx");
+    expect(ds.candlesByPair["BTC/USD"][0].time).toBe(Math.floor((now - 100 * 3_600_000) / 1000));
+  });
+
+  it("fails when no pair has enough candles", async () => {
+    vi.mocked(storage.getBotConfig).mockResolvedValue({ activePairs: ["BTC/USD"] } as any);
+    vi.mocked(storage.getApiConfig).mockResolvedValue({} as any);
+    vi.mocked(MarketCandleRepository.getCandlesSince).mockResolvedValue([]);
+    await expect(signalCounterfactualEngine.loadDataset()).rejects.toThrow(/Sin velas suficientes/);
+  });
+});
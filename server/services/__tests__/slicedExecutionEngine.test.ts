@@ -0,0 +1,236 @@
+/**
+ * Tests para SlicedExecutionEngine (ejecución troceada padre/hijas).
+ *
+ * SE01. Plan de hijas, techo de participación y precio maker
+ * SE02. TWAP: hijas de mercado espaciadas, padre completo con precio medio
+ * SE03. Maker-first: fill parcial → cancel/replace → fallback taker
+ * SE04. Participation: techo por volumen → parcial al llegar al deadline
+ * SE05. Hijas rechazadas → padre failed; persistencia best-effort
+ * SE06. Hija sin fill confirmado → el padre se detiene (no recompra) salvo que se confirme
+ * SE07. Post-only cuyo cancel falla sigue viva → sin reposición ni taker, padre unconfirmed
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../exchanges/ExchangeFactory", () => ({ ExchangeFactory: {} }));
+vi.mock("../execution/ExecutionOrderRepository", () => ({
+  upsertParentOrder: vi.fn(),
+  upsertChildOrder: vi.fn(),
+}));
+
+import {
+  SlicedExecutionEngine,
+  planSliceQuantities,
+  participationCapQty,
+  makerLimitPrice,
+  loadSlicedExecutionConfig,
+  type SlicedExecutionConfig,
+} from "../execution/SlicedExecutionEngine";
+
+function setup(exchangeOverrides: Record<string, any> = {}) {
+  let clock = 1_000_000;
+  const sleeps: number[] = [];
+  const orders = new Map<string, any>();
+  let seq = 0;
+  const exchange: any = {
+    isInitialized: () => true,
+    getPairMetadata: () => ({ pairDecimals: 2, lotDecimals: 8 }),
+    getTicker: vi.fn(async () => ({ bid: 99.9, ask: 100.1, last: 100, volume24h: 1_000_000 })),
+    placeOrder: vi.fn(async (p: any) => {
+      const id = `OID-${++seq}`;
+      const qty = parseFloat(p.volume);
+      orders.set(id, p.ordertype === "market"
+        ? { orderId: id, status: "closed", volume: qty, filledVolume: qty, avgPrice: 100.1, cost: qty * 100.1, fee: 0.1, closedAt: null }
+        : { orderId: id, status: "open", volume: qty, filledVolume: 0, avgPrice: null, cost: 0, fee: 0, closedAt: null });
+      return { success: true, orderId: id };
+    }),
+    getOrderStatus: vi.fn(async (id: string) => orders.get(id) ?? null),
+    cancelOrder: vi.fn(async (id: string) => {
+      const o = orders.get(id);
+      if (o) o.status = "canceled";
+      return true;
+    }),
+    ...exchangeOverrides,
+  };
+  const saveParent = vi.fn(async () => undefined);
+  const saveChild = vi.fn(async () => undefined);
+  const engine = new SlicedExecutionEngine({
+    getExchange: () => exchange,
+    getExchangeType: () => "revolutx",
+    sleep: async (ms) => { sleeps.push(ms); clock += ms; },
+    now: () => clock,
+    saveParent,
+    saveChild,
+  });
+  return { engine, exchange, orders, sleeps, saveParent, saveChild };
+}
+
+function config(algo: SlicedExecutionConfig["algo"], extra: Partial<SlicedExecutionConfig> = {}): SlicedExecutionConfig {
+  return loadSlicedExecutionConfig(algo, {
+    maxSliceUsd: 250, minSliceUsd: 10, durationMs: 120_000, participationPct: 5,
+    makerWaitMs: 10_000, makerMaxReplaces: 1, takerFallback: true, pollIntervalMs: 2000, confirmTimeoutMs: 10_000,
+    ...extra,
+  });
+}
+
+describe("helpers", () => {
+  it("SE01. plan, participación y precio maker", () => {
+    expect(planSliceQuantities(10, 100, 250, 10)).toEqual([2.5, 2.5, 2.5, 2.5]);
+    expect(planSliceQuantities(0.15, 100, 250, 10)).toEqual([0.15]);
+    expect(planSliceQuantities(0.25, 100, 5, 10)).toHaveLength(2); // mínimo manda sobre máximo
+    expect(planSliceQuantities(0, 100, 250, 10)).toEqual([]);
+
+    expect(participationCapQty(86_400, 60_000, 10)).toBeCloseTo(6);
+    expect(participationCapQty(undefined, 60_000, 10)).toBeNull();
+
+    expect(makerLimitPrice("buy", { bid: 99.9, ask: 100.1, last: 100 })).toBe(99.9);
+    expect(makerLimitPrice("sell", { bid: 99.9, ask: 100.1, last: 100 })).toBe(100.1);
+    expect(makerLimitPrice("buy", { bid: 0, ask: 100.1, last: 100 })).toBeNull();
+  });
+});
+
+describe("SlicedExecutionEngine", () => {
+  it("SE02. TWAP en hijas de mercado", async () => {
+    const { engine, exchange, sleeps, saveParent } = setup();
+    const parent = await engine.execute({
+      source: "IDCA", sourceRef: "cycle:7", pair: "BTC/USD", side: "buy",
+      targetQty: 10, referencePrice: 100, config: config("twap"),
+    });
+
+    expect(exchange.placeOrder).toHaveBeenCalledTimes(4);
+    expect(exchange.placeOrder.mock.calls[0][0]).toMatchObject({ ordertype: "market", volume: "2.50000000" });
+    expect(sleeps).toEqual([30_000, 30_000, 30_000]);
+    expect(parent.status).toBe("completed");
+    expect(parent.filledQty).toBeCloseTo(10);
+    expect(parent.avgPrice).toBeCloseTo(100.1);
+    expect(parent.feeUsd).toBeCloseTo(0.4);
+    expect(parent.takerFilledQty).toBeCloseTo(10);
+    expect(parent.children.map(c => c.status)).toEqual(["filled", "filled", "filled", "filled"]);
+    expect(saveParent.mock.calls.at(-1)![0]).toMatchObject({ status: "completed" });
+    expect(engine.getActive()).toHaveLength(0);
+  });
+
+  it("SE03. maker-first: parcial, cancel/replace y fallback taker", async () => {
+    const { engine, exchange, orders } = setup();
+    // La primera post-only llena 1.0 de 2.0 antes de cancelarse; la reposición no llena nada
+    exchange.cancelOrder.mockImplementation(async (id: string) => {
+      const o = orders.get(id);
+      o.status = "canceled";
+      if (id === "OID-1") Object.assign(o, { filledVolume: 1, avgPrice: 99.9, cost: 99.9 });
+      return true;
+    });
+
+    const parent = await engine.execute({
+      source: "AMA", sourceRef: "c1:t1", pair: "BTC/USD", side: "buy",
+      targetQty: 2, referencePrice: 100, config: config("maker_first"),
+    });
+
+    const [first, replace, taker] = parent.children;
+    expect(exchange.placeOrder.mock.calls[0][0]).toMatchObject({ ordertype: "limit", price: "99.90", executionInstruction: "post_only" });
+    expect(first).toMatchObject({ status: "partially_filled", filledQty: 1, replacedBy: replace.childId });
+    expect(replace).toMatchObject({ orderType: "limit", requestedQty: 1, status: "cancelled", filledQty: 0 });
+    expect(taker).toMatchObject({ orderType: "market", requestedQty: 1, status: "filled" });
+    expect(exchange.cancelOrder).toHaveBeenCalledTimes(2);
+    expect(parent.status).toBe("completed");
+    expect(parent.avgPrice).toBeCloseTo((99.9 + 100.1) / 2);
+    expect(parent.takerFilledQty).toBeCloseTo(1);
+  });
+
+  it("SE03b. maker-first sin fallback ni fills → failed", async () => {
+    const { engine } = setup();
+    const parent = await engine.execute({
+      source: "AMA", sourceRef: "c1:t2", pair: "BTC/USD", side: "buy",
+      targetQty: 2, referencePrice: 100, config: config("maker_first", { takerFallback: false, makerMaxReplaces: 0 }),
+    });
+    expect(parent.children).toHaveLength(1);
+    expect(parent.status).toBe("failed");
+  });
+
+  it("SE04. participation limitada por volumen → parcial", async () => {
+    const { engine, exchange } = setup();
+    // 86.4k de volumen diario → 1 unidad/s; intervalo 30s al 5% → 1.5 por hija
+    exchange.getTicker.mockResolvedValue({ bid: 99.9, ask: 100.1, last: 100, volume24h: 86_400 });
+    const parent = await engine.execute({
+      source: "IDCA", sourceRef: "cycle:8", pair: "BTC/USD", side: "buy",
+      targetQty: 10, referencePrice: 100, config: config("participation"),
+    });
+    expect(exchange.placeOrder.mock.calls.every((c: any[]) => parseFloat(c[0].volume) <= 1.5 + 1e-9)).toBe(true);
+    expect(parent.status).toBe("partial");
+    expect(parent.filledQty).toBeCloseTo(1.5 * exchange.placeOrder.mock.calls.length);
+    expect(parent.filledQty).toBeLessThan(10);
+  });
+
+  it("SE05. rechazos → failed; fallo de BD no interrumpe", async () => {
+    const { engine, saveChild } = setup({
+      placeOrder: vi.fn(async () => ({ success: false, error: "Insufficient funds" })),
+    });
+    saveChild.mockRejectedValue(new Error("db down"));
+    const parent = await engine.execute({
+      source: "IDCA", sourceRef: "cycle:9", pair: "BTC/USD", side: "buy",
+      targetQty: 1, referencePrice: 100, config: config("twap"),
+    });
+    expect(parent.status).toBe("failed");
+    expect(parent.children[0]).toMatchObject({ status: "rejected", error: "Insufficient funds" });
+  });
+
+  it("SE06. hija unknown detiene el padre sin recomprar su cantidad", async () => {
+    const { engine, exchange, orders } = setup();
+    // La segunda hija de mercado nunca aparece en getOrderStatus
+    exchange.getOrderStatus.mockImplementation(async (id: string) => (id === "OID-2" ? null : orders.get(id) ?? null));
+    const parent = await engine.execute({
+      source: "IDCA", sourceRef: "cycle:10", pair: "BTC/USD", side: "buy",
+      targetQty: 10, referencePrice: 100, config: config("twap"),
+    });
+    expect(exchange.placeOrder).toHaveBeenCalledTimes(2);
+    expect(parent.children[1]).toMatchObject({ status: "unknown", filledQty: 0, error: "fill_not_confirmed" });
+    expect(parent.status).toBe("unconfirmed");
+    expect(parent.error).toContain(parent.children[1].childId);
+    expect(parent.filledQty).toBeCloseTo(2.5);
+  });
+
+  it("SE06b. hija que sigue abierta al timeout se reconsulta antes de continuar", async () => {
+    const { engine, exchange, orders } = setup();
+    let reads = 0;
+    // OID-1 aparece abierta durante el plazo de confirmación y cerrada en la reconsulta
+    exchange.getOrderStatus.mockImplementation(async (id: string) => {
+      const o = orders.get(id);
+      if (id === "OID-1" && ++reads <= 6) return { ...o, status: "open", filledVolume: 0, cost: 0, avgPrice: null };
+      return o ?? null;
+    });
+    const parent = await engine.execute({
+      source: "IDCA", sourceRef: "cycle:11", pair: "BTC/USD", side: "buy",
+      targetQty: 5, referencePrice: 100, config: config("twap"),
+    });
+    expect(exchange.placeOrder).toHaveBeenCalledTimes(2);
+    expect(parent.children.map(c => c.status)).toEqual(["filled", "filled"]);
+    expect(parent.status).toBe("completed");
+    expect(parent.filledQty).toBeCloseTo(5);
+  });
+
+  it("SE07. cancel fallido de una post-only viva no se marca cancelled ni se recompra", async () => {
+    const { engine, exchange } = setup();
+    exchange.cancelOrder.mockRejectedValue(new Error("timeout"));
+    const parent = await engine.execute({
+      source: "AMA", sourceRef: "c1:t2", pair: "BTC/USD", side: "buy",
+      targetQty: 2, referencePrice: 100, config: config("maker_first"),
+    });
+
+    expect(exchange.placeOrder).toHaveBeenCalledTimes(1);
+    expect(parent.children).toHaveLength(1);
+    expect(parent.children[0]).toMatchObject({ status: "open", error: "cancel_failed" });
+    expect(parent.status).toBe("unconfirmed");
+  });
+
+  it("SE07b. sin estado tras el cancel la hija queda unknown", async () => {
+    const { engine, exchange } = setup();
+    exchange.getOrderStatus.mockImplementation(async () => null);
+    const parent = await engine.execute({
+      source: "AMA", sourceRef: "c1:t3", pair: "BTC/USD", side: "buy",
+      targetQty: 2, referencePrice: 100, config: config("maker_first"),
+    });
+
+    expect(exchange.placeOrder).toHaveBeenCalledTimes(1);
+    expect(parent.children[0]).toMatchObject({ status: "unknown" });
+    expect(parent.status).toBe("unconfirmed");
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Tests for the Spot candle-replay backtester.
+ *
+ * Strategy output is mocked so each scenario controls exactly when BUY
+ * signals appear; gates, SMART_GUARD exits, fees and the equity curve run
+ * through the real replay code.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../botLogger", () => ({
+  botLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock("../marketData/MarketCandleRepository", () => ({
+  MarketCandleRepository: { getCandlesSince: vi.fn() },
+}));
+
+const strategyMock = vi.hoisted(() => ({
+  momentum: vi.fn(),
+  meanReversion: vi.fn(),
+}));
+
+vi.mock("../strategies", () => ({
+  momentumCandlesStrategy: strategyMock.momentum,
+  meanReversionSimpleStrategy: strategyMock.meanReversion,
+}));
+
+import { replaySpotCandles, botConfigFromRow, spotBacktestEngine } from "../backtest/spotBacktestEngine";
+import { BacktestExecutor } from "../executors/BacktestExecutor";
+import { classifyEffectiveSpread } from "../spreadFilter";
+import { decideSmartTimeStopV2 } from "../SmartTimeStopV2";
+import { MarketCandleRepository } from "../marketData/MarketCandleRepository";
+import type { OHLCCandle } from "../indicators";
+import type { SpotBacktestConfig } from "../backtest/spotBacktestTypes";
+
+const TF_SEC = 900;
+const T0 = Math.floor(Date.UTC(2026, 0, 1) / 1000);
+
+function flatCandles(n: number, price = 100): OHLCCandle[] {
+  return Array.from({ length: n }, (_, i) => ({
+    time: T0 + i * TF_SEC,
+    open: price,
+    high: price * 1.001,
+    low: price * 0.999,
+    close: price,
+    volume: 10,
+  }));
+}
+
+function buy(signalsCount = 6, confidence = 0.8) {
+  return { action: "buy", pair: "BTC/USD", confidence, reason: "test buy", signalsCount, minSignalsRequired: 5 };
+}
+
+const HOLD = { action: "hold", pair: "BTC/USD", confidence: 0, reason: "none" };
+
+function baseConfig(overrides: Partial<SpotBacktestConfig> = {}): SpotBacktestConfig {
+  return {
+    pair: "BTC/USD",
+    timeframe: "15m",
+    startDate: new Date(T0 * 1000).toISOString(),
+    endDate: new Date((T0 + 200 * TF_SEC) * 1000).toISOString(),
+    initialCapitalUsd: 1000,
+    orderUsd: 100,
+    feePct: 0.4,
+    slippagePct: 0,
+    botConfig: { positionMode: "SMART_GUARD", smartExitConfig: { enabled: false } },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  strategyMock.momentum.mockReset();
+  strategyMock.meanReversion.mockReset();
+  strategyMock.momentum.mockReturnValue(HOLD);
+  strategyMock.meanReversion.mockReturnValue(HOLD);
+});
+
+describe("BacktestExecutor", () => {
+  it("applies slippage and fees and computes net PnL on sell", async () => {
+    const exec = new BacktestExecutor({ feePct: 0.4, slippagePct: 0.1 });
+    const b = await exec.executeBuy({ pair: "BTC/USD", side: "buy", amountUsd: 100, price: 100, reason: "t" });
+    expect(b.success).toBe(true);
+    expect(b.mode).toBe("BACKTEST");
+    expect(b.executedPrice).toBeCloseTo(100.1, 6);
+    expect(b.feeUsd).toBeCloseTo(0.4, 6);
+
+    const s = await exec.executeSell({ pair: "BTC/USD", side: "sell", amountUsd: 0, price: 110, reason: "t", lotId: b.simulatedId });
+    expect(s.success).toBe(true);
+    const proceeds = b.executedAmount * 110 * 0.999;
+    expect(s.pnlNetUsd).toBeCloseTo(proceeds - 100 - proceeds * 0.004 - 0.4, 6);
+    expect(exec.getOpenLotCount()).toBe(0);
+  });
+
+  it("fails on unknown lot", async () => {
+    const exec = new BacktestExecutor({ feePct: 0.4, slippagePct: 0 });
+    const s = await exec.executeSell({ pair: "BTC/USD", side: "sell", amountUsd: 0, price: 100, reason: "t", lotId: "nope" });
+    expect(s.success).toBe(false);
+  });
+});
+
+describe("replaySpotCandles", () => {
+  it("closes open lots at END_OF_DATA and counts no-signal candles", async () => {
+    const candles = flatCandles(100);
+    strategyMock.momentum.mockImplementation((_p: string, window: OHLCCandle[]) =>
+      window[window.length - 1].time === candles[60].time ? buy() : HOLD,
+    );
+
+    const result = await replaySpotCandles(candles, baseConfig());
+
+    expect(result.summary.totalTrades).toBe(1);
+    expect(result.trades[0].exitReason).toBe("END_OF_DATA");
+    expect(result.gateBlocks.NO_SIGNAL).toBeGreaterThan(0);
+    // Flat market: only fees are lost
+    expect(result.summary.netPnlUsd).toBeCloseTo(-(0.4 + 100 * 0.004), 4);
+    expect(result.summary.finalEquityUsd).toBeCloseTo(1000 + result.summary.netPnlUsd, 6);
+  });
+
+  it("hits the ultimate stop-loss intrabar and applies the post-SL cooldown", async () => {
+    const candles = flatCandles(120);
+    // Crash on candle 62: low well below -5%
+    candles[62] = { ...candles[62], open: 99, low: 90, close: 91 };
+    for (let i = 63; i < candles.length; i++) {
+      candles[i] = { ...candles[i], open: 91, high: 91.1, low: 90.9, close: 91 };
+    }
+    strategyMock.momentum.mockImplementation((_p: string, window: OHLCCandle[]) => {
+      const t = window[window.length - 1].time;
+      return t >= candles[60].time ? buy() : HOLD;
+    });
+
+    const result = await replaySpotCandles(candles, baseConfig({
+      botConfig: { positionMode: "SMART_GUARD", smartExitConfig: { enabled: false }, pairCooldownMinutes: 0, stopLossCooldownMinutes: 30 },
+    }));
+
+    const first = result.trades[0];
+    expect(first.exitReason).toBe("STOP_LOSS");
+    expect(first.exitPrice).toBeCloseTo(95, 6);
+    expect(result.gateBlocks.STOPLOSS_COOLDOWN).toBeGreaterThan(0);
+    expect(result.summary.maxDrawdownPct).toBeGreaterThan(0);
+  });
+
+  it("arms break-even then exits at the fee cushion when price returns", async () => {
+    const candles = flatCandles(100);
+    candles[62] = { ...candles[62], high: 101.6, close: 101.2 };  // +1.6% → BE armed
+    candles[63] = { ...candles[63], open: 101, low: 100.2, close: 100.3 }; // back through BE stop
+    let fired = false;
+    strategyMock.momentum.mockImplementation(() => {
+      if (fired) return HOLD;
+      fired = true;
+      return buy();
+    });
+
+    const result = await replaySpotCandles(candles, baseConfig({ startDate: new Date(candles[60].time * 1000).toISOString() }));
+    expect(result.trades[0].exitReason).toBe("BREAK_EVEN");
+    expect(result.trades[0].exitPrice).toBeCloseTo(100 * 1.0045, 6);
+  });
+
+  it("blocks entries below the regime-independent minSignals and low confidence", async () => {
+    const candles = flatCandles(80);
+    strategyMock.momentum.mockImplementation((_p: string, window: OHLCCandle[]) => {
+      const idx = (window[window.length - 1].time - T0) / TF_SEC;
+      return idx % 2 === 0 ? buy(3, 0.9) : buy(6, 0.4);
+    });
+
+    const result = await replaySpotCandles(candles, baseConfig());
+    expect(result.summary.totalTrades).toBe(0);
+    expect(result.gateBlocks.SIGNALS_THRESHOLD).toBeGreaterThan(0);
+    expect(result.gateBlocks.CONFIDENCE_LOW).toBeGreaterThan(0);
+  });
+
+  it("honours maxLotsPerPair and pair cooldown", async () => {
+    const candles = flatCandles(100);
+    strategyMock.momentum.mockReturnValue(buy());
+
+    const result = await replaySpotCandles(candles, baseConfig({
+      botConfig: { positionMode: "SMART_GUARD", smartExitConfig: { enabled: false }, maxLotsPerPair: 2, pairCooldownMinutes: 60 },
+    }));
+    expect(result.trades.length).toBe(2);
+    expect(result.gateBlocks.COOLDOWN).toBeGreaterThan(0);
+    expect(result.gateBlocks.MAX_LOTS_PER_PAIR).toBeGreaterThan(0);
+  });
+
+  it("blocks entries when the simulated RevolutX spread exceeds the threshold", async () => {
+    const candles = flatCandles(80);
+    strategyMock.momentum.mockReturnValue(buy());
+
+    const result = await replaySpotCandles(candles, baseConfig({
+      tradingExchange: "revolutx",
+      botConfig: { positionMode: "SMART_GUARD", smartExitConfig: { enabled: false }, spreadDynamicEnabled: false, spreadMaxPct: 0.5, spreadRevolutxMarkupPct: 0.8 },
+    }));
+    expect(result.summary.totalTrades).toBe(0);
+    expect(result.gateBlocks.SPREAD_TOO_HIGH).toBeGreaterThan(0);
+  });
+
+  it("closes on TimeStop when Smart TimeStop V2 is disabled", async () => {
+    const candles = flatCandles(200);
+    let fired = false;
+    strategyMock.momentum.mockImplementation(() => {
+      if (fired) return HOLD;
+      fired = true;
+      return buy();
+    });
+
+    const result = await replaySpotCandles(candles, baseConfig({
+      botConfig: { positionMode: "SMART_GUARD", smartExitConfig: { enabled: false }, timeStopHours: 10, smartTimeStopV2Enabled: false },
+    }));
+    expect(result.trades[0].exitReason).toBe("TIME_STOP");
+    expect(result.trades[0].holdingHours).toBeCloseTo(10, 6);
+  });
+
+  it("does not apply SMART_GUARD break-even to SINGLE lots", async () => {
+    const candles = flatCandles(100);
+    candles[62] = { ...candles[62], high: 101.6, close: 101.2 };
+    candles[63] = { ...candles[63], open: 101, low: 100.2, close: 100.3 };
+    let fired = false;
+    strategyMock.momentum.mockImplementation(() => {
+      if (fired) return HOLD;
+      fired = true;
+      return buy();
+    });
+
+    const result = await replaySpotCandles(candles, baseConfig({
+      startDate: new Date(candles[60].time * 1000).toISOString(),
+      botConfig: { positionMode: "SINGLE", smartExitConfig: { enabled: false } },
+    }));
+    expect(result.trades[0].exitReason).toBe("END_OF_DATA");
+  });
+
+  it("replays the legacy take-profit for SINGLE lots on the high", async () => {
+    const candles = flatCandles(100);
+    candles[62] = { ...candles[62], high: 108, close: 104 };
+    let fired = false;
+    strategyMock.momentum.mockImplementation(() => {
+      if (fired) return HOLD;
+      fired = true;
+      return buy();
+    });
+
+    const result = await replaySpotCandles(candles, baseConfig({
+      startDate: new Date(candles[60].time * 1000).toISOString(),
+      botConfig: { positionMode: "SINGLE", smartExitConfig: { enabled: false }, takeProfitPercent: 7 },
+    }));
+    expect(result.trades[0].exitReason).toBe("TAKE_PROFIT");
+    expect(result.trades[0].exitPrice).toBeCloseTo(107, 6);
+  });
+
+  it("replays the legacy trailing stop from the highest price only in profit", async () => {
+    const candles = flatCandles(100);
+    candles[62] = { ...candles[62], high: 105, close: 104.8 };          // highest 105 → stop 102.9
+    candles[63] = { ...candles[63], open: 104, low: 102.5, close: 103 }; // trades through the stop
+    let fired = false;
+    strategyMock.momentum.mockImplementation(() => {
+      if (fired) return HOLD;
+      fired = true;
+      return buy();
+    });
+
+    const result = await replaySpotCandles(candles, baseConfig({
+      startDate: new Date(candles[60].time * 1000).toISOString(),
+      botConfig: { positionMode: "SINGLE", smartExitConfig: { enabled: false }, trailingStopEnabled: true, trailingStopPercent: 2 },
+    }));
+    expect(result.trades[0].exitReason).toBe("TRAILING_STOP");
+    expect(result.trades[0].exitPrice).toBeCloseTo(105 * 0.98, 6);
+  });
+
+  it("defaults to SINGLE like bot_config and skips the SMART_GUARD signals gate", async () => {
+    const candles = flatCandles(80);
+    strategyMock.momentum.mockReturnValue(buy(3, 0.9));
+
+    const result = await replaySpotCandles(candles, baseConfig({ botConfig: { smartExitConfig: { enabled: false } } }));
+    expect(result.gateBlocks.SIGNALS_THRESHOLD).toBeUndefined();
+    expect(result.summary.totalTrades).toBeGreaterThan(0);
+  });
+});
+
+describe("spotBacktestEngine.runBacktest", () => {
+  it("loads candles in ms from the repository and converts them to seconds", async () => {
+    const candles = flatCandles(100).map(c => ({ ...c, time: c.time * 1000 }));
+    vi.mocked(MarketCandleRepository.getCandlesSince).mockResolvedValue(candles as any);
+
+    const result = await spotBacktestEngine.runBacktest(baseConfig({
+      startDate: new Date(candles[60].time).toISOString(),
+    }));
+    expect(result.summary.candlesProcessed).toBe(40);
+    expect(result.trades).toHaveLength(0);
+  });
+
+  it("rejects an inverted date range", async () => {
+    await expect(spotBacktestEngine.runBacktest(baseConfig({
+      startDate: "2026-02-01", endDate: "2026-01-01",
+    }))).rejects.toThrow();
+  });
+});
+
+describe("helpers", () => {
+  it("botConfigFromRow parses decimal strings from bot_config", () => {
+    const cfg = botConfigFromRow({ stopLossPercent: "4.50", sgBeAtPct: "1.20", sgMaxOpenLotsPerPair: 2, transitionSizeFactor: "0.50" });
+    expect(cfg.stopLossPercent).toBe(4.5);
+    expect(cfg.sgBeAtPct).toBe(1.2);
+    expect(cfg.maxLotsPerPair).toBe(2);
+    expect(cfg.transitionSizeFactor).toBe(0.5);
+  });
+
+  it("botConfigFromRow parses the legacy TP and trailing fields", () => {
+    const cfg = botConfigFromRow({ positionMode: "SINGLE", takeProfitPercent: "7.00", trailingStopEnabled: true, trailingStopPercent: "2.50" });
+    expect(cfg.positionMode).toBe("SINGLE");
+    expect(cfg.takeProfitPercent).toBe(7);
+    expect(cfg.trailingStopEnabled).toBe(true);
+    expect(cfg.trailingStopPercent).toBe(2.5);
+  });
+
+  it("classifyEffectiveSpread allows below floor and rejects above threshold", () => {
+    expect(classifyEffectiveSpread(0.1, "TREND", {}).belowFloor).toBe(true);
+    expect(classifyEffectiveSpread(1.6, "TREND", {}).decision).toBe("REJECT");
+    expect(classifyEffectiveSpread(1.6, "RANGE", {}).decision).toBe("ALLOW");
+  });
+
+  it("decideSmartTimeStopV2 is a pure function of context and scores", () => {
+    const res = decideSmartTimeStopV2(
+      { pair: "BTC/USD", lotId: "L1", ageHours: 40, ttlHours: 36, regime: "RANGE", currentPrice: 99, entryPrice: 100, amount: 1, netPnlPct: -1.8, rawPnlPct: -1 },
+      { trendScore: 10, momentumScore: 10, riskScore: 90, dataPoints: 100 },
+    );
+    expect(res.trendScore).toBe(10);
+    expect(res.riskScore).toBe(90);
+    expect(res.decision).toBeDefined();
+  });
+});
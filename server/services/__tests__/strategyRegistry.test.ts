@@ -0,0 +1,145 @@
+/**
+ * Tests for the Spot strategy plugin registry.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+import { StrategyRegistry, pluginNotReadyReason } from "../strategyPlugins/StrategyRegistry";
+import { BUILTIN_STRATEGIES } from "../strategyPlugins/builtinStrategies";
+import type { IStrategyPlugin } from "../strategyPlugins/IStrategyPlugin";
+
+function plugin(overrides: Partial<IStrategyPlugin> = {}): IStrategyPlugin {
+  return {
+    id: "breakout_test",
+    name: "Breakout",
+    description: "test",
+    signalMode: "candles",
+    timeframes: ["15m"],
+    warmupLength: 10,
+    cycleIntervalMs: 30000,
+    preferredRegimes: ["TREND"],
+    defaultExitProfile: { sgBeAtPct: 1, sgTrailDistancePct: 1, sgTrailStepPct: 0.2, sgTpFixedPct: 3 },
+    paramsSchema: [],
+    analyze: (ctx) => ({ action: "hold", pair: ctx.pair, confidence: 0, reason: "test" }),
+    ...overrides,
+  };
+}
+
+const tmpDirs: string[] = [];
+
+afterAll(async () => {
+  for (const dir of tmpDirs) await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("StrategyRegistry — built-ins", () => {
+  const registry = new StrategyRegistry();
+
+  it("registers the legacy strategy ids and the candle strategies", () => {
+    expect(registry.list("cycle").map(p => p.id)).toEqual(["momentum", "mean_reversion", "scalping", "grid"]);
+    expect(registry.list("candles").map(p => p.id)).toEqual(["momentum_candles", "mean_reversion_simple"]);
+    expect(registry.get("scalping")!.cycleIntervalMs).toBe(10000);
+    expect(registry.get("grid")!.cycleIntervalMs).toBe(15000);
+  });
+
+  it("the router's RANGE pick is mean_reversion_simple", () => {
+    expect(registry.findForRegime("RANGE", "candles")!.id).toBe("mean_reversion_simple");
+  });
+
+  it("momentum_candles receives the regime-adjusted minSignals", () => {
+    const signal = registry.get("momentum_candles")!.analyze({
+      pair: "BTC/USD", currentPrice: 100, history: [], candles: [], minSignals: 4, params: {},
+    });
+    expect(signal.action).toBe("hold");
+    expect(signal.minSignalsRequired).toBe(4);
+  });
+
+  it("describe() exposes metadata without functions", () => {
+    const meta = registry.describe();
+    expect(meta).toHaveLength(BUILTIN_STRATEGIES.length);
+    expect(meta.every(m => !("analyze" in m) && m.builtin)).toBe(true);
+    expect(meta.find(m => m.id === "momentum_candles")!.paramsSchema.map(p => p.key)).toEqual(["minSignals", "signalScoringEnabled"]);
+  });
+});
+
+describe("StrategyRegistry — registration and assignment", () => {
+  it("rejects duplicates, bad ids and plugins without analyze()", () => {
+    const registry = new StrategyRegistry();
+    expect(() => registry.register(plugin({ id: "momentum" }))).toThrow(/already registered/);
+    expect(() => registry.register(plugin({ id: "Bad-Id" }))).toThrow(/Invalid strategy id/);
+    expect(() => registry.register({ ...plugin(), analyze: undefined } as any)).toThrow(/analyze/);
+  });
+
+  it("applies a pair assignment only in the plugin's signal mode", () => {
+    const registry = new StrategyRegistry();
+    const assignments = { "BTC/USD": "grid", "ETH/USD": "mean_reversion_simple", "SOL/USD": "gone" };
+    expect(registry.resolveForPair(assignments, "BTC/USD", "cycle")!.id).toBe("grid");
+    expect(registry.resolveForPair(assignments, "BTC/USD", "candles")).toBeUndefined();
+    expect(registry.resolveForPair(assignments, "ETH/USD", "candles")!.id).toBe("mean_reversion_simple");
+    expect(registry.resolveForPair(assignments, "SOL/USD", "cycle")).toBeUndefined();
+    expect(registry.resolveForPair(null, "BTC/USD", "cycle")).toBeUndefined();
+  });
+
+  it("validates assignment maps against registered ids", () => {
+    const registry = new StrategyRegistry();
+    expect(registry.validatePairStrategies({ "BTC/USD": "grid" })).toBeNull();
+    expect(registry.validatePairStrategies({ "BTC/USD": "nope" })).toMatch(/desconocida/);
+    expect(registry.validatePairStrategies(["grid"])).not.toBeNull();
+  });
+
+  it("a runtime plugin preferring RANGE does not displace the built-in router pick", () => {
+    const registry = new StrategyRegistry();
+    registry.register(plugin({ id: "range_test", preferredRegimes: ["RANGE"] }));
+    expect(registry.findForRegime("RANGE", "candles")!.id).toBe("mean_reversion_simple");
+  });
+});
+
+describe("pluginNotReadyReason", () => {
+  it("holds a candle plugin on an undeclared timeframe", () => {
+    expect(pluginNotReadyReason(plugin(), 50, "1h")).toMatch(/no soporta timeframe 1h/);
+    expect(pluginNotReadyReason(plugin(), 50, "15m")).toBeNull();
+  });
+
+  it("holds until the warm-up is covered", () => {
+    expect(pluginNotReadyReason(plugin(), 9, "15m")).toBe("Warm-up breakout_test: 9/10 velas");
+    expect(pluginNotReadyReason(plugin(), 10, "15m")).toBeNull();
+  });
+
+  it("cycle plugins only check the tick warm-up", () => {
+    const cycle = plugin({ signalMode: "cycle", timeframes: [], warmupLength: 26 });
+    expect(pluginNotReadyReason(cycle, 25)).toBe("Warm-up breakout_test: 25/26 ticks");
+    expect(pluginNotReadyReason(cycle, 26)).toBeNull();
+  });
+});
+
+describe("StrategyRegistry — external modules", () => {
+  it("loads plugins from STRATEGY_PLUGIN_MODULES and skips broken modules", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "strategy-plugins-"));
+    tmpDirs.push(dir);
+    const good = path.join(dir, "good.mjs");
+    await fs.writeFile(good, `
+      export const strategies = [{
+        id: "ext_breakout", name: "Ext", description: "x", signalMode: "cycle", timeframes: [],
+        warmupLength: 5, cycleIntervalMs: 20000, preferredRegimes: ["TREND"],
+        defaultExitProfile: { sgBeAtPct: 1, sgTrailDistancePct: 1, sgTrailStepPct: 0.2, sgTpFixedPct: 3 },
+        paramsSchema: [],
+        analyze: (ctx) => ({ action: "buy", pair: ctx.pair, confidence: 0.7, reason: "ext" }),
+      }];
+    `);
+    const broken = path.join(dir, "broken.mjs");
+    await fs.writeFile(broken, "export const nothing = 1;");
+
+    const registry = new StrategyRegistry();
+    const loaded = await registry.loadExternalModules(`${broken}, ${good}, ${path.join(dir, "missing.mjs")}`);
+    expect(loaded).toEqual(["ext_breakout"]);
+
+    const ext = registry.get("ext_breakout")!;
+    expect(ext.analyze({ pair: "BTC/USD", currentPrice: 1, history: [], candles: [], params: {} }).action).toBe("buy");
+    expect(registry.describe().find(d => d.id === "ext_breakout")).toMatchObject({ builtin: false, source: good });
+
+    // Loaded once per process
+    expect(await registry.loadExternalModules(good)).toEqual([]);
+  });
+});
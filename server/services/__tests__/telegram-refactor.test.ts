@@ -28,6 +28,7 @@ const {
   mockGetTelegramAlertRules,
   mockGetTelegramBotTokenById,
   mockGetDefaultTelegramBotToken,
+  mockGetNotificationChannels,
 } = vi.hoisted(() => ({
   mockGetTelegramGlobalConfig: vi.fn(),
   mockGetActiveTelegramChats: vi.fn(),
@@ -40,6 +41,7 @@ const {
   mockGetTelegramAlertRules: vi.fn(),
   mockGetTelegramBotTokenById: vi.fn(),
   mockGetDefaultTelegramBotToken: vi.fn(),
+  mockGetNotificationChannels: vi.fn(),
 }));
 
 vi.mock("../../storage", () => ({
@@ -55,6 +57,8 @@ vi.mock("../../storage", () => ({
     getTelegramAlertRules: mockGetTelegramAlertRules,
     getTelegramBotTokenById: mockGetTelegramBotTokenById,
     getDefaultTelegramBotToken: mockGetDefaultTelegramBotToken,
+    getNotificationChannels: mockGetNotificationChannels,
+    updateNotificationChannel: vi.fn(() => Promise.resolve(undefined)),
   },
 }));
 
@@ -73,6 +77,8 @@ vi.mock("../telegram", () => ({
 }));
 
 import { telegramNotificationCenter } from "../TelegramNotificationCenter";
+import { telegramService } from "../telegram";
+import { notificationChannelDispatcher } from "../notifications/NotificationChannelDispatcher";
 
 describe("FASE A — Telegram Refactor Tests", () => {
   beforeEach(() => {
@@ -100,6 +106,8 @@ describe("FASE A — Telegram Refactor Tests", () => {
     mockGetTelegramBotTokenById.mockResolvedValue(undefined);
     mockInsertTelegramAlertEvent.mockResolvedValue(undefined);
     mockInsertTelegramCommandLog.mockResolvedValue(undefined);
+    mockGetNotificationChannels.mockResolvedValue([]);
+    notificationChannelDispatcher.invalidateCache();
     telegramNotificationCenter.invalidateConfigCache();
     // Clear dedupe and rate-limit caches between tests
     (telegramNotificationCenter as any).dedupeCache.clear();
@@ -778,4 +786,83 @@ describe("FASE A — Telegram Refactor Tests", () => {
       expect(status === "blocked_by_alert_rule_disabled" || status === "blocked_by_missing_channel").toBe(true);
     });
   });
+
+  // ── Grid Isolated / AMA ────────────────────────────────────
+
+  describe("Grid / AMA routing", () => {
+    const chat = (extra: Record<string, any>) => ({
+      id: 1, chatId: "-100123", name: "Main", isActive: true, isDefault: true, alertTrades: true, alertErrors: true,
+      alertSystem: true, alertBalance: true, alertHeartbeat: true, alertPreferences: {}, tokenId: null, ...extra,
+    });
+    const gridAlert = {
+      sourceModule: "GRID_ISOLATED",
+      mode: "grid" as const,
+      alertType: "grid_cycle_fill",
+      alertSubtype: "grid_cycle_fill",
+      message: "Grid fill",
+      pair: "BTC/USD",
+    };
+
+    it("grid alerts are opt-in: default channel modes do not include grid", async () => {
+      mockGetTelegramChats.mockResolvedValue([chat({ enabledModes: ["trading", "idca", "fiscal", "smart_exit"], enabledAlerts: null })]);
+      expect(await telegramNotificationCenter.send(gridAlert)).toBe("blocked_by_channel_mode_not_allowed");
+    });
+
+    it("routes grid alerts to channels with GRID mode (UI casing) and grid category", async () => {
+      mockGetTelegramChats.mockResolvedValue([chat({ enabledModes: ["GRID"], enabledAlerts: ["grid"] })]);
+      expect(await telegramNotificationCenter.send(gridAlert)).toBe("sent");
+    });
+
+    it("per-subtype preference silences a single AMA alert", async () => {
+      mockGetTelegramChats.mockResolvedValue([chat({ enabledModes: ["ama"], enabledAlerts: ["ama"], alertPreferences: { ama_tranche_plan: false } })]);
+      const status = await telegramNotificationCenter.send({
+        sourceModule: "AMA", mode: "ama", alertType: "ama_tranche_plan", alertSubtype: "ama_tranche_plan", message: "Plan",
+      });
+      expect(status).toBe("blocked_by_channel_disabled");
+    });
+
+    it("/grid and /ama are read-only catalog commands", () => {
+      const defs = telegramNotificationCenter.getCommandDefinitions();
+      expect(defs.find(c => c.name === "/grid")).toMatchObject({ permission: "read_only", module: "grid" });
+      expect(defs.find(c => c.name === "/ama")).toMatchObject({ permission: "read_only", module: "ama" });
+    });
+  });
+
+  describe("Canales externos (webhook/email/ntfy/Gotify/Discord)", () => {
+    const backupWebhook = {
+      id: 9, name: "backup", type: "webhook", isActive: true, configJson: { url: "https://hooks.example/alerts" },
+      enabledModes: [], minSeverity: "CRITICAL", onlyOnTelegramFailure: true, lastSentAt: null, lastError: null,
+    };
+    const critical = {
+      sourceModule: "IDCA", mode: "idca" as const, alertType: "error_critical", severity: "CRITICAL" as const,
+      message: "<b>Fallo crítico</b>", pair: "BTC/USD",
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("Telegram caído: el canal de respaldo entrega, se audita y la alerta queda deduplicada", async () => {
+      const fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+      vi.stubGlobal("fetch", fetchMock);
+      mockGetNotificationChannels.mockResolvedValue([backupWebhook]);
+      vi.mocked(telegramService.sendToChat).mockResolvedValueOnce(false);
+
+      expect(await telegramNotificationCenter.send(critical)).toBe("failed_send");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(mockInsertTelegramAlertEvent).toHaveBeenCalledWith(expect.objectContaining({
+        transport: "webhook", notificationChannelId: 9, status: "sent",
+      }));
+      expect(await telegramNotificationCenter.send(critical)).toBe("blocked_by_dedupe");
+    });
+
+    it("el canal de respaldo no recibe nada si Telegram entrega", async () => {
+      const fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+      vi.stubGlobal("fetch", fetchMock);
+      mockGetNotificationChannels.mockResolvedValue([backupWebhook]);
+
+      expect(await telegramNotificationCenter.send(critical)).toBe("sent");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,179 @@
+/**
+ * Tests para los comandos de acción Telegram con confirmación en dos pasos.
+ *
+ * TA01. Allowlist TELEGRAM_ACTION_CHAT_IDS (chat o usuario; vacío = nadie)
+ * TA02. Store de confirmaciones: un solo uso, mismo chat/usuario, TTL
+ * TA03. /idca_pause y /idca_exit: validación y ejecución diferida
+ * TA04. /grid_mode, /spot_close y /tuning_*: validación y ejecución
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  getAssetConfig: vi.fn(),
+  upsertAssetConfig: vi.fn(),
+  getIdcaConfig: vi.fn(),
+  getActiveCycle: vi.fn(),
+  getActiveExitInstruction: vi.fn(),
+  createAndDispatchExitInstruction: vi.fn(),
+  getPrice: vi.fn(),
+  resolve: vi.fn(),
+  getOpenPositions: vi.fn(),
+  getTuningProposals: vi.fn(),
+  updateTuningProposalStatus: vi.fn(),
+}));
+
+vi.mock("../institutionalDca/IdcaRepository", () => ({
+  getAssetConfig: mocks.getAssetConfig,
+  upsertAssetConfig: mocks.upsertAssetConfig,
+  getIdcaConfig: mocks.getIdcaConfig,
+  getActiveCycle: mocks.getActiveCycle,
+}));
+vi.mock("../institutionalDca/IdcaExitInstructionRepository", () => ({
+  getActiveExitInstruction: mocks.getActiveExitInstruction,
+}));
+vi.mock("../institutionalDca/IdcaExitExecutor", () => ({
+  createAndDispatchExitInstruction: mocks.createAndDispatchExitInstruction,
+}));
+vi.mock("../MarketDataService", () => ({ MarketDataService: { getPrice: mocks.getPrice } }));
+vi.mock("../gridIsolated/gridIsolatedRegistry", () => ({
+  gridIsolatedRegistry: { resolve: mocks.resolve },
+  GridInstanceError: class GridInstanceError extends Error {},
+}));
+vi.mock("../../storage", () => ({
+  storage: {
+    getOpenPositions: mocks.getOpenPositions,
+    getTuningProposals: mocks.getTuningProposals,
+    updateTuningProposalStatus: mocks.updateTuningProposalStatus,
+  },
+}));
+
+import {
+  ACTION_CONFIRM_TTL_MS,
+  ActionCommandError,
+  ActionConfirmationStore,
+  isActionChatAllowed,
+  planActionCommand,
+} from "../telegram/actionCommands";
+
+const noopPlan = { summary: "x", execute: async () => "ok" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.getIdcaConfig.mockResolvedValue({ mode: "live" });
+});
+
+describe("allowlist", () => {
+  const original = process.env.TELEGRAM_ACTION_CHAT_IDS;
+  afterEach(() => {
+    process.env.TELEGRAM_ACTION_CHAT_IDS = original;
+  });
+
+  it("TA01. chat o usuario en la lista; vacía → nadie", () => {
+    process.env.TELEGRAM_ACTION_CHAT_IDS = "";
+    expect(isActionChatAllowed(-100123, 42)).toBe(false);
+
+    process.env.TELEGRAM_ACTION_CHAT_IDS = " -100123 , 777 ";
+    expect(isActionChatAllowed(-100123)).toBe(true);
+    expect(isActionChatAllowed(-100999, 777)).toBe(true);
+    expect(isActionChatAllowed(-100999, 42)).toBe(false);
+  });
+});
+
+describe("ActionConfirmationStore", () => {
+  it("TA02. un solo uso, mismo chat/usuario y TTL", () => {
+    let clock = 1_000;
+    const store = new ActionConfirmationStore(() => clock);
+
+    const a = store.create(10, 42, "/idca_pause BTC/USD", noopPlan);
+    expect(store.take(a.id, 11, 42)).toEqual({ ok: false, reason: "wrong_chat" });
+    expect(store.take(a.id, 10, 43)).toEqual({ ok: false, reason: "wrong_user" });
+    const taken = store.take(a.id, 10, 42);
+    expect(taken.ok && taken.action.commandText).toBe("/idca_pause BTC/USD");
+    expect(store.take(a.id, 10, 42)).toEqual({ ok: false, reason: "not_found" });
+
+    const b = store.create(10, 42, "/grid_mode OFF", noopPlan);
+    clock += ACTION_CONFIRM_TTL_MS + 1;
+    expect(store.take(b.id, 10, 42)).toEqual({ ok: false, reason: "expired" });
+
+    store.create(10, 42, "/grid_mode OFF", noopPlan);
+    clock += ACTION_CONFIRM_TTL_MS + 1;
+    store.create(10, 42, "/grid_mode SHADOW", noopPlan);
+    expect(store.size()).toBe(1);
+  });
+});
+
+describe("planActionCommand — IDCA", () => {
+  it("TA03. pausa por par y salida con trigger de precio", async () => {
+    mocks.getAssetConfig.mockResolvedValue({ pair: "BTC/USD", enabled: true });
+    await expect(planActionCommand("/idca_resume", ["BTC/USD"])).rejects.toThrow(/ya está activo/);
+    await expect(planActionCommand("/idca_pause", [])).rejects.toBeInstanceOf(ActionCommandError);
+
+    const pause = await planActionCommand("/idca_pause", ["btc-usd"]);
+    expect(pause.summary).toContain("BTC/USD");
+    expect(mocks.upsertAssetConfig).not.toHaveBeenCalled();
+    await pause.execute();
+    expect(mocks.upsertAssetConfig).toHaveBeenCalledWith("BTC/USD", { enabled: false });
+
+    await expect(planActionCommand("/idca_exit", ["BTC/USD", "30"])).rejects.toThrow(/Uso/);
+    mocks.getActiveCycle.mockResolvedValue(null);
+    await expect(planActionCommand("/idca_exit", ["BTC/USD", "50"])).rejects.toThrow(/No hay ciclo/);
+
+    const cycle = { id: 7, pair: "BTC/USD", mode: "live" };
+    mocks.getActiveCycle.mockResolvedValue(cycle);
+    mocks.getActiveExitInstruction.mockResolvedValue(null);
+    mocks.getPrice.mockResolvedValue(100_000);
+    mocks.createAndDispatchExitInstruction.mockResolvedValue({ id: 99 });
+
+    const exit = await planActionCommand("/idca_exit", ["BTC/USD", "50", "105000"]);
+    expect(mocks.getActiveCycle).toHaveBeenCalledWith("BTC/USD", "live");
+    expect(exit.summary).toContain("50%");
+    const result = await exit.execute();
+    expect(mocks.createAndDispatchExitInstruction).toHaveBeenCalledWith(cycle, expect.objectContaining({
+      type: "price_target", closePct: 50, triggerPrice: 105_000, triggerDirection: "above",
+    }));
+    expect(result).toContain("#99");
+
+    // Otra instrucción creada entre la confirmación y la ejecución → no duplica
+    mocks.getActiveExitInstruction.mockResolvedValue({ id: 100 });
+    await expect(exit.execute()).rejects.toThrow(/instrucción de salida activa/);
+    expect(mocks.createAndDispatchExitInstruction).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("planActionCommand — Grid / Spot / Tuning", () => {
+  it("TA04. validación y ejecución", async () => {
+    const engine = {
+      getConfig: () => ({ mode: "SHADOW" }),
+      getPair: () => "BTC/USD",
+      loadConfig: vi.fn(),
+      changeMode: vi.fn().mockResolvedValue({ success: false, reason: "mode locked" }),
+    };
+    mocks.resolve.mockResolvedValue(engine);
+    await expect(planActionCommand("/grid_mode", ["LIVE"])).rejects.toThrow(/Uso/);
+    await expect(planActionCommand("/grid_mode", ["shadow"])).rejects.toThrow(/ya está en SHADOW/);
+    const grid = await planActionCommand("/grid_mode", ["OFF", "BTC/USD"]);
+    expect(mocks.resolve).toHaveBeenCalledWith("BTC/USD");
+    await expect(grid.execute()).rejects.toThrow("mode locked");
+
+    mocks.getOpenPositions.mockResolvedValue([{ lotId: "L1", pair: "ETH/USD", amount: "0.5", entryPrice: "3000", status: "OPEN" }]);
+    await expect(planActionCommand("/spot_close", ["L1"])).rejects.toThrow(/Motor de trading/);
+    const forceClosePosition = vi.fn().mockResolvedValue({ success: true, pnlUsd: 12.5 });
+    await expect(planActionCommand("/spot_close", ["L2"], { forceClosePosition })).rejects.toThrow(/L2/);
+    mocks.getPrice.mockResolvedValue(3100);
+    const close = await planActionCommand("/spot_close", ["L1"], { forceClosePosition });
+    expect(await close.execute()).toContain("$12.50");
+    expect(forceClosePosition).toHaveBeenCalledWith("ETH/USD", 3100, expect.stringMatching(/^TG-CLOSE-/), expect.any(String), "L1");
+
+    mocks.getTuningProposals.mockResolvedValue([
+      { id: 3, status: "READY", strategyType: "spot", pair: "BTC/USD" },
+      { id: 4, status: "REJECTED", strategyType: "spot", pair: null },
+    ]);
+    mocks.updateTuningProposalStatus.mockResolvedValue({ id: 3 });
+    await expect(planActionCommand("/tuning_approve", ["4"])).rejects.toThrow(/REJECTED/);
+    await expect(planActionCommand("/tuning_approve", ["abc"])).rejects.toThrow(/Uso/);
+    const reject = await planActionCommand("/tuning_reject", ["3", "demasiado", "agresivo"]);
+    await reject.execute();
+    expect(mocks.updateTuningProposalStatus).toHaveBeenCalledWith(3, "REJECTED", { rejectionReason: "demasiado agresivo" });
+  });
+});
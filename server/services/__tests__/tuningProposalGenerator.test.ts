@@ -0,0 +1,196 @@
+/**
+ * Tuning Proposal Generator Tests
+ *
+ * - Replay TP / trailing sobre MFE
+ * - Filtros de score / spread
+ * - minSignals por replay contrafactual de velas
+ * - Mejora mínima, retención y scores
+ * - runOnce crea propuestas OBSERVING y no duplica abiertas
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockStorage = vi.hoisted(() => ({
+  getAutotuningTradeSamples: vi.fn(),
+  getAiShadowOutcomes: vi.fn(),
+  getBotConfig: vi.fn(),
+  getTuningProposals: vi.fn(),
+  getActiveStrategyProfile: vi.fn(),
+  saveTuningProposal: vi.fn(),
+}));
+vi.mock("../../storage", () => ({ storage: mockStorage }));
+
+const mockCounterfactual = vi.hoisted(() => ({
+  loadDataset: vi.fn(),
+  runCounterfactual: vi.fn(),
+}));
+vi.mock("../backtest/signalCounterfactual", () => ({
+  signalCounterfactualEngine: { loadDataset: mockCounterfactual.loadDataset },
+  runCounterfactual: mockCounterfactual.runCounterfactual,
+}));
+
+import {
+  computeReplayMetrics,
+  replayTakeProfit,
+  replayTrailing,
+  replayMinGate,
+  replayMaxSpread,
+  evaluateParameter,
+  evaluateMinSignals,
+  replayMetricsFromCounterfactual,
+  tuningProposalGenerator,
+  type ReplaySample,
+} from "../TuningProposalGenerator";
+
+function sample(pnl: number, extra: Partial<ReplaySample> = {}): ReplaySample {
+  return { weight: 1, pnl, ...extra };
+}
+
+/** Counterfactual book with `trades` trades and the given expectancy (USD). */
+function book(trades: number, expectancyUsd: number, profitFactor: number | null = 1.5): any {
+  return {
+    trades, wins: Math.round(trades / 2), losses: trades - Math.round(trades / 2),
+    winRatePct: 50, expectancyUsd, netPnlUsd: trades * expectancyUsd, profitFactor,
+    maxDrawdownUsd: 0, maxDrawdownPct: 0, maxPairDrawdownPct: 0, byRegime: {},
+  };
+}
+
+describe("Replay helpers", () => {
+  it("TPG-01: TP más bajo cierra en TP los trades cuyo MFE lo alcanzó", () => {
+    const out = replayTakeProfit([
+      sample(-1, { mfePct: 3 }),
+      sample(6, { mfePct: 6.5 }),
+      sample(-2, { mfePct: 1 }),
+      sample(1, { mfePct: null }),
+    ], 3);
+    expect(out.map(s => s.pnl)).toEqual([3 - 0.52, 3 - 0.52, -2, 1]);
+  });
+
+  it("TPG-02: trailing solo mejora cuando MFE − trail supera la salida real", () => {
+    const out = replayTrailing([sample(0.5, { mfePct: 4 }), sample(3, { mfePct: 4 }), sample(-1, { mfePct: 0.8 })], 1);
+    expect(out[0].pnl).toBeCloseTo(2.48);
+    expect(out[1].pnl).toBe(3);
+    expect(out[2].pnl).toBe(-1);
+  });
+
+  it("TPG-03: los filtros descartan fuera de umbral y conservan muestras sin dato", () => {
+    const samples = [sample(1, { signalScore: 3, spreadPct: 0.2 }), sample(-1, { signalScore: 5, spreadPct: 1.5 }), sample(2)];
+    expect(replayMinGate(samples, "signalScore", 4)).toHaveLength(2);
+    expect(replayMaxSpread(samples, 1)).toHaveLength(2);
+  });
+
+  it("TPG-04: métricas ponderadas por evidencia", () => {
+    const m = computeReplayMetrics([sample(2, { weight: 1 }), sample(-1, { weight: 0.5 })]);
+    expect(m.weightedSamples).toBe(1.5);
+    expect(m.winRate).toBeCloseTo(0.6667, 3);
+    expect(m.avgPnl).toBe(1);
+    expect(m.profitFactor).toBe(4);
+  });
+});
+
+describe("evaluateParameter", () => {
+  // 40 trades: la mitad tocó +3% de MFE y devolvió hasta -1%; la otra mitad salió a +1%
+  const samples: ReplaySample[] = [
+    ...Array.from({ length: 20 }, () => sample(-1, { mfePct: 3.2, maePct: -1.5, signalScore: 2, spreadPct: 0.9 })),
+    ...Array.from({ length: 20 }, () => sample(1, { mfePct: 1.4, maePct: -0.5, signalScore: 5, spreadPct: 0.3 })),
+  ];
+
+  it("TPG-05: propone un TP más ajustado con métricas antes/después y scores", () => {
+    const c = evaluateParameter("BOT_SPOT", "BTC/USD", "takeProfitPercent", 4, samples);
+    expect(c).not.toBeNull();
+    expect(c!.to).toBe(3);
+    expect(c!.before.avgPnl).toBe(0);
+    expect(c!.after.avgPnl).toBeGreaterThan(c!.before.avgPnl);
+    expect(c!.confidenceScore).toBeGreaterThan(0);
+    expect(c!.riskScore).toBeGreaterThan(0);
+    expect(c!.recommendation).toContain("takeProfitPercent: 4 → 3");
+  });
+
+  it("TPG-06: no propone filtros que descartan más del 40% de los trades", () => {
+    expect(evaluateParameter("BOT_SPOT", "BTC/USD", "spreadMaxPct", 1, samples)).toBeNull();
+  });
+
+  it("TPG-07: sin muestras suficientes no hay propuesta", () => {
+    expect(evaluateParameter("BOT_SPOT", "BTC/USD", "takeProfitPercent", 4, samples.slice(0, 10))).toBeNull();
+  });
+});
+
+describe("evaluateMinSignals", () => {
+  it("TPG-10: propone el minSignals cuyo replay contrafactual mejora el PnL medio", async () => {
+    const byValue: Record<number, any> = { 2: book(60, 0.2), 3: book(60, 0.3), 4: book(45, 0.6, 2.1), 5: book(40, 0.5, 2.4) };
+    const c = await evaluateMinSignals("BOT_SPOT", "BTC/USD", 3, async (v) => replayMetricsFromCounterfactual(byValue[v]));
+
+    expect(c).not.toBeNull();
+    expect(c!.parameter).toBe("minSignals");
+    expect(c!.to).toBe(4);
+    expect(c!.before.unit).toBe("usd");
+    expect(c!.after.samples).toBe(45);
+    expect(c!.recommendation).toContain("minSignals: 3 → 4");
+  });
+
+  it("TPG-11: descarta valores que pierden más del 40% de los trades", async () => {
+    const byValue: Record<number, any> = { 2: book(60, 0.1), 3: book(60, 0.3), 4: book(30, 1.5, 3), 5: book(30, 1.5, 3) };
+    const c = await evaluateMinSignals("BOT_SPOT", "BTC/USD", 3, async (v) => replayMetricsFromCounterfactual(byValue[v]));
+    expect(c).toBeNull();
+  });
+});
+
+describe("runOnce", () => {
+  const rows = [
+    ...Array.from({ length: 20 }, (_, i) => ({ sourceTradeId: `a${i}`, sourceMode: "REAL", strategyType: "BOT_SPOT", pair: "BTC/USD", evidenceWeight: 1, regime: null, signalScore: null, spreadPct: null, exitCategory: "RISK_EXIT", pnlPct: -1, pnlNetUsd: -1, mfePct: 3.2, maePct: -1.5, exitTs: null })),
+    ...Array.from({ length: 20 }, (_, i) => ({ sourceTradeId: `b${i}`, sourceMode: "REAL", strategyType: "BOT_SPOT", pair: "BTC/USD", evidenceWeight: 1, regime: null, signalScore: null, spreadPct: null, exitCategory: "PROFIT_EXIT", pnlPct: 1, pnlNetUsd: 1, mfePct: 1.4, maePct: -0.5, exitTs: null })),
+    { sourceTradeId: "c0", sourceMode: "REAL", strategyType: "BOT_SPOT", pair: "ETH/USD", evidenceWeight: 1, regime: null, signalScore: null, spreadPct: null, exitCategory: null, pnlPct: 1, pnlNetUsd: 1, mfePct: 1, maePct: 0, exitTs: null },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage.getAutotuningTradeSamples.mockResolvedValue(rows);
+    mockStorage.getAiShadowOutcomes.mockResolvedValue([]);
+    mockStorage.getBotConfig.mockResolvedValue({ takeProfitPercent: "4.00", trailingStopPercent: "2.00", spreadMaxPct: "2.00" });
+    mockStorage.getActiveStrategyProfile.mockResolvedValue(undefined);
+    mockStorage.saveTuningProposal.mockImplementation(async (p: any) => ({ id: 11, ...p }));
+  });
+
+  it("TPG-08: crea propuestas en OBSERVING y salta pares con pocos trades", async () => {
+    mockStorage.getTuningProposals.mockResolvedValue([]);
+    const result = await tuningProposalGenerator.runOnce();
+
+    expect(result.groups).toBe(2);
+    expect(result.skipped).toEqual([expect.objectContaining({ pair: "ETH/USD" })]);
+    expect(result.created.length).toBeGreaterThan(0);
+    const saved = mockStorage.saveTuningProposal.mock.calls[0][0];
+    expect(saved.status).toBe("OBSERVING");
+    expect(saved.pair).toBe("BTC/USD");
+    expect(saved.parameterChangesJson).toMatchObject({ source: "auto_generator" });
+    expect(saved.metricsBeforeJson).toBeDefined();
+    expect(saved.metricsAfterJson).toBeDefined();
+    expect(saved.sampleCountAtDecision).toBe(40);
+  });
+
+  it("TPG-09: no duplica una propuesta abierta del mismo parámetro", async () => {
+    mockStorage.getTuningProposals.mockResolvedValue([
+      { id: 1, status: "OBSERVING", strategyType: "BOT_SPOT", pair: "BTC/USD", parameterChangesJson: { parameter: "takeProfitPercent" } },
+      { id: 2, status: "TESTING",   strategyType: "BOT_SPOT", pair: "BTC/USD", parameterChangesJson: { parameter: "trailingStopPercent" } },
+    ]);
+    const result = await tuningProposalGenerator.runOnce();
+    expect(result.created).toHaveLength(0);
+    expect(result.duplicates).toBeGreaterThan(0);
+  });
+
+  it("TPG-12: reproduce minSignals del perfil sobre las velas del par", async () => {
+    mockStorage.getTuningProposals.mockResolvedValue([]);
+    mockStorage.getActiveStrategyProfile.mockResolvedValue({ id: 5, configJson: { minSignals: 3 } });
+    mockCounterfactual.loadDataset.mockResolvedValue({ window: {}, candlesByPair: {}, skippedPairs: [] });
+    mockCounterfactual.runCounterfactual.mockImplementation(async (_ds: any, t: any) => ({
+      metrics: t.TREND === 4 ? book(50, 0.8, 2) : book(60, 0.2),
+      candlesProcessed: 0,
+    }));
+
+    await tuningProposalGenerator.runOnce();
+
+    expect(mockCounterfactual.loadDataset).toHaveBeenCalledWith({ pairs: ["BTC/USD"], days: 90 });
+    expect(mockCounterfactual.runCounterfactual).toHaveBeenCalledWith(expect.anything(), { TREND: 3, RANGE: 3, TRANSITION: 3 });
+    const saved = mockStorage.saveTuningProposal.mock.calls.map(c => c[0]).find(p => p.parameterChangesJson.parameter === "minSignals");
+    expect(saved).toMatchObject({ profileId: 5, parameterChangesJson: { from: 3, to: 4 } });
+  });
+});
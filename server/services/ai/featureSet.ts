@@ -0,0 +1,123 @@
+/**
+ * featureSet — versioned feature vector recorded in ai_feature_store at
+ * decision time and consumed by mlTrainer.py / treeEnsemble.ts.
+ *
+ * fs_v2 = the 16 base AiFeatures + decision context (regime one-hot, MTF
+ * alignment, momentum expansion metrics). Bump AI_FEATURE_SET_VERSION
+ * whenever a feature is added, removed or computed differently: training
+ * only uses rows of the current version.
+ *
+ * PURE module — no fs, no DB.
+ */
+
+import type { AiFeatures } from "../aiService";
+
+export const AI_FEATURE_SET_VERSION = "fs_v2";
+
+/** Base feature order — must match FEATURE_ORDER in mlTrainer.py. */
+export const AI_BASE_FEATURES: ReadonlyArray<keyof AiFeatures> = [
+  "rsi14",
+  "macdLine",
+  "macdSignal",
+  "macdHist",
+  "bbUpper",
+  "bbMiddle",
+  "bbLower",
+  "atr14",
+  "ema12",
+  "ema26",
+  "volume24hChange",
+  "priceChange1h",
+  "priceChange4h",
+  "priceChange24h",
+  "spreadPct",
+  "confidence",
+];
+
+export interface AiContextFeatures {
+  regimeTrend: number;
+  regimeRange: number;
+  regimeTransition: number;
+  /** MTF alignment in [-1, 1] (0 when unavailable) */
+  mtfAlignment: number;
+  /** 1 when the momentum expansion detector ran for this signal */
+  expansionAvailable: number;
+  expansionScore: number;
+  expansionVolumeRatio: number;
+  expansionBodyPct: number;
+  expansionCloseLocation: number;
+  expansionPriceVsEma20Pct: number;
+  expansionEmaSpreadPct: number;
+  expansionUpperWickRatio: number;
+}
+
+export const AI_CONTEXT_FEATURES: ReadonlyArray<keyof AiContextFeatures> = [
+  "regimeTrend",
+  "regimeRange",
+  "regimeTransition",
+  "mtfAlignment",
+  "expansionAvailable",
+  "expansionScore",
+  "expansionVolumeRatio",
+  "expansionBodyPct",
+  "expansionCloseLocation",
+  "expansionPriceVsEma20Pct",
+  "expansionEmaSpreadPct",
+  "expansionUpperWickRatio",
+];
+
+/** Full fs_v2 order. Legacy models only declare the base features. */
+export const AI_FEATURE_SET: ReadonlyArray<string> = [...AI_BASE_FEATURES, ...AI_CONTEXT_FEATURES];
+
+export type AiFeatureRecord = AiFeatures & Partial<AiContextFeatures>;
+
+/** Defaults for missing / non-finite features (same as mlTrainer.py). */
+export const AI_FEATURE_DEFAULTS: Readonly<Record<string, number>> = { rsi14: 50, confidence: 50 };
+
+export type AiRegime = "TREND" | "RANGE" | "TRANSITION";
+
+/** Regime detector output → segment regime (ERROR / DISABLED / null → null). */
+export function normalizeAiRegime(regime: string | null | undefined): AiRegime | null {
+  const r = (regime ?? "").toUpperCase();
+  return r === "TREND" || r === "RANGE" || r === "TRANSITION" ? r : null;
+}
+
+export interface AiDecisionContext {
+  regime?: string | null;
+  mtfAlignment?: number | null;
+  expansion?: {
+    score: number;
+    metrics: {
+      volumeRatio: number;
+      bodyPct: number;
+      closeLocation: number;
+      priceVsEma20Pct: number;
+      emaSpreadPct: number;
+      upperWickRatio: number;
+    };
+  } | null;
+}
+
+function finite(n: number | null | undefined): number {
+  return typeof n === "number" && Number.isFinite(n) ? n : 0;
+}
+
+export function buildAiFeatureRecord(base: AiFeatures, ctx: AiDecisionContext): AiFeatureRecord {
+  const regime = normalizeAiRegime(ctx.regime);
+  const exp = ctx.expansion ?? null;
+  return {
+    ...base,
+    regimeTrend: regime === "TREND" ? 1 : 0,
+    regimeRange: regime === "RANGE" ? 1 : 0,
+    regimeTransition: regime === "TRANSITION" ? 1 : 0,
+    mtfAlignment: finite(ctx.mtfAlignment),
+    expansionAvailable: exp ? 1 : 0,
+    expansionScore: finite(exp?.score),
+    expansionVolumeRatio: finite(exp?.metrics.volumeRatio),
+    expansionBodyPct: finite(exp?.metrics.bodyPct),
+    expansionCloseLocation: finite(exp?.metrics.closeLocation),
+    expansionPriceVsEma20Pct: finite(exp?.metrics.priceVsEma20Pct),
+    expansionEmaSpreadPct: finite(exp?.metrics.emaSpreadPct),
+    expansionUpperWickRatio: finite(exp?.metrics.upperWickRatio),
+  };
+}
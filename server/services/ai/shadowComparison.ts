@@ -0,0 +1,89 @@
+/**
+ * shadowComparison — side-by-side summary of the active and previous AI
+ * filter models over the shadow decisions where both were scored.
+ *
+ * Only rows for the most recent (modelVersion, compareModelVersion) pair are
+ * counted, so a new training or a rollback starts a fresh comparison.
+ *
+ * PURE module — no DB.
+ */
+
+export interface ShadowComparisonRow {
+  modelVersion: string | null;
+  compareModelVersion: string | null;
+  score: string;
+  compareScore: string | null;
+  wouldBlock: boolean;
+  compareWouldBlock: boolean | null;
+  finalPnlNet: string | null;
+}
+
+export interface ShadowModelComparison {
+  modelVersion: string | null;
+  compareModelVersion: string;
+  /** Decisions scored by both models */
+  compared: number;
+  /** Both models took the same ALLOW/BLOCK decision */
+  agreement: number;
+  agreementPct: number;
+  /** Mean of (active score - previous score) */
+  avgScoreDelta: number;
+  /** Decisions with a closed-trade outcome */
+  evaluated: number;
+  activeBlockedLosers: number;
+  compareBlockedLosers: number;
+  activeBlockedWinners: number;
+  compareBlockedWinners: number;
+}
+
+/** `rows` newest first, as returned by getAiShadowReport. */
+export function summarizeShadowComparison(rows: ShadowComparisonRow[]): ShadowModelComparison | null {
+  const latest = rows.find(r => r.compareModelVersion && r.compareScore !== null && r.compareWouldBlock !== null);
+  if (!latest) return null;
+
+  const pairRows = rows.filter(r =>
+    r.modelVersion === latest.modelVersion &&
+    r.compareModelVersion === latest.compareModelVersion &&
+    r.compareScore !== null &&
+    r.compareWouldBlock !== null
+  );
+
+  let agreement = 0;
+  let deltaSum = 0;
+  let evaluated = 0;
+  let activeBlockedLosers = 0;
+  let compareBlockedLosers = 0;
+  let activeBlockedWinners = 0;
+  let compareBlockedWinners = 0;
+
+  for (const r of pairRows) {
+    if (r.wouldBlock === r.compareWouldBlock) agreement++;
+    deltaSum += parseFloat(r.score) - parseFloat(r.compareScore!);
+    if (r.finalPnlNet === null) continue;
+    evaluated++;
+    const loser = parseFloat(r.finalPnlNet) < 0;
+    if (r.wouldBlock) {
+      if (loser) activeBlockedLosers++;
+      else activeBlockedWinners++;
+    }
+    if (r.compareWouldBlock) {
+      if (loser) compareBlockedLosers++;
+      else compareBlockedWinners++;
+    }
+  }
+
+  const compared = pairRows.length;
+  return {
+    modelVersion: latest.modelVersion,
+    compareModelVersion: latest.compareModelVersion!,
+    compared,
+    agreement,
+    agreementPct: compared > 0 ? (agreement / compared) * 100 : 0,
+    avgScoreDelta: compared > 0 ? deltaSum / compared : 0,
+    evaluated,
+    activeBlockedLosers,
+    compareBlockedLosers,
+    activeBlockedWinners,
+    compareBlockedWinners,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * treeEnsemble — portable JSON format for the AI entry filter model and its
+ * in-process TypeScript evaluator.
+ *
+ * mlTrainer.py exports the fitted RandomForest as one flat array set per tree
+ * (sklearn's tree_ layout). Scoring is the mean of the per-tree leaf
+ * probabilities of class 1 (win), i.e. sklearn's predict_proba()[:, 1].
+ *
+ * sklearn casts X to float32 before comparing against the (float64)
+ * thresholds, so features go through Math.fround() for identical splits.
+ *
+ * Besides the pooled forest a model may carry per-pair / per-regime segment
+ * forests; selectSegment() picks the most specific one available and falls
+ * back to the pooled trees.
+ *
+ * PURE module — no fs, no DB.
+ */
+
+import {
+  AI_BASE_FEATURES,
+  AI_FEATURE_DEFAULTS,
+  AI_FEATURE_SET,
+  normalizeAiRegime,
+  type AiFeatureRecord,
+} from "./featureSet";
+
+export const TREE_ENSEMBLE_FORMAT = "tree_ensemble_v1";
+
+/** Legacy feature order (16 base features) — models without a feature set version use it. */
+export const AI_FEATURE_ORDER = AI_BASE_FEATURES;
+
+export const POOLED_SEGMENT = "pooled";
+
+export interface AiDecisionTree {
+  /** Split feature index per node (-2 on leaves) */
+  feature: number[];
+  threshold: number[];
+  /** Child node indexes; -1 marks a leaf */
+  left: number[];
+  right: number[];
+  /** P(win) at each node (only read on leaves) */
+  value: number[];
+}
+
+export interface AiModelMetrics {
+  accuracy?: number;
+  precision?: number;
+  recall?: number;
+  f1?: number;
+  nSamples?: number;
+  winRate?: number;
+}
+
+/** Reliability of the out-of-fold probabilities (walk-forward validation). */
+export interface AiModelCalibration {
+  brier: number;
+  bins: Array<{ lo: number; hi: number; count: number; meanPredicted: number | null; winRate: number | null }>;
+}
+
+export interface AiModelSegment {
+  /** "BTC/USD|TREND", "BTC/USD|*" or "*|RANGE" */
+  key: string;
+  pair: string | null;
+  regime: string | null;
+  trees: AiDecisionTree[];
+  metrics?: AiModelMetrics;
+  calibration?: AiModelCalibration;
+  /** Mean impurity decrease per feature name (sums to 1) */
+  featureImportance?: Record<string, number>;
+}
+
+export interface AiTreeEnsembleModel {
+  format: typeof TREE_ENSEMBLE_FORMAT;
+  version: string;
+  createdAt: string;
+  features: string[];
+  /** Feature store version the model was trained on (absent = legacy base features) */
+  featureSetVersion?: string;
+  /** Pooled forest — used when no segment matches */
+  trees: AiDecisionTree[];
+  metrics?: AiModelMetrics;
+  calibration?: AiModelCalibration;
+  featureImportance?: Record<string, number>;
+  segments?: AiModelSegment[];
+  params?: Record<string, unknown>;
+}
+
+export function featureVector(features: AiFeatureRecord, order: ReadonlyArray<string> = AI_FEATURE_ORDER): number[] {
+  return order.map(name => {
+    const v = Number((features as unknown as Record<string, unknown>)[name]);
+    return Number.isFinite(v) ? v : AI_FEATURE_DEFAULTS[name] ?? 0;
+  });
+}
+
+export function segmentKey(pair: string | null, regime: string | null): string {
+  return `${pair ?? "*"}|${regime ?? "*"}`;
+}
+
+/**
+ * Most specific forest for the decision: pair+regime → pair → regime →
+ * pooled. Returns the segment key ("pooled" for the fallback) and its trees.
+ */
+export function selectSegment(
+  model: AiTreeEnsembleModel,
+  pair?: string | null,
+  regime?: string | null,
+): { key: string; trees: AiDecisionTree[] } {
+  const segments = model.segments ?? [];
+  if (segments.length > 0) {
+    const r = normalizeAiRegime(regime);
+    const candidates = [
+      pair && r ? segmentKey(pair, r) : null,
+      pair ? segmentKey(pair, null) : null,
+      r ? segmentKey(null, r) : null,
+    ];
+    for (const key of candidates) {
+      const segment = key ? segments.find(s => s.key === key) : undefined;
+      if (segment) return { key: segment.key, trees: segment.trees };
+    }
+  }
+  return { key: POOLED_SEGMENT, trees: model.trees };
+}
+
+export function scoreTree(tree: AiDecisionTree, x: number[]): number {
+  let node = 0;
+  while (tree.left[node] !== -1) {
+    node = Math.fround(x[tree.feature[node]]) <= tree.threshold[node]
+      ? tree.left[node]
+      : tree.right[node];
+  }
+  return tree.value[node];
+}
+
+function scoreForest(trees: AiDecisionTree[], x: number[]): number {
+  let sum = 0;
+  for (const tree of trees) sum += scoreTree(tree, x);
+  return sum / trees.length;
+}
+
+/** P(win) in [0, 1] from the pooled forest. */
+export function predictProba(model: AiTreeEnsembleModel, features: AiFeatureRecord): number {
+  return scoreForest(model.trees, featureVector(features, model.features));
+}
+
+/** P(win) from the forest selectSegment() picks for this pair / regime. */
+export function predictSegmentProba(
+  model: AiTreeEnsembleModel,
+  features: AiFeatureRecord,
+  pair?: string | null,
+  regime?: string | null,
+): { score: number; segment: string } {
+  const { key, trees } = selectSegment(model, pair, regime);
+  return { score: scoreForest(trees, featureVector(features, model.features)), segment: key };
+}
+
+function validateTrees(trees: unknown, nFeatures: number, label: string): string | null {
+  if (!Array.isArray(trees) || trees.length === 0) return `${label}: no contiene árboles`;
+  for (let t = 0; t < trees.length; t++) {
+    const tree = trees[t] as AiDecisionTree;
+    const n = tree?.left?.length ?? 0;
+    if (n === 0 || [tree.right, tree.feature, tree.threshold, tree.value].some(a => !Array.isArray(a) || a.length !== n)) {
+      return `${label}, árbol ${t}: arrays vacíos o de distinta longitud`;
+    }
+    for (let i = 0; i < n; i++) {
+      if (tree.left[i] === -1) {
+        if (!(tree.value[i] >= 0 && tree.value[i] <= 1)) return `${label}, árbol ${t}: probabilidad fuera de rango en hoja ${i}`;
+        continue;
+      }
+      // Children always come after their parent in sklearn's layout — guarantees termination
+      if (!(tree.left[i] > i && tree.left[i] < n && tree.right[i] > i && tree.right[i] < n)) {
+        return `${label}, árbol ${t}: hijos inválidos en nodo ${i}`;
+      }
+      if (!(tree.feature[i] >= 0 && tree.feature[i] < nFeatures)) {
+        return `${label}, árbol ${t}: índice de feature inválido en nodo ${i}`;
+      }
+      if (!Number.isFinite(tree.threshold[i])) return `${label}, árbol ${t}: umbral no numérico en nodo ${i}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Structural validation of a parsed model file. Returns an error message, or
+ * null when the model can be evaluated safely (no out-of-range indexes, no
+ * cycles that would make scoreTree loop forever).
+ */
+export function validateTreeEnsemble(raw: unknown): string | null {
+  const m = raw as Partial<AiTreeEnsembleModel> | null;
+  if (!m || typeof m !== "object") return "El modelo no es un objeto JSON";
+  if (m.format !== TREE_ENSEMBLE_FORMAT) return `Formato de modelo desconocido: ${String(m.format)}`;
+  if (typeof m.version !== "string" || !m.version) return "El modelo no tiene versión";
+  if (!Array.isArray(m.features) || m.features.length === 0) return "El modelo no declara features";
+  const unknownFeature = m.features.find(f => !AI_FEATURE_SET.includes(f));
+  if (unknownFeature) return `Feature desconocida en el modelo: ${unknownFeature}`;
+
+  const pooledError = validateTrees(m.trees, m.features.length, "Modelo global");
+  if (pooledError) return pooledError;
+
+  if (m.segments !== undefined) {
+    if (!Array.isArray(m.segments)) return "Los segmentos del modelo no son una lista";
+    for (const segment of m.segments) {
+      if (!segment || typeof segment.key !== "string") return "Segmento sin clave";
+      const error = validateTrees(segment.trees, m.features.length, `Segmento ${segment.key}`);
+      if (error) return error;
+    }
+  }
+  return null;
+}
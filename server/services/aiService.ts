@@ -1,7 +1,22 @@
-import { storage } from "../storage";
+import { storage, type AiFeatureStoreSummary } from "../storage";
 import { spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
+import {
+  POOLED_SEGMENT,
+  predictSegmentProba,
+  validateTreeEnsemble,
+  type AiModelCalibration,
+  type AiModelMetrics,
+  type AiTreeEnsembleModel,
+} from "./ai/treeEnsemble";
+import {
+  AI_BASE_FEATURES,
+  AI_FEATURE_SET,
+  AI_FEATURE_SET_VERSION,
+  normalizeAiRegime,
+  type AiFeatureRecord,
+} from "./ai/featureSet";
 
 export interface AiFeatures {
   rsi14: number;
@@ -26,6 +41,58 @@ export interface AiPrediction {
   approve: boolean;
   score: number;
   threshold: number;
+  /** Active model that produced the score (null = no model, fallback score) */
+  modelVersion: string | null;
+  /** Forest that scored it: "pooled" or a pair / regime segment key */
+  segment: string | null;
+  /** Previous model scored on the same features (shadow comparison) */
+  compare?: {
+    modelVersion: string;
+    segment: string;
+    score: number;
+    approve: boolean;
+  } | null;
+}
+
+export interface AiModelInfo {
+  version: string;
+  createdAt: string | null;
+  trees: number;
+  segments: number;
+  featureSetVersion: string | null;
+  sizeBytes: number;
+  metrics: AiTreeEnsembleModel["metrics"] | null;
+  active: boolean;
+  previous: boolean;
+  error: string | null;
+}
+
+export interface AiModelInsight {
+  key: string;
+  pair: string | null;
+  regime: string | null;
+  trees: number;
+  metrics: AiModelMetrics | null;
+  calibration: AiModelCalibration | null;
+  /** Sorted by importance, highest first */
+  featureImportance: Array<{ feature: string; importance: number }>;
+}
+
+export interface AiModelInsights {
+  modelVersion: string | null;
+  featureSetVersion: string | null;
+  features: string[];
+  pooled: AiModelInsight | null;
+  segments: AiModelInsight[];
+  featureStore: AiFeatureStoreSummary;
+}
+
+export interface AiRollbackResult {
+  success: boolean;
+  message: string;
+  errorCode?: "NO_PREVIOUS_MODEL" | "ALREADY_ACTIVE" | "MODEL_NOT_FOUND";
+  activeModelVersion?: string;
+  previousModelVersion?: string | null;
 }
 
 export interface AiStatus {
@@ -56,6 +123,14 @@ export interface AiStatus {
   mlDependenciesOk: boolean;
   modelFileExists: boolean;
   modelPath: string;
+  /** Predictions run in-process from the exported JSON model; Python is only used to train */
+  inferenceRuntime: "typescript";
+  activeModelVersion: string | null;
+  previousModelVersion: string | null;
+  /** Dataset the next training will use */
+  trainingSource: "feature_store" | "training_trades";
+  featureSetVersion: string;
+  featureStoreLabeled: number;
 }
 
 export interface AiDiagnostic {
@@ -80,12 +155,23 @@ export interface AiDiagnostic {
 }
 
 const MODEL_DIR = process.env.AI_MODEL_DIR || "/tmp/models";
-const MODEL_PATH = `${MODEL_DIR}/ai_filter.joblib`;
+const MODELS_DIR = `${MODEL_DIR}/models`;
 const STATUS_PATH = `${MODEL_DIR}/ai_status.json`;
 const PYTHON_BIN = process.env.AI_PYTHON_BIN || "python3";
 
 const MIN_SAMPLES_TRAIN = 300;
 const MIN_SAMPLES_ACTIVATE = 300;
+/** Per-pair / per-regime forests need this many labeled samples and both classes */
+const SEGMENT_MIN_SAMPLES = 150;
+const SEGMENT_MIN_CLASS = 15;
+/** Model files kept on disk (active + previous are never pruned) */
+const MODEL_RETENTION = 5;
+
+const MODEL_FILE_RE = /^ai_filter_([A-Za-z0-9._-]+)\.json$/;
+
+function modelFilePath(version: string): string {
+  return path.join(MODELS_DIR, `ai_filter_${version}.json`);
+}
 
 function validateTrades(trades: any[]): any[] {
   return trades.filter(trade => {
@@ -129,11 +215,65 @@ class AiService {
   private cachedMetrics: any = null;
   private cachedModelVersion: string | null = null;
   private pythonCheckCache: { available: boolean; version: string; mlOk: boolean } | null = null;
+  // Model files are immutable per version, so parsed models are cached by version
+  private models = new Map<string, AiTreeEnsembleModel>();
+  private modelLoadErrors = new Map<string, string>();
 
   getModelVersion(): string | null {
     return this.cachedModelVersion;
   }
 
+  private readModelFile(version: string): { model: AiTreeEnsembleModel | null; error: string | null } {
+    const filePath = modelFilePath(version);
+    if (!fs.existsSync(filePath)) return { model: null, error: "Archivo de modelo no encontrado" };
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      const error = validateTreeEnsemble(raw);
+      if (error) return { model: null, error };
+      if (raw.version !== version) return { model: null, error: `Versión interna ${raw.version} distinta de ${version}` };
+      return { model: raw as AiTreeEnsembleModel, error: null };
+    } catch (e: any) {
+      return { model: null, error: `JSON inválido: ${e.message}` };
+    }
+  }
+
+  private loadModel(version: string): AiTreeEnsembleModel | null {
+    const cached = this.models.get(version);
+    if (cached) return cached;
+
+    const { model, error } = this.readModelFile(version);
+    if (!model) {
+      // Log once per version — predict() runs on every BUY signal
+      if (this.modelLoadErrors.get(version) !== error) {
+        console.warn(`[AI] Modelo ${version} no disponible: ${error}`);
+        this.modelLoadErrors.set(version, error ?? "");
+      }
+      return null;
+    }
+    this.modelLoadErrors.delete(version);
+    this.models.set(version, model);
+    return model;
+  }
+
+  private pruneModels(keep: Array<string | null | undefined>): void {
+    if (!fs.existsSync(MODELS_DIR)) return;
+    const protectedVersions = new Set(keep.filter((v): v is string => !!v));
+    const files = fs.readdirSync(MODELS_DIR)
+      .filter(f => MODEL_FILE_RE.test(f))
+      .map(f => ({ file: f, version: f.match(MODEL_FILE_RE)![1], mtime: fs.statSync(path.join(MODELS_DIR, f)).mtimeMs }))
+      .sort((a, b) => b.mtime - a.mtime);
+
+    for (const entry of files.slice(MODEL_RETENTION)) {
+      if (protectedVersions.has(entry.version)) continue;
+      try {
+        fs.unlinkSync(path.join(MODELS_DIR, entry.file));
+        this.models.delete(entry.version);
+      } catch (e: any) {
+        console.warn(`[AI] No se pudo eliminar el modelo ${entry.file}: ${e.message}`);
+      }
+    }
+  }
+
   private checkPythonRuntime(): Promise<{ available: boolean; version: string; mlOk: boolean }> {
     if (this.pythonCheckCache) return Promise.resolve(this.pythonCheckCache);
     return new Promise((resolve) => {
@@ -202,27 +342,30 @@ class AiService {
     const validTrades = validateTrades(labeledTrades);
     const validCount = validTrades.length;
 
+    // Labeled feature store rows take over from training_trades once there are enough
+    const featureStoreLabeled = await storage.countAiFeatureStoreLabeled(AI_FEATURE_SET_VERSION);
+    const trainingSource = featureStoreLabeled >= MIN_SAMPLES_TRAIN ? "feature_store" : "training_trades";
+    const trainableCount = trainingSource === "feature_store" ? featureStoreLabeled : validCount;
+
     let phase: "red" | "yellow" | "green" = "red";
     let phaseLabel = "Recolectando datos";
 
-    if (validCount >= MIN_SAMPLES_ACTIVATE && aiConfig?.filterEnabled) {
+    if (trainableCount >= MIN_SAMPLES_ACTIVATE && aiConfig?.filterEnabled) {
       phase = "green";
       phaseLabel = "Filtro activo";
-    } else if (validCount >= MIN_SAMPLES_TRAIN) {
+    } else if (trainableCount >= MIN_SAMPLES_TRAIN) {
       phase = "yellow";
       phaseLabel = "Listo para entrenar";
     }
 
-    const modelExists = fs.existsSync(MODEL_PATH);
+    const activeVersion = aiConfig?.modelVersion ?? null;
+    const activeModel = activeVersion ? this.loadModel(activeVersion) : null;
+    const modelExists = activeModel !== null;
+    this.modelLoaded = modelExists;
 
-    // If the model file exists on disk, treat it as loaded — in-memory flag may be false
-    // after a restart since Python subprocess doesn't keep state between predictions.
-    if (modelExists && !this.modelLoaded) {
-      this.modelLoaded = true;
-    }
-
-    let metrics = null;
-    if (fs.existsSync(STATUS_PATH)) {
+    // Metrics travel inside the model file, so they follow the active model after a rollback
+    let metrics: any = activeModel?.metrics ?? null;
+    if (!metrics && fs.existsSync(STATUS_PATH)) {
       try {
         const statusData = fs.readFileSync(STATUS_PATH, "utf-8");
         metrics = JSON.parse(statusData);
@@ -241,8 +384,8 @@ class AiService {
       validSamples: validCount,
       minSamplesForTrain: MIN_SAMPLES_TRAIN,
       minSamplesForActivate: MIN_SAMPLES_ACTIVATE,
-      canTrain: validCount >= MIN_SAMPLES_TRAIN,
-      canActivate: validCount >= MIN_SAMPLES_ACTIVATE && modelExists,
+      canTrain: trainableCount >= MIN_SAMPLES_TRAIN,
+      canActivate: trainableCount >= MIN_SAMPLES_ACTIVATE && modelExists,
       filterEnabled: aiConfig?.filterEnabled ?? false,
       shadowEnabled: aiConfig?.shadowEnabled ?? false,
       modelLoaded: modelExists,
@@ -251,7 +394,13 @@ class AiService {
       pythonVersion: pyRuntime.version,
       mlDependenciesOk: pyRuntime.mlOk,
       modelFileExists: modelExists,
-      modelPath: MODEL_PATH,
+      modelPath: activeVersion ? modelFilePath(activeVersion) : MODELS_DIR,
+      inferenceRuntime: "typescript",
+      activeModelVersion: activeVersion,
+      previousModelVersion: aiConfig?.previousModelVersion ?? null,
+      trainingSource,
+      featureSetVersion: AI_FEATURE_SET_VERSION,
+      featureStoreLabeled,
       lastTrainTs: aiConfig?.lastTrainTs ?? null,
       threshold: parseFloat(aiConfig?.threshold ?? "0.60"),
       metrics,
@@ -313,72 +462,161 @@ class AiService {
     };
   }
 
-  async predict(features: AiFeatures): Promise<AiPrediction> {
+  /**
+   * Scores the features in-process with the active JSON model, using the
+   * pair / regime segment forest when the model has one. With `compare`,
+   * the previous model is scored too so shadow mode can record both side by
+   * side. Without a usable model the filter never blocks.
+   */
+  async predict(
+    features: AiFeatureRecord,
+    opts: { compare?: boolean; pair?: string | null; regime?: string | null } = {},
+  ): Promise<AiPrediction> {
     const aiConfig = await storage.getAiConfig();
     const threshold = parseFloat(aiConfig?.threshold ?? "0.60");
-    
-    if (!fs.existsSync(MODEL_PATH)) {
-      return { approve: true, score: 0.5, threshold };
+    const activeVersion = aiConfig?.modelVersion ?? null;
+    this.cachedModelVersion = activeVersion;
+
+    const model = activeVersion ? this.loadModel(activeVersion) : null;
+    if (!model) {
+      return { approve: true, score: 0.5, threshold, modelVersion: null, segment: null };
     }
 
     try {
-      const featuresJson = JSON.stringify(features);
-      const result = await this.runPythonPredict(featuresJson);
-      const score = parseFloat(result.score);
-      
-      return {
+      const { score, segment } = predictSegmentProba(model, features, opts.pair, opts.regime);
+      const prediction: AiPrediction = {
         approve: score >= threshold,
         score,
         threshold,
+        modelVersion: model.version,
+        segment,
+        compare: null,
       };
+
+      const previousVersion = aiConfig?.previousModelVersion ?? null;
+      if (opts.compare && previousVersion && previousVersion !== activeVersion) {
+        const previous = this.loadModel(previousVersion);
+        if (previous) {
+          const compared = predictSegmentProba(previous, features, opts.pair, opts.regime);
+          prediction.compare = {
+            modelVersion: previous.version,
+            segment: compared.segment,
+            score: compared.score,
+            approve: compared.score >= threshold,
+          };
+        }
+      }
+      return prediction;
     } catch (error) {
       console.error("[AI] Prediction error:", error);
-      return { approve: true, score: 0.5, threshold };
+      return { approve: true, score: 0.5, threshold, modelVersion: null, segment: null };
     }
   }
 
-  private runPythonPredict(featuresJson: string): Promise<{ score: string }> {
-    return new Promise((resolve, reject) => {
-      const pythonScript = path.join(process.cwd(), "server/services/mlTrainer.py");
-      
-      if (!fs.existsSync(pythonScript)) {
-        resolve({ score: "0.5" });
-        return;
-      }
-
-      const proc = spawn(PYTHON_BIN, [pythonScript, "predict", featuresJson], {
-        cwd: process.cwd(),
+  listModels(activeVersion: string | null, previousVersion: string | null): AiModelInfo[] {
+    if (!fs.existsSync(MODELS_DIR)) return [];
+    const infos: AiModelInfo[] = [];
+    for (const file of fs.readdirSync(MODELS_DIR)) {
+      const match = file.match(MODEL_FILE_RE);
+      if (!match) continue;
+      const version = match[1];
+      const { model, error } = this.readModelFile(version);
+      infos.push({
+        version,
+        createdAt: model?.createdAt ?? null,
+        trees: model?.trees.length ?? 0,
+        segments: model?.segments?.length ?? 0,
+        featureSetVersion: model?.featureSetVersion ?? null,
+        sizeBytes: fs.statSync(path.join(MODELS_DIR, file)).size,
+        metrics: model?.metrics ?? null,
+        active: version === activeVersion,
+        previous: version === previousVersion,
+        error,
       });
+    }
+    return infos.sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+  }
 
-      let stdout = "";
-      let stderr = "";
+  async getModels(): Promise<{ activeModelVersion: string | null; previousModelVersion: string | null; models: AiModelInfo[] }> {
+    const aiConfig = await storage.getAiConfig();
+    const activeModelVersion = aiConfig?.modelVersion ?? null;
+    const previousModelVersion = aiConfig?.previousModelVersion ?? null;
+    return { activeModelVersion, previousModelVersion, models: this.listModels(activeModelVersion, previousModelVersion) };
+  }
 
-      proc.stdout.on("data", (data) => (stdout += data.toString()));
-      proc.stderr.on("data", (data) => (stderr += data.toString()));
+  /**
+   * Why the active model decides what it decides: feature importance and
+   * calibration of the pooled and segment forests, plus per-pair block rates
+   * from the feature store.
+   */
+  async getModelInsights(): Promise<AiModelInsights> {
+    const aiConfig = await storage.getAiConfig();
+    const activeVersion = aiConfig?.modelVersion ?? null;
+    const model = activeVersion ? this.loadModel(activeVersion) : null;
+    const featureStore = await storage.getAiFeatureStoreSummary(AI_FEATURE_SET_VERSION);
+
+    const insight = (
+      key: string,
+      pair: string | null,
+      regime: string | null,
+      src: Pick<AiTreeEnsembleModel, "trees" | "metrics" | "calibration" | "featureImportance">,
+    ): AiModelInsight => ({
+      key,
+      pair,
+      regime,
+      trees: src.trees.length,
+      metrics: src.metrics ?? null,
+      calibration: src.calibration ?? null,
+      featureImportance: Object.entries(src.featureImportance ?? {})
+        .map(([feature, importance]) => ({ feature, importance }))
+        .sort((a, b) => b.importance - a.importance),
+    });
 
-      proc.on("close", (code) => {
-        if (code !== 0) {
-          console.error("[AI] Python predict error:", stderr);
-          resolve({ score: "0.5" });
-          return;
-        }
-        try {
-          const result = JSON.parse(stdout.trim());
-          resolve({ score: result.score?.toString() ?? "0.5" });
-        } catch (e) {
-          resolve({ score: "0.5" });
-        }
-      });
+    return {
+      modelVersion: model?.version ?? null,
+      featureSetVersion: model?.featureSetVersion ?? null,
+      features: model?.features ?? [],
+      pooled: model ? insight(POOLED_SEGMENT, null, null, model) : null,
+      segments: (model?.segments ?? []).map(seg => insight(seg.key, seg.pair, seg.regime, seg)),
+      featureStore,
+    };
+  }
 
-      proc.on("error", (err: any) => {
-        if (err.code === "ENOENT") {
-          console.warn(`[AI] Python runtime not found ('${PYTHON_BIN}'). Prediction unavailable — using fallback score.`);
-        } else {
-          console.error("[AI] Python spawn error:", err);
-        }
-        resolve({ score: "0.5" });
-      });
+  /**
+   * Makes `version` (default: the previous model) the active one. The
+   * replaced model becomes the previous one, so shadow mode keeps comparing
+   * both and a rollback can itself be undone.
+   */
+  async rollback(version?: string): Promise<AiRollbackResult> {
+    const aiConfig = await storage.getAiConfig();
+    const activeVersion = aiConfig?.modelVersion ?? null;
+    const target = version || aiConfig?.previousModelVersion || null;
+
+    if (!target) {
+      return { success: false, errorCode: "NO_PREVIOUS_MODEL", message: "No hay un modelo anterior al que volver." };
+    }
+    if (target === activeVersion) {
+      return { success: false, errorCode: "ALREADY_ACTIVE", message: `El modelo ${target} ya es el activo.` };
+    }
+    if (!MODEL_FILE_RE.test(`ai_filter_${target}.json`) || !this.loadModel(target)) {
+      return { success: false, errorCode: "MODEL_NOT_FOUND", message: `El modelo ${target} no existe o no es válido.` };
+    }
+
+    const previousModelVersion = activeVersion && this.loadModel(activeVersion) ? activeVersion : null;
+    await storage.updateAiConfig({
+      modelVersion: target,
+      previousModelVersion,
+      modelPath: modelFilePath(target),
     });
+    this.cachedModelVersion = target;
+    console.log(`[AI] Rollback: modelo activo ${activeVersion ?? "ninguno"} → ${target}`);
+
+    return {
+      success: true,
+      message: `Modelo ${target} activado${previousModelVersion ? ` (anterior: ${previousModelVersion})` : ""}.`,
+      activeModelVersion: target,
+      previousModelVersion,
+    };
   }
 
   async runTraining(): Promise<{
@@ -389,75 +627,98 @@ class AiService {
     current?: number;
     metrics?: { accuracy: number; precision: number; recall: number; f1: number; trainSize: number; valSize: number }
   }> {
-    const labeledTrades = await storage.getTrainingTrades({ labeled: true });
-
-    if (labeledTrades.length < MIN_SAMPLES_TRAIN) {
-      return {
-        success: false,
-        errorCode: "INSUFFICIENT_DATA",
-        message: `Datos insuficientes para entrenar el modelo. Necesitas ${MIN_SAMPLES_TRAIN} trades cerrados etiquetados. Actualmente hay ${labeledTrades.length}.`,
-        required: MIN_SAMPLES_TRAIN,
-        current: labeledTrades.length
-      };
-    }
-
-    if (!fs.existsSync(MODEL_DIR)) {
-      fs.mkdirSync(MODEL_DIR, { recursive: true });
-    }
-
-    const sortedTrades = [...labeledTrades].sort((a, b) => {
-      const timeA = a.entryTs ? new Date(a.entryTs).getTime() : 0;
-      const timeB = b.entryTs ? new Date(b.entryTs).getTime() : 0;
-      return timeA - timeB;
-    });
+    // Feature store rows (versioned features captured at decision time) replace
+    // training_trades once there are enough labeled ones
+    const storeRows = await storage.getAiFeatureStoreTrainingRows(AI_FEATURE_SET_VERSION);
+    const useFeatureStore = storeRows.length >= MIN_SAMPLES_TRAIN;
+
+    let samples: Array<{
+      tradeId: string;
+      pair: string;
+      regime: string | null;
+      pnlNet: string | null;
+      pnlPct: string | null;
+      labelWin: number | null;
+      featuresJson: unknown;
+      entryTs: Date | null;
+    }>;
+
+    if (useFeatureStore) {
+      samples = storeRows.map(row => ({
+        tradeId: `FS-${row.id}`,
+        pair: row.pair,
+        regime: normalizeAiRegime(row.regime),
+        pnlNet: row.pnlNet,
+        pnlPct: row.pnlPct,
+        labelWin: row.labelWin,
+        featuresJson: row.featuresJson,
+        entryTs: row.createdAt,
+      }));
+    } else {
+      const labeledTrades = await storage.getTrainingTrades({ labeled: true });
+
+      if (labeledTrades.length < MIN_SAMPLES_TRAIN) {
+        return {
+          success: false,
+          errorCode: "INSUFFICIENT_DATA",
+          message: `Datos insuficientes para entrenar el modelo. Necesitas ${MIN_SAMPLES_TRAIN} trades cerrados etiquetados. Actualmente hay ${labeledTrades.length}.`,
+          required: MIN_SAMPLES_TRAIN,
+          current: labeledTrades.length
+        };
+      }
 
-    const validTrades = validateTrades(sortedTrades);
+      const sortedTrades = [...labeledTrades].sort((a, b) => {
+        const timeA = a.entryTs ? new Date(a.entryTs).getTime() : 0;
+        const timeB = b.entryTs ? new Date(b.entryTs).getTime() : 0;
+        return timeA - timeB;
+      });
 
-    if (validTrades.length < MIN_SAMPLES_TRAIN) {
-      return {
-        success: false,
-        errorCode: "INSUFFICIENT_DATA",
-        message: `Datos insuficientes para entrenar el modelo. Solo hay ${validTrades.length} trades válidos después de validación. Necesitas ${MIN_SAMPLES_TRAIN}.`,
-        required: MIN_SAMPLES_TRAIN,
-        current: validTrades.length
-      };
-    }
+      const validTrades = validateTrades(sortedTrades);
 
-    const splitIdx = Math.floor(validTrades.length * 0.8);
-    const trainTrades = validTrades.slice(0, splitIdx);
-    const valTrades = validTrades.slice(splitIdx);
+      if (validTrades.length < MIN_SAMPLES_TRAIN) {
+        return {
+          success: false,
+          errorCode: "INSUFFICIENT_DATA",
+          message: `Datos insuficientes para entrenar el modelo. Solo hay ${validTrades.length} trades válidos después de validación. Necesitas ${MIN_SAMPLES_TRAIN}.`,
+          required: MIN_SAMPLES_TRAIN,
+          current: validTrades.length
+        };
+      }
 
-    const trainingData = {
-      train: trainTrades.map(trade => ({
+      samples = validTrades.map(trade => ({
         tradeId: trade.buyTxid,
         pair: trade.pair,
-        entryPrice: trade.entryPrice,
-        exitPrice: trade.exitPrice,
+        regime: normalizeAiRegime(trade.regime),
         pnlNet: trade.pnlNet,
         pnlPct: trade.pnlPct,
-        holdTimeMinutes: trade.holdTimeMinutes,
         labelWin: trade.labelWin,
         featuresJson: trade.featuresJson || {},
         entryTs: trade.entryTs,
-      })),
-      val: valTrades.map(trade => ({
-        tradeId: trade.buyTxid,
-        pair: trade.pair,
-        entryPrice: trade.entryPrice,
-        exitPrice: trade.exitPrice,
-        pnlNet: trade.pnlNet,
-        pnlPct: trade.pnlPct,
-        holdTimeMinutes: trade.holdTimeMinutes,
-        labelWin: trade.labelWin,
-        featuresJson: trade.featuresJson || {},
-        entryTs: trade.entryTs,
-      })),
+      }));
+    }
+
+    if (!fs.existsSync(MODELS_DIR)) {
+      fs.mkdirSync(MODELS_DIR, { recursive: true });
+    }
+
+    const splitIdx = Math.floor(samples.length * 0.8);
+    const trainSamples = samples.slice(0, splitIdx);
+    const valSamples = samples.slice(splitIdx);
+
+    const trainingData = {
+      features: useFeatureStore ? AI_FEATURE_SET : AI_BASE_FEATURES,
+      featureSetVersion: useFeatureStore ? AI_FEATURE_SET_VERSION : null,
+      segmentMinSamples: SEGMENT_MIN_SAMPLES,
+      segmentMinClass: SEGMENT_MIN_CLASS,
+      train: trainSamples,
+      val: valSamples,
     };
 
     const samplesPath = `${MODEL_DIR}/training_samples.json`;
     fs.writeFileSync(samplesPath, JSON.stringify(trainingData, null, 2));
 
     const modelVersion = `v${Date.now()}`;
+    const modelPath = modelFilePath(modelVersion);
 
     return new Promise((resolve) => {
       const pythonScript = path.join(process.cwd(), "server/services/mlTrainer.py");
@@ -468,7 +729,7 @@ class AiService {
         return;
       }
 
-      const proc = spawn(PYTHON_BIN, [pythonScript, "train", samplesPath], {
+      const proc = spawn(PYTHON_BIN, [pythonScript, "train", samplesPath, modelPath, modelVersion], {
         cwd: process.cwd(),
       });
 
@@ -487,43 +748,57 @@ class AiService {
           return;
         }
 
+        // Python only trains; the exported JSON must be loadable before it goes live
+        const model = this.loadModel(modelVersion);
+        if (!model) {
+          const errorMsg = `Modelo exportado inválido: ${this.modelLoadErrors.get(modelVersion) ?? "desconocido"}`;
+          await storage.updateAiConfig({ lastTrainError: errorMsg });
+          resolve({ success: false, errorCode: "MODEL_EXPORT_INVALID", message: errorMsg });
+          return;
+        }
+
+        let result: any = null;
         try {
-          const result = JSON.parse(stdout.trim());
-          const metrics = {
-            accuracy: result.metrics?.accuracy ?? 0,
-            precision: result.metrics?.precision ?? 0,
-            recall: result.metrics?.recall ?? 0,
-            f1: result.metrics?.f1 ?? 0,
-            trainSize: trainTrades.length,
-            valSize: valTrades.length,
-          };
-          
-          this.cachedModelVersion = modelVersion;
-          await storage.updateAiConfig({
-            lastTrainTs: new Date(),
-            lastTrainError: null,
-            nSamples: validTrades.length,
-            modelPath: MODEL_PATH,
-            modelVersion,
-            metricsJson: metrics,
-          });
-
-          this.modelLoaded = true;
-          
-          resolve({
-            success: true,
-            message: `Modelo ${modelVersion} entrenado: ${trainTrades.length} train / ${valTrades.length} val. Accuracy: ${(metrics.accuracy * 100).toFixed(1)}%`,
-            metrics,
-          });
-        } catch (e: any) {
-          this.cachedModelVersion = modelVersion;
-          await storage.updateAiConfig({
-            lastTrainTs: new Date(),
-            lastTrainError: null,
-            modelVersion,
-          });
-          resolve({ success: true, message: `Modelo ${modelVersion} entrenado (sin métricas parseables)` });
+          result = JSON.parse(stdout.trim());
+        } catch {
+          // metrics also travel inside the model file
         }
+        const trainMetrics = result?.metrics ?? model.metrics ?? {};
+        const metrics = {
+          accuracy: trainMetrics.accuracy ?? 0,
+          precision: trainMetrics.precision ?? 0,
+          recall: trainMetrics.recall ?? 0,
+          f1: trainMetrics.f1 ?? 0,
+          trainSize: trainSamples.length,
+          valSize: valSamples.length,
+        };
+
+        // The model being replaced becomes the shadow comparison / rollback target
+        const aiConfig = await storage.getAiConfig();
+        const replacedVersion = aiConfig?.modelVersion ?? null;
+        const previousModelVersion = replacedVersion && replacedVersion !== modelVersion && this.loadModel(replacedVersion)
+          ? replacedVersion
+          : null;
+
+        this.cachedModelVersion = modelVersion;
+        await storage.updateAiConfig({
+          lastTrainTs: new Date(),
+          lastTrainError: null,
+          nSamples: samples.length,
+          modelPath,
+          modelVersion,
+          previousModelVersion,
+          metricsJson: metrics,
+        });
+
+        this.modelLoaded = true;
+        this.pruneModels([modelVersion, previousModelVersion]);
+
+        resolve({
+          success: true,
+          message: `Modelo ${modelVersion} entrenado (${useFeatureStore ? `feature store ${AI_FEATURE_SET_VERSION}` : "training_trades"}): ${trainSamples.length} train / ${valSamples.length} val, ${model.segments?.length ?? 0} modelos por par/régimen. Accuracy: ${(metrics.accuracy * 100).toFixed(1)}%`,
+          metrics,
+        });
       });
 
       proc.on("error", async (err: any) => {
@@ -27,14 +27,32 @@ vi.mock("../amaRepository", () => ({
 vi.mock("../../portfolio/PortfolioIntegrationAdapter", () => ({
   portfolioIntegrationAdapter: {
     beforeOrder: vi.fn(),
+    onFill: vi.fn(),
+    onFailure: vi.fn(),
   },
 }));
 
+vi.mock("../amaPortfolioLedger", () => ({
+  insertLedgerEntry: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../amaTelegramNotifier", () => ({
+  notifyAmaRealGateFailed: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../../execution/SlicedExecutionEngine", () => ({
+  loadSlicedExecutionConfig: vi.fn((algo: string) => ({ algo })),
+  slicedExecutionEngine: { execute: vi.fn() },
+}));
+
 import { amaRealStateService } from "../amaFunctionalClosure";
 import { isAuthorized, runPreTradeGates } from "../amaRealLimitedService";
 import { insertAuditEvent } from "../amaRepository";
 import { portfolioIntegrationAdapter } from "../../portfolio/PortfolioIntegrationAdapter";
 import { amaRealExecutionGateway } from "../amaRealExecutionGateway";
+import { insertLedgerEntry } from "../amaPortfolioLedger";
+import { slicedExecutionEngine } from "../../execution/SlicedExecutionEngine";
+import { notifyAmaRealGateFailed } from "../amaTelegramNotifier";
 
 describe("AmaRealExecutionGateway", () => {
   beforeEach(() => vi.clearAllMocks());
@@ -66,6 +84,7 @@ describe("AmaRealExecutionGateway", () => {
       "INFO",
       expect.objectContaining({ reason: "FEATURE_FLAG_DISABLED" }),
     );
+    expect(notifyAmaRealGateFailed).not.toHaveBeenCalled();
   });
 
   it("blocks when real state is not ACTIVE", async () => {
@@ -166,6 +185,12 @@ describe("AmaRealExecutionGateway", () => {
 
     expect(result.executed).toBe(false);
     expect(result.reason).toContain("PRE_TRADE_GATE_FAILED");
+    expect(notifyAmaRealGateFailed).toHaveBeenCalledWith(expect.objectContaining({
+      cycleId: "cycle-1",
+      trancheId: "tranche-1",
+      reason: "PRE_TRADE_GATE_FAILED",
+      blockers: ["KILL_SWITCH_ACTIVE"],
+    }));
 
     process.env.AMA_REAL_EXECUTION_ENABLED = original;
   });
@@ -268,4 +293,59 @@ describe("AmaRealExecutionGateway", () => {
 
     process.env.AMA_REAL_EXECUTION_ENABLED = original;
   });
+
+  it("executes through the sliced engine and ledgers each filled child", async () => {
+    const original = process.env.AMA_REAL_EXECUTION_ENABLED;
+    process.env.AMA_REAL_EXECUTION_ENABLED = "true";
+
+    vi.mocked(amaRealStateService.canExecute).mockResolvedValue(true);
+    vi.mocked(isAuthorized).mockResolvedValue(true);
+    vi.mocked(amaRealStateService.getState).mockResolvedValue({ killSwitchActive: false } as any);
+    vi.mocked(runPreTradeGates).mockResolvedValue({ passed: true, gates: [], blockers: [] });
+    vi.mocked(portfolioIntegrationAdapter.beforeOrder).mockResolvedValue({ reservationId: "res-1", lockId: "lock-1" });
+    vi.mocked(slicedExecutionEngine.execute).mockResolvedValue({
+      parentId: "exec-ama-1",
+      status: "completed",
+      filledQty: 0.01,
+      filledUsd: 1000,
+      avgPrice: 100000,
+      error: null,
+      children: [
+        { childId: "exec-ama-1-c0", exchangeOrderId: "OID-1", filledQty: 0.004 },
+        { childId: "exec-ama-1-c1", exchangeOrderId: "OID-2", filledQty: 0 },
+        { childId: "exec-ama-1-c2", exchangeOrderId: "OID-3", filledQty: 0.006 },
+      ],
+    } as any);
+
+    const result = await amaRealExecutionGateway.executeRealOrder({
+      cycleId: "cycle-1",
+      trancheId: "tranche-1",
+      pair: "BTC/USD",
+      asset: "BTC",
+      exchange: "revolutx",
+      amountUsd: 1000,
+      orderType: "maker",
+      isPostOnly: true,
+      currentPrice: 100000,
+      cycleDeployedUsd: 0,
+      cycleBudgetUsd: 10000,
+      cycleTrancheCount: 0,
+      execution: {},
+    });
+
+    expect(result.executed).toBe(true);
+    expect(result.orderId).toBe("exec-ama-1");
+    expect(slicedExecutionEngine.execute).toHaveBeenCalledWith(expect.objectContaining({
+      source: "AMA", sourceRef: "cycle-1:tranche-1", targetQty: 0.01, config: { algo: "maker_first" },
+    }));
+    expect(insertLedgerEntry).toHaveBeenCalledTimes(2);
+    expect(insertLedgerEntry).toHaveBeenCalledWith(expect.objectContaining({
+      entryType: "TRADE_BUY", quantity: 0.006, logicalIntentId: "exec-ama-1", fillId: "OID-3",
+    }));
+    expect(portfolioIntegrationAdapter.onFill).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: "exec-ama-1", reservationId: "res-1", quantity: 0.01,
+    }));
+
+    process.env.AMA_REAL_EXECUTION_ENABLED = original;
+  });
 });
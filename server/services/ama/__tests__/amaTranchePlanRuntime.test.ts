@@ -0,0 +1,128 @@
+/**
+ * AMA Runtime — tranche plans created by the planner are persisted and
+ * announced on Telegram (ama_tranche_plan). Real planner, mocked repository.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../amaRepository", () => ({
+  checkAmaSchemaAvailable: vi.fn().mockResolvedValue(true),
+  getRuntimeState: vi.fn().mockResolvedValue(null),
+  insertTranchePlan: vi.fn().mockResolvedValue(true),
+  insertAuditEvent: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("../amaTelegramNotifier", () => ({
+  notifyAmaTranchePlan: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("../amaRealAuthorizationRepository", () => ({ isRealLimitedAuthorized: vi.fn() }));
+vi.mock("../amaMarketRuntimeService", () => ({ getRealMarketView: vi.fn() }));
+vi.mock("../amaMandateRepository", () => ({}));
+vi.mock("../amaPolicyResolver", () => ({}));
+
+import {
+  createSeedTranchePlanRuntime,
+  replanTranchesRuntime,
+  _resetCacheForTesting,
+} from "../amaRuntimeService";
+import { insertTranchePlan, insertAuditEvent } from "../amaRepository";
+import { notifyAmaTranchePlan } from "../amaTelegramNotifier";
+import type { SeedTranchePlanInput } from "../amaDeterministicEngine";
+import type { AmaResolvedParameters } from "../amaTypes";
+
+const params: AmaResolvedParameters = {
+  mandatoryReservePct: 25,
+  maxSingleTranchePct: 15,
+  maxCycleDeploymentPct: 75,
+  maxWeeklyDeploymentPct: 30,
+  maxMonthlyDeploymentPct: 60,
+  minimumSpacingPct: 5,
+  spacingAtrMultiplier: 3.0,
+  minimumDataCoveragePct: 90,
+  requiredConfirmationStrength: 3,
+  cooldownPolicy: "1_daily",
+  maximumCandidateTranches: 6,
+  absoluteSafetyCap: 10000,
+  absoluteCapitalCapUsd: 10000,
+  absoluteTrancheCountCap: 6,
+  spreadTolerancePct: 0.5,
+  crossVenueBasisTolerancePct: 1.0,
+  profitRecoveryPolicy: "trailing",
+  deRiskPolicy: "gradual",
+  runnerPolicy: "50_pct",
+  trailingPolicy: "atr_based",
+  thesisInvalidationPolicy: "strict",
+  asset: "BTC",
+} as AmaResolvedParameters;
+
+const seedInput = {
+  hwmPrice: 50000,
+  hwmTimestamp: "2026-06-01T00:00:00Z",
+  budgetUsd: 10000,
+  deployedUsd: 0,
+  reservedUsd: 0,
+  parameters: params,
+  cycleId: "cycle-1",
+  asset: "BTC",
+  riskOverlayMultiplier: 1.0,
+  previousTranchePrice: null,
+  atr: 1000,
+} as SeedTranchePlanInput;
+
+const close = { timestamp: "2026-07-29T00:00:00Z", close: 40000, isClosed: true };
+
+describe("AMA runtime — tranche plan notifications", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    _resetCacheForTesting();
+    vi.mocked(insertTranchePlan).mockResolvedValue(true);
+  });
+
+  it("persists and notifies a new seed plan", async () => {
+    const plan = await createSeedTranchePlanRuntime(seedInput, close);
+
+    expect(plan).not.toBeNull();
+    expect(insertTranchePlan).toHaveBeenCalledWith(plan);
+    expect(insertAuditEvent).toHaveBeenCalledWith(
+      "TRANCHE_PLAN_CREATED", "INFO",
+      expect.objectContaining({ planId: plan!.planId, source: "SEED" }),
+      { cycleId: "cycle-1" },
+    );
+    expect(notifyAmaTranchePlan).toHaveBeenCalledWith(plan, "OFF");
+  });
+
+  it("persists and notifies a replanned version", async () => {
+    const original = (await createSeedTranchePlanRuntime(seedInput, close))!;
+    vi.clearAllMocks();
+
+    const replanned = await replanTranchesRuntime({
+      originalPlan: original,
+      seedInput,
+      confirmedClose: { timestamp: "2026-07-30T00:00:00Z", close: 38000, isClosed: true },
+      executedTranches: [
+        { cycleId: "cycle-1", asset: "BTC", policyId: "AMA_BTC_SEED_V1_RESEARCH", policyVersion: 1, trancheId: "tranche-cycle-1-0", seedTrancheIndex: 0, executedAmountUsd: 700, executedQuantity: 0.0175, executedAt: "2026-07-29T10:00:00Z", fillStatus: "FILLED", idempotencyKey: "key-1" },
+      ],
+      portfolioDeployedUsd: 700,
+    });
+
+    expect(replanned!.version).toBe(original.version + 1);
+    expect(notifyAmaTranchePlan).toHaveBeenCalledTimes(1);
+    expect(notifyAmaTranchePlan).toHaveBeenCalledWith(replanned, "OFF");
+  });
+
+  it("stays silent when the plan_id was already stored", async () => {
+    vi.mocked(insertTranchePlan).mockResolvedValue(false);
+
+    const plan = await createSeedTranchePlanRuntime(seedInput, close);
+
+    expect(plan).not.toBeNull();
+    expect(insertAuditEvent).not.toHaveBeenCalledWith("TRANCHE_PLAN_CREATED", expect.anything(), expect.anything(), expect.anything());
+    expect(notifyAmaTranchePlan).not.toHaveBeenCalled();
+  });
+
+  it("does not persist or notify when the planner rejects the input", async () => {
+    const plan = await createSeedTranchePlanRuntime(seedInput, { ...close, isClosed: false });
+
+    expect(plan).toBeNull();
+    expect(insertTranchePlan).not.toHaveBeenCalled();
+    expect(notifyAmaTranchePlan).not.toHaveBeenCalled();
+  });
+});
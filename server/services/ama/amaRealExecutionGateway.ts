@@ -14,13 +14,20 @@
  * - If any gate fails, no order is sent.
  * - All executions are logged with full audit trail.
  * - Kill switch blocks immediately.
+ *
+ * When the request carries `execution`, the order is sent through
+ * SlicedExecutionEngine (parent + child orders); each filled child is
+ * appended to the AMA ledger as TRADE_BUY and orderId is the parent id.
  */
 
 import { amaRealStateService } from "./amaFunctionalClosure";
 import { runPreTradeGates, isAuthorized, type PreTradeGateContext, type PreTradeGateResult } from "./amaRealLimitedService";
 import { portfolioIntegrationAdapter } from "../portfolio/PortfolioIntegrationAdapter";
 import { insertAuditEvent } from "./amaRepository";
+import { insertLedgerEntry } from "./amaPortfolioLedger";
+import { notifyAmaRealGateFailed } from "./amaTelegramNotifier";
 import type { OperationalMode } from "../portfolio/portfolioTypes";
+import type { ExecutionAlgo, ParentOrderState, SlicedExecutionConfig } from "../execution/SlicedExecutionEngine";
 
 function isRealExecutionEnabled(): boolean {
   return process.env.AMA_REAL_EXECUTION_ENABLED === "true";
@@ -39,6 +46,11 @@ export interface RealExecutionRequest {
   cycleDeployedUsd: number;
   cycleBudgetUsd: number;
   cycleTrancheCount: number;
+  /** Opt-in sliced execution; without it the gateway only validates and reserves. */
+  execution?: {
+    algo?: ExecutionAlgo;
+    config?: Partial<SlicedExecutionConfig>;
+  };
 }
 
 export interface RealExecutionResult {
@@ -47,6 +59,7 @@ export interface RealExecutionResult {
   gateResult: PreTradeGateResult | null;
   reservationId: string | null;
   orderId: string | null;
+  parentOrder?: ParentOrderState | null;
 }
 
 class AmaRealExecutionGatewayService {
@@ -58,6 +71,18 @@ class AmaRealExecutionGatewayService {
     return isRealExecutionEnabled();
   }
 
+  /** Telegram (fire-and-forget) when a REAL_LIMITED gate blocks an order. */
+  private notifyBlocked(req: RealExecutionRequest, reason: string, blockers?: string[]): void {
+    void notifyAmaRealGateFailed({
+      cycleId: req.cycleId,
+      trancheId: req.trancheId,
+      pair: req.pair,
+      amountUsd: req.amountUsd,
+      reason,
+      blockers,
+    });
+  }
+
   /**
    * Execute a real order through the full gateway.
    * Returns executed=true only if all gates pass and order is submitted.
@@ -91,6 +116,7 @@ class AmaRealExecutionGatewayService {
         cycleId: req.cycleId,
         trancheId: req.trancheId,
       });
+      this.notifyBlocked(req, "REAL_STATE_NOT_ACTIVE");
       return {
         executed: false,
         reason: "REAL_STATE_NOT_ACTIVE",
@@ -108,6 +134,7 @@ class AmaRealExecutionGatewayService {
         cycleId: req.cycleId,
         trancheId: req.trancheId,
       });
+      this.notifyBlocked(req, "NOT_AUTHORIZED");
       return {
         executed: false,
         reason: "NOT_AUTHORIZED",
@@ -142,6 +169,7 @@ class AmaRealExecutionGatewayService {
         cycleId: req.cycleId,
         trancheId: req.trancheId,
       });
+      this.notifyBlocked(req, "PRE_TRADE_GATE_FAILED", gateResult.blockers);
       return {
         executed: false,
         reason: `PRE_TRADE_GATE_FAILED: ${gateResult.blockers.join(",")}`,
@@ -168,6 +196,7 @@ class AmaRealExecutionGatewayService {
         cycleId: req.cycleId,
         trancheId: req.trancheId,
       });
+      this.notifyBlocked(req, "PORTFOLIO_RESERVATION_FAILED");
       return {
         executed: false,
         reason: "PORTFOLIO_RESERVATION_FAILED",
@@ -186,9 +215,12 @@ class AmaRealExecutionGatewayService {
       lockId: reservation.lockId,
     });
 
-    // NOTE: Actual exchange order placement would happen here.
-    // For now, we return the reservation but do not place the order.
-    // The exchange integration will be wired in a future phase.
+    if (req.execution) {
+      return this.executeSliced(req, gateResult, reservation);
+    }
+
+    // NOTE: Without `execution` the gateway does not place the order;
+    // it returns the reservation for the caller to act on.
     return {
       executed: true,
       reason: null,
@@ -197,6 +229,112 @@ class AmaRealExecutionGatewayService {
       orderId: null, // Will be set when exchange order is placed
     };
   }
+
+  /**
+   * Send the tranche through SlicedExecutionEngine and settle the reservation:
+   * fills → ledger TRADE_BUY per child + portfolio onFill; no fill → onFailure.
+   */
+  private async executeSliced(
+    req: RealExecutionRequest,
+    gateResult: PreTradeGateResult,
+    reservation: { reservationId: string; lockId: string },
+  ): Promise<RealExecutionResult> {
+    const { slicedExecutionEngine, loadSlicedExecutionConfig } = await import("../execution/SlicedExecutionEngine");
+    const algo: ExecutionAlgo = req.execution?.algo ?? (req.orderType === "maker" ? "maker_first" : "twap");
+    const mode: OperationalMode = "AMA";
+    const lockKey = `${mode}:${req.exchange}:${req.asset}:${req.cycleId}`;
+
+    let parent: ParentOrderState | null = null;
+    try {
+      if (!req.currentPrice || req.currentPrice <= 0) throw new Error("NO_PRICE");
+      parent = await slicedExecutionEngine.execute({
+        source: "AMA",
+        sourceRef: `${req.cycleId}:${req.trancheId}`,
+        pair: req.pair,
+        side: "buy",
+        targetQty: req.amountUsd / req.currentPrice,
+        referencePrice: req.currentPrice,
+        config: loadSlicedExecutionConfig(algo, req.execution?.config),
+      });
+    } catch (e: any) {
+      await insertAuditEvent("REAL_EXEC_FAILED", "ERROR", {
+        reason: e.message, cycleId: req.cycleId, trancheId: req.trancheId,
+      });
+    }
+
+    if (!parent || parent.filledQty <= 0) {
+      await portfolioIntegrationAdapter.onFailure({
+        reservationId: reservation.reservationId,
+        lockKey,
+        mode,
+        exchange: req.exchange,
+        asset: req.asset,
+        amountUsd: req.amountUsd,
+        reason: parent ? `SLICED_${parent.status.toUpperCase()}` : "SLICED_ERROR",
+      });
+      return {
+        executed: false,
+        reason: parent ? `EXECUTION_NO_FILL: ${parent.error ?? parent.status}` : "EXECUTION_ERROR",
+        gateResult,
+        reservationId: reservation.reservationId,
+        orderId: parent?.parentId ?? null,
+        parentOrder: parent,
+      };
+    }
+
+    for (const child of parent.children) {
+      if (child.filledQty <= 0) continue;
+      await insertLedgerEntry({
+        eventId: `ledger-${req.cycleId}-${child.childId}`,
+        idempotencyKey: `idemp-exec-${child.childId}`,
+        entryType: "TRADE_BUY",
+        exchange: req.exchange,
+        asset: req.asset,
+        quantity: child.filledQty,
+        fromBucket: "FREE",
+        toBucket: "DEPLOYED",
+        mode: "AMA",
+        cycleId: req.cycleId,
+        trancheId: req.trancheId,
+        logicalIntentId: parent.parentId,
+        fillId: child.exchangeOrderId ?? child.childId,
+        source: "SLICED_EXECUTION",
+      }).catch((e: any) => console.warn(`[AmaRealExecutionGateway] ledger ${child.childId}: ${e.message}`));
+    }
+
+    await portfolioIntegrationAdapter.onFill({
+      mode,
+      exchange: req.exchange,
+      asset: req.asset,
+      amountUsd: parent.filledUsd,
+      quantity: parent.filledQty,
+      priceUsd: parent.avgPrice ?? req.currentPrice!,
+      orderId: parent.parentId,
+      reservationId: reservation.reservationId,
+      cycleId: req.cycleId,
+      trancheId: req.trancheId,
+    });
+
+    await insertAuditEvent("REAL_EXEC_FILLED", "WARN", {
+      cycleId: req.cycleId,
+      trancheId: req.trancheId,
+      parentOrderId: parent.parentId,
+      status: parent.status,
+      filledQty: parent.filledQty,
+      filledUsd: parent.filledUsd,
+      avgPrice: parent.avgPrice,
+      children: parent.children.length,
+    });
+
+    return {
+      executed: true,
+      reason: parent.status === "partial" ? "PARTIAL_FILL" : parent.status === "unconfirmed" ? "FILL_UNCONFIRMED" : null,
+      gateResult,
+      reservationId: reservation.reservationId,
+      orderId: parent.parentId,
+      parentOrder: parent,
+    };
+  }
 }
 
 export const amaRealExecutionGateway = new AmaRealExecutionGatewayService();
@@ -415,12 +415,13 @@ function mapTrancheRow(r: any): AmaTranche {
 
 // ─── Tranche Plan Repository ─────────────────────────────────────────
 
+/** Returns false when the plan_id already exists (replay): nothing was written. */
 export async function insertTranchePlan(
   plan: AmaTranchePlan,
   client?: import("pg").PoolClient,
-): Promise<void> {
+): Promise<boolean> {
   const q = client ?? pool;
-  await q.query(
+  const result = await q.query(
     `INSERT INTO ama_tranche_plans
       (plan_id, cycle_id, asset, policy_id, policy_version, version,
        planned_purchase_count, mandatory_reserve_usd, deployable_cycle_capital_usd,
@@ -452,6 +453,7 @@ export async function insertTranchePlan(
       plan.createdAt,
     ],
   );
+  return (result.rowCount ?? 0) > 0;
 }
 
 export async function getTranchePlansByCycle(cycleId: string): Promise<AmaTranchePlan[]> {
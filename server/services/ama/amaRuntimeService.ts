@@ -37,6 +37,9 @@ import {
   type AmaPortfolioSummary,
 } from "./amaTypes";
 import { validateModeTransition } from "./amaDomainPersistent";
+import { buildCanonicalSeedPlan, type SeedTranchePlanInput } from "./amaDeterministicEngine";
+import { replanTranches, type ReplanContext } from "./amaAdaptivePlanner";
+import { notifyAmaTranchePlan } from "./amaTelegramNotifier";
 import {
   getRuntimeState,
   updateRuntimeState,
@@ -47,6 +50,7 @@ import {
   getTranchesByCycle,
   getActivePolicy,
   getLatestTranchePlan,
+  insertTranchePlan,
   insertAuditEvent,
   insertStateTransition,
   checkAmaSchemaAvailable,
@@ -313,6 +317,47 @@ export async function getTranchePlan(): Promise<AmaTranchePlan | null> {
   return await getLatestTranchePlan(cache.cycleId);
 }
 
+/**
+ * Seed plan for a new cycle (buildCanonicalSeedPlan) — persisted and notified.
+ * Returns null when the planner rejects the input.
+ */
+export async function createSeedTranchePlanRuntime(
+  input: SeedTranchePlanInput,
+  confirmedClose: { timestamp: string; close: number; isClosed: boolean },
+): Promise<AmaTranchePlan | null> {
+  const plan = buildCanonicalSeedPlan(input, confirmedClose);
+  if (!plan) return null;
+  await persistTranchePlan(plan, "SEED");
+  return plan;
+}
+
+/**
+ * Replan after executed tranches (replanTranches) — persisted and notified.
+ * Returns null when the planner fails closed.
+ */
+export async function replanTranchesRuntime(ctx: ReplanContext): Promise<AmaTranchePlan | null> {
+  const plan = replanTranches(ctx);
+  if (!plan) return null;
+  await persistTranchePlan(plan, "REPLAN");
+  return plan;
+}
+
+async function persistTranchePlan(plan: AmaTranchePlan, source: "SEED" | "REPLAN"): Promise<void> {
+  await initializeRuntime();
+  // Same plan_id already stored (idempotent replay): no audit, no alert
+  const inserted = await insertTranchePlan(plan);
+  if (!inserted) return;
+
+  await insertAuditEvent("TRANCHE_PLAN_CREATED", "INFO", {
+    planId: plan.planId,
+    version: plan.version,
+    source,
+    plannedPurchaseCount: plan.plannedPurchaseCount,
+  }, { cycleId: plan.cycleId });
+
+  void notifyAmaTranchePlan(plan, cache.mode);
+}
+
 // ─── Cycles ──────────────────────────────────────────────────────────
 
 export async function getCycles(): Promise<AmaCycle[]> {
@@ -15,6 +15,7 @@ import { evaluateShadowReadiness } from "./amaShadowReadinessService";
 import { executeShadowTick } from "./amaShadowExecutor";
 import { getTranchesByCycle } from "./amaRepository";
 import { MarketDataService } from "../MarketDataService";
+import { observeEngineTick } from "../metrics/appMetrics";
 
 let schedulerInterval: ReturnType<typeof setInterval> | null = null;
 let isRunning = false;
@@ -113,7 +114,7 @@ export async function executeSchedulerTick(): Promise<void> {
 export function startScheduler(): void {
   if (schedulerInterval) return; // Prevent duplicate interval
   schedulerInterval = setInterval(() => {
-    executeSchedulerTick().catch(() => {});
+    observeEngineTick("ama", executeSchedulerTick).catch(() => {});
   }, TICK_INTERVAL_MS);
   console.log("[AMA] Scheduler runner started (60s interval)");
 }
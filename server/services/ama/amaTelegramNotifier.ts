@@ -0,0 +1,100 @@
+/**
+ * AMA — Telegram notifier
+ *
+ * Alertas de AMA hacia el TelegramNotificationCenter (mode="ama"):
+ *   - ama_tranche_plan: nuevo plan de tramos persistido
+ *   - ama_real_gate_failed: orden REAL_LIMITED bloqueada por un gate
+ *
+ * Kill switch, severidad, reglas, dedupe, rate limit y routing por canal
+ * los aplica el centro. Nunca lanza: Telegram no puede bloquear AMA.
+ */
+
+import type { NormalizedAlert } from "../TelegramNotificationCenter";
+import type { AmaTranchePlan } from "./amaTypes";
+import { buildAmaTranchePlanHTML, buildAmaRealGateFailedHTML } from "../telegram/templates";
+
+const AMA_TELEGRAM_PAIR = "BTC/USD";
+
+export interface AmaGateFailureInfo {
+  cycleId: string;
+  trancheId: string;
+  pair: string;
+  amountUsd: number;
+  reason: string;
+  blockers?: string[];
+  mode?: string;
+}
+
+export function buildAmaTranchePlanAlert(plan: AmaTranchePlan, mode: string): NormalizedAlert {
+  return {
+    sourceModule: "AMA",
+    mode: "ama",
+    alertType: "ama_tranche_plan",
+    alertSubtype: "ama_tranche_plan",
+    alertCategory: "ama",
+    severity: "LOW",
+    pair: AMA_TELEGRAM_PAIR,
+    cycleId: plan.cycleId,
+    dedupeKey: `AMA:ama_tranche_plan:${plan.planId}`,
+    message: buildAmaTranchePlanHTML({
+      pair: AMA_TELEGRAM_PAIR,
+      mode,
+      cycleId: plan.cycleId,
+      planId: plan.planId,
+      version: plan.version,
+      plannedPurchaseCount: plan.plannedPurchaseCount,
+      deployableCycleCapitalUsd: plan.deployableCycleCapitalUsd,
+      mandatoryReserveUsd: plan.mandatoryReserveUsd,
+      hwmPrice: plan.hwmPrice,
+      asOfConfirmedClosePrice: plan.asOfConfirmedClosePrice,
+      tranches: plan.candidateTranches.map(t => ({
+        type: t.type,
+        activationDropPct: t.activationDropPct,
+        amountUsd: t.amountUsd,
+        eligible: t.eligible,
+      })),
+    }),
+  };
+}
+
+export function buildAmaRealGateFailedAlert(info: AmaGateFailureInfo): NormalizedAlert {
+  const reasonCode = info.reason.split(":")[0];
+  return {
+    sourceModule: "AMA",
+    mode: "ama",
+    alertType: "ama_real_gate_failed",
+    alertSubtype: "ama_real_gate_failed",
+    alertCategory: "ama",
+    severity: "HIGH",
+    pair: info.pair,
+    cycleId: info.cycleId,
+    // Un aviso por tramo y motivo; los reintentos del scheduler quedan deduplicados
+    dedupeKey: `AMA:ama_real_gate_failed:${info.cycleId}:${info.trancheId}:${reasonCode}`,
+    message: buildAmaRealGateFailedHTML({
+      pair: info.pair,
+      mode: info.mode ?? "REAL_LIMITED",
+      cycleId: info.cycleId,
+      trancheId: info.trancheId,
+      reason: reasonCode,
+      blockers: info.blockers,
+      amountUsd: info.amountUsd,
+    }),
+  };
+}
+
+async function send(alert: NormalizedAlert): Promise<void> {
+  try {
+    const { telegramNotificationCenter } = await import("../TelegramNotificationCenter");
+    await telegramNotificationCenter.send(alert);
+  } catch (err: any) {
+    console.error(`[ama/telegram] Failed to notify ${alert.alertType}:`, err?.message || err);
+  }
+}
+
+export async function notifyAmaTranchePlan(plan: AmaTranchePlan, mode: string): Promise<void> {
+  await send(buildAmaTranchePlanAlert(plan, mode));
+}
+
+export async function notifyAmaRealGateFailed(info: AmaGateFailureInfo): Promise<void> {
+  await send(buildAmaRealGateFailedAlert(info));
+}
@@ -0,0 +1,391 @@
+/**
+ * AuthService — users, session tokens, API keys and the audit trail.
+ *
+ * - Passwords: scrypt (`scrypt$<salt>$<hash>`), compared in constant time.
+ * - Tokens: random 32 bytes (base64url) with a kind prefix; only the SHA-256
+ *   is stored in auth_tokens. Sessions expire (AUTH_SESSION_TTL_HOURS, 168h
+ *   by default), API keys do not until revoked.
+ * - Legacy env tokens keep working: TERMINAL_TOKEN authenticates as admin,
+ *   WS_ADMIN_TOKEN as viewer (it only ever guarded the read-only events feed).
+ * - AUTH_DISABLED=true turns the whole subsystem off (local development):
+ *   every request runs as a synthetic admin.
+ */
+
+import crypto from "crypto";
+import { db } from "../../db";
+import { authUsers, authTokens, authAuditLog, type AuthRole, type AuthUser, type AuthAuditEntry } from "@shared/schema";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { isAuthRole } from "./authPolicy";
+
+export type AuthMethod = "session" | "api_key" | "legacy_token" | "disabled";
+export type AuthTokenKind = "session" | "api_key";
+
+export interface AuthPrincipal {
+  userId: number | null;
+  username: string;
+  role: AuthRole;
+  authMethod: AuthMethod;
+  tokenId: number | null;
+}
+
+export interface PublicAuthUser {
+  id: number;
+  username: string;
+  role: AuthRole;
+  isActive: boolean;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ApiKeySummary {
+  id: number;
+  userId: number;
+  username: string;
+  label: string | null;
+  tokenPrefix: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export class AuthError extends Error {
+  constructor(public readonly code: "INVALID_ROLE" | "USER_EXISTS" | "USER_NOT_FOUND" | "WEAK_PASSWORD", message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+const SCRYPT_KEYLEN = 64;
+const MIN_PASSWORD_LENGTH = 10;
+const TOKEN_PREFIX: Record<AuthTokenKind, string> = { session: "kbs_", api_key: "kbk_" };
+const PRINCIPAL_CACHE_TTL_MS = 30_000;
+const LAST_USED_THROTTLE_MS = 60_000;
+
+export const SESSION_COOKIE_NAME = "kb_session";
+
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === "true";
+}
+
+export function sessionTtlMs(): number {
+  const hours = parseInt(process.env.AUTH_SESSION_TTL_HOURS || "168", 10);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 168) * 60 * 60 * 1000;
+}
+
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function generateToken(kind: AuthTokenKind): string {
+  return `${TOKEN_PREFIX[kind]}${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+function toPublicUser(user: AuthUser): PublicAuthUser {
+  return {
+    id: user.id,
+    username: user.username,
+    role: isAuthRole(user.role) ? user.role : "viewer",
+    isActive: user.isActive,
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt,
+  };
+}
+
+class AuthService {
+  private principalCache = new Map<string, { principal: AuthPrincipal; expiresAt: number | null; cachedAt: number }>();
+  private lastUsedWrites = new Map<number, number>();
+
+  /**
+   * Principal used for every request while AUTH_DISABLED=true.
+   */
+  disabledPrincipal(): AuthPrincipal {
+    return { userId: null, username: "auth-disabled", role: "admin", authMethod: "disabled", tokenId: null };
+  }
+
+  private legacyPrincipal(token: string): AuthPrincipal | null {
+    const terminalToken = process.env.TERMINAL_TOKEN;
+    if (terminalToken && safeEqual(token, terminalToken)) {
+      return { userId: null, username: "legacy:TERMINAL_TOKEN", role: "admin", authMethod: "legacy_token", tokenId: null };
+    }
+    const wsToken = process.env.WS_ADMIN_TOKEN;
+    if (wsToken && safeEqual(token, wsToken)) {
+      return { userId: null, username: "legacy:WS_ADMIN_TOKEN", role: "viewer", authMethod: "legacy_token", tokenId: null };
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a bearer/cookie token to a principal. Returns null for unknown,
+   * expired or revoked tokens and for inactive users.
+   */
+  async authenticateToken(token: string | null | undefined): Promise<AuthPrincipal | null> {
+    if (!token) return null;
+
+    const legacy = this.legacyPrincipal(token);
+    if (legacy) return legacy;
+
+    const tokenHash = hashToken(token);
+    const now = Date.now();
+    const cached = this.principalCache.get(tokenHash);
+    if (cached && now - cached.cachedAt < PRINCIPAL_CACHE_TTL_MS && (cached.expiresAt === null || cached.expiresAt > now)) {
+      return cached.principal;
+    }
+
+    const rows = await db
+      .select({
+        tokenId: authTokens.id,
+        kind: authTokens.kind,
+        expiresAt: authTokens.expiresAt,
+        revokedAt: authTokens.revokedAt,
+        userId: authUsers.id,
+        username: authUsers.username,
+        role: authUsers.role,
+        isActive: authUsers.isActive,
+      })
+      .from(authTokens)
+      .innerJoin(authUsers, eq(authTokens.userId, authUsers.id))
+      .where(eq(authTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    const row = rows[0];
+    this.principalCache.delete(tokenHash);
+    if (!row || row.revokedAt || !row.isActive || !isAuthRole(row.role)) return null;
+    if (row.expiresAt && row.expiresAt.getTime() <= now) return null;
+
+    const principal: AuthPrincipal = {
+      userId: row.userId,
+      username: row.username,
+      role: row.role,
+      authMethod: row.kind === "api_key" ? "api_key" : "session",
+      tokenId: row.tokenId,
+    };
+    this.principalCache.set(tokenHash, { principal, expiresAt: row.expiresAt?.getTime() ?? null, cachedAt: now });
+    this.touchToken(row.tokenId, now);
+    return principal;
+  }
+
+  private touchToken(tokenId: number, now: number): void {
+    const last = this.lastUsedWrites.get(tokenId) ?? 0;
+    if (now - last < LAST_USED_THROTTLE_MS) return;
+    this.lastUsedWrites.set(tokenId, now);
+    db.update(authTokens)
+      .set({ lastUsedAt: new Date(now) })
+      .where(eq(authTokens.id, tokenId))
+      .catch((e: any) => console.warn("[auth] last_used_at update failed:", e?.message || e));
+  }
+
+  /**
+   * Check credentials and open a session. Returns null on bad credentials.
+   */
+  async login(username: string, password: string): Promise<{ token: string; expiresAt: Date; user: PublicAuthUser } | null> {
+    const [user] = await db.select().from(authUsers).where(eq(authUsers.username, username)).limit(1);
+    if (!user || !user.isActive || !verifyPassword(password, user.passwordHash)) return null;
+
+    const token = generateToken("session");
+    const expiresAt = new Date(Date.now() + sessionTtlMs());
+    await db.insert(authTokens).values({
+      userId: user.id,
+      kind: "session",
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, 12),
+      expiresAt,
+    });
+    await db.update(authUsers).set({ lastLoginAt: new Date() }).where(eq(authUsers.id, user.id));
+
+    return { token, expiresAt, user: toPublicUser(user) };
+  }
+
+  async logout(token: string): Promise<void> {
+    const tokenHash = hashToken(token);
+    this.principalCache.delete(tokenHash);
+    await db
+      .update(authTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(authTokens.tokenHash, tokenHash), eq(authTokens.kind, "session")));
+  }
+
+  // ---------------------------------------------------------------- users
+
+  async countUsers(): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(authUsers);
+    return row?.count ?? 0;
+  }
+
+  async listUsers(): Promise<PublicAuthUser[]> {
+    const rows = await db.select().from(authUsers).orderBy(authUsers.id);
+    return rows.map(toPublicUser);
+  }
+
+  async createUser(input: { username: string; password: string; role: AuthRole }): Promise<PublicAuthUser> {
+    if (!isAuthRole(input.role)) throw new AuthError("INVALID_ROLE", `Invalid role ${input.role}`);
+    if (input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError("WEAK_PASSWORD", `Password must have at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    const existing = await db.select({ id: authUsers.id }).from(authUsers).where(eq(authUsers.username, input.username)).limit(1);
+    if (existing.length > 0) throw new AuthError("USER_EXISTS", `User ${input.username} already exists`);
+
+    const [user] = await db
+      .insert(authUsers)
+      .values({ username: input.username, passwordHash: hashPassword(input.password), role: input.role })
+      .returning();
+    return toPublicUser(user);
+  }
+
+  /**
+   * Change role, active flag or password. Deactivating a user or changing its
+   * password revokes all its tokens.
+   */
+  async updateUser(id: number, patch: { role?: AuthRole; isActive?: boolean; password?: string }): Promise<PublicAuthUser> {
+    if (patch.role !== undefined && !isAuthRole(patch.role)) throw new AuthError("INVALID_ROLE", `Invalid role ${patch.role}`);
+    if (patch.password !== undefined && patch.password.length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError("WEAK_PASSWORD", `Password must have at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const set: Partial<typeof authUsers.$inferInsert> = { updatedAt: new Date() };
+    if (patch.role !== undefined) set.role = patch.role;
+    if (patch.isActive !== undefined) set.isActive = patch.isActive;
+    if (patch.password !== undefined) set.passwordHash = hashPassword(patch.password);
+
+    const [user] = await db.update(authUsers).set(set).where(eq(authUsers.id, id)).returning();
+    if (!user) throw new AuthError("USER_NOT_FOUND", `User ${id} not found`);
+
+    if (patch.isActive === false || patch.password !== undefined) {
+      await db.update(authTokens).set({ revokedAt: new Date() }).where(and(eq(authTokens.userId, id), isNull(authTokens.revokedAt)));
+    }
+    this.principalCache.clear();
+    return toPublicUser(user);
+  }
+
+  /**
+   * First boot: create the admin from AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD
+   * when auth_users is empty. Without those env vars only legacy tokens work.
+   */
+  async ensureBootstrapAdmin(): Promise<void> {
+    if (isAuthDisabled()) {
+      console.warn("[auth] AUTH_DISABLED=true — REST API and WebSockets are NOT authenticated");
+      return;
+    }
+    if ((await this.countUsers()) > 0) return;
+
+    const password = process.env.AUTH_ADMIN_PASSWORD;
+    if (!password) {
+      console.warn("[auth] No users in auth_users and AUTH_ADMIN_PASSWORD not set — only TERMINAL_TOKEN / WS_ADMIN_TOKEN can authenticate");
+      return;
+    }
+    const username = process.env.AUTH_ADMIN_USERNAME || "admin";
+    await this.createUser({ username, password, role: "admin" });
+    console.log(`[auth] Bootstrap admin user created: ${username}`);
+  }
+
+  // ------------------------------------------------------------- API keys
+
+  async createApiKey(userId: number, label: string | null): Promise<{ token: string; apiKey: ApiKeySummary }> {
+    const [user] = await db.select().from(authUsers).where(eq(authUsers.id, userId)).limit(1);
+    if (!user) throw new AuthError("USER_NOT_FOUND", `User ${userId} not found`);
+
+    const token = generateToken("api_key");
+    const [row] = await db
+      .insert(authTokens)
+      .values({ userId, kind: "api_key", label, tokenHash: hashToken(token), tokenPrefix: token.slice(0, 12) })
+      .returning();
+
+    return {
+      token,
+      apiKey: {
+        id: row.id,
+        userId,
+        username: user.username,
+        label: row.label,
+        tokenPrefix: row.tokenPrefix,
+        createdAt: row.createdAt,
+        lastUsedAt: row.lastUsedAt,
+        revokedAt: row.revokedAt,
+      },
+    };
+  }
+
+  async listApiKeys(): Promise<ApiKeySummary[]> {
+    return db
+      .select({
+        id: authTokens.id,
+        userId: authTokens.userId,
+        username: authUsers.username,
+        label: authTokens.label,
+        tokenPrefix: authTokens.tokenPrefix,
+        createdAt: authTokens.createdAt,
+        lastUsedAt: authTokens.lastUsedAt,
+        revokedAt: authTokens.revokedAt,
+      })
+      .from(authTokens)
+      .innerJoin(authUsers, eq(authTokens.userId, authUsers.id))
+      .where(eq(authTokens.kind, "api_key"))
+      .orderBy(desc(authTokens.createdAt));
+  }
+
+  async revokeApiKey(id: number): Promise<boolean> {
+    const rows = await db
+      .update(authTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(authTokens.id, id), eq(authTokens.kind, "api_key"), isNull(authTokens.revokedAt)))
+      .returning({ id: authTokens.id });
+    this.principalCache.clear();
+    return rows.length > 0;
+  }
+
+  // ---------------------------------------------------------------- audit
+
+  async recordAudit(entry: {
+    principal: AuthPrincipal | null;
+    method: string;
+    path: string;
+    statusCode: number;
+    ip: string | null;
+    durationMs: number;
+    requestBody: unknown;
+  }): Promise<void> {
+    await db.insert(authAuditLog).values({
+      userId: entry.principal?.userId ?? null,
+      username: entry.principal?.username ?? null,
+      role: entry.principal?.role ?? null,
+      authMethod: entry.principal?.authMethod ?? null,
+      method: entry.method,
+      path: entry.path,
+      statusCode: entry.statusCode,
+      ip: entry.ip,
+      durationMs: entry.durationMs,
+      requestBody: entry.requestBody ?? null,
+    });
+  }
+
+  async listAudit(filters: { limit: number; username?: string }): Promise<AuthAuditEntry[]> {
+    const where = filters.username ? eq(authAuditLog.username, filters.username) : undefined;
+    return db
+      .select()
+      .from(authAuditLog)
+      .where(where)
+      .orderBy(desc(authAuditLog.timestamp))
+      .limit(filters.limit);
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import express from "express";
+import http from "http";
+import type { AddressInfo } from "net";
+
+vi.mock("../../../db", () => ({ db: {} }));
+
+const authenticateToken = vi.fn();
+const recordAudit = vi.fn().mockResolvedValue(undefined);
+
+vi.mock("../AuthService", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../AuthService")>();
+  return {
+    ...actual,
+    authService: {
+      authenticateToken: (token: string | null) => authenticateToken(token),
+      recordAudit: (entry: unknown) => recordAudit(entry),
+      disabledPrincipal: () => ({ userId: null, username: "auth-disabled", role: "admin", authMethod: "disabled", tokenId: null }),
+    },
+  };
+});
+
+import { authenticateRequest, authenticateUpgrade, parseCookies, redactForAudit } from "../authMiddleware";
+import { requiredAccessFor, hasRole } from "../authPolicy";
+import { hashPassword, verifyPassword, generateToken, hashToken } from "../AuthService";
+
+const principals: Record<string, unknown> = {
+  "viewer-token": { userId: 1, username: "vera", role: "viewer", authMethod: "api_key", tokenId: 11 },
+  "operator-token": { userId: 2, username: "otto", role: "operator", authMethod: "session", tokenId: 12 },
+  "admin-token": { userId: 3, username: "ada", role: "admin", authMethod: "session", tokenId: 13 },
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", authenticateRequest);
+  app.get("/api/health", (_req, res) => res.json({ status: "ok" }));
+  app.get("/api/trades", (_req, res) => res.json([]));
+  app.post("/api/institutional-dca/emergency/close-all", (_req, res) => res.json({ success: true }));
+  app.post("/api/config/kraken", (_req, res) => res.json({ success: true }));
+  app.get("/api/auth/users", (_req, res) => res.json([]));
+  server = app.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  authenticateToken.mockReset();
+  authenticateToken.mockImplementation(async (token: string | null) => (token ? principals[token] ?? null : null));
+  recordAudit.mockClear();
+});
+
+afterEach(() => {
+  delete process.env.AUTH_DISABLED;
+});
+
+async function call(method: string, path: string, opts: { token?: string; cookie?: string; body?: unknown } = {}) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (opts.token) headers.Authorization = `Bearer ${opts.token}`;
+  if (opts.cookie) headers.Cookie = opts.cookie;
+  const res = await fetch(`${baseUrl}${path}`, { method, headers, body: opts.body ? JSON.stringify(opts.body) : undefined });
+  return { status: res.status, body: await res.json() };
+}
+
+describe("authPolicy.requiredAccessFor", () => {
+  it("keeps health and login public", () => {
+    expect(requiredAccessFor("GET", "/api/health")).toBe("public");
+    expect(requiredAccessFor("POST", "/api/auth/login")).toBe("public");
+  });
+
+  it("reads need viewer, mutations need operator", () => {
+    expect(requiredAccessFor("GET", "/api/trades")).toBe("viewer");
+    expect(requiredAccessFor("POST", "/api/grid-isolated/mode")).toBe("operator");
+    expect(requiredAccessFor("POST", "/api/institutional-dca/emergency/close-all")).toBe("operator");
+    expect(requiredAccessFor("DELETE", "/api/telegram/chats/3")).toBe("operator");
+  });
+
+  it("credentials, users, backups and admin tooling need admin", () => {
+    expect(requiredAccessFor("POST", "/api/config/kraken")).toBe("admin");
+    expect(requiredAccessFor("POST", "/api/config/binance")).toBe("admin");
+    expect(requiredAccessFor("POST", "/api/telegram/tokens")).toBe("admin");
+    expect(requiredAccessFor("PATCH", "/api/telegram/notification-channels/2")).toBe("admin");
+    expect(requiredAccessFor("GET", "/api/backups")).toBe("admin");
+    expect(requiredAccessFor("POST", "/api/admin/purge-failed-positions")).toBe("admin");
+    expect(requiredAccessFor("GET", "/api/auth/users")).toBe("admin");
+    expect(requiredAccessFor("GET", "/api/auth/me")).toBe("viewer");
+    // Reading config stays available to viewers
+    expect(requiredAccessFor("GET", "/api/config/api")).toBe("viewer");
+  });
+
+  it("matches paths case-insensitively like Express routing", () => {
+    expect(requiredAccessFor("POST", "/api/Config/Kraken")).toBe("admin");
+    expect(requiredAccessFor("GET", "/API/BACKUPS/list")).toBe("admin");
+    expect(requiredAccessFor("post", "/Api/Telegram/Tokens")).toBe("admin");
+    expect(requiredAccessFor("GET", "/api/Auth/Users")).toBe("admin");
+    expect(requiredAccessFor("GET", "/api/Auth/Me")).toBe("viewer");
+  });
+
+  it("orders roles viewer < operator < admin", () => {
+    expect(hasRole("admin", "operator")).toBe(true);
+    expect(hasRole("operator", "operator")).toBe(true);
+    expect(hasRole("viewer", "operator")).toBe(false);
+  });
+});
+
+describe("authenticateRequest", () => {
+  it("lets /api/health through without a token", async () => {
+    expect((await call("GET", "/api/health")).status).toBe(200);
+  });
+
+  it("rejects anonymous reads with 401", async () => {
+    const res = await call("GET", "/api/trades");
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe("UNAUTHORIZED");
+  });
+
+  it("accepts the session cookie and bearer tokens", async () => {
+    expect((await call("GET", "/api/trades", { cookie: "other=1; kb_session=viewer-token" })).status).toBe(200);
+    expect((await call("GET", "/api/trades", { token: "viewer-token" })).status).toBe(200);
+  });
+
+  it("blocks viewers from emergency close-all and allows operators", async () => {
+    const denied = await call("POST", "/api/institutional-dca/emergency/close-all", { token: "viewer-token" });
+    expect(denied.status).toBe(403);
+    expect(denied.body).toMatchObject({ error: "FORBIDDEN", requiredRole: "operator" });
+    expect((await call("POST", "/api/institutional-dca/emergency/close-all", { token: "operator-token" })).status).toBe(200);
+  });
+
+  it("restricts credential changes to admins", async () => {
+    expect((await call("POST", "/api/config/kraken", { token: "operator-token" })).status).toBe(403);
+    expect((await call("POST", "/api/config/kraken", { token: "admin-token" })).status).toBe(200);
+  });
+
+  it("does not lower the required role for changed-case paths", async () => {
+    const denied = await call("POST", "/api/Config/Kraken", { token: "operator-token" });
+    expect(denied.status).toBe(403);
+    expect(denied.body).toMatchObject({ requiredRole: "admin" });
+    expect((await call("POST", "/API/CONFIG/KRAKEN", { token: "admin-token" })).status).toBe(200);
+  });
+
+  it("audits mutating calls with the principal and a redacted body", async () => {
+    await call("POST", "/api/config/kraken", { token: "admin-token", body: { apiKey: "k", apiSecret: "s", note: "rotate" } });
+    await vi.waitFor(() => expect(recordAudit).toHaveBeenCalledTimes(1));
+    expect(recordAudit.mock.calls[0][0]).toMatchObject({
+      principal: { username: "ada", role: "admin" },
+      method: "POST",
+      path: "/api/config/kraken",
+      statusCode: 200,
+      requestBody: { apiKey: "[REDACTED]", apiSecret: "[REDACTED]", note: "rotate" },
+    });
+  });
+
+  it("audits rejected mutations without a principal", async () => {
+    await call("POST", "/api/institutional-dca/emergency/close-all");
+    await vi.waitFor(() => expect(recordAudit).toHaveBeenCalledTimes(1));
+    expect(recordAudit.mock.calls[0][0]).toMatchObject({ principal: null, statusCode: 401 });
+  });
+
+  it("does not audit reads", async () => {
+    await call("GET", "/api/trades", { token: "viewer-token" });
+    expect(recordAudit).not.toHaveBeenCalled();
+  });
+
+  it("AUTH_DISABLED=true runs every call as admin", async () => {
+    process.env.AUTH_DISABLED = "true";
+    expect((await call("GET", "/api/auth/users")).status).toBe(200);
+    expect(authenticateToken).not.toHaveBeenCalled();
+  });
+});
+
+describe("authenticateUpgrade", () => {
+  const upgradeReq = (url: string, headers: Record<string, string> = {}) =>
+    ({ url, headers: { host: "localhost", ...headers } }) as unknown as http.IncomingMessage;
+
+  it("accepts ?token= for browsers and the session cookie", async () => {
+    expect((await authenticateUpgrade(upgradeReq("/ws/events?token=viewer-token"), "viewer")).reason).toBeNull();
+    const viaCookie = await authenticateUpgrade(upgradeReq("/ws/events", { cookie: "kb_session=viewer-token" }), "viewer");
+    expect(viaCookie).toMatchObject({ reason: null, source: "cookie" });
+  });
+
+  it("reports missing, invalid and insufficient-role tokens", async () => {
+    expect((await authenticateUpgrade(upgradeReq("/ws/logs"), "admin")).reason).toBe("MISSING_TOKEN");
+    expect((await authenticateUpgrade(upgradeReq("/ws/logs?token=nope"), "admin")).reason).toBe("INVALID_TOKEN");
+    expect((await authenticateUpgrade(upgradeReq("/ws/logs?token=operator-token"), "admin")).reason).toBe("FORBIDDEN");
+    expect((await authenticateUpgrade(upgradeReq("/ws/logs?token=admin-token"), "admin")).reason).toBeNull();
+  });
+});
+
+describe("helpers", () => {
+  it("hashes and verifies passwords", () => {
+    const stored = hashPassword("correct horse battery");
+    expect(stored.startsWith("scrypt$")).toBe(true);
+    expect(verifyPassword("correct horse battery", stored)).toBe(true);
+    expect(verifyPassword("wrong password!", stored)).toBe(false);
+    expect(verifyPassword("anything", "plain-text")).toBe(false);
+  });
+
+  it("generates prefixed tokens and stable hashes", () => {
+    const session = generateToken("session");
+    const apiKey = generateToken("api_key");
+    expect(session.startsWith("kbs_")).toBe(true);
+    expect(apiKey.startsWith("kbk_")).toBe(true);
+    expect(hashToken(session)).toBe(hashToken(session));
+    expect(hashToken(session)).not.toBe(hashToken(apiKey));
+  });
+
+  it("parses cookies and redacts nested secrets", () => {
+    expect(parseCookies("a=1; kb_session=abc%3D")).toEqual({ a: "1", kb_session: "abc=" });
+    expect(redactForAudit({ nested: { privateKey: "x", pair: "BTC/USD" }, password: "p" })).toEqual({
+      nested: { privateKey: "[REDACTED]", pair: "BTC/USD" },
+      password: "[REDACTED]",
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Express + WebSocket authentication.
+ *
+ * Token sources (first found wins):
+ *   1. Authorization: Bearer <token>   — API keys, scripts, legacy env tokens
+ *   2. kb_session cookie               — browser sessions (set by /api/auth/login)
+ *   3. ?token=<token>                  — WebSocket upgrades only (browsers cannot set headers)
+ *
+ * Every mutating call (POST/PUT/PATCH/DELETE) is written to auth_audit_log
+ * once the response finishes, including calls rejected with 401/403.
+ */
+
+import type { IncomingMessage } from "http";
+import type { Request, Response, NextFunction } from "express";
+import type { AuthRole } from "@shared/schema";
+import { authService, isAuthDisabled, SESSION_COOKIE_NAME, type AuthPrincipal } from "./AuthService";
+import { hasRole, isMutatingMethod, requiredAccessFor } from "./authPolicy";
+
+const SENSITIVE_KEY_PATTERN = /pass(word)?|secret|token|api_?key|private_?key|authorization/i;
+const MAX_AUDIT_BODY_CHARS = 4000;
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(";")) {
+    const idx = part.indexOf("=");
+    if (idx < 0) continue;
+    const name = part.slice(0, idx).trim();
+    if (!name) continue;
+    try {
+      cookies[name] = decodeURIComponent(part.slice(idx + 1).trim());
+    } catch {
+      cookies[name] = part.slice(idx + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+export function extractToken(req: IncomingMessage, opts: { allowQuery?: boolean } = {}): { token: string | null; source: "header" | "cookie" | "query" | "none" } {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    return { token: authHeader.slice(7).trim(), source: "header" };
+  }
+  const cookieToken = parseCookies(req.headers.cookie)[SESSION_COOKIE_NAME];
+  if (cookieToken) {
+    return { token: cookieToken, source: "cookie" };
+  }
+  if (opts.allowQuery) {
+    const url = new URL(req.url || "", `http://${req.headers.host || "localhost"}`);
+    const queryToken = url.searchParams.get("token");
+    if (queryToken) return { token: queryToken, source: "query" };
+  }
+  return { token: null, source: "none" };
+}
+
+/**
+ * Copy of the request body safe to persist: credential-like keys are
+ * replaced by "[REDACTED]" and the result is capped in size.
+ */
+export function redactForAudit(body: unknown, depth = 0): unknown {
+  if (body === null || body === undefined) return null;
+  if (depth > 4) return "[TRUNCATED]";
+  if (Array.isArray(body)) return body.slice(0, 50).map((v) => redactForAudit(v, depth + 1));
+  if (typeof body === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+      out[key] = SENSITIVE_KEY_PATTERN.test(key) ? "[REDACTED]" : redactForAudit(value, depth + 1);
+    }
+    if (depth === 0 && JSON.stringify(out).length > MAX_AUDIT_BODY_CHARS) {
+      return { truncated: true, keys: Object.keys(out) };
+    }
+    return out;
+  }
+  if (typeof body === "string" && body.length > 500) return `${body.slice(0, 500)}…`;
+  return body;
+}
+
+export function getAuthPrincipal(res: Response): AuthPrincipal | null {
+  return (res.locals.auth as AuthPrincipal | undefined) ?? null;
+}
+
+/**
+ * Express middleware for everything under /api. Mount with app.use("/api", ...)
+ * before any route is registered.
+ */
+export async function authenticateRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const path = `${req.baseUrl}${req.path}`;
+  const access = requiredAccessFor(req.method, path);
+  const startedAt = Date.now();
+
+  let principal: AuthPrincipal | null = null;
+  try {
+    if (isAuthDisabled()) {
+      principal = authService.disabledPrincipal();
+    } else {
+      const { token } = extractToken(req);
+      principal = await authService.authenticateToken(token);
+    }
+  } catch (error: any) {
+    console.error("[auth] Token resolution failed:", error?.message || error);
+    res.status(500).json({ error: "AUTH_UNAVAILABLE" });
+    return;
+  }
+  res.locals.auth = principal;
+
+  if (isMutatingMethod(req.method)) {
+    res.on("finish", () => {
+      authService
+        .recordAudit({
+          // Read at finish time so /api/auth/login is attributed to the user it just authenticated
+          principal: getAuthPrincipal(res),
+          method: req.method,
+          path,
+          statusCode: res.statusCode,
+          ip: req.ip || req.socket.remoteAddress || null,
+          durationMs: Date.now() - startedAt,
+          requestBody: redactForAudit(req.body),
+        })
+        .catch((e: any) => console.warn("[auth] audit insert failed:", e?.message || e));
+    });
+  }
+
+  if (access === "public") {
+    next();
+    return;
+  }
+  if (!principal) {
+    res.status(401).json({ error: "UNAUTHORIZED" });
+    return;
+  }
+  if (!hasRole(principal.role, access)) {
+    res.status(403).json({ error: "FORBIDDEN", requiredRole: access, role: principal.role });
+    return;
+  }
+  next();
+}
+
+export interface UpgradeAuthResult {
+  principal: AuthPrincipal | null;
+  reason: "MISSING_TOKEN" | "INVALID_TOKEN" | "FORBIDDEN" | null;
+  source: "header" | "cookie" | "query" | "none";
+}
+
+/**
+ * Authenticate a WebSocket upgrade request against the same users/tokens
+ * as the REST API.
+ */
+export async function authenticateUpgrade(req: IncomingMessage, requiredRole: AuthRole): Promise<UpgradeAuthResult> {
+  if (isAuthDisabled()) {
+    return { principal: authService.disabledPrincipal(), reason: null, source: "none" };
+  }
+  const { token, source } = extractToken(req, { allowQuery: true });
+  if (!token) return { principal: null, reason: "MISSING_TOKEN", source };
+
+  const principal = await authService.authenticateToken(token);
+  if (!principal) return { principal: null, reason: "INVALID_TOKEN", source };
+  if (!hasRole(principal.role, requiredRole)) return { principal, reason: "FORBIDDEN", source };
+  return { principal, reason: null, source };
+}
@@ -0,0 +1,80 @@
+/**
+ * Auth policy — minimum role per REST call.
+ *
+ * Roles are ordered viewer < operator < admin:
+ *   - viewer:   any read (GET/HEAD)
+ *   - operator: any mutating call (POST/PUT/PATCH/DELETE) — modes, trades, emergency close
+ *   - admin:    exchange/Telegram credentials, users & API keys, backups, admin/debug/test tools
+ *
+ * Rules are evaluated in order; the first match wins. Anything not matched
+ * falls back to the method default above.
+ */
+
+import type { AuthRole } from "@shared/schema";
+
+export const ROLE_RANK: Record<AuthRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+};
+
+export type RequiredAccess = AuthRole | "public";
+
+interface AccessRule {
+  methods?: string[];
+  pattern: RegExp;
+  access: RequiredAccess;
+}
+
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+const ACCESS_RULES: AccessRule[] = [
+  // Public: health probe and login
+  { methods: ["GET", "HEAD"], pattern: /^\/api\/health$/, access: "public" },
+  { methods: ["POST"], pattern: /^\/api\/auth\/login$/, access: "public" },
+
+  // Any authenticated principal can inspect or end its own session
+  { pattern: /^\/api\/auth\/(me|logout)$/, access: "viewer" },
+
+  // User, API key and audit management
+  { pattern: /^\/api\/auth\//, access: "admin" },
+
+  // Admin / maintenance tooling
+  { pattern: /^\/api\/admin(\/|$)/, access: "admin" },
+  { pattern: /^\/api\/backups(\/|$)/, access: "admin" },
+  { pattern: /^\/api\/debug(\/|$)/, access: "admin" },
+  { methods: MUTATING_METHODS, pattern: /^\/api\/test(\/|$)/, access: "admin" },
+
+  // Credentials and exchange wiring (Kraken, Revolut X, Binance, Telegram tokens)
+  { methods: MUTATING_METHODS, pattern: /^\/api\/config\/(kraken|revolutx|binance|active-exchange|telegram)(\/|$)/, access: "admin" },
+  { methods: MUTATING_METHODS, pattern: /^\/api\/telegram\/tokens(\/|$)/, access: "admin" },
+  { methods: MUTATING_METHODS, pattern: /^\/api\/telegram\/notification-channels(\/|$)/, access: "admin" },
+];
+
+export function isMutatingMethod(method: string): boolean {
+  return MUTATING_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Minimum access required for a call. `path` is the full request path
+ * (e.g. /api/grid-isolated/mode), without query string. Express routing is
+ * case-insensitive, so the path is lower-cased before matching — otherwise
+ * /api/Config/Kraken would reach the admin route with an operator role.
+ */
+export function requiredAccessFor(method: string, path: string): RequiredAccess {
+  const m = method.toUpperCase();
+  const p = path.toLowerCase();
+  for (const rule of ACCESS_RULES) {
+    if (rule.methods && !rule.methods.includes(m)) continue;
+    if (rule.pattern.test(p)) return rule.access;
+  }
+  return isMutatingMethod(m) ? "operator" : "viewer";
+}
+
+export function isAuthRole(value: unknown): value is AuthRole {
+  return typeof value === "string" && value in ROLE_RANK;
+}
+
+export function hasRole(role: AuthRole, required: AuthRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -0,0 +1,409 @@
+/**
+ * signalCounterfactual.ts — Counterfactual engine behind the signal-config UI
+ * (/api/trading/signals/simulate and /optimize).
+ *
+ * Replays the same stored market_candles twice (or once per swept value)
+ * through replaySpotCandles: momentumCandlesStrategy is evaluated with the
+ * per-regime minSignals under test and every resulting entry goes through the
+ * configured exit stack (SMART_GUARD, SmartExit, TimeStop). Everything else
+ * (live bot_config, fees, spread, cooldowns) is identical between runs, so the
+ * deltas isolate the threshold change.
+ *
+ * Regime detection is forced on: per-regime thresholds are meaningless
+ * without it.
+ */
+
+import type { OHLCCandle } from "../indicators";
+import type { MarketRegime } from "../regimeDetection";
+import { MarketCandleRepository } from "../marketData/MarketCandleRepository";
+import { storage } from "../../storage";
+import { TIMEFRAME_SECONDS, botConfigFromRow, replaySpotCandles } from "./spotBacktestEngine";
+import type {
+  SpotBacktestBotConfig,
+  SpotBacktestResult,
+  SpotBacktestTimeframe,
+  SpotBacktestTrade,
+} from "./spotBacktestTypes";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SignalRegime = Extract<MarketRegime, "TREND" | "RANGE" | "TRANSITION">;
+
+export const SIGNAL_REGIMES: SignalRegime[] = ["TREND", "RANGE", "TRANSITION"];
+
+export type SignalThresholds = Record<SignalRegime, number>;
+
+/** Same shape as the signal config stored in bot_config.signalConfig. */
+export interface SignalConfigShape {
+  trend: { min: number; max: number; current: number };
+  range: { min: number; max: number; current: number };
+  transition: { min: number; max: number; current: number };
+}
+
+export interface CounterfactualWindow {
+  pairs: string[];
+  timeframe: SpotBacktestTimeframe;
+  startDate: string;
+  endDate: string;
+  initialCapitalUsd: number;
+  orderUsd: number;
+  tradingExchange: "kraken" | "revolutx";
+  botConfig: SpotBacktestBotConfig;
+}
+
+export interface CounterfactualDataset {
+  window: CounterfactualWindow;
+  candlesByPair: Record<string, OHLCCandle[]>;
+  skippedPairs: string[];
+}
+
+export interface RegimeMetrics {
+  trades: number;
+  winRatePct: number;
+  expectancyUsd: number;
+  netPnlUsd: number;
+}
+
+export interface CounterfactualMetrics {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRatePct: number;
+  expectancyUsd: number;
+  netPnlUsd: number;
+  profitFactor: number | null;
+  /** Realized drawdown of the combined book (trades ordered by exit time). */
+  maxDrawdownUsd: number;
+  maxDrawdownPct: number;
+  /** Worst mark-to-market drawdown of any single pair replay. */
+  maxPairDrawdownPct: number;
+  byRegime: Record<SignalRegime, RegimeMetrics>;
+}
+
+export interface SignalSimulationResult {
+  window: CounterfactualWindow & { skippedPairs: string[]; candlesProcessed: number };
+  current: { thresholds: SignalThresholds; metrics: CounterfactualMetrics };
+  proposed: { thresholds: SignalThresholds; metrics: CounterfactualMetrics };
+  delta: {
+    trades: number;
+    tradesPct: number | null;
+    winRatePct: number;
+    expectancyUsd: number;
+    netPnlUsd: number;
+    maxDrawdownPct: number;
+  };
+}
+
+export interface SignalOptimizationSuggestion {
+  regime: SignalRegime;
+  current: number;
+  recommended: number;
+  reason: string;
+  confidence: number;
+  expectedImpact: string;
+  sweep: Array<{ minSignals: number } & Pick<CounterfactualMetrics, "trades" | "winRatePct" | "expectancyUsd" | "netPnlUsd" | "maxDrawdownPct">>;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_COUNTERFACTUAL_DAYS = 30;
+const DEFAULT_TIMEFRAME: SpotBacktestTimeframe = "15m";
+const DEFAULT_INITIAL_CAPITAL_USD = 1000;
+const DEFAULT_ORDER_USD = 100;
+const WARMUP_CANDLES = 120;
+const MIN_CANDLES = 60;
+/** A swept value needs at least this many trades to be recommended. */
+const MIN_OPTIMIZATION_TRADES = 10;
+/** Recommended value may not worsen the realized drawdown by more than this (pp). */
+const MAX_DRAWDOWN_WORSENING_PCT = 2;
+const OPTIMIZE_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+export function thresholdsFromSignalConfig(config: SignalConfigShape): SignalThresholds {
+  return { TREND: config.trend.current, RANGE: config.range.current, TRANSITION: config.transition.current };
+}
+
+function regimeMetrics(trades: SpotBacktestTrade[]): RegimeMetrics {
+  const pnl = trades.map(t => t.pnlNetUsd ?? 0);
+  const net = pnl.reduce((s, v) => s + v, 0);
+  return {
+    trades: trades.length,
+    winRatePct: trades.length > 0 ? (pnl.filter(v => v > 0).length / trades.length) * 100 : 0,
+    expectancyUsd: trades.length > 0 ? net / trades.length : 0,
+    netPnlUsd: net,
+  };
+}
+
+/**
+ * Combines per-pair replays into one book. Win/loss split matches
+ * SpotBacktestSummary (pnl <= 0 is a loss).
+ */
+export function aggregateCounterfactual(results: SpotBacktestResult[], initialCapitalUsd: number): CounterfactualMetrics {
+  const closed = results
+    .flatMap(r => r.trades)
+    .filter(t => t.pnlNetUsd !== null)
+    .sort((a, b) => (a.exitTime ?? "").localeCompare(b.exitTime ?? ""));
+
+  const capital = initialCapitalUsd * Math.max(1, results.length);
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdownUsd = 0;
+  let maxDrawdownPct = 0;
+  for (const t of closed) {
+    cumulative += t.pnlNetUsd ?? 0;
+    peak = Math.max(peak, cumulative);
+    const dd = peak - cumulative;
+    if (dd > maxDrawdownUsd) {
+      maxDrawdownUsd = dd;
+      maxDrawdownPct = (dd / (capital + peak)) * 100;
+    }
+  }
+
+  const all = regimeMetrics(closed);
+  const grossProfit = closed.reduce((s, t) => s + Math.max(0, t.pnlNetUsd ?? 0), 0);
+  const grossLoss = Math.abs(closed.reduce((s, t) => s + Math.min(0, t.pnlNetUsd ?? 0), 0));
+  const wins = closed.filter(t => (t.pnlNetUsd ?? 0) > 0).length;
+
+  const byRegime = {} as Record<SignalRegime, RegimeMetrics>;
+  for (const regime of SIGNAL_REGIMES) {
+    byRegime[regime] = regimeMetrics(closed.filter(t => t.regimeAtEntry === regime));
+  }
+
+  return {
+    trades: closed.length,
+    wins,
+    losses: closed.length - wins,
+    winRatePct: all.winRatePct,
+    expectancyUsd: all.expectancyUsd,
+    netPnlUsd: all.netPnlUsd,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    maxDrawdownUsd,
+    maxDrawdownPct,
+    maxPairDrawdownPct: results.reduce((m, r) => Math.max(m, r.summary.maxDrawdownPct), 0),
+    byRegime,
+  };
+}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * Replays every pair of the dataset with the given thresholds. Yields to the
+ * event loop between pairs so a long sweep does not starve the trading loop.
+ */
+export async function runCounterfactual(
+  dataset: CounterfactualDataset,
+  thresholds: SignalThresholds,
+): Promise<{ metrics: CounterfactualMetrics; candlesProcessed: number }> {
+  const { window } = dataset;
+  const results: SpotBacktestResult[] = [];
+  for (const pair of Object.keys(dataset.candlesByPair)) {
+    await yieldToEventLoop();
+    results.push(await replaySpotCandles(dataset.candlesByPair[pair], {
+      pair,
+      timeframe: window.timeframe,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      initialCapitalUsd: window.initialCapitalUsd,
+      orderUsd: window.orderUsd,
+      tradingExchange: window.tradingExchange,
+      botConfig: { ...window.botConfig, regimeDetectionEnabled: true, minSignalsByRegime: thresholds },
+    }));
+  }
+  return {
+    metrics: aggregateCounterfactual(results, window.initialCapitalUsd),
+    candlesProcessed: results.reduce((s, r) => s + r.summary.candlesProcessed, 0),
+  };
+}
+
+export async function compareSignalThresholds(
+  dataset: CounterfactualDataset,
+  current: SignalThresholds,
+  proposed: SignalThresholds,
+): Promise<SignalSimulationResult> {
+  const base = await runCounterfactual(dataset, current);
+  const next = await runCounterfactual(dataset, proposed);
+  const a = base.metrics;
+  const b = next.metrics;
+  return {
+    window: { ...dataset.window, skippedPairs: dataset.skippedPairs, candlesProcessed: base.candlesProcessed },
+    current: { thresholds: current, metrics: a },
+    proposed: { thresholds: proposed, metrics: b },
+    delta: {
+      trades: b.trades - a.trades,
+      tradesPct: a.trades > 0 ? ((b.trades - a.trades) / a.trades) * 100 : null,
+      winRatePct: b.winRatePct - a.winRatePct,
+      expectancyUsd: b.expectancyUsd - a.expectancyUsd,
+      netPnlUsd: b.netPnlUsd - a.netPnlUsd,
+      maxDrawdownPct: b.maxDrawdownPct - a.maxDrawdownPct,
+    },
+  };
+}
+
+/**
+ * Picks, among the swept values, the one with the best net PnL that has
+ * enough trades and does not worsen drawdown beyond the tolerance.
+ * Ties keep the value closest to the current one.
+ */
+export function pickRecommendation(
+  current: number,
+  baseline: CounterfactualMetrics,
+  sweep: SignalOptimizationSuggestion["sweep"],
+): number {
+  let best = current;
+  let bestPnl = baseline.netPnlUsd;
+  for (const point of sweep) {
+    if (point.trades < MIN_OPTIMIZATION_TRADES) continue;
+    if (point.maxDrawdownPct > baseline.maxDrawdownPct + MAX_DRAWDOWN_WORSENING_PCT) continue;
+    const better = point.netPnlUsd > bestPnl + 1e-9
+      || (Math.abs(point.netPnlUsd - bestPnl) <= 1e-9 && Math.abs(point.minSignals - current) < Math.abs(best - current));
+    if (better) {
+      best = point.minSignals;
+      bestPnl = point.netPnlUsd;
+    }
+  }
+  return best;
+}
+
+/**
+ * Sweeps each regime's minSignals over [min, max] holding the other regimes
+ * at their current value.
+ */
+export async function optimizeSignalThresholds(
+  dataset: CounterfactualDataset,
+  config: SignalConfigShape,
+): Promise<SignalOptimizationSuggestion[]> {
+  const current = thresholdsFromSignalConfig(config);
+  const baseline = (await runCounterfactual(dataset, current)).metrics;
+  const suggestions: SignalOptimizationSuggestion[] = [];
+
+  for (const regime of SIGNAL_REGIMES) {
+    const range = config[regime.toLowerCase() as keyof SignalConfigShape];
+    const lo = Math.max(1, Math.min(range.min, range.max));
+    const hi = Math.min(10, Math.max(range.min, range.max));
+
+    const sweep: SignalOptimizationSuggestion["sweep"] = [];
+    const metricsByValue = new Map<number, CounterfactualMetrics>();
+    for (let value = lo; value <= hi; value++) {
+      const metrics = value === current[regime]
+        ? baseline
+        : (await runCounterfactual(dataset, { ...current, [regime]: value })).metrics;
+      metricsByValue.set(value, metrics);
+      sweep.push({
+        minSignals: value,
+        trades: metrics.trades,
+        winRatePct: metrics.winRatePct,
+        expectancyUsd: metrics.expectancyUsd,
+        netPnlUsd: metrics.netPnlUsd,
+        maxDrawdownPct: metrics.maxDrawdownPct,
+      });
+    }
+
+    const recommended = pickRecommendation(current[regime], baseline, sweep);
+    const best = metricsByValue.get(recommended) ?? baseline;
+    const regimeTrades = best.byRegime[regime].trades;
+    // Evidence grows with the trades the regime actually produced in the window
+    const confidence = Math.round(Math.min(95, 30 + 65 * Math.min(1, regimeTrades / 50)));
+    const deltaPnl = best.netPnlUsd - baseline.netPnlUsd;
+
+    suggestions.push({
+      regime,
+      current: current[regime],
+      recommended,
+      reason: recommended === current[regime]
+        ? `Ningún valor ${lo}-${hi} mejora el PnL neto actual ($${baseline.netPnlUsd.toFixed(2)}, ${baseline.trades} trades) sin empeorar el drawdown`
+        : `Replay de ${dataset.window.pairs.length} par(es): ${best.trades} trades, win rate ${best.winRatePct.toFixed(1)}%, expectancy $${best.expectancyUsd.toFixed(2)} (actual: ${baseline.trades} trades, ${baseline.winRatePct.toFixed(1)}%, $${baseline.expectancyUsd.toFixed(2)})`,
+      confidence,
+      expectedImpact: recommended === current[regime]
+        ? "Mantener configuración actual"
+        : `${deltaPnl >= 0 ? "+" : ""}$${deltaPnl.toFixed(2)} PnL neto, drawdown ${best.maxDrawdownPct.toFixed(2)}% (actual ${baseline.maxDrawdownPct.toFixed(2)}%)`,
+      sweep,
+    });
+  }
+  return suggestions;
+}
+
+// ─── DB-backed engine ─────────────────────────────────────────────────────────
+
+export interface CounterfactualOptions {
+  pairs?: string[];
+  timeframe?: SpotBacktestTimeframe;
+  days?: number;
+  orderUsd?: number;
+}
+
+class SignalCounterfactualEngine {
+  private optimizeCache = new Map<string, { expiresAt: number; value: Promise<SignalOptimizationSuggestion[]> }>();
+
+  /**
+   * Loads the candles and the live bot_config the counterfactual replays run on.
+   */
+  async loadDataset(options: CounterfactualOptions = {}): Promise<CounterfactualDataset> {
+    const [botRow, apiCfg] = await Promise.all([storage.getBotConfig(), storage.getApiConfig()]);
+    const configuredTf = botRow?.signalTimeframe as SpotBacktestTimeframe | undefined;
+    const timeframe = options.timeframe
+      ?? (configuredTf && TIMEFRAME_SECONDS[configuredTf] ? configuredTf : DEFAULT_TIMEFRAME);
+    const tfSec = TIMEFRAME_SECONDS[timeframe];
+    const pairs = options.pairs?.length ? options.pairs : ((botRow?.activePairs as string[] | undefined) ?? []);
+    const days = options.days ?? DEFAULT_COUNTERFACTUAL_DAYS;
+
+    const endMs = Date.now();
+    const startMs = endMs - days * 86_400_000;
+    const since = startMs - WARMUP_CANDLES * tfSec * 1000;
+
+    const candlesByPair: Record<string, OHLCCandle[]> = {};
+    const skippedPairs: string[] = [];
+    for (const pair of pairs) {
+      const stored = await MarketCandleRepository.getCandlesSince(pair, timeframe, since);
+      const candles = stored
+        .filter(c => c.time <= endMs)
+        .map(c => ({ time: Math.floor(c.time / 1000), open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume }));
+      if (candles.length < MIN_CANDLES) skippedPairs.push(pair);
+      else candlesByPair[pair] = candles;
+    }
+    if (Object.keys(candlesByPair).length === 0) {
+      throw new Error(`Sin velas suficientes en market_candles (${timeframe}, ${days}d) para ${pairs.join(", ") || "ningún par activo"}`);
+    }
+
+    return {
+      window: {
+        pairs: Object.keys(candlesByPair),
+        timeframe,
+        startDate: new Date(startMs).toISOString(),
+        endDate: new Date(endMs).toISOString(),
+        initialCapitalUsd: DEFAULT_INITIAL_CAPITAL_USD,
+        orderUsd: options.orderUsd ?? DEFAULT_ORDER_USD,
+        tradingExchange: apiCfg?.tradingExchange === "revolutx" ? "revolutx" : "kraken",
+        botConfig: botConfigFromRow(botRow),
+      },
+      candlesByPair,
+      skippedPairs,
+    };
+  }
+
+  async simulate(config: SignalConfigShape, proposed: SignalThresholds, options: CounterfactualOptions = {}): Promise<SignalSimulationResult> {
+    const dataset = await this.loadDataset(options);
+    return compareSignalThresholds(dataset, thresholdsFromSignalConfig(config), proposed);
+  }
+
+  /**
+   * Sweeps are expensive (one replay per value); results are cached per
+   * config + options and concurrent callers share the in-flight run.
+   */
+  async optimize(config: SignalConfigShape, options: CounterfactualOptions = {}): Promise<SignalOptimizationSuggestion[]> {
+    const key = JSON.stringify({ config, options });
+    const now = Date.now();
+    const cached = this.optimizeCache.get(key);
+    if (cached && cached.expiresAt > now) return cached.value;
+
+    const value = this.loadDataset(options).then(dataset => optimizeSignalThresholds(dataset, config));
+    this.optimizeCache.set(key, { expiresAt: now + OPTIMIZE_CACHE_TTL_MS, value });
+    value.catch(() => this.optimizeCache.delete(key));
+    for (const [k, entry] of this.optimizeCache) {
+      if (entry.expiresAt <= now) this.optimizeCache.delete(k);
+    }
+    return value;
+  }
+}
+
+export const signalCounterfactualEngine = new SignalCounterfactualEngine();
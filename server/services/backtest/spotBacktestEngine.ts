@@ -0,0 +1,704 @@
+/**
+ * SpotBacktestEngine — Candle-replay backtester for the Spot pipeline.
+ *
+ * Replays stored market_candles (MarketCandleRepository) through the same
+ * building blocks TradingEngine uses in candle mode:
+ *   - Regime detection + router (momentumCandlesStrategy / meanReversionSimpleStrategy)
+ *   - Regime-adjusted minSignals (SMART_GUARD B3 gate, overridable per regime) and confidence gate
+ *   - Multi-lot, pair cooldown and post stop-loss cooldown gates
+ *   - Spread gate (classifyEffectiveSpread, simulated bid/ask around close)
+ *   - SMART_GUARD exits: ultimate SL, fixed TP, break-even, trailing (ATR + decay)
+ *   - SINGLE/DCA exits: legacy SL / TP / trailing from highest (ExitManager.checkSinglePositionSLTP)
+ *   - SmartExitEngine scoring (fresh instance, replay clock)
+ *   - TimeStop TTL with Smart TimeStop V2 decisions scored from the replay window
+ *
+ * Orders go through an ITradeExecutor (BacktestExecutor by default), so no
+ * exchange or DB side effects happen during the replay.
+ *
+ * Fill model: decisions at candle close, fills at close ± slippage. Protective
+ * stops are checked intrabar against the low (gap-aware: min(open, stop)),
+ * fixed TP against the high. No lookahead: candle i only sees candles ≤ i.
+ *
+ * Known simplifications vs live: no MTF filter (mtfValid=false), no AI filter,
+ * no scale-out / progressive BE, no anti-cresta hybrid watches.
+ */
+
+import { momentumCandlesStrategy, meanReversionSimpleStrategy, type TradeSignal } from "../strategies";
+import { calculateATRPercent, type OHLCCandle } from "../indicators";
+import {
+  detectMarketRegime,
+  getRegimeAdjustedParams,
+  REGIME_PRESETS,
+  type MarketRegime,
+} from "../regimeDetection";
+import { calculateSpreadPct, classifyEffectiveSpread } from "../spreadFilter";
+import { SmartExitEngine, type EntryContext, type SmartExitConfig } from "../SmartExitEngine";
+import { computeMarketScoresFromCandles, decideSmartTimeStopV2 } from "../SmartTimeStopV2";
+import { MarketCandleRepository } from "../marketData/MarketCandleRepository";
+import { BacktestExecutor } from "../executors/BacktestExecutor";
+import type { ITradeExecutor } from "../executors/ITradeExecutor";
+import { botLogger } from "../botLogger";
+import type {
+  SpotBacktestBotConfig,
+  SpotBacktestConfig,
+  SpotBacktestExitReason,
+  SpotBacktestGate,
+  SpotBacktestResult,
+  SpotBacktestSummary,
+  SpotBacktestTimeframe,
+  SpotBacktestTrade,
+} from "./spotBacktestTypes";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const TIMEFRAME_SECONDS: Record<SpotBacktestTimeframe, number> = {
+  "5m": 300,
+  "15m": 900,
+  "30m": 1800,
+  "1h": 3600,
+  "4h": 14400,
+  "1d": 86400,
+};
+
+const EXCHANGE_TAKER_FEE_PCT: Record<"kraken" | "revolutx", number> = {
+  kraken: 0.40,
+  revolutx: 0.09,
+};
+
+const DEFAULT_SLIPPAGE_PCT = 0.05;
+const DEFAULT_SIMULATED_SPREAD_PCT = 0.10;
+const DEFAULT_WARMUP_CANDLES = 50;
+const DEFAULT_LOOKBACK_CANDLES = 120;
+const BASE_MIN_SIGNALS = 5;
+const MAX_EQUITY_POINTS = 500;
+
+// ─── Internal state ───────────────────────────────────────────────────────────
+
+interface ResolvedBotConfig {
+  positionMode: "SMART_GUARD" | "SINGLE" | "DCA";
+  regimeDetectionEnabled: boolean;
+  regimeRouterEnabled: boolean;
+  transitionSizeFactor: number;
+  signalScoringEnabled: boolean;
+  minConfidence: number;
+  maxLotsPerPair: number;
+  pairCooldownSec: number;
+  stopLossCooldownSec: number;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  trailingStopEnabled: boolean;
+  trailingStopPercent: number;
+  sgBeAtPct: number;
+  sgFeeCushionPct: number;
+  sgTrailStartPct: number;
+  sgTrailDistancePct: number;
+  sgTrailStepPct: number;
+  sgTpFixedEnabled: boolean;
+  sgTpFixedPct: number;
+  timeStopEnabled: boolean;
+  timeStopHours: number;
+  smartTimeStopV2Enabled: boolean;
+  smartExit: SmartExitConfig;
+  spread: SpotBacktestBotConfig;
+  minSignalsByRegime: Partial<Record<MarketRegime, number>>;
+}
+
+interface SimLot {
+  lotId: string;
+  trade: SpotBacktestTrade;
+  entryTimeSec: number;
+  entryPrice: number;
+  amount: number;
+  confidence: number;
+  beAtPct: number;
+  feeCushionPct: number;
+  trailStartPct: number;
+  trailDistancePct: number;
+  trailStepPct: number;
+  tpFixedEnabled: boolean;
+  tpFixedPct: number;
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  trailingStopEnabled: boolean;
+  trailingStopPercent: number;
+  highestPrice: number;
+  breakEvenActivated: boolean;
+  trailingActivated: boolean;
+  currentStopPrice: number | null;
+  entryContext: EntryContext;
+}
+
+interface ExitDecision {
+  reason: SpotBacktestExitReason;
+  price: number;
+  detail: string;
+}
+
+// ─── Config helpers ───────────────────────────────────────────────────────────
+
+function num(value: unknown, fallback: number): number {
+  const n = typeof value === "string" ? parseFloat(value) : Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Maps a bot_config row (decimals as strings) into the replay config subset.
+ */
+export function botConfigFromRow(row: any): SpotBacktestBotConfig {
+  if (!row) return {};
+  return {
+    positionMode: row.positionMode ?? undefined,
+    regimeDetectionEnabled: row.regimeDetectionEnabled ?? undefined,
+    regimeRouterEnabled: row.regimeRouterEnabled ?? undefined,
+    transitionSizeFactor: row.transitionSizeFactor != null ? num(row.transitionSizeFactor, 0.5) : undefined,
+    maxLotsPerPair: row.sgMaxOpenLotsPerPair ?? undefined,
+    stopLossPercent: row.stopLossPercent != null ? num(row.stopLossPercent, 5) : undefined,
+    takeProfitPercent: row.takeProfitPercent != null ? num(row.takeProfitPercent, 7) : undefined,
+    trailingStopEnabled: row.trailingStopEnabled ?? undefined,
+    trailingStopPercent: row.trailingStopPercent != null ? num(row.trailingStopPercent, 2) : undefined,
+    sgBeAtPct: row.sgBeAtPct != null ? num(row.sgBeAtPct, 1.5) : undefined,
+    sgFeeCushionPct: row.sgFeeCushionPct != null ? num(row.sgFeeCushionPct, 0.45) : undefined,
+    sgTrailStartPct: row.sgTrailStartPct != null ? num(row.sgTrailStartPct, 2) : undefined,
+    sgTrailDistancePct: row.sgTrailDistancePct != null ? num(row.sgTrailDistancePct, 0.85) : undefined,
+    sgTrailStepPct: row.sgTrailStepPct != null ? num(row.sgTrailStepPct, 0.25) : undefined,
+    sgTpFixedEnabled: row.sgTpFixedEnabled ?? undefined,
+    sgTpFixedPct: row.sgTpFixedPct != null ? num(row.sgTpFixedPct, 10) : undefined,
+    timeStopHours: row.timeStopHours ?? undefined,
+    smartExitConfig: row.smartExitConfig ?? undefined,
+    spreadFilterEnabled: row.spreadFilterEnabled ?? undefined,
+    spreadDynamicEnabled: row.spreadDynamicEnabled ?? undefined,
+    spreadMaxPct: row.spreadMaxPct ?? undefined,
+    spreadThresholdTrend: row.spreadThresholdTrend ?? undefined,
+    spreadThresholdRange: row.spreadThresholdRange ?? undefined,
+    spreadThresholdTransition: row.spreadThresholdTransition ?? undefined,
+    spreadCapPct: row.spreadCapPct ?? undefined,
+    spreadFloorPct: row.spreadFloorPct ?? undefined,
+    spreadRevolutxMarkupPct: row.spreadRevolutxMarkupPct ?? undefined,
+  };
+}
+
+function resolveBotConfig(cfg: SpotBacktestBotConfig | undefined, smartExitEngine: SmartExitEngine): ResolvedBotConfig {
+  const c = cfg ?? {};
+  return {
+    positionMode: c.positionMode ?? "SINGLE",
+    regimeDetectionEnabled: c.regimeDetectionEnabled ?? false,
+    regimeRouterEnabled: c.regimeRouterEnabled ?? false,
+    transitionSizeFactor: c.transitionSizeFactor ?? 0.5,
+    signalScoringEnabled: c.signalScoringEnabled ?? false,
+    minConfidence: c.minConfidence ?? 0.6,
+    maxLotsPerPair: Math.max(1, c.maxLotsPerPair ?? 1),
+    pairCooldownSec: (c.pairCooldownMinutes ?? 15) * 60,
+    stopLossCooldownSec: (c.stopLossCooldownMinutes ?? 30) * 60,
+    stopLossPercent: c.stopLossPercent ?? 5,
+    takeProfitPercent: c.takeProfitPercent ?? 7,
+    trailingStopEnabled: c.trailingStopEnabled ?? false,
+    trailingStopPercent: c.trailingStopPercent ?? 2,
+    sgBeAtPct: c.sgBeAtPct ?? 1.5,
+    sgFeeCushionPct: c.sgFeeCushionPct ?? 0.45,
+    sgTrailStartPct: c.sgTrailStartPct ?? 2.0,
+    sgTrailDistancePct: c.sgTrailDistancePct ?? 0.85,
+    sgTrailStepPct: c.sgTrailStepPct ?? 0.25,
+    sgTpFixedEnabled: c.sgTpFixedEnabled ?? false,
+    sgTpFixedPct: c.sgTpFixedPct ?? 10,
+    timeStopEnabled: c.timeStopEnabled ?? true,
+    timeStopHours: c.timeStopHours ?? 36,
+    smartTimeStopV2Enabled: c.smartTimeStopV2Enabled ?? true,
+    smartExit: smartExitEngine.getConfig(c.smartExitConfig ?? null),
+    spread: c,
+    minSignalsByRegime: c.minSignalsByRegime ?? {},
+  };
+}
+
+// ─── Exit evaluation ──────────────────────────────────────────────────────────
+
+function effectiveTrailDistancePct(lot: SimLot, atrPct: number, ageHours: number): number {
+  // Same ATR + time-decay shaping as ExitManager.checkSmartGuardExit
+  let dist = lot.trailDistancePct;
+  if (atrPct > 0) {
+    dist = Math.min(lot.trailDistancePct, Math.max(0.3, atrPct * 1.5));
+  }
+  const decayFactor = Math.max(0.5, 1 - (ageHours / 72) * 0.5);
+  return Math.max(0.3, dist * decayFactor);
+}
+
+/**
+ * Intrabar SMART_GUARD evaluation for one candle. Mutates BE/trailing state.
+ * Order: protective stops on the low → fixed TP on the high → arm/ratchet
+ * with the high → stop re-check on the close.
+ */
+function evaluateSmartGuardCandle(lot: SimLot, candle: OHLCCandle, atrPct: number): ExitDecision | null {
+  const ageHours = (candle.time - lot.entryTimeSec) / 3600;
+  const slPrice = lot.entryPrice * (1 - lot.stopLossPercent / 100);
+
+  if (candle.low <= slPrice) {
+    const price = Math.min(candle.open, slPrice);
+    return { reason: "STOP_LOSS", price, detail: `Stop-Loss emergencia SMART_GUARD (-${lot.stopLossPercent}%)` };
+  }
+  if (lot.currentStopPrice !== null && candle.low <= lot.currentStopPrice) {
+    const price = Math.min(candle.open, lot.currentStopPrice);
+    return lot.trailingActivated
+      ? { reason: "TRAILING_STOP", price, detail: `Trailing Stop SMART_GUARD @ ${lot.currentStopPrice.toFixed(4)}` }
+      : { reason: "BREAK_EVEN", price, detail: `Break-even Stop SMART_GUARD @ ${lot.currentStopPrice.toFixed(4)}` };
+  }
+  if (lot.tpFixedEnabled) {
+    const tpPrice = lot.entryPrice * (1 + lot.tpFixedPct / 100);
+    if (candle.high >= tpPrice) {
+      return { reason: "TAKE_PROFIT", price: Math.max(candle.open, tpPrice), detail: `Take-Profit fijo SMART_GUARD (+${lot.tpFixedPct}%)` };
+    }
+  }
+
+  const highChangePct = ((candle.high - lot.entryPrice) / lot.entryPrice) * 100;
+  const trailDistancePct = effectiveTrailDistancePct(lot, atrPct, ageHours);
+
+  if (!lot.breakEvenActivated && highChangePct >= lot.beAtPct) {
+    lot.breakEvenActivated = true;
+    lot.currentStopPrice = lot.entryPrice * (1 + lot.feeCushionPct / 100);
+  }
+  if (!lot.trailingActivated && highChangePct >= lot.trailStartPct) {
+    lot.trailingActivated = true;
+    const trailStop = candle.high * (1 - trailDistancePct / 100);
+    if (lot.currentStopPrice === null || trailStop > lot.currentStopPrice) {
+      lot.currentStopPrice = trailStop;
+    }
+  } else if (lot.trailingActivated && lot.currentStopPrice !== null) {
+    const newTrailStop = candle.high * (1 - trailDistancePct / 100);
+    if (newTrailStop > lot.currentStopPrice * (1 + lot.trailStepPct / 100)) {
+      lot.currentStopPrice = newTrailStop;
+    }
+  }
+
+  if (lot.currentStopPrice !== null && candle.close <= lot.currentStopPrice) {
+    return lot.trailingActivated
+      ? { reason: "TRAILING_STOP", price: lot.currentStopPrice, detail: `Trailing Stop SMART_GUARD @ ${lot.currentStopPrice.toFixed(4)}` }
+      : { reason: "BREAK_EVEN", price: lot.currentStopPrice, detail: `Break-even Stop SMART_GUARD @ ${lot.currentStopPrice.toFixed(4)}` };
+  }
+  return null;
+}
+
+/**
+ * Intrabar SINGLE/DCA evaluation (ExitManager.checkSinglePositionSLTP).
+ * Order: SL on the low → trailing from the previous highest on the low →
+ * TP on the high → raise highest with the high → trailing re-check on the
+ * close. Like live, the trailing stop only sells in profit.
+ */
+function evaluateLegacyCandle(lot: SimLot, candle: OHLCCandle): ExitDecision | null {
+  const slPrice = lot.entryPrice * (1 - lot.stopLossPercent / 100);
+  if (candle.low <= slPrice) {
+    const price = Math.min(candle.open, slPrice);
+    return { reason: "STOP_LOSS", price, detail: `Stop-Loss activado (-${lot.stopLossPercent}%)` };
+  }
+
+  const trailStopFrom = (highest: number) => highest * (1 - lot.trailingStopPercent / 100);
+  if (lot.trailingStopEnabled && lot.highestPrice > lot.entryPrice) {
+    const trailStop = trailStopFrom(lot.highestPrice);
+    const price = Math.min(candle.open, trailStop);
+    if (candle.low <= trailStop && price > lot.entryPrice) {
+      return { reason: "TRAILING_STOP", price, detail: `Trailing Stop activado (-${lot.trailingStopPercent}% desde máximo ${lot.highestPrice.toFixed(4)})` };
+    }
+  }
+
+  const tpPrice = lot.entryPrice * (1 + lot.takeProfitPercent / 100);
+  if (candle.high >= tpPrice) {
+    return { reason: "TAKE_PROFIT", price: Math.max(candle.open, tpPrice), detail: `Take-Profit activado (+${lot.takeProfitPercent}%)` };
+  }
+
+  lot.highestPrice = Math.max(lot.highestPrice, candle.high);
+  if (lot.trailingStopEnabled && lot.highestPrice > lot.entryPrice) {
+    const trailStop = trailStopFrom(lot.highestPrice);
+    if (candle.close <= trailStop && candle.close > lot.entryPrice) {
+      return { reason: "TRAILING_STOP", price: candle.close, detail: `Trailing Stop activado (-${lot.trailingStopPercent}% desde máximo ${lot.highestPrice.toFixed(4)})` };
+    }
+  }
+  return null;
+}
+
+// ─── Core replay ──────────────────────────────────────────────────────────────
+
+/**
+ * Replays candles (time in seconds, ascending) through the Spot pipeline.
+ * Pure with respect to I/O: everything happens in memory via `executor`.
+ */
+export async function replaySpotCandles(
+  candles: OHLCCandle[],
+  config: SpotBacktestConfig,
+  executor?: ITradeExecutor,
+): Promise<SpotBacktestResult> {
+  const pair = config.pair;
+  const tfSec = TIMEFRAME_SECONDS[config.timeframe];
+  if (!tfSec) throw new Error(`Timeframe no soportado: ${config.timeframe}`);
+
+  const tradingExchange = config.tradingExchange ?? "kraken";
+  const feePct = config.feePct ?? EXCHANGE_TAKER_FEE_PCT[tradingExchange];
+  const slippagePct = config.slippagePct ?? DEFAULT_SLIPPAGE_PCT;
+  const simulatedSpreadPct = config.simulatedSpreadPct ?? DEFAULT_SIMULATED_SPREAD_PCT;
+  const warmup = Math.max(DEFAULT_WARMUP_CANDLES, config.warmupCandles ?? DEFAULT_WARMUP_CANDLES);
+  const lookback = Math.max(warmup, config.lookbackCandles ?? DEFAULT_LOOKBACK_CANDLES);
+  const startSec = Math.floor(new Date(config.startDate).getTime() / 1000);
+  const endSec = Math.floor(new Date(config.endDate).getTime() / 1000);
+
+  const smartExitEngine = new SmartExitEngine();
+  const cfg = resolveBotConfig(config.botConfig, smartExitEngine);
+  const exec = executor ?? new BacktestExecutor({ feePct, slippagePct });
+
+  let cashUsd = config.initialCapitalUsd;
+  let peakEquity = cashUsd;
+  let maxDrawdownUsd = 0;
+  let maxDrawdownPct = 0;
+  let candlesProcessed = 0;
+  let signalsEvaluated = 0;
+  let pairCooldownUntil = 0;
+  let stopLossCooldownUntil = 0;
+
+  const openLots: SimLot[] = [];
+  const trades: SpotBacktestTrade[] = [];
+  const gateBlocks: Partial<Record<SpotBacktestGate, number>> = {};
+  const strategyUsage: Record<string, number> = {};
+  const equityCurve: Array<{ time: string; equityUsd: number }> = [];
+
+  const block = (gate: SpotBacktestGate) => { gateBlocks[gate] = (gateBlocks[gate] ?? 0) + 1; };
+  const isoAt = (sec: number) => new Date(sec * 1000).toISOString();
+
+  const closeLot = async (lot: SimLot, exit: ExitDecision, closeSec: number): Promise<void> => {
+    const result = await exec.executeSell(
+      { pair, side: "sell", amountUsd: lot.amount * exit.price, price: exit.price, reason: exit.detail, lotId: lot.lotId },
+      { entryPrice: lot.entryPrice, entryTs: new Date(lot.entryTimeSec * 1000), lotId: lot.lotId },
+    );
+    if (!result.success) return;
+    const proceeds = result.executedAmount * result.executedPrice;
+    cashUsd += proceeds - result.feeUsd;
+    const pnlNetUsd = result.pnlNetUsd ?? (proceeds - result.feeUsd - lot.amount * lot.entryPrice - lot.trade.entryFeeUsd);
+    const costBasis = lot.amount * lot.entryPrice + lot.trade.entryFeeUsd;
+    Object.assign(lot.trade, {
+      exitTime: isoAt(closeSec),
+      exitPrice: result.executedPrice,
+      exitFeeUsd: result.feeUsd,
+      exitReason: exit.reason,
+      exitDetail: exit.detail,
+      pnlNetUsd,
+      pnlNetPct: costBasis > 0 ? (pnlNetUsd / costBasis) * 100 : 0,
+      holdingHours: (closeSec - lot.entryTimeSec) / 3600,
+    } satisfies Partial<SpotBacktestTrade>);
+    openLots.splice(openLots.indexOf(lot), 1);
+    if (exit.reason === "STOP_LOSS") stopLossCooldownUntil = closeSec + cfg.stopLossCooldownSec;
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+    const closeSec = candle.time + tfSec;
+    if (candle.time > endSec) break;
+    if (i < warmup - 1 || candle.time < startSec) continue;
+
+    candlesProcessed++;
+    const window = candles.slice(Math.max(0, i + 1 - lookback), i + 1);
+    const atrWindow = window.slice(-15).map(c => ({ price: c.close, timestamp: c.time, high: c.high, low: c.low, volume: c.volume }));
+    const atrPct = calculateATRPercent(atrWindow, 14);
+
+    // ── Exits (lots opened on earlier candles only) ──────────────────────
+    for (const lot of [...openLots]) {
+      if (lot.entryTimeSec >= closeSec) continue;
+
+      const protectiveExit = cfg.positionMode === "SMART_GUARD"
+        ? evaluateSmartGuardCandle(lot, candle, atrPct)
+        : evaluateLegacyCandle(lot, candle);
+      if (protectiveExit) {
+        await closeLot(lot, protectiveExit, closeSec);
+        continue;
+      }
+
+      const pnlPct = ((candle.close - lot.entryPrice) / lot.entryPrice) * 100;
+
+      if (cfg.smartExit.enabled) {
+        const decision = smartExitEngine.evaluate(
+          {
+            lotId: lot.lotId,
+            pair,
+            entryPrice: lot.entryPrice,
+            amount: lot.amount,
+            openedAt: lot.entryTimeSec * 1000,
+            entryMode: cfg.positionMode,
+            pnlPct,
+            pnlUsd: (candle.close - lot.entryPrice) * lot.amount,
+            entryContext: lot.entryContext,
+          },
+          { pair, currentPrice: candle.close, priceHistory: [], candles: window, mtfValid: false, orderbookBias: null, nowMs: closeSec * 1000 },
+          cfg.smartExit,
+        );
+        if (decision.shouldExit) {
+          await closeLot(lot, { reason: "SMART_EXIT", price: candle.close, detail: `SmartExit score=${decision.score}/${decision.threshold} [${decision.reasons.join(",")}]` }, closeSec);
+          smartExitEngine.resetConfirmation(lot.lotId);
+          continue;
+        }
+      }
+
+      const ageHours = (closeSec - lot.entryTimeSec) / 3600;
+      if (cfg.timeStopEnabled && ageHours >= cfg.timeStopHours) {
+        if (cfg.smartTimeStopV2Enabled) {
+          const regimeNow = cfg.regimeDetectionEnabled ? detectMarketRegime(window).regime : "TRANSITION";
+          const v2 = decideSmartTimeStopV2(
+            {
+              pair, lotId: lot.lotId, ageHours, ttlHours: cfg.timeStopHours, regime: regimeNow,
+              currentPrice: candle.close, entryPrice: lot.entryPrice, amount: lot.amount,
+              netPnlPct: pnlPct - feePct * 2, rawPnlPct: pnlPct,
+              sgTrailingActivated: lot.trailingActivated,
+              sgCurrentStopPrice: lot.currentStopPrice ?? undefined,
+              sgBreakEvenActivated: lot.breakEvenActivated,
+            },
+            computeMarketScoresFromCandles(pair, window, candle.close),
+          );
+          if (v2.shouldSell) {
+            await closeLot(lot, { reason: "TIME_STOP", price: candle.close, detail: v2.sellReason }, closeSec);
+          }
+        } else {
+          await closeLot(lot, { reason: "TIME_STOP", price: candle.close, detail: `TimeStop expirado (${ageHours.toFixed(0)}h >= ${cfg.timeStopHours}h)` }, closeSec);
+        }
+      }
+    }
+
+    // ── Entry pipeline (decision at candle close) ────────────────────────
+    signalsEvaluated++;
+    const regime: MarketRegime | null = cfg.regimeDetectionEnabled ? detectMarketRegime(window).regime : null;
+    const requiredSignals = regime
+      ? cfg.minSignalsByRegime[regime] ?? Math.max(BASE_MIN_SIGNALS, REGIME_PRESETS[regime].minSignals)
+      : BASE_MIN_SIGNALS;
+
+    let signal: TradeSignal;
+    let strategyId: string;
+    if (cfg.regimeRouterEnabled && regime === "RANGE") {
+      strategyId = "mean_reversion_simple";
+      signal = meanReversionSimpleStrategy(pair, window, candle.close);
+    } else {
+      strategyId = `momentum_candles_${config.timeframe}`;
+      signal = momentumCandlesStrategy(pair, window, candle.close, requiredSignals, cfg.signalScoringEnabled);
+    }
+
+    if (signal.action === "hold") { block("NO_SIGNAL"); }
+    else if (signal.action === "sell") { block("SELL_SIGNAL_IGNORED"); }
+    else if (signal.confidence < cfg.minConfidence) { block("CONFIDENCE_LOW"); }
+    else if (closeSec < pairCooldownUntil) { block("COOLDOWN"); }
+    else if (openLots.length >= cfg.maxLotsPerPair) { block("MAX_LOTS_PER_PAIR"); }
+    else if (cfg.positionMode === "SMART_GUARD" && regime === "TRANSITION" && REGIME_PRESETS.TRANSITION.pauseEntries && !cfg.regimeRouterEnabled) { block("REGIME_PAUSE"); }
+    else if (cfg.positionMode === "SMART_GUARD" && (signal.signalsCount ?? 0) < requiredSignals && strategyId !== "mean_reversion_simple") { block("SIGNALS_THRESHOLD"); }
+    else if (closeSec < stopLossCooldownUntil) { block("STOPLOSS_COOLDOWN"); }
+    else {
+      const halfSpread = candle.close * (simulatedSpreadPct / 100) / 2;
+      const spreadKrakenPct = calculateSpreadPct(candle.close - halfSpread, candle.close + halfSpread);
+      const markupPct = tradingExchange === "revolutx" ? num(cfg.spread.spreadRevolutxMarkupPct, 0.80) : 0;
+      const spreadOk = (cfg.spread.spreadFilterEnabled ?? true) === false
+        || classifyEffectiveSpread(spreadKrakenPct + markupPct, regime, cfg.spread).decision === "ALLOW";
+
+      const sizeFactor = cfg.regimeRouterEnabled && regime === "TRANSITION" ? cfg.transitionSizeFactor : 1;
+      const orderUsd = config.orderUsd * sizeFactor;
+
+      if (!spreadOk) { block("SPREAD_TOO_HIGH"); }
+      else if (orderUsd * (1 + feePct / 100) > cashUsd) { block("INSUFFICIENT_FUNDS"); }
+      else {
+        const result = await exec.executeBuy({
+          pair, side: "buy", amountUsd: orderUsd, price: candle.close,
+          reason: signal.reason, signalScore: signal.signalScore, regime: regime ?? undefined, confidence: signal.confidence,
+        });
+        if (result.success) {
+          cashUsd -= orderUsd + result.feeUsd;
+          pairCooldownUntil = closeSec + cfg.pairCooldownSec;
+          strategyUsage[strategyId] = (strategyUsage[strategyId] ?? 0) + 1;
+
+          const sgParams = regime
+            ? getRegimeAdjustedParams(
+                { sgBeAtPct: cfg.sgBeAtPct, sgTrailDistancePct: cfg.sgTrailDistancePct, sgTrailStepPct: cfg.sgTrailStepPct, sgTpFixedPct: cfg.sgTpFixedPct },
+                regime,
+                true,
+              )
+            : { sgBeAtPct: cfg.sgBeAtPct, sgTrailDistancePct: cfg.sgTrailDistancePct, sgTrailStepPct: cfg.sgTrailStepPct, sgTpFixedPct: cfg.sgTpFixedPct };
+
+          const trade: SpotBacktestTrade = {
+            lotId: result.simulatedId,
+            pair,
+            strategyId,
+            regimeAtEntry: regime,
+            signalsCount: signal.signalsCount ?? null,
+            entryTime: isoAt(closeSec),
+            entryPrice: result.executedPrice,
+            amount: result.executedAmount,
+            entryFeeUsd: result.feeUsd,
+            exitTime: null,
+            exitPrice: null,
+            exitFeeUsd: 0,
+            exitReason: null,
+            exitDetail: null,
+            pnlNetUsd: null,
+            pnlNetPct: null,
+            holdingHours: null,
+          };
+          trades.push(trade);
+          openLots.push({
+            lotId: result.simulatedId,
+            trade,
+            entryTimeSec: closeSec,
+            entryPrice: result.executedPrice,
+            amount: result.executedAmount,
+            confidence: signal.confidence,
+            beAtPct: sgParams.sgBeAtPct,
+            feeCushionPct: cfg.sgFeeCushionPct,
+            trailStartPct: cfg.sgTrailStartPct,
+            trailDistancePct: sgParams.sgTrailDistancePct,
+            trailStepPct: sgParams.sgTrailStepPct,
+            tpFixedEnabled: cfg.sgTpFixedEnabled,
+            tpFixedPct: sgParams.sgTpFixedPct,
+            stopLossPercent: cfg.stopLossPercent,
+            takeProfitPercent: cfg.takeProfitPercent,
+            trailingStopEnabled: cfg.trailingStopEnabled,
+            trailingStopPercent: cfg.trailingStopPercent,
+            highestPrice: result.executedPrice,
+            breakEvenActivated: false,
+            trailingActivated: false,
+            currentStopPrice: null,
+            entryContext: smartExitEngine.buildEntryContext(signal.signalsCount ?? 0, window, undefined, regime ?? "UNKNOWN"),
+          });
+        }
+      }
+    }
+
+    // ── Equity & drawdown (marked at close) ──────────────────────────────
+    const equity = cashUsd + openLots.reduce((s, l) => s + l.amount * candle.close, 0);
+    if (equity > peakEquity) peakEquity = equity;
+    const ddUsd = peakEquity - equity;
+    if (ddUsd > maxDrawdownUsd) maxDrawdownUsd = ddUsd;
+    const ddPct = peakEquity > 0 ? (ddUsd / peakEquity) * 100 : 0;
+    if (ddPct > maxDrawdownPct) maxDrawdownPct = ddPct;
+    equityCurve.push({ time: isoAt(closeSec), equityUsd: equity });
+  }
+
+  // Close remaining lots at the last replayed close so PnL is comparable.
+  const lastCandle = [...candles].reverse().find(c => c.time <= endSec);
+  if (lastCandle) {
+    const lastCloseSec = lastCandle.time + tfSec;
+    for (const lot of [...openLots]) {
+      await closeLot(lot, { reason: "END_OF_DATA", price: lastCandle.close, detail: "Cierre al final del periodo de backtest" }, lastCloseSec);
+    }
+  }
+
+  return {
+    pair,
+    timeframe: config.timeframe,
+    startDate: new Date(config.startDate).toISOString(),
+    endDate: new Date(config.endDate).toISOString(),
+    summary: summarize(trades, {
+      candlesProcessed,
+      signalsEvaluated,
+      initialCapitalUsd: config.initialCapitalUsd,
+      finalEquityUsd: cashUsd,
+      maxDrawdownPct,
+      maxDrawdownUsd,
+      strategyUsage,
+    }),
+    gateBlocks,
+    trades,
+    equityCurve: downsample(equityCurve, MAX_EQUITY_POINTS),
+    assumptions: {
+      feePct,
+      slippagePct,
+      simulatedSpreadPct,
+      fillModel: `close±slippage; ${cfg.positionMode} exits; stops intrabar on low (gap-aware), TP on high`,
+    },
+  };
+}
+
+function summarize(
+  trades: SpotBacktestTrade[],
+  ctx: {
+    candlesProcessed: number;
+    signalsEvaluated: number;
+    initialCapitalUsd: number;
+    finalEquityUsd: number;
+    maxDrawdownPct: number;
+    maxDrawdownUsd: number;
+    strategyUsage: Record<string, number>;
+  },
+): SpotBacktestSummary {
+  const closed = trades.filter(t => t.pnlNetUsd !== null);
+  const wins = closed.filter(t => (t.pnlNetUsd ?? 0) > 0);
+  const losses = closed.filter(t => (t.pnlNetUsd ?? 0) <= 0);
+  const grossProfitUsd = wins.reduce((s, t) => s + (t.pnlNetUsd ?? 0), 0);
+  const grossLossUsd = Math.abs(losses.reduce((s, t) => s + (t.pnlNetUsd ?? 0), 0));
+  const netPnlUsd = grossProfitUsd - grossLossUsd;
+  const exitReasons: Partial<Record<SpotBacktestExitReason, number>> = {};
+  for (const t of closed) {
+    if (t.exitReason) exitReasons[t.exitReason] = (exitReasons[t.exitReason] ?? 0) + 1;
+  }
+
+  return {
+    candlesProcessed: ctx.candlesProcessed,
+    signalsEvaluated: ctx.signalsEvaluated,
+    totalTrades: closed.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRatePct: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+    netPnlUsd,
+    totalFeesUsd: trades.reduce((s, t) => s + t.entryFeeUsd + t.exitFeeUsd, 0),
+    grossProfitUsd,
+    grossLossUsd,
+    profitFactor: grossLossUsd > 0 ? grossProfitUsd / grossLossUsd : null,
+    expectancyUsd: closed.length > 0 ? netPnlUsd / closed.length : 0,
+    maxDrawdownPct: ctx.maxDrawdownPct,
+    maxDrawdownUsd: ctx.maxDrawdownUsd,
+    finalEquityUsd: ctx.finalEquityUsd,
+    returnPct: ctx.initialCapitalUsd > 0 ? ((ctx.finalEquityUsd - ctx.initialCapitalUsd) / ctx.initialCapitalUsd) * 100 : 0,
+    avgHoldingHours: closed.length > 0 ? closed.reduce((s, t) => s + (t.holdingHours ?? 0), 0) / closed.length : 0,
+    exitReasons,
+    strategyUsage: ctx.strategyUsage,
+  };
+}
+
+function downsample<T>(points: T[], max: number): T[] {
+  if (points.length <= max) return points;
+  const step = points.length / max;
+  const out: T[] = [];
+  for (let k = 0; k < max - 1; k++) out.push(points[Math.floor(k * step)]);
+  out.push(points[points.length - 1]);
+  return out;
+}
+
+// ─── DB-backed runner ─────────────────────────────────────────────────────────
+
+class SpotBacktestEngine {
+  /**
+   * Loads stored candles for the requested window (plus warm-up) and replays them.
+   */
+  async runBacktest(config: SpotBacktestConfig): Promise<SpotBacktestResult> {
+    const tfSec = TIMEFRAME_SECONDS[config.timeframe];
+    if (!tfSec) throw new Error(`Timeframe no soportado: ${config.timeframe}`);
+    const startMs = new Date(config.startDate).getTime();
+    const endMs = new Date(config.endDate).getTime();
+    if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || endMs <= startMs) {
+      throw new Error("Rango de fechas inválido para backtest");
+    }
+
+    await botLogger.info("SPOT_BACKTEST_STARTED", `Spot backtest: ${config.pair} ${config.timeframe} ${new Date(startMs).toISOString()} → ${new Date(endMs).toISOString()}`, {
+      pair: config.pair, timeframe: config.timeframe, orderUsd: config.orderUsd,
+    });
+
+    const warmup = Math.max(DEFAULT_WARMUP_CANDLES, config.lookbackCandles ?? DEFAULT_LOOKBACK_CANDLES);
+    const since = startMs - warmup * tfSec * 1000;
+    const stored = await MarketCandleRepository.getCandlesSince(config.pair, config.timeframe, since);
+    const candles: OHLCCandle[] = stored
+      .filter(c => c.time <= endMs)
+      .map(c => ({ time: Math.floor(c.time / 1000), open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume }));
+
+    if (candles.length < DEFAULT_WARMUP_CANDLES + 10) {
+      throw new Error(`Velas insuficientes en market_candles para ${config.pair}/${config.timeframe} (${candles.length})`);
+    }
+
+    const result = await replaySpotCandles(candles, config);
+
+    await botLogger.info("SPOT_BACKTEST_COMPLETED", `Spot backtest completado: ${result.summary.totalTrades} trades, PnL neto $${result.summary.netPnlUsd.toFixed(2)}`, {
+      pair: config.pair,
+      timeframe: config.timeframe,
+      totalTrades: result.summary.totalTrades,
+      netPnlUsd: result.summary.netPnlUsd,
+      maxDrawdownPct: result.summary.maxDrawdownPct,
+      gateBlocks: result.gateBlocks,
+    });
+    return result;
+  }
+}
+
+export const spotBacktestEngine = new SpotBacktestEngine();
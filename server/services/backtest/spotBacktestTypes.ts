@@ -0,0 +1,155 @@
+/**
+ * spotBacktestTypes.ts — Types for the Spot candle-replay backtester.
+ *
+ * The backtester replays stored market_candles through the same entry gates
+ * (regime router, minSignals, confidence, SMART_GUARD lots, spread) and exit
+ * managers (SMART_GUARD SL/BE/trailing/TP, SmartExitEngine, Smart TimeStop V2)
+ * used by TradingEngine, with a BacktestExecutor instead of the exchange.
+ */
+
+import type { SmartExitConfig } from "../SmartExitEngine";
+import type { MarketRegime } from "../regimeDetection";
+
+export type SpotBacktestTimeframe = "5m" | "15m" | "30m" | "1h" | "4h" | "1d";
+
+/** Gate identifiers — mirror TradingEngine BlockReasonCode where one exists. */
+export type SpotBacktestGate =
+  | "NO_SIGNAL"
+  | "SELL_SIGNAL_IGNORED"
+  | "CONFIDENCE_LOW"
+  | "MAX_LOTS_PER_PAIR"
+  | "COOLDOWN"
+  | "REGIME_PAUSE"
+  | "SIGNALS_THRESHOLD"
+  | "STOPLOSS_COOLDOWN"
+  | "SPREAD_TOO_HIGH"
+  | "INSUFFICIENT_FUNDS";
+
+export type SpotBacktestExitReason =
+  | "STOP_LOSS"
+  | "TAKE_PROFIT"
+  | "TRAILING_STOP"
+  | "BREAK_EVEN"
+  | "SMART_EXIT"
+  | "TIME_STOP"
+  | "END_OF_DATA";
+
+/**
+ * Subset of bot_config fields honoured by the replay. Anything omitted falls
+ * back to the live defaults (same fallbacks as TradingEngine/ExitManager).
+ */
+export interface SpotBacktestBotConfig {
+  positionMode?: "SMART_GUARD" | "SINGLE" | "DCA";
+  regimeDetectionEnabled?: boolean;
+  regimeRouterEnabled?: boolean;
+  transitionSizeFactor?: number;
+  signalScoringEnabled?: boolean;
+  minConfidence?: number;
+  maxLotsPerPair?: number;
+  pairCooldownMinutes?: number;
+  stopLossCooldownMinutes?: number;
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+  trailingStopEnabled?: boolean;
+  trailingStopPercent?: number;
+  sgBeAtPct?: number;
+  sgFeeCushionPct?: number;
+  sgTrailStartPct?: number;
+  sgTrailDistancePct?: number;
+  sgTrailStepPct?: number;
+  sgTpFixedEnabled?: boolean;
+  sgTpFixedPct?: number;
+  timeStopHours?: number;
+  timeStopEnabled?: boolean;
+  smartTimeStopV2Enabled?: boolean;
+  smartExitConfig?: Partial<SmartExitConfig> | null;
+  spreadFilterEnabled?: boolean;
+  spreadDynamicEnabled?: boolean;
+  spreadMaxPct?: number | string;
+  spreadThresholdTrend?: number | string;
+  spreadThresholdRange?: number | string;
+  spreadThresholdTransition?: number | string;
+  spreadCapPct?: number | string;
+  spreadFloorPct?: number | string;
+  spreadRevolutxMarkupPct?: number | string;
+  /**
+   * Per-regime minSignals override (signal-config thresholds). Replaces the
+   * max(5, REGIME_PRESETS[regime].minSignals) default for that regime.
+   */
+  minSignalsByRegime?: Partial<Record<MarketRegime, number>>;
+}
+
+export interface SpotBacktestConfig {
+  pair: string;
+  timeframe: SpotBacktestTimeframe;
+  startDate: string | Date;
+  endDate: string | Date;
+  initialCapitalUsd: number;
+  orderUsd: number;
+  tradingExchange?: "kraken" | "revolutx";
+  feePct?: number;              // taker fee per side (%), default from exchange preset
+  slippagePct?: number;         // adverse slippage per side (%), default 0.05
+  simulatedSpreadPct?: number;  // bid/ask spread assumed at each close (%), default 0.10
+  warmupCandles?: number;       // default 50 (regime detection needs 50)
+  lookbackCandles?: number;     // strategy window, default 120
+  botConfig?: SpotBacktestBotConfig;
+}
+
+export interface SpotBacktestTrade {
+  lotId: string;
+  pair: string;
+  strategyId: string;
+  regimeAtEntry: MarketRegime | null;
+  signalsCount: number | null;
+  entryTime: string;
+  entryPrice: number;
+  amount: number;
+  entryFeeUsd: number;
+  exitTime: string | null;
+  exitPrice: number | null;
+  exitFeeUsd: number;
+  exitReason: SpotBacktestExitReason | null;
+  exitDetail: string | null;
+  pnlNetUsd: number | null;
+  pnlNetPct: number | null;
+  holdingHours: number | null;
+}
+
+export interface SpotBacktestSummary {
+  candlesProcessed: number;
+  signalsEvaluated: number;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRatePct: number;
+  netPnlUsd: number;
+  totalFeesUsd: number;
+  grossProfitUsd: number;
+  grossLossUsd: number;
+  profitFactor: number | null;
+  expectancyUsd: number;
+  maxDrawdownPct: number;
+  maxDrawdownUsd: number;
+  finalEquityUsd: number;
+  returnPct: number;
+  avgHoldingHours: number;
+  exitReasons: Partial<Record<SpotBacktestExitReason, number>>;
+  strategyUsage: Record<string, number>;
+}
+
+export interface SpotBacktestResult {
+  pair: string;
+  timeframe: SpotBacktestTimeframe;
+  startDate: string;
+  endDate: string;
+  summary: SpotBacktestSummary;
+  gateBlocks: Partial<Record<SpotBacktestGate, number>>;
+  trades: SpotBacktestTrade[];
+  equityCurve: Array<{ time: string; equityUsd: number }>;
+  assumptions: {
+    feePct: number;
+    slippagePct: number;
+    simulatedSpreadPct: number;
+    fillModel: string;
+  };
+}
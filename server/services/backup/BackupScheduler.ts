@@ -0,0 +1,325 @@
+/**
+ * Backup Scheduler — backups automáticos, retención y restore drill.
+ *
+ *   - Diario (BACKUP_DAILY_CRON):   backup de DB  auto_daily_<fecha>
+ *   - Semanal (BACKUP_WEEKLY_CRON): backup full   auto_weekly_<fecha>
+ *   - Drill (BACKUP_DRILL_CRON):    restaura el último dump en un schema
+ *     temporal y comprueba filas / sumas del ledger (ver restoreDrill.ts)
+ *
+ * Cada ejecución queda en backup_runs y se notifica por el centro de
+ * notificaciones (fallos siempre; éxitos del drill con severidad baja).
+ * Desactivado por defecto: BACKUP_SCHEDULE_ENABLED=true.
+ */
+
+import * as cron from 'node-cron';
+import { pool } from '../../db';
+import { backupService } from '../BackupService';
+import { escapeHtml } from '../telegram/templates';
+import { AUTO_DAILY_PREFIX, AUTO_WEEKLY_PREFIX, selectExpiredBackups } from './backupRetention';
+import {
+  DRILL_SCHEMA,
+  compareIntegrity,
+  overallStatus,
+  readRestoredIntegrity,
+  restoreIntoSchema,
+  type DrillCheck,
+} from './restoreDrill';
+
+export type BackupRunKind = 'daily' | 'weekly' | 'drill';
+export type BackupRunStatus = 'running' | 'ok' | 'warning' | 'failed';
+
+export interface BackupRun {
+  id: number;
+  kind: BackupRunKind;
+  backupName: string | null;
+  status: BackupRunStatus;
+  error: string | null;
+  details: Record<string, any>;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface BackupScheduleConfig {
+  enabled: boolean;
+  dailyCron: string;
+  weeklyCron: string;
+  drillCron: string;
+  retentionDaily: number;
+  retentionWeekly: number;
+  drillRowTolerance: number;
+  encryptionEnabled: boolean;
+}
+
+const DEFAULT_PSQL_COMMAND = 'docker exec -i krakenbot-staging-db psql -U krakenstaging -d krakenbot_staging';
+
+function envInt(name: string, fallback: number): number {
+  const v = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(v) && v >= 0 ? v : fallback;
+}
+
+export function getBackupScheduleConfig(): BackupScheduleConfig {
+  return {
+    enabled: String(process.env.BACKUP_SCHEDULE_ENABLED ?? 'false').toLowerCase() === 'true',
+    dailyCron: process.env.BACKUP_DAILY_CRON || '30 3 * * *',
+    weeklyCron: process.env.BACKUP_WEEKLY_CRON || '0 4 * * 0',
+    drillCron: process.env.BACKUP_DRILL_CRON || '30 5 * * *',
+    retentionDaily: envInt('BACKUP_RETENTION_DAILY', 7),
+    retentionWeekly: envInt('BACKUP_RETENTION_WEEKLY', 4),
+    drillRowTolerance: envInt('BACKUP_DRILL_ROW_TOLERANCE', 5),
+    encryptionEnabled: String(process.env.BACKUP_ENCRYPTION_ENABLED ?? 'false').toLowerCase() === 'true',
+  };
+}
+
+function rowToRun(row: any): BackupRun {
+  return {
+    id: row.id,
+    kind: row.kind,
+    backupName: row.backup_name,
+    status: row.status,
+    error: row.error,
+    details: row.details ?? {},
+    startedAt: new Date(row.started_at).toISOString(),
+    finishedAt: row.finished_at ? new Date(row.finished_at).toISOString() : null,
+  };
+}
+
+export class BackupScheduler {
+  private static instance: BackupScheduler;
+  private jobs: cron.ScheduledTask[] = [];
+  private isInitialized = false;
+  private busy: BackupRunKind | null = null;
+
+  public static getInstance(): BackupScheduler {
+    if (!BackupScheduler.instance) {
+      BackupScheduler.instance = new BackupScheduler();
+    }
+    return BackupScheduler.instance;
+  }
+
+  initialize(): void {
+    if (this.isInitialized) {
+      console.log('[BackupScheduler] Already initialized');
+      return;
+    }
+    const config = getBackupScheduleConfig();
+    if (!config.enabled) {
+      console.log('[BackupScheduler] Disabled (BACKUP_SCHEDULE_ENABLED != true)');
+      return;
+    }
+
+    const schedule = (expr: string, fn: () => Promise<unknown>) => {
+      const job = cron.schedule(expr, async () => {
+        await fn().catch((e: any) => console.error('[BackupScheduler] Job error:', e?.message || e));
+      }, {
+        timezone: "Europe/Madrid"
+      });
+      job.start();
+      this.jobs.push(job);
+    };
+
+    schedule(config.dailyCron, () => this.runScheduledBackup('daily'));
+    schedule(config.weeklyCron, () => this.runScheduledBackup('weekly'));
+    schedule(config.drillCron, () => this.runRestoreDrill());
+
+    this.isInitialized = true;
+    console.log(
+      `[BackupScheduler] Scheduled daily="${config.dailyCron}" weekly="${config.weeklyCron}" drill="${config.drillCron}" ` +
+      `(Europe/Madrid, retention ${config.retentionDaily}d/${config.retentionWeekly}w, encryption=${config.encryptionEnabled})`,
+    );
+  }
+
+  shutdown(): void {
+    for (const job of this.jobs) job.stop();
+    this.jobs = [];
+    this.isInitialized = false;
+    console.log('[BackupScheduler] Shutdown complete');
+  }
+
+  isBusy(): boolean {
+    return this.busy !== null;
+  }
+
+  /**
+   * Backup programado + retención de su prefijo
+   */
+  async runScheduledBackup(kind: 'daily' | 'weekly'): Promise<BackupRun> {
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '_');
+    const prefix = kind === 'daily' ? AUTO_DAILY_PREFIX : AUTO_WEEKLY_PREFIX;
+    return this.track(kind, async (run) => {
+      const result = await backupService.createBackup(kind === 'daily' ? 'database' : 'full', `${prefix}${stamp}`);
+      run.backupName = result.name || null;
+      if (!result.success) throw new Error(result.error || 'Error creando backup');
+
+      const deleted = await this.applyRetention(kind);
+      return { status: 'ok', details: { retentionDeleted: deleted } };
+    });
+  }
+
+  async applyRetention(kind: 'daily' | 'weekly'): Promise<string[]> {
+    const config = getBackupScheduleConfig();
+    const prefix = kind === 'daily' ? AUTO_DAILY_PREFIX : AUTO_WEEKLY_PREFIX;
+    const keep = kind === 'daily' ? config.retentionDaily : config.retentionWeekly;
+
+    const expired = selectExpiredBackups(await backupService.listBackups(), prefix, keep);
+    const deleted: string[] = [];
+    for (const name of expired) {
+      const result = await backupService.deleteBackup(name);
+      if (result.success) deleted.push(name);
+      else console.warn(`[BackupScheduler] Retention could not delete ${name}: ${result.error}`);
+    }
+    if (deleted.length > 0) console.log(`[BackupScheduler] Retention (${kind}) deleted: ${deleted.join(', ')}`);
+    return deleted;
+  }
+
+  /**
+   * Restaura el último dump en DRILL_SCHEMA y compara con la línea base del backup
+   */
+  async runRestoreDrill(): Promise<BackupRun> {
+    const config = getBackupScheduleConfig();
+    return this.track('drill', async (run) => {
+      const latest = await backupService.getLatestDatabaseBackup();
+      if (!latest) throw new Error('No hay ningún dump de base de datos');
+      run.backupName = latest.name;
+
+      const verify = await backupService.verifyBackup(latest.name);
+      if (verify.files.some((f) => !f.ok)) {
+        return { status: 'failed', error: 'Checksum del backup no coincide', details: { checksum: verify.files } };
+      }
+
+      const meta = await backupService.getBackupMetadata(latest.name);
+      const baseline = meta?.integrityBaseline ?? null;
+      const query = (sql: string, params?: unknown[]) => pool.query(sql, params as any[]);
+
+      let checks: DrillCheck[] = [];
+      let restore: { psqlErrors: number; errorSample: string[] };
+      try {
+        restore = await restoreIntoSchema(
+          await backupService.openDatabaseDump(latest.path),
+          process.env.BACKUP_PSQL_COMMAND || DEFAULT_PSQL_COMMAND,
+        );
+        const restored = await readRestoredIntegrity(query, DRILL_SCHEMA, baseline);
+        checks = compareIntegrity(baseline, restored, config.drillRowTolerance);
+      } finally {
+        await pool.query(`DROP SCHEMA IF EXISTS ${DRILL_SCHEMA} CASCADE`).catch((e: any) =>
+          console.error('[BackupScheduler] Could not drop drill schema:', e?.message),
+        );
+      }
+
+      let status = overallStatus(checks, restore.psqlErrors);
+      // Sin checksum o sin línea base (backups antiguos) el drill no puede afirmar "ok"
+      if (status === 'ok' && (!verify.success || !baseline)) status = 'warning';
+
+      const failed = checks.filter((c) => c.status === 'failed').map((c) => c.name);
+      return {
+        status,
+        error: failed.length ? `Checks fallidos: ${failed.join(', ')}` : null,
+        details: {
+          checksum: verify.success ? 'ok' : 'sin manifiesto',
+          baseline: baseline ? baseline.capturedAt : null,
+          psqlErrors: restore.psqlErrors,
+          psqlErrorSample: restore.errorSample,
+          checks,
+        },
+      };
+    });
+  }
+
+  async getRecentRuns(limit = 20): Promise<BackupRun[]> {
+    const res = await pool.query(
+      `SELECT * FROM backup_runs ORDER BY started_at DESC LIMIT $1`,
+      [Math.min(Math.max(1, limit), 200)],
+    );
+    return res.rows.map(rowToRun);
+  }
+
+  /**
+   * Registra la ejecución en backup_runs y notifica el resultado
+   */
+  private async track(
+    kind: BackupRunKind,
+    fn: (run: { backupName: string | null }) => Promise<{ status: BackupRunStatus; error?: string | null; details?: Record<string, any> }>,
+  ): Promise<BackupRun> {
+    if (this.busy) throw new Error(`Ya hay una operación de backup en curso (${this.busy})`);
+    this.busy = kind;
+
+    const ctx: { backupName: string | null } = { backupName: null };
+    let runId: number | null = null;
+    try {
+      const inserted = await pool.query(
+        `INSERT INTO backup_runs (kind, status) VALUES ($1, 'running') RETURNING id`,
+        [kind],
+      );
+      runId = inserted.rows[0].id;
+    } catch (e: any) {
+      console.error('[BackupScheduler] Could not record run start:', e?.message);
+    }
+
+    let outcome: { status: BackupRunStatus; error?: string | null; details?: Record<string, any> };
+    try {
+      outcome = await fn(ctx);
+    } catch (e: any) {
+      outcome = { status: 'failed', error: e?.message || String(e) };
+    } finally {
+      this.busy = null;
+    }
+
+    const run: BackupRun = {
+      id: runId ?? 0,
+      kind,
+      backupName: ctx.backupName,
+      status: outcome.status,
+      error: outcome.error ?? null,
+      details: outcome.details ?? {},
+      startedAt: new Date().toISOString(),
+      finishedAt: new Date().toISOString(),
+    };
+    if (runId !== null) {
+      try {
+        const res = await pool.query(
+          `UPDATE backup_runs SET backup_name = $2, status = $3, error = $4, details = $5, finished_at = NOW()
+            WHERE id = $1 RETURNING *`,
+          [runId, run.backupName, run.status, run.error, JSON.stringify(run.details)],
+        );
+        if (res.rows[0]) Object.assign(run, rowToRun(res.rows[0]));
+      } catch (e: any) {
+        console.error('[BackupScheduler] Could not record run result:', e?.message);
+      }
+    }
+
+    console.log(`[BackupScheduler] ${kind} finished: ${run.status}${run.error ? ` — ${run.error}` : ''}`);
+    await this.notify(run);
+    return run;
+  }
+
+  private async notify(run: BackupRun): Promise<void> {
+    // Backups correctos no generan ruido; el drill informa siempre
+    if (run.kind !== 'drill' && run.status === 'ok') return;
+    try {
+      const label = run.kind === 'drill' ? 'Restore drill' : `Backup ${run.kind === 'daily' ? 'diario' : 'semanal'}`;
+      const icon = run.status === 'ok' ? '✅' : run.status === 'warning' ? '⚠️' : '❌';
+      const lines = [`${icon} <b>${label}: ${run.status.toUpperCase()}</b>`];
+      if (run.backupName) lines.push(`Backup: <code>${escapeHtml(run.backupName)}</code>`);
+      if (run.error) lines.push(`Error: ${escapeHtml(run.error)}`);
+      const checks: DrillCheck[] = run.details.checks ?? [];
+      for (const c of checks.filter((c) => c.status !== 'ok')) {
+        lines.push(`• ${escapeHtml(c.name)}: esperado ${escapeHtml(c.expected ?? '—')}, restaurado ${escapeHtml(c.actual ?? '—')}`);
+      }
+
+      const { telegramNotificationCenter } = await import('../TelegramNotificationCenter');
+      await telegramNotificationCenter.send({
+        sourceModule: 'BACKUP',
+        mode: 'system',
+        alertType: run.kind === 'drill' ? 'backup_restore_drill' : 'backup_failed',
+        alertCategory: 'system',
+        severity: run.status === 'failed' ? 'HIGH' : run.status === 'warning' ? 'MEDIUM' : 'LOW',
+        dedupeKey: `BACKUP:${run.kind}:${run.id}`,
+        message: lines.join('\n'),
+        technicalDetails: { runId: run.id, kind: run.kind, status: run.status },
+      });
+    } catch (e: any) {
+      console.error('[BackupScheduler] Failed to notify:', e?.message || e);
+    }
+  }
+}
+
+export const backupScheduler = BackupScheduler.getInstance();
@@ -0,0 +1,220 @@
+/**
+ * Backups — cifrado en reposo, retención, reescritura del dump y checks del restore drill
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+
+import { decryptFile, encryptFile, loadOrCreateKey, sha256File } from "../backupCrypto";
+import { selectExpiredBackups } from "../backupRetention";
+import {
+  DumpSchemaRewriter,
+  compareIntegrity,
+  overallStatus,
+  type IntegrityBaseline,
+} from "../restoreDrill";
+
+const telegramSend = vi.hoisted(() => vi.fn());
+vi.mock("../../../db", () => ({ pool: { query: vi.fn() } }));
+vi.mock("../../BackupService", () => ({ backupService: {} }));
+vi.mock("../../TelegramNotificationCenter", () => ({ telegramNotificationCenter: { send: telegramSend } }));
+
+import { backupScheduler, type BackupRun } from "../BackupScheduler";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "backup-test-"));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("Backups — crypto", () => {
+  it("generates a 0600 key once and reuses it", async () => {
+    const keyFile = path.join(dir, "secrets", "backup.key");
+    const key = await loadOrCreateKey(keyFile);
+    expect(key.length).toBe(32);
+    expect((await fs.stat(keyFile)).mode & 0o777).toBe(0o600);
+    expect((await loadOrCreateKey(keyFile)).equals(key)).toBe(true);
+  });
+
+  it("round-trips a file and leaves no plaintext in the ciphertext", async () => {
+    const key = randomBytes(32);
+    const plain = path.join(dir, "db.sql.gz");
+    const content = Buffer.concat([Buffer.from("CREATE TABLE public.open_positions"), randomBytes(100_000)]);
+    await fs.writeFile(plain, content);
+
+    await encryptFile(plain, `${plain}.enc`, key);
+    const enc = await fs.readFile(`${plain}.enc`);
+    expect(enc.subarray(0, 4).toString()).toBe("KBAK");
+    expect(enc.includes(Buffer.from("open_positions"))).toBe(false);
+
+    const out = path.join(dir, "restored.sql.gz");
+    await decryptFile(`${plain}.enc`, out, key);
+    expect((await fs.readFile(out)).equals(content)).toBe(true);
+    expect(await sha256File(out)).toBe(await sha256File(plain));
+  });
+
+  it("rejects tampered files and wrong keys", async () => {
+    const key = randomBytes(32);
+    const plain = path.join(dir, "tamper.sql.gz");
+    await fs.writeFile(plain, randomBytes(4096));
+    await encryptFile(plain, `${plain}.enc`, key);
+
+    await expect(decryptFile(`${plain}.enc`, path.join(dir, "wrong.out"), randomBytes(32))).rejects.toThrow();
+
+    const enc = await fs.readFile(`${plain}.enc`);
+    enc[100] ^= 0xff;
+    await fs.writeFile(`${plain}.enc`, enc);
+    await expect(decryptFile(`${plain}.enc`, path.join(dir, "tampered.out"), key)).rejects.toThrow();
+    await expect(fs.stat(path.join(dir, "tampered.out"))).rejects.toThrow();
+  });
+});
+
+describe("Backups — retention", () => {
+  const day = (d: number) => new Date(Date.UTC(2026, 0, d));
+
+  it("keeps the newest N backups of the prefix and never touches manual or master backups", () => {
+    const backups = [
+      ...[1, 2, 3, 4].map((d) => ({ name: `db_auto_daily_2026010${d}_0330`, createdAt: day(d), isMaster: false })),
+      { name: "db_auto_daily_20251231_0330", createdAt: day(0), isMaster: true },
+      { name: "db_antes_de_migrar", createdAt: day(-5), isMaster: false },
+    ];
+    expect(selectExpiredBackups(backups, "auto_daily_", 2).sort()).toEqual([
+      "db_auto_daily_20260101_0330",
+      "db_auto_daily_20260102_0330",
+    ]);
+  });
+
+  it("treats the db and code files of a full backup as one", () => {
+    const backups = [1, 2, 3].flatMap((d) => [
+      { name: `db_auto_weekly_2026010${d}`, createdAt: day(d), isMaster: false },
+      { name: `code_auto_weekly_2026010${d}`, createdAt: day(d), isMaster: false },
+    ]);
+    expect(selectExpiredBackups(backups, "auto_weekly_", 2).sort()).toEqual([
+      "code_auto_weekly_20260101",
+      "db_auto_weekly_20260101",
+    ]);
+  });
+});
+
+describe("Backups — dump rewrite", () => {
+  function rewrite(lines: string[]): string[] {
+    const r = new DumpSchemaRewriter("restore_drill");
+    return lines.map((l) => r.rewrite(l)).filter((l): l is string => l !== null);
+  }
+
+  it("drops database-level statements and verbose noise, retargets public objects", () => {
+    const out = rewrite([
+      "pg_dump: dumping contents of table \"public.open_positions\"",
+      "DROP DATABASE IF EXISTS krakenbot_staging;",
+      "CREATE DATABASE krakenbot_staging WITH TEMPLATE = template0;",
+      "\\connect krakenbot_staging",
+      "SELECT pg_catalog.set_config('search_path', '', false);",
+      "CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA public;",
+      "CREATE TABLE public.open_positions (",
+      "ALTER TABLE ONLY public.open_positions ALTER COLUMN id SET DEFAULT nextval('public.open_positions_id_seq'::regclass);",
+    ]);
+    expect(out).toEqual([
+      "CREATE TABLE restore_drill.open_positions (",
+      "ALTER TABLE ONLY restore_drill.open_positions ALTER COLUMN id SET DEFAULT nextval('restore_drill.open_positions_id_seq'::regclass);",
+    ]);
+  });
+
+  it("leaves COPY data untouched", () => {
+    const out = rewrite([
+      "COPY public.bot_events (id, message) FROM stdin;",
+      "1\tpg_dump: not a log line, public.data",
+      "\\.",
+      "SELECT pg_catalog.setval('public.bot_events_id_seq', 1, true);",
+    ]);
+    expect(out).toEqual([
+      "COPY restore_drill.bot_events (id, message) FROM stdin;",
+      "1\tpg_dump: not a log line, public.data",
+      "\\.",
+      "SELECT pg_catalog.setval('restore_drill.bot_events_id_seq', 1, true);",
+    ]);
+  });
+
+  it("refuses to target public", () => {
+    expect(() => new DumpSchemaRewriter("public")).toThrow();
+    expect(() => new DumpSchemaRewriter("x; DROP")).toThrow();
+  });
+});
+
+describe("Backups — restore drill checks", () => {
+  const baseline: IntegrityBaseline = {
+    capturedAt: "2026-01-01T03:30:00.000Z",
+    tables: {
+      open_positions: { count: 10, maxId: 50 },
+      institutional_dca_cycles: { count: 4, maxId: 4 },
+      portfolio_ledger_entries: { count: 100, maxId: 100 },
+    },
+    ledger: { sumAmountUsd: 1234.56, sumQuantity: 1.5, sumFeeUsd: 3.21 },
+  };
+
+  it("passes when rows and ledger sums match", () => {
+    const checks = compareIntegrity(baseline, {
+      tables: { open_positions: 10, institutional_dca_cycles: 4, portfolio_ledger_entries: 100 },
+      ledger: { sumAmountUsd: 1234.56, sumQuantity: 1.5, sumFeeUsd: 3.21 },
+    }, 5);
+    // fisco_operations absent in the source too → not checked
+    expect(checks.map((c) => c.name)).not.toContain("rows:fisco_operations");
+    expect(overallStatus(checks, 0)).toBe("ok");
+    expect(overallStatus(checks, 2)).toBe("warning");
+  });
+
+  it("warns on small row drift and fails on missing tables or ledger mismatch", () => {
+    const drift = compareIntegrity(baseline, {
+      tables: { open_positions: 8, institutional_dca_cycles: 4, portfolio_ledger_entries: 100 },
+      ledger: baseline.ledger,
+    }, 5);
+    expect(drift.find((c) => c.name === "rows:open_positions")!.status).toBe("warning");
+    expect(overallStatus(drift, 0)).toBe("warning");
+
+    const broken = compareIntegrity(baseline, {
+      tables: { open_positions: 10, portfolio_ledger_entries: 100 },
+      ledger: { ...baseline.ledger!, sumAmountUsd: 1200 },
+    }, 5);
+    expect(broken.filter((c) => c.status === "failed").map((c) => c.name)).toEqual([
+      "rows:institutional_dca_cycles",
+      "ledger:sum_amount_usd",
+    ]);
+    expect(overallStatus(broken, 0)).toBe("failed");
+  });
+
+  it("without a baseline only reports what was restored", () => {
+    const checks = compareIntegrity(null, { tables: { open_positions: 3 }, ledger: null }, 5);
+    expect(checks.find((c) => c.name === "rows:open_positions")).toMatchObject({ expected: null, actual: 3, status: "ok" });
+    expect(checks.map((c) => c.name)).toEqual(["rows:open_positions"]);
+    expect(overallStatus(compareIntegrity(null, { tables: {}, ledger: null }, 5), 0)).toBe("failed");
+  });
+});
+
+describe("Backups — scheduler notification", () => {
+  it("escapes the error and drill checks in the HTML Telegram message", async () => {
+    const run: BackupRun = {
+      id: 7,
+      kind: "drill",
+      backupName: "auto-daily-<x>",
+      status: "failed",
+      error: "pg_restore: error: relation \"<trades>\" & more",
+      details: { checks: [{ name: "rows:<trades>", status: "failed", expected: "10", actual: "<none>" }] },
+      startedAt: "2026-10-18T00:00:00.000Z",
+      finishedAt: null,
+    };
+
+    await (backupScheduler as any).notify(run);
+
+    const { message } = telegramSend.mock.calls[0][0];
+    expect(message).toContain("Error: pg_restore: error: relation &quot;&lt;trades&gt;&quot; &amp; more");
+    expect(message).toContain("<code>auto-daily-&lt;x&gt;</code>");
+    expect(message).toContain("• rows:&lt;trades&gt;: esperado 10, restaurado &lt;none&gt;");
+    expect(message).not.toContain("<trades>");
+  });
+});
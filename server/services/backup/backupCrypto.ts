@@ -0,0 +1,115 @@
+/**
+ * Cifrado en reposo y checksums de los backups.
+ *
+ * Formato de los ficheros .enc (AES-256-GCM):
+ *   "KBAK" | versión (1 byte) | IV (12 bytes) | ciphertext | auth tag (16 bytes)
+ *
+ * La clave (32 bytes aleatorios) vive en un fichero local con permisos 0600
+ * (BACKUP_ENCRYPTION_KEY_FILE). Si se pierde, los backups cifrados no se
+ * pueden restaurar: guardar una copia fuera del servidor.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+
+const MAGIC = Buffer.from('KBAK');
+const VERSION = 1;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + 1 + IV_BYTES;
+const KEY_BYTES = 32;
+
+export const ENCRYPTED_SUFFIX = '.enc';
+
+export function isEncryptedPath(filePath: string): boolean {
+  return filePath.endsWith(ENCRYPTED_SUFFIX);
+}
+
+/** Lee la clave local; si no existe la genera (0600) y lo deja en el log. */
+export async function loadOrCreateKey(keyFile: string): Promise<Buffer> {
+  try {
+    const raw = (await fs.readFile(keyFile, 'utf-8')).trim();
+    const key = Buffer.from(raw, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Clave de backup inválida en ${keyFile}: se esperaban ${KEY_BYTES} bytes en base64`);
+    }
+    return key;
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+    const key = randomBytes(KEY_BYTES);
+    await fs.mkdir(path.dirname(keyFile), { recursive: true });
+    await fs.writeFile(keyFile, key.toString('base64') + '\n', { mode: 0o600, flag: 'wx' });
+    console.warn(`[BackupCrypto] Nueva clave de cifrado generada en ${keyFile} — guardar una copia fuera del servidor`);
+    return key;
+  }
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+export async function encryptFile(src: string, dest: string, key: Buffer): Promise<void> {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const tmp = `${dest}.partial`;
+  const out = createWriteStream(tmp, { mode: 0o600 });
+  out.write(Buffer.concat([MAGIC, Buffer.from([VERSION]), iv]));
+  try {
+    await pipeline(createReadStream(src), cipher, out);
+    await fs.appendFile(tmp, cipher.getAuthTag());
+    await fs.rename(tmp, dest);
+  } catch (error) {
+    await fs.unlink(tmp).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Stream con el contenido descifrado. Si el fichero fue manipulado o la clave
+ * no es la correcta, el stream emite error al final (auth tag).
+ */
+export async function createDecryptStream(src: string, key: Buffer): Promise<Readable> {
+  const { size } = await fs.stat(src);
+  if (size < HEADER_BYTES + TAG_BYTES) throw new Error(`Backup cifrado truncado: ${src}`);
+
+  const handle = await fs.open(src, 'r');
+  const header = Buffer.alloc(HEADER_BYTES);
+  const tag = Buffer.alloc(TAG_BYTES);
+  try {
+    await handle.read(header, 0, HEADER_BYTES, 0);
+    await handle.read(tag, 0, TAG_BYTES, size - TAG_BYTES);
+  } finally {
+    await handle.close();
+  }
+  if (!header.subarray(0, MAGIC.length).equals(MAGIC) || header[MAGIC.length] !== VERSION) {
+    throw new Error(`Formato de backup cifrado desconocido: ${src}`);
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', key, header.subarray(MAGIC.length + 1));
+  decipher.setAuthTag(tag);
+  const body = size - HEADER_BYTES - TAG_BYTES;
+  if (body === 0) {
+    decipher.end();
+    return decipher;
+  }
+  const input = createReadStream(src, { start: HEADER_BYTES, end: size - TAG_BYTES - 1 });
+  input.on('error', (e) => decipher.destroy(e));
+  return input.pipe(decipher);
+}
+
+export async function decryptFile(src: string, dest: string, key: Buffer): Promise<void> {
+  const tmp = `${dest}.partial`;
+  try {
+    await pipeline(await createDecryptStream(src, key), createWriteStream(tmp, { mode: 0o600 }));
+    await fs.rename(tmp, dest);
+  } catch (error) {
+    await fs.unlink(tmp).catch(() => {});
+    throw error;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Retención de backups automáticos — función pura.
+ *
+ * Sólo toca backups cuyo id empieza por el prefijo del job (auto_daily_ /
+ * auto_weekly_); los manuales y los maestros nunca se borran aquí.
+ */
+
+export const AUTO_DAILY_PREFIX = 'auto_daily_';
+export const AUTO_WEEKLY_PREFIX = 'auto_weekly_';
+
+export interface RetentionCandidate {
+  name: string;        // tal como lo lista BackupService: db_<id> / code_<id>
+  createdAt: Date;
+  isMaster: boolean;
+}
+
+/**
+ * Nombres a borrar: se conservan los `keep` backups (ids) más recientes del
+ * prefijo; un backup completo (db_ + code_) cuenta como uno.
+ */
+export function selectExpiredBackups(backups: RetentionCandidate[], prefix: string, keep: number): string[] {
+  const byId = new Map<string, { newest: number; names: string[]; isMaster: boolean }>();
+  for (const b of backups) {
+    const id = b.name.replace(/^(db|code)_/, '');
+    if (!id.startsWith(prefix)) continue;
+    const entry = byId.get(id) ?? { newest: 0, names: [], isMaster: false };
+    entry.newest = Math.max(entry.newest, b.createdAt.getTime());
+    entry.names.push(b.name);
+    entry.isMaster = entry.isMaster || b.isMaster;
+    byId.set(id, entry);
+  }
+
+  return Array.from(byId.values())
+    .sort((a, b) => b.newest - a.newest)
+    .slice(Math.max(0, keep))
+    .filter((e) => !e.isMaster)
+    .flatMap((e) => e.names);
+}
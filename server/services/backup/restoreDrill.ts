@@ -0,0 +1,274 @@
+/**
+ * Restore drill — restaura el último dump en un schema temporal y comprueba
+ * que los datos críticos están completos.
+ *
+ * 1. Verifica el checksum del fichero contra el manifiesto del backup.
+ * 2. Descifra (si .enc) + descomprime en streaming y reescribe el dump de
+ *    pg_dump para que todo lo que iba a `public` acabe en DRILL_SCHEMA.
+ * 3. Lo ejecuta con psql (BACKUP_PSQL_COMMAND) contra la misma base de datos.
+ * 4. Compara filas de open_positions, institutional_dca_cycles, fisco_operations
+ *    y portfolio_ledger_entries, y las sumas del ledger, con la línea base que
+ *    se tomó justo antes del dump (sólo filas con id <= max(id) de la línea base).
+ * 5. Borra el schema.
+ */
+
+import { spawn } from 'child_process';
+import { Transform, type TransformCallback, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+
+export const DRILL_SCHEMA = 'restore_drill';
+
+export const INTEGRITY_TABLES = [
+  'open_positions',
+  'institutional_dca_cycles',
+  'fisco_operations',
+  'portfolio_ledger_entries',
+] as const;
+
+export type IntegrityTable = typeof INTEGRITY_TABLES[number];
+
+export interface LedgerSums {
+  sumAmountUsd: number;
+  sumQuantity: number;
+  sumFeeUsd: number;
+}
+
+/** Estado de la DB justo antes del dump; se guarda en el manifiesto del backup. */
+export interface IntegrityBaseline {
+  capturedAt: string;
+  tables: Partial<Record<IntegrityTable, { count: number; maxId: number }>>;
+  ledger: LedgerSums | null;
+}
+
+export interface RestoredIntegrity {
+  tables: Partial<Record<IntegrityTable, number>>;
+  ledger: LedgerSums | null;
+}
+
+export type DrillCheckStatus = 'ok' | 'warning' | 'failed';
+
+export interface DrillCheck {
+  name: string;
+  expected: number | null;
+  actual: number | null;
+  status: DrillCheckStatus;
+}
+
+export type Query = (sql: string, params?: unknown[]) => Promise<{ rows: any[] }>;
+
+// ─── Baseline / restored reads ───────────────────────────────────────
+
+const LEDGER_SUMS_SQL = (schema: string) => `
+  SELECT COALESCE(SUM(amount_usd), 0) AS amount, COALESCE(SUM(quantity), 0) AS quantity,
+         COALESCE(SUM(fee_usd), 0) AS fee
+    FROM ${schema}.portfolio_ledger_entries
+   WHERE id <= $1`;
+
+function toSums(row: any): LedgerSums {
+  return {
+    sumAmountUsd: parseFloat(row.amount) || 0,
+    sumQuantity: parseFloat(row.quantity) || 0,
+    sumFeeUsd: parseFloat(row.fee) || 0,
+  };
+}
+
+/** Tablas que no existen en este entorno se omiten (no todas las instalaciones tienen FISCO). */
+export async function captureIntegrityBaseline(query: Query): Promise<IntegrityBaseline> {
+  const baseline: IntegrityBaseline = { capturedAt: new Date().toISOString(), tables: {}, ledger: null };
+  for (const table of INTEGRITY_TABLES) {
+    try {
+      const res = await query(`SELECT COUNT(*)::bigint AS n, COALESCE(MAX(id), 0)::bigint AS max_id FROM public.${table}`);
+      baseline.tables[table] = { count: Number(res.rows[0].n), maxId: Number(res.rows[0].max_id) };
+    } catch {
+      // tabla ausente
+    }
+  }
+  const ledger = baseline.tables.portfolio_ledger_entries;
+  if (ledger) {
+    const res = await query(LEDGER_SUMS_SQL('public'), [ledger.maxId]);
+    baseline.ledger = toSums(res.rows[0]);
+  }
+  return baseline;
+}
+
+export async function readRestoredIntegrity(
+  query: Query,
+  schema: string,
+  baseline: IntegrityBaseline | null,
+): Promise<RestoredIntegrity> {
+  const restored: RestoredIntegrity = { tables: {}, ledger: null };
+  for (const table of INTEGRITY_TABLES) {
+    const maxId = baseline?.tables[table]?.maxId;
+    try {
+      const res = maxId !== undefined
+        ? await query(`SELECT COUNT(*)::bigint AS n FROM ${schema}.${table} WHERE id <= $1`, [maxId])
+        : await query(`SELECT COUNT(*)::bigint AS n FROM ${schema}.${table}`);
+      restored.tables[table] = Number(res.rows[0].n);
+    } catch {
+      // no restaurada
+    }
+  }
+  if (restored.tables.portfolio_ledger_entries !== undefined) {
+    const maxId = baseline?.tables.portfolio_ledger_entries?.maxId ?? Number.MAX_SAFE_INTEGER;
+    const res = await query(LEDGER_SUMS_SQL(schema), [maxId]);
+    restored.ledger = toSums(res.rows[0]);
+  }
+  return restored;
+}
+
+/**
+ * Filas: iguales → ok; diferencia <= tolerance (filas borradas entre la línea
+ * base y el dump, p.ej. posiciones cerradas) → warning; más, o tabla ausente → failed.
+ * Sumas del ledger (append-only): deben coincidir al céntimo.
+ * Sin línea base sólo se informa de lo restaurado (ningún check → failed en overallStatus).
+ */
+export function compareIntegrity(
+  baseline: IntegrityBaseline | null,
+  restored: RestoredIntegrity,
+  tolerance: number,
+): DrillCheck[] {
+  const checks: DrillCheck[] = [];
+  for (const table of INTEGRITY_TABLES) {
+    const expected = baseline?.tables[table]?.count ?? null;
+    const actual = restored.tables[table] ?? null;
+    if (baseline ? !baseline.tables[table] : actual === null) continue; // tampoco existe en origen
+    let status: DrillCheckStatus;
+    if (actual === null) status = 'failed';
+    else if (expected === null || expected === actual) status = 'ok';
+    else status = Math.abs(expected - actual) <= tolerance ? 'warning' : 'failed';
+    checks.push({ name: `rows:${table}`, expected, actual, status });
+  }
+
+  if (baseline?.ledger || restored.ledger) {
+    const fields: [keyof LedgerSums, string][] = [
+      ['sumAmountUsd', 'ledger:sum_amount_usd'],
+      ['sumQuantity', 'ledger:sum_quantity'],
+      ['sumFeeUsd', 'ledger:sum_fee_usd'],
+    ];
+    for (const [field, name] of fields) {
+      const expected = baseline?.ledger?.[field] ?? null;
+      const actual = restored.ledger?.[field] ?? null;
+      const status: DrillCheckStatus = actual === null
+        ? 'failed'
+        : expected === null || Math.abs(expected - actual) < 0.005 ? 'ok' : 'failed';
+      checks.push({ name, expected, actual, status });
+    }
+  }
+  return checks;
+}
+
+export function overallStatus(checks: DrillCheck[], psqlErrors: number): DrillCheckStatus {
+  if (checks.length === 0 || checks.some((c) => c.status === 'failed')) return 'failed';
+  if (psqlErrors > 0 || checks.some((c) => c.status === 'warning')) return 'warning';
+  return 'ok';
+}
+
+// ─── Dump rewrite ────────────────────────────────────────────────────
+
+/** Sentencias de nivel base de datos / schema public que no se aplican en el drill. */
+const SKIP_PATTERNS = [
+  /^pg_dump: /,                      // dumps antiguos con --verbose mezclado en el fichero
+  /^(DROP|CREATE|ALTER) DATABASE /,
+  /^\\connect /,
+  /^\\(un)?restrict /,
+  /^SELECT pg_catalog\.set_config\('search_path'/,
+  /^(CREATE|ALTER|COMMENT ON) SCHEMA public\b/,
+  /\bON SCHEMA public\b/,
+  /^(CREATE|COMMENT ON) EXTENSION /,
+];
+
+/**
+ * Reescribe un dump plano de pg_dump línea a línea: `public.` → `<schema>.`
+ * fuera de los bloques COPY ... FROM stdin (los datos no se tocan).
+ */
+export class DumpSchemaRewriter {
+  private inCopy = false;
+  private readonly target: string;
+
+  constructor(schema: string) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(schema) || schema === 'public') {
+      throw new Error(`Schema de drill inválido: ${schema}`);
+    }
+    this.target = `${schema}.`;
+  }
+
+  preamble(): string[] {
+    const schema = this.target.slice(0, -1);
+    return [
+      `DROP SCHEMA IF EXISTS ${schema} CASCADE;`,
+      `CREATE SCHEMA ${schema};`,
+      `SET search_path = ${schema}, public, pg_catalog;`,
+    ];
+  }
+
+  /** null = descartar la línea */
+  rewrite(line: string): string | null {
+    if (this.inCopy) {
+      if (line === '\\.') this.inCopy = false;
+      return line;
+    }
+    if (SKIP_PATTERNS.some((re) => re.test(line))) return null;
+    const out = line.replace(/\bpublic\./g, this.target);
+    if (/^COPY .* FROM stdin;$/.test(out)) this.inCopy = true;
+    return out;
+  }
+
+  /** Transform stream: texto del dump → texto reescrito, con el preámbulo delante. */
+  stream(): Transform {
+    let pending = '';
+    const self = this;
+    return new Transform({
+      construct(callback) {
+        this.push(self.preamble().join('\n') + '\n');
+        callback();
+      },
+      transform(chunk: Buffer, _enc, callback: TransformCallback) {
+        const lines = (pending + chunk.toString('utf-8')).split('\n');
+        pending = lines.pop() ?? '';
+        const out = lines.map((l) => self.rewrite(l)).filter((l): l is string => l !== null);
+        if (out.length > 0) this.push(out.join('\n') + '\n');
+        callback();
+      },
+      flush(callback: TransformCallback) {
+        const last = pending ? self.rewrite(pending) : null;
+        if (last !== null) this.push(last + '\n');
+        callback();
+      },
+    });
+  }
+}
+
+// ─── psql ────────────────────────────────────────────────────────────
+
+/**
+ * Envía el dump (comprimido, ya descifrado) a psql reescrito para DRILL_SCHEMA.
+ * Devuelve el número de líneas ERROR de psql; sólo rechaza si psql no arranca o sale != 0.
+ */
+export async function restoreIntoSchema(
+  gzipped: Readable,
+  psqlCommand: string,
+  schema: string = DRILL_SCHEMA,
+): Promise<{ psqlErrors: number; errorSample: string[] }> {
+  const child = spawn('sh', ['-c', psqlCommand], { stdio: ['pipe', 'ignore', 'pipe'] });
+  const errors: string[] = [];
+  let stderrTail = '';
+  child.stderr.on('data', (d: Buffer) => {
+    stderrTail += d.toString('utf-8');
+    const lines = stderrTail.split('\n');
+    stderrTail = lines.pop() ?? '';
+    for (const l of lines) if (/\bERROR:/.test(l)) errors.push(l.trim());
+  });
+  const exited = new Promise<number>((resolve, reject) => {
+    child.once('error', reject);
+    child.once('close', (code) => resolve(code ?? 1));
+  });
+
+  await pipeline(gzipped, createGunzip(), new DumpSchemaRewriter(schema).stream(), child.stdin);
+  const code = await exited;
+  if (/\bERROR:/.test(stderrTail)) errors.push(stderrTail.trim());
+  if (code !== 0) {
+    throw new Error(`psql terminó con código ${code}${errors.length ? `: ${errors[0]}` : ''}`);
+  }
+  return { psqlErrors: errors.length, errorSample: errors.slice(0, 5) };
+}
@@ -126,6 +126,12 @@ export type EventType =
   | "TRAILING_UPDATED"
   | "POSITION_CLOSED_SG"
   | "TRADE_PERSIST_FAIL"
+  // Exchange-resident protective stops
+  | "EXCHANGE_STOP_PLACED"
+  | "EXCHANGE_STOP_FILLED"
+  | "EXCHANGE_STOP_RELEASE_BLOCKED"
+  // Cross-strategy portfolio risk limits
+  | "PORTFOLIO_RISK_BLOCKED"
   // Entry quality & timing gates (D1/D2/MINI-B)
   | "ENTRY_QUALITY_ALLOWED"
   | "D1_ENTRY_COST"
@@ -151,6 +157,7 @@ export type EventType =
   | "DRY_RUN_SELL_MATCH"
   // Grid Isolated events
   | "GRID_MODE_CHANGED"
+  | "GRID_INSTANCE_CREATED"
   | "GRID_RANGE_PROPOSED"
   | "GRID_RANGE_ACTIVATED"
   | "GRID_RANGE_PAUSED"
@@ -180,6 +187,7 @@ export type EventType =
   | "GRID_RECONCILIATION_BLOCKED"
   | "GRID_CAPITAL_RESERVED"
   | "GRID_CAPITAL_RELEASED"
+  | "GRID_CAPITAL_BUDGET_EXCEEDED"
   | "GRID_DAILY_ORDER_WARNING"
   | "GRID_DAILY_ORDER_LIMIT_HIT"
   | "GRID_CIRCUIT_BREAKER_OPENED"
@@ -198,7 +206,9 @@ export type EventType =
   | "GRID_REVOLUTX_PROJECTION_BLOCKED"
   | "GRID_LEVEL_POST_ONLY_EXHAUSTED"
   | "GRID_REFERENCE_MARKET_UNAVAILABLE"
-  | "GRID_LEGACY_POLICY_BLOCKED";
+  | "GRID_LEGACY_POLICY_BLOCKED"
+  | "SPOT_BACKTEST_STARTED"
+  | "SPOT_BACKTEST_COMPLETED";
 
 interface LogMeta {
   [key: string]: any;
@@ -4,6 +4,7 @@ import { db } from "../db";
 import { botEvents } from "@shared/schema";
 import { desc, gte, and } from "drizzle-orm";
 import { log } from "../utils/logger";
+import { authenticateUpgrade } from "./auth/authMiddleware";
 
 const WS_PATH = "/ws/events";
 const SNAPSHOT_LIMIT = 500;
@@ -36,30 +37,15 @@ class EventsWebSocketServer {
       const clientIp = req.socket.remoteAddress || "unknown";
       const origin = req.headers.origin || "no-origin";
       
-      const url = new URL(req.url || "", `http://${req.headers.host}`);
-      const queryToken = url.searchParams.get("token");
-      const authHeader = req.headers.authorization;
-      const headerToken = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
-      const token = queryToken || headerToken;
-      const tokenSource = queryToken ? "query" : (headerToken ? "header" : "none");
-      
-      const expectedToken = process.env.WS_ADMIN_TOKEN;
-
-      if (!expectedToken) {
-        log(`[WS] WS_ADMIN_TOKEN no configurado - conexión sin autenticación permitida (desarrollo) desde ${clientIp}`, "websocket");
-      } else if (!token) {
-        log(`[WS] Conexión rechazada - token ausente (path: ${WS_PATH}, source: ${tokenSource}, origin: ${origin}, ip: ${clientIp})`, "websocket");
-        this.sendMessage(client, { type: "ERROR", payload: { message: "Token ausente", reason: "MISSING_TOKEN", path: WS_PATH } });
-        client.close(4001, "Unauthorized - Missing Token");
-        return;
-      } else if (token !== expectedToken) {
-        log(`[WS] Conexión rechazada - token incorrecto (path: ${WS_PATH}, source: ${tokenSource}, origin: ${origin}, ip: ${clientIp})`, "websocket");
-        this.sendMessage(client, { type: "ERROR", payload: { message: "Token incorrecto", reason: "INVALID_TOKEN", path: WS_PATH } });
-        client.close(4001, "Unauthorized - Invalid Token");
+      const auth = await authenticateUpgrade(req, "viewer");
+      if (auth.reason) {
+        const message = auth.reason === "MISSING_TOKEN" ? "Token ausente" : auth.reason === "FORBIDDEN" ? "Rol insuficiente" : "Token incorrecto";
+        log(`[WS] Conexión rechazada - ${auth.reason} (path: ${WS_PATH}, source: ${auth.source}, origin: ${origin}, ip: ${clientIp})`, "websocket");
+        this.sendMessage(client, { type: "ERROR", payload: { message, reason: auth.reason, path: WS_PATH } });
+        client.close(4001, `Unauthorized - ${message}`);
         return;
-      } else {
-        log(`[WS] Token válido (path: ${WS_PATH}, source: ${tokenSource}, ip: ${clientIp})`, "websocket");
       }
+      log(`[WS] Autenticado ${auth.principal?.username} (${auth.principal?.role}) (path: ${WS_PATH}, source: ${auth.source}, ip: ${clientIp})`, "websocket");
 
       client.isAlive = true;
       client.connectedAt = new Date();
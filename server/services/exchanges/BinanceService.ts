@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import { IExchangeService, ExchangeConfig, Ticker, OHLC, OrderResult, PairMetadata } from './IExchangeService';
+import { balanceCache } from './BalanceCache';
+import { observeOrder } from '../metrics/appMetrics';
+
+const DEFAULT_API_BASE_URL = process.env.BINANCE_API_BASE_URL || 'https://api.binance.com';
+const BINANCE_RECV_WINDOW_MS = parseInt(process.env.BINANCE_RECV_WINDOW_MS || '5000', 10);
+
+/**
+ * Quote assets recognised when splitting a Binance symbol ("BTCUSDT" → BTC + USDT).
+ * Longest first so "FDUSD" wins over "USD".
+ */
+const BINANCE_QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'TUSD', 'EUR', 'USD', 'BTC', 'ETH', 'BNB', 'TRY', 'GBP'];
+
+/**
+ * Split a Binance symbol into [base, quote]. Returns null when no known quote matches.
+ */
+export function splitBinanceSymbol(symbol: string): [string, string] | null {
+  const s = symbol.toUpperCase().replace(/[-/_]/g, '');
+  for (const quote of BINANCE_QUOTE_ASSETS) {
+    if (s.length > quote.length && s.endsWith(quote)) {
+      return [s.slice(0, -quote.length), quote];
+    }
+  }
+  return null;
+}
+
+/** Bot interval (minutes, Kraken style) → Binance kline interval. */
+const KLINE_INTERVALS: Record<number, string> = {
+  1: '1m', 5: '5m', 15: '15m', 30: '30m', 60: '1h', 240: '4h', 1440: '1d', 10080: '1w',
+};
+
+/**
+ * Binance Spot adapter (REST v3).
+ *
+ * - Bot pairs use USD; Binance lists USDT, so "BTC/USD" trades as BTCUSDT and the
+ *   USDT balance is also reported under USD (the key the trading engine reads).
+ * - Private endpoints are signed with HMAC-SHA256 over the query string
+ *   (timestamp + recvWindow) and the X-MBX-APIKEY header.
+ * - The base URL is injectable so tests can point it at a local stand-in.
+ */
+export class BinanceService implements IExchangeService {
+  private initialized = false;
+  private apiKey: string | null = null;
+  private apiSecret: string | null = null;
+  public readonly exchangeName = 'binance';
+  public readonly takerFeePct = 0.10;
+  public readonly makerFeePct = 0.10;
+
+  private pairMetadataCache: Map<string, PairMetadata> = new Map();
+  // cancelOrder(orderId) has no pair; Binance needs the symbol to cancel
+  private orderSymbols = new Map<string, string>();
+
+  constructor(private readonly baseUrl: string = DEFAULT_API_BASE_URL) {}
+
+  initialize(config: ExchangeConfig): void {
+    this.apiKey = config.apiKey;
+    this.apiSecret = config.apiSecret;
+    this.initialized = !!(config.apiKey && config.apiSecret);
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  private sign(queryString: string): string {
+    return crypto.createHmac('sha256', this.apiSecret || '').update(queryString).digest('hex');
+  }
+
+  private buildQuery(params: Record<string, string | number | undefined>): string {
+    return Object.entries(params)
+      .filter(([, v]) => v !== undefined && v !== '')
+      .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+      .join('&');
+  }
+
+  private async publicGet<T>(path: string, params: Record<string, string | number | undefined> = {}): Promise<T> {
+    const query = this.buildQuery(params);
+    const response = await fetch(`${this.baseUrl}${path}${query ? `?${query}` : ''}`);
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Binance API error: ${response.status} - ${errorText}`);
+    }
+    return await response.json() as T;
+  }
+
+  private async signedRequest<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    params: Record<string, string | number | undefined> = {},
+  ): Promise<{ ok: boolean; status: number; data: T }> {
+    if (!this.initialized) throw new Error('Binance client not initialized');
+
+    const query = this.buildQuery({ ...params, recvWindow: BINANCE_RECV_WINDOW_MS, timestamp: Date.now() });
+    const signed = `${query}&signature=${this.sign(query)}`;
+    const headers = { 'X-MBX-APIKEY': this.apiKey || '' };
+
+    const response = method === 'GET'
+      ? await fetch(`${this.baseUrl}${path}?${signed}`, { headers })
+      : await fetch(`${this.baseUrl}${path}?${signed}`, { method, headers });
+
+    const data = await response.json().catch(() => ({})) as T;
+    return { ok: response.ok, status: response.status, data };
+  }
+
+  async getBalance(): Promise<Record<string, number>> {
+    if (!this.initialized) throw new Error('Binance client not initialized');
+
+    const cached = balanceCache.get('binance');
+    if (cached) return cached;
+
+    const { ok, status, data } = await this.signedRequest<any>('GET', '/api/v3/account', { omitZeroBalances: 'true' });
+    if (!ok) {
+      console.error('[binance] getBalance response:', status, data);
+      throw new Error(`Binance API error: ${status} - ${data?.msg || 'unknown'}`);
+    }
+
+    const balances: Record<string, number> = {};
+    for (const item of data?.balances || []) {
+      const free = parseFloat(item.free || '0');
+      if (item.asset && Number.isFinite(free)) {
+        balances[item.asset] = free;
+      }
+    }
+    if (balances.USDT !== undefined) {
+      balances.USD = balances.USDT;
+    }
+
+    console.log('[binance] Balances fetched:', Object.keys(balances).length, 'currencies');
+    balanceCache.set('binance', balances);
+    return balances;
+  }
+
+  async getTicker(pair: string): Promise<Ticker> {
+    const data = await this.publicGet<any>('/api/v3/ticker/24hr', { symbol: this.formatPair(pair) });
+    const bid = parseFloat(data.bidPrice);
+    const ask = parseFloat(data.askPrice);
+    const last = parseFloat(data.lastPrice);
+    if (!Number.isFinite(last) || last <= 0) {
+      throw new Error(`Binance ticker unavailable for ${pair}`);
+    }
+    return {
+      bid: Number.isFinite(bid) && bid > 0 ? bid : last,
+      ask: Number.isFinite(ask) && ask > 0 ? ask : last,
+      last,
+      volume24h: parseFloat(data.volume) || undefined,
+    };
+  }
+
+  async getOHLC(pair: string, interval: number = 5): Promise<OHLC[]> {
+    const klineInterval = KLINE_INTERVALS[interval];
+    if (!klineInterval) {
+      throw new Error(`Binance does not support a ${interval}m interval`);
+    }
+
+    const rows = await this.publicGet<any[]>('/api/v3/klines', {
+      symbol: this.formatPair(pair),
+      interval: klineInterval,
+      limit: 720,
+    });
+    if (!Array.isArray(rows)) return [];
+
+    // Kline: [openTime(ms), open, high, low, close, volume, closeTime, ...]
+    // time is returned in seconds, same as Kraken OHLC
+    return rows
+      .filter((r) => Array.isArray(r) && r.length >= 6)
+      .map((r) => ({
+        time: Math.floor(Number(r[0]) / 1000),
+        open: parseFloat(r[1]),
+        high: parseFloat(r[2]),
+        low: parseFloat(r[3]),
+        close: parseFloat(r[4]),
+        volume: parseFloat(r[5]),
+      }));
+  }
+
+  async placeOrder(params: Parameters<IExchangeService['placeOrder']>[0]): Promise<OrderResult> {
+    return observeOrder('binance', params.type, () => this.submitOrder(params));
+  }
+
+  private async submitOrder(params: {
+    pair: string;
+    type: "buy" | "sell";
+    ordertype: string;
+    price?: string;
+    volume: string;
+    clientOrderId?: string;
+    executionInstruction?: "post_only" | "allow_taker";
+  }): Promise<OrderResult> {
+    if (!this.initialized) throw new Error('Binance client not initialized');
+
+    // SAFETY: Validate volume is finite before sending to API
+    const volumeNum = parseFloat(params.volume);
+    if (!Number.isFinite(volumeNum) || volumeNum <= 0) {
+      console.error('[binance] placeOrder BLOCKED: Invalid volume', { volume: params.volume, pair: params.pair, type: params.type });
+      return { success: false, error: `Invalid volume: ${params.volume} (must be finite positive number)` };
+    }
+
+    balanceCache.invalidate('binance');
+    const symbol = this.formatPair(params.pair);
+    const clientOrderId = params.clientOrderId || crypto.randomUUID();
+
+    const isMarket = params.ordertype === 'market';
+    const postOnly = !isMarket && params.executionInstruction === 'post_only';
+    const orderParams: Record<string, string | number | undefined> = {
+      symbol,
+      side: params.type.toUpperCase(),
+      type: isMarket ? 'MARKET' : postOnly ? 'LIMIT_MAKER' : 'LIMIT',
+      quantity: params.volume,
+      price: isMarket ? undefined : params.price,
+      timeInForce: isMarket || postOnly ? undefined : 'GTC',
+      newClientOrderId: clientOrderId,
+      newOrderRespType: 'FULL',
+    };
+
+    console.log('[binance] Placing order:', JSON.stringify(orderParams));
+
+    try {
+      const { ok, status, data } = await this.signedRequest<any>('POST', '/api/v3/order', orderParams);
+      if (!ok) {
+        console.error('[binance] placeOrder error response:', data);
+        return { success: false, error: data?.msg || `HTTP ${status}` };
+      }
+
+      const orderId = String(data.orderId);
+      this.orderSymbols.set(orderId, symbol);
+
+      const executedQty = parseFloat(data.executedQty || '0');
+      const quoteQty = parseFloat(data.cummulativeQuoteQty || '0');
+
+      // Accepted but not filled yet (resting LIMIT/LIMIT_MAKER): reconcile via fills later
+      if (!(executedQty > 0) || !(quoteQty > 0)) {
+        return {
+          success: true,
+          pendingFill: true,
+          orderId,
+          txid: orderId,
+          clientOrderId,
+          volume: volumeNum,
+        };
+      }
+
+      return {
+        success: true,
+        orderId,
+        txid: orderId,
+        clientOrderId,
+        price: quoteQty / executedQty,
+        volume: executedQty,
+        cost: quoteQty,
+      };
+    } catch (error: any) {
+      console.error('[binance] placeOrder error:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    if (!this.initialized) throw new Error('Binance client not initialized');
+
+    const symbol = this.orderSymbols.get(orderId);
+    if (!symbol) {
+      console.error(`[binance] cancelOrder: unknown symbol for order ${orderId}`);
+      return false;
+    }
+
+    try {
+      const { ok, status, data } = await this.signedRequest<any>('DELETE', '/api/v3/order', { symbol, orderId });
+      if (!ok) {
+        console.error('[binance] cancelOrder error:', status, data);
+        return false;
+      }
+      this.orderSymbols.delete(orderId);
+      console.log('[binance] Order cancelled:', orderId);
+      return true;
+    } catch (error: any) {
+      console.error('[binance] cancelOrder error:', error.message);
+      return false;
+    }
+  }
+
+  async loadPairMetadata(pairs: string[]): Promise<void> {
+    try {
+      console.log(`[binance] Loading pair metadata for: ${pairs.join(', ')}`);
+      const symbols = pairs.map((p) => this.formatPair(p));
+      const info = await this.publicGet<any>('/api/v3/exchangeInfo', { symbols: JSON.stringify(symbols) });
+
+      for (const pair of pairs) {
+        const symbolInfo = (info?.symbols || []).find((s: any) => s.symbol === this.formatPair(pair));
+        if (!symbolInfo) {
+          console.warn(`[binance] No exchangeInfo for ${pair}`);
+          continue;
+        }
+
+        const filters: any[] = symbolInfo.filters || [];
+        const lot = filters.find((f) => f.filterType === 'LOT_SIZE');
+        const priceFilter = filters.find((f) => f.filterType === 'PRICE_FILTER');
+        const notional = filters.find((f) => f.filterType === 'NOTIONAL' || f.filterType === 'MIN_NOTIONAL');
+
+        const stepSize = parseFloat(lot?.stepSize || '0.00000001');
+        const tickSize = parseFloat(priceFilter?.tickSize || '0.01');
+        const orderMin = parseFloat(lot?.minQty || '0');
+        const minNotional = notional ? parseFloat(notional.minNotional) : null;
+
+        this.pairMetadataCache.set(pair, {
+          lotDecimals: this.decimalsOf(stepSize),
+          orderMin,
+          pairDecimals: this.decimalsOf(tickSize),
+          stepSize,
+          quantityStep: stepSize,
+          priceTickSize: tickSize,
+          minOrderBase: orderMin,
+          minOrderQuote: minNotional,
+          maxOrderBase: lot?.maxQty ? parseFloat(lot.maxQty) : null,
+          baseCurrency: symbolInfo.baseAsset ?? null,
+          quoteCurrency: symbolInfo.quoteAsset ?? null,
+          status: symbolInfo.status ?? null,
+          constraintsSource: 'binance:exchangeInfo',
+          constraintsFetchedAt: new Date(),
+          constraintsVerified: true,
+        });
+
+        console.log(`[binance] ${pair}: stepSize=${stepSize}, orderMin=${orderMin}, tickSize=${tickSize}`);
+      }
+
+      console.log(`[binance] Pair metadata loaded for ${this.pairMetadataCache.size} pairs`);
+    } catch (error: any) {
+      console.error('[binance] Failed to load pair metadata:', error.message);
+    }
+  }
+
+  private decimalsOf(step: number): number {
+    if (!Number.isFinite(step) || step <= 0 || step >= 1) return 0;
+    return Math.max(0, Math.round(-Math.log10(step)));
+  }
+
+  getPairMetadata(pair: string): PairMetadata | null {
+    return this.pairMetadataCache.get(pair) || null;
+  }
+
+  getStepSize(pair: string): number | null {
+    const metadata = this.pairMetadataCache.get(pair);
+    return metadata ? metadata.stepSize : null;
+  }
+
+  getOrderMin(pair: string): number | null {
+    const metadata = this.pairMetadataCache.get(pair);
+    return metadata ? metadata.orderMin : null;
+  }
+
+  hasMetadata(pair: string): boolean {
+    return this.pairMetadataCache.has(pair);
+  }
+
+  formatPair(pair: string): string {
+    const [base, quote] = pair.split('/');
+    if (!quote) return pair.toUpperCase();
+    return `${base}${quote === 'USD' ? 'USDT' : quote}`;
+  }
+
+  normalizePairFromExchange(exchangePair: string): string {
+    const split = splitBinanceSymbol(exchangePair);
+    if (!split) return exchangePair;
+    const [base, quote] = split;
+    return `${base}/${quote === 'USDT' ? 'USD' : quote}`;
+  }
+}
+
+export const binanceService = new BinanceService();
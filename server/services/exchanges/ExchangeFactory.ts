@@ -1,11 +1,12 @@
 import { IExchangeService } from './IExchangeService';
 import { krakenService } from '../kraken';
 import { revolutXService } from './RevolutXService';
+import { binanceService } from './BinanceService';
 import { krakenNonceManager } from './NonceManager';
 import { balanceCache } from './BalanceCache';
 import { krakenRateLimiter } from '../../utils/krakenRateLimiter';
 
-export type ExchangeType = 'kraken' | 'revolutx';
+export type ExchangeType = 'kraken' | 'revolutx' | 'binance';
 
 export interface ExchangeStatus {
   name: ExchangeType;
@@ -24,7 +25,8 @@ export class ExchangeFactoryClass {
   private dataExchange: ExchangeType = 'kraken';
   private exchangeEnabled: Record<ExchangeType, boolean> = {
     kraken: true,
-    revolutx: false
+    revolutx: false,
+    binance: false
   };
 
   static getInstance(): ExchangeFactoryClass {
@@ -44,6 +46,12 @@ export class ExchangeFactoryClass {
           return krakenService;
         }
         return revolutXService;
+      case 'binance':
+        if (!binanceService.isInitialized()) {
+          console.warn('[ExchangeFactory] Binance not initialized, falling back to Kraken');
+          return krakenService;
+        }
+        return binanceService;
       case 'kraken':
       default:
         return krakenService;
@@ -153,6 +161,14 @@ export class ExchangeFactoryClass {
         enabled: this.exchangeEnabled.revolutx,
         takerFeePct: 0.09,
         makerFeePct: 0.00
+      },
+      {
+        name: 'binance',
+        displayName: 'Binance',
+        configured: binanceService.isInitialized(),
+        enabled: this.exchangeEnabled.binance,
+        takerFeePct: 0.10,
+        makerFeePct: 0.10
       }
     ];
   }
@@ -172,6 +188,9 @@ export class ExchangeFactoryClass {
     revolutxApiKey?: string;
     revolutxPrivateKey?: string;
     revolutxEnabled?: boolean;
+    binanceApiKey?: string;
+    binanceApiSecret?: string;
+    binanceEnabled?: boolean;
     activeExchange?: ExchangeType;
     tradingExchange?: ExchangeType;
     dataExchange?: ExchangeType;
@@ -195,6 +214,15 @@ export class ExchangeFactoryClass {
       console.log('[ExchangeFactory] Revolut X initialized');
     }
 
+    if (config.binanceApiKey && config.binanceApiSecret) {
+      binanceService.initialize({
+        apiKey: config.binanceApiKey,
+        apiSecret: config.binanceApiSecret
+      });
+      this.exchangeEnabled.binance = config.binanceEnabled === true;
+      console.log('[ExchangeFactory] Binance initialized');
+    }
+
     const tradingEx = config.tradingExchange || config.activeExchange || 'kraken';
     if (this.exchangeEnabled[tradingEx]) {
       const exchange = this.getExchange(tradingEx);
@@ -239,6 +267,10 @@ export class ExchangeFactoryClass {
           enabled: this.exchangeEnabled.revolutx,
           rateLimiter: revolutXService.getRateLimiterStats(),
         },
+        binance: {
+          initialized: binanceService.isInitialized(),
+          enabled: this.exchangeEnabled.binance,
+        },
       },
       nonceManager: krakenNonceManager.getStats(),
       krakenRateLimiter: krakenRateLimiter.getStats(),
@@ -14,6 +14,18 @@ export interface Ticker {
   volume24h?: number;
 }
 
+export interface OrderBookLevel {
+  price: number;
+  qty: number;
+}
+
+/** L2 order book snapshot: bids sorted descending, asks ascending. */
+export interface OrderBook {
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: number; // ms
+}
+
 export interface OrderResult {
   success: boolean;
   orderId?: string;
@@ -28,6 +40,27 @@ export interface OrderResult {
   clientOrderId?: string;
 }
 
+/** Resting stop-loss SELL order (exchange-resident protective stop). */
+export interface StopOrderParams {
+  pair: string;
+  volume: string;
+  triggerPrice: string;
+  limitPrice?: string; // present → stop-loss-limit; absent → stop-loss (market)
+}
+
+export type ExchangeOrderState = "pending" | "open" | "closed" | "canceled" | "expired" | "unknown";
+
+export interface ExchangeOrderStatus {
+  orderId: string;
+  status: ExchangeOrderState;
+  volume: number;
+  filledVolume: number;
+  avgPrice: number | null;
+  cost: number;
+  fee: number;
+  closedAt: Date | null;
+}
+
 export interface PairMetadata {
   lotDecimals: number;
   orderMin: number;
@@ -68,6 +101,7 @@ export interface IExchangeService {
 
   getTicker(pair: string): Promise<Ticker>;
   getOHLC(pair: string, interval: number): Promise<OHLC[]>;
+  getOrderBook?(pair: string, depth?: number): Promise<OrderBook>;
 
   placeOrder(params: {
     pair: string;
@@ -81,6 +115,11 @@ export interface IExchangeService {
 
   cancelOrder(orderId: string): Promise<boolean>;
 
+  // Exchange-resident protective stops (optional: only venues with native stop orders)
+  placeStopOrder?(params: StopOrderParams): Promise<OrderResult>;
+  amendStopOrder?(orderId: string, params: Omit<StopOrderParams, "pair">): Promise<OrderResult>;
+  getOrderStatus?(orderId: string): Promise<ExchangeOrderStatus | null>;
+
   loadPairMetadata(pairs: string[]): Promise<void>;
   getPairMetadata(pair: string): PairMetadata | null;
   getStepSize(pair: string): number | null;
@@ -1,7 +1,8 @@
 import crypto from 'crypto';
-import { IExchangeService, ExchangeConfig, Ticker, OHLC, OrderResult, PairMetadata } from './IExchangeService';
+import { IExchangeService, ExchangeConfig, Ticker, OHLC, OrderResult, PairMetadata, ExchangeOrderState, ExchangeOrderStatus } from './IExchangeService';
 import { errorAlertService, ErrorAlertService } from '../ErrorAlertService';
 import { balanceCache } from './BalanceCache';
+import { observeOrder } from '../metrics/appMetrics';
 
 const API_BASE_URL = 'https://revx.revolut.com';
 const REVOLUTX_MIN_TIME_MS = parseInt(process.env.REVOLUTX_MIN_TIME_MS || '250', 10);
@@ -622,7 +623,11 @@ export class RevolutXService implements IExchangeService {
     return [];
   }
 
-  async placeOrder(params: {
+  async placeOrder(params: Parameters<IExchangeService['placeOrder']>[0]): Promise<OrderResult> {
+    return observeOrder('revolutx', params.type, () => this.submitOrder(params));
+  }
+
+  private async submitOrder(params: {
     pair: string;
     type: "buy" | "sell";
     ordertype: string;
@@ -1115,6 +1120,33 @@ export class RevolutXService implements IExchangeService {
     }
   }
 
+  /**
+   * Normalized order status (IExchangeService.getOrderStatus).
+   * Revolut X does not report fees per order: fee is 0 and callers infer it.
+   */
+  async getOrderStatus(orderId: string): Promise<ExchangeOrderStatus | null> {
+    const order = await this.getOrder(orderId);
+    if (!order) return null;
+    const filledVolume = order.filledSize ?? 0;
+    const statusMap: Record<string, ExchangeOrderState> = {
+      FILLED: 'closed', EXECUTED: 'closed', COMPLETED: 'closed', DONE: 'closed', FULLY_FILLED: 'closed',
+      NEW: 'open', OPEN: 'open', PENDING: 'open', PENDING_NEW: 'open', PARTIALLY_FILLED: 'open', PARTIAL_FILL: 'open',
+      CANCELED: 'canceled', CANCELLED: 'canceled', REJECTED: 'canceled', FAILED: 'canceled',
+      EXPIRED: 'expired',
+    };
+    const status = statusMap[order.status] ?? 'unknown';
+    return {
+      orderId: order.id,
+      status,
+      volume: filledVolume,
+      filledVolume,
+      avgPrice: order.averagePrice && order.averagePrice > 0 ? order.averagePrice : null,
+      cost: order.executedValue ?? 0,
+      fee: 0,
+      closedAt: status === 'closed' ? new Date() : null,
+    };
+  }
+
   /**
    * Get recent fills/trades for the account
    * FillWatcher uses this to find fills matching pending orders
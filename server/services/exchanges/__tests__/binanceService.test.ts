@@ -0,0 +1,226 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import http from "http";
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import { BinanceService, splitBinanceSymbol } from "../BinanceService";
+import { balanceCache } from "../BalanceCache";
+
+// Local stand-in that fakes the Binance Spot REST v3 responses used by the adapter.
+const API_KEY = "test-key";
+const API_SECRET = "test-secret";
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+  apiKey: string | undefined;
+  signatureValid: boolean;
+}
+
+const requests: RecordedRequest[] = [];
+let orderResponse: { status: number; body: unknown } = { status: 200, body: {} };
+
+function verifySignature(rawQuery: string): boolean {
+  const idx = rawQuery.lastIndexOf("&signature=");
+  if (idx < 0) return false;
+  const payload = rawQuery.slice(0, idx);
+  const signature = rawQuery.slice(idx + "&signature=".length);
+  const expected = crypto.createHmac("sha256", API_SECRET).update(payload).digest("hex");
+  return signature === expected;
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || "/", "http://127.0.0.1");
+  const rawQuery = url.search.replace(/^\?/, "");
+  requests.push({
+    method: req.method || "GET",
+    path: url.pathname,
+    params: url.searchParams,
+    apiKey: req.headers["x-mbx-apikey"] as string | undefined,
+    signatureValid: verifySignature(rawQuery),
+  });
+
+  const send = (status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const signed = () => req.headers["x-mbx-apikey"] === API_KEY && verifySignature(rawQuery);
+
+  switch (`${req.method} ${url.pathname}`) {
+    case "GET /api/v3/ticker/24hr":
+      return send(200, { symbol: url.searchParams.get("symbol"), bidPrice: "64999.50", askPrice: "65000.50", lastPrice: "65000.00", volume: "1234.5" });
+    case "GET /api/v3/klines":
+      return send(200, [
+        [1700000000000, "100", "110", "90", "105", "12.5", 1700000299999],
+        [1700000300000, "105", "115", "100", "112", "8", 1700000599999],
+      ]);
+    case "GET /api/v3/exchangeInfo":
+      return send(200, {
+        symbols: [{
+          symbol: "BTCUSDT", status: "TRADING", baseAsset: "BTC", quoteAsset: "USDT", baseAssetPrecision: 8,
+          filters: [
+            { filterType: "PRICE_FILTER", tickSize: "0.01000000" },
+            { filterType: "LOT_SIZE", minQty: "0.00001000", maxQty: "9000.00000000", stepSize: "0.00001000" },
+            { filterType: "NOTIONAL", minNotional: "5.00000000" },
+          ],
+        }],
+      });
+    case "GET /api/v3/account":
+      if (!signed()) return send(401, { code: -1022, msg: "Signature for this request is not valid." });
+      return send(200, { balances: [{ asset: "BTC", free: "0.5", locked: "0" }, { asset: "USDT", free: "1000.25", locked: "10" }] });
+    case "POST /api/v3/order":
+      if (!signed()) return send(401, { code: -1022, msg: "Signature for this request is not valid." });
+      return send(orderResponse.status, orderResponse.body);
+    case "DELETE /api/v3/order":
+      if (!signed()) return send(401, { code: -1022, msg: "Signature for this request is not valid." });
+      return send(200, { symbol: url.searchParams.get("symbol"), orderId: Number(url.searchParams.get("orderId")), status: "CANCELED" });
+    default:
+      return send(404, { msg: "not found" });
+  }
+});
+
+let service: BinanceService;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  service = new BinanceService(`http://127.0.0.1:${port}`);
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  balanceCache.invalidate("binance");
+  service.initialize({ apiKey: API_KEY, apiSecret: API_SECRET });
+});
+
+describe("splitBinanceSymbol / pair mapping", () => {
+  it("splits symbols on the longest known quote", () => {
+    expect(splitBinanceSymbol("BTCUSDT")).toEqual(["BTC", "USDT"]);
+    expect(splitBinanceSymbol("ETHFDUSD")).toEqual(["ETH", "FDUSD"]);
+    expect(splitBinanceSymbol("SOLEUR")).toEqual(["SOL", "EUR"]);
+    expect(splitBinanceSymbol("ETHBTC")).toEqual(["ETH", "BTC"]);
+    expect(splitBinanceSymbol("USDT")).toBeNull();
+  });
+
+  it("maps bot USD pairs to USDT symbols and back", () => {
+    expect(service.formatPair("BTC/USD")).toBe("BTCUSDT");
+    expect(service.formatPair("ETH/EUR")).toBe("ETHEUR");
+    expect(service.normalizePairFromExchange("BTCUSDT")).toBe("BTC/USD");
+    expect(service.normalizePairFromExchange("ETHBTC")).toBe("ETH/BTC");
+  });
+});
+
+describe("BinanceService public market data", () => {
+  it("getTicker reads bid/ask/last from ticker/24hr", async () => {
+    const ticker = await service.getTicker("BTC/USD");
+    expect(ticker).toEqual({ bid: 64999.5, ask: 65000.5, last: 65000, volume24h: 1234.5 });
+    expect(requests[0].params.get("symbol")).toBe("BTCUSDT");
+  });
+
+  it("getOHLC maps klines with time in seconds", async () => {
+    const candles = await service.getOHLC("BTC/USD", 5);
+    expect(requests[0].params.get("interval")).toBe("5m");
+    expect(candles).toEqual([
+      { time: 1700000000, open: 100, high: 110, low: 90, close: 105, volume: 12.5 },
+      { time: 1700000300, open: 105, high: 115, low: 100, close: 112, volume: 8 },
+    ]);
+  });
+
+  it("getOHLC rejects intervals Binance does not offer", async () => {
+    await expect(service.getOHLC("BTC/USD", 7)).rejects.toThrow(/7m interval/);
+  });
+
+  it("loadPairMetadata reads LOT_SIZE, PRICE_FILTER and NOTIONAL filters", async () => {
+    await service.loadPairMetadata(["BTC/USD"]);
+    expect(JSON.parse(requests[0].params.get("symbols") || "[]")).toEqual(["BTCUSDT"]);
+    const meta = service.getPairMetadata("BTC/USD");
+    expect(meta).toMatchObject({
+      stepSize: 0.00001,
+      orderMin: 0.00001,
+      priceTickSize: 0.01,
+      pairDecimals: 2,
+      lotDecimals: 5,
+      minOrderQuote: 5,
+      maxOrderBase: 9000,
+      baseCurrency: "BTC",
+      quoteCurrency: "USDT",
+      constraintsSource: "binance:exchangeInfo",
+      constraintsVerified: true,
+    });
+    expect(service.getStepSize("BTC/USD")).toBe(0.00001);
+  });
+});
+
+describe("BinanceService signed endpoints", () => {
+  it("getBalance signs the request and returns free balances", async () => {
+    const balances = await service.getBalance();
+    expect(balances).toEqual({ BTC: 0.5, USDT: 1000.25, USD: 1000.25 });
+    expect(requests[0].apiKey).toBe(API_KEY);
+    expect(requests[0].signatureValid).toBe(true);
+    expect(requests[0].params.get("timestamp")).toBeTruthy();
+    expect(requests[0].params.get("recvWindow")).toBeTruthy();
+  });
+
+  it("getBalance surfaces venue errors when the signature is rejected", async () => {
+    service.initialize({ apiKey: API_KEY, apiSecret: "wrong-secret" });
+    await expect(service.getBalance()).rejects.toThrow(/401/);
+  });
+
+  it("getBalance requires credentials", async () => {
+    const fresh = new BinanceService("http://127.0.0.1:1");
+    await expect(fresh.getBalance()).rejects.toThrow(/not initialized/);
+  });
+
+  it("placeOrder sends a MARKET order and derives the average fill price", async () => {
+    orderResponse = { status: 200, body: { orderId: 42, executedQty: "0.01000000", cummulativeQuoteQty: "650.00000000", status: "FILLED" } };
+    const result = await service.placeOrder({ pair: "BTC/USD", type: "buy", ordertype: "market", volume: "0.01", clientOrderId: "cid-1" });
+
+    expect(result).toMatchObject({ success: true, orderId: "42", clientOrderId: "cid-1", price: 65000, volume: 0.01, cost: 650 });
+    const sent = requests[0];
+    expect(sent.signatureValid).toBe(true);
+    expect(sent.params.get("symbol")).toBe("BTCUSDT");
+    expect(sent.params.get("side")).toBe("BUY");
+    expect(sent.params.get("type")).toBe("MARKET");
+    expect(sent.params.get("timeInForce")).toBeNull();
+    expect(sent.params.get("newClientOrderId")).toBe("cid-1");
+  });
+
+  it("placeOrder maps post_only limits to LIMIT_MAKER and reports pendingFill", async () => {
+    orderResponse = { status: 200, body: { orderId: 43, executedQty: "0", cummulativeQuoteQty: "0", status: "NEW" } };
+    const result = await service.placeOrder({ pair: "BTC/USD", type: "sell", ordertype: "limit", price: "70000", volume: "0.02", executionInstruction: "post_only" });
+
+    expect(result).toMatchObject({ success: true, pendingFill: true, orderId: "43", volume: 0.02 });
+    expect(requests[0].params.get("type")).toBe("LIMIT_MAKER");
+    expect(requests[0].params.get("price")).toBe("70000");
+    expect(requests[0].params.get("newClientOrderId")!.length).toBeLessThanOrEqual(36);
+  });
+
+  it("placeOrder returns the venue message on rejection", async () => {
+    orderResponse = { status: 400, body: { code: -1013, msg: "Filter failure: NOTIONAL" } };
+    const result = await service.placeOrder({ pair: "BTC/USD", type: "buy", ordertype: "limit", price: "1", volume: "0.001" });
+    expect(result).toEqual({ success: false, error: "Filter failure: NOTIONAL" });
+  });
+
+  it("placeOrder blocks invalid volumes without calling the venue", async () => {
+    const result = await service.placeOrder({ pair: "BTC/USD", type: "buy", ordertype: "market", volume: "NaN" });
+    expect(result.success).toBe(false);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("cancelOrder uses the symbol remembered from placeOrder", async () => {
+    orderResponse = { status: 200, body: { orderId: 44, executedQty: "0", cummulativeQuoteQty: "0", status: "NEW" } };
+    await service.placeOrder({ pair: "ETH/USD", type: "buy", ordertype: "limit", price: "3000", volume: "0.1" });
+    requests.length = 0;
+
+    expect(await service.cancelOrder("44")).toBe(true);
+    expect(requests[0].method).toBe("DELETE");
+    expect(requests[0].params.get("symbol")).toBe("ETHUSDT");
+    expect(requests[0].params.get("orderId")).toBe("44");
+    expect(await service.cancelOrder("44")).toBe(false);
+  });
+});
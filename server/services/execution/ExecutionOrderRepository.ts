@@ -0,0 +1,79 @@
+/**
+ * ExecutionOrderRepository
+ *
+ * Persistencia de órdenes padre/hija de SlicedExecutionEngine
+ * (execution_parent_orders / execution_child_orders).
+ *
+ * Reglas:
+ * - Upsert por id: el motor guarda el estado completo en cada transición
+ * - Best-effort: un fallo de BD nunca interrumpe una ejecución en curso
+ */
+
+import { db } from "../../db";
+import { sql } from "drizzle-orm";
+import type { ChildOrderState, ParentOrderState } from "./SlicedExecutionEngine";
+
+const num = (v: number | null | undefined) => (v == null || !Number.isFinite(v) ? null : v.toString());
+
+export async function upsertParentOrder(p: ParentOrderState): Promise<void> {
+  await db.execute(sql`
+    INSERT INTO execution_parent_orders
+      (parent_id, source, source_ref, exchange, pair, side, algo, status, target_qty,
+       filled_qty, filled_usd, avg_price, fee_usd, child_count, config_json, error, started_at, finished_at)
+    VALUES
+      (${p.parentId}, ${p.source}, ${p.sourceRef}, ${p.exchange}, ${p.pair}, ${p.side}, ${p.algo}, ${p.status},
+       ${num(p.targetQty)}, ${num(p.filledQty)}, ${num(p.filledUsd)}, ${num(p.avgPrice)}, ${num(p.feeUsd)},
+       ${p.children.length}, ${JSON.stringify(p.config)}::jsonb, ${p.error}, ${p.startedAt}, ${p.finishedAt})
+    ON CONFLICT (parent_id) DO UPDATE SET
+      status = EXCLUDED.status,
+      filled_qty = EXCLUDED.filled_qty,
+      filled_usd = EXCLUDED.filled_usd,
+      avg_price = EXCLUDED.avg_price,
+      fee_usd = EXCLUDED.fee_usd,
+      child_count = EXCLUDED.child_count,
+      error = EXCLUDED.error,
+      finished_at = EXCLUDED.finished_at
+  `);
+}
+
+export async function upsertChildOrder(c: ChildOrderState): Promise<void> {
+  await db.execute(sql`
+    INSERT INTO execution_child_orders
+      (child_id, parent_id, child_index, exchange_order_id, order_type, post_only, limit_price,
+       requested_qty, filled_qty, avg_price, fee_usd, status, replaced_by, error, created_at, updated_at)
+    VALUES
+      (${c.childId}, ${c.parentId}, ${c.index}, ${c.exchangeOrderId}, ${c.orderType}, ${c.postOnly}, ${num(c.limitPrice)},
+       ${num(c.requestedQty)}, ${num(c.filledQty)}, ${num(c.avgPrice)}, ${num(c.feeUsd)}, ${c.status},
+       ${c.replacedBy}, ${c.error}, ${c.createdAt}, ${c.updatedAt})
+    ON CONFLICT (child_id) DO UPDATE SET
+      exchange_order_id = EXCLUDED.exchange_order_id,
+      filled_qty = EXCLUDED.filled_qty,
+      avg_price = EXCLUDED.avg_price,
+      fee_usd = EXCLUDED.fee_usd,
+      status = EXCLUDED.status,
+      replaced_by = EXCLUDED.replaced_by,
+      error = EXCLUDED.error,
+      updated_at = EXCLUDED.updated_at
+  `);
+}
+
+/** Padre + hijas (p. ej. desde institutional_dca_orders.exchange_order_id). */
+export async function getParentWithChildren(parentId: string): Promise<{ parent: any; children: any[] } | null> {
+  const parent = await db.execute(sql`SELECT * FROM execution_parent_orders WHERE parent_id = ${parentId}`);
+  if (!parent.rows.length) return null;
+  const children = await db.execute(sql`
+    SELECT * FROM execution_child_orders WHERE parent_id = ${parentId} ORDER BY child_index ASC, created_at ASC
+  `);
+  return { parent: parent.rows[0], children: children.rows };
+}
+
+export async function getRecentParentOrders(options: { source?: string; limit?: number } = {}): Promise<any[]> {
+  const n = Math.min(Math.max(1, options.limit ?? 50), 500);
+  const result = options.source
+    ? await db.execute(sql`
+        SELECT * FROM execution_parent_orders WHERE source = ${options.source}
+        ORDER BY started_at DESC LIMIT ${n}
+      `)
+    : await db.execute(sql`SELECT * FROM execution_parent_orders ORDER BY started_at DESC LIMIT ${n}`);
+  return result.rows;
+}
@@ -0,0 +1,533 @@
+/**
+ * SlicedExecutionEngine — Ejecución troceada (orden padre → órdenes hijas).
+ *
+ * Las compras grandes de IDCA y AMA enviadas como una sola orden de mercado
+ * mueven el precio en Revolut X. Este motor divide la orden padre en hijas:
+ * - twap:          N hijas de tamaño fijo (≤ maxSliceUsd) repartidas en durationMs
+ * - participation: cada hija ≤ participationPct% del volumen esperado en el intervalo
+ *                  (volume24h del ticker); lo que no cabe antes del deadline queda parcial
+ * - maker_first:   calendario TWAP, pero cada hija entra como límite post-only en el
+ *                  mejor bid/ask; si no se llena en makerWaitMs se cancela y se repone
+ *                  (hasta makerMaxReplaces) y el resto va a mercado si takerFallback
+ *
+ * Cada hija se sigue por getOrderStatus (fills parciales, cancel/replace) y el
+ * padre agrega cantidad, coste, fee y precio medio. El estado se persiste en
+ * execution_parent_orders / execution_child_orders (best-effort).
+ *
+ * Una hija cuyo fill no se puede confirmar (unknown / sigue abierta) detiene el
+ * padre: su cantidad real es desconocida y reponerla podría comprar de más. El
+ * padre termina "unconfirmed" y requiere reconciliación con el exchange.
+ */
+
+import crypto from "crypto";
+import { ExchangeFactory } from "../exchanges/ExchangeFactory";
+import { upsertChildOrder, upsertParentOrder } from "./ExecutionOrderRepository";
+import type { IExchangeService, ExchangeOrderStatus, Ticker } from "../exchanges/IExchangeService";
+
+const TAG = "[SlicedExecution]";
+
+// === Types ===
+
+export type ExecutionAlgo = "twap" | "participation" | "maker_first";
+export type ExecutionSource = "IDCA" | "AMA";
+
+export interface SlicedExecutionConfig {
+  algo: ExecutionAlgo;
+  maxSliceUsd: number;
+  minSliceUsd: number;
+  durationMs: number;
+  participationPct: number;
+  makerWaitMs: number;
+  makerMaxReplaces: number;
+  takerFallback: boolean;
+  pollIntervalMs: number;
+  confirmTimeoutMs: number;
+}
+
+export interface SlicedExecutionRequest {
+  source: ExecutionSource;
+  sourceRef: string;
+  pair: string;
+  side: "buy" | "sell";
+  targetQty: number;
+  referencePrice: number;
+  config: SlicedExecutionConfig;
+}
+
+export type ChildOrderStatus = "pending" | "open" | "filled" | "partially_filled" | "cancelled" | "rejected" | "unknown";
+
+export interface ChildOrderState {
+  childId: string;
+  parentId: string;
+  index: number;
+  exchangeOrderId: string | null;
+  orderType: "market" | "limit";
+  postOnly: boolean;
+  limitPrice: number | null;
+  requestedQty: number;
+  filledQty: number;
+  avgPrice: number | null;
+  feeUsd: number;
+  status: ChildOrderStatus;
+  replacedBy: string | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ParentOrderStatus = "working" | "completed" | "partial" | "failed" | "unconfirmed";
+
+export interface ParentOrderState {
+  parentId: string;
+  source: ExecutionSource;
+  sourceRef: string;
+  exchange: string;
+  pair: string;
+  side: "buy" | "sell";
+  algo: ExecutionAlgo;
+  status: ParentOrderStatus;
+  targetQty: number;
+  filledQty: number;
+  filledUsd: number;
+  avgPrice: number | null;
+  feeUsd: number;
+  /** Parte de filledQty ejecutada como taker (hijas de mercado). */
+  takerFilledQty: number;
+  config: SlicedExecutionConfig;
+  children: ChildOrderState[];
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface SlicedExecutionDeps {
+  getExchange(): IExchangeService;
+  getExchangeType(): string;
+  sleep(ms: number): Promise<void>;
+  now(): number;
+  saveParent(parent: ParentOrderState): Promise<void>;
+  saveChild(child: ChildOrderState): Promise<void>;
+}
+
+// === Config ===
+
+function envNum(name: string, fallback: number, min = 0): number {
+  const v = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(v) && v >= min ? v : fallback;
+}
+
+export function isExecutionAlgo(value: string): value is ExecutionAlgo {
+  return value === "twap" || value === "participation" || value === "maker_first";
+}
+
+/** Config por defecto desde EXECUTION_* (overrides por llamada). */
+export function loadSlicedExecutionConfig(algo: ExecutionAlgo, overrides: Partial<SlicedExecutionConfig> = {}): SlicedExecutionConfig {
+  return {
+    algo,
+    maxSliceUsd: envNum("EXECUTION_MAX_SLICE_USD", 250, 1),
+    minSliceUsd: envNum("EXECUTION_MIN_SLICE_USD", 10, 0),
+    durationMs: envNum("EXECUTION_DURATION_SEC", 300) * 1000,
+    participationPct: envNum("EXECUTION_PARTICIPATION_PCT", 5, 0.01),
+    makerWaitMs: envNum("EXECUTION_MAKER_WAIT_SEC", 20) * 1000,
+    makerMaxReplaces: Math.floor(envNum("EXECUTION_MAKER_MAX_REPLACES", 2)),
+    takerFallback: String(process.env.EXECUTION_TAKER_FALLBACK ?? "true").toLowerCase() === "true",
+    pollIntervalMs: 2000,
+    confirmTimeoutMs: 30000,
+    ...overrides,
+  };
+}
+
+// === Pure helpers ===
+
+/**
+ * Reparte targetQty en hijas de igual tamaño con valor ≤ maxSliceUsd y ≥ minSliceUsd
+ * (si no caben dos hijas mínimas, una sola orden).
+ */
+export function planSliceQuantities(targetQty: number, referencePrice: number, maxSliceUsd: number, minSliceUsd: number): number[] {
+  if (!(targetQty > 0) || !(referencePrice > 0)) return [];
+  const totalUsd = targetQty * referencePrice;
+  let count = Math.max(1, Math.ceil(totalUsd / Math.max(maxSliceUsd, 1e-9)));
+  if (minSliceUsd > 0) count = Math.max(1, Math.min(count, Math.floor(totalUsd / minSliceUsd)));
+  const slice = targetQty / count;
+  return Array.from({ length: count }, () => slice);
+}
+
+/** Cantidad máxima (base) que respeta participationPct del volumen esperado en intervalMs. */
+export function participationCapQty(volume24h: number | undefined, intervalMs: number, participationPct: number): number | null {
+  if (!volume24h || !(volume24h > 0)) return null;
+  return volume24h * (intervalMs / 86_400_000) * (participationPct / 100);
+}
+
+/** Límite post-only: compra en el mejor bid, venta en el mejor ask (nunca cruza el libro). */
+export function makerLimitPrice(side: "buy" | "sell", ticker: Ticker): number | null {
+  const price = side === "buy" ? ticker.bid : ticker.ask;
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/** Agrega fills de las hijas en el padre. */
+export function aggregateFills(children: ChildOrderState[]): { filledQty: number; filledUsd: number; avgPrice: number | null; feeUsd: number; takerFilledQty: number } {
+  let filledQty = 0;
+  let filledUsd = 0;
+  let feeUsd = 0;
+  let takerFilledQty = 0;
+  for (const c of children) {
+    if (c.filledQty <= 0) continue;
+    filledQty += c.filledQty;
+    filledUsd += c.filledQty * (c.avgPrice ?? 0);
+    feeUsd += c.feeUsd;
+    if (c.orderType === "market") takerFilledQty += c.filledQty;
+  }
+  return { filledQty, filledUsd, avgPrice: filledQty > 0 ? filledUsd / filledQty : null, feeUsd, takerFilledQty };
+}
+
+function fixed(value: number, decimals: number | undefined, fallback: number): string {
+  return value.toFixed(decimals ?? fallback);
+}
+
+/** Estados en los que el exchange ya no puede llenar más la orden. */
+function isFinalOrderState(state: ExchangeOrderStatus["status"]): boolean {
+  return state === "closed" || state === "canceled" || state === "expired";
+}
+
+// === Engine ===
+
+export class SlicedExecutionEngine {
+  private active = new Map<string, ParentOrderState>();
+
+  constructor(private deps: SlicedExecutionDeps) {}
+
+  getActive(): ParentOrderState[] {
+    return Array.from(this.active.values());
+  }
+
+  async execute(req: SlicedExecutionRequest): Promise<ParentOrderState> {
+    const { config } = req;
+    const parent: ParentOrderState = {
+      parentId: `exec-${req.source.toLowerCase()}-${crypto.randomUUID()}`,
+      source: req.source,
+      sourceRef: req.sourceRef,
+      exchange: this.deps.getExchangeType(),
+      pair: req.pair,
+      side: req.side,
+      algo: config.algo,
+      status: "working",
+      targetQty: req.targetQty,
+      filledQty: 0,
+      filledUsd: 0,
+      avgPrice: null,
+      feeUsd: 0,
+      takerFilledQty: 0,
+      config,
+      children: [],
+      error: null,
+      startedAt: new Date(this.deps.now()),
+      finishedAt: null,
+    };
+    this.active.set(parent.parentId, parent);
+    await this.persistParent(parent);
+
+    console.log(`${TAG}[START] ${parent.parentId} ${req.source}:${req.sourceRef} ${req.side} ${req.pair} qty=${req.targetQty.toFixed(8)} algo=${config.algo}`);
+
+    try {
+      const exchange = this.deps.getExchange();
+      if (!exchange.isInitialized()) throw new Error("Trading exchange not initialized");
+
+      if (config.algo === "participation") {
+        await this.runParticipation(exchange, parent, req);
+      } else {
+        await this.runSchedule(exchange, parent, req, config.algo === "maker_first");
+      }
+    } catch (e: any) {
+      parent.error = e.message;
+      console.error(`${TAG}[ERROR] ${parent.parentId}: ${e.message}`);
+    }
+
+    this.refreshTotals(parent);
+    const dust = req.targetQty * 0.001;
+    const unconfirmed = this.unconfirmedChild(parent);
+    if (unconfirmed) parent.error ??= `child_fill_unconfirmed: ${unconfirmed.childId}`;
+    parent.status = unconfirmed ? "unconfirmed"
+      : parent.filledQty <= 0 ? "failed"
+      : parent.filledQty >= req.targetQty - dust ? "completed" : "partial";
+    parent.finishedAt = new Date(this.deps.now());
+    this.active.delete(parent.parentId);
+    await this.persistParent(parent);
+
+    console.log(
+      `${TAG}[DONE] ${parent.parentId} status=${parent.status} filled=${parent.filledQty.toFixed(8)}/${req.targetQty.toFixed(8)} ` +
+      `avg=${parent.avgPrice?.toFixed(2) ?? "n/a"} children=${parent.children.length}`
+    );
+    return parent;
+  }
+
+  // --- Algorithms ---
+
+  /** TWAP / maker_first: hijas de tamaño fijo espaciadas durationMs / N. */
+  private async runSchedule(exchange: IExchangeService, parent: ParentOrderState, req: SlicedExecutionRequest, makerFirst: boolean): Promise<void> {
+    const slices = planSliceQuantities(req.targetQty, req.referencePrice, req.config.maxSliceUsd, req.config.minSliceUsd);
+    const intervalMs = slices.length > 1 ? req.config.durationMs / slices.length : 0;
+
+    for (let i = 0; i < slices.length; i++) {
+      const sliceStart = this.deps.now();
+      // La última hija recoge lo que no se llenó en las anteriores
+      const remaining = req.targetQty - parent.filledQty;
+      const qty = i === slices.length - 1 ? remaining : Math.min(slices[i], remaining);
+      if (qty <= req.targetQty * 0.001) break;
+
+      await this.executeSlice(exchange, parent, qty, makerFirst);
+      if (await this.mustHalt(exchange, parent)) break;
+
+      if (i < slices.length - 1) {
+        const wait = intervalMs - (this.deps.now() - sliceStart);
+        if (wait > 0) await this.deps.sleep(wait);
+      }
+    }
+  }
+
+  /** Participation: cada intervalo, como mucho participationPct% del volumen esperado. */
+  private async runParticipation(exchange: IExchangeService, parent: ParentOrderState, req: SlicedExecutionRequest): Promise<void> {
+    const { config } = req;
+    const maxSliceQty = config.maxSliceUsd / req.referencePrice;
+    const minSliceQty = config.minSliceUsd / req.referencePrice;
+    const planned = planSliceQuantities(req.targetQty, req.referencePrice, config.maxSliceUsd, config.minSliceUsd).length;
+    const intervalMs = Math.max(config.durationMs / Math.max(planned, 1), 1000);
+    const deadline = this.deps.now() + config.durationMs;
+
+    while (true) {
+      const remaining = req.targetQty - parent.filledQty;
+      if (remaining <= req.targetQty * 0.001) break;
+
+      const ticker = await exchange.getTicker(req.pair);
+      const cap = participationCapQty(ticker.volume24h, intervalMs, config.participationPct);
+      // Sin volumen del ticker no hay techo de participación: se comporta como TWAP
+      const qty = Math.min(remaining, maxSliceQty, cap ?? Infinity);
+
+      if (qty >= minSliceQty || qty >= remaining) {
+        await this.executeSlice(exchange, parent, qty, false);
+        if (await this.mustHalt(exchange, parent)) break;
+      } else {
+        console.log(`${TAG}[PARTICIPATION_CAP] ${parent.parentId} cap=${(cap ?? 0).toFixed(8)} < min slice, waiting`);
+      }
+
+      if (this.deps.now() + intervalMs > deadline) break;
+      await this.deps.sleep(intervalMs);
+    }
+  }
+
+  // --- Child orders ---
+
+  private async executeSlice(exchange: IExchangeService, parent: ParentOrderState, qty: number, makerFirst: boolean): Promise<void> {
+    let remaining = qty;
+    const dust = qty * 0.001;
+
+    if (makerFirst) {
+      let previous: ChildOrderState | null = null;
+      for (let attempt = 0; attempt <= parent.config.makerMaxReplaces && remaining > dust; attempt++) {
+        const ticker = await exchange.getTicker(parent.pair);
+        const limitPrice = makerLimitPrice(parent.side, ticker);
+        if (limitPrice == null) break;
+
+        const child = this.newChild(parent, "limit", remaining, limitPrice);
+        if (previous) {
+          previous.replacedBy = child.childId;
+          await this.persistChild(previous);
+        }
+        await this.placeMakerChild(exchange, parent, child);
+        remaining -= child.filledQty;
+        if (child.status === "rejected" || child.status === "unknown" || child.status === "open") break;
+        previous = child;
+      }
+    }
+
+    if (remaining > dust && (!makerFirst || parent.config.takerFallback) && !this.unconfirmedChild(parent)) {
+      const child = this.newChild(parent, "market", remaining, null);
+      await this.placeTakerChild(exchange, parent, child);
+    }
+
+    this.refreshTotals(parent);
+    await this.persistParent(parent);
+  }
+
+  private async placeMakerChild(exchange: IExchangeService, parent: ParentOrderState, child: ChildOrderState): Promise<void> {
+    const meta = exchange.getPairMetadata(parent.pair);
+    const result = await exchange.placeOrder({
+      pair: parent.pair,
+      type: parent.side,
+      ordertype: "limit",
+      price: fixed(child.limitPrice!, meta?.pairDecimals, 2),
+      volume: fixed(child.requestedQty, meta?.lotDecimals, 8),
+      clientOrderId: child.childId,
+      executionInstruction: "post_only",
+    });
+    if (!result.success) {
+      await this.markChild(child, { status: "rejected", error: result.error ?? "rejected" });
+      return;
+    }
+    await this.markChild(child, { exchangeOrderId: result.orderId ?? result.txid ?? null, status: "open" });
+    if (!child.exchangeOrderId) return;
+
+    const status = await this.pollUntilFinal(exchange, child.exchangeOrderId, parent.config.makerWaitMs, parent.config.pollIntervalMs);
+    if (status?.status === "closed") {
+      await this.applyStatus(child, status);
+      return;
+    }
+
+    // Sin fill completo: cancelar y leer lo que se haya llenado entretanto.
+    // Sólo un estado final del exchange cierra la hija; si el cancel o la lectura
+    // fallan, la orden puede seguir viva y el padre debe detenerse (unconfirmed).
+    const cancelled = await exchange.cancelOrder(child.exchangeOrderId).catch(() => false);
+    const finalStatus = await this.readStatus(exchange, child.exchangeOrderId);
+    if (!finalStatus || !isFinalOrderState(finalStatus.status)) {
+      if (finalStatus) await this.applyStatus(child, finalStatus);
+      await this.markChild(child, {
+        status: finalStatus?.status === "open" || finalStatus?.status === "pending" ? "open" : "unknown",
+        error: cancelled ? "cancel_not_confirmed" : "cancel_failed",
+      });
+      return;
+    }
+    await this.applyStatus(child, finalStatus);
+    if (child.status === "partially_filled" && child.filledQty >= child.requestedQty * 0.999) {
+      await this.markChild(child, { status: "filled" });
+    }
+  }
+
+  private async placeTakerChild(exchange: IExchangeService, parent: ParentOrderState, child: ChildOrderState): Promise<void> {
+    const meta = exchange.getPairMetadata(parent.pair);
+    const result = await exchange.placeOrder({
+      pair: parent.pair,
+      type: parent.side,
+      ordertype: "market",
+      volume: fixed(child.requestedQty, meta?.lotDecimals, 8),
+      clientOrderId: child.childId,
+    });
+    if (!result.success) {
+      await this.markChild(child, { status: "rejected", error: result.error ?? "rejected" });
+      return;
+    }
+    await this.markChild(child, { exchangeOrderId: result.orderId ?? result.txid ?? null, status: "open" });
+
+    const status = child.exchangeOrderId
+      ? await this.pollUntilFinal(exchange, child.exchangeOrderId, parent.config.confirmTimeoutMs, parent.config.pollIntervalMs)
+      : null;
+    if (status && status.status !== "open" && status.status !== "pending") {
+      await this.applyStatus(child, status);
+    } else if (!status && result.volume && result.price && !result.pendingFill) {
+      // Exchange sin getOrderStatus: usar lo que devolvió placeOrder
+      await this.markChild(child, { filledQty: result.volume, avgPrice: result.price, status: "filled" });
+    } else {
+      // Orden de mercado sin estado final: lo llenado es sólo un mínimo
+      if (status) await this.applyStatus(child, status);
+      await this.markChild(child, { status: "unknown", error: "fill_not_confirmed" });
+    }
+  }
+
+  /** Hija cuyo fill no es definitivo (sin confirmar o todavía viva en el exchange). */
+  private unconfirmedChild(parent: ParentOrderState): ChildOrderState | undefined {
+    return parent.children.find(c => c.status === "unknown" || c.status === "open" || c.status === "pending");
+  }
+
+  /**
+   * Antes de poner otra hija, vuelve a consultar en el exchange las hijas sin
+   * confirmar. Si alguna sigue sin estado final, el padre se detiene.
+   */
+  private async mustHalt(exchange: IExchangeService, parent: ParentOrderState): Promise<boolean> {
+    for (const child of parent.children) {
+      if (child.status !== "unknown" && child.status !== "open" && child.status !== "pending") continue;
+      const status = child.exchangeOrderId ? await this.readStatus(exchange, child.exchangeOrderId) : null;
+      if (status && status.status !== "open" && status.status !== "pending" && status.status !== "unknown") {
+        await this.applyStatus(child, status);
+        await this.markChild(child, { error: null });
+      }
+    }
+    this.refreshTotals(parent);
+
+    const unconfirmed = this.unconfirmedChild(parent);
+    if (!unconfirmed) return false;
+    parent.error = `child_fill_unconfirmed: ${unconfirmed.childId}`;
+    console.error(`${TAG}[HALT] ${parent.parentId}: hija ${unconfirmed.childId} (${unconfirmed.exchangeOrderId ?? "sin id"}) sin fill confirmado — no se ponen más hijas`);
+    await this.persistParent(parent);
+    return true;
+  }
+
+  private async pollUntilFinal(exchange: IExchangeService, orderId: string, timeoutMs: number, pollIntervalMs: number): Promise<ExchangeOrderStatus | null> {
+    const deadline = this.deps.now() + timeoutMs;
+    let last: ExchangeOrderStatus | null = null;
+    while (true) {
+      last = await this.readStatus(exchange, orderId) ?? last;
+      if (last && last.status !== "open" && last.status !== "pending") return last;
+      if (this.deps.now() >= deadline) return last;
+      await this.deps.sleep(pollIntervalMs);
+    }
+  }
+
+  private async readStatus(exchange: IExchangeService, orderId: string): Promise<ExchangeOrderStatus | null> {
+    if (!exchange.getOrderStatus) return null;
+    try {
+      return await exchange.getOrderStatus(orderId);
+    } catch (e: any) {
+      console.warn(`${TAG}[STATUS] ${orderId}: ${e.message}`);
+      return null;
+    }
+  }
+
+  private async applyStatus(child: ChildOrderState, s: ExchangeOrderStatus): Promise<void> {
+    const avgPrice = s.avgPrice ?? (s.filledVolume > 0 && s.cost > 0 ? s.cost / s.filledVolume : null);
+    const status: ChildOrderStatus = s.status === "closed"
+      ? (s.filledVolume > 0 ? "filled" : "unknown")
+      : s.status === "open" || s.status === "pending"
+        ? (s.filledVolume > 0 ? "partially_filled" : "open")
+        : s.status === "unknown" ? "unknown"
+          : (s.filledVolume > 0 ? "partially_filled" : "cancelled");
+    await this.markChild(child, { filledQty: s.filledVolume, avgPrice, feeUsd: s.fee, status });
+  }
+
+  private newChild(parent: ParentOrderState, orderType: "market" | "limit", qty: number, limitPrice: number | null): ChildOrderState {
+    const now = new Date(this.deps.now());
+    const child: ChildOrderState = {
+      childId: `${parent.parentId}-c${parent.children.length}`,
+      parentId: parent.parentId,
+      index: parent.children.length,
+      exchangeOrderId: null,
+      orderType,
+      postOnly: orderType === "limit",
+      limitPrice,
+      requestedQty: qty,
+      filledQty: 0,
+      avgPrice: null,
+      feeUsd: 0,
+      status: "pending",
+      replacedBy: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    parent.children.push(child);
+    return child;
+  }
+
+  private async markChild(child: ChildOrderState, patch: Partial<ChildOrderState>): Promise<void> {
+    Object.assign(child, patch, { updatedAt: new Date(this.deps.now()) });
+    await this.persistChild(child);
+  }
+
+  private refreshTotals(parent: ParentOrderState): void {
+    Object.assign(parent, aggregateFills(parent.children));
+  }
+
+  private async persistParent(parent: ParentOrderState): Promise<void> {
+    await this.deps.saveParent(parent).catch((e: any) => console.warn(`${TAG}[DB] parent ${parent.parentId}: ${e.message}`));
+  }
+
+  private async persistChild(child: ChildOrderState): Promise<void> {
+    await this.deps.saveChild(child).catch((e: any) => console.warn(`${TAG}[DB] child ${child.childId}: ${e.message}`));
+  }
+}
+
+export const slicedExecutionEngine = new SlicedExecutionEngine({
+  getExchange: () => ExchangeFactory.getTradingExchange(),
+  getExchangeType: () => ExchangeFactory.getTradingExchangeType(),
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+  now: () => Date.now(),
+  saveParent: upsertParentOrder,
+  saveChild: upsertChildOrder,
+});
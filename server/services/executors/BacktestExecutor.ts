@@ -0,0 +1,121 @@
+/**
+ * BacktestExecutor — in-memory ITradeExecutor for candle replays.
+ *
+ * Guarantees:
+ *   - NEVER calls any exchange API
+ *   - NEVER touches the database (no snapshots, no training rows, no FISCO)
+ *   - Deterministic: IDs come from a local counter, prices from the intent
+ *
+ * Fill model:
+ *   BUY  → intent.price × (1 + slippagePct/100), fee = amountUsd × feePct/100
+ *   SELL → intent.price × (1 - slippagePct/100), fee = proceeds × feePct/100
+ */
+
+import type { ITradeExecutor, TradeIntent, TradeResult } from "./ITradeExecutor";
+
+export interface BacktestExecutorOptions {
+  feePct: number;       // taker fee per side, in %
+  slippagePct: number;  // adverse slippage per side, in %
+}
+
+interface BacktestOpenLot {
+  lotId:       string;
+  pair:        string;
+  entryPrice:  number;
+  amount:      number;
+  entryFeeUsd: number;
+}
+
+export class BacktestExecutor implements ITradeExecutor {
+  readonly mode = "BACKTEST" as const;
+  private readonly feeRate: number;
+  private readonly slippageRate: number;
+  private openLots: Map<string, BacktestOpenLot> = new Map();
+  private seq = 0;
+
+  constructor(options: BacktestExecutorOptions) {
+    this.feeRate = Math.max(0, options.feePct) / 100;
+    this.slippageRate = Math.max(0, options.slippagePct) / 100;
+  }
+
+  async executeBuy(intent: TradeIntent): Promise<TradeResult> {
+    const simulatedId = `BT-BUY-${++this.seq}`;
+    if (!(intent.price > 0) || !(intent.amountUsd > 0)) {
+      return this.failure(simulatedId, intent, "invalid price or amount");
+    }
+    const execPrice = intent.price * (1 + this.slippageRate);
+    const feeUsd = intent.amountUsd * this.feeRate;
+    const execAmount = intent.amountUsd / execPrice;
+
+    this.openLots.set(simulatedId, {
+      lotId: simulatedId,
+      pair: intent.pair,
+      entryPrice: execPrice,
+      amount: execAmount,
+      entryFeeUsd: feeUsd,
+    });
+
+    return {
+      success: true,
+      mode: this.mode,
+      simulatedId,
+      pair: intent.pair,
+      side: "buy",
+      executedPrice: execPrice,
+      executedAmount: execAmount,
+      feeUsd,
+    };
+  }
+
+  async executeSell(
+    intent: TradeIntent,
+    entryContext?: { entryPrice: number; entryTs: Date; lotId: string },
+  ): Promise<TradeResult> {
+    const simulatedId = `BT-SELL-${++this.seq}`;
+    const lotId = entryContext?.lotId ?? intent.lotId;
+    const lot = lotId ? this.openLots.get(lotId) : undefined;
+    if (!lot) {
+      return this.failure(simulatedId, intent, `unknown lot ${lotId ?? "(none)"}`);
+    }
+    if (!(intent.price > 0)) {
+      return this.failure(simulatedId, intent, "invalid price");
+    }
+
+    const execPrice = intent.price * (1 - this.slippageRate);
+    const proceedsUsd = lot.amount * execPrice;
+    const feeUsd = proceedsUsd * this.feeRate;
+    const costUsd = lot.amount * lot.entryPrice;
+    const pnlNetUsd = proceedsUsd - costUsd - feeUsd - lot.entryFeeUsd;
+    this.openLots.delete(lot.lotId);
+
+    return {
+      success: true,
+      mode: this.mode,
+      simulatedId,
+      pair: intent.pair,
+      side: "sell",
+      executedPrice: execPrice,
+      executedAmount: lot.amount,
+      feeUsd,
+      pnlNetUsd,
+    };
+  }
+
+  getOpenLotCount(): number {
+    return this.openLots.size;
+  }
+
+  private failure(simulatedId: string, intent: TradeIntent, errorMessage: string): TradeResult {
+    return {
+      success: false,
+      mode: this.mode,
+      simulatedId,
+      pair: intent.pair,
+      side: intent.side,
+      executedPrice: 0,
+      executedAmount: 0,
+      feeUsd: 0,
+      errorMessage,
+    };
+  }
+}
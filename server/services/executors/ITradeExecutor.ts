@@ -4,12 +4,15 @@
  * Implementations:
  *   RealExecutor    → tradingEngine.buyAsset / sellAsset (existing, not modified here)
  *   ShadowExecutor  → NEVER calls exchange; writes only to trade_snapshots + training_trades (shadow)
+ *   BacktestExecutor → NEVER calls exchange NOR the DB; fills in memory for candle replays
  *
  * Contract:
  *   - executeBuy / executeSell MUST be side-effect-free in terms of real funds for Shadow.
  *   - Shadow result carries mode='SHADOW' in metadata.
  */
 
+export type ExecutorMode = "REAL" | "DRY_RUN" | "SHADOW" | "BACKTEST";
+
 export interface TradeIntent {
   pair:        string;
   side:        "buy" | "sell";
@@ -26,7 +29,7 @@ export interface TradeIntent {
 
 export interface TradeResult {
   success:     boolean;
-  mode:        "REAL" | "DRY_RUN" | "SHADOW";
+  mode:        ExecutorMode;
   simulatedId: string;        // synthetic ID for this simulated trade
   pair:        string;
   side:        "buy" | "sell";
@@ -38,7 +41,7 @@ export interface TradeResult {
 }
 
 export interface ITradeExecutor {
-  readonly mode: "REAL" | "DRY_RUN" | "SHADOW";
+  readonly mode: ExecutorMode;
   executeBuy(intent: TradeIntent): Promise<TradeResult>;
   executeSell(intent: TradeIntent, entryContext?: { entryPrice: number; entryTs: Date; lotId: string }): Promise<TradeResult>;
 }
@@ -18,7 +18,7 @@ import { ExchangeFactory } from "./exchanges/ExchangeFactory";
 import { errorAlertService, ErrorAlertService } from "./ErrorAlertService";
 import { checkSmartTimeStop, type MarketRegime, type TimeStopCheckResult } from "./TimeStopService";
 import { evaluateSmartTimeStopV2 } from "./SmartTimeStopV2";
-import type { IExchangeService } from "./exchanges/IExchangeService";
+import type { IExchangeService, Ticker } from "./exchanges/IExchangeService";
 import type { TelegramService } from "./telegram";
 
 // Re-export types needed by both ExitManager and TradingEngine
@@ -107,6 +107,8 @@ export interface IExitManagerHost {
   // Exchange
   getTradingExchange(): IExchangeService;
   getDataExchange(): IExchangeService;
+  /** Real-time ticker: fresh WS stream price, else a direct exchange call. */
+  getLiveTicker(pair: string): Promise<Ticker>;
   getTradingExchangeType(): string;
   getTradingFees(): { takerFeePct: number; makerFeePct: number };
   getOrderMin(pair: string): number;
@@ -366,8 +368,7 @@ export class ExitManager {
     if (positions.length === 0) return;
 
     try {
-      const krakenPair = this.host.formatKrakenPair(pair);
-      const ticker = await this.host.getDataExchange().getTicker(krakenPair);
+      const ticker = await this.host.getLiveTicker(pair);
       const currentPrice = Number((ticker as any)?.last ?? 0);
 
       if (!Number.isFinite(currentPrice) || currentPrice <= 0) {
@@ -11,10 +11,10 @@ import { runFifo, type FifoResult } from "./fifo-engine";
 import { normalizeKrakenLedger, normalizeRevolutXOrders, mergeAndSort } from "./normalizer";
 import { krakenService } from "../kraken";
 import { revolutXService } from "../exchanges/RevolutXService";
-import { normalizeToV2Events } from "./FiscoV2Normalizer";
 import { runFifoV2, summarizeV2Result, buildFeeTreatmentSummary, extractOpeningLots, extractClosingLots, filterBlockersByYear } from "./FiscoV2EngineService";
 import { getFiscoConfig } from "./FiscoConfigService";
-import type { V2ComparisonResult, OperationMapping, AssetDiffV2, FeeDiffDetail, FeeTreatmentSummary, V2HistoricalScope, V2OpeningLot, V2EngineResult, V2Blocker } from "./FiscoV2Types";
+import { loadV2HistoricalEvents } from "./FiscoTwoMonthRuleService";
+import type { FeeMode, V2ComparisonResult, OperationMapping, AssetDiffV2, FeeDiffDetail, FeeTreatmentSummary, V2HistoricalScope, V2OpeningLot, V2EngineResult, V2Blocker } from "./FiscoV2Types";
 
 export interface ComparisonQuality {
   baseline_valid: boolean;
@@ -140,53 +140,17 @@ async function buildV2HistoricalResultForYear(
     blockIfSellWithoutCostBasis?: boolean;
   }
 ): Promise<V2HistoricalResult> {
-  const yearEnd = `${year + 1}-01-01`;
-
-  // Load ALL operations up to 31/12/Y (inclusive of full year Y)
-  const opsResult = await pool.query(
-    "SELECT * FROM fisco_operations WHERE executed_at < $1 ORDER BY executed_at",
-    [yearEnd]
-  );
-
-  // Load opening balances (same as legacy FiscoRebuildService does)
-  let openingBalancesRows: any[] = [];
-  try {
-    const obResult = await pool.query(
-      "SELECT * FROM fisco_opening_balances WHERE is_active = TRUE ORDER BY acquisition_date ASC"
-    );
-    openingBalancesRows = obResult.rows;
-  } catch {
-    // Table may not exist in some environments
-    openingBalancesRows = [];
-  }
-
-  // Convert opening balances to synthetic DbOperation-like rows (trade_buy)
-  const openingBalanceOps = openingBalancesRows.map((row: any) => ({
-    id: -row.id || -(Date.now() + Math.random()),
-    exchange: row.exchange ?? "manual",
-    external_id: `opening_balance_${row.id}`,
-    op_type: "trade_buy",
-    asset: row.asset,
-    amount: String(row.quantity),
-    price_eur: row.quantity > 0 ? String(parseFloat(row.cost_basis_eur) / parseFloat(row.quantity)) : "0",
-    total_eur: String(row.cost_basis_eur),
-    fee_eur: "0",
-    counter_asset: "EUR",
-    pair: `${row.asset}/EUR`,
-    executed_at: new Date(row.acquisition_date),
-    raw_data: { source: "opening_balance", note: row.note },
-  }));
-
-  // Combine historical operations with opening balance synthetic ops
-  const allOps = [...openingBalanceOps, ...opsResult.rows];
-
-  // Normalize to V2 events
-  const v2Events = normalizeToV2Events(allOps, feeMode as any);
+  // Load ALL operations up to 31/12/Y, opening balances and the two-month
+  // look-ahead purchases needed by art. 33.5.f LIRPF
+  const { opsRows, openingBalanceOps, events: v2Events, lookaheadAcquisitions } =
+    await loadV2HistoricalEvents(pool, year, feeMode as FeeMode);
+  const allOps = [...openingBalanceOps, ...opsRows];
 
   // Run full FIFO V2 engine on ALL events
   const engineResult = runFifoV2(v2Events, {
     blockIfRewardWithoutPrice: options.blockIfRewardWithoutPrice,
     blockIfSellWithoutCostBasis: options.blockIfSellWithoutCostBasis,
+    lookaheadAcquisitions,
   });
 
   // Summarize only disposals for the requested year
@@ -208,20 +172,20 @@ async function buildV2HistoricalResultForYear(
   const feeTreatmentSummary = buildFeeTreatmentSummary(engineResult, year);
 
   // Build historical scope metadata
-  const operationsBeforeYear = opsResult.rows.filter(
+  const operationsBeforeYear = opsRows.filter(
     (r: any) => new Date(r.executed_at).getFullYear() < year
   ).length;
-  const operationsInYear = opsResult.rows.filter(
+  const operationsInYear = opsRows.filter(
     (r: any) => new Date(r.executed_at).getFullYear() === year
   ).length;
 
   const historicalScope: V2HistoricalScope = {
     year,
-    operations_from: opsResult.rows.length > 0
-      ? new Date(opsResult.rows[0].executed_at).toISOString().split("T")[0]
+    operations_from: opsRows.length > 0
+      ? new Date(opsRows[0].executed_at).toISOString().split("T")[0]
       : "N/A",
-    operations_to: opsResult.rows.length > 0
-      ? new Date(opsResult.rows[opsResult.rows.length - 1].executed_at).toISOString().split("T")[0]
+    operations_to: opsRows.length > 0
+      ? new Date(opsRows[opsRows.length - 1].executed_at).toISOString().split("T")[0]
       : "N/A",
     total_operations_loaded: allOps.length,
     operations_before_year: operationsBeforeYear,
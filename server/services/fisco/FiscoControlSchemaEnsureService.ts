@@ -109,6 +109,24 @@ class FiscoControlSchemaEnsureService {
       errors.push(`CREATE fisco_control_snapshots: ${e.message}`);
     }
 
+    // 4. fisco_modelo721_filings
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS fisco_modelo721_filings (
+          id SERIAL PRIMARY KEY,
+          fiscal_year INTEGER NOT NULL UNIQUE,
+          total_value_eur DECIMAL(18,2) NOT NULL,
+          positions JSONB NOT NULL DEFAULT '[]'::jsonb,
+          declaration_id TEXT,
+          filed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+      ensured.push("fisco_modelo721_filings");
+    } catch (e: any) {
+      errors.push(`CREATE fisco_modelo721_filings: ${e.message}`);
+    }
+
     this.ensured = true;
     return { ok: errors.length === 0, errors, ensured };
   }
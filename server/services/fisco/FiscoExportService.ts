@@ -7,11 +7,15 @@
  *   - lots           (fisco_lots + fisco_operations)
  *   - statement items (fisco_external_statement_items)
  *   - conservative disposals (fisco_external_statement_items WHERE classification = 'conservative_external_disposal')
+ *   - loss deferrals (regla de los dos meses, art. 33.5.f LIRPF — motor V2)
+ *   - Modelo 100 (casillas de monedas virtuales + staking, con conciliación)
  *
  * INVARIANTS: pure read — never modifies any table.
  */
 
 import type { Pool } from "pg";
+import { computeLossDeferrals } from "./FiscoTwoMonthRuleService";
+import { FiscoModelo100Service, MODELO100_CASILLAS, type Modelo100Options } from "./FiscoModelo100Service";
 
 export type CsvDelimiter = "comma" | "semicolon";
 
@@ -343,6 +347,90 @@ export class FiscoExportService {
     return lines.join("\n");
   }
 
+  // ── 6. Loss deferrals (art. 33.5.f LIRPF) ──────────────────────────────────
+
+  async exportLossDeferralsCsv(opts: ExportOpts = {}): Promise<string> {
+    const sep = SEP(opts.delimiter ?? "comma");
+
+    let years = opts.years;
+    if (!years || years.length === 0) {
+      const yq = await this.pool.query(
+        `SELECT DISTINCT EXTRACT(YEAR FROM executed_at)::int AS year FROM fisco_operations ORDER BY 1`,
+      );
+      years = yq.rows.map(r => Number(r.year));
+    }
+    const deferrals = await computeLossDeferrals(this.pool, years, opts.exchanges);
+
+    const headers = ["year","exchange","asset","sell_operation_id","v2_disposal_id","disposed_at",
+      "quantity_disposed","loss_before_deferral_eur","deferred_loss_eur","computable_loss_eur",
+      "deferred_quantity","window_start","window_end","replacement_operation_ids","replacement_acquired_at"];
+    const lines = [row(headers, sep)];
+    for (const d of deferrals) {
+      lines.push(row([
+        d.disposed_at.getFullYear(), d.exchange, d.asset,
+        d.sell_operation_id, d.v2_disposal_id,
+        d.disposed_at.toISOString(),
+        d.quantity_disposed,
+        d.loss_before_deferral_eur,
+        d.deferred_loss_eur,
+        d.loss_before_deferral_eur + d.deferred_loss_eur,
+        d.deferred_quantity,
+        d.window_start.toISOString(),
+        d.window_end.toISOString(),
+        d.replacements.map(r => r.source_operation_id).join("|"),
+        d.replacements.map(r => r.acquired_at.toISOString()).join("|"),
+      ], sep));
+    }
+    return lines.join("\n");
+  }
+
+  // ── 7. Modelo 100 (Renta) ──────────────────────────────────────────────────
+
+  /**
+   * Una fila por línea del bloque de monedas virtuales (section=transmision),
+   * una por activo con rendimientos de staking (section=rcm), totales y
+   * conciliación contra el resumen anual. Las cabeceras llevan el nº de casilla.
+   */
+  async exportModelo100Csv(year: number, opts: Modelo100Options & { delimiter?: CsvDelimiter } = {}): Promise<string> {
+    const sep = SEP(opts.delimiter ?? "comma");
+    const data = await new FiscoModelo100Service(this.pool).build(year, opts);
+    const c = MODELO100_CASILLAS;
+
+    const headers = ["section", "year", "engine",
+      `c${c.denominacion}_moneda`, `c${c.contraprestacion}_contraprestacion`,
+      `c${c.valorTransmision}_valor_transmision_eur`, `c${c.valorAdquisicion}_valor_adquisicion_eur`,
+      `c${c.ganancia}_ganancia_eur`, `c${c.perdida}_perdida_eur`,
+      `c${c.rcmOtrosRendimientos}_rcm_eur`,
+      "operations_count", "sell_fees_eur", "deferred_loss_eur", "source", "note"];
+    const lines = [row(headers, sep)];
+
+    for (const t of data.transmissions) {
+      lines.push(row(["transmision", year, data.engine, t.asset, t.contraprestacion,
+        t.transmission_value_eur, t.acquisition_value_eur, t.gain_eur, t.loss_eur, "",
+        t.disposals_count, t.sell_fees_eur, t.deferred_loss_eur, t.source, ""], sep));
+    }
+    for (const r of data.capital_income.rows) {
+      lines.push(row(["rcm", year, data.engine, r.asset, "", "", "", "", "", r.amount_eur,
+        r.operations_count, "", "", "staking", r.operations_without_price > 0 ? `${r.operations_without_price} sin valor EUR` : ""], sep));
+    }
+    const t = data.totals;
+    lines.push(row(["total", year, data.engine, "", "",
+      t.transmission_value_eur, t.acquisition_value_eur, t.gains_eur, t.losses_eur, data.capital_income.total_eur,
+      "", t.sell_fees_eur, t.deferred_loss_eur, "", `neto ${t.net_gain_loss_eur}`], sep));
+
+    const rec = data.reconciliation;
+    lines.push(row(["conciliacion", year, data.engine, "ganancia_perdida_neta", "", "", "", "", "", "",
+      "", "", "", rec.status,
+      `export=${rec.export_net_gain_loss_eur}; resumen_anual=${rec.annual_summary.final_taxable_gain_loss_eur}; diff=${rec.diff_gain_loss_eur}`], sep));
+    lines.push(row(["conciliacion", year, data.engine, "rcm_staking", "", "", "", "", "", "",
+      "", "", "", rec.status,
+      `export=${rec.export_capital_income_eur}; resumen_anual=${rec.annual_summary.staking_total_eur}; diff=${rec.diff_capital_income_eur}`], sep));
+    for (const n of [...rec.notes, ...data.warnings]) {
+      lines.push(row(["aviso", year, data.engine, "", "", "", "", "", "", "", "", "", "", "", n], sep));
+    }
+    return lines.join("\n");
+  }
+
   // ── Counts helper (for audit metadata) ────────────────────────────────────
 
   async getCounts(opts: { years?: number[]; exchanges?: string[] } = {}): Promise<{
@@ -12,6 +12,7 @@
  */
 
 import type { Pool } from "pg";
+import type { V2LossDeferral } from "./FiscoV2Types";
 
 // ─── Annual gain/loss summary types ─────────────────────────────────────────
 
@@ -516,14 +517,16 @@ export async function buildAnnualHtmlReportData(
   finStatus: any;
   portfolio: any;
   krakenRec: any;
+  lossDeferrals: V2LossDeferral[];
 }> {
   const { FiscoValidationService } = await import("./FiscoValidationService");
   const { KrakenReconciliationService } = await import("./KrakenReconciliationService");
+  const { computeLossDeferrals } = await import("./FiscoTwoMonthRuleService");
 
   const validSvc = new FiscoValidationService(pool);
   const krakenSvc = new KrakenReconciliationService(pool);
 
-  const [finStatus, portfolio, krakenRec, gainsQ, stakingQ] = await Promise.all([
+  const [finStatus, portfolio, krakenRec, gainsQ, stakingQ, lossDeferrals] = await Promise.all([
     validSvc.getFinalizationStatus(year),
     validSvc.validatePortfolio(year, null),
     krakenSvc.reconcile(year),
@@ -543,6 +546,11 @@ export async function buildAnnualHtmlReportData(
       WHERE fo.op_type IN ('staking','reward','distribution')
         AND EXTRACT(YEAR FROM fo.executed_at) = $1
     `, [year]),
+    // Regla de los dos meses — motor V2; un fallo aquí no debe romper el informe
+    computeLossDeferrals(pool, [year], exchanges).catch((e: any) => {
+      console.error(`[FiscoHtmlRenderer:computeLossDeferrals] ${e.message}`);
+      return [] as V2LossDeferral[];
+    }),
   ]);
 
   // Enrich finStatus so renderFiscalSummaryTable can show gains/losses/staking correctly
@@ -553,7 +561,7 @@ export async function buildAnnualHtmlReportData(
     staking_total_eur: Math.round(parseFloat(stakingQ.rows[0]?.total ?? "0") * 100) / 100,
   };
 
-  return { year, exchanges, finStatus: finEnriched, portfolio, krakenRec };
+  return { year, exchanges, finStatus: finEnriched, portfolio, krakenRec, lossDeferrals };
 }
 
 function eur(n: number | null | undefined): string {
@@ -1246,6 +1254,45 @@ function renderRelevantWarnings(fin: any, krakenRec: any): string {
   return html;
 }
 
+// ─── Regla de los dos meses (art. 33.5.f LIRPF) ───────────────────────────────
+
+export function renderTwoMonthRuleSection(year: number, deferrals: V2LossDeferral[]): string {
+  const intro = `<p style="font-size:.82rem;color:#555;margin:.4rem 0 .75rem">
+    No se computan las pérdidas de una transmisión cuando se adquieren activos homogéneos en los dos meses
+    anteriores o posteriores. La pérdida diferida se suma al valor de adquisición de los activos recomprados
+    y se integrará cuando éstos se transmitan.
+  </p>`;
+  if (deferrals.length === 0) {
+    return `${intro}<p class="ok">✓ Ninguna pérdida de ${year} queda diferida por recompra.</p>`;
+  }
+
+  const totalBefore   = deferrals.reduce((s, d) => s + d.loss_before_deferral_eur, 0);
+  const totalDeferred = deferrals.reduce((s, d) => s + d.deferred_loss_eur, 0);
+  const rows = deferrals.map(d => {
+    const replacements = d.replacements
+      .map(r => `${fmtDate(r.acquired_at)} (${fmtQty(r.quantity)})`)
+      .join(", ");
+    return `<tr>
+      <td>${fmtDate(d.disposed_at)}</td><td>${d.asset}</td><td>${d.exchange}</td>
+      <td>${fmtQty(d.quantity_disposed)}</td>
+      <td class="gain-neg">${eur(d.loss_before_deferral_eur)}</td>
+      <td>${eur(d.deferred_loss_eur)}</td>
+      <td class="${gainClass(d.loss_before_deferral_eur + d.deferred_loss_eur)}">${eur(d.loss_before_deferral_eur + d.deferred_loss_eur)}</td>
+      <td style="font-size:.78rem">${replacements}</td>
+    </tr>`;
+  }).join("");
+
+  return `${intro}
+  <table>
+    <thead><tr><th>Fecha venta</th><th>Activo</th><th>Exchange</th><th>Cantidad</th><th>Pérdida calculada</th>
+      <th>Pérdida diferida</th><th>Pérdida computable</th><th>Recompras (fecha, cantidad)</th></tr></thead>
+    <tbody>${rows}
+      <tr style="font-weight:600"><td colspan="4">Total</td>
+        <td>${eur(totalBefore)}</td><td>${eur(totalDeferred)}</td><td>${eur(totalBefore + totalDeferred)}</td><td></td></tr>
+    </tbody>
+  </table>`;
+}
+
 // ─── Validation summary (informe principal — versión compacta) ────────────────
 
 function renderValidationSummary(fin: any): string {
@@ -1890,8 +1937,10 @@ export class FiscoHtmlRenderer {
     finStatus: any;   // FinalizationStatus + gains_eur + losses_eur (enriched by route)
     portfolio: any;
     krakenRec: any;
+    lossDeferrals?: V2LossDeferral[];
   }): Promise<string> {
     const { year, exchanges, finStatus, portfolio, krakenRec } = opts;
+    const lossDeferrals = opts.lossDeferrals ?? [];
 
     // Each data block is independently fault-tolerant so a single table error
     // never breaks the full report.
@@ -2025,6 +2074,12 @@ ${partialErrors.length > 0 ? `
   ${renderRelevantWarnings(finEnriched, krakenRec)}
 </div>
 
+<!-- 5b. REGLA DE LOS DOS MESES -->
+<div class="section-block avoid-break">
+  <h2>Pérdidas diferidas por recompra (art. 33.5.f LIRPF)</h2>
+  ${renderTwoMonthRuleSection(year, lossDeferrals)}
+</div>
+
 <!-- 6. RESUMEN TÉCNICO DE COMPROBACIÓN (plegado) -->
 <details class="section-block">
   <summary>Resumen técnico de comprobación</summary>
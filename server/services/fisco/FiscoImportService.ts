@@ -1,11 +1,11 @@
 /**
  * FISCO Import Service: Handles CSV import preview, hash dedupe, and confirmation.
- * Supports Kraken Ledger and RevolutX orders CSV formats.
+ * Supports Kraken Ledger, RevolutX orders and Binance Spot trade-history CSV formats.
  */
 
 import { pool } from "../../db";
 import { createHash } from "crypto";
-import { normalizeKrakenLedger, normalizeRevolutXOrders, mergeAndSort, type NormalizedOperation } from "./normalizer";
+import { normalizeKrakenLedger, normalizeRevolutXOrders, normalizeBinanceTrades, mergeAndSort, type BinanceTrade, type NormalizedOperation } from "./normalizer";
 import { krakenService } from "../kraken";
 import { revolutXService } from "../exchanges/RevolutXService";
 
@@ -144,12 +144,102 @@ function parseRevolutXCsv(csv: string): RevolutXOrderCsvRow[] {
   return rows;
 }
 
+// ============================================================
+// Binance CSV Parser
+// ============================================================
+
+export type FiscoImportExchange = "kraken" | "revolutx" | "binance";
+
+/** Split one CSV line honouring double quotes ("42,000.00"). */
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') { cur += '"'; i++; }
+      else inQuotes = !inQuotes;
+    } else if (ch === "," && !inQuotes) {
+      out.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.map(v => v.trim());
+}
+
+/** "0.00100000BTC" → { amount: 0.001, asset: "BTC" }; plain numbers keep asset null. */
+function parseAmountWithAsset(raw: string): { amount: number; asset: string | null } {
+  const m = raw.replace(/,/g, "").match(/^(-?[0-9.]+(?:e-?\d+)?)\s*([A-Za-z0-9]*)$/);
+  if (!m) return { amount: NaN, asset: null };
+  return { amount: parseFloat(m[1]), asset: m[2] ? m[2].toUpperCase() : null };
+}
+
+function parseBinanceDate(raw: string): number {
+  // Binance exports "YYYY-MM-DD HH:mm:ss" in UTC
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(raw) ? `${raw.replace(" ", "T")}Z` : raw;
+  return new Date(iso).getTime();
+}
+
+/**
+ * Parse a Binance Spot trade-history CSV. Two export layouts are accepted:
+ *   A. Date(UTC),Pair,Side,Price,Executed,Amount,Fee   (amounts suffixed with the asset)
+ *   B. Date(UTC),Market,Type,Price,Amount,Total,Fee,Fee Coin
+ * Binance does not export a trade id, so the id is a hash of the row.
+ */
+export function parseBinanceCsv(csv: string): BinanceTrade[] {
+  const lines = csv.trim().split(/\r?\n/);
+  if (lines.length < 2) return [];
+  const headers = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const col = (...names: string[]) => headers.findIndex(h => names.includes(h));
+
+  const iDate = col("date(utc)", "date", "time");
+  const iSymbol = col("pair", "market");
+  const iSide = col("side", "type");
+  const iPrice = col("price");
+  const iFeeCoin = col("fee coin");
+  const layoutB = iFeeCoin >= 0;
+  const iQty = layoutB ? col("amount") : col("executed");
+  const iQuote = layoutB ? col("total") : col("amount");
+  const iFee = col("fee");
+  if ([iDate, iSymbol, iSide, iPrice, iQty, iQuote].some(i => i < 0)) return [];
+
+  const trades: BinanceTrade[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const values = splitCsvLine(lines[i]);
+    if (values.length !== headers.length) continue;
+
+    const side = values[iSide].toLowerCase();
+    if (side !== "buy" && side !== "sell") continue;
+    const qty = parseAmountWithAsset(values[iQty]);
+    const quote = parseAmountWithAsset(values[iQuote]);
+    const fee = iFee >= 0 ? parseAmountWithAsset(values[iFee]) : { amount: 0, asset: null };
+
+    trades.push({
+      id: `binance_${createHash("sha256").update(lines[i]).digest("hex").substring(0, 16)}`,
+      symbol: values[iSymbol].toUpperCase(),
+      side,
+      price: parseFloat(values[iPrice].replace(/,/g, "")),
+      quantity: qty.amount,
+      quoteQuantity: quote.amount,
+      fee: Number.isFinite(fee.amount) ? fee.amount : 0,
+      feeAsset: (layoutB ? values[iFeeCoin] : fee.asset) || "",
+      executedAt: parseBinanceDate(values[iDate]),
+    });
+  }
+  return trades;
+}
+
 // ============================================================
 // Main import functions
 // ============================================================
 
 export async function createImportPreview(
-  exchange: "kraken" | "revolutx",
+  exchange: FiscoImportExchange,
   csvContent: string,
   options: ImportOptions,
   dryRun: boolean = true,
@@ -198,6 +288,11 @@ export async function createImportPreview(
       filled_date: r.filled_date ? Math.floor(new Date(r.filled_date).getTime() / 1000) : undefined,
     }));
     ops = await normalizeRevolutXOrders(orders);
+  } else if (exchange === "binance") {
+    const trades = parseBinanceCsv(csvContent);
+    rawRows = trades.map(t => ({ ...t, time: new Date(t.executedAt).toISOString() }));
+    parsedRows = trades.length;
+    ops = await normalizeBinanceTrades(trades);
   }
 
   // Detect fiscal year from parsed operations
@@ -411,7 +506,7 @@ export async function createImportPreview(
 
 export async function confirmImport(
   batchId: string,
-  exchange: "kraken" | "revolutx",
+  exchange: FiscoImportExchange,
   options: ImportOptions
 ): Promise<{ confirmed: number; batch_id: string }> {
   // In a real implementation, this would:
@@ -108,6 +108,19 @@ export interface InventorySnapshotResult {
   };
 }
 
+/**
+ * Saldo en custodia de un exchange a 31/12 (Modelo 721).
+ * A diferencia de InventorySnapshotRow (FIFO global por activo), aquí importa
+ * DÓNDE está el activo: entradas - salidas firmadas por exchange.
+ */
+export interface CustodyBalanceRow {
+  asset: string;
+  exchange: string;
+  closingQtyAsOfYearEnd: number;
+  firstAcquiredAt: string | null;    // primera entrada en ese exchange (fecha de incorporación)
+  lastMovementAt: string | null;     // último movimiento hasta 31/12 (fecha de extinción si el saldo es 0)
+}
+
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 // Activos FIAT que nunca tienen cost_basis en el contexto cripto
@@ -175,6 +188,46 @@ export class FiscoInventorySnapshotService {
     };
   }
 
+  // ─── Year-end custody balances per exchange ───────────────────────────────
+
+  /**
+   * Saldo por (asset, exchange) a 31/12/YYYY a partir de fisco_operations.
+   * Entradas: trade_buy, deposit, staking/reward/distribution.
+   * Salidas:  trade_sell, withdrawal(_crypto), conservative_external_disposal.
+   * Las filas por debajo del umbral de dust se devuelven con cantidad 0 para
+   * que el llamador pueda detectar posiciones extinguidas.
+   */
+  async getYearEndCustodyBalances(year: number): Promise<CustodyBalanceRow[]> {
+    const yearEnd = `${year + 1}-01-01`;
+
+    const q = await this.pool.query(`
+      SELECT fo.asset,
+             fo.exchange,
+             COALESCE(SUM(CASE
+               WHEN fo.op_type IN ('trade_buy','deposit','staking','reward','distribution') THEN fo.amount::numeric
+               WHEN fo.op_type IN ('trade_sell','withdrawal','withdrawal_crypto','conservative_external_disposal') THEN -fo.amount::numeric
+               ELSE 0 END), 0) AS qty,
+             MIN(CASE WHEN fo.op_type IN ('trade_buy','deposit','staking','reward','distribution') THEN fo.executed_at END) AS first_acquired_at,
+             MAX(fo.executed_at) AS last_movement_at
+      FROM fisco_operations fo
+      WHERE fo.executed_at < $1::date
+        AND NOT (fo.asset = ANY($2))
+      GROUP BY fo.asset, fo.exchange
+      ORDER BY fo.exchange, fo.asset
+    `, [yearEnd, Array.from(FIAT_ASSETS)]);
+
+    return q.rows.map((r: any): CustodyBalanceRow => {
+      const qty = round8(parseFloat(r.qty));
+      return {
+        asset: r.asset,
+        exchange: r.exchange,
+        closingQtyAsOfYearEnd: Math.abs(qty) < dustThreshold(r.asset) ? 0 : qty,
+        firstAcquiredAt: r.first_acquired_at ? new Date(r.first_acquired_at).toISOString() : null,
+        lastMovementAt: r.last_movement_at ? new Date(r.last_movement_at).toISOString() : null,
+      };
+    });
+  }
+
   // ─── Compute per-asset inventory rows ─────────────────────────────────────
 
   private async _computeInventoryRows(
@@ -0,0 +1,396 @@
+/**
+ * FiscoModelo100Service — Datos para la Renta (Modelo 100): ganancias y
+ * pérdidas patrimoniales por transmisión de monedas virtuales y rendimientos
+ * del capital mobiliario por staking/rewards.
+ *
+ * Agrupa las transmisiones del ejercicio por moneda y tipo de contraprestación
+ * (una línea del bloque de monedas virtuales por grupo) con el criterio AEAT
+ * de comisiones:
+ *   - valor de transmisión = importe de venta - comisiones de venta
+ *   - valor de adquisición = importe de compra + comisiones de compra (ya en el coste del lote)
+ *
+ * Fuente de las transmisiones:
+ *   - legacy: fisco_disposals (+ disposiciones conservadoras externas)
+ *   - v2_official: runFifoV2 sobre el histórico completo (incluye regla de los dos meses)
+ *
+ * Incluye una conciliación contra el resumen anual (getFinalizationStatus +
+ * staking de MultiYearReportService) para detectar diferencias antes de teclear
+ * las casillas en Renta Web.
+ *
+ * INVARIANTS: pure read — never modifies any table.
+ */
+
+import type { Pool } from "pg";
+import { FiscoValidationService } from "./FiscoValidationService";
+import { loadV2HistoricalEvents } from "./FiscoTwoMonthRuleService";
+import { runFifoV2 } from "./FiscoV2EngineService";
+import type { FeeMode } from "./FiscoV2Types";
+
+// ─── Casillas ─────────────────────────────────────────────────────────────────
+
+/**
+ * Numeración de casillas de Renta Web (campaña 2024). La AEAT puede
+ * renumerarlas entre campañas: revisar cada año antes de usar el export.
+ */
+export const MODELO100_CASILLAS = {
+  denominacion: "1800",
+  contraprestacion: "1801",
+  valorTransmision: "1802",
+  valorAdquisicion: "1803",
+  ganancia: "1804",
+  perdida: "1805",
+  rcmOtrosRendimientos: "0033",
+} as const;
+
+/** F = moneda de curso legal, N = otra moneda virtual, O = salida sin contraprestación conocida */
+export type Modelo100Contraprestacion = "F" | "N" | "O";
+
+const FIAT_ASSETS = new Set(["EUR", "USD", "GBP", "JPY", "CHF", "CAD", "AUD", "NOK", "SEK", "DKK"]);
+const RECONCILIATION_TOLERANCE_EUR = 0.01;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type Modelo100Engine = "legacy_fifo" | "v2_official";
+
+export interface Modelo100TransmissionRow {
+  asset: string;
+  contraprestacion: Modelo100Contraprestacion;
+  transmission_value_eur: number;
+  acquisition_value_eur: number;
+  gain_eur: number;
+  loss_eur: number;
+  sell_fees_eur: number;
+  deferred_loss_eur: number;
+  disposals_count: number;
+  source: "fifo" | "conservative_external_disposal";
+}
+
+export interface Modelo100CapitalIncomeRow {
+  asset: string;
+  operations_count: number;
+  amount_eur: number;
+  operations_without_price: number;
+}
+
+export interface Modelo100Reconciliation {
+  status: "OK" | "DIFFERENCES";
+  annual_summary: {
+    ordinary_fifo_gain_loss_eur: number;
+    conservative_external_disposals_gain_loss_eur: number;
+    final_taxable_gain_loss_eur: number;
+    staking_total_eur: number;
+  };
+  export_net_gain_loss_eur: number;
+  export_capital_income_eur: number;
+  diff_gain_loss_eur: number;
+  diff_capital_income_eur: number;
+  notes: string[];
+}
+
+export interface Modelo100Export {
+  year: number;
+  generated_at: string;
+  engine: Modelo100Engine;
+  casillas: typeof MODELO100_CASILLAS;
+  transmissions: Modelo100TransmissionRow[];
+  totals: {
+    transmission_value_eur: number;
+    acquisition_value_eur: number;
+    gains_eur: number;
+    losses_eur: number;
+    net_gain_loss_eur: number;
+    deferred_loss_eur: number;
+    sell_fees_eur: number;
+  };
+  capital_income: {
+    casilla: string;
+    rows: Modelo100CapitalIncomeRow[];
+    total_eur: number;
+  };
+  reconciliation: Modelo100Reconciliation;
+  warnings: string[];
+}
+
+export interface Modelo100Options {
+  engine?: Modelo100Engine;
+  feeMode?: FeeMode;
+  blockIfRewardWithoutPrice?: boolean;
+  blockIfSellWithoutCostBasis?: boolean;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function contraprestacionFor(counterAsset: string | null | undefined): Modelo100Contraprestacion {
+  return counterAsset && !FIAT_ASSETS.has(counterAsset.toUpperCase()) ? "N" : "F";
+}
+
+interface DisposalAgg {
+  asset: string;
+  contraprestacion: Modelo100Contraprestacion;
+  source: Modelo100TransmissionRow["source"];
+  transmission: number;
+  acquisition: number;
+  gainLoss: number;
+  fees: number;
+  deferred: number;
+  count: number;
+}
+
+/**
+ * Una fila por (moneda, contraprestación, fuente). Ganancia y pérdida son
+ * excluyentes por fila: la casilla que corresponde al signo del resultado.
+ */
+function buildTransmissionRows(aggs: DisposalAgg[]): Modelo100TransmissionRow[] {
+  const grouped = new Map<string, DisposalAgg>();
+  for (const a of aggs) {
+    const key = `${a.source}:${a.asset}:${a.contraprestacion}`;
+    const g = grouped.get(key) ?? { ...a, transmission: 0, acquisition: 0, gainLoss: 0, fees: 0, deferred: 0, count: 0 };
+    g.transmission += a.transmission;
+    g.acquisition += a.acquisition;
+    g.gainLoss += a.gainLoss;
+    g.fees += a.fees;
+    g.deferred += a.deferred;
+    g.count += a.count;
+    grouped.set(key, g);
+  }
+  return Array.from(grouped.values())
+    .sort((a, b) => a.source.localeCompare(b.source) || a.asset.localeCompare(b.asset) || a.contraprestacion.localeCompare(b.contraprestacion))
+    .map(g => ({
+      asset: g.asset,
+      contraprestacion: g.contraprestacion,
+      transmission_value_eur: round2(g.transmission),
+      acquisition_value_eur: round2(g.acquisition),
+      gain_eur: g.gainLoss > 0 ? round2(g.gainLoss) : 0,
+      loss_eur: g.gainLoss < 0 ? round2(-g.gainLoss) : 0,
+      sell_fees_eur: round2(g.fees),
+      deferred_loss_eur: round2(g.deferred),
+      disposals_count: g.count,
+      source: g.source,
+    }));
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class FiscoModelo100Service {
+  constructor(private readonly pool: Pool) {}
+
+  async build(year: number, opts: Modelo100Options = {}): Promise<Modelo100Export> {
+    const engine = opts.engine ?? "legacy_fifo";
+    const warnings: string[] = [];
+
+    const fifoAggs = engine === "v2_official"
+      ? await this.loadV2Disposals(year, opts, warnings)
+      : await this.loadLegacyDisposals(year);
+    const conservativeAggs = await this.loadConservativeDisposals(year);
+    const transmissions = buildTransmissionRows([...fifoAggs, ...conservativeAggs]);
+
+    const capitalRows = await this.loadCapitalIncome(year);
+    for (const r of capitalRows) {
+      if (r.operations_without_price > 0) {
+        warnings.push(`${r.asset}: ${r.operations_without_price} reward(s) sin valor EUR — rendimiento infravalorado`);
+      }
+    }
+
+    const totals = {
+      transmission_value_eur: round2(transmissions.reduce((s, r) => s + r.transmission_value_eur, 0)),
+      acquisition_value_eur: round2(transmissions.reduce((s, r) => s + r.acquisition_value_eur, 0)),
+      gains_eur: round2(transmissions.reduce((s, r) => s + r.gain_eur, 0)),
+      losses_eur: round2(transmissions.reduce((s, r) => s + r.loss_eur, 0)),
+      net_gain_loss_eur: round2(transmissions.reduce((s, r) => s + r.gain_eur - r.loss_eur, 0)),
+      deferred_loss_eur: round2(transmissions.reduce((s, r) => s + r.deferred_loss_eur, 0)),
+      sell_fees_eur: round2(transmissions.reduce((s, r) => s + r.sell_fees_eur, 0)),
+    };
+    const capitalTotal = round2(capitalRows.reduce((s, r) => s + r.amount_eur, 0));
+
+    const reconciliation = await this.reconcile(year, engine, totals.net_gain_loss_eur, capitalTotal, totals.deferred_loss_eur);
+
+    return {
+      year,
+      generated_at: new Date().toISOString(),
+      engine,
+      casillas: MODELO100_CASILLAS,
+      transmissions,
+      totals,
+      capital_income: {
+        casilla: MODELO100_CASILLAS.rcmOtrosRendimientos,
+        rows: capitalRows,
+        total_eur: capitalTotal,
+      },
+      reconciliation,
+      warnings,
+    };
+  }
+
+  // ─── Sources ───────────────────────────────────────────────────────────────
+
+  private async loadLegacyDisposals(year: number): Promise<DisposalAgg[]> {
+    // proceeds_eur es bruto; gain_loss_eur ya descuenta la comisión de venta
+    // prorrateada, así que valor de transmisión = coste + resultado.
+    const q = await this.pool.query(`
+      SELECT fo.asset,
+             fo.counter_asset,
+             COUNT(*)                                        AS disposals_count,
+             COALESCE(SUM(d.proceeds_eur::numeric), 0)       AS proceeds_eur,
+             COALESCE(SUM(d.cost_basis_eur::numeric), 0)     AS cost_basis_eur,
+             COALESCE(SUM(d.gain_loss_eur::numeric), 0)      AS gain_loss_eur
+      FROM fisco_disposals d
+      JOIN fisco_operations fo ON fo.id = d.sell_operation_id
+      WHERE EXTRACT(YEAR FROM d.disposed_at) = $1
+      GROUP BY fo.asset, fo.counter_asset
+    `, [year]);
+
+    return q.rows.map((r: any): DisposalAgg => {
+      const cost = parseFloat(r.cost_basis_eur);
+      const gainLoss = parseFloat(r.gain_loss_eur);
+      const transmission = cost + gainLoss;
+      return {
+        asset: r.asset,
+        contraprestacion: contraprestacionFor(r.counter_asset),
+        source: "fifo",
+        transmission,
+        acquisition: cost,
+        gainLoss,
+        fees: parseFloat(r.proceeds_eur) - transmission,
+        deferred: 0,
+        count: parseInt(r.disposals_count),
+      };
+    });
+  }
+
+  private async loadV2Disposals(year: number, opts: Modelo100Options, warnings: string[]): Promise<DisposalAgg[]> {
+    const { opsRows, events, lookaheadAcquisitions } =
+      await loadV2HistoricalEvents(this.pool, year, opts.feeMode ?? "AEAT_INTEGRATED_TRACEABLE");
+    const result = runFifoV2(events, {
+      blockIfRewardWithoutPrice: opts.blockIfRewardWithoutPrice,
+      blockIfSellWithoutCostBasis: opts.blockIfSellWithoutCostBasis,
+      lookaheadAcquisitions,
+    });
+
+    for (const b of result.blockers.filter(b => b.tax_year === year)) {
+      warnings.push(`V2 ${b.code} (${b.asset}): ${b.message}`);
+    }
+
+    const counterAssetByOp = new Map<number, string | null>();
+    for (const op of opsRows) counterAssetByOp.set(Number(op.id), op.counter_asset ?? null);
+
+    return result.disposals
+      .filter(d => d.executed_at.getFullYear() === year)
+      .map((d): DisposalAgg => ({
+        asset: d.asset,
+        contraprestacion: contraprestacionFor(counterAssetByOp.get(d.sell_operation_id)),
+        source: "fifo",
+        transmission: d.transmission_value_eur,
+        acquisition: d.cost_basis_eur,
+        gainLoss: d.gain_loss_eur,
+        fees: d.direct_fee_eur,
+        deferred: d.deferred_loss_eur ?? 0,
+        count: 1,
+      }));
+  }
+
+  private async loadConservativeDisposals(year: number): Promise<DisposalAgg[]> {
+    const q = await this.pool.query(`
+      SELECT asset,
+             COUNT(*)                                   AS disposals_count,
+             COALESCE(SUM(proceeds_eur::numeric), 0)    AS proceeds_eur,
+             COALESCE(SUM(cost_basis_eur::numeric), 0)  AS cost_basis_eur,
+             COALESCE(SUM(gain_loss_eur::numeric), 0)   AS gain_loss_eur
+      FROM fisco_external_statement_items
+      WHERE year = $1
+        AND classification = 'conservative_external_disposal'
+        AND gain_loss_eur IS NOT NULL
+      GROUP BY asset
+    `, [year]);
+
+    return q.rows.map((r: any): DisposalAgg => ({
+      asset: r.asset,
+      contraprestacion: "O",
+      source: "conservative_external_disposal",
+      transmission: parseFloat(r.proceeds_eur),
+      acquisition: parseFloat(r.cost_basis_eur),
+      gainLoss: parseFloat(r.gain_loss_eur),
+      fees: 0,
+      deferred: 0,
+      count: parseInt(r.disposals_count),
+    }));
+  }
+
+  private async loadCapitalIncome(year: number): Promise<Modelo100CapitalIncomeRow[]> {
+    const q = await this.pool.query(`
+      SELECT fo.asset,
+             COUNT(*)                                            AS operations_count,
+             COALESCE(SUM(fo.total_eur::numeric), 0)             AS amount_eur,
+             COUNT(*) FILTER (WHERE fo.total_eur IS NULL)        AS operations_without_price
+      FROM fisco_operations fo
+      WHERE fo.op_type IN ('staking','reward','distribution')
+        AND EXTRACT(YEAR FROM fo.executed_at) = $1
+      GROUP BY fo.asset
+      ORDER BY fo.asset
+    `, [year]);
+
+    return q.rows.map((r: any) => ({
+      asset: r.asset,
+      operations_count: parseInt(r.operations_count),
+      amount_eur: round2(parseFloat(r.amount_eur)),
+      operations_without_price: parseInt(r.operations_without_price),
+    }));
+  }
+
+  // ─── Reconciliation ────────────────────────────────────────────────────────
+
+  private async reconcile(
+    year: number,
+    engine: Modelo100Engine,
+    exportNet: number,
+    exportCapital: number,
+    deferredLoss: number,
+  ): Promise<Modelo100Reconciliation> {
+    const [finStatus, stakingQ] = await Promise.all([
+      new FiscoValidationService(this.pool).getFinalizationStatus(year),
+      this.pool.query(`
+        SELECT COALESCE(SUM(fo.total_eur::numeric), 0) AS total
+        FROM fisco_operations fo
+        WHERE fo.op_type IN ('staking','reward','distribution')
+          AND EXTRACT(YEAR FROM fo.executed_at) = $1
+      `, [year]),
+    ]);
+
+    const annual = {
+      ordinary_fifo_gain_loss_eur: finStatus.ordinary_fifo_gain_loss_eur,
+      conservative_external_disposals_gain_loss_eur: finStatus.conservative_external_disposals_gain_loss_eur,
+      final_taxable_gain_loss_eur: finStatus.final_taxable_gain_loss_eur,
+      staking_total_eur: round2(parseFloat(stakingQ.rows[0]?.total ?? "0")),
+    };
+    const diffGainLoss = round2(exportNet - annual.final_taxable_gain_loss_eur);
+    const diffCapital = round2(exportCapital - annual.staking_total_eur);
+
+    const notes: string[] = [];
+    if (Math.abs(diffGainLoss) > RECONCILIATION_TOLERANCE_EUR) {
+      notes.push(engine === "v2_official"
+        ? `Resultado V2 difiere del resumen anual (fisco_disposals) en ${diffGainLoss.toFixed(2)} €: reconstruir FIFO legacy o revisar la comparación Legacy vs V2`
+        : `Resultado del export difiere del resumen anual en ${diffGainLoss.toFixed(2)} €`);
+    }
+    if (deferredLoss > 0) {
+      notes.push(`${deferredLoss.toFixed(2)} € de pérdidas no computables por recompra (art. 33.5.f LIRPF) excluidas del resultado`);
+    }
+    if (Math.abs(diffCapital) > RECONCILIATION_TOLERANCE_EUR) {
+      notes.push(`Rendimientos de staking difieren del resumen anual en ${diffCapital.toFixed(2)} €`);
+    }
+
+    return {
+      status: Math.abs(diffGainLoss) > RECONCILIATION_TOLERANCE_EUR || Math.abs(diffCapital) > RECONCILIATION_TOLERANCE_EUR
+        ? "DIFFERENCES"
+        : "OK",
+      annual_summary: annual,
+      export_net_gain_loss_eur: exportNet,
+      export_capital_income_eur: exportCapital,
+      diff_gain_loss_eur: diffGainLoss,
+      diff_capital_income_eur: diffCapital,
+      notes,
+    };
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * FiscoModelo721Service — Modelo 721: declaración informativa sobre monedas
+ * virtuales situadas en el extranjero (Orden HFP/886/2023).
+ *
+ * Flujo:
+ *   1. Saldos a 31/12 por (asset, exchange) — FiscoInventorySnapshotService
+ *   2. Solo custodios extranjeros (FOREIGN_CUSTODIANS); el resto se excluye con aviso
+ *   3. Valoración a precio de mercado del 31/12 (getCryptoEurPriceHistorical)
+ *   4. Obligación de declarar:
+ *        - sin presentación previa: valor conjunto > 50.000 €
+ *        - con presentación previa: incremento > 20.000 € respecto a la última
+ *          declaración, o extinción de alguna posición ya declarada
+ *   5. Fichero de ancho fijo (registros de 500 posiciones) + resumen legible
+ *
+ * El diseño de registro replica el publicado por la AEAT para el modelo 721;
+ * validar siempre el fichero con el servicio de prevalidación de la Sede
+ * antes de presentarlo.
+ *
+ * INVARIANTS: solo lectura salvo recordFiling(), que guarda la presentación
+ * en fisco_modelo721_filings para calcular el incremento del año siguiente.
+ */
+
+import type { Pool } from "pg";
+import { FiscoInventorySnapshotService, type CustodyBalanceRow } from "./FiscoInventorySnapshotService";
+import { getCryptoEurPriceHistorical } from "./eur-rates";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const MODELO721_THRESHOLD_EUR = 50_000;
+export const MODELO721_INCREASE_THRESHOLD_EUR = 20_000;
+export const MODELO721_RECORD_LENGTH = 500;
+
+export interface ForeignCustodian {
+  exchange: string;
+  name: string;
+  countryCode: string;      // ISO 3166-1 alpha-2
+  taxId: string;            // identificación fiscal en el país de residencia
+}
+
+/** Entidades que custodian las monedas virtuales fuera de España */
+export const FOREIGN_CUSTODIANS: Record<string, ForeignCustodian> = {
+  kraken: { exchange: "kraken", name: "Payward Ireland Limited", countryCode: "IE", taxId: "" },
+  revolutx: { exchange: "revolutx", name: "Revolut Digital Assets Europe Ltd", countryCode: "CY", taxId: "" },
+  binance: { exchange: "binance", name: "Binance Holdings Limited", countryCode: "KY", taxId: "" },
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type Modelo721Origin = "A" | "M" | "C";   // Alta, Modificación (ya declarado), Cancelación
+
+export interface Modelo721Position {
+  asset: string;
+  exchange: string;
+  custodian: ForeignCustodian;
+  quantity: number;
+  priceEur: number | null;
+  valueEur: number;
+  origin: Modelo721Origin;
+  firstAcquiredAt: string | null;
+  extinguishedAt: string | null;
+}
+
+export interface Modelo721FilingRecord {
+  year: number;
+  totalValueEur: number;
+  positions: Array<{ asset: string; exchange: string; quantity: number; valueEur: number }>;
+  declarationId: string | null;
+  filedAt: string;
+}
+
+export interface Modelo721Summary {
+  year: number;
+  generatedAt: string;
+  valuationDate: string;
+  thresholdEur: number;
+  increaseThresholdEur: number;
+  positions: Modelo721Position[];
+  custodians: Array<{ exchange: string; name: string; countryCode: string; valueEur: number; positions: number }>;
+  totalValueEur: number;
+  previousFiling: Modelo721FilingRecord | null;
+  increaseVsPreviousEur: number | null;
+  obligated: boolean;
+  obligationReason: string;
+  excluded: Array<{ asset: string; exchange: string; quantity: number; reason: string }>;
+  warnings: string[];
+}
+
+export interface Modelo721Declarant {
+  nif: string;
+  name: string;
+  phone?: string;
+  contactName?: string;
+  declarationId?: string;
+  complementary?: boolean;
+  substitutive?: boolean;
+  previousDeclarationId?: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function positionKey(asset: string, exchange: string): string {
+  return `${exchange}:${asset}`;
+}
+
+function yyyymmdd(iso: string | null): string {
+  return iso ? iso.slice(0, 10).replace(/-/g, "") : "";
+}
+
+/** Alfanumérico AEAT: mayúsculas, sin acentos (conserva Ñ), ajustado a la izquierda con blancos */
+function alpha(value: string | undefined | null, length: number): string {
+  const clean = (value ?? "")
+    .toUpperCase()
+    .replace(/Ñ/g, "\u0000")
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/\u0000/g, "Ñ")
+    .replace(/[^A-Z0-9Ñ .,\-&/]/g, " ");
+  return clean.slice(0, length).padEnd(length, " ");
+}
+
+/** Numérico AEAT: ceros a la izquierda, sin signo ni separadores */
+function num(value: number, length: number): string {
+  return String(Math.max(0, Math.round(value))).slice(-length).padStart(length, "0");
+}
+
+function digits(value: string | undefined, length: number): string {
+  return (value ?? "").replace(/\D/g, "").slice(-length).padStart(length, "0");
+}
+
+/** Importe sin signo con N decimales implícitos */
+function amount(value: number, intDigits: number, decDigits: number): string {
+  const [int, dec = ""] = Math.abs(value).toFixed(decDigits).split(".");
+  return int.slice(-intDigits).padStart(intDigits, "0") + dec;
+}
+
+function writeFields(fields: Array<[number, string]>): string {
+  const chars = new Array(MODELO721_RECORD_LENGTH).fill(" ");
+  for (const [start, value] of fields) {
+    for (let i = 0; i < value.length; i++) chars[start - 1 + i] = value[i];
+  }
+  return chars.join("");
+}
+
+// ─── Pure builders (testables sin BD) ─────────────────────────────────────────
+
+/**
+ * Decide la obligación de declarar y el origen (A/M/C) de cada posición.
+ * `balances` ya debe venir filtrado a custodios extranjeros y valorado.
+ */
+export function evaluateModelo721(
+  year: number,
+  balances: Array<{ row: CustodyBalanceRow; priceEur: number | null }>,
+  previousFiling: Modelo721FilingRecord | null,
+): Pick<Modelo721Summary, "positions" | "totalValueEur" | "increaseVsPreviousEur" | "obligated" | "obligationReason"> {
+  const previousKeys = new Set((previousFiling?.positions ?? []).map(p => positionKey(p.asset, p.exchange)));
+  const positions: Modelo721Position[] = [];
+
+  for (const { row, priceEur } of balances) {
+    const custodian = FOREIGN_CUSTODIANS[row.exchange];
+    const key = positionKey(row.asset, row.exchange);
+    const declaredBefore = previousKeys.has(key);
+
+    if (row.closingQtyAsOfYearEnd <= 0) {
+      // Solo interesa un saldo 0 si la posición se declaró antes: es una extinción
+      if (declaredBefore) {
+        positions.push({
+          asset: row.asset, exchange: row.exchange, custodian,
+          quantity: 0, priceEur, valueEur: 0, origin: "C",
+          firstAcquiredAt: row.firstAcquiredAt,
+          extinguishedAt: row.lastMovementAt,
+        });
+      }
+      continue;
+    }
+
+    positions.push({
+      asset: row.asset, exchange: row.exchange, custodian,
+      quantity: row.closingQtyAsOfYearEnd,
+      priceEur,
+      valueEur: priceEur !== null ? round2(row.closingQtyAsOfYearEnd * priceEur) : 0,
+      origin: declaredBefore ? "M" : "A",
+      firstAcquiredAt: row.firstAcquiredAt,
+      extinguishedAt: null,
+    });
+  }
+
+  // Posiciones declaradas que ya no aparecen en ningún saldo
+  const seen = new Set(positions.map(p => positionKey(p.asset, p.exchange)));
+  for (const prev of previousFiling?.positions ?? []) {
+    const custodian = FOREIGN_CUSTODIANS[prev.exchange];
+    if (!custodian || seen.has(positionKey(prev.asset, prev.exchange))) continue;
+    positions.push({
+      asset: prev.asset, exchange: prev.exchange, custodian,
+      quantity: 0, priceEur: null, valueEur: 0, origin: "C",
+      firstAcquiredAt: null, extinguishedAt: null,
+    });
+  }
+
+  const totalValueEur = round2(positions.reduce((s, p) => s + p.valueEur, 0));
+  const cancelled = positions.filter(p => p.origin === "C").length;
+
+  let obligated: boolean;
+  let obligationReason: string;
+  let increaseVsPreviousEur: number | null = null;
+
+  if (!previousFiling) {
+    obligated = totalValueEur > MODELO721_THRESHOLD_EUR;
+    obligationReason = obligated
+      ? `Valor conjunto a 31/12/${year} (${totalValueEur.toFixed(2)} €) supera ${MODELO721_THRESHOLD_EUR} €`
+      : `Valor conjunto a 31/12/${year} (${totalValueEur.toFixed(2)} €) no supera ${MODELO721_THRESHOLD_EUR} € y no hay presentaciones previas`;
+  } else {
+    increaseVsPreviousEur = round2(totalValueEur - previousFiling.totalValueEur);
+    const increased = increaseVsPreviousEur > MODELO721_INCREASE_THRESHOLD_EUR;
+    obligated = increased || cancelled > 0;
+    if (increased) {
+      obligationReason = `Incremento de ${increaseVsPreviousEur.toFixed(2)} € respecto a la declaración de ${previousFiling.year} (> ${MODELO721_INCREASE_THRESHOLD_EUR} €)`;
+    } else if (cancelled > 0) {
+      obligationReason = `${cancelled} posición(es) declarada(s) en ${previousFiling.year} se han extinguido durante ${year}`;
+    } else {
+      obligationReason = `Incremento de ${increaseVsPreviousEur.toFixed(2)} € respecto a la declaración de ${previousFiling.year} no supera ${MODELO721_INCREASE_THRESHOLD_EUR} € y no hay extinciones`;
+    }
+  }
+
+  return { positions, totalValueEur, increaseVsPreviousEur, obligated, obligationReason };
+}
+
+/**
+ * Genera el fichero de presentación: un registro tipo 1 (declarante) y un
+ * registro tipo 2 por posición. Registros de 500 caracteres separados por CRLF.
+ */
+export function buildModelo721File(summary: Modelo721Summary, declarant: Modelo721Declarant): string {
+  const year = String(summary.year);
+  const nif = alpha(declarant.nif, 9);
+  const total = summary.positions.reduce((s, p) => s + p.valueEur, 0);
+
+  const type1 = writeFields([
+    [1, "1"],
+    [2, "721"],
+    [5, year],
+    [9, nif],
+    [18, alpha(declarant.name, 40)],
+    [58, "T"],
+    [59, digits(declarant.phone, 9)],
+    [68, alpha(declarant.contactName ?? declarant.name, 40)],
+    [108, digits(declarant.declarationId, 13)],
+    [121, declarant.complementary ? "C" : " "],
+    [122, declarant.substitutive ? "S" : " "],
+    [123, digits(declarant.previousDeclarationId, 13)],
+    [136, num(summary.positions.length, 9)],
+    [145, total < 0 ? "N" : " "],
+    [146, amount(total, 15, 2)],
+  ]);
+
+  const type2 = summary.positions.map(p => writeFields([
+    [1, "2"],
+    [2, "721"],
+    [5, year],
+    [9, nif],
+    [18, nif],                                   // declarado = declarante (titular persona física)
+    [36, alpha(declarant.name, 40)],
+    [76, "1"],                                   // condición: titular
+    [102, "V"],                                  // clave de bien: moneda virtual
+    [103, alpha(p.asset, 20)],
+    [123, alpha(p.asset, 40)],
+    [163, alpha(p.custodian.taxId, 20)],
+    [183, alpha(p.custodian.name, 40)],
+    [223, alpha(p.custodian.countryCode, 2)],
+    [265, yyyymmdd(p.firstAcquiredAt).padEnd(8, "0")],
+    [273, p.origin],
+    [274, yyyymmdd(p.origin === "C" ? p.extinguishedAt : null).padEnd(8, "0")],
+    [282, p.valueEur < 0 ? "N" : " "],
+    [283, amount(p.valueEur, 12, 2)],
+    [297, p.quantity < 0 ? "N" : " "],
+    [298, amount(p.quantity, 12, 10)],
+    [320, "10000"],                              // porcentaje de participación 100,00
+  ]));
+
+  return [type1, ...type2].join("\r\n") + "\r\n";
+}
+
+/** Resumen en texto plano para adjuntar al expediente */
+export function renderModelo721SummaryText(summary: Modelo721Summary): string {
+  const eur = (n: number) => `${n.toFixed(2)} EUR`;
+  const lines: string[] = [
+    `MODELO 721 — Ejercicio ${summary.year}`,
+    `Valoración a ${summary.valuationDate} · generado ${summary.generatedAt}`,
+    "",
+    `Valor conjunto en custodios extranjeros: ${eur(summary.totalValueEur)}`,
+    summary.previousFiling
+      ? `Última declaración: ${summary.previousFiling.year} (${eur(summary.previousFiling.totalValueEur)}) · incremento ${eur(summary.increaseVsPreviousEur ?? 0)}`
+      : "Sin declaraciones previas registradas",
+    `Obligado a presentar: ${summary.obligated ? "SÍ" : "NO"} — ${summary.obligationReason}`,
+    "",
+    "Custodio | País | Activo | Cantidad | Precio 31/12 | Valor EUR | Origen",
+  ];
+  for (const p of summary.positions) {
+    lines.push([
+      p.custodian.name, p.custodian.countryCode, p.asset,
+      p.quantity.toFixed(8),
+      p.priceEur !== null ? p.priceEur.toFixed(2) : "—",
+      p.valueEur.toFixed(2),
+      p.origin,
+    ].join(" | "));
+  }
+  if (summary.excluded.length > 0) {
+    lines.push("", "Excluidos (no custodiados en el extranjero):");
+    for (const x of summary.excluded) lines.push(`  ${x.exchange} ${x.asset} ${x.quantity.toFixed(8)} — ${x.reason}`);
+  }
+  if (summary.warnings.length > 0) {
+    lines.push("", "Avisos:");
+    for (const w of summary.warnings) lines.push(`  - ${w}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class FiscoModelo721Service {
+  constructor(private readonly pool: Pool) {}
+
+  async buildSummary(year: number): Promise<Modelo721Summary> {
+    const valuationDate = new Date(Date.UTC(year, 11, 31));
+    const warnings: string[] = [];
+    const excluded: Modelo721Summary["excluded"] = [];
+
+    const rows = await new FiscoInventorySnapshotService(this.pool).getYearEndCustodyBalances(year);
+    const previousFiling = await this.getPreviousFiling(year);
+
+    const balances: Array<{ row: CustodyBalanceRow; priceEur: number | null }> = [];
+    for (const row of rows) {
+      if (!FOREIGN_CUSTODIANS[row.exchange]) {
+        if (row.closingQtyAsOfYearEnd !== 0) {
+          excluded.push({ asset: row.asset, exchange: row.exchange, quantity: row.closingQtyAsOfYearEnd, reason: "Custodio no configurado como extranjero" });
+        }
+        continue;
+      }
+      if (row.closingQtyAsOfYearEnd < 0) {
+        warnings.push(`${row.asset} en ${row.exchange}: saldo negativo a 31/12 (${row.closingQtyAsOfYearEnd}) — revisar operaciones importadas`);
+        balances.push({ row: { ...row, closingQtyAsOfYearEnd: 0 }, priceEur: null });
+        continue;
+      }
+      let priceEur: number | null = null;
+      if (row.closingQtyAsOfYearEnd > 0) {
+        priceEur = await getCryptoEurPriceHistorical(row.asset, valuationDate);
+        if (priceEur === null) {
+          warnings.push(`${row.asset} en ${row.exchange}: sin precio de mercado a 31/12/${year}, valorado a 0`);
+        }
+      }
+      balances.push({ row, priceEur });
+    }
+
+    const evaluation = evaluateModelo721(year, balances, previousFiling);
+    for (const p of evaluation.positions) {
+      if (p.origin === "C") {
+        warnings.push(`${p.asset} en ${p.exchange}: extinguido en ${year}; indicar la valoración a la fecha de extinción antes de presentar`);
+      }
+    }
+
+    const byCustodian = new Map<string, Modelo721Summary["custodians"][number]>();
+    for (const p of evaluation.positions) {
+      const entry = byCustodian.get(p.exchange) ?? {
+        exchange: p.exchange, name: p.custodian.name, countryCode: p.custodian.countryCode, valueEur: 0, positions: 0,
+      };
+      entry.valueEur = round2(entry.valueEur + p.valueEur);
+      entry.positions += 1;
+      byCustodian.set(p.exchange, entry);
+    }
+
+    return {
+      year,
+      generatedAt: new Date().toISOString(),
+      valuationDate: valuationDate.toISOString().slice(0, 10),
+      thresholdEur: MODELO721_THRESHOLD_EUR,
+      increaseThresholdEur: MODELO721_INCREASE_THRESHOLD_EUR,
+      ...evaluation,
+      custodians: Array.from(byCustodian.values()),
+      previousFiling,
+      excluded,
+      warnings,
+    };
+  }
+
+  async getPreviousFiling(year: number): Promise<Modelo721FilingRecord | null> {
+    try {
+      const q = await this.pool.query(
+        `SELECT * FROM fisco_modelo721_filings WHERE fiscal_year < $1 ORDER BY fiscal_year DESC LIMIT 1`,
+        [year]
+      );
+      return q.rows[0] ? this.toFilingRecord(q.rows[0]) : null;
+    } catch (e: any) {
+      console.warn(`[fisco/modelo721] fisco_modelo721_filings no disponible: ${e.message}`);
+      return null;
+    }
+  }
+
+  async listFilings(): Promise<Modelo721FilingRecord[]> {
+    const q = await this.pool.query(`SELECT * FROM fisco_modelo721_filings ORDER BY fiscal_year DESC`);
+    return q.rows.map((r: any) => this.toFilingRecord(r));
+  }
+
+  /**
+   * Registra la presentación del ejercicio con la valoración actual. Es la
+   * referencia para el umbral de incremento de los años siguientes.
+   */
+  async recordFiling(year: number, opts: { declarationId?: string | null; filedAt?: string | null } = {}): Promise<Modelo721FilingRecord> {
+    const summary = await this.buildSummary(year);
+    const positions = summary.positions
+      .filter(p => p.origin !== "C")
+      .map(p => ({ asset: p.asset, exchange: p.exchange, quantity: p.quantity, valueEur: p.valueEur }));
+
+    const q = await this.pool.query(
+      `INSERT INTO fisco_modelo721_filings (fiscal_year, total_value_eur, positions, declaration_id, filed_at)
+       VALUES ($1, $2, $3::jsonb, $4, COALESCE($5::timestamptz, NOW()))
+       ON CONFLICT (fiscal_year) DO UPDATE SET
+         total_value_eur = EXCLUDED.total_value_eur,
+         positions = EXCLUDED.positions,
+         declaration_id = EXCLUDED.declaration_id,
+         filed_at = EXCLUDED.filed_at
+       RETURNING *`,
+      [year, summary.totalValueEur, JSON.stringify(positions), opts.declarationId ?? null, opts.filedAt ?? null]
+    );
+    return this.toFilingRecord(q.rows[0]);
+  }
+
+  private toFilingRecord(row: any): Modelo721FilingRecord {
+    return {
+      year: Number(row.fiscal_year),
+      totalValueEur: parseFloat(row.total_value_eur),
+      positions: typeof row.positions === "string" ? JSON.parse(row.positions) : (row.positions ?? []),
+      declarationId: row.declaration_id ?? null,
+      filedAt: row.filed_at ? new Date(row.filed_at).toISOString() : new Date(0).toISOString(),
+    };
+  }
+}
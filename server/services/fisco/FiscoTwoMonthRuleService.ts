@@ -0,0 +1,122 @@
+/**
+ * FiscoTwoMonthRuleService — Carga histórica V2 y pérdidas diferidas por la
+ * regla de los dos meses (art. 33.5.f LIRPF).
+ *
+ * La pérdida de una transmisión no es computable si se adquieren activos
+ * homogéneos en los dos meses anteriores o posteriores. El cálculo lo hace
+ * runFifoV2; aquí se cargan las operaciones (hasta 31/12/Y + dos meses de
+ * compras look-ahead para detectar recompras de enero/febrero) y se exponen
+ * las pérdidas diferidas para informes HTML y CSV.
+ *
+ * INVARIANTS: pure read — never modifies any table.
+ */
+
+import type { Pool } from "pg";
+import { normalizeToV2Events } from "./FiscoV2Normalizer";
+import { runFifoV2 } from "./FiscoV2EngineService";
+import { TWO_MONTH_RULE_MONTHS, type FeeMode, type V2Event, type V2EngineResult, type V2LossDeferral } from "./FiscoV2Types";
+
+export interface V2HistoricalEvents {
+  /** fisco_operations con executed_at < 01/01/(Y+1) */
+  opsRows: any[];
+  /** fisco_opening_balances convertidos a trade_buy sintéticos */
+  openingBalanceOps: any[];
+  events: V2Event[];
+  /** Compras de los dos primeros meses de Y+1 (solo para detectar recompras) */
+  lookaheadAcquisitions: V2Event[];
+}
+
+/**
+ * Load ALL operations up to 31/12/Y plus active opening balances, normalized
+ * to V2 events, and the purchases of the following two months.
+ */
+export async function loadV2HistoricalEvents(db: Pool, year: number, feeMode: FeeMode): Promise<V2HistoricalEvents> {
+  const yearEnd = `${year + 1}-01-01`;
+  const lookaheadEnd = new Date(Date.UTC(year + 1, TWO_MONTH_RULE_MONTHS, 1)).toISOString().split("T")[0];
+
+  const opsResult = await db.query(
+    "SELECT * FROM fisco_operations WHERE executed_at < $1 ORDER BY executed_at",
+    [yearEnd]
+  );
+
+  let openingBalancesRows: any[] = [];
+  try {
+    const obResult = await db.query(
+      "SELECT * FROM fisco_opening_balances WHERE is_active = TRUE ORDER BY acquisition_date ASC"
+    );
+    openingBalancesRows = obResult.rows;
+  } catch {
+    // Table may not exist in some environments
+    openingBalancesRows = [];
+  }
+
+  // Convert opening balances to synthetic DbOperation-like rows (trade_buy)
+  const openingBalanceOps = openingBalancesRows.map((row: any) => ({
+    id: -row.id || -(Date.now() + Math.random()),
+    exchange: row.exchange ?? "manual",
+    external_id: `opening_balance_${row.id}`,
+    op_type: "trade_buy",
+    asset: row.asset,
+    amount: String(row.quantity),
+    price_eur: row.quantity > 0 ? String(parseFloat(row.cost_basis_eur) / parseFloat(row.quantity)) : "0",
+    total_eur: String(row.cost_basis_eur),
+    fee_eur: "0",
+    counter_asset: "EUR",
+    pair: `${row.asset}/EUR`,
+    executed_at: new Date(row.acquisition_date),
+    raw_data: { source: "opening_balance", note: row.note },
+  }));
+
+  let lookaheadRows: any[] = [];
+  try {
+    const laResult = await db.query(
+      "SELECT * FROM fisco_operations WHERE executed_at >= $1 AND executed_at < $2 ORDER BY executed_at",
+      [yearEnd, lookaheadEnd]
+    );
+    lookaheadRows = laResult.rows;
+  } catch (e: any) {
+    console.warn(`[fisco/two-month-rule] look-ahead ${year + 1} no disponible: ${e.message}`);
+  }
+
+  const events = normalizeToV2Events([...openingBalanceOps, ...opsResult.rows], feeMode);
+  const lookaheadAcquisitions = normalizeToV2Events(lookaheadRows, feeMode).filter(e => e.event_type === "BUY");
+
+  return { opsRows: opsResult.rows, openingBalanceOps, events, lookaheadAcquisitions };
+}
+
+async function readFeeMode(db: Pool): Promise<FeeMode> {
+  try {
+    const q = await db.query("SELECT value FROM fisco_config WHERE key = 'fee_mode'");
+    const value = q.rows[0]?.value;
+    return value === "EXPLICIT_DISPOSAL" ? "EXPLICIT_DISPOSAL" : "AEAT_INTEGRATED_TRACEABLE";
+  } catch {
+    return "AEAT_INTEGRATED_TRACEABLE";
+  }
+}
+
+export function lossDeferralsForYear(result: V2EngineResult, year: number, exchanges?: string[]): V2LossDeferral[] {
+  const allowed = (exchanges || []).filter(e => e !== "all" && e !== "global");
+  return result.loss_deferrals.filter(d =>
+    d.disposed_at.getFullYear() === year &&
+    (allowed.length === 0 || allowed.includes(d.exchange))
+  );
+}
+
+/**
+ * Pérdidas diferidas de los años pedidos. FIFO se calcula siempre global
+ * (todos los exchanges); el filtro de exchange solo afecta a qué ventas se listan.
+ */
+export async function computeLossDeferrals(
+  db: Pool,
+  years: number[],
+  exchanges?: string[]
+): Promise<V2LossDeferral[]> {
+  const feeMode = await readFeeMode(db);
+  const out: V2LossDeferral[] = [];
+  for (const year of [...years].sort((a, b) => a - b)) {
+    const { events, lookaheadAcquisitions } = await loadV2HistoricalEvents(db, year, feeMode);
+    const result = runFifoV2(events, { lookaheadAcquisitions });
+    out.push(...lossDeferralsForYear(result, year, exchanges));
+  }
+  return out;
+}
@@ -8,6 +8,9 @@
  * - Rewards: crea lote con valor EUR fiscal
  * - Fee explícita: consume FIFO del activo usado para pagar
  * - Determinista: orden estable por executed_at, external_id, id
+ * - Regla de los dos meses (art. 33.5.f LIRPF): la pérdida de una venta no es
+ *   computable en la parte recomprada dentro de ±2 meses; se difiere y se
+ *   integra en el coste de los lotes de reposición hasta que éstos se vendan
  *
  * Criterio comisiones: AEAT_INTEGRATED_TRACEABLE
  */
@@ -23,7 +26,9 @@ import type {
   FeeEvent,
   V2AuditEntry,
   FeeTreatment,
+  V2LossDeferral,
 } from "./FiscoV2Types";
+import { TWO_MONTH_RULE_MONTHS } from "./FiscoV2Types";
 import { detectFeeDoubleCount } from "./FiscoV2Normalizer";
 
 const FIFO_STABLES = new Set(["USDC", "USDT", "USDE", "DAI", "BUSD"]);
@@ -33,12 +38,32 @@ function isFiat(a: string): boolean {
   return FIAT_ASSETS.has(a.toUpperCase());
 }
 
+function addMonthsUtc(date: Date, months: number): Date {
+  const d = new Date(date.getTime());
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d;
+}
+
+interface PendingLossDeferral {
+  deferral: V2LossDeferral;
+  disposal: V2Disposal;
+  remaining_qty: number;
+  loss_per_unit_eur: number;
+}
+
 export function runFifoV2(
   events: V2Event[],
   options?: {
     transferCarryovers?: V2TransferCarryover[];
     blockIfRewardWithoutPrice?: boolean;
     blockIfSellWithoutCostBasis?: boolean;
+    /** Art. 33.5.f LIRPF. Activa por defecto; false solo para diagnóstico. */
+    applyTwoMonthRule?: boolean;
+    /**
+     * Compras posteriores al último evento procesado (p.ej. enero-febrero de Y+1
+     * al calcular Y). Solo sirven para detectar recompras; no crean lotes.
+     */
+    lookaheadAcquisitions?: V2Event[];
   }
 ): V2EngineResult {
   const lots: V2Lot[] = [];
@@ -87,6 +112,90 @@ export function runFifoV2(
   let lotCounter = 0;
   let disposalCounter = 0;
 
+  // ── Regla de los dos meses ──
+  const applyTwoMonthRule = options?.applyTwoMonthRule !== false;
+  const purchaseLotIds = new Set<string>();
+  const replacementQtyUsed = new Map<string, number>();  // lot/event id → cantidad ya usada como reposición
+  const carriedLossByLot = new Map<string, number>();    // v2_lot_id → pérdida diferida pendiente de integrar
+  const lossCandidates: PendingLossDeferral[] = [];
+
+  const deferLoss = (
+    p: PendingLossDeferral,
+    quantity: number,
+    replacement: { v2_lot_id: string | null; source_operation_id: number; acquired_at: Date }
+  ): number => {
+    const amount = p.loss_per_unit_eur * quantity;
+    p.remaining_qty -= quantity;
+    p.disposal.gain_loss_eur += amount;
+    p.disposal.deferred_loss_eur = (p.disposal.deferred_loss_eur ?? 0) + amount;
+    p.deferral.deferred_loss_eur += amount;
+    p.deferral.deferred_quantity += quantity;
+    p.deferral.replacements.push({ ...replacement, quantity, deferred_loss_eur: amount });
+    auditTrail.push({
+      step: "two_month_rule",
+      event_id: p.disposal.source_event_id,
+      action: `Deferred ${amount.toFixed(2)} EUR loss of ${p.disposal.v2_disposal_id} (${quantity.toFixed(8)} ${p.disposal.asset})`,
+      detail: `replacement=${replacement.v2_lot_id ?? `op ${replacement.source_operation_id}`}, acquired_at=${replacement.acquired_at.toISOString()}`,
+      timestamp: new Date().toISOString(),
+    });
+    return amount;
+  };
+
+  const carryIntoLot = (lot: V2Lot, amount: number) => {
+    carriedLossByLot.set(lot.v2_lot_id, (carriedLossByLot.get(lot.v2_lot_id) ?? 0) + amount);
+    lot.deferred_loss_carried_eur = (lot.deferred_loss_carried_eur ?? 0) + amount;
+  };
+
+  // Pérdida nueva: busca recompras en los dos meses anteriores que sigan en cartera
+  const registerLoss = (d: V2Disposal) => {
+    d.loss_before_deferral_eur = d.gain_loss_eur;
+    d.deferred_loss_eur = 0;
+    const p: PendingLossDeferral = {
+      deferral: {
+        v2_disposal_id: d.v2_disposal_id,
+        sell_operation_id: d.sell_operation_id,
+        asset: d.asset,
+        exchange: d.exchange,
+        disposed_at: d.executed_at,
+        quantity_disposed: d.quantity_disposed,
+        loss_before_deferral_eur: d.gain_loss_eur,
+        deferred_loss_eur: 0,
+        deferred_quantity: 0,
+        window_start: addMonthsUtc(d.executed_at, -TWO_MONTH_RULE_MONTHS),
+        window_end: addMonthsUtc(d.executed_at, TWO_MONTH_RULE_MONTHS),
+        replacements: [],
+      },
+      disposal: d,
+      remaining_qty: d.quantity_disposed,
+      loss_per_unit_eur: -d.gain_loss_eur / d.quantity_disposed,
+    };
+    lossCandidates.push(p);
+
+    for (const lot of openLotsByAsset.get(d.asset) ?? []) {
+      if (p.remaining_qty <= 1e-10) break;
+      if (!purchaseLotIds.has(lot.v2_lot_id)) continue;
+      if (lot.acquired_at < p.deferral.window_start || lot.acquired_at > d.executed_at) continue;
+      const used = replacementQtyUsed.get(lot.v2_lot_id) ?? 0;
+      const qty = Math.min(p.remaining_qty, lot.quantity_remaining - used);
+      if (qty <= 1e-10) continue;
+      replacementQtyUsed.set(lot.v2_lot_id, used + qty);
+      carryIntoLot(lot, deferLoss(p, qty, lot));
+    }
+  };
+
+  // Compra nueva: cubre pérdidas previas cuya ventana de dos meses sigue abierta
+  const absorbPendingLosses = (lot: V2Lot) => {
+    for (const p of lossCandidates) {
+      if (p.disposal.asset !== lot.asset || p.remaining_qty <= 1e-10) continue;
+      if (lot.acquired_at > p.deferral.window_end) continue;
+      const used = replacementQtyUsed.get(lot.v2_lot_id) ?? 0;
+      const qty = Math.min(p.remaining_qty, lot.quantity_acquired - used);
+      if (qty <= 1e-10) break;
+      replacementQtyUsed.set(lot.v2_lot_id, used + qty);
+      carryIntoLot(lot, deferLoss(p, qty, lot));
+    }
+  };
+
   const addBlocker = (
     code: V2BlockerCode,
     evt: V2Event,
@@ -172,6 +281,12 @@ export function runFifoV2(
       openLotsByAsset.set(evt.asset, assetLots);
       inventoryByAsset.set(evt.asset, (inventoryByAsset.get(evt.asset) || 0) + evt.quantity);
 
+      // Only onerous purchases (incl. the BUY leg of a swap) count as repurchases
+      if (evt.event_type === "BUY") {
+        purchaseLotIds.add(lot.v2_lot_id);
+        if (applyTwoMonthRule) absorbPendingLosses(lot);
+      }
+
       // Record fee event
       if (directFee > 0) {
         feeEvents.push({
@@ -225,6 +340,7 @@ export function runFifoV2(
       let remainingToSell = evt.quantity;
       const assetLots = openLotsByAsset.get(evt.asset) || [];
       const lotsConsumed: { v2_lot_id: string; quantity: number; cost_basis_eur: number }[] = [];
+      const eventDisposals: V2Disposal[] = [];
 
       let totalCostBasis = 0;
       let totalProceeds = 0;
@@ -233,7 +349,13 @@ export function runFifoV2(
         const lot = assetLots[0];
         const consumed = Math.min(remainingToSell, lot.quantity_remaining);
         const proportion = lot.quantity_acquired > 0 ? consumed / lot.quantity_acquired : 0;
-        const lotCostBasis = lot.acquisition_value_eur * proportion;
+        // Deferred losses carried by the lot are integrated pro rata as it is sold
+        const carriedLoss = carriedLossByLot.get(lot.v2_lot_id) ?? 0;
+        const releasedLoss = carriedLoss > 0 && lot.quantity_remaining > 0
+          ? carriedLoss * (consumed / lot.quantity_remaining)
+          : 0;
+        if (releasedLoss > 0) carriedLossByLot.set(lot.v2_lot_id, carriedLoss - releasedLoss);
+        const lotCostBasis = lot.acquisition_value_eur * proportion + releasedLoss;
         const proceedsEur = (transmissionValue / evt.quantity) * consumed;
 
         const gainLoss = proceedsEur - lotCostBasis;
@@ -254,8 +376,10 @@ export function runFifoV2(
           executed_at: evt.executed_at,
           exchange: evt.exchange,
         };
+        if (releasedLoss > 0) disposal.released_deferred_loss_eur = releasedLoss;
 
         disposals.push(disposal);
+        eventDisposals.push(disposal);
         lotsConsumed.push({ v2_lot_id: lot.v2_lot_id, quantity: consumed, cost_basis_eur: lotCostBasis });
 
         lot.quantity_remaining -= consumed;
@@ -269,6 +393,13 @@ export function runFifoV2(
         }
       }
 
+      // Evaluated after all slices so lots consumed by this same sale never count as repurchase
+      if (applyTwoMonthRule) {
+        for (const d of eventDisposals) {
+          if (d.gain_loss_eur < -1e-8 && d.quantity_disposed > 1e-10) registerLoss(d);
+        }
+      }
+
       // Update inventory
       const newInv = (inventoryByAsset.get(evt.asset) || 0) - evt.quantity;
       inventoryByAsset.set(evt.asset, newInv);
@@ -443,6 +574,38 @@ export function runFifoV2(
     }
   }
 
+  // Pérdidas con ventana abierta al final del rango: recompras en look-ahead
+  if (applyTwoMonthRule && lossCandidates.length > 0) {
+    const lookahead = [...(options?.lookaheadAcquisitions ?? [])]
+      .filter(e => e.event_type === "BUY" && !isFiat(e.asset))
+      .sort((a, b) => a.executed_at.getTime() - b.executed_at.getTime());
+    for (const p of lossCandidates) {
+      for (const evt of lookahead) {
+        if (p.remaining_qty <= 1e-10) break;
+        if (evt.asset !== p.disposal.asset || evt.executed_at <= p.disposal.executed_at) continue;
+        if (evt.executed_at > p.deferral.window_end) continue;
+        const used = replacementQtyUsed.get(evt.event_id) ?? 0;
+        const qty = Math.min(p.remaining_qty, evt.quantity - used);
+        if (qty <= 1e-10) continue;
+        replacementQtyUsed.set(evt.event_id, used + qty);
+        deferLoss(p, qty, { v2_lot_id: null, source_operation_id: evt.source_operation_id, acquired_at: evt.executed_at });
+      }
+    }
+
+    const lastKnown = Math.max(
+      sortedEvents.length > 0 ? sortedEvents[sortedEvents.length - 1].executed_at.getTime() : 0,
+      ...lookahead.map(e => e.executed_at.getTime())
+    );
+    for (const p of lossCandidates) {
+      if (p.remaining_qty > 1e-10 && p.deferral.window_end.getTime() > lastKnown) {
+        warnings.push(
+          `Pérdida de ${p.disposal.asset} (${p.disposal.v2_disposal_id}) con ventana de recompra abierta hasta ` +
+          `${p.deferral.window_end.toISOString().split("T")[0]}: una recompra posterior la haría no computable (art. 33.5.f LIRPF).`
+        );
+      }
+    }
+  }
+
   const isSafeForOfficial = blockers.length === 0;
 
   return {
@@ -451,6 +614,7 @@ export function runFifoV2(
     fee_events: feeEvents,
     transfer_carryovers: options?.transferCarryovers ?? [],
     reward_events: rewardEvents,
+    loss_deferrals: lossCandidates.filter(p => p.deferral.deferred_loss_eur > 1e-8).map(p => p.deferral),
     blockers,
     warnings,
     audit_trail: auditTrail,
@@ -501,6 +665,7 @@ export function summarizeV2Result(result: V2EngineResult, year?: number) {
       .reduce((sum, d) => sum + d.gain_loss_eur, 0)
   );
   const net = gains - losses;
+  const deferredLosses = yearDisposals.reduce((sum, d) => sum + (d.deferred_loss_eur ?? 0), 0);
 
   const byAsset = new Map<string, { gain_loss: number; proceeds: number; cost_basis: number; count: number }>();
   for (const d of yearDisposals) {
@@ -516,6 +681,7 @@ export function summarizeV2Result(result: V2EngineResult, year?: number) {
     net_gain_loss_eur: net,
     gains_eur: gains,
     losses_eur: losses,
+    deferred_losses_eur: deferredLosses,
     disposals_count: yearDisposals.length,
     by_asset: Object.fromEntries(byAsset),
   };
@@ -13,7 +13,7 @@ const ENSURE_SQL = `
 CREATE TABLE IF NOT EXISTS fisco_import_batches (
   id BIGSERIAL PRIMARY KEY,
   import_batch_id TEXT NOT NULL UNIQUE,
-  exchange TEXT NOT NULL CHECK (exchange IN ('kraken', 'revolutx')),
+  exchange TEXT NOT NULL CHECK (exchange IN ('kraken', 'revolutx', 'binance')),
   year INTEGER NOT NULL CHECK (year >= 2020 AND year <= 2100),
   status TEXT NOT NULL DEFAULT 'preview' CHECK (status IN ('preview', 'confirmed', 'rejected', 'partial')),
   dry_run BOOLEAN NOT NULL DEFAULT true,
@@ -23,6 +23,9 @@ CREATE TABLE IF NOT EXISTS fisco_import_batches (
   summary_json JSONB DEFAULT '{}'::jsonb,
   error_message TEXT
 );
+-- Binance CSV imports (088): widen the exchange check on existing tables
+ALTER TABLE fisco_import_batches DROP CONSTRAINT IF EXISTS fisco_import_batches_exchange_check;
+ALTER TABLE fisco_import_batches ADD CONSTRAINT fisco_import_batches_exchange_check CHECK (exchange IN ('kraken', 'revolutx', 'binance'));
 CREATE INDEX IF NOT EXISTS idx_fisco_import_batches_year ON fisco_import_batches(year);
 CREATE INDEX IF NOT EXISTS idx_fisco_import_batches_exchange ON fisco_import_batches(exchange);
 CREATE INDEX IF NOT EXISTS idx_fisco_import_batches_status ON fisco_import_batches(status);
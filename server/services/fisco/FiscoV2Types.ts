@@ -91,6 +91,8 @@ export interface V2Lot {
   acquired_at: Date;
   exchange: string;
   transfer_link_id: number | null;
+  /** Pérdida diferida por la regla de los dos meses arrastrada a este lote (informativo) */
+  deferred_loss_carried_eur?: number;
 }
 
 // ============================================================
@@ -112,6 +114,43 @@ export interface V2Disposal {
   lots_consumed: { v2_lot_id: string; quantity: number; cost_basis_eur: number }[];
   executed_at: Date;
   exchange: string;
+  /** Resultado antes de aplicar art. 33.5.f LIRPF (solo en disposiciones con pérdida) */
+  loss_before_deferral_eur?: number;
+  /** Parte de la pérdida no computable por recompra en ±2 meses (positivo) */
+  deferred_loss_eur?: number;
+  /** Pérdida diferida anteriormente que se integra ahora vía cost_basis_eur */
+  released_deferred_loss_eur?: number;
+}
+
+// ============================================================
+// V2 Loss Deferral — regla de los dos meses (art. 33.5.f LIRPF)
+// ============================================================
+
+/** Plazo de la regla de recompra: "dos meses anteriores o posteriores" */
+export const TWO_MONTH_RULE_MONTHS = 2;
+
+export interface V2LossDeferralReplacement {
+  /** null cuando la recompra queda fuera del rango procesado (look-ahead) */
+  v2_lot_id: string | null;
+  source_operation_id: number;
+  acquired_at: Date;
+  quantity: number;
+  deferred_loss_eur: number;
+}
+
+export interface V2LossDeferral {
+  v2_disposal_id: string;
+  sell_operation_id: number;
+  asset: string;
+  exchange: string;
+  disposed_at: Date;
+  quantity_disposed: number;
+  loss_before_deferral_eur: number;
+  deferred_loss_eur: number;
+  deferred_quantity: number;
+  window_start: Date;
+  window_end: Date;
+  replacements: V2LossDeferralReplacement[];
 }
 
 // ============================================================
@@ -145,6 +184,7 @@ export interface V2EngineResult {
   fee_events: FeeEvent[];
   transfer_carryovers: V2TransferCarryover[];
   reward_events: V2Event[];
+  loss_deferrals: V2LossDeferral[];
   blockers: V2Blocker[];
   warnings: string[];
   audit_trail: V2AuditEntry[];
@@ -0,0 +1,113 @@
+/**
+ * Binance Spot trade-history CSV: parser (both export layouts) and
+ * normalization into FISCO operations.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../../db", () => ({ pool: { query: vi.fn() } }));
+vi.mock("../../kraken", () => ({ krakenService: {} }));
+vi.mock("../../exchanges/RevolutXService", () => ({ revolutXService: {} }));
+
+// Mock eur-rates so tests run offline (1 USD = 0.92 EUR, BNB = 500 EUR)
+vi.mock("../eur-rates", () => ({
+  getHistoricalUsdEurRate: vi.fn().mockResolvedValue(0.92),
+  prefetchHistoricalRates: vi.fn().mockResolvedValue(undefined),
+  prefetchKrakenOhlcForAssets: vi.fn().mockResolvedValue(undefined),
+  toEurHistorical: vi.fn().mockImplementation(async (amount: number, currency: string) => {
+    if (currency === "EUR") return amount;
+    return amount * 0.92;
+  }),
+  getCryptoEurPriceHistorical: vi.fn().mockImplementation(async (asset: string) => (asset === "BNB" ? 500 : null)),
+}));
+
+import { parseBinanceCsv } from "../FiscoImportService";
+import { normalizeBinanceTrades } from "../normalizer";
+
+const LAYOUT_A = [
+  "Date(UTC),Pair,Side,Price,Executed,Amount,Fee",
+  `2025-03-01 10:15:00,BTCUSDT,BUY,"60,000.00",0.01000000BTC,600.00000000USDT,0.00001000BTC`,
+  "2025-03-05 18:00:00,BTCUSDT,SELL,65000.00,0.00500000BTC,325.00000000USDT,0.32500000USDT",
+].join("\n");
+
+const LAYOUT_B = [
+  "Date(UTC),Market,Type,Price,Amount,Total,Fee,Fee Coin",
+  "2025-04-02 09:00:00,ETHUSDT,BUY,3000,0.5,1500,0.001,BNB",
+  "2025-04-02 09:30:00,ETHUSDT,DEPOSIT,3000,0.5,1500,0,USDT",
+].join("\n");
+
+describe("parseBinanceCsv", () => {
+  it("parses layout A with asset-suffixed amounts and quoted prices", () => {
+    const trades = parseBinanceCsv(LAYOUT_A);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      symbol: "BTCUSDT", side: "buy", price: 60000, quantity: 0.01, quoteQuantity: 600,
+      fee: 0.00001, feeAsset: "BTC", executedAt: Date.UTC(2025, 2, 1, 10, 15, 0),
+    });
+    expect(trades[1]).toMatchObject({ side: "sell", quantity: 0.005, quoteQuantity: 325, fee: 0.325, feeAsset: "USDT" });
+  });
+
+  it("parses layout B with a separate fee coin column and skips non-trade rows", () => {
+    const trades = parseBinanceCsv(LAYOUT_B);
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ symbol: "ETHUSDT", side: "buy", quantity: 0.5, quoteQuantity: 1500, fee: 0.001, feeAsset: "BNB" });
+  });
+
+  it("derives a stable id per row so re-imports dedupe", () => {
+    const first = parseBinanceCsv(LAYOUT_A);
+    const second = parseBinanceCsv(LAYOUT_A);
+    expect(first.map(t => t.id)).toEqual(second.map(t => t.id));
+    expect(first[0].id).toMatch(/^binance_[0-9a-f]{16}$/);
+    expect(first[0].id).not.toBe(first[1].id);
+  });
+
+  it("returns nothing for unrelated CSVs", () => {
+    expect(parseBinanceCsv("txid,refid,time,type\n1,2,3,4")).toEqual([]);
+  });
+});
+
+describe("normalizeBinanceTrades", () => {
+  it("buy with USDT → trade_buy of the base asset, base-asset fee valued at trade price", async () => {
+    const ops = await normalizeBinanceTrades(parseBinanceCsv(LAYOUT_A).slice(0, 1));
+    const buy = ops.find(o => o.opType === "trade_buy" && o.asset === "BTC");
+    expect(buy).toBeDefined();
+    expect(buy!.exchange).toBe("binance");
+    expect(buy!.amount).toBeCloseTo(0.01, 8);
+    expect(buy!.totalEur).toBeCloseTo(600 * 0.92, 2);
+    expect(buy!.feeEur).toBeCloseTo(0.00001 * 60000 * 0.92, 4);
+  });
+
+  it("sell for USDT → trade_sell of the base asset with quote-asset fee", async () => {
+    const ops = await normalizeBinanceTrades(parseBinanceCsv(LAYOUT_A).slice(1));
+    const sell = ops.find(o => o.opType === "trade_sell" && o.asset === "BTC");
+    expect(sell).toBeDefined();
+    expect(sell!.amount).toBeCloseTo(0.005, 8);
+    expect(sell!.totalEur).toBeCloseTo(325 * 0.92, 2);
+    expect(sell!.feeEur).toBeCloseTo(0.325 * 0.92, 4);
+  });
+
+  it("BNB fee is converted through its EUR price", async () => {
+    const ops = await normalizeBinanceTrades(parseBinanceCsv(LAYOUT_B));
+    const buy = ops.find(o => o.opType === "trade_buy" && o.asset === "ETH");
+    expect(buy).toBeDefined();
+    expect(buy!.feeEur).toBeCloseTo(0.001 * 500, 4);
+  });
+
+  it("EUR quote-asset fee is converted to EUR at the trade date, not booked as USD", async () => {
+    const ops = await normalizeBinanceTrades([{
+      id: "eur-1", symbol: "BTCEUR", side: "buy", price: 55000, quantity: 0.01, quoteQuantity: 550,
+      fee: 0.55, feeAsset: "EUR", executedAt: Date.UTC(2025, 2, 1),
+    }]);
+    const buy = ops.find(o => o.opType === "trade_buy" && o.asset === "BTC");
+    expect(buy).toBeDefined();
+    expect(buy!.feeEur).toBeCloseTo(0.55, 6);
+  });
+
+  it("skips symbols with an unknown quote asset", async () => {
+    const ops = await normalizeBinanceTrades([{
+      id: "x", symbol: "FOOBAR", side: "buy", price: 1, quantity: 1, quoteQuantity: 1,
+      fee: 0, feeAsset: "", executedAt: Date.UTC(2025, 0, 1),
+    }]);
+    expect(ops).toEqual([]);
+  });
+});
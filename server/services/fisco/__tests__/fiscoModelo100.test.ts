@@ -0,0 +1,129 @@
+/**
+ * Tests FISCO — Export Modelo 100 (casillas de monedas virtuales + staking)
+ */
+import { describe, it, expect, vi } from "vitest";
+import type { Pool } from "pg";
+
+const finalizationStatus = vi.fn();
+vi.mock("../FiscoValidationService", () => ({
+  FiscoValidationService: class {
+    getFinalizationStatus(year: number) { return finalizationStatus(year); }
+  },
+}));
+
+import { FiscoModelo100Service, contraprestacionFor } from "../FiscoModelo100Service";
+import { FiscoExportService } from "../FiscoExportService";
+
+function annual(final: number, ordinary = final, conservative = 0) {
+  return {
+    ordinary_fifo_gain_loss_eur: ordinary,
+    conservative_external_disposals_gain_loss_eur: conservative,
+    final_taxable_gain_loss_eur: final,
+  };
+}
+
+function mockPool(routes: Array<[string, any[]]>): Pool {
+  return {
+    query: vi.fn(async (sql: string) => {
+      for (const [needle, rows] of routes) if (sql.includes(needle)) return { rows };
+      return { rows: [] };
+    }),
+  } as unknown as Pool;
+}
+
+const legacyRoutes = (): Array<[string, any[]]> => [
+  ["FROM fisco_disposals d", [
+    // Venta BTC→EUR: bruto 10.000, comisión 20, coste 8.000 (incluye comisión de compra)
+    { asset: "BTC", counter_asset: "EUR", disposals_count: "2", proceeds_eur: "10000", cost_basis_eur: "8000", gain_loss_eur: "1980" },
+    { asset: "ETH", counter_asset: "USD", disposals_count: "1", proceeds_eur: "3000", cost_basis_eur: "3500", gain_loss_eur: "-505" },
+    { asset: "SOL", counter_asset: "USDC", disposals_count: "1", proceeds_eur: "500", cost_basis_eur: "400", gain_loss_eur: "99" },
+  ]],
+  ["FROM fisco_external_statement_items", [
+    { asset: "USDC", disposals_count: "1", proceeds_eur: "200", cost_basis_eur: "210", gain_loss_eur: "-10" },
+  ]],
+  ["COUNT(*) FILTER", [
+    { asset: "DOT", operations_count: "12", amount_eur: "45.5", operations_without_price: "0" },
+    { asset: "SOL", operations_count: "3", amount_eur: "4.5", operations_without_price: "1" },
+  ]],
+  ["SUM(fo.total_eur::numeric), 0) AS total", [{ total: "50" }]],
+];
+
+describe("FISCO — Modelo 100", () => {
+  it("M100-01: contraprestación F para fiat, N para otra moneda virtual", () => {
+    expect(contraprestacionFor("EUR")).toBe("F");
+    expect(contraprestacionFor("usd")).toBe("F");
+    expect(contraprestacionFor("USDC")).toBe("N");
+    expect(contraprestacionFor(null)).toBe("F");
+  });
+
+  it("M100-02: legacy integra la comisión de venta en el valor de transmisión", async () => {
+    finalizationStatus.mockResolvedValue(annual(1564, 1574, -10));
+    const data = await new FiscoModelo100Service(mockPool(legacyRoutes())).build(2025);
+
+    expect(data.engine).toBe("legacy_fifo");
+    const btc = data.transmissions.find(t => t.asset === "BTC")!;
+    expect(btc).toMatchObject({
+      contraprestacion: "F",
+      transmission_value_eur: 9980,
+      acquisition_value_eur: 8000,
+      gain_eur: 1980,
+      loss_eur: 0,
+      sell_fees_eur: 20,
+      disposals_count: 2,
+    });
+    const eth = data.transmissions.find(t => t.asset === "ETH")!;
+    expect(eth).toMatchObject({ transmission_value_eur: 2995, gain_eur: 0, loss_eur: 505, sell_fees_eur: 5 });
+    expect(data.transmissions.find(t => t.asset === "SOL")!.contraprestacion).toBe("N");
+    expect(data.transmissions.find(t => t.asset === "USDC")).toMatchObject({ contraprestacion: "O", source: "conservative_external_disposal", loss_eur: 10 });
+
+    expect(data.totals.net_gain_loss_eur).toBe(1564);
+    expect(data.capital_income.total_eur).toBe(50);
+    expect(data.warnings.some(w => w.includes("SOL") && w.includes("sin valor EUR"))).toBe(true);
+    expect(data.reconciliation.status).toBe("OK");
+  });
+
+  it("M100-03: la conciliación marca diferencias con el resumen anual", async () => {
+    finalizationStatus.mockResolvedValue(annual(1600));
+    const data = await new FiscoModelo100Service(mockPool(legacyRoutes())).build(2025);
+    expect(data.reconciliation.status).toBe("DIFFERENCES");
+    expect(data.reconciliation.diff_gain_loss_eur).toBe(-36);
+    expect(data.reconciliation.notes[0]).toContain("-36.00");
+  });
+
+  it("M100-04: v2_official recalcula con FIFO V2 y aplica la regla de los dos meses", async () => {
+    finalizationStatus.mockResolvedValue(annual(-10000));
+    const op = (id: number, op_type: string, amount: number, total: number, date: string) => ({
+      id, exchange: "kraken", external_id: `TX-${id}`, op_type, asset: "BTC", amount: String(amount),
+      price_eur: String(total / amount), total_eur: String(total), fee_eur: "0", counter_asset: "EUR",
+      pair: "BTC/EUR", executed_at: new Date(date), raw_data: {},
+    });
+    const pool = mockPool([
+      ["FROM fisco_operations WHERE executed_at < $1", [
+        op(1, "trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+        op(2, "trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+        op(3, "trade_buy", 0.25, 10000, "2025-03-20T10:00:00Z"),
+      ]],
+      ["SUM(fo.total_eur::numeric), 0) AS total", [{ total: "0" }]],
+    ]);
+
+    const data = await new FiscoModelo100Service(pool).build(2025, { engine: "v2_official" });
+    expect(data.engine).toBe("v2_official");
+    expect(data.transmissions).toHaveLength(1);
+    expect(data.transmissions[0]).toMatchObject({ asset: "BTC", transmission_value_eur: 40000, acquisition_value_eur: 50000, loss_eur: 7500, deferred_loss_eur: 2500 });
+    expect(data.reconciliation.status).toBe("DIFFERENCES");
+    expect(data.reconciliation.notes.some(n => n.includes("33.5.f"))).toBe(true);
+  });
+
+  it("M100-05: el CSV lleva los números de casilla en la cabecera y una fila por línea", async () => {
+    finalizationStatus.mockResolvedValue(annual(1564, 1574, -10));
+    const csv = await new FiscoExportService(mockPool(legacyRoutes())).exportModelo100Csv(2025, { delimiter: "semicolon" });
+    const lines = csv.split("\n");
+    expect(lines[0]).toContain("c1802_valor_transmision_eur;c1803_valor_adquisicion_eur");
+    expect(lines.filter(l => l.startsWith("transmision;"))).toHaveLength(4);
+    expect(lines.filter(l => l.startsWith("rcm;"))).toHaveLength(2);
+    expect(lines.some(l => l.startsWith("conciliacion;2025;legacy_fifo;ganancia_perdida_neta"))).toBe(true);
+    const btc = lines.find(l => l.startsWith("transmision;2025;legacy_fifo;BTC;"))!.split(";");
+    expect(btc[5]).toBe("9980");
+    expect(btc[6]).toBe("8000");
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests FISCO — Modelo 721 (monedas virtuales en el extranjero)
+ * Umbral 50.000 €, incremento > 20.000 €, origen A/M/C y fichero de ancho fijo.
+ */
+import { describe, it, expect, vi } from "vitest";
+import type { Pool } from "pg";
+
+vi.mock("../eur-rates", () => ({
+  getCryptoEurPriceHistorical: vi.fn(async (asset: string) => ({ BTC: 80000, ETH: 3000 } as Record<string, number>)[asset] ?? null),
+}));
+
+import {
+  evaluateModelo721,
+  buildModelo721File,
+  renderModelo721SummaryText,
+  FiscoModelo721Service,
+  MODELO721_RECORD_LENGTH,
+  type Modelo721FilingRecord,
+} from "../FiscoModelo721Service";
+
+function balance(asset: string, exchange: string, qty: number, priceEur: number | null) {
+  return {
+    row: {
+      asset,
+      exchange,
+      closingQtyAsOfYearEnd: qty,
+      firstAcquiredAt: "2024-03-10T10:00:00.000Z",
+      lastMovementAt: "2025-08-01T10:00:00.000Z",
+    },
+    priceEur,
+  };
+}
+
+function filing(totalValueEur: number, positions: Modelo721FilingRecord["positions"]): Modelo721FilingRecord {
+  return { year: 2024, totalValueEur, positions, declarationId: null, filedAt: "2025-03-20T00:00:00.000Z" };
+}
+
+describe("FISCO — Modelo 721 obligación", () => {
+  it("M721-01: sin presentación previa solo obliga por encima de 50.000 €", () => {
+    const below = evaluateModelo721(2025, [balance("BTC", "kraken", 0.5, 80000), balance("ETH", "revolutx", 3, 3000)], null);
+    expect(below.totalValueEur).toBe(49000);
+    expect(below.obligated).toBe(false);
+
+    const above = evaluateModelo721(2025, [balance("BTC", "kraken", 0.7, 80000)], null);
+    expect(above.totalValueEur).toBe(56000);
+    expect(above.obligated).toBe(true);
+    expect(above.positions[0].origin).toBe("A");
+  });
+
+  it("M721-02: con presentación previa obliga solo si el incremento supera 20.000 €", () => {
+    const previous = filing(60000, [{ asset: "BTC", exchange: "kraken", quantity: 0.75, valueEur: 60000 }]);
+
+    const small = evaluateModelo721(2025, [balance("BTC", "kraken", 1, 80000)], previous);
+    expect(small.increaseVsPreviousEur).toBe(20000);
+    expect(small.obligated).toBe(false);
+    expect(small.positions[0].origin).toBe("M");
+
+    const large = evaluateModelo721(2025, [balance("BTC", "kraken", 1.1, 80000)], previous);
+    expect(large.increaseVsPreviousEur).toBe(28000);
+    expect(large.obligated).toBe(true);
+  });
+
+  it("M721-03: extinguir una posición declarada obliga y genera origen C", () => {
+    const previous = filing(70000, [
+      { asset: "BTC", exchange: "kraken", quantity: 0.5, valueEur: 40000 },
+      { asset: "ETH", exchange: "revolutx", quantity: 10, valueEur: 30000 },
+    ]);
+    const result = evaluateModelo721(2025, [balance("BTC", "kraken", 0.5, 80000), balance("ETH", "revolutx", 0, null)], previous);
+
+    expect(result.obligated).toBe(true);
+    const eth = result.positions.find(p => p.asset === "ETH")!;
+    expect(eth.origin).toBe("C");
+    expect(eth.extinguishedAt).toBe("2025-08-01T10:00:00.000Z");
+  });
+
+  it("M721-04: saldos a 0 nunca declarados no aparecen", () => {
+    const result = evaluateModelo721(2025, [balance("SOL", "kraken", 0, null)], null);
+    expect(result.positions).toHaveLength(0);
+  });
+});
+
+describe("FISCO — Modelo 721 fichero", () => {
+  const summaryFor = () => {
+    const evaluation = evaluateModelo721(2025, [balance("BTC", "kraken", 0.75, 80000), balance("ETH", "revolutx", 2.5, 3000)], null);
+    return {
+      year: 2025,
+      generatedAt: "2026-01-15T00:00:00.000Z",
+      valuationDate: "2025-12-31",
+      thresholdEur: 50000,
+      increaseThresholdEur: 20000,
+      ...evaluation,
+      custodians: [],
+      previousFiling: null,
+      excluded: [],
+      warnings: [],
+    };
+  };
+
+  it("M721-05: registros de 500 posiciones, tipo 1 + un tipo 2 por posición, CRLF", () => {
+    const content = buildModelo721File(summaryFor(), { nif: "12345678Z", name: "Pérez Núñez, José", phone: "600 111 222" });
+    expect(content.endsWith("\r\n")).toBe(true);
+    const records = content.split("\r\n").filter(Boolean);
+    expect(records).toHaveLength(3);
+    for (const r of records) expect(r).toHaveLength(MODELO721_RECORD_LENGTH);
+
+    const [type1, btc] = records;
+    expect(type1.slice(0, 8)).toBe("17212025");
+    expect(type1.slice(8, 17)).toBe("12345678Z");
+    expect(type1.slice(17, 57).trim()).toBe("PEREZ NUÑEZ, JOSE");
+    expect(type1.slice(58, 67)).toBe("600111222");
+    expect(type1.slice(135, 144)).toBe("000000002");
+    expect(type1.slice(145, 162)).toBe("00000000006750000"); // 67.500,00 €
+
+    expect(btc.slice(0, 8)).toBe("27212025");
+    expect(btc[101]).toBe("V");
+    expect(btc.slice(102, 122).trim()).toBe("BTC");
+    expect(btc.slice(182, 222).trim()).toBe("PAYWARD IRELAND LIMITED");
+    expect(btc.slice(222, 224)).toBe("IE");
+    expect(btc.slice(264, 272)).toBe("20240310");
+    expect(btc[272]).toBe("A");
+    expect(btc.slice(282, 296)).toBe("00000006000000");
+    expect(btc.slice(297, 319)).toBe("0000000000007500000000");
+  });
+
+  it("M721-06: el resumen legible incluye custodio, valor y obligación", () => {
+    const text = renderModelo721SummaryText(summaryFor());
+    expect(text).toContain("MODELO 721 — Ejercicio 2025");
+    expect(text).toContain("Payward Ireland Limited | IE | BTC");
+    expect(text).toContain("67500.00 EUR");
+    expect(text).toContain("Obligado a presentar: SÍ");
+  });
+});
+
+describe("FISCO — FiscoModelo721Service", () => {
+  it("M721-07: valora custodios extranjeros, excluye el resto y avisa de precios ausentes", async () => {
+    const pool = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes("FROM fisco_operations fo")) {
+          return {
+            rows: [
+              { asset: "BTC", exchange: "kraken", qty: "0.7", first_acquired_at: "2024-01-05T00:00:00Z", last_movement_at: "2025-06-01T00:00:00Z" },
+              { asset: "DOGE", exchange: "revolutx", qty: "1000", first_acquired_at: "2025-02-01T00:00:00Z", last_movement_at: "2025-02-01T00:00:00Z" },
+              { asset: "ETH", exchange: "binance", qty: "1", first_acquired_at: "2025-02-01T00:00:00Z", last_movement_at: "2025-02-01T00:00:00Z" },
+              { asset: "ETH", exchange: "bit2me", qty: "2", first_acquired_at: "2025-02-01T00:00:00Z", last_movement_at: "2025-02-01T00:00:00Z" },
+            ],
+          };
+        }
+        if (sql.includes("FROM fisco_modelo721_filings")) return { rows: [] };
+        return { rows: [] };
+      }),
+    } as unknown as Pool;
+
+    const summary = await new FiscoModelo721Service(pool).buildSummary(2025);
+    expect(summary.valuationDate).toBe("2025-12-31");
+    expect(summary.positions.map(p => `${p.asset}@${p.exchange}`)).toEqual(["BTC@kraken", "DOGE@revolutx", "ETH@binance"]);
+    expect(summary.totalValueEur).toBe(59000);
+    expect(summary.obligated).toBe(true);
+    expect(summary.excluded).toEqual([expect.objectContaining({ asset: "ETH", exchange: "bit2me" })]);
+    expect(summary.warnings.some(w => w.includes("DOGE") && w.includes("sin precio"))).toBe(true);
+    expect(summary.custodians.find(c => c.exchange === "kraken")?.valueEur).toBe(56000);
+    expect(summary.custodians.find(c => c.exchange === "binance")).toMatchObject({ countryCode: "KY", valueEur: 3000 });
+  });
+});
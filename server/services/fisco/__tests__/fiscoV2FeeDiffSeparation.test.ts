@@ -136,6 +136,7 @@ function setupBaselineMocks(opts: {
     fee_events: opts.feeEvents ?? [],
     transfer_carryovers: [],
     reward_events: [],
+    loss_deferrals: [],
     blockers: [],
     warnings: [],
     audit_trail: [],
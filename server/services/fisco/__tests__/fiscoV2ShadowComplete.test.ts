@@ -51,6 +51,7 @@ vi.mock("../FiscoV2EngineService", () => ({
     fee_events: [],
     transfer_carryovers: [],
     reward_events: [],
+    loss_deferrals: [],
     blockers: [],
     warnings: [],
     audit_trail: [],
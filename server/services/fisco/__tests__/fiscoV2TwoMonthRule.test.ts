@@ -0,0 +1,199 @@
+/**
+ * Tests FISCO V2 — Regla de los dos meses (art. 33.5.f LIRPF)
+ * Pérdidas no computables por recompra de activos homogéneos en ±2 meses.
+ */
+import { describe, it, expect, vi } from "vitest";
+import type { Pool } from "pg";
+import { normalizeToV2Events } from "../FiscoV2Normalizer";
+import { runFifoV2, summarizeV2Result } from "../FiscoV2EngineService";
+import { renderTwoMonthRuleSection } from "../FiscoHtmlRenderer";
+import { FiscoExportService } from "../FiscoExportService";
+
+let nextId = 1;
+
+function op(op_type: "trade_buy" | "trade_sell", amount: number, totalEur: number, date: string, asset = "BTC"): any {
+  const id = nextId++;
+  return {
+    id,
+    exchange: "kraken",
+    external_id: `TX-${id}`,
+    op_type,
+    asset,
+    amount: String(amount),
+    price_eur: String(totalEur / amount),
+    total_eur: String(totalEur),
+    fee_eur: "0",
+    counter_asset: "EUR",
+    pair: `${asset}/EUR`,
+    executed_at: new Date(date),
+    raw_data: {},
+  };
+}
+
+function run(ops: any[], options?: Parameters<typeof runFifoV2>[1]) {
+  return runFifoV2(normalizeToV2Events(ops, "AEAT_INTEGRATED_TRACEABLE"), options);
+}
+
+describe("FISCO V2 — Regla de los dos meses", () => {
+  it("TM-01: recompra posterior dentro de 2 meses difiere la pérdida y la arrastra al lote nuevo", () => {
+    const result = run([
+      op("trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+      op("trade_buy", 1, 41000, "2025-03-20T10:00:00Z"),
+    ]);
+
+    const sale = result.disposals[0];
+    expect(sale.loss_before_deferral_eur).toBeCloseTo(-10000, 6);
+    expect(sale.deferred_loss_eur).toBeCloseTo(10000, 6);
+    expect(sale.gain_loss_eur).toBeCloseTo(0, 6);
+
+    expect(result.loss_deferrals).toHaveLength(1);
+    const deferral = result.loss_deferrals[0];
+    expect(deferral.deferred_quantity).toBeCloseTo(1, 8);
+    expect(deferral.replacements).toHaveLength(1);
+    expect(deferral.replacements[0].v2_lot_id).toBe(result.lots[1].v2_lot_id);
+    expect(result.lots[1].deferred_loss_carried_eur).toBeCloseTo(10000, 6);
+    expect(result.audit_trail.some(a => a.step === "two_month_rule")).toBe(true);
+  });
+
+  it("TM-02: la pérdida diferida se integra al vender el lote de reposición", () => {
+    const result = run([
+      op("trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+      op("trade_buy", 1, 41000, "2025-03-20T10:00:00Z"),
+      op("trade_sell", 1, 45000, "2025-09-15T10:00:00Z"),
+    ]);
+
+    const later = result.disposals[1];
+    expect(later.cost_basis_eur).toBeCloseTo(51000, 6);
+    expect(later.released_deferred_loss_eur).toBeCloseTo(10000, 6);
+    expect(later.gain_loss_eur).toBeCloseTo(-6000, 6);
+    // Over the whole cycle the loss is recognised once: 0 + (-6000) = 45000 + 40000 - 50000 - 41000
+    expect(result.disposals.reduce((s, d) => s + d.gain_loss_eur, 0)).toBeCloseTo(-6000, 6);
+  });
+
+  it("TM-03: compra anterior aún en cartera difiere solo la parte recomprada", () => {
+    const result = run([
+      op("trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+      op("trade_buy", 0.5, 21000, "2025-02-15T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+    ]);
+
+    const sale = result.disposals[0];
+    expect(sale.loss_before_deferral_eur).toBeCloseTo(-10000, 6);
+    expect(sale.deferred_loss_eur).toBeCloseTo(5000, 6);
+    expect(sale.gain_loss_eur).toBeCloseTo(-5000, 6);
+    expect(result.lots[1].deferred_loss_carried_eur).toBeCloseTo(5000, 6);
+  });
+
+  it("TM-04: lotes consumidos por la misma venta no cuentan como recompra", () => {
+    const result = run([
+      op("trade_buy", 0.5, 25000, "2025-02-01T10:00:00Z"),
+      op("trade_buy", 0.5, 25000, "2025-02-10T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+    ]);
+
+    expect(result.loss_deferrals).toHaveLength(0);
+    expect(summarizeV2Result(result).losses_eur).toBeCloseTo(10000, 6);
+  });
+
+  it("TM-05: recompra fuera de plazo, otro activo o venta con ganancia no difieren", () => {
+    const result = run([
+      op("trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+      op("trade_buy", 10, 20000, "2025-03-10T10:00:00Z", "ETH"),
+      op("trade_buy", 1, 41000, "2025-05-02T10:00:00Z"),
+      op("trade_sell", 1, 60000, "2025-06-01T10:00:00Z"),
+      op("trade_buy", 1, 59000, "2025-06-05T10:00:00Z"),
+    ]);
+
+    expect(result.loss_deferrals).toHaveLength(0);
+    expect(result.disposals[0].gain_loss_eur).toBeCloseTo(-10000, 6);
+    expect(result.disposals[1].gain_loss_eur).toBeCloseTo(19000, 6);
+    expect(result.disposals[1].deferred_loss_eur).toBeUndefined();
+  });
+
+  it("TM-06: recompras look-ahead del año siguiente difieren una venta de diciembre", () => {
+    const lookahead = normalizeToV2Events([op("trade_buy", 0.4, 16000, "2026-01-20T10:00:00Z")], "AEAT_INTEGRATED_TRACEABLE");
+    const result = run([
+      op("trade_buy", 1, 50000, "2025-06-02T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-12-15T10:00:00Z"),
+    ], { lookaheadAcquisitions: lookahead });
+
+    expect(result.loss_deferrals).toHaveLength(1);
+    expect(result.loss_deferrals[0].replacements[0].v2_lot_id).toBeNull();
+    expect(result.disposals[0].gain_loss_eur).toBeCloseTo(-6000, 6);
+
+    const summary = summarizeV2Result(result, 2025);
+    expect(summary.losses_eur).toBeCloseTo(6000, 6);
+    expect(summary.deferred_losses_eur).toBeCloseTo(4000, 6);
+  });
+
+  it("TM-07: avisa si la ventana de recompra sigue abierta al final de los datos", () => {
+    const result = run([
+      op("trade_buy", 1, 50000, "2025-06-02T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-12-15T10:00:00Z"),
+    ]);
+    expect(result.warnings.some(w => w.includes("33.5.f"))).toBe(true);
+  });
+
+  it("TM-08: applyTwoMonthRule=false conserva el cálculo sin diferimiento", () => {
+    const result = run([
+      op("trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+      op("trade_buy", 1, 41000, "2025-03-20T10:00:00Z"),
+    ], { applyTwoMonthRule: false });
+
+    expect(result.loss_deferrals).toHaveLength(0);
+    expect(result.disposals[0].gain_loss_eur).toBeCloseTo(-10000, 6);
+  });
+});
+
+describe("FISCO V2 — Regla de los dos meses en informes", () => {
+  const deferralResult = () => run([
+    op("trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+    op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+    op("trade_buy", 0.25, 10000, "2025-03-20T10:00:00Z"),
+  ]);
+
+  it("TM-09: el informe HTML muestra pérdida calculada, diferida y computable", () => {
+    const html = renderTwoMonthRuleSection(2025, deferralResult().loss_deferrals);
+    expect(html).toContain("dos meses");
+    expect(html).toContain("Pérdida diferida");
+    expect(html).toContain("BTC");
+    expect(html).toContain("-10.000,00");
+    expect(html).toContain("2500,00");
+    expect(html).toContain("-7500,00");
+  });
+
+  it("TM-10: sin diferimientos el informe lo indica", () => {
+    expect(renderTwoMonthRuleSection(2025, [])).toContain("Ninguna pérdida de 2025 queda diferida");
+  });
+
+  it("TM-11: exportLossDeferralsCsv genera una fila por pérdida diferida", async () => {
+    const ops = [
+      op("trade_buy", 1, 50000, "2025-01-02T10:00:00Z"),
+      op("trade_sell", 1, 40000, "2025-03-01T10:00:00Z"),
+      op("trade_buy", 0.25, 10000, "2025-03-20T10:00:00Z"),
+    ];
+    const pool = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes("executed_at >= $1 AND executed_at < $2")) return { rows: [] };
+        if (sql.includes("FROM fisco_operations WHERE executed_at < $1")) return { rows: ops };
+        return { rows: [] };
+      }),
+    } as unknown as Pool;
+
+    const csv = await new FiscoExportService(pool).exportLossDeferralsCsv({ years: [2025], delimiter: "semicolon" });
+    const lines = csv.split("\n");
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toContain("deferred_loss_eur;computable_loss_eur");
+    const cols = lines[1].split(";");
+    expect(cols[0]).toBe("2025");
+    expect(cols[2]).toBe("BTC");
+    expect(Number(cols[7])).toBeCloseTo(-10000, 6);
+    expect(Number(cols[8])).toBeCloseTo(2500, 6);
+    expect(Number(cols[9])).toBeCloseTo(-7500, 6);
+    expect(cols[13]).toBe(String(ops[2].id));
+  });
+});
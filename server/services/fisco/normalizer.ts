@@ -1,7 +1,7 @@
 /**
  * FISCO Normalizer: Converts raw exchange data into unified FiscoOperation format.
  * Handles deduplication, classification, and EUR conversion.
- * Sources: Kraken ledger + RevolutX historical orders.
+ * Sources: Kraken ledger + RevolutX historical orders + Binance trade history (CSV).
  *
  * FIXED (2026-06-06):
  * - Crypto-to-crypto trades now generate TWO operations (sell spent + buy received).
@@ -14,6 +14,7 @@
  */
 
 import { toEurHistorical, prefetchHistoricalRates, getHistoricalUsdEurRate, getCryptoEurPriceHistorical, prefetchKrakenOhlcForAssets } from "./eur-rates";
+import { splitBinanceSymbol } from "../exchanges/BinanceService";
 
 // ============================================================
 // Types
@@ -609,6 +610,70 @@ export async function normalizeRevolutXOrders(
   return ops;
 }
 
+// ============================================================
+// Binance trade history normalization
+// ============================================================
+
+export interface BinanceTrade {
+  id: string;
+  symbol: string;          // e.g. BTCUSDT
+  side: "buy" | "sell";
+  price: number;           // in quote asset
+  quantity: number;        // base asset executed
+  quoteQuantity: number;   // quote asset total
+  fee: number;
+  feeAsset: string;        // base, quote or BNB
+  executedAt: number;      // epoch ms
+}
+
+export async function normalizeBinanceTrades(
+  trades: BinanceTrade[]
+): Promise<NormalizedOperation[]> {
+  const ops: NormalizedOperation[] = [];
+
+  const validTrades = trades.filter(t => t.quantity > 0 && Number.isFinite(t.executedAt));
+  await prefetchHistoricalRates(validTrades.map(t => new Date(t.executedAt)));
+
+  for (const trade of validTrades) {
+    const split = splitBinanceSymbol(trade.symbol);
+    if (!split) continue;
+    const [baseAsset, quoteAsset] = split;
+
+    const execDate = new Date(trade.executedAt);
+    const usdEurRate = await rateFor(execDate);
+    const amount = trade.quantity;
+    const totalInQuote = trade.quoteQuantity > 0 ? trade.quoteQuantity : amount * trade.price;
+
+    // Fee is charged in base, quote or BNB: value it in EUR at the trade date
+    // (base-asset fees at the trade price), then express it in USD like the other venues
+    let totalFee = 0;
+    const feeAsset = normalizeAsset(trade.feeAsset || quoteAsset);
+    if (trade.fee > 0 && usdEurRate > 0) {
+      const feeEur = feeAsset === baseAsset
+        ? await toEurAmt(trade.fee * trade.price, quoteAsset, execDate)
+        : await toEurAmt(trade.fee, feeAsset, execDate);
+      totalFee = feeEur / usdEurRate;
+    }
+
+    const recvAsset = trade.side === "buy" ? baseAsset : quoteAsset;
+    const spentAsset = trade.side === "buy" ? quoteAsset : baseAsset;
+    const recvAmount = trade.side === "buy" ? amount : totalInQuote;
+    const spentAmount = trade.side === "buy" ? totalInQuote : amount;
+
+    const newOps = await classifyAndBuildTrade({
+      exchange: "binance",
+      refid: trade.id,
+      recvAsset, spentAsset,
+      recvAmount, spentAmount,
+      totalFee, usdEurRate,
+      execDate, rawData: trade,
+    });
+    ops.push(...newOps);
+  }
+
+  return ops;
+}
+
 // ============================================================
 // Merge & deduplicate
 // ============================================================
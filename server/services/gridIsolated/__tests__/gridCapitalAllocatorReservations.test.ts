@@ -0,0 +1,67 @@
+/**
+ * GridCapitalAllocator — reservations are keyed by strategy type + pair in the
+ * DB, so a fresh process (restart) can release what a previous one reserved.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+
+const calls = vi.hoisted(() => ({
+  updates: [] as Array<{ set: any; where: any }>,
+  inserts: [] as any[],
+}));
+
+vi.mock("../../../db", () => ({
+  db: {
+    update: vi.fn(() => {
+      const entry: { set: any; where: any } = { set: null, where: null };
+      calls.updates.push(entry);
+      const chain: any = {
+        set(payload: any) { entry.set = payload; return chain; },
+        where(condition: any) { entry.where = condition; return chain; },
+        returning: async () => [{ id: "res-from-previous-process" }],
+        then: (resolve: any) => resolve(undefined),
+      };
+      return chain;
+    }),
+    insert: vi.fn(() => ({
+      values: async (row: any) => { calls.inserts.push(row); },
+    })),
+  },
+}));
+vi.mock("../../botLogger", () => ({ botLogger: { info: vi.fn(), error: vi.fn() } }));
+vi.mock("../../exchanges/ExchangeFactory", () => ({
+  ExchangeFactory: {
+    getTradingExchange: () => ({ isInitialized: () => false }),
+    getTradingExchangeType: () => "revolutx",
+  },
+}));
+
+import { gridCapitalAllocator } from "../gridCapitalAllocator";
+
+function whereParams(condition: unknown): unknown[] {
+  return new PgDialect().sqlToQuery(condition as any).params;
+}
+
+describe("gridCapitalAllocator reservations", () => {
+  beforeEach(() => {
+    calls.updates.length = 0;
+    calls.inserts.length = 0;
+  });
+
+  it("releases a pair's reservation by pair in the DB without in-memory state", async () => {
+    await gridCapitalAllocator.releasePairCapital("ETH/USD");
+
+    expect(calls.updates).toHaveLength(1);
+    expect(calls.updates[0].set.releasedAt).toBeInstanceOf(Date);
+    expect(whereParams(calls.updates[0].where)).toEqual(expect.arrayContaining(["GRID_ISOLATED", "ETH/USD"]));
+  });
+
+  it("releases the previous reservation of the pair before inserting a new one", async () => {
+    const reservation = await gridCapitalAllocator.reserveCapital("BTC/USD", 120, "range_version:7");
+
+    expect(calls.updates).toHaveLength(1);
+    expect(whereParams(calls.updates[0].where)).toEqual(expect.arrayContaining(["GRID_ISOLATED", "BTC/USD"]));
+    expect(calls.inserts[0]).toMatchObject({ id: reservation.id, strategyType: "GRID_ISOLATED", pair: "BTC/USD", exchange: "revolutx", reservedUsd: "120.00" });
+  });
+});
@@ -62,6 +62,20 @@ vi.mock("../../../db", () => ({
   },
 }));
 
+vi.mock("../gridCapitalAllocator", () => ({
+  gridCapitalAllocator: {
+    allocate: vi.fn(),
+    reserveCapital: vi.fn(async () => undefined),
+    releasePairCapital: vi.fn(async () => undefined),
+  },
+}));
+
+vi.mock("../../portfolio/PortfolioAllocationGuard", () => ({
+  portfolioAllocationGuard: {
+    validateGridReservation: vi.fn(async () => ({ passed: true })),
+  },
+}));
+
 import { db } from "../../../db";
 import { GridIsolatedEngine } from "../gridIsolatedEngine";
 import { gridRangeVersions, gridIsolatedLevels, gridIsolatedCycles } from "@shared/schema";
@@ -5,7 +5,7 @@ const updates: any[] = [];
 
 vi.mock("../../../db", () => ({
   db: {
-    select: () => ({ from: () => ({ orderBy: async () => rows.map(row => ({ ...row })) }) }),
+    select: () => ({ from: () => ({ where: () => ({ orderBy: async () => rows.map(row => ({ ...row })) }) }) }),
     insert: () => ({ values: async () => [] }),
     update: () => ({
       set: (payload: any) => ({
@@ -0,0 +1,105 @@
+/**
+ * GridExecutionService.placeOrder — portfolio risk limits (portfolio_risk_limits)
+ * are checked before a BUY reaches the exchange. Goes through the real
+ * PortfolioIntegrationAdapter and PortfolioRiskService; only the portfolio
+ * data and the exchange are stubbed.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const portfolio = vi.hoisted(() => ({
+  limits: [] as any[],
+  exposures: [] as any[],
+}));
+
+vi.mock("../../db", () => ({ db: {} }));
+vi.mock("@shared/schema", () => ({}));
+vi.mock("../../botLogger", () => ({
+  botLogger: {
+    info: vi.fn().mockResolvedValue(undefined),
+    warn: vi.fn().mockResolvedValue(undefined),
+    error: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+vi.mock("../../exchanges/RevolutXService", () => ({
+  revolutXService: {
+    isInitialized: vi.fn().mockReturnValue(true),
+    placeOrder: vi.fn(),
+    cancelOrder: vi.fn(),
+  },
+}));
+vi.mock("../../portfolio/portfolioGlobalService", () => ({
+  portfolioGlobalService: {
+    getRiskLimits: vi.fn(async () => portfolio.limits),
+    getModeExposures: vi.fn(async () => portfolio.exposures),
+    getReservations: vi.fn(async () => []),
+    getSummary: vi.fn(async () => ({ totalValueUsd: 0 })),
+  },
+}));
+vi.mock("../../MarketDataService", () => ({
+  MarketDataService: { getPrice: vi.fn(async () => 95000) },
+}));
+vi.mock("../../marketData/MarketCandleRepository", () => ({
+  MarketCandleRepository: { getRecentCandles: vi.fn(async () => []) },
+}));
+
+import { gridExecutionService } from "../gridExecutionService";
+import { revolutXService } from "../../exchanges/RevolutXService";
+import { portfolioRiskService } from "../../portfolio/PortfolioRiskService";
+
+const btcLimit = (maxExposureUsd: number) => ({
+  asset: "BTC", maxExposureUsd, maxExposurePct: null, maxVarUsd: null, maxCvarUsd: null,
+  enabled: true, updatedBy: null, updatedAt: null,
+});
+
+describe("GridExecutionService — portfolio risk limits", () => {
+  const buy = {
+    pair: "BTC/USD",
+    side: "BUY" as const,
+    price: 95000,
+    quantity: 0.01,
+    clientOrderId: "grid-risk-001",
+    postOnly: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    portfolioRiskService.clearCache();
+    (gridExecutionService as any).circuitBreakerOpen = false;
+    (gridExecutionService as any).dailyOrderCount = 0;
+    portfolio.limits = [];
+    // Spot already holds 0.02 BTC → 1900 USD at 95000
+    portfolio.exposures = [{ mode: "SPOT_NORMAL", asset: "BTC", quantity: 0.02, costBasisUsd: 1800 }];
+    (revolutXService.placeOrder as any).mockResolvedValue({
+      success: true, orderId: "rx-1", volume: 0.01, price: 95000, pendingFill: true,
+    });
+  });
+
+  it("blocks a BUY that would push cross-strategy exposure over the asset limit", async () => {
+    portfolio.limits = [btcLimit(2500)];
+
+    const result = await gridExecutionService.placeOrder(buy);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^RISK_LIMIT: BTC EXPOSURE_USD 2850\.00 > 2500\.00/);
+    expect(revolutXService.placeOrder).not.toHaveBeenCalled();
+  });
+
+  it("places the BUY when it stays within the limit", async () => {
+    portfolio.limits = [btcLimit(5000)];
+
+    const result = await gridExecutionService.placeOrder(buy);
+
+    expect(result.success).toBe(true);
+    expect(revolutXService.placeOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not check risk limits on SELL orders", async () => {
+    portfolio.limits = [btcLimit(100)];
+
+    const result = await gridExecutionService.placeOrder({ ...buy, side: "SELL", clientOrderId: "grid-risk-002" });
+
+    expect(result.success).toBe(true);
+    expect(revolutXService.placeOrder).toHaveBeenCalledTimes(1);
+  });
+});
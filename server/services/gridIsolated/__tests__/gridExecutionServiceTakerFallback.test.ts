@@ -24,6 +24,12 @@ vi.mock("../../exchanges/RevolutXService", () => ({
   },
 }));
 
+vi.mock("../../portfolio/PortfolioIntegrationAdapter", () => ({
+  portfolioIntegrationAdapter: {
+    checkRisk: vi.fn().mockResolvedValue({ allowed: true, breaches: [], reason: null }),
+  },
+}));
+
 import { gridExecutionService } from "../gridExecutionService";
 import { revolutXService } from "../../exchanges/RevolutXService";
 import { botLogger } from "../../botLogger";
@@ -34,6 +34,12 @@ vi.mock("../gridCapitalAllocator", () => ({
   },
 }));
 
+vi.mock("../../marketData/OrderBookDepthService", () => ({
+  OrderBookDepthService: {
+    getDepth: vi.fn().mockResolvedValue(null),
+  },
+}));
+
 vi.mock("../gridProfessionalProjectionContext", () => ({
   resolveGridProfessionalProjectionContext: vi.fn(),
   splitSymmetricLevels: vi.fn(),
@@ -50,6 +56,7 @@ import { MarketDataService } from "../../MarketDataService";
 import { getGridBandSnapshot } from "../gridBandAdapter";
 import { gridCapitalAllocator } from "../gridCapitalAllocator";
 import { resolveGridProfessionalProjectionContext, splitSymmetricLevels } from "../gridProfessionalProjectionContext";
+import { OrderBookDepthService } from "../../marketData/OrderBookDepthService";
 
 const getFreshTickerSnapshotMock = MarketDataService.getFreshTickerSnapshot as any;
 const resolveGridPairConstraintsMock = revolutXService.resolveGridPairConstraints as any;
@@ -58,6 +65,11 @@ const getGridBandSnapshotMock = getGridBandSnapshot as any;
 const allocateMock = gridCapitalAllocator.allocate as any;
 const resolveProjectionMock = resolveGridProfessionalProjectionContext as any;
 const splitMock = splitSymmetricLevels as any;
+const getDepthMock = OrderBookDepthService.getDepth as any;
+
+function depthWithBand50(bidUsd: number, askUsd: number) {
+  return { pair: "BTC/USD", orderbookBias: 0, bands: [{ bps: 50, bidUsd, askUsd, imbalance: 0 }] };
+}
 
 function validTicker(overrides: Partial<any> = {}) {
   return {
@@ -511,6 +523,35 @@ describe("resolveGridPlanningContext — REV-C12E", () => {
     });
     expect(resolveProjectionMock).toHaveBeenCalledTimes(1);
   });
+
+  it("depth L2 por debajo del capital por nivel → ORDERBOOK_DEPTH_INSUFFICIENT", async () => {
+    getDepthMock.mockResolvedValueOnce(depthWithBand50(5000, 60));
+    const result = await resolveGridPlanningContext({
+      pair: "BTC/USD", bandConfig, executionPolicy: "MAKER_ONLY", takerFallbackEnabled: false,
+      allocationInput: validAllocationInput, config: validConfig,
+    });
+    expect(getDepthMock).toHaveBeenCalledWith("BTC/USD", { reason: "GRID_GUARD" });
+    expect(result.gate.blockers).toContain("ORDERBOOK_DEPTH_INSUFFICIENT");
+    expect(result.gate.canCreateRange).toBe(false);
+  });
+
+  it("depth suficiente o no disponible → sin blocker (fail-open)", async () => {
+    getDepthMock.mockResolvedValueOnce(depthWithBand50(5000, 5000));
+    const ok = await resolveGridPlanningContext({
+      pair: "BTC/USD", bandConfig, executionPolicy: "MAKER_ONLY", takerFallbackEnabled: false,
+      allocationInput: validAllocationInput, config: validConfig,
+    });
+    expect(ok.gate.canCreateRange).toBe(true);
+    expect(ok.orderBookDepth).not.toBeNull();
+
+    getDepthMock.mockResolvedValueOnce(null);
+    const noDepth = await resolveGridPlanningContext({
+      pair: "BTC/USD", bandConfig, executionPolicy: "MAKER_ONLY", takerFallbackEnabled: false,
+      allocationInput: validAllocationInput, config: validConfig,
+    });
+    expect(noDepth.gate.canCreateRange).toBe(true);
+    expect(noDepth.orderBookDepth).toBeNull();
+  });
 });
 
 // ─── REV-C12E: Integration tests — orchestrator used in all planning paths ───
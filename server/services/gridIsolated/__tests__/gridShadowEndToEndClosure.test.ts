@@ -121,6 +121,11 @@ vi.mock("../../exchanges/RevolutXService", () => ({
     isInitialized: vi.fn().mockReturnValue(true),
   },
 }));
+vi.mock("../../portfolio/PortfolioAllocationGuard", () => ({
+  portfolioAllocationGuard: {
+    validateGridReservation: vi.fn(async () => ({ passed: true })),
+  },
+}));
 vi.mock("../gridBandAdapter", () => ({ getGridBandSnapshot: vi.fn().mockResolvedValue({ midPrice: 64000, middle: 64000, upper: 67200, lower: 60800, bandWidthPct: 10, atrPct: 5, regime: "normal_lateral", suitableForGrid: true, reason: null }) }));
 vi.mock("../gridModeLockService", () => ({ gridModeLockService: { isModeLocked: vi.fn().mockReturnValue(false), getLockReason: vi.fn().mockReturnValue(null) } }));
 vi.mock("../gridCapitalAllocator", () => ({
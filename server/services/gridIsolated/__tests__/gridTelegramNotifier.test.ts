@@ -0,0 +1,88 @@
+/**
+ * Tests para gridTelegramNotifier (eventos Grid → alertas Telegram).
+ *
+ * GT01. Fill de compra y cierre de ciclo: subtipo, dedupe por ciclo y PnL
+ * GT02. Circuit breaker abierto: HIGH y sin rate limit
+ * GT03. Pump/dump guard y rebuild de rango; dry-runs y eventos internos no notifican
+ * GT04. notifyGridEvent envía al centro y nunca lanza
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({ send: vi.fn() }));
+
+vi.mock("../../TelegramNotificationCenter", () => ({
+  telegramNotificationCenter: { send: mocks.send },
+}));
+
+import { buildGridAlert, notifyGridEvent } from "../gridTelegramNotifier";
+
+const ctx = { pair: "BTC/USD", mode: "SHADOW" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("buildGridAlert", () => {
+  it("GT01. fill de compra y cierre de ciclo", () => {
+    const buy = buildGridAlert("GRID_CYCLE_BUY_FILLED", "buy", { cycleId: "abcdef123456", buyPrice: 100_000, targetSellPrice: 101_000 }, ctx)!;
+    expect(buy).toMatchObject({
+      sourceModule: "GRID_ISOLATED", mode: "grid", alertCategory: "grid",
+      alertType: "grid_cycle_fill", alertSubtype: "grid_cycle_fill", severity: "LOW", cycleId: "abcdef123456",
+    });
+    expect(buy.dedupeKey).toContain("abcdef123456");
+    expect(buy.message).toContain("COMPRA EJECUTADA");
+    expect(buy.message).toContain("abcdef12");
+
+    const sl = buildGridAlert("GRID_CYCLE_STOP_LOSS_HIT", "sl", {
+      cycleId: "abcdef123456", buyPrice: 100_000, sellPrice: 98_000, quantity: 0.001, netPnlUsd: -2.1, netPnlPct: -2.1,
+    }, ctx)!;
+    expect(sl).toMatchObject({ alertType: "grid_cycle_closed", severity: "MEDIUM" });
+    expect(sl.dedupeKey).not.toBe(buy.dedupeKey);
+    expect(sl.message).toContain("$-2.10");
+  });
+
+  it("GT02. circuit breaker abierto", () => {
+    const open = buildGridAlert("GRID_CIRCUIT_BREAKER_OPEN", "Salida bloqueada 3 ticks. Se bloquean nuevas compras Grid hasta revisión.", {
+      cycleId: "c1", currentPrice: 95_000, reviewAfter: new Date("2026-10-01T10:00:00Z"),
+    }, ctx)!;
+    expect(open).toMatchObject({ alertType: "grid_circuit_breaker", severity: "HIGH", skipRateLimit: true });
+    expect(open.message).toContain("Salida bloqueada 3 ticks");
+    expect(open.message).not.toContain("Se bloquean nuevas compras Grid hasta revisión.");
+
+    const resolved = buildGridAlert("GRID_CIRCUIT_BREAKER_RESOLVED", "ok", { resolutionReason: "revisado", resolvedBy: "admin" }, ctx)!;
+    expect(resolved).toMatchObject({ severity: "MEDIUM", skipRateLimit: false });
+    expect(resolved.dedupeKey).not.toBe(open.dedupeKey);
+  });
+
+  it("GT03. pump/dump, rebuild y eventos ignorados", () => {
+    const dump = buildGridAlert("GRID_DUMP_GUARD_TRIGGERED", "Dump", { deviationPct: 4.2, currentPrice: 95_800, midPrice: 100_000 }, ctx)!;
+    expect(dump).toMatchObject({ alertType: "grid_pump_dump_guard", severity: "MEDIUM" });
+    expect(dump.message).toContain("-4.20%");
+
+    const rebuilt = buildGridAlert("GRID_LEVELS_REBUILT", "x", { newRangeVersionId: "r2", oldRangeVersionId: "r1", levelsCount: 12, centerDriftPct: 1.5 }, ctx)!;
+    expect(rebuilt).toMatchObject({ alertType: "grid_range_rebuild", severity: "LOW" });
+    expect(rebuilt.message).toContain("band_drift");
+
+    expect(buildGridAlert("GRID_LEVELS_REBUILT", "x", { trigger: "manual_rebuild_planned_levels" }, ctx)).toBeNull();
+    expect(buildGridAlert("GRID_RANGE_REBUILT_MANUAL", "x", { dryRun: true }, ctx)).toBeNull();
+    expect(buildGridAlert("GRID_RANGE_REBUILT_MANUAL", "x", { newLevelsCount: 8, trigger: "manual_rebuild_planned_levels" }, ctx)).not.toBeNull();
+    expect(buildGridAlert("GRID_PUMP_DUMP_COOLDOWN_END", "x", {}, ctx)).toBeNull();
+  });
+});
+
+describe("notifyGridEvent", () => {
+  it("GT04. envía al centro y absorbe errores", async () => {
+    mocks.send.mockResolvedValueOnce("sent");
+    await notifyGridEvent("GRID_PUMP_GUARD_TRIGGERED", "Pump", { deviationPct: 3, currentPrice: 103_000, midPrice: 100_000 }, ctx);
+    expect(mocks.send).toHaveBeenCalledWith(expect.objectContaining({ mode: "grid", pair: "BTC/USD" }));
+
+    mocks.send.mockRejectedValueOnce(new Error("telegram down"));
+    const spy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    await expect(notifyGridEvent("GRID_PUMP_GUARD_TRIGGERED", "Pump", {}, ctx)).resolves.toBeUndefined();
+    spy.mockRestore();
+
+    await notifyGridEvent("GRID_PUMP_DUMP_COOLDOWN_END", "x", {}, ctx);
+    expect(mocks.send).toHaveBeenCalledTimes(2);
+  });
+});
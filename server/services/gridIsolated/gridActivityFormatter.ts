@@ -40,6 +40,12 @@ interface RawGridEvent {
 }
 
 const EVENT_MAPPINGS: Record<string, { category: GridCategory; severity: GridSeverity; title: string; messageFn?: (ev: RawGridEvent) => string }> = {
+  GRID_INSTANCE_CREATED: {
+    category: "SYSTEM",
+    severity: "INFO",
+    title: "Instancia Grid creada",
+    messageFn: (ev) => `Nueva instancia Grid para ${ev.pair || "par desconocido"} (modo OFF).`,
+  },
   GRID_MODE_CHANGED: {
     category: "SYSTEM",
     severity: "INFO",
@@ -251,6 +257,12 @@ const EVENT_MAPPINGS: Record<string, { category: GridCategory; severity: GridSev
     title: "Capital liberado",
     messageFn: () => "Capital liberado de ciclo Grid.",
   },
+  GRID_CAPITAL_BUDGET_EXCEEDED: {
+    category: "WALLET",
+    severity: "BLOCKED",
+    title: "Budget Grid combinado superado",
+    messageFn: () => "El rango no se activó: la suma de las instancias Grid superaría el budget GRID del portfolio.",
+  },
   GRID_DAILY_ORDER_WARNING: {
     category: "API",
     severity: "WARNING",
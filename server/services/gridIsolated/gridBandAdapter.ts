@@ -7,11 +7,16 @@
  * grid-specific interpretation (band width, regime suitability,
  * mid-price anchoring, range bounds).
  *
+ * Keltner / Donchian channels, session VWAP and the volume profile come from
+ * the incremental indicator store (closed candles only) as extra range
+ * references; they do not affect assessGridSuitability().
+ *
  * Market data is sourced from MarketDataService (central, Kraken).
  */
 
 import { MarketDataService } from "../MarketDataService";
 import { calculateBollingerBands, calculateATR, calculateATRPercent, type PriceData } from "../indicators";
+import { incrementalIndicatorStore, type ChannelValue } from "../incrementalIndicators";
 
 export interface GridBandSnapshot {
   upper: number;
@@ -26,6 +31,10 @@ export interface GridBandSnapshot {
   suitableForGrid: boolean;
   reason: string;
   internallyConsistent: boolean;
+  keltner?: ChannelValue | null;
+  donchian?: ChannelValue | null;
+  vwap?: number | null;
+  volumeProfile?: { poc: number; valueAreaHigh: number; valueAreaLow: number } | null;
 }
 
 export interface GridBandConfig {
@@ -83,6 +92,12 @@ export async function getGridBandSnapshot(config: GridBandConfig): Promise<GridB
       Number.isFinite(atrPct) &&
       atrPct >= 0;
 
+    // Last candle may still be forming — the store only takes closed ones
+    const ext = incrementalIndicatorStore.sync(`${config.pair}:grid_${config.atrTimeframe}`, candles.slice(0, -1), {
+      keltner: { emaPeriod: config.bandPeriod, atrPeriod: config.atrPeriod, multiplier: 2 },
+      donchian: { period: config.bandPeriod },
+    });
+
     return {
       upper: bands.upper,
       middle: bands.middle,
@@ -96,6 +111,12 @@ export async function getGridBandSnapshot(config: GridBandConfig): Promise<GridB
       suitableForGrid,
       reason,
       internallyConsistent,
+      keltner: ext.keltner,
+      donchian: ext.donchian,
+      vwap: ext.vwap?.vwap ?? null,
+      volumeProfile: ext.volumeProfile
+        ? { poc: ext.volumeProfile.poc, valueAreaHigh: ext.volumeProfile.valueAreaHigh, valueAreaLow: ext.volumeProfile.valueAreaLow }
+        : null,
     };
   } catch (error) {
     console.error("[GridBandAdapter] Error fetching band snapshot:", error);
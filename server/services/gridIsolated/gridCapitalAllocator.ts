@@ -7,7 +7,9 @@
  *   - Check existing reservations for other strategies (IDCA, Spot Normal)
  *   - Compute available capital for Grid Isolated
  *   - Allocate capital across grid levels (planned vs financed)
- *   - Reserve capital in strategy_capital_reservations table
+ *   - Reserve capital in strategy_capital_reservations table (one active
+ *     reservation per grid instance / pair). Reservations are looked up by
+ *     strategy type + pair in the DB, so they can be released after a restart.
  *
  * This module ISOLATES Grid capital from IDCA and Spot Normal.
  * It does NOT share inventories or capital pools.
@@ -15,7 +17,7 @@
 
 import { db } from "../../db";
 import { strategyCapitalReservations } from "@shared/schema";
-import { eq, and, isNull } from "drizzle-orm";
+import { eq, and, isNull, ne, desc } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import { botLogger } from "../botLogger";
 import { ExchangeFactory } from "../exchanges/ExchangeFactory";
@@ -30,6 +32,8 @@ import {
 import { computeEffectiveBuyBudget } from "./gridAllocationEngine";
 
 export interface GridCapitalConstraints {
+  /** Grid instance asking for capital; reservations of the other instances are excluded. */
+  pair?: string;
   maxCapitalPerCycleUsd?: number;
   allocationMode?: AllocationMode;
   deploymentMode?: CapitalDeploymentMode;
@@ -55,8 +59,6 @@ export interface CapitalAllocationResult {
 }
 
 class GridCapitalAllocator {
-  private currentReservationId: string | null = null;
-
   /**
    * Get total available USD balance from the trading exchange (Revolut X).
    * Falls back to 0 if exchange not initialized.
@@ -90,8 +92,10 @@ class GridCapitalAllocator {
 
   /**
    * Get existing reservations for other strategies (to exclude from available capital).
+   * When `gridPair` is given, active reservations of the other grid instances
+   * are excluded too, so concurrent grids never plan against the same dollars.
    */
-  async getOtherStrategiesReservedUsd(): Promise<number> {
+  async getOtherStrategiesReservedUsd(gridPair?: string): Promise<number> {
     try {
       const reservations = await db
         .select()
@@ -124,7 +128,25 @@ class GridCapitalAllocator {
         0
       );
 
-      return idcaReserved + spotReserved;
+      let otherGridsReserved = 0;
+      if (gridPair) {
+        const gridReservations = await db
+          .select()
+          .from(strategyCapitalReservations)
+          .where(
+            and(
+              isNull(strategyCapitalReservations.releasedAt),
+              eq(strategyCapitalReservations.strategyType, "GRID_ISOLATED"),
+              ne(strategyCapitalReservations.pair, gridPair)
+            )
+          );
+        otherGridsReserved = gridReservations.reduce(
+          (sum, r) => sum + parseFloat(r.reservedUsd || "0"),
+          0
+        );
+      }
+
+      return idcaReserved + spotReserved + otherGridsReserved;
     } catch {
       return 0;
     }
@@ -141,7 +163,7 @@ class GridCapitalAllocator {
   ): Promise<CapitalAllocationResult> {
     const profileConfig = CAPITAL_PROFILES[profile];
     const totalBalanceUsd = await this.getTotalBalanceUsd();
-    const otherReservedUsd = await this.getOtherStrategiesReservedUsd();
+    const otherReservedUsd = await this.getOtherStrategiesReservedUsd(constraints?.pair);
 
     // Apply profile reserve
     const reservePct = profileConfig.reservePct;
@@ -201,7 +223,8 @@ class GridCapitalAllocator {
   }
 
   /**
-   * Reserve capital in the database for Grid Isolated.
+   * Reserve capital in the database for one Grid Isolated instance.
+   * Replaces the previous reservation of the same pair.
    */
   async reserveCapital(
     pair: string,
@@ -210,34 +233,33 @@ class GridCapitalAllocator {
   ): Promise<CapitalReservation> {
     const id = randomUUID();
 
-    // Release any existing reservation first
-    if (this.currentReservationId) {
-      await this.releaseCapital(this.currentReservationId);
-    }
+    // Release any existing reservation of this instance first (also those left by a previous process)
+    await this.releasePairCapital(pair);
 
     const availableUsd = await this.getTotalBalanceUsd();
+    const exchange = ExchangeFactory.getTradingExchangeType();
 
     await db.insert(strategyCapitalReservations).values({
       id,
       strategyType: "GRID_ISOLATED",
       pair,
+      exchange,
       reservedUsd: amountUsd.toFixed(2),
       availableUsd: availableUsd.toFixed(2),
       reason,
     });
 
-    this.currentReservationId = id;
-
     await botLogger.info(
       "GRID_CAPITAL_RESERVED",
       `Capital reserved for Grid Isolated: $${amountUsd.toFixed(2)} for ${pair}`,
-      { pair, reservedUsd: amountUsd, availableUsd, reservationId: id }
+      { pair, exchange, reservedUsd: amountUsd, availableUsd, reservationId: id }
     );
 
     return {
       id,
       strategyType: "GRID_ISOLATED",
       pair,
+      exchange,
       reservedUsd: amountUsd,
       availableUsd,
       reservedAt: new Date(),
@@ -256,10 +278,6 @@ class GridCapitalAllocator {
         .set({ releasedAt: new Date() })
         .where(eq(strategyCapitalReservations.id, reservationId));
 
-      if (this.currentReservationId === reservationId) {
-        this.currentReservationId = null;
-      }
-
       await botLogger.info(
         "GRID_CAPITAL_RELEASED",
         `Capital reservation released: ${reservationId}`,
@@ -271,10 +289,47 @@ class GridCapitalAllocator {
   }
 
   /**
-   * Get current active reservation.
+   * Release every active reservation of one grid instance, if any.
+   */
+  async releasePairCapital(pair: string): Promise<void> {
+    try {
+      const released = await db
+        .update(strategyCapitalReservations)
+        .set({ releasedAt: new Date() })
+        .where(this.activePairReservation(pair))
+        .returning({ id: strategyCapitalReservations.id });
+
+      if (released.length > 0) {
+        await botLogger.info(
+          "GRID_CAPITAL_RELEASED",
+          `Capital reservation released for Grid Isolated ${pair}`,
+          { pair, reservationIds: released.map(r => r.id) }
+        );
+      }
+    } catch (error) {
+      botLogger.error("SYSTEM_ERROR", `[GridCapitalAllocator] Failed to release capital for ${pair}: ${error}`);
+    }
+  }
+
+  /**
+   * Get current active reservation of one grid instance.
    */
-  getCurrentReservationId(): string | null {
-    return this.currentReservationId;
+  async getCurrentReservationId(pair: string): Promise<string | null> {
+    const rows = await db
+      .select({ id: strategyCapitalReservations.id })
+      .from(strategyCapitalReservations)
+      .where(this.activePairReservation(pair))
+      .orderBy(desc(strategyCapitalReservations.reservedAt))
+      .limit(1);
+    return rows[0]?.id ?? null;
+  }
+
+  private activePairReservation(pair: string) {
+    return and(
+      isNull(strategyCapitalReservations.releasedAt),
+      eq(strategyCapitalReservations.strategyType, "GRID_ISOLATED"),
+      eq(strategyCapitalReservations.pair, pair)
+    );
   }
 }
 
@@ -9,12 +9,15 @@
  *      a. Recover open cycles (resolve + persist target SELL)
  *      b. Start engine tick loop
  *   5. Any other mode: do not start
+ *   6. Secondary instances (one per extra config row / pair) follow the same
+ *      rule via initializeGridSecondaryInstancesAtStartup()
  *
  * Guards prevent duplicate recovery and duplicate scheduler.
  */
 
 import { db } from "../../db";
 import { gridIsolatedEngine } from "./gridIsolatedEngine";
+import { gridIsolatedRegistry } from "./gridIsolatedRegistry";
 import { botLogger } from "../botLogger";
 import type { GridMode, GridIsolatedConfig } from "./gridIsolatedTypes";
 
@@ -165,3 +168,54 @@ export function resetGridStartupState(): void {
 export function isGridStartupCompleted(): boolean {
   return startupCompleted;
 }
+
+/**
+ * Start the non-default Grid instances (one per extra config row) that are
+ * in SHADOW and active. Runs after initializeGridShadowAtStartup(); a failure
+ * in one instance does not block the others.
+ */
+export async function initializeGridSecondaryInstancesAtStartup(
+  enginesOverride?: Array<GridStartupEngineLike & { getPair: () => string }>
+): Promise<Array<GridStartupResult & { pair: string }>> {
+  const engines = enginesOverride ?? (await gridIsolatedRegistry.getSecondaryEngines());
+  const results: Array<GridStartupResult & { pair: string }> = [];
+
+  for (const engine of engines) {
+    const pair = engine.getPair();
+    try {
+      const config = await engine.loadConfig();
+      if (config.mode !== "SHADOW" || !config.isActive) {
+        results.push({
+          pair,
+          started: false,
+          mode: config.mode,
+          isActive: config.isActive,
+          isRunning: engine.getRunning(),
+          reason: config.mode !== "SHADOW" ? `Mode is ${config.mode}; SHADOW required for auto-start` : "isActive is false",
+        });
+        continue;
+      }
+      if (engine.getRunning()) {
+        results.push({ pair, started: true, mode: config.mode, isActive: true, isRunning: true, reason: "Already running" });
+        continue;
+      }
+
+      const recovery = await engine.resolveAndPersistOpenCycleTargets();
+      engine.start();
+      results.push({
+        pair,
+        started: engine.getRunning(),
+        mode: config.mode,
+        isActive: true,
+        isRunning: engine.getRunning(),
+        recovery,
+        reason: engine.getRunning() ? "Grid SHADOW initialized successfully" : "Engine scheduler did not start",
+      });
+    } catch (err: any) {
+      botLogger.error("SYSTEM_ERROR", `[GridCycleStartupService] Initialization failed for ${pair}: ${err}`);
+      results.push({ pair, started: false, reason: "Initialization failed", error: String(err?.message || err) });
+    }
+  }
+
+  return results;
+}
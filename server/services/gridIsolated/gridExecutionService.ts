@@ -16,6 +16,7 @@
  *   - Timeout / 5xx / 429 → do NOT fallback to taker, circuit breaker
  *   - 401/403 → log critical, stop engine
  *   - ORDER_SUBMIT_UNKNOWN → do NOT place another order, circuit breaker
+ *   - BUY over a portfolio risk limit → rejected before any order
  *
  * Rate limiting:
  *   - Uses RevolutXService's built-in rate limiter (250ms FIFO queue)
@@ -29,6 +30,7 @@
 import { ExchangeFactory } from "../exchanges/ExchangeFactory";
 import { revolutXService } from "../exchanges/RevolutXService";
 import { botLogger } from "../botLogger";
+import { portfolioIntegrationAdapter } from "../portfolio/PortfolioIntegrationAdapter";
 import {
   POST_ONLY_MAX_ATTEMPTS,
   CIRCUIT_BREAKER_RETRY_DELAY_MS,
@@ -208,6 +210,19 @@ class GridExecutionService {
       return this.failResult(request, "Revolut X not initialized");
     }
 
+    // Cross-strategy exposure / VaR limits (portfolio_risk_limits) for buys
+    if (request.side === "BUY") {
+      const risk = await portfolioIntegrationAdapter.checkRisk({
+        mode: "GRID",
+        exchange: "revolutx",
+        asset: request.pair.split(/[\/-]/)[0],
+        amountUsd: request.price * request.quantity,
+      });
+      if (!risk.allowed) {
+        return this.failResult(request, risk.reason ?? "RISK_LIMIT");
+      }
+    }
+
     // Phase 1: Try post-only limit orders (maker)
     let postOnlyAttempts = 0;
     let lastError: any = null;
@@ -11,6 +11,11 @@
  *   - Coordinate with PumpDumpGuard, TrailingProtection, StopLoss, HODL
  *   - Enforce daily order limits and circuit breaker
  *
+ * One instance runs per grid_isolated_configs row (one grid per pair); the
+ * registry in gridIsolatedRegistry.ts owns the instances. Every DB read is
+ * scoped to the instance pair so range versions, levels, cycles and the
+ * circuit breaker never leak between instances.
+ *
  * This engine is ISOLATED from Spot Normal and IDCA.
  * It does NOT share inventories, capital, or state.
  */
@@ -31,6 +36,7 @@ import { ExchangeFactory } from "../exchanges/ExchangeFactory";
 import { revolutXService } from "../exchanges/RevolutXService";
 import { gridModeLockService } from "./gridModeLockService";
 import { gridCapitalAllocator, type CapitalAllocationResult } from "./gridCapitalAllocator";
+import { portfolioAllocationGuard } from "../portfolio/PortfolioAllocationGuard";
 import { getGridBandSnapshot } from "./gridBandAdapter";
 import { resolveGridShadowExecutionPrice, type GridShadowExecutionPriceResult, type GridTickContext } from "./gridShadowExecutionPrice";
 import { evaluateShadowMarketPriceFreshness, GRID_SHADOW_PRICE_MAX_AGE_MS } from "./gridShadowMarketPriceFreshness";
@@ -76,6 +82,7 @@ import {
   resolveNewGridCycleExitPolicy,
 } from "./gridCycleOwnedTarget";
 import { gridRiskManager } from "./gridRiskManager";
+import { notifyGridEvent } from "./gridTelegramNotifier";
 import {
   loadRangeVersionsForCycles,
 } from "./gridCycleRangeVersionLoader";
@@ -99,6 +106,7 @@ import {
 } from "./gridJsonbValidators";
 import { resolveGridMarketAndConstraints, resolveGridPlanningContext, type GridPlanningContextResult } from "./gridPlanningContextResolver";
 import { resolveGridPlanningBlockerMetadata } from "./gridPlanningBlockerMetadata";
+import { observeEngineTick } from "../metrics/appMetrics";
 import {
   DEFAULT_GRID_CONFIG,
   DAILY_ORDER_REQUEST_LIMIT,
@@ -398,6 +406,11 @@ type GridRangeProposalResult =
   | { ok: false; reasonCode: string; explanation: string };
 
 export class GridIsolatedEngine {
+  /**
+   * Pair this instance is bound to. null = legacy default instance, which
+   * binds to the first config row (historically the only one).
+   */
+  private readonly instancePair: string | null;
   private config: GridIsolatedConfig | null = null;
   private activeRangeVersion: GridRangeVersion | null = null;
   private referencedRangeVersions: GridRangeVersion[] = [];
@@ -441,13 +454,32 @@ export class GridIsolatedEngine {
   // Updated only during the tick, after allocation is resolved. Read-only from route.
   private lastRecommendationProjectionState: GridRecommendationProjectionState | null = null;
 
+  constructor(instancePair: string | null = null) {
+    this.instancePair = instancePair;
+  }
+
+  /**
+   * Pair of this instance: the loaded config pair, else the pair the
+   * instance was created for, else the default config pair.
+   */
+  getPair(): string {
+    return this.config?.pair ?? this.instancePair ?? DEFAULT_GRID_CONFIG.pair;
+  }
+
+  private selectConfigRows() {
+    const query = db.select().from(gridIsolatedConfigs);
+    return this.instancePair
+      ? query.where(eq(gridIsolatedConfigs.pair, this.instancePair)).orderBy(gridIsolatedConfigs.id).limit(1)
+      : query.orderBy(gridIsolatedConfigs.id).limit(1);
+  }
+
   /**
    * Load config from DB or create default.
    * Does NOT auto-start the engine. Startup is owned by initializeGridShadowAtStartup().
    */
   async loadConfig(): Promise<GridIsolatedConfig> {
     try {
-      const rows = await db.select().from(gridIsolatedConfigs).limit(1);
+      const rows = await this.selectConfigRows();
       if (rows.length > 0) {
         const row = rows[0];
         const originalExecutionPolicy = row.executionPolicy as string | null;
@@ -578,7 +610,7 @@ export class GridIsolatedEngine {
     }
 
     // No config row found — create a safe default config in DB.
-    this.config = { ...DEFAULT_GRID_CONFIG, id: "", createdAt: new Date(), updatedAt: new Date() } as GridIsolatedConfig;
+    this.config = { ...DEFAULT_GRID_CONFIG, pair: this.getPair(), id: "", createdAt: new Date(), updatedAt: new Date() } as GridIsolatedConfig;
     await this.saveConfig();
     return this.config;
   }
@@ -597,7 +629,7 @@ export class GridIsolatedEngine {
 
   private async readConfigSnapshotFromDbInternal(): Promise<GridIsolatedConfig | null> {
     try {
-      const rows = await db.select().from(gridIsolatedConfigs).limit(1);
+      const rows = await this.selectConfigRows();
       if (rows.length > 0) {
         const row = rows[0];
         return {
@@ -1199,7 +1231,7 @@ export class GridIsolatedEngine {
     if (this.running) return;
     this.running = true;
     this.tickInterval = setInterval(() => {
-      this.tick().catch(err => {
+      observeEngineTick("grid", () => this.tick()).catch(err => {
         botLogger.error("SYSTEM_ERROR", `[GridIsolatedEngine] Tick error: ${err}`);
       });
     }, 60_000); // 1 minute tick
@@ -1805,6 +1837,13 @@ export class GridIsolatedEngine {
     }
 
     const { rangeVersionId, gridLevels, professionalGenerator, allocation, generatedLevels, viabilityStatus } = proposal;
+    if (!(await this.passesCombinedGridBudget(allocation.finalGridBudgetUsd))) {
+      await this.logEvent("GRID_LEVELS_PRESERVED_DUE_TO_CYCLE", "El rebuild fue abortado: el budget GRID combinado no cubre el nuevo rango.", {
+        rangeVersionId: oldRange.id,
+        reasonCode: "GRID_CAPITAL_BUDGET_EXCEEDED",
+      });
+      return;
+    }
     const ratio = professionalGenerator.spacingPct > 0
       ? 1 + professionalGenerator.spacingPct / 100
       : 1.0;
@@ -1927,6 +1966,7 @@ export class GridIsolatedEngine {
     }
     this.levels = nextLevels;
     this.activeRangeVersion = newRange;
+    await this.reserveRangeCapital(rangeVersionId, allocation.finalGridBudgetUsd);
 
     await this.logEvent("GRID_RANGE_CHANGED", `El rango activo cambió de ${oldRange.bandLower.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}-${oldRange.bandUpper.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} a ${bandSnapshot.lower.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}-${bandSnapshot.upper.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}.`, {
       oldRangeVersionId: oldRange.id,
@@ -1983,7 +2023,7 @@ export class GridIsolatedEngine {
   private async loadActiveRangeVersion(): Promise<void> {
     try {
       const rows = await db.select().from(gridRangeVersions)
-        .where(eq(gridRangeVersions.status, "active"))
+        .where(and(eq(gridRangeVersions.status, "active"), eq(gridRangeVersions.pair, this.getPair())))
         .orderBy(desc(gridRangeVersions.activatedAt))
         .limit(1);
       if (rows.length > 0) {
@@ -2022,7 +2062,12 @@ export class GridIsolatedEngine {
    */
   private async loadLevels(): Promise<void> {
     try {
-      const rows = await db.select().from(gridIsolatedLevels).orderBy(desc(gridIsolatedLevels.createdAt));
+      // Levels carry no pair; scope them through this pair's range versions.
+      const pairRangeIds = db.select({ id: gridRangeVersions.id }).from(gridRangeVersions)
+        .where(eq(gridRangeVersions.pair, this.getPair()));
+      const rows = await db.select().from(gridIsolatedLevels)
+        .where(inArray(gridIsolatedLevels.rangeVersionId, pairRangeIds))
+        .orderBy(desc(gridIsolatedLevels.createdAt));
       this.levels = rows.map((row) => ({
         id: row.id,
         rangeVersionId: row.rangeVersionId,
@@ -2059,7 +2104,9 @@ export class GridIsolatedEngine {
    */
   private async loadCycles(): Promise<void> {
     try {
-      const rows = await db.select().from(gridIsolatedCycles).orderBy(desc(gridIsolatedCycles.createdAt));
+      const rows = await db.select().from(gridIsolatedCycles)
+        .where(eq(gridIsolatedCycles.pair, this.getPair()))
+        .orderBy(desc(gridIsolatedCycles.createdAt));
       this.cycles = rows.map((row) => ({
         id: row.id,
         rangeVersionId: row.rangeVersionId,
@@ -2323,6 +2370,9 @@ export class GridIsolatedEngine {
     }
 
     const { rangeVersionId, gridLevels, professionalGenerator, allocation, generatedLevels, viabilityStatus } = proposal;
+    if (!(await this.passesCombinedGridBudget(allocation.finalGridBudgetUsd))) {
+      return { ok: false, reasonCode: "GRID_CAPITAL_BUDGET_EXCEEDED", explanation: "El budget GRID combinado de todas las instancias no cubre este rango." };
+    }
     const versionNumber = await this.getNextVersionNumber();
     const activatedAt = new Date();
     const shadowRatio = professionalGenerator.spacingPct > 0
@@ -2406,6 +2456,7 @@ export class GridIsolatedEngine {
       closedAt: null,
     };
     this.levels = gridLevels;
+    await this.reserveRangeCapital(rangeVersionId, allocation.finalGridBudgetUsd);
 
     await this.logEvent("GRID_PROFESSIONAL_GENERATOR_USED", `Generador profesional (spacing acumulativo): ${generatedLevels.length} niveles generados con viabilidad ${viabilityStatus}.`, {
       rangeVersionId,
@@ -2454,6 +2505,43 @@ export class GridIsolatedEngine {
     return { ok: true, rangeVersion: this.activeRangeVersion, levels: gridLevels };
   }
 
+  /**
+   * Combined budget of all grid instances (PortfolioAllocationGuard, GRID
+   * budget of the trading exchange). Fails closed: if the guard cannot be
+   * read, the range is not activated.
+   */
+  private async passesCombinedGridBudget(amountUsd: number): Promise<boolean> {
+    try {
+      const exchange = ExchangeFactory.getTradingExchangeType();
+      const check = await portfolioAllocationGuard.validateGridReservation(exchange, this.getPair(), amountUsd);
+      if (check.passed) return true;
+      await this.logEvent("GRID_CAPITAL_BUDGET_EXCEEDED", `Rango no activado: ${check.reason}`, {
+        requestedUsd: check.requestedUsd,
+        otherInstancesReservedUsd: check.otherInstancesReservedUsd,
+        gridBudgetUsd: check.gridBudgetUsd,
+        shortfallUsd: check.shortfallUsd,
+      });
+      return false;
+    } catch (error) {
+      botLogger.error("SYSTEM_ERROR", `[GridIsolatedEngine] Combined grid budget check failed: ${error}`);
+      await this.logEvent("GRID_CAPITAL_BUDGET_EXCEEDED", `Rango no activado: presupuesto combinado no verificable (${error})`, {
+        requestedUsd: amountUsd,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Reserve the active range budget for this instance in strategy_capital_reservations.
+   */
+  private async reserveRangeCapital(rangeVersionId: string, amountUsd: number): Promise<void> {
+    try {
+      await gridCapitalAllocator.reserveCapital(this.getPair(), amountUsd, `range_version:${rangeVersionId}`);
+    } catch (error) {
+      botLogger.error("SYSTEM_ERROR", `[GridIsolatedEngine] Failed to reserve capital: ${error}`);
+    }
+  }
+
   /**
    * Pause active range version.
    * Updates DB and in-memory state, and deduplicates repeated GRID_RANGE_PAUSED events.
@@ -2483,6 +2571,7 @@ export class GridIsolatedEngine {
     this.activeRangeVersion.status = "paused";
     this.lastPausedEventKey = eventKey;
     this.lastPausedEventAt = new Date();
+    await gridCapitalAllocator.releasePairCapital(this.getPair());
 
     await this.logEvent("GRID_RANGE_PAUSED", `Rango pausado: ${reason}`, {
       rangeVersionId: this.activeRangeVersion.id, reason,
@@ -3553,7 +3642,7 @@ export class GridIsolatedEngine {
     return {
       id: level.id,
       rangeVersionId: level.rangeVersionId,
-      pair: this.config?.pair ?? "BTC/USD",
+      pair: this.getPair(),
       buyPrice: fillPrice,
       quantity: level.quantity,
     };
@@ -4298,7 +4387,7 @@ export class GridIsolatedEngine {
    */
   private async logEvent(eventType: GridEventType, message: string, meta?: Record<string, any>): Promise<void> {
     const mode = this.config?.mode || "OFF";
-    const pair = this.config?.pair || "BTC/USD";
+    const pair = this.getPair();
 
     // Log to botLogger (central event system)
     await botLogger.info(eventType as any, message, { ...meta, pair, mode, source: "GRID_ISOLATED" });
@@ -4318,6 +4407,9 @@ export class GridIsolatedEngine {
     } catch {
       // Non-fatal if grid events table doesn't exist yet
     }
+
+    // Operator-facing events also go to Telegram (non-blocking, never throws)
+    void notifyGridEvent(eventType, message, meta, { pair, mode });
   }
 
   /**
@@ -4508,7 +4600,7 @@ export class GridIsolatedEngine {
     }
 
     // Read config from DB
-    const configRows = await db.select().from(gridIsolatedConfigs).limit(1);
+    const configRows = await this.selectConfigRows();
     if (configRows.length === 0) {
       return {
         mode: "OFF",
@@ -4548,17 +4640,9 @@ export class GridIsolatedEngine {
     }
 
     const cfg = configRows[0];
-
-    // Read active range version from DB
-    const rangeRows = await db.select().from(gridRangeVersions)
-      .where(eq(gridRangeVersions.status, "active"))
-      .orderBy(desc(gridRangeVersions.createdAt))
-      .limit(1);
-    const activeRange = rangeRows.length > 0 ? rangeRows[0] : null;
+    const { activeRange, allLevels, allCycles } = await this.readPairSnapshotFromDb(cfg.pair);
     const activeRangeId = activeRange?.id ?? null;
 
-    // Read all levels from DB
-    const allLevels = await db.select().from(gridIsolatedLevels).limit(10000);
     const activeLevels = activeRangeId
       ? allLevels.filter(l => l.rangeVersionId === activeRangeId)
       : [];
@@ -4584,8 +4668,6 @@ export class GridIsolatedEngine {
       ? allLevels.filter(l => l.rangeVersionId !== activeRangeId && l.status === "planned").length
       : allLevels.filter(l => l.status === "planned").length;
 
-    // Read all cycles from DB
-    const allCycles = await db.select().from(gridIsolatedCycles).limit(10000);
     const openCycles = allCycles.filter(c =>
       OPEN_POSITION_GRID_CYCLE_STATUSES.includes(c.status as any)
     ).length;
@@ -4660,6 +4742,26 @@ export class GridIsolatedEngine {
   /**
    * Get current config.
    */
+  /**
+   * Read the active range, levels and cycles of one pair straight from DB.
+   * Levels carry no pair, so they are matched through the pair's range versions.
+   */
+  private async readPairSnapshotFromDb(pair: string) {
+    const pairRanges = await db.select().from(gridRangeVersions)
+      .where(eq(gridRangeVersions.pair, pair))
+      .limit(10000);
+    const activeRange = pairRanges
+      .filter(r => r.status === "active")
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0] ?? null;
+    const pairRangeIds = db.select({ id: gridRangeVersions.id }).from(gridRangeVersions)
+      .where(eq(gridRangeVersions.pair, pair));
+    const allLevels = await db.select().from(gridIsolatedLevels)
+      .where(inArray(gridIsolatedLevels.rangeVersionId, pairRangeIds));
+    const allCycles = await db.select().from(gridIsolatedCycles)
+      .where(eq(gridIsolatedCycles.pair, pair));
+    return { activeRange, allLevels, allCycles };
+  }
+
   getConfig(): GridIsolatedConfig | null {
     return this.config;
   }
@@ -4669,16 +4771,8 @@ export class GridIsolatedEngine {
    * Returns a diagnostic report of cycles/levels that could be archived/reset.
    */
   async shadowCleanupPreview(): Promise<any> {
-    // Read all cycles from DB
-    const allCycles = await db.select().from(gridIsolatedCycles).limit(10000);
-    // Read all levels from DB
-    const allLevels = await db.select().from(gridIsolatedLevels).limit(10000);
-    // Read active range from DB
-    const rangeRows = await db.select().from(gridRangeVersions)
-      .where(eq(gridRangeVersions.status, "active"))
-      .orderBy(desc(gridRangeVersions.createdAt))
-      .limit(1);
-    const activeRangeId = rangeRows.length > 0 ? rangeRows[0].id : null;
+    const { activeRange, allLevels, allCycles } = await this.readPairSnapshotFromDb(this.getPair());
+    const activeRangeId = activeRange?.id ?? null;
 
     // ─── A) Cycle analysis ─────────────────────────────────
     const openCycles = allCycles.filter(c => OPEN_POSITION_GRID_CYCLE_STATUSES.includes(c.status as any));
@@ -5333,7 +5427,7 @@ export class GridIsolatedEngine {
       return resolveExecutionGateState(this.lastExecutionGate, new Date());
     }
     // No evaluation since startup — return SIN_EVALUACION_RECIENTE state
-    const pair = this.config?.pair ?? "BTC/USD";
+    const pair = this.getPair();
     return buildNoEvaluationGateState(pair);
   }
 
@@ -5553,6 +5647,7 @@ export class GridIsolatedEngine {
       10, // initial estimate
       configSnapshot.netProfitTargetPct,
       {
+        pair: configSnapshot.pair,
         maxCapitalPerCycleUsd: configSnapshot.gridMaxCapitalPerCycleUsd ?? 0,
         allocationMode: configSnapshot.gridAllocationMode ?? "uniform",
         deploymentMode: configSnapshot.gridCapitalDeploymentMode ?? "capped",
@@ -5885,7 +5980,10 @@ export class GridIsolatedEngine {
       const fiveMinAgo = new Date(Date.now() - 5 * 60 * 1000);
       const result = await db.select({ id: gridIsolatedEvents.id })
         .from(gridIsolatedEvents)
-        .where(sql`${gridIsolatedEvents.createdAt} > ${fiveMinAgo}`);
+        .where(and(
+          sql`${gridIsolatedEvents.createdAt} > ${fiveMinAgo}`,
+          eq(gridIsolatedEvents.pair, this.getPair()),
+        ));
       return result.length;
     } catch {
       return 0;
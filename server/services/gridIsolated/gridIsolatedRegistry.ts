@@ -0,0 +1,161 @@
+/**
+ * GridIsolatedRegistry — one GridIsolatedEngine per grid_isolated_configs row.
+ *
+ * Each instance is bound to a pair and owns its own config row, range
+ * versions, levels, cycles, circuit breaker and capital reservation
+ * (strategy_capital_reservations, strategyType GRID_ISOLATED).
+ *
+ * The legacy singleton `gridIsolatedEngine` stays the default instance: it
+ * binds to the first config row and answers every request without `pair`.
+ *
+ * Instances are only created from existing config rows or explicitly via
+ * create(); resolving an unknown pair never inserts a config row.
+ */
+
+import { db } from "../../db";
+import { gridIsolatedConfigs } from "@shared/schema";
+import { asc, eq } from "drizzle-orm";
+import { botLogger } from "../botLogger";
+import { GridIsolatedEngine, gridIsolatedEngine } from "./gridIsolatedEngine";
+import type { GridMode } from "./gridIsolatedTypes";
+
+const GRID_PAIR_PATTERN = /^[A-Z0-9]{2,10}\/USD$/;
+
+export interface GridInstanceSummary {
+  pair: string;
+  mode: GridMode;
+  isActive: boolean;
+  isRunning: boolean;
+  isDefault: boolean;
+}
+
+export class GridInstanceError extends Error {
+  constructor(public readonly code: "INVALID_PAIR" | "INSTANCE_EXISTS" | "INSTANCE_NOT_FOUND", message: string) {
+    super(message);
+    this.name = "GridInstanceError";
+  }
+}
+
+export function isValidGridPair(pair: string): boolean {
+  return GRID_PAIR_PATTERN.test(pair);
+}
+
+class GridIsolatedRegistry {
+  private engines = new Map<string, GridIsolatedEngine>();
+
+  /**
+   * Default (legacy) instance. Its pair comes from the first config row.
+   */
+  getDefault(): GridIsolatedEngine {
+    return gridIsolatedEngine;
+  }
+
+  private async defaultPair(): Promise<string> {
+    if (!gridIsolatedEngine.getConfig()) {
+      await gridIsolatedEngine.loadConfig();
+    }
+    return gridIsolatedEngine.getPair();
+  }
+
+  /**
+   * Pairs with a config row, in creation order.
+   */
+  async listPairs(): Promise<string[]> {
+    const rows = await db
+      .select({ pair: gridIsolatedConfigs.pair })
+      .from(gridIsolatedConfigs)
+      .orderBy(asc(gridIsolatedConfigs.id));
+    return rows.map((r) => r.pair);
+  }
+
+  /**
+   * Engine for a pair. No pair (or the default pair) returns the default
+   * instance. Throws INSTANCE_NOT_FOUND if the pair has no config row.
+   */
+  async resolve(pair?: string | null): Promise<GridIsolatedEngine> {
+    if (!pair) return gridIsolatedEngine;
+    if (pair === (await this.defaultPair())) return gridIsolatedEngine;
+
+    const cached = this.engines.get(pair);
+    if (cached) return cached;
+
+    const rows = await db
+      .select({ id: gridIsolatedConfigs.id })
+      .from(gridIsolatedConfigs)
+      .where(eq(gridIsolatedConfigs.pair, pair))
+      .limit(1);
+    if (rows.length === 0) {
+      throw new GridInstanceError("INSTANCE_NOT_FOUND", `No Grid Isolated instance for ${pair}`);
+    }
+
+    const engine = new GridIsolatedEngine(pair);
+    await engine.loadConfig();
+    this.engines.set(pair, engine);
+    return engine;
+  }
+
+  /**
+   * Create a new instance (config row with defaults, mode OFF). Does not start it.
+   */
+  async create(pair: string): Promise<GridIsolatedEngine> {
+    if (!isValidGridPair(pair)) {
+      throw new GridInstanceError("INVALID_PAIR", `Invalid pair ${pair}; expected BASE/USD`);
+    }
+    const pairs = await this.listPairs();
+    if (pairs.includes(pair)) {
+      throw new GridInstanceError("INSTANCE_EXISTS", `Grid Isolated instance for ${pair} already exists`);
+    }
+
+    // loadConfig() inserts the default config row bound to this pair
+    const engine = new GridIsolatedEngine(pair);
+    await engine.loadConfig();
+    this.engines.set(pair, engine);
+
+    await botLogger.info("GRID_INSTANCE_CREATED", `Grid Isolated instance created for ${pair}`, { pair });
+    return engine;
+  }
+
+  /**
+   * All instances with their runtime state. Instances not yet loaded in
+   * memory are resolved (config loaded, not started).
+   */
+  async listInstances(): Promise<GridInstanceSummary[]> {
+    const defaultPair = await this.defaultPair();
+    const pairs = await this.listPairs();
+    const result: GridInstanceSummary[] = [];
+    for (const pair of pairs) {
+      const engine = await this.resolve(pair);
+      const config = engine.getConfig();
+      result.push({
+        pair,
+        mode: config?.mode ?? "OFF",
+        isActive: config?.isActive ?? false,
+        isRunning: engine.isRunning(),
+        isDefault: pair === defaultPair,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Non-default instances, resolving every config row.
+   */
+  async getSecondaryEngines(): Promise<GridIsolatedEngine[]> {
+    const defaultPair = await this.defaultPair();
+    const engines: GridIsolatedEngine[] = [];
+    for (const pair of await this.listPairs()) {
+      if (pair === defaultPair) continue;
+      engines.push(await this.resolve(pair));
+    }
+    return engines;
+  }
+
+  /**
+   * Drop cached secondary engines. Useful for tests.
+   */
+  reset(): void {
+    this.engines.clear();
+  }
+}
+
+export const gridIsolatedRegistry = new GridIsolatedRegistry();
@@ -770,6 +770,7 @@ export const REAL_MODE_UNLOCK_DEFAULTS: ModeUnlockCheck = {
 
 export const GRID_EVENT_TYPES = [
   "GRID_MODE_CHANGED",
+  "GRID_INSTANCE_CREATED",
   "GRID_RANGE_PROPOSED",
   "GRID_RANGE_ACTIVATED",
   "GRID_RANGE_PAUSED",
@@ -799,6 +800,7 @@ export const GRID_EVENT_TYPES = [
   "GRID_RECONCILIATION_BLOCKED",
   "GRID_CAPITAL_RESERVED",
   "GRID_CAPITAL_RELEASED",
+  "GRID_CAPITAL_BUDGET_EXCEEDED",
   "GRID_DAILY_ORDER_WARNING",
   "GRID_DAILY_ORDER_LIMIT_HIT",
   "GRID_CIRCUIT_BREAKER_OPENED",
@@ -968,6 +970,7 @@ export interface CapitalReservation {
   id: string;
   strategyType: "GRID_ISOLATED";
   pair: string;
+  exchange: string;
   reservedUsd: number;
   availableUsd: number;
   reservedAt: Date;
@@ -14,6 +14,7 @@
  *   5. resolveGridExecutionCapability() — Revolut X execution readiness
  *   6. buildGridExecutionMarketSnapshot() — execution market snapshot
  *   7. gridCapitalAllocator.allocate() — allocation (one call, only when allowed)
+ *   7b. OrderBookDepthService.getDepth() — L2 depth vs capital per level (fail-open)
  *   8. splitSymmetricLevels() — symmetric split
  *   9. resolveGridProfessionalProjectionContext() — projection context (one call)
  *  10. computeGateTtl() — TTL (one call)
@@ -35,6 +36,7 @@ import { buildGridExecutionMarketSnapshot, type GridExecutionMarketSnapshot } fr
 import { computeGateTtl, type GateTtlResult } from "./gridExecutionGateTtl";
 import { resolveGridProfessionalProjectionContext, splitSymmetricLevels, type ProjectionContextResult } from "./gridProfessionalProjectionContext";
 import { gridCapitalAllocator, type CapitalAllocationResult } from "./gridCapitalAllocator";
+import { OrderBookDepthService, type OrderBookDepthMetrics } from "../marketData/OrderBookDepthService";
 import type {
   GridReferenceMarketSnapshot,
   GridExecutionCapabilitySnapshot,
@@ -43,6 +45,9 @@ import type {
 import type { MarketTickerSnapshot } from "../MarketDataService";
 import type { RevolutXPairConstraints } from "../exchanges/RevolutXService";
 
+/** Band (bps from mid) where each side must hold at least one level's notional. */
+export const GRID_DEPTH_BAND_BPS = 50;
+
 // ─── Allocation input ─────────────────────────────────────────────
 export interface GridAllocationInput {
   capitalProfile: string;
@@ -84,6 +89,8 @@ export interface GridPlanningContextResult {
   executionMarketSnapshot: GridExecutionMarketSnapshot;
   // Allocation (null when not allowed or allocationInput not provided)
   allocation: CapitalAllocationResult | null;
+  // L2 depth (null when allocation is null or depth unavailable)
+  orderBookDepth: OrderBookDepthMetrics | null;
   // Symmetric split (null when allocation is null or split fails)
   symmetricSplit: { ok: boolean; buyLevels?: number; sellLevels?: number } | null;
   // Projection context result (null when allocation is null or projection fails)
@@ -264,6 +271,7 @@ export async function resolveGridPlanningContext(
           10,
           input.allocationInput.netProfitTargetPct,
           {
+            pair: input.pair,
             maxCapitalPerCycleUsd: input.allocationInput.maxCapitalPerCycleUsd,
             allocationMode: input.allocationInput.allocationMode as any,
             deploymentMode: input.allocationInput.deploymentMode as any,
@@ -279,6 +287,17 @@ export async function resolveGridPlanningContext(
     }
   }
 
+  // 7b. Order-book depth — each side must absorb one level within the band.
+  // Fail-open: no depth data → no blocker.
+  let orderBookDepth: OrderBookDepthMetrics | null = null;
+  if (allocation && allocation.capitalPerLevelUsd > 0) {
+    orderBookDepth = await OrderBookDepthService.getDepth(input.pair, { reason: "GRID_GUARD" }).catch(() => null);
+    const band = orderBookDepth?.bands.find(b => b.bps === GRID_DEPTH_BAND_BPS);
+    if (band && Math.min(band.bidUsd, band.askUsd) < allocation.capitalPerLevelUsd) {
+      blockers.push("ORDERBOOK_DEPTH_INSUFFICIENT");
+    }
+  }
+
   // 8. Symmetric split
   let symmetricSplit: { ok: boolean; buyLevels?: number; sellLevels?: number } | null = null;
   if (allocation) {
@@ -357,6 +376,7 @@ export async function resolveGridPlanningContext(
     executionCapability,
     executionMarketSnapshot,
     allocation,
+    orderBookDepth,
     symmetricSplit,
     projectionContextResult,
     ttl,
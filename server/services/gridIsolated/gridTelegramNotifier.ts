@@ -0,0 +1,185 @@
+/**
+ * Grid Isolated — Telegram notifier
+ *
+ * Traduce los eventos de gridIsolatedEngine.logEvent() relevantes para el
+ * operador (fills de ciclo, circuit breaker, pump/dump guard, rebuild de
+ * rango) a alertas del TelegramNotificationCenter con mode="grid".
+ *
+ * El centro aplica kill switch, severidad, quiet hours, reglas, dedupe,
+ * rate limit y routing por canal (enabledModes "grid" + enabledAlerts "grid"
+ * + alertPreferences por subtipo). Este módulo nunca lanza: un fallo de
+ * Telegram no debe afectar al motor.
+ */
+
+import type { GridEventType } from "./gridIsolatedTypes";
+import type { AlertSeverity, NormalizedAlert } from "../TelegramNotificationCenter";
+import {
+  buildGridCycleFillHTML,
+  buildGridCircuitBreakerHTML,
+  buildGridPumpDumpGuardHTML,
+  buildGridRangeRebuildHTML,
+  type GridCycleFillKind,
+} from "../telegram/templates";
+
+export interface GridNotifyContext {
+  pair: string;
+  mode: string;
+}
+
+const CYCLE_FILL_KINDS: Partial<Record<GridEventType, GridCycleFillKind>> = {
+  GRID_CYCLE_BUY_FILLED: "BUY_FILLED",
+  GRID_CYCLE_COMPLETED: "COMPLETED",
+  GRID_CYCLE_TRAILING_CLOSED: "TRAILING_CLOSED",
+  GRID_CYCLE_STOP_LOSS_HIT: "STOP_LOSS_HIT",
+};
+
+const num = (v: unknown): number | null => {
+  const n = typeof v === "number" ? v : parseFloat(String(v ?? ""));
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Construye la alerta para un evento Grid, o null si el evento no se notifica.
+ * Función pura (sin I/O) para poder testear el mapeo.
+ */
+export function buildGridAlert(
+  eventType: GridEventType,
+  message: string,
+  meta: Record<string, any> | undefined,
+  ctx: GridNotifyContext,
+): NormalizedAlert | null {
+  const m = meta ?? {};
+  const mode = String(m.mode ?? ctx.mode);
+  const base = { sourceModule: "GRID_ISOLATED", mode: "grid" as const, pair: ctx.pair, alertCategory: "grid" as const };
+
+  const fillKind = CYCLE_FILL_KINDS[eventType];
+  if (fillKind) {
+    const cycleId = m.cycleId ? String(m.cycleId) : undefined;
+    const isBuy = fillKind === "BUY_FILLED";
+    const alertType = isBuy ? "grid_cycle_fill" : "grid_cycle_closed";
+    const severity: AlertSeverity = fillKind === "STOP_LOSS_HIT" ? "MEDIUM" : "LOW";
+    return {
+      ...base,
+      alertType,
+      alertSubtype: alertType,
+      severity,
+      cycleId,
+      dedupeKey: `GRID_ISOLATED:${alertType}:${cycleId ?? ctx.pair}:${fillKind}`,
+      message: buildGridCycleFillHTML({
+        kind: fillKind,
+        pair: ctx.pair,
+        mode,
+        cycleId,
+        buyPrice: num(m.buyPrice),
+        sellPrice: num(m.sellPrice),
+        targetSellPrice: num(m.targetSellPrice),
+        quantity: num(m.quantity),
+        netPnlUsd: num(m.netPnlUsd),
+        netPnlPct: num(m.netPnlPct),
+      }),
+    };
+  }
+
+  switch (eventType) {
+    case "GRID_CIRCUIT_BREAKER_OPEN":
+    case "GRID_CIRCUIT_BREAKER_RESOLVED": {
+      const open = eventType === "GRID_CIRCUIT_BREAKER_OPEN";
+      return {
+        ...base,
+        alertType: "grid_circuit_breaker",
+        alertSubtype: "grid_circuit_breaker",
+        severity: open ? "HIGH" : "MEDIUM",
+        cycleId: m.cycleId ? String(m.cycleId) : undefined,
+        dedupeKey: `GRID_ISOLATED:grid_circuit_breaker:${ctx.pair}:${open ? "open" : "resolved"}`,
+        // Un circuit breaker abierto bloquea compras: debe llegar aunque el cupo horario esté agotado
+        skipRateLimit: open,
+        message: buildGridCircuitBreakerHTML({
+          state: open ? "OPEN" : "RESOLVED",
+          pair: ctx.pair,
+          mode,
+          reason: open ? message.replace(/\. Se bloquean.*$/, "") : String(m.resolutionReason ?? message),
+          currentPrice: num(m.currentPrice),
+          reviewAfter: m.reviewAfter ?? null,
+          resolvedBy: m.resolvedBy ?? null,
+        }),
+      };
+    }
+    case "GRID_PUMP_GUARD_TRIGGERED":
+    case "GRID_DUMP_GUARD_TRIGGERED": {
+      const direction = eventType === "GRID_PUMP_GUARD_TRIGGERED" ? "PUMP" : "DUMP";
+      return {
+        ...base,
+        alertType: "grid_pump_dump_guard",
+        alertSubtype: "grid_pump_dump_guard",
+        severity: "MEDIUM",
+        dedupeKey: `GRID_ISOLATED:grid_pump_dump_guard:${ctx.pair}:${direction}`,
+        message: buildGridPumpDumpGuardHTML({
+          direction,
+          pair: ctx.pair,
+          mode,
+          deviationPct: num(m.deviationPct) ?? 0,
+          currentPrice: num(m.currentPrice) ?? 0,
+          midPrice: num(m.midPrice) ?? 0,
+        }),
+      };
+    }
+    case "GRID_LEVELS_REBUILT": {
+      // El rebuild manual ya emite GRID_RANGE_REBUILT_MANUAL; dry-runs no cambian nada
+      if (m.trigger === "manual_rebuild_planned_levels" || m.dryRun) return null;
+      return {
+        ...base,
+        alertType: "grid_range_rebuild",
+        alertSubtype: "grid_range_rebuild",
+        severity: "LOW",
+        dedupeKey: `GRID_ISOLATED:grid_range_rebuild:${m.newRangeVersionId ?? ctx.pair}`,
+        message: buildGridRangeRebuildHTML({
+          pair: ctx.pair,
+          mode,
+          trigger: "band_drift",
+          levelsCount: num(m.levelsCount),
+          centerDriftPct: num(m.centerDriftPct),
+          regime: m.regime ?? null,
+          oldRangeVersionId: m.oldRangeVersionId ?? null,
+          newRangeVersionId: m.newRangeVersionId ?? null,
+        }),
+      };
+    }
+    case "GRID_RANGE_REBUILT_MANUAL": {
+      if (m.dryRun) return null;
+      return {
+        ...base,
+        alertType: "grid_range_rebuild",
+        alertSubtype: "grid_range_rebuild",
+        severity: "LOW",
+        dedupeKey: `GRID_ISOLATED:grid_range_rebuild:${m.newRangeVersionId ?? ctx.pair}`,
+        message: buildGridRangeRebuildHTML({
+          pair: ctx.pair,
+          mode,
+          trigger: String(m.trigger ?? "manual"),
+          levelsCount: num(m.newLevelsCount),
+          oldRangeVersionId: m.oldRangeVersionId ?? null,
+          newRangeVersionId: m.newRangeVersionId ?? null,
+        }),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Envía (fire-and-forget) la alerta Telegram asociada a un evento Grid, si la hay. */
+export async function notifyGridEvent(
+  eventType: GridEventType,
+  message: string,
+  meta: Record<string, any> | undefined,
+  ctx: GridNotifyContext,
+): Promise<void> {
+  try {
+    const alert = buildGridAlert(eventType, message, meta, ctx);
+    if (!alert) return;
+    const { telegramNotificationCenter } = await import("../TelegramNotificationCenter");
+    await telegramNotificationCenter.send(alert);
+  } catch (err: any) {
+    console.error(`[grid/telegram] Failed to notify ${eventType}:`, err?.message || err);
+  }
+}
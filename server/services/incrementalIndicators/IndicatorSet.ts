@@ -0,0 +1,186 @@
+/**
+ * IndicatorSet — one instance of every incremental calculator for a single
+ * candle series (pair + timeframe), plus a process-wide store keyed by
+ * series so each scan only feeds the candles closed since the last one.
+ */
+
+import { StochRsi, type StochRsiValue } from "./oscillators";
+import {
+  DonchianChannels,
+  Ichimoku,
+  KeltnerChannels,
+  Supertrend,
+  type ChannelValue,
+  type IchimokuValue,
+  type SupertrendValue,
+} from "./trend";
+import type { IncrementalIndicator, IndicatorCandle } from "./types";
+import { Obv, VolumeProfile, Vwap, type ObvValue, type VolumeProfileValue, type VwapMode, type VwapValue } from "./volume";
+
+export interface IndicatorSetConfig {
+  vwap: VwapMode;
+  stochRsi: { rsiPeriod: number; stochPeriod: number; kSmoothing: number; dSmoothing: number };
+  supertrend: { period: number; multiplier: number };
+  obv: { slopePeriod: number };
+  keltner: { emaPeriod: number; atrPeriod: number; multiplier: number };
+  donchian: { period: number };
+  ichimoku: { tenkanPeriod: number; kijunPeriod: number; spanBPeriod: number; displacement: number };
+  volumeProfile: { window: number; binCount: number; valueAreaPct: number };
+}
+
+export const DEFAULT_INDICATOR_SET_CONFIG: IndicatorSetConfig = {
+  vwap: { kind: "session" },
+  stochRsi: { rsiPeriod: 14, stochPeriod: 14, kSmoothing: 3, dSmoothing: 3 },
+  supertrend: { period: 10, multiplier: 3 },
+  obv: { slopePeriod: 10 },
+  keltner: { emaPeriod: 20, atrPeriod: 10, multiplier: 2 },
+  donchian: { period: 20 },
+  ichimoku: { tenkanPeriod: 9, kijunPeriod: 26, spanBPeriod: 52, displacement: 26 },
+  volumeProfile: { window: 96, binCount: 24, valueAreaPct: 0.7 },
+};
+
+export interface IndicatorSnapshot {
+  /** Time of the last candle fed (same unit as the input candles) */
+  lastTime: number | null;
+  candles: number;
+  close: number | null;
+  vwap: VwapValue | null;
+  /** (close - vwap) / vwap × 100 */
+  priceVsVwapPct: number | null;
+  stochRsi: StochRsiValue | null;
+  supertrend: SupertrendValue | null;
+  obv: ObvValue | null;
+  keltner: ChannelValue | null;
+  donchian: ChannelValue | null;
+  ichimoku: IchimokuValue | null;
+  volumeProfile: Omit<VolumeProfileValue, "bins"> | null;
+}
+
+export class IndicatorSet {
+  readonly vwap: Vwap;
+  readonly stochRsi: StochRsi;
+  readonly supertrend: Supertrend;
+  readonly obv: Obv;
+  readonly keltner: KeltnerChannels;
+  readonly donchian: DonchianChannels;
+  readonly ichimoku: Ichimoku;
+  readonly volumeProfile: VolumeProfile;
+
+  private readonly all: IncrementalIndicator<unknown>[];
+  private lastTime: number | null = null;
+  private lastClose: number | null = null;
+  private count = 0;
+
+  constructor(config: Partial<IndicatorSetConfig> = {}) {
+    const c = { ...DEFAULT_INDICATOR_SET_CONFIG, ...config };
+    this.vwap = new Vwap(c.vwap);
+    this.stochRsi = new StochRsi(c.stochRsi.rsiPeriod, c.stochRsi.stochPeriod, c.stochRsi.kSmoothing, c.stochRsi.dSmoothing);
+    this.supertrend = new Supertrend(c.supertrend.period, c.supertrend.multiplier);
+    this.obv = new Obv(c.obv.slopePeriod);
+    this.keltner = new KeltnerChannels(c.keltner.emaPeriod, c.keltner.atrPeriod, c.keltner.multiplier);
+    this.donchian = new DonchianChannels(c.donchian.period);
+    this.ichimoku = new Ichimoku(c.ichimoku.tenkanPeriod, c.ichimoku.kijunPeriod, c.ichimoku.spanBPeriod, c.ichimoku.displacement);
+    this.volumeProfile = new VolumeProfile(c.volumeProfile.window, c.volumeProfile.binCount, c.volumeProfile.valueAreaPct);
+    this.all = [this.vwap, this.stochRsi, this.supertrend, this.obv, this.keltner, this.donchian, this.ichimoku, this.volumeProfile];
+  }
+
+  update(candle: IndicatorCandle): void {
+    for (const ind of this.all) ind.update(candle);
+    this.lastTime = candle.time;
+    this.lastClose = candle.close;
+    this.count++;
+  }
+
+  /**
+   * Feeds the candles newer than the last one seen (input oldest → newest,
+   * closed candles only). If the series went backwards — e.g. a backtest
+   * replaying the same key — state is rebuilt from `candles`.
+   * Returns the number of candles consumed.
+   */
+  ingest(candles: IndicatorCandle[]): number {
+    if (candles.length === 0) return 0;
+    if (this.lastTime !== null && candles[candles.length - 1].time < this.lastTime) this.reset();
+
+    let fed = 0;
+    for (const candle of candles) {
+      if (this.lastTime !== null && candle.time <= this.lastTime) continue;
+      this.update(candle);
+      fed++;
+    }
+    return fed;
+  }
+
+  snapshot(): IndicatorSnapshot {
+    const vwap = this.vwap.value();
+    const profile = this.volumeProfile.value();
+    let volumeProfile: IndicatorSnapshot["volumeProfile"] = null;
+    if (profile) {
+      const { bins: _bins, ...rest } = profile;
+      volumeProfile = rest;
+    }
+    return {
+      lastTime: this.lastTime,
+      candles: this.count,
+      close: this.lastClose,
+      vwap,
+      priceVsVwapPct: vwap && this.lastClose !== null && vwap.vwap > 0
+        ? ((this.lastClose - vwap.vwap) / vwap.vwap) * 100
+        : null,
+      stochRsi: this.stochRsi.value(),
+      supertrend: this.supertrend.value(),
+      obv: this.obv.value(),
+      keltner: this.keltner.value(),
+      donchian: this.donchian.value(),
+      ichimoku: this.ichimoku.value(),
+      volumeProfile,
+    };
+  }
+
+  reset(): void {
+    for (const ind of this.all) ind.reset();
+    this.lastTime = null;
+    this.lastClose = null;
+    this.count = 0;
+  }
+}
+
+/** One-shot snapshot over a full candle array (no cached state). */
+export function computeIndicatorSnapshot(
+  candles: IndicatorCandle[],
+  config: Partial<IndicatorSetConfig> = {},
+): IndicatorSnapshot {
+  const set = new IndicatorSet(config);
+  set.ingest(candles);
+  return set.snapshot();
+}
+
+// === Store ===
+
+export class IncrementalIndicatorStore {
+  private sets = new Map<string, IndicatorSet>();
+
+  /** Feeds new closed candles for `key` (e.g. "BTC/USD:15m") and returns its snapshot. */
+  sync(key: string, closedCandles: IndicatorCandle[], config?: Partial<IndicatorSetConfig>): IndicatorSnapshot {
+    let set = this.sets.get(key);
+    if (!set) {
+      set = new IndicatorSet(config);
+      this.sets.set(key, set);
+    }
+    set.ingest(closedCandles);
+    return set.snapshot();
+  }
+
+  get(key: string): IndicatorSet | undefined {
+    return this.sets.get(key);
+  }
+
+  delete(key: string): void {
+    this.sets.delete(key);
+  }
+
+  clear(): void {
+    this.sets.clear();
+  }
+}
+
+export const incrementalIndicatorStore = new IncrementalIndicatorStore();
@@ -0,0 +1,31 @@
+export * from "./types";
+export { RollingWindow, RollingExtreme, Ema, WilderAverage, WilderAtr } from "./primitives";
+export { IncrementalRsi, StochRsi, type StochRsiValue } from "./oscillators";
+export {
+  Supertrend,
+  KeltnerChannels,
+  DonchianChannels,
+  Ichimoku,
+  type SupertrendValue,
+  type ChannelValue,
+  type IchimokuValue,
+} from "./trend";
+export {
+  Vwap,
+  Obv,
+  VolumeProfile,
+  type VwapMode,
+  type VwapValue,
+  type ObvValue,
+  type VolumeProfileBin,
+  type VolumeProfileValue,
+} from "./volume";
+export {
+  IndicatorSet,
+  IncrementalIndicatorStore,
+  incrementalIndicatorStore,
+  computeIndicatorSnapshot,
+  DEFAULT_INDICATOR_SET_CONFIG,
+  type IndicatorSetConfig,
+  type IndicatorSnapshot,
+} from "./IndicatorSet";
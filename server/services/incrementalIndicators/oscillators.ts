@@ -0,0 +1,118 @@
+/**
+ * Incremental oscillators: Wilder RSI and Stochastic RSI.
+ */
+
+import { RollingExtreme, RollingWindow, WilderAverage } from "./primitives";
+import type { IncrementalIndicator, IndicatorCandle } from "./types";
+
+// === RSI (Wilder) ===
+
+export class IncrementalRsi implements IncrementalIndicator<number> {
+  private prevClose: number | null = null;
+  private readonly avgGain: WilderAverage;
+  private readonly avgLoss: WilderAverage;
+  private current: number | null = null;
+
+  constructor(readonly period = 14) {
+    this.avgGain = new WilderAverage(period);
+    this.avgLoss = new WilderAverage(period);
+  }
+
+  update(candle: IndicatorCandle): void {
+    this.push(candle.close);
+  }
+
+  /** Close-only entry point, used by StochRsi. */
+  push(close: number): number | null {
+    if (this.prevClose !== null) {
+      const change = close - this.prevClose;
+      const gain = this.avgGain.push(Math.max(change, 0));
+      const loss = this.avgLoss.push(Math.max(-change, 0));
+      if (gain !== null && loss !== null) {
+        this.current = loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+      }
+    }
+    this.prevClose = close;
+    return this.current;
+  }
+
+  value(): number | null { return this.current; }
+  isReady(): boolean { return this.current !== null; }
+
+  reset(): void {
+    this.prevClose = null;
+    this.avgGain.clear();
+    this.avgLoss.clear();
+    this.current = null;
+  }
+}
+
+// === Stochastic RSI ===
+
+export interface StochRsiValue {
+  rsi: number;
+  /** %K: SMA(kSmoothing) of the raw stochastic of RSI, 0–100 */
+  k: number;
+  /** %D: SMA(dSmoothing) of %K */
+  d: number;
+}
+
+/**
+ * Stochastic RSI with the usual 14/14/3/3 defaults. When RSI is flat over the
+ * whole stochastic window the raw value is 50 (undefined range).
+ */
+export class StochRsi implements IncrementalIndicator<StochRsiValue> {
+  private readonly rsi: IncrementalRsi;
+  private readonly rsiMax: RollingExtreme;
+  private readonly rsiMin: RollingExtreme;
+  private readonly kWindow: RollingWindow;
+  private readonly dWindow: RollingWindow;
+  private current: StochRsiValue | null = null;
+
+  constructor(
+    readonly rsiPeriod = 14,
+    readonly stochPeriod = 14,
+    readonly kSmoothing = 3,
+    readonly dSmoothing = 3,
+  ) {
+    this.rsi = new IncrementalRsi(rsiPeriod);
+    this.rsiMax = new RollingExtreme(stochPeriod, "max");
+    this.rsiMin = new RollingExtreme(stochPeriod, "min");
+    this.kWindow = new RollingWindow(kSmoothing);
+    this.dWindow = new RollingWindow(dSmoothing);
+  }
+
+  update(candle: IndicatorCandle): void {
+    const rsi = this.rsi.push(candle.close);
+    if (rsi === null) return;
+
+    this.rsiMax.push(rsi);
+    this.rsiMin.push(rsi);
+    if (!this.rsiMax.ready) return;
+
+    const hi = this.rsiMax.value!;
+    const lo = this.rsiMin.value!;
+    const raw = hi > lo ? ((rsi - lo) / (hi - lo)) * 100 : 50;
+
+    this.kWindow.push(raw);
+    if (!this.kWindow.full) return;
+    const k = this.kWindow.mean;
+
+    this.dWindow.push(k);
+    if (!this.dWindow.full) return;
+
+    this.current = { rsi, k, d: this.dWindow.mean };
+  }
+
+  value(): StochRsiValue | null { return this.current; }
+  isReady(): boolean { return this.current !== null; }
+
+  reset(): void {
+    this.rsi.reset();
+    this.rsiMax.clear();
+    this.rsiMin.clear();
+    this.kWindow.clear();
+    this.dWindow.clear();
+    this.current = null;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Building blocks for the incremental calculators: ring buffer with running
+ * sum, rolling max/min, SMA-seeded EMA and Wilder (RMA) averages.
+ */
+
+import type { IndicatorCandle } from "./types";
+
+// === Rolling window ===
+
+export class RollingWindow {
+  private buf: number[];
+  private start = 0;
+  private count = 0;
+  private total = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) throw new Error(`Invalid window size ${capacity}`);
+    this.buf = new Array(capacity);
+  }
+
+  /** Appends a value; returns the evicted one once the window is full. */
+  push(v: number): number | undefined {
+    let evicted: number | undefined;
+    if (this.count === this.capacity) {
+      evicted = this.buf[this.start];
+      this.total -= evicted;
+      this.buf[this.start] = v;
+      this.start = (this.start + 1) % this.capacity;
+    } else {
+      this.buf[(this.start + this.count) % this.capacity] = v;
+      this.count++;
+    }
+    this.total += v;
+    return evicted;
+  }
+
+  get length(): number { return this.count; }
+  get full(): boolean { return this.count === this.capacity; }
+  get sum(): number { return this.total; }
+  get mean(): number { return this.count > 0 ? this.total / this.count : 0; }
+
+  /** i = 0 is the oldest value in the window. */
+  at(i: number): number {
+    return this.buf[(this.start + i) % this.capacity];
+  }
+
+  last(): number | undefined {
+    return this.count > 0 ? this.at(this.count - 1) : undefined;
+  }
+
+  toArray(): number[] {
+    return Array.from({ length: this.count }, (_, i) => this.at(i));
+  }
+
+  clear(): void {
+    this.start = 0;
+    this.count = 0;
+    this.total = 0;
+  }
+}
+
+// === Rolling max / min (monotonic deque) ===
+
+export class RollingExtreme {
+  private deque: Array<{ idx: number; v: number }> = [];
+  private idx = 0;
+
+  constructor(readonly period: number, private readonly kind: "max" | "min") {}
+
+  push(v: number): void {
+    const dominated = this.kind === "max"
+      ? (x: number) => x <= v
+      : (x: number) => x >= v;
+    while (this.deque.length > 0 && dominated(this.deque[this.deque.length - 1].v)) this.deque.pop();
+    this.deque.push({ idx: this.idx, v });
+    while (this.deque[0].idx <= this.idx - this.period) this.deque.shift();
+    this.idx++;
+  }
+
+  get ready(): boolean { return this.idx >= this.period; }
+
+  get value(): number | null {
+    return this.deque.length > 0 ? this.deque[0].v : null;
+  }
+
+  clear(): void {
+    this.deque = [];
+    this.idx = 0;
+  }
+}
+
+// === EMA (seeded with the SMA of the first `period` values) ===
+
+export class Ema {
+  private seed: number[] = [];
+  private current: number | null = null;
+  private readonly alpha: number;
+
+  constructor(readonly period: number) {
+    this.alpha = 2 / (period + 1);
+  }
+
+  push(v: number): number | null {
+    if (this.current === null) {
+      this.seed.push(v);
+      if (this.seed.length === this.period) {
+        this.current = this.seed.reduce((a, b) => a + b, 0) / this.period;
+        this.seed = [];
+      }
+    } else {
+      this.current = (v - this.current) * this.alpha + this.current;
+    }
+    return this.current;
+  }
+
+  get value(): number | null { return this.current; }
+
+  clear(): void {
+    this.seed = [];
+    this.current = null;
+  }
+}
+
+// === Wilder's moving average (RMA, alpha = 1/period, SMA seed) ===
+
+export class WilderAverage {
+  private seedSum = 0;
+  private seedCount = 0;
+  private current: number | null = null;
+
+  constructor(readonly period: number) {}
+
+  push(v: number): number | null {
+    if (this.current === null) {
+      this.seedSum += v;
+      this.seedCount++;
+      if (this.seedCount === this.period) this.current = this.seedSum / this.period;
+    } else {
+      this.current = (this.current * (this.period - 1) + v) / this.period;
+    }
+    return this.current;
+  }
+
+  get value(): number | null { return this.current; }
+
+  clear(): void {
+    this.seedSum = 0;
+    this.seedCount = 0;
+    this.current = null;
+  }
+}
+
+// === True range / Wilder ATR ===
+
+export class WilderAtr {
+  private prevClose: number | null = null;
+  private readonly rma: WilderAverage;
+
+  constructor(readonly period: number) {
+    this.rma = new WilderAverage(period);
+  }
+
+  /** The first candle contributes high - low (no previous close), as in TradingView. */
+  push(c: IndicatorCandle): number | null {
+    const tr = this.prevClose === null
+      ? c.high - c.low
+      : Math.max(c.high - c.low, Math.abs(c.high - this.prevClose), Math.abs(c.low - this.prevClose));
+    this.prevClose = c.close;
+    return this.rma.push(tr);
+  }
+
+  get value(): number | null { return this.rma.value; }
+
+  clear(): void {
+    this.prevClose = null;
+    this.rma.clear();
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Incremental trend / channel indicators: Supertrend, Keltner channels,
+ * Donchian channels and Ichimoku.
+ */
+
+import { Ema, RollingExtreme, RollingWindow, WilderAtr } from "./primitives";
+import type { IncrementalIndicator, IndicatorCandle, TrendDirection } from "./types";
+
+// === Supertrend ===
+
+export interface SupertrendValue {
+  /** Active trailing line: lower band in an uptrend, upper band in a downtrend */
+  value: number;
+  direction: TrendDirection;
+  upper: number;
+  lower: number;
+  /** True on the candle where the direction changed */
+  flipped: boolean;
+}
+
+/**
+ * Supertrend over Wilder ATR and hl2, same band-carrying rules as
+ * TradingView's ta.supertrend. Starts in "down" until price closes above
+ * the upper band.
+ */
+export class Supertrend implements IncrementalIndicator<SupertrendValue> {
+  private readonly atr: WilderAtr;
+  private prevClose: number | null = null;
+  private current: SupertrendValue | null = null;
+
+  constructor(readonly period = 10, readonly multiplier = 3) {
+    this.atr = new WilderAtr(period);
+  }
+
+  update(candle: IndicatorCandle): void {
+    const atr = this.atr.push(candle);
+    const prevClose = this.prevClose;
+    this.prevClose = candle.close;
+    if (atr === null || prevClose === null) return;
+
+    const hl2 = (candle.high + candle.low) / 2;
+    let upper = hl2 + this.multiplier * atr;
+    let lower = hl2 - this.multiplier * atr;
+
+    const prev = this.current;
+    let direction: TrendDirection = "down";
+    if (prev) {
+      if (!(upper < prev.upper || prevClose > prev.upper)) upper = prev.upper;
+      if (!(lower > prev.lower || prevClose < prev.lower)) lower = prev.lower;
+      direction = prev.direction === "down"
+        ? (candle.close > upper ? "up" : "down")
+        : (candle.close < lower ? "down" : "up");
+    }
+
+    this.current = {
+      value: direction === "up" ? lower : upper,
+      direction,
+      upper,
+      lower,
+      flipped: prev !== null && prev.direction !== direction,
+    };
+  }
+
+  value(): SupertrendValue | null { return this.current; }
+  isReady(): boolean { return this.current !== null; }
+
+  reset(): void {
+    this.atr.clear();
+    this.prevClose = null;
+    this.current = null;
+  }
+}
+
+// === Keltner channels ===
+
+export interface ChannelValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  /** (upper - lower) / middle × 100 */
+  widthPct: number;
+}
+
+function channel(upper: number, middle: number, lower: number): ChannelValue {
+  return { upper, middle, lower, widthPct: middle > 0 ? ((upper - lower) / middle) * 100 : 0 };
+}
+
+/** EMA(close) ± multiplier × Wilder ATR. */
+export class KeltnerChannels implements IncrementalIndicator<ChannelValue> {
+  private readonly ema: Ema;
+  private readonly atr: WilderAtr;
+  private current: ChannelValue | null = null;
+
+  constructor(readonly emaPeriod = 20, readonly atrPeriod = 10, readonly multiplier = 2) {
+    this.ema = new Ema(emaPeriod);
+    this.atr = new WilderAtr(atrPeriod);
+  }
+
+  update(candle: IndicatorCandle): void {
+    const mid = this.ema.push(candle.close);
+    const atr = this.atr.push(candle);
+    if (mid === null || atr === null) return;
+    this.current = channel(mid + this.multiplier * atr, mid, mid - this.multiplier * atr);
+  }
+
+  value(): ChannelValue | null { return this.current; }
+  isReady(): boolean { return this.current !== null; }
+
+  reset(): void {
+    this.ema.clear();
+    this.atr.clear();
+    this.current = null;
+  }
+}
+
+// === Donchian channels ===
+
+/** Highest high / lowest low over the last `period` candles (current one included). */
+export class DonchianChannels implements IncrementalIndicator<ChannelValue> {
+  private readonly highs: RollingExtreme;
+  private readonly lows: RollingExtreme;
+
+  constructor(readonly period = 20) {
+    this.highs = new RollingExtreme(period, "max");
+    this.lows = new RollingExtreme(period, "min");
+  }
+
+  update(candle: IndicatorCandle): void {
+    this.highs.push(candle.high);
+    this.lows.push(candle.low);
+  }
+
+  value(): ChannelValue | null {
+    if (!this.isReady()) return null;
+    const upper = this.highs.value!;
+    const lower = this.lows.value!;
+    return channel(upper, (upper + lower) / 2, lower);
+  }
+
+  isReady(): boolean { return this.highs.ready; }
+
+  reset(): void {
+    this.highs.clear();
+    this.lows.clear();
+  }
+}
+
+// === Ichimoku ===
+
+export interface IchimokuValue {
+  tenkan: number;
+  kijun: number;
+  /** Leading spans computed on this candle (plotted `displacement` candles ahead) */
+  senkouA: number;
+  senkouB: number;
+  /** Cloud under the current candle: spans computed `displacement` candles ago */
+  cloudTop: number | null;
+  cloudBottom: number | null;
+  priceVsCloud: "above" | "inside" | "below" | null;
+  /** tenkan > kijun */
+  tkBullish: boolean;
+}
+
+/** Ichimoku Kinkō Hyō, 9/26/52 with a 26-candle displacement by default. */
+export class Ichimoku implements IncrementalIndicator<IchimokuValue> {
+  private readonly tenkanHi: RollingExtreme;
+  private readonly tenkanLo: RollingExtreme;
+  private readonly kijunHi: RollingExtreme;
+  private readonly kijunLo: RollingExtreme;
+  private readonly spanBHi: RollingExtreme;
+  private readonly spanBLo: RollingExtreme;
+  /** Leading spans of the last `displacement` candles, to find the current cloud */
+  private readonly pastSpanA: RollingWindow;
+  private readonly pastSpanB: RollingWindow;
+  private current: IchimokuValue | null = null;
+
+  constructor(
+    readonly tenkanPeriod = 9,
+    readonly kijunPeriod = 26,
+    readonly spanBPeriod = 52,
+    readonly displacement = 26,
+  ) {
+    this.tenkanHi = new RollingExtreme(tenkanPeriod, "max");
+    this.tenkanLo = new RollingExtreme(tenkanPeriod, "min");
+    this.kijunHi = new RollingExtreme(kijunPeriod, "max");
+    this.kijunLo = new RollingExtreme(kijunPeriod, "min");
+    this.spanBHi = new RollingExtreme(spanBPeriod, "max");
+    this.spanBLo = new RollingExtreme(spanBPeriod, "min");
+    this.pastSpanA = new RollingWindow(displacement + 1);
+    this.pastSpanB = new RollingWindow(displacement + 1);
+  }
+
+  update(candle: IndicatorCandle): void {
+    for (const ext of [this.tenkanHi, this.kijunHi, this.spanBHi]) ext.push(candle.high);
+    for (const ext of [this.tenkanLo, this.kijunLo, this.spanBLo]) ext.push(candle.low);
+    if (!this.spanBHi.ready) return;
+
+    const tenkan = (this.tenkanHi.value! + this.tenkanLo.value!) / 2;
+    const kijun = (this.kijunHi.value! + this.kijunLo.value!) / 2;
+    const senkouA = (tenkan + kijun) / 2;
+    const senkouB = (this.spanBHi.value! + this.spanBLo.value!) / 2;
+    this.pastSpanA.push(senkouA);
+    this.pastSpanB.push(senkouB);
+
+    let cloudTop: number | null = null;
+    let cloudBottom: number | null = null;
+    let priceVsCloud: IchimokuValue["priceVsCloud"] = null;
+    if (this.pastSpanA.full) {
+      const a = this.pastSpanA.at(0);
+      const b = this.pastSpanB.at(0);
+      cloudTop = Math.max(a, b);
+      cloudBottom = Math.min(a, b);
+      priceVsCloud = candle.close > cloudTop ? "above" : candle.close < cloudBottom ? "below" : "inside";
+    }
+
+    this.current = { tenkan, kijun, senkouA, senkouB, cloudTop, cloudBottom, priceVsCloud, tkBullish: tenkan > kijun };
+  }
+
+  value(): IchimokuValue | null { return this.current; }
+  isReady(): boolean { return this.current !== null; }
+
+  reset(): void {
+    for (const ext of [this.tenkanHi, this.tenkanLo, this.kijunHi, this.kijunLo, this.spanBHi, this.spanBLo]) ext.clear();
+    this.pastSpanA.clear();
+    this.pastSpanB.clear();
+    this.current = null;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Incremental indicators — shared types.
+ *
+ * Every calculator is fed one CLOSED candle at a time through update() and
+ * keeps just the state it needs, so a scan costs O(1) per new candle instead
+ * of recomputing the whole series like the pure functions in indicators.ts.
+ */
+
+/**
+ * Minimal candle shape accepted by the calculators. Compatible with
+ * OHLCCandle (indicators.ts, time in seconds) and IDCA's TimestampedCandle
+ * (time in ms, optional open/volume).
+ */
+export interface IndicatorCandle {
+  time: number;
+  open?: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface IncrementalIndicator<T> {
+  /** Feed the next closed candle (oldest → newest). */
+  update(candle: IndicatorCandle): void;
+  /** Current value, or null while warming up. */
+  value(): T | null;
+  isReady(): boolean;
+  reset(): void;
+}
+
+export type TrendDirection = "up" | "down";
+
+/** Candle times below this are epoch seconds (Kraken OHLC), otherwise epoch ms. */
+const EPOCH_MS_THRESHOLD = 1e12;
+
+export function candleTimeMs(time: number): number {
+  return time < EPOCH_MS_THRESHOLD ? time * 1000 : time;
+}
@@ -0,0 +1,253 @@
+/**
+ * Incremental volume indicators: session / anchored VWAP, OBV and a rolling
+ * volume profile.
+ */
+
+import { RollingWindow } from "./primitives";
+import { candleTimeMs, type IncrementalIndicator, type IndicatorCandle } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function typicalPrice(c: IndicatorCandle): number {
+  return (c.high + c.low + c.close) / 3;
+}
+
+// === VWAP ===
+
+export interface VwapValue {
+  vwap: number;
+  /** Volume-weighted standard deviation of the typical price */
+  stdDev: number;
+  upper1: number;
+  lower1: number;
+  upper2: number;
+  lower2: number;
+  /** Candles accumulated since the session start / anchor */
+  candles: number;
+  /** Epoch ms of the session start or the anchor */
+  startedAt: number;
+}
+
+export type VwapMode =
+  | { kind: "session"; sessionMs?: number }
+  | { kind: "anchored"; anchorTime: number };
+
+/**
+ * VWAP over hlc3. "session" resets at every UTC `sessionMs` boundary (one
+ * day by default); "anchored" accumulates from `anchorTime` (epoch ms or
+ * seconds) and ignores older candles.
+ */
+export class Vwap implements IncrementalIndicator<VwapValue> {
+  private cumVol = 0;
+  private cumPv = 0;
+  private cumP2v = 0;
+  private count = 0;
+  private startedAt: number | null = null;
+
+  constructor(readonly mode: VwapMode = { kind: "session" }) {}
+
+  update(candle: IndicatorCandle): void {
+    const t = candleTimeMs(candle.time);
+    if (this.mode.kind === "session") {
+      const sessionMs = this.mode.sessionMs ?? DAY_MS;
+      const sessionStart = Math.floor(t / sessionMs) * sessionMs;
+      if (this.startedAt !== sessionStart) {
+        this.clearSums();
+        this.startedAt = sessionStart;
+      }
+    } else {
+      const anchor = candleTimeMs(this.mode.anchorTime);
+      if (t < anchor) return;
+      this.startedAt = anchor;
+    }
+
+    const vol = candle.volume ?? 0;
+    const tp = typicalPrice(candle);
+    this.cumVol += vol;
+    this.cumPv += tp * vol;
+    this.cumP2v += tp * tp * vol;
+    this.count++;
+  }
+
+  value(): VwapValue | null {
+    if (this.cumVol <= 0 || this.startedAt === null) return null;
+    const vwap = this.cumPv / this.cumVol;
+    const stdDev = Math.sqrt(Math.max(0, this.cumP2v / this.cumVol - vwap * vwap));
+    return {
+      vwap,
+      stdDev,
+      upper1: vwap + stdDev,
+      lower1: vwap - stdDev,
+      upper2: vwap + 2 * stdDev,
+      lower2: vwap - 2 * stdDev,
+      candles: this.count,
+      startedAt: this.startedAt,
+    };
+  }
+
+  isReady(): boolean { return this.cumVol > 0; }
+
+  reset(): void {
+    this.clearSums();
+    this.startedAt = null;
+  }
+
+  private clearSums(): void {
+    this.cumVol = 0;
+    this.cumPv = 0;
+    this.cumP2v = 0;
+    this.count = 0;
+  }
+}
+
+// === OBV ===
+
+export interface ObvValue {
+  obv: number;
+  /** obv - obv `slopePeriod` candles ago */
+  change: number;
+  trend: "up" | "down" | "flat";
+}
+
+/** On-balance volume; starts at 0 on the first candle. */
+export class Obv implements IncrementalIndicator<ObvValue> {
+  private prevClose: number | null = null;
+  private obv = 0;
+  private readonly history: RollingWindow;
+
+  constructor(readonly slopePeriod = 10) {
+    this.history = new RollingWindow(slopePeriod + 1);
+  }
+
+  update(candle: IndicatorCandle): void {
+    if (this.prevClose !== null) {
+      const vol = candle.volume ?? 0;
+      if (candle.close > this.prevClose) this.obv += vol;
+      else if (candle.close < this.prevClose) this.obv -= vol;
+    }
+    this.prevClose = candle.close;
+    this.history.push(this.obv);
+  }
+
+  value(): ObvValue | null {
+    if (!this.isReady()) return null;
+    const change = this.obv - this.history.at(0);
+    return { obv: this.obv, change, trend: change > 0 ? "up" : change < 0 ? "down" : "flat" };
+  }
+
+  isReady(): boolean { return this.history.full; }
+
+  reset(): void {
+    this.prevClose = null;
+    this.obv = 0;
+    this.history.clear();
+  }
+}
+
+// === Volume profile ===
+
+export interface VolumeProfileBin {
+  priceLow: number;
+  priceHigh: number;
+  volume: number;
+}
+
+export interface VolumeProfileValue {
+  /** Mid price of the highest-volume bin (point of control) */
+  poc: number;
+  valueAreaHigh: number;
+  valueAreaLow: number;
+  low: number;
+  high: number;
+  bins: VolumeProfileBin[];
+}
+
+/**
+ * Volume profile of the last `window` candles. Each candle's volume goes to
+ * the bin holding its typical price; the value area grows from the POC
+ * towards the heavier neighbour until it covers `valueAreaPct` of the volume.
+ *
+ * update() is O(1); the histogram is rebuilt lazily on the first value()
+ * after new candles (O(window)), since the bin edges move with the range.
+ */
+export class VolumeProfile implements IncrementalIndicator<VolumeProfileValue> {
+  private readonly highs: RollingWindow;
+  private readonly lows: RollingWindow;
+  private readonly prices: RollingWindow;
+  private readonly volumes: RollingWindow;
+  private cached: VolumeProfileValue | null = null;
+  private dirty = false;
+
+  constructor(readonly window = 96, readonly binCount = 24, readonly valueAreaPct = 0.7) {
+    this.highs = new RollingWindow(window);
+    this.lows = new RollingWindow(window);
+    this.prices = new RollingWindow(window);
+    this.volumes = new RollingWindow(window);
+  }
+
+  update(candle: IndicatorCandle): void {
+    this.highs.push(candle.high);
+    this.lows.push(candle.low);
+    this.prices.push(typicalPrice(candle));
+    this.volumes.push(candle.volume ?? 0);
+    this.dirty = true;
+  }
+
+  value(): VolumeProfileValue | null {
+    if (!this.isReady()) return null;
+    if (this.dirty) {
+      this.cached = this.build();
+      this.dirty = false;
+    }
+    return this.cached;
+  }
+
+  isReady(): boolean { return this.volumes.full && this.volumes.sum > 0; }
+
+  reset(): void {
+    for (const w of [this.highs, this.lows, this.prices, this.volumes]) w.clear();
+    this.cached = null;
+    this.dirty = false;
+  }
+
+  private build(): VolumeProfileValue {
+    const highs = this.highs.toArray();
+    const lows = this.lows.toArray();
+    const high = Math.max(...highs);
+    const low = Math.min(...lows);
+    const step = high > low ? (high - low) / this.binCount : 1;
+
+    const bins: VolumeProfileBin[] = Array.from({ length: this.binCount }, (_, i) => ({
+      priceLow: low + i * step,
+      priceHigh: low + (i + 1) * step,
+      volume: 0,
+    }));
+    for (let i = 0; i < this.prices.length; i++) {
+      const idx = Math.min(this.binCount - 1, Math.max(0, Math.floor((this.prices.at(i) - low) / step)));
+      bins[idx].volume += this.volumes.at(i);
+    }
+
+    let pocIdx = 0;
+    for (let i = 1; i < bins.length; i++) if (bins[i].volume > bins[pocIdx].volume) pocIdx = i;
+
+    const target = this.volumes.sum * this.valueAreaPct;
+    let lo = pocIdx;
+    let hi = pocIdx;
+    let covered = bins[pocIdx].volume;
+    while (covered < target && (lo > 0 || hi < bins.length - 1)) {
+      const below = lo > 0 ? bins[lo - 1].volume : -1;
+      const above = hi < bins.length - 1 ? bins[hi + 1].volume : -1;
+      if (above >= below) covered += bins[++hi].volume;
+      else covered += bins[--lo].volume;
+    }
+
+    return {
+      poc: (bins[pocIdx].priceLow + bins[pocIdx].priceHigh) / 2,
+      valueAreaHigh: bins[hi].priceHigh,
+      valueAreaLow: bins[lo].priceLow,
+      low,
+      high,
+      bins,
+    };
+  }
+}
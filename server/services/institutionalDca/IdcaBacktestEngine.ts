@@ -0,0 +1,1291 @@
+/**
+ * IdcaBacktestEngine — Candle replay of the Institutional DCA engine.
+ *
+ * Replays institutional_dca_ohlcv_cache through the same building blocks the
+ * live engine uses — base price + legacy VWAP anchor, IdcaEntryReferenceResolver,
+ * IdcaDistanceResolver, IdcaConfluenceEngine, TrailingBuyManager, IdcaExitManager,
+ * IdcaLadderAtrpService, protection/trailing states and Plus/Recovery cycles —
+ * against an in-memory simulation wallet, then stores the summary and the
+ * cycle-level results in institutional_dca_backtests.
+ *
+ * Guarantees:
+ *   - NEVER calls an exchange, NEVER writes cycles/orders/events
+ *   - Time comes from the candles (TrailingBuyManager clock, base price, VWAP)
+ *   - Fees/slippage use the same simulation model as mode=simulation
+ *
+ * Replay model:
+ *   - Entries are evaluated at each candle close (the live engine runs on 1h candles)
+ *   - Open cycles are managed on an O→L→H→C / O→H→L→C price path per candle
+ *   - Dynamic anchor needs the live market-data health service, so the replay
+ *     always uses the legacy VWAP anchor (the engine's fallback path)
+ *   - Single pair: the BTC gate for altcoins and the hybrid layer are not replayed
+ */
+import * as repo from "./IdcaRepository";
+import * as smart from "./IdcaSmartLayer";
+import type { TimestampedCandle, VwapResult } from "./IdcaSmartLayer";
+import { TrailingBuyManagerClass } from "./TrailingBuyManager";
+import { IdcaExitManager } from "./IdcaExitManager";
+import { idcaLadderAtrpService } from "./IdcaLadderAtrpService";
+import type { MarketContext } from "./IdcaMarketContextService";
+import { getEffectiveEntryConfig } from "./IdcaSliderConfig";
+import { resolveEffectiveEntryReference, shouldResetAnchor, shouldUpdateAnchor, type VwapAnchorState } from "./IdcaEntryReferenceResolver";
+import { resolveIdcaRequiredDistance } from "./IdcaDistanceResolver";
+import { parseDynamicDistanceConfig } from "./IdcaDynamicDistanceService";
+import { evaluateIdcaEntryConfluence, getIdcaOscillatorBlendEnabled } from "./IdcaConfluenceEngine";
+import { IndicatorSet } from "../incrementalIndicators";
+import {
+  getDynamicTpConfig,
+  getPlusConfig,
+  getRecoveryConfig,
+  parseSafetyOrders,
+  resolveAssetBounds,
+  resolvePlusExitParams,
+  resolveRecoveryExitParams,
+  resolveSimulationFeePct,
+} from "./IdcaCycleConfig";
+import { normalizeDipReferenceMethod } from "./IdcaTypes";
+import type {
+  IdcaBacktestCycle,
+  IdcaBacktestOrder,
+  IdcaBacktestRequest,
+  IdcaBacktestResults,
+  IdcaBacktestTimeframe,
+  IdcaAssetBounds,
+  IdcaCycleType,
+  IdcaEntryMode,
+  IdcaOrderType,
+  IdcaSizeProfile,
+  LadderAtrpConfig,
+  PlusConfig,
+  RecoveryConfig,
+  SafetyOrderLevel,
+  TrailingBuyLevel1Config,
+  VwapEntryContext,
+} from "./IdcaTypes";
+import {
+  type InstitutionalDcaAssetConfigRow,
+  type InstitutionalDcaBacktest,
+  type InstitutionalDcaConfigRow,
+  type InstitutionalDcaCycle,
+} from "@shared/schema";
+
+const TAG = "[IDCA][BACKTEST]";
+
+export const IDCA_BACKTEST_TIMEFRAME_MS: Record<IdcaBacktestTimeframe, number> = {
+  "15m": 15 * 60_000,
+  "1h": 60 * 60_000,
+  "4h": 4 * 60 * 60_000,
+};
+
+const DEFAULT_LOOKBACK_CANDLES = 720;      // 30d of 1h candles (monthly VWAP window)
+const MIN_SIMULATION_BALANCE_USD = 50;     // same floor as performEntryCheck
+const MIN_VWAP_CANDLES_FOR_ENTRY = 24;     // same as the VWAP trailing-buy path
+const MAX_EQUITY_POINTS = 500;
+
+export interface IdcaReplayParams {
+  pair: string;
+  timeframe: IdcaBacktestTimeframe;
+  fromMs: number;              // first candle replayed; earlier candles only warm up the window
+  lookbackCandles?: number;
+  initialBalanceUsd: number;
+  config: InstitutionalDcaConfigRow;
+  assetConfig: InstitutionalDcaAssetConfigRow;
+}
+
+interface SimCycle {
+  id: number;
+  cycleType: IdcaCycleType;
+  parentCycleId: number | null;
+  entrySource: "normal" | "trailing_buy";
+  status: "active" | "tp_armed" | "trailing_active" | "closed";
+  openedAt: number;
+  lastBuyAt: number;
+  closedAt: number | null;
+  closeReason: string | null;
+  buyCount: number;
+  totalQuantity: number;
+  capitalUsedUsd: number;
+  capitalReservedUsd: number;
+  avgEntryPrice: number;
+  nextBuyPrice: number | null;
+  tpPct: number;
+  trailingPct: number;
+  protectionStopPrice: number | null;
+  highestPriceAfterTp: number;
+  unrealizedPnlPct: number;
+  maxDrawdownPct: number;
+  marketScore: number | null;
+  sizeProfile: IdcaSizeProfile | null;
+  vwapBands: { lowerBand2: number; lowerBand3: number } | null;
+  exitPrice: number | null;
+  realizedPnlUsd: number | null;
+  orders: IdcaBacktestOrder[];
+}
+
+interface EntryDecision {
+  allowed: boolean;
+  blocks: string[];
+  marketScore: number;
+  sizeProfile: IdcaSizeProfile;
+  vwapContext?: VwapEntryContext;
+}
+
+const n = (v: unknown, fallback = 0): number => {
+  const x = parseFloat(String(v ?? ""));
+  return Number.isFinite(x) ? x : fallback;
+};
+
+const iso = (ms: number): string => new Date(ms).toISOString();
+
+// ─── Replay ────────────────────────────────────────────────────────
+
+class IdcaBacktestReplay {
+  private readonly pair: string;
+  private readonly tfMs: number;
+  private readonly lookback: number;
+  private readonly config: InstitutionalDcaConfigRow;
+  private readonly asset: InstitutionalDcaAssetConfigRow;
+  private readonly feePct: number;
+  private readonly slippagePct: number;
+  private readonly allocatedCapital: number;
+  private readonly safetyOrders: SafetyOrderLevel[];
+  private readonly plusCfg: PlusConfig;
+  private readonly recoveryCfg: RecoveryConfig;
+  private readonly entryMode: IdcaEntryMode;
+  private readonly bounds: IdcaAssetBounds;
+
+  private nowMs = 0;
+  private window: TimestampedCandle[] = [];
+  private cash: number;
+  private seq = 0;
+  private anchor: VwapAnchorState | undefined;
+  private readonly cycles: SimCycle[] = [];
+  private readonly entryBlocks: Record<string, number> = {};
+  private readonly equityCurve: Array<{ time: number; equityUsd: number }> = [];
+  private replayContext: MarketContext = {} as MarketContext;
+  private readonly indicators = new IndicatorSet();
+
+  private readonly trailingBuy = new TrailingBuyManagerClass(() => this.nowMs);
+  private readonly exitManager = new IdcaExitManager({ getMarketContext: async () => this.replayContext });
+
+  constructor(private readonly params: IdcaReplayParams) {
+    this.pair = params.pair;
+    this.tfMs = IDCA_BACKTEST_TIMEFRAME_MS[params.timeframe];
+    this.lookback = params.lookbackCandles ?? DEFAULT_LOOKBACK_CANDLES;
+    this.config = params.config;
+    this.asset = params.assetConfig;
+    this.feePct = resolveSimulationFeePct(params.config);
+    this.slippagePct = n(params.config.simulationSlippagePct);
+    this.allocatedCapital = n(params.config.allocatedCapitalUsd);
+    this.safetyOrders = parseSafetyOrders(params.assetConfig.safetyOrdersJson);
+    this.plusCfg = getPlusConfig(params.config);
+    this.recoveryCfg = getRecoveryConfig(params.config);
+    this.entryMode = (params.assetConfig.entryMode ?? "assisted_entry") as IdcaEntryMode;
+    this.bounds = resolveAssetBounds(params.config, params.assetConfig);
+    this.cash = params.initialBalanceUsd;
+  }
+
+  async run(candles: TimestampedCandle[]): Promise<IdcaBacktestResults> {
+    let processed = 0;
+    let lastPrice = 0;
+
+    for (let i = 0; i < candles.length; i++) {
+      const candle = candles[i];
+      if (candle.time < this.params.fromMs) {
+        this.closeBar(candles, i);
+        continue;
+      }
+      processed++;
+
+      // Manage open cycles on the intrabar path while the bar is still forming:
+      // the window and indicators only hold closed candles up to i - 1.
+      this.window = candles.slice(Math.max(0, i - this.lookback), i);
+      const open = candle.open ?? candle.close;
+      const path = candle.close >= open
+        ? [open, candle.low, candle.high, candle.close]
+        : [open, candle.high, candle.low, candle.close];
+      for (let p = 0; p < path.length; p++) {
+        this.nowMs = candle.time + Math.round((this.tfMs * p) / (path.length - 1));
+        this.refreshReplayContext(path[p]);
+        await this.manageOpenCycles(path[p]);
+      }
+
+      // Bar closed: it joins the window before the entry check at its close
+      this.closeBar(candles, i);
+      if (!this.activeMain()) {
+        await this.evaluateEntry(candle.close);
+      }
+
+      lastPrice = candle.close;
+      this.equityCurve.push({ time: this.nowMs, equityUsd: this.equity(candle.close) });
+    }
+
+    // Close what is still open at the last price so the return is realised
+    for (const c of this.cycles) {
+      if (c.status !== "closed") this.closeCycle(c, lastPrice, "end_of_data", "final_sell");
+    }
+    if (this.equityCurve.length > 0) {
+      this.equityCurve[this.equityCurve.length - 1].equityUsd = this.equity(lastPrice);
+    }
+
+    return this.buildResults(processed);
+  }
+
+  // ─── Market helpers ──────────────────────────────────────────────
+
+  private closeBar(candles: TimestampedCandle[], i: number): void {
+    this.window = candles.slice(Math.max(0, i + 1 - this.lookback), i + 1);
+    this.indicators.update(candles[i]);
+  }
+
+  private volatility(): number {
+    return this.window.length < 5 ? 2.0 : smart.computeATRPct(this.window);
+  }
+
+  private recentCandles(count = 5): TimestampedCandle[] {
+    return this.window.slice(-count);
+  }
+
+  private reboundStrength(price: number): "none" | "weak" | "strong" {
+    if (this.window.length < 3) return "none";
+    const recentCandles = this.recentCandles();
+    const localLow = Math.min(...recentCandles.map(c => c.low));
+    if (!smart.detectRebound({ recentCandles, currentPrice: price, localLow })) return "none";
+    const bounceFromLow = ((price - localLow) / localLow) * 100;
+    return bounceFromLow > 1.5 ? "strong" : "weak";
+  }
+
+  private reboundConfirmed(price: number): boolean {
+    const recentCandles = this.recentCandles();
+    const localLow = recentCandles.length > 0 ? Math.min(...recentCandles.map(c => c.low)) : price;
+    const reboundMinPct = n(this.asset.reboundMinPct, 0.30);
+    return smart.detectRebound({ recentCandles, currentPrice: price, localLow, reboundMinPct });
+  }
+
+  private vwap24h(): VwapResult {
+    return smart.computeVwapAnchored(this.window, this.nowMs - 24 * 60 * 60 * 1000, this.nowMs);
+  }
+
+  /** MarketContext subset read by IdcaExitManager and IdcaLadderAtrpService. */
+  private refreshReplayContext(price: number): void {
+    const vwap = this.vwap24h();
+    this.replayContext = {
+      anchorPrice: this.anchor?.anchorPrice ?? Math.max(price, ...this.window.map(c => c.high)),
+      anchorTimestamp: new Date(this.anchor?.anchorTimestamp ?? this.nowMs),
+      anchorAgeHours: this.anchor ? (this.nowMs - this.anchor.setAt) / 3600000 : 0,
+      currentPrice: price,
+      priceUpdatedAt: new Date(this.nowMs),
+      vwap,
+      vwapZone: vwap.isReliable ? smart.getVwapBandPosition(price, vwap).zone : undefined,
+      atrPct: this.volatility(),
+    } as MarketContext;
+  }
+
+  private equity(price: number): number {
+    return this.cash + this.cycles
+      .filter(c => c.status !== "closed")
+      .reduce((sum, c) => sum + c.totalQuantity * price, 0);
+  }
+
+  private activeMain(): SimCycle | undefined {
+    return this.cycles.find(c => c.cycleType === "main" && c.status !== "closed");
+  }
+
+  private openCapitalUsed(): number {
+    return this.cycles
+      .filter(c => c.status !== "closed")
+      .reduce((sum, c) => sum + c.capitalUsedUsd, 0);
+  }
+
+  private block(code: string): void {
+    this.entryBlocks[code] = (this.entryBlocks[code] ?? 0) + 1;
+  }
+
+  // ─── Fills ───────────────────────────────────────────────────────
+
+  private buy(cycle: SimCycle, orderType: IdcaOrderType, buyUsd: number, price: number, reason: string): void {
+    const feesUsd = buyUsd * (this.feePct / 100);
+    const slippageUsd = buyUsd * (this.slippagePct / 100);
+    const executedUsd = buyUsd + feesUsd + slippageUsd;
+    const quantity = buyUsd / price;
+
+    this.cash -= executedUsd;
+    cycle.totalQuantity += quantity;
+    cycle.capitalUsedUsd += executedUsd;
+    cycle.avgEntryPrice = cycle.capitalUsedUsd / cycle.totalQuantity;
+    cycle.buyCount += 1;
+    cycle.lastBuyAt = this.nowMs;
+    cycle.orders.push({
+      orderType, time: iso(this.nowMs), price, quantity,
+      grossValueUsd: buyUsd, feesUsd, slippageUsd, netValueUsd: executedUsd, reason,
+    });
+  }
+
+  private closeCycle(cycle: SimCycle, price: number, reason: string, orderType: IdcaOrderType = "final_sell"): void {
+    const grossValueUsd = cycle.totalQuantity * price;
+    const feesUsd = grossValueUsd * (this.feePct / 100);
+    const slippageUsd = grossValueUsd * (this.slippagePct / 100);
+    const netValueUsd = grossValueUsd - feesUsd - slippageUsd;
+
+    this.cash += netValueUsd;
+    cycle.orders.push({
+      orderType, time: iso(this.nowMs), price, quantity: cycle.totalQuantity,
+      grossValueUsd, feesUsd, slippageUsd, netValueUsd, reason,
+    });
+    cycle.realizedPnlUsd = netValueUsd - cycle.capitalUsedUsd;
+    cycle.exitPrice = price;
+    cycle.status = "closed";
+    cycle.closeReason = reason;
+    cycle.closedAt = this.nowMs;
+    this.exitManager.clearExitState(cycle.id);
+
+    if (cycle.cycleType === "main") {
+      for (const child of this.cycles) {
+        if (child.parentCycleId !== cycle.id || child.status === "closed") continue;
+        const autoClose = child.cycleType === "plus"
+          ? this.plusCfg.autoCloseIfMainClosed
+          : this.recoveryCfg.autoCloseIfMainClosed;
+        if (autoClose) this.closeCycle(child, price, "main_cycle_closed");
+      }
+    }
+  }
+
+  private newCycle(cycleType: IdcaCycleType, parent: SimCycle | null, capitalReservedUsd: number): SimCycle {
+    const cycle: SimCycle = {
+      id: ++this.seq,
+      cycleType,
+      parentCycleId: parent?.id ?? null,
+      entrySource: "normal",
+      status: "active",
+      openedAt: this.nowMs,
+      lastBuyAt: this.nowMs,
+      closedAt: null,
+      closeReason: null,
+      buyCount: 0,
+      totalQuantity: 0,
+      capitalUsedUsd: 0,
+      capitalReservedUsd,
+      avgEntryPrice: 0,
+      nextBuyPrice: null,
+      tpPct: 0,
+      trailingPct: 0,
+      protectionStopPrice: null,
+      highestPriceAfterTp: 0,
+      unrealizedPnlPct: 0,
+      maxDrawdownPct: 0,
+      marketScore: null,
+      sizeProfile: null,
+      vwapBands: null,
+      exitPrice: null,
+      realizedPnlUsd: null,
+      orders: [],
+    };
+    this.cycles.push(cycle);
+    return cycle;
+  }
+
+  private dynamicTpPct(cycleType: "main" | "plus", buyCount: number, marketScore: number, price: number): number {
+    return smart.computeDynamicTakeProfit({
+      pair: this.pair,
+      cycleType,
+      buyCount,
+      marketScore,
+      volatilityPct: this.volatility(),
+      reboundStrength: this.reboundStrength(price),
+      config: getDynamicTpConfig(this.config),
+      mainTpBounds: this.bounds,
+    }).finalTpPct;
+  }
+
+  private dynamicTrailingPct(): number {
+    const base = n(this.asset.trailingMarginPct, 1.5);
+    if (!this.config.volatilityTrailingEnabled) return base;
+    return smart.computeDynamicTrailing({
+      atrPct: this.volatility(),
+      baseTrailingPct: base,
+      minTrailingPct: this.bounds.minTrailingPct,
+      maxTrailingPct: this.bounds.maxTrailingPct,
+    });
+  }
+
+  private async ladderNextBuyPrice(buyCount: number): Promise<number | null> {
+    if (!this.asset.ladderAtrpEnabled || !this.asset.ladderAtrpConfigJson) return null;
+    try {
+      const ladder = await idcaLadderAtrpService.calculateLadder(
+        this.pair,
+        this.asset.ladderAtrpConfigJson as LadderAtrpConfig,
+        this.replayContext,
+        this.anchor?.anchorPrice,
+      );
+      const level = ladder.levels.find(l => l.level >= buyCount);
+      return level && level.triggerPrice > 0 ? level.triggerPrice : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── Cycle management ────────────────────────────────────────────
+
+  private async manageOpenCycles(price: number): Promise<void> {
+    const main = this.activeMain();
+    if (main) {
+      await this.manageMainCycle(main, price);
+      if (main.status !== "closed") {
+        if (this.plusCfg.enabled) {
+          const plus = this.cycles.find(c => c.cycleType === "plus" && c.parentCycleId === main.id && c.status !== "closed");
+          if (plus) this.managePlusCycle(plus, main, price);
+          else this.checkPlusActivation(main, price);
+        }
+        if (this.recoveryCfg.enabled) {
+          const recovery = this.cycles.filter(c => c.cycleType === "recovery" && c.parentCycleId === main.id && c.status !== "closed");
+          if (recovery.length > 0) recovery.forEach(rc => this.manageRecoveryCycle(rc, main, price));
+          else this.checkRecoveryActivation(main, price);
+        }
+      }
+    }
+
+    // Children left open after their main closed (autoClose disabled) keep being managed
+    for (const child of this.cycles) {
+      if (child.status === "closed" || child.cycleType === "main") continue;
+      const parent = this.cycles.find(c => c.id === child.parentCycleId);
+      if (!parent || parent.status !== "closed") continue;
+      if (child.cycleType === "plus") this.managePlusCycle(child, parent, price);
+      else this.manageRecoveryCycle(child, parent, price);
+    }
+  }
+
+  private markToMarket(cycle: SimCycle, price: number): number {
+    const pnlPct = cycle.capitalUsedUsd > 0
+      ? ((cycle.totalQuantity * price - cycle.capitalUsedUsd) / cycle.capitalUsedUsd) * 100
+      : 0;
+    cycle.unrealizedPnlPct = pnlPct;
+    cycle.maxDrawdownPct = Math.max(cycle.maxDrawdownPct, pnlPct < 0 ? -pnlPct : 0);
+    return pnlPct;
+  }
+
+  /** Mirrors manageCycle → handleActiveState / handleTrailingState. */
+  private async manageMainCycle(cycle: SimCycle, price: number): Promise<void> {
+    const pnlPct = this.markToMarket(cycle, price);
+
+    const maxDurationHours = n(this.asset.maxCycleDurationHours);
+    if (maxDurationHours > 0 && this.nowMs - cycle.openedAt > maxDurationHours * 3600000) {
+      this.closeCycle(cycle, price, "max_duration_reached");
+      return;
+    }
+
+    if (cycle.status === "trailing_active" || cycle.status === "tp_armed") {
+      if (price > cycle.highestPriceAfterTp) {
+        cycle.highestPriceAfterTp = price;
+        return;
+      }
+      const dropPct = ((cycle.highestPriceAfterTp - price) / cycle.highestPriceAfterTp) * 100;
+      if (dropPct >= cycle.trailingPct) this.closeCycle(cycle, price, "trailing_exit");
+      return;
+    }
+
+    const signals = await this.exitManager.evaluateExitSignals(this.asCycleRow(cycle, price), this.asset, price);
+    const exit = signals.find(s => s.shouldExit);
+    if (exit) {
+      this.closeCycle(cycle, price, exit.exitType);
+      return;
+    }
+
+    const protectionActivationPct = n(this.asset.protectionActivationPct, 1.0);
+    const beNetBufferPct = n(this.asset.beNetBufferPct, 0.30);
+    const trailingActivationPct = n(this.asset.trailingActivationPct, 3.5);
+    const bePctValid = protectionActivationPct > 0;
+    const wasArmed = cycle.protectionStopPrice != null;
+
+    if (!wasArmed && bePctValid && pnlPct >= protectionActivationPct) {
+      cycle.protectionStopPrice = cycle.avgEntryPrice * (1 + beNetBufferPct / 100);
+    }
+
+    const protectionArmed = wasArmed || (bePctValid && pnlPct >= protectionActivationPct);
+    if (protectionArmed && pnlPct >= trailingActivationPct) {
+      cycle.status = "trailing_active";
+      cycle.highestPriceAfterTp = price;
+      cycle.trailingPct = this.dynamicTrailingPct();
+      return;
+    }
+
+    if (wasArmed && cycle.protectionStopPrice! > 0 && price <= cycle.protectionStopPrice!) {
+      this.closeCycle(cycle, price, "breakeven_exit", "breakeven_sell");
+      return;
+    }
+
+    await this.checkSafetyBuy(cycle, price);
+  }
+
+  /** Mirrors checkSafetyBuy (simulation branch). */
+  private async checkSafetyBuy(cycle: SimCycle, price: number): Promise<void> {
+    if (cycle.buyCount >= this.safetyOrders.length + 1) return;
+    if (this.nowMs - cycle.lastBuyAt < this.asset.cooldownMinutesBetweenBuys * 60_000) return;
+    if (cycle.nextBuyPrice == null || cycle.nextBuyPrice <= 0 || price > cycle.nextBuyPrice) return;
+    if (this.asset.requireReboundConfirmation && !this.reboundConfirmed(price)) return;
+
+    const modulePct = (this.openCapitalUsed() / this.allocatedCapital) * 100;
+    if (modulePct >= n(this.config.maxModuleExposurePct)) return;
+    const assetPct = (cycle.capitalUsedUsd / cycle.capitalReservedUsd) * 100;
+    if (assetPct >= this.bounds.maxAssetExposurePct) return;
+
+    const safetyIndex = cycle.buyCount;
+    if (!this.safetyOrders[safetyIndex - 1]) return;
+
+    const weights = smart.getSizeWeights(cycle.sizeProfile ?? "balanced", this.safetyOrders.length + 1);
+    const buyUsd = cycle.capitalReservedUsd * ((weights[cycle.buyCount] || 25) / 100);
+    this.buy(cycle, "safety_buy", buyUsd, price, `Safety buy #${cycle.buyCount + 1}`);
+
+    const nextSafety = this.safetyOrders[safetyIndex];
+    let nextBuyPrice = nextSafety ? cycle.avgEntryPrice * (1 - nextSafety.dipPct / 100) : null;
+    if (this.asset.vwapEnabled && nextBuyPrice !== null && cycle.vwapBands) {
+      const vwapLevels = [cycle.vwapBands.lowerBand2, cycle.vwapBands.lowerBand3];
+      if (safetyIndex < vwapLevels.length && vwapLevels[safetyIndex] > 0) {
+        nextBuyPrice = Math.min(nextBuyPrice, vwapLevels[safetyIndex]);
+      }
+    }
+    if (nextBuyPrice !== null) {
+      const distance = resolveIdcaRequiredDistance({
+        pair: this.pair,
+        usedFor: "safety_buy",
+        activeEntryMode: this.entryMode,
+        referencePrice: price,
+        atrPct: this.volatility(),
+        entryGlobalConfig: this.config,
+        dynamicDistanceConfig: parseDynamicDistanceConfig(this.asset.dynamicDistanceConfigJson),
+        buyCount: cycle.buyCount,
+        marketScore: cycle.marketScore ?? 50,
+        candleCount: this.window.length,
+        capitalUsedUsd: cycle.capitalUsedUsd,
+        capitalReservedUsd: cycle.capitalReservedUsd,
+        existingNextBuyPrice: nextBuyPrice,
+      });
+      if (distance.effectiveNextBuyPrice != null) nextBuyPrice = distance.effectiveNextBuyPrice;
+    }
+    cycle.nextBuyPrice = nextBuyPrice;
+
+    cycle.tpPct = this.config.adaptiveTpEnabled
+      ? this.dynamicTpPct("main", cycle.buyCount, cycle.marketScore ?? 50, price)
+      : n(this.asset.takeProfitPct, 4.0);
+  }
+
+  /** Shape IdcaExitManager reads; it freezes avgEntryPrice on first sight, like live. */
+  private asCycleRow(cycle: SimCycle, price: number): InstitutionalDcaCycle {
+    return {
+      id: cycle.id,
+      pair: this.pair,
+      mode: "simulation",
+      currentPrice: String(price),
+      avgEntryPrice: String(cycle.avgEntryPrice),
+      unrealizedPnlPct: String(cycle.unrealizedPnlPct),
+      totalQuantity: String(cycle.totalQuantity),
+    } as unknown as InstitutionalDcaCycle;
+  }
+
+  // ─── Plus cycles ─────────────────────────────────────────────────
+
+  private async plusMaxBuys(): Promise<number> {
+    if (this.asset.ladderAtrpEnabled && this.asset.ladderAtrpConfigJson) {
+      try {
+        const ladder = await idcaLadderAtrpService.calculateLadder(
+          this.pair, this.asset.ladderAtrpConfigJson as LadderAtrpConfig, this.replayContext, this.anchor?.anchorPrice,
+        );
+        return ladder.totalLevels;
+      } catch {
+        return (this.asset.ladderAtrpConfigJson as LadderAtrpConfig).maxLevels || 5;
+      }
+    }
+    return this.safetyOrders.length + 1;
+  }
+
+  private plusExhaustedCache: { buyCount: number; maxBuys: number } | null = null;
+
+  /** Mirrors checkPlusActivation (simulation branch). */
+  private checkPlusActivation(main: SimCycle, price: number): void {
+    const cfg = this.plusCfg;
+    if (cfg.requireMainExhausted) {
+      const maxBuys = this.plusExhaustedCache?.maxBuys ?? this.safetyOrders.length + 1;
+      if (main.buyCount < maxBuys) return;
+    }
+    const closedPlus = this.cycles.filter(c => c.cycleType === "plus" && c.parentCycleId === main.id && c.status === "closed").length;
+    if (closedPlus >= cfg.maxPlusCyclesPerMain) return;
+
+    const dipFromAvg = ((main.avgEntryPrice - price) / main.avgEntryPrice) * 100;
+    if (dipFromAvg < cfg.activationExtraDipPct) return;
+    if (cfg.requireReboundConfirmation && this.reboundStrength(price) === "none") return;
+
+    const plusCapital = this.allocatedCapital * (cfg.capitalAllocationPct / 100);
+    const pairExposure = this.openCapitalUsed();
+    if (pairExposure >= this.allocatedCapital * (cfg.maxExposurePctPerAsset / 100)) return;
+
+    const entrySteps = cfg.entryDipSteps || [2.0, 3.5, 5.0];
+    const plusExit = resolvePlusExitParams(cfg, this.config, this.asset);
+    const plus = this.newCycle("plus", main, plusCapital);
+    plus.marketScore = main.marketScore;
+    this.buy(plus, "base_buy", plusCapital / (entrySteps.length || 1), price, "Plus cycle entry");
+    plus.tpPct = this.config.adaptiveTpEnabled
+      ? this.dynamicTpPct("plus", 1, main.marketScore ?? 50, price)
+      : plusExit.tpPct;
+    plus.trailingPct = plusExit.trailingPct;
+    plus.nextBuyPrice = entrySteps.length > 1 ? price * (1 - entrySteps[1] / 100) : null;
+  }
+
+  /** Mirrors managePlusCycle + checkPlusSafetyBuy. */
+  private managePlusCycle(plus: SimCycle, main: SimCycle, price: number): void {
+    const cfg = this.plusCfg;
+    if (cfg.autoCloseIfMainClosed && main.status === "closed") {
+      this.closeCycle(plus, price, "main_cycle_closed");
+      return;
+    }
+    const pnlPct = this.markToMarket(plus, price);
+
+    if (plus.status === "active") {
+      if (pnlPct >= plus.tpPct) {
+        plus.status = "tp_armed";
+        plus.highestPriceAfterTp = price;
+        return;
+      }
+      if (plus.buyCount >= cfg.maxPlusEntries) return;
+      if (this.nowMs - plus.lastBuyAt < cfg.cooldownMinutesBetweenBuys * 60_000) return;
+      if (plus.nextBuyPrice == null || plus.nextBuyPrice <= 0 || price > plus.nextBuyPrice) return;
+
+      const entrySteps = cfg.entryDipSteps || [2.0, 3.5, 5.0];
+      this.buy(plus, "safety_buy", plus.capitalReservedUsd / (entrySteps.length || 1), price, `Plus safety buy #${plus.buyCount + 1}`);
+      const nextDipPct = entrySteps[plus.buyCount] ?? null;
+      plus.nextBuyPrice = nextDipPct ? plus.avgEntryPrice * (1 - nextDipPct / 100) : null;
+      if (this.config.adaptiveTpEnabled) {
+        plus.tpPct = this.dynamicTpPct("plus", plus.buyCount, plus.marketScore ?? 50, price);
+      }
+      return;
+    }
+
+    if (price > plus.highestPriceAfterTp) {
+      plus.highestPriceAfterTp = price;
+    } else {
+      const dropPct = ((plus.highestPriceAfterTp - price) / plus.highestPriceAfterTp) * 100;
+      if (dropPct >= plus.trailingPct) this.closeCycle(plus, price, "trailing_exit");
+    }
+  }
+
+  // ─── Recovery cycles ─────────────────────────────────────────────
+
+  /** Mirrors checkRecoveryActivation + executeRecoveryEntry (simulation branch). */
+  private checkRecoveryActivation(main: SimCycle, price: number): void {
+    const cfg = this.recoveryCfg;
+    const currentDD = main.unrealizedPnlPct < 0 ? -main.unrealizedPnlPct : 0;
+    if (currentDD < cfg.activationDrawdownPct) return;
+
+    const recoveries = this.cycles.filter(c => c.cycleType === "recovery" && c.parentCycleId === main.id);
+    if (recoveries.length >= cfg.maxRecoveryCyclesPerMain) return;
+
+    const pairExposurePct = this.allocatedCapital > 0 ? (this.openCapitalUsed() / this.allocatedCapital) * 100 : 0;
+    const recoveryCapital = Math.min(this.allocatedCapital * (cfg.capitalAllocationPct / 100), cfg.maxRecoveryCapitalUsd);
+    const openForPair = this.cycles.filter(c => c.status !== "closed").length;
+
+    const blocked =
+      openForPair >= cfg.maxTotalCyclesPerPair ||
+      pairExposurePct + cfg.capitalAllocationPct > cfg.maxPairExposurePct ||
+      this.nowMs - main.lastBuyAt < cfg.cooldownMinutesAfterMainBuy * 60_000 ||
+      recoveries.some(r => r.closedAt != null && this.nowMs - r.closedAt < cfg.cooldownMinutesBetweenRecovery * 60_000) ||
+      (main.marketScore ?? 50) < cfg.minMarketScoreForRecovery ||
+      this.cash < recoveryCapital ||
+      (cfg.requireReboundConfirmation && !smart.detectRebound({
+        recentCandles: this.recentCandles(),
+        currentPrice: price,
+        localLow: Math.min(...this.recentCandles().map(c => c.low), price),
+      }));
+    if (blocked) return;
+
+    const entrySteps = cfg.recoveryEntryDipSteps;
+    const recoveryExit = resolveRecoveryExitParams(cfg, this.config, this.asset);
+    const recovery = this.newCycle("recovery", main, recoveryCapital);
+    recovery.marketScore = main.marketScore;
+    this.buy(recovery, "base_buy", recoveryCapital / (entrySteps.length || 1), price, "Recovery cycle entry");
+    recovery.tpPct = recoveryExit.tpPct;
+    recovery.trailingPct = recoveryExit.trailingPct;
+    recovery.nextBuyPrice = entrySteps.length > 1 ? price * (1 - entrySteps[1] / 100) : null;
+  }
+
+  /** Mirrors manageRecoveryCycle + checkRecoverySafetyBuy. */
+  private manageRecoveryCycle(recovery: SimCycle, main: SimCycle, price: number): void {
+    const cfg = this.recoveryCfg;
+    if (cfg.autoCloseIfMainClosed && main.status === "closed") {
+      this.closeCycle(recovery, price, "main_cycle_closed");
+      return;
+    }
+    if (cfg.autoCloseIfMainRecovers && main.unrealizedPnlPct > 0) {
+      this.closeCycle(recovery, price, "main_recovered");
+      return;
+    }
+    if (cfg.maxRecoveryDurationHours > 0 && this.nowMs - recovery.openedAt > cfg.maxRecoveryDurationHours * 3600000) {
+      this.closeCycle(recovery, price, "max_duration_exceeded");
+      return;
+    }
+    const pnlPct = this.markToMarket(recovery, price);
+    if (pnlPct >= recovery.tpPct) {
+      this.closeCycle(recovery, price, "tp_reached");
+      return;
+    }
+
+    if (recovery.buyCount >= cfg.maxRecoveryEntries) return;
+    if (recovery.nextBuyPrice == null || recovery.nextBuyPrice <= 0 || price > recovery.nextBuyPrice) return;
+    const entrySteps = cfg.recoveryEntryDipSteps;
+    this.buy(recovery, "safety_buy", recovery.capitalReservedUsd / (entrySteps.length || 1), price, `Recovery safety buy #${recovery.buyCount + 1}`);
+    const nextDipPct = entrySteps[recovery.buyCount] ?? null;
+    recovery.nextBuyPrice = nextDipPct ? recovery.avgEntryPrice * (1 - nextDipPct / 100) : null;
+  }
+
+  // ─── Entries ─────────────────────────────────────────────────────
+
+  /** Mirrors evaluatePair's no-cycle branch: VWAP trailing buy, Level 1 trailing buy, checkEntry. */
+  private async evaluateEntry(price: number): Promise<void> {
+    this.refreshReplayContext(price);
+    if (!this.asset.vwapEnabled) {
+      await this.checkEntry(price);
+      return;
+    }
+
+    let trailingEntry: { localLow: number; buyThreshold: number; maxExecutionPrice: number } | undefined;
+    const vwap = this.vwap24h();
+    const derived = getEffectiveEntryConfig(this.config, this.pair);
+
+    if (vwap.isReliable) {
+      const zone = smart.getVwapBandPosition(price, vwap).zone;
+      const inInterestZone = zone === "below_lower1" || zone === "below_lower2" || zone === "below_lower3";
+      const reference = this.anchor?.anchorPrice && this.anchor.anchorPrice > 0 ? this.anchor.anchorPrice : vwap.lowerBand1;
+      const distance = resolveIdcaRequiredDistance({
+        pair: this.pair,
+        usedFor: "trailing_buy_entry",
+        activeEntryMode: this.entryMode,
+        referencePrice: reference,
+        atrPct: this.volatility(),
+        entryGlobalConfig: this.config,
+        dynamicDistanceConfig: parseDynamicDistanceConfig(this.asset.dynamicDistanceConfigJson),
+        buyCount: 0,
+        marketScore: 50,
+        candleCount: this.window.length,
+        capitalUsedUsd: 0,
+        capitalReservedUsd: 0,
+        tbPath: "vwap_anchor",
+      });
+      const buyThreshold = reference * (1 - distance.requiredDistancePct / 100);
+
+      const stale = this.trailingBuy.getState(this.pair);
+      if (stale && stale.referencePrice > 0 && Math.abs(reference - stale.referencePrice) / stale.referencePrice > 0.0025) {
+        this.trailingBuy.disarm(this.pair);
+      }
+
+      if (inInterestZone && vwap.candlesUsed >= MIN_VWAP_CANDLES_FOR_ENTRY && price <= buyThreshold && !this.trailingBuy.isArmed(this.pair)) {
+        this.trailingBuy.arm(this.pair, reference, price, { trailingPct: derived.reboundPct });
+      }
+
+      if (this.trailingBuy.isArmed(this.pair)) {
+        const state = this.trailingBuy.getState(this.pair);
+        const result = this.trailingBuy.update(this.pair, price);
+        if (result.triggered) {
+          trailingEntry = {
+            localLow: result.localLow,
+            buyThreshold: result.buyThreshold ?? state?.buyThreshold ?? price,
+            maxExecutionPrice: result.maxExecutionPrice ?? state?.maxExecutionPrice ?? price * 1.01,
+          };
+        }
+      }
+
+      const inNeutralOrAbove = zone === "between_bands" || zone === "above_upper1" || zone === "above_upper2";
+      if (inNeutralOrAbove && this.trailingBuy.isArmed(this.pair)) this.trailingBuy.disarm(this.pair);
+    }
+
+    const level1 = this.asset.trailingBuyLevel1ConfigJson as TrailingBuyLevel1Config | null | undefined;
+    if (level1?.enabled && !trailingEntry) {
+      trailingEntry = await this.evaluateLevel1TrailingBuy(level1, price, derived);
+    }
+
+    if (trailingEntry) {
+      await this.checkEntry(price, trailingEntry);
+    } else {
+      this.block("trailing_buy_waiting");
+    }
+  }
+
+  private async evaluateLevel1TrailingBuy(
+    level1: TrailingBuyLevel1Config,
+    price: number,
+    derived: ReturnType<typeof getEffectiveEntryConfig>,
+  ): Promise<{ localLow: number; buyThreshold: number; maxExecutionPrice: number } | undefined> {
+    let triggerPrice: number | null = null;
+    if (this.asset.ladderAtrpEnabled) {
+      triggerPrice = await this.ladderNextBuyPrice(level1.triggerLevel);
+    } else if (level1.triggerLevel === 0) {
+      triggerPrice = this.replayContext.anchorPrice * (1 - n(this.asset.minDipPct, 2.0) / 100);
+    } else if (this.safetyOrders[level1.triggerLevel - 1]) {
+      triggerPrice = this.replayContext.anchorPrice * (1 - this.safetyOrders[level1.triggerLevel - 1].dipPct / 100);
+    }
+    if (!triggerPrice) return undefined;
+
+    const reference = this.anchor?.anchorPrice && this.anchor.anchorPrice > 0 ? this.anchor.anchorPrice : triggerPrice;
+    const distance = resolveIdcaRequiredDistance({
+      pair: this.pair,
+      usedFor: "trailing_buy_entry",
+      activeEntryMode: this.entryMode,
+      referencePrice: reference,
+      atrPct: this.volatility(),
+      entryGlobalConfig: this.config,
+      dynamicDistanceConfig: parseDynamicDistanceConfig(this.asset.dynamicDistanceConfigJson),
+      buyCount: 0,
+      marketScore: 50,
+      candleCount: this.window.length,
+      capitalUsedUsd: 0,
+      capitalReservedUsd: 0,
+      tbPath: "level_1",
+    });
+    const buyThreshold = reference * (1 - distance.requiredDistancePct / 100);
+    const maxExecutionPrice = buyThreshold * (1 + derived.maxExecutionOvershootPct / 100);
+
+    if (price <= buyThreshold && !this.trailingBuy.isArmed(this.pair)) {
+      this.trailingBuy.armLevel(this.pair, reference, buyThreshold, price, level1.triggerLevel, {
+        trailingMode: level1.trailingMode,
+        trailingValue: level1.trailingMode === "rebound_pct" ? derived.reboundPct : level1.trailingValue,
+        maxWaitMinutes: level1.maxWaitMinutes,
+        cancelOnRecovery: level1.cancelOnRecovery,
+        atrpMultiplier: this.volatility(),
+        maxExecutionPrice,
+      });
+    }
+    if (!this.trailingBuy.isArmed(this.pair)) return undefined;
+    const result = this.trailingBuy.update(this.pair, price);
+    return result.triggered
+      ? { localLow: result.localLow, buyThreshold, maxExecutionPrice: result.maxExecutionPrice ?? maxExecutionPrice }
+      : undefined;
+  }
+
+  /** Legacy VWAP anchor — same reset/update rules as applyLegacyVwapAnchor. */
+  private applyLegacyAnchor(price: number, basePrice: { price: number; timestamp: Date | string | number }): void {
+    if (!this.asset.vwapEnabled || !(basePrice.price > 0)) return;
+    const rawTs = basePrice.timestamp;
+    const swingTs = rawTs instanceof Date ? rawTs.getTime() : typeof rawTs === "string" ? new Date(rawTs).getTime() : rawTs;
+    if (!Number.isFinite(swingTs)) return;
+
+    if (this.anchor && shouldResetAnchor({ pair: this.pair, currentPrice: price, anchorPrice: this.anchor.anchorPrice }).shouldReset) {
+      this.anchor = undefined;
+      this.trailingBuy.disarm(this.pair);
+    }
+    if (!this.anchor) {
+      this.anchor = { anchorPrice: basePrice.price, anchorTimestamp: swingTs, setAt: this.nowMs, drawdownPct: 0 };
+    } else if (shouldUpdateAnchor({
+      pair: this.pair,
+      currentPrice: price,
+      newSwingPrice: basePrice.price,
+      anchorPrice: this.anchor.anchorPrice,
+      anchorSetAt: this.anchor.setAt,
+      now: this.nowMs,
+    }).shouldUpdate) {
+      this.anchor = { anchorPrice: basePrice.price, anchorTimestamp: swingTs, setAt: this.nowMs, drawdownPct: 0 };
+    }
+    this.anchor.drawdownPct = ((this.anchor.anchorPrice - price) / this.anchor.anchorPrice) * 100;
+  }
+
+  /** Mirrors performEntryCheck (simulation, single pair). */
+  private evaluateEntryGates(
+    price: number,
+    trailingEntry?: { localLow: number; buyThreshold: number; maxExecutionPrice: number },
+  ): EntryDecision {
+    const blocks: string[] = [];
+    const candles = this.window;
+
+    if ((this.openCapitalUsed() / this.allocatedCapital) * 100 >= n(this.config.maxModuleExposurePct)) {
+      blocks.push("module_exposure_max_reached");
+    }
+    if (this.cash < MIN_SIMULATION_BALANCE_USD) blocks.push("insufficient_simulation_balance");
+
+    const basePrice = smart.computeBasePrice({
+      candles,
+      lookbackMinutes: this.config.localHighLookbackMinutes,
+      method: normalizeDipReferenceMethod(this.asset.dipReference || "hybrid", { pair: this.pair, origin: "backtest" }),
+      currentPrice: price,
+      pair: this.pair,
+      now: this.nowMs,
+    });
+    if (!basePrice.isReliable) blocks.push("insufficient_base_price_data");
+
+    this.applyLegacyAnchor(price, basePrice);
+
+    let vwapContext: VwapEntryContext | undefined;
+    if (this.asset.vwapEnabled && basePrice.isReliable && basePrice.timestamp) {
+      const anchorMs = this.anchor?.anchorTimestamp ?? new Date(basePrice.timestamp).getTime();
+      const vwap = smart.computeVwapAnchored(candles, anchorMs, this.nowMs);
+      if (vwap.isReliable) {
+        const band = smart.getVwapBandPosition(price, vwap);
+        vwapContext = {
+          vwap: vwap.vwap,
+          upperBand1: vwap.upperBand1,
+          lowerBand1: vwap.lowerBand1,
+          upperBand2: vwap.upperBand2,
+          lowerBand2: vwap.lowerBand2,
+          lowerBand3: vwap.lowerBand3,
+          stdDev: vwap.stdDev,
+          anchorTime: vwap.anchorTime,
+          candlesUsed: vwap.candlesUsed,
+          candlesForSigma: vwap.candlesForSigma,
+          isReliable: true,
+          zone: band.zone,
+          distanceFromVwapPct: band.distanceFromVwapPct,
+          distanceFromLower1Pct: band.distanceFromLower1Pct,
+          vwapWeekly: vwap.vwapWeekly,
+          vwapMonthly: vwap.vwapMonthly,
+        };
+      }
+    }
+
+    const ref = resolveEffectiveEntryReference({
+      pair: this.pair,
+      currentPrice: price,
+      basePriceResult: basePrice,
+      frozenAnchor: this.anchor,
+      vwapContext,
+      vwapEnabled: this.asset.vwapEnabled,
+      now: this.nowMs,
+    });
+    const effectiveBase = ref.effectiveEntryReference;
+    const entryDipPct = effectiveBase > 0 ? ((effectiveBase - price) / effectiveBase) * 100 : 0;
+    const atrPct = basePrice.meta?.atrPct ?? 0;
+
+    const distance = resolveIdcaRequiredDistance({
+      pair: this.pair,
+      usedFor: "initial_entry",
+      activeEntryMode: this.entryMode,
+      referencePrice: effectiveBase > 0 ? effectiveBase : price,
+      atrPct,
+      entryGlobalConfig: this.config,
+      dynamicDistanceConfig: parseDynamicDistanceConfig(this.asset.dynamicDistanceConfigJson),
+      buyCount: 0,
+      marketScore: 50,
+      candleCount: candles.length,
+      capitalUsedUsd: 0,
+      capitalReservedUsd: 0,
+    });
+    let minDip = distance.requiredDistancePct;
+
+    if (trailingEntry) {
+      if (price > trailingEntry.maxExecutionPrice) blocks.push("trailing_buy_execution_too_high");
+    } else if (basePrice.isReliable && entryDipPct < minDip) {
+      blocks.push("insufficient_dip");
+    }
+
+    if (this.asset.vwapEnabled && vwapContext?.vwapWeekly) {
+      const inNeutralZone = price >= (vwapContext.lowerBand1 || 0) && price <= (vwapContext.upperBand1 || Infinity);
+      if (price < vwapContext.vwapWeekly && inNeutralZone) blocks.push("vwap_weekly_trend_bearish");
+    }
+
+    let marketScore = 60;
+    let sizeProfile: IdcaSizeProfile = "balanced";
+    if (this.config.smartModeEnabled && candles.length >= 20) {
+      const closes = candles.map(c => c.close);
+      const ema20 = smart.computeEMA(closes, 20);
+      const ema50 = smart.computeEMA(closes, Math.min(50, closes.length));
+      marketScore = smart.computeMarketScore({
+        currentPrice: price,
+        ema20: ema20[ema20.length - 1],
+        ema50: ema50[ema50.length - 1],
+        prevEma20: ema20[Math.max(0, ema20.length - 2)],
+        prevEma50: ema50[Math.max(0, ema50.length - 2)],
+        rsi: smart.computeRSI(closes),
+        currentVolume: 1,
+        avgVolume: 1,
+        localHigh: basePrice.price > 0 ? basePrice.price : Math.max(...closes.slice(-60)),
+      }, this.config.marketScoreWeightsJson as any);
+      if (marketScore < 50) blocks.push("market_score_too_low");
+      sizeProfile = this.config.adaptivePositionSizingEnabled ? smart.selectSizeProfile(marketScore) : "balanced";
+    }
+
+    if (this.asset.vwapEnabled && vwapContext?.vwapMonthly) {
+      const monthly = vwapContext.vwapMonthly;
+      if (price < monthly * 0.95) sizeProfile = "aggressive_quality";
+      else if (price >= monthly) sizeProfile = "defensive";
+    }
+
+    let reboundConfirmed = true;
+    if (this.asset.requireReboundConfirmation && entryDipPct >= minDip) {
+      reboundConfirmed = this.reboundConfirmed(price);
+      if (!reboundConfirmed) blocks.push("no_rebound_confirmed");
+    }
+
+    if (this.config.smartModeEnabled || this.entryMode === "dynamic_intelligent_entry") {
+      const recent = candles.slice(-6);
+      const past = recent.length >= 4 ? recent[recent.length - 4].close : 0;
+      const momentumPct = past > 0 ? ((recent[recent.length - 1].close - past) / past) * 100 : 0;
+      const last = recent[recent.length - 1];
+      const prev = recent[recent.length - 2];
+      const ext = this.indicators.snapshot();
+      const confluence = evaluateIdcaEntryConfluence({
+        pair: this.pair,
+        usedFor: trailingEntry ? "trailing_buy_entry" : "initial_entry",
+        confluenceProfile: this.entryMode === "dynamic_intelligent_entry" ? "full" : "assisted",
+        drawdownFromReferencePct: entryDipPct,
+        requiredDistancePct: minDip,
+        sliderBasePct: distance.breakdown.sliderBasePct ?? minDip,
+        dynamicRawDistancePct: this.entryMode === "dynamic_intelligent_entry" ? distance.requiredDistancePct : undefined,
+        userMinEntryDistancePct: distance.breakdown.userMinDistancePct,
+        userMaxEntryDistancePct: distance.breakdown.userMaxDistancePct,
+        vwapZone: vwapContext?.zone,
+        referenceMethod: ref.effectiveReferenceSource ?? undefined,
+        vwapReliable: vwapContext?.isReliable ?? false,
+        reboundConfirmed,
+        requireReboundConfirmation: !!this.asset.requireReboundConfirmation,
+        trailingBuyArmed: this.trailingBuy.isArmed(this.pair),
+        priceInActivationZone: entryDipPct >= minDip,
+        shortMomentum: recent.length < 4 || past <= 0 ? "flat" : momentumPct > 0.3 ? "positive" : momentumPct < -0.3 ? "negative" : "flat",
+        hasRecoveryCandle: !!(prev && last.open && last.close > last.open && last.close > prev.close),
+        indicatorConfirmation: {
+          stochRsiK: ext.stochRsi?.k ?? null,
+          stochRsiD: ext.stochRsi?.d ?? null,
+          supertrendDirection: ext.supertrend?.direction ?? null,
+          obvTrend: ext.obv?.trend ?? null,
+        },
+        oscillatorBlendEnabled: getIdcaOscillatorBlendEnabled(),
+        capitalUsedUsd: 0,
+        capitalReservedUsd: 0,
+        buyCount: 0,
+        marketScore,
+        atrPct,
+        btcContext: undefined,
+        candleCount: candles.length,
+        atrReliable: atrPct > 0,
+        smartAdjustmentEnabled: false,
+      });
+
+      if (confluence.hardBlocked) blocks.push("confluence_hard_blocked");
+      else if (confluence.decisionClass === "NO_ENTRY") blocks.push("confluence_no_entry");
+
+      if (confluence.finalRequiredDistancePct !== minDip) {
+        minDip = confluence.finalRequiredDistancePct;
+        const idx = blocks.indexOf("insufficient_dip");
+        if (idx >= 0 && entryDipPct >= minDip) blocks.splice(idx, 1);
+        else if (idx < 0 && basePrice.isReliable && !trailingEntry && entryDipPct < minDip) blocks.push("insufficient_dip");
+      }
+    }
+
+    return { allowed: blocks.length === 0, blocks, marketScore, sizeProfile, vwapContext };
+  }
+
+  /** Mirrors checkEntry (simulation branch). */
+  private async checkEntry(
+    price: number,
+    trailingEntry?: { localLow: number; buyThreshold: number; maxExecutionPrice: number },
+  ): Promise<void> {
+    const decision = this.evaluateEntryGates(price, trailingEntry);
+    if (!decision.allowed) {
+      decision.blocks.forEach(code => this.block(code));
+      return;
+    }
+
+    this.anchor = undefined;
+    const capitalForCycle = this.allocatedCapital * (this.bounds.maxAssetExposurePct / 100);
+    const weights = smart.getSizeWeights(decision.sizeProfile, this.safetyOrders.length + 1);
+
+    const cycle = this.newCycle("main", null, capitalForCycle);
+    cycle.entrySource = trailingEntry ? "trailing_buy" : "normal";
+    cycle.marketScore = decision.marketScore;
+    cycle.sizeProfile = decision.sizeProfile;
+    const vc = decision.vwapContext;
+    cycle.vwapBands = vc ? { lowerBand2: vc.lowerBand2, lowerBand3: vc.lowerBand3 } : null;
+    this.buy(cycle, "base_buy", capitalForCycle * (weights[0] / 100), price, trailingEntry ? "Trailing buy entry" : "Initial entry");
+
+    cycle.tpPct = this.config.adaptiveTpEnabled
+      ? this.dynamicTpPct("main", 1, decision.marketScore || 50, price)
+      : n(this.asset.takeProfitPct, 4.0);
+    cycle.trailingPct = this.dynamicTrailingPct();
+
+    let nextBuyPrice = this.safetyOrders.length > 0 ? price * (1 - this.safetyOrders[0].dipPct / 100) : null;
+    if (this.asset.vwapEnabled && vc?.lowerBand2 && vc.lowerBand2 > 0 && nextBuyPrice !== null) {
+      nextBuyPrice = Math.min(nextBuyPrice, vc.lowerBand2);
+    }
+    // manageCycle self-heals a missing next level from the ATRP ladder
+    cycle.nextBuyPrice = nextBuyPrice ?? await this.ladderNextBuyPrice(cycle.buyCount);
+
+    if (this.plusCfg.enabled && this.plusCfg.requireMainExhausted) {
+      this.plusExhaustedCache = { buyCount: cycle.buyCount, maxBuys: await this.plusMaxBuys() };
+    }
+  }
+
+  // ─── Results ─────────────────────────────────────────────────────
+
+  private buildResults(candlesProcessed: number): IdcaBacktestResults {
+    const closed = this.cycles.filter(c => c.realizedPnlUsd != null);
+    const wins = closed.filter(c => c.realizedPnlUsd! > 0);
+    const losses = closed.filter(c => c.realizedPnlUsd! <= 0);
+    const grossProfit = wins.reduce((s, c) => s + c.realizedPnlUsd!, 0);
+    const grossLoss = Math.abs(losses.reduce((s, c) => s + c.realizedPnlUsd!, 0));
+    const durations = closed.map(c => (c.closedAt! - c.openedAt) / 3600000);
+    const totalFeesUsd = this.cycles.reduce((s, c) => s + c.orders.reduce((o, x) => o + x.feesUsd + x.slippageUsd, 0), 0);
+
+    let peak = this.params.initialBalanceUsd;
+    let maxDrawdownPct = 0;
+    for (const point of this.equityCurve) {
+      peak = Math.max(peak, point.equityUsd);
+      if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - point.equityUsd) / peak) * 100);
+    }
+
+    const finalEquityUsd = this.cash;
+    const totalReturnUsd = finalEquityUsd - this.params.initialBalanceUsd;
+    const closeReasons: Record<string, number> = {};
+    for (const c of closed) closeReasons[c.closeReason!] = (closeReasons[c.closeReason!] ?? 0) + 1;
+
+    const step = Math.max(1, Math.ceil(this.equityCurve.length / MAX_EQUITY_POINTS));
+    const equityCurve = this.equityCurve
+      .filter((_, i) => i % step === 0 || i === this.equityCurve.length - 1)
+      .map(p => ({ time: iso(p.time), equityUsd: round(p.equityUsd, 2) }));
+
+    return {
+      pair: this.pair,
+      timeframe: this.params.timeframe,
+      fromDate: iso(this.params.fromMs),
+      toDate: iso(this.nowMs || this.params.fromMs),
+      summary: {
+        candlesProcessed,
+        cyclesCount: this.cycles.length,
+        cyclesByType: {
+          main: this.cycles.filter(c => c.cycleType === "main").length,
+          plus: this.cycles.filter(c => c.cycleType === "plus").length,
+          recovery: this.cycles.filter(c => c.cycleType === "recovery").length,
+        },
+        wins: wins.length,
+        losses: losses.length,
+        winRatePct: closed.length > 0 ? round((wins.length / closed.length) * 100, 4) : 0,
+        totalReturnUsd: round(totalReturnUsd, 2),
+        totalReturnPct: this.params.initialBalanceUsd > 0 ? round((totalReturnUsd / this.params.initialBalanceUsd) * 100, 4) : 0,
+        maxDrawdownPct: round(maxDrawdownPct, 4),
+        profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss, 4) : null,
+        avgCycleDurationHours: durations.length > 0 ? round(durations.reduce((a, b) => a + b, 0) / durations.length, 2) : 0,
+        totalFeesUsd: round(totalFeesUsd, 2),
+        initialBalanceUsd: this.params.initialBalanceUsd,
+        finalEquityUsd: round(finalEquityUsd, 2),
+        closeReasons,
+      },
+      cycles: this.cycles.map(c => this.toCycleResult(c)),
+      entryBlocks: this.entryBlocks,
+      equityCurve,
+      assumptions: {
+        feePct: this.feePct,
+        slippagePct: this.slippagePct,
+        fillModel: "entries at candle close; open cycles managed on O-L-H-C / O-H-L-C path; simulation fees + slippage per side",
+        anchorModel: "legacy_vwap_anchor",
+      },
+    };
+  }
+
+  private toCycleResult(c: SimCycle): IdcaBacktestCycle {
+    return {
+      id: c.id,
+      cycleType: c.cycleType,
+      parentCycleId: c.parentCycleId,
+      entrySource: c.entrySource,
+      openedAt: iso(c.openedAt),
+      closedAt: c.closedAt != null ? iso(c.closedAt) : null,
+      closeReason: c.closeReason,
+      buyCount: c.buyCount,
+      avgEntryPrice: c.avgEntryPrice,
+      exitPrice: c.exitPrice,
+      capitalUsedUsd: round(c.capitalUsedUsd, 2),
+      realizedPnlUsd: c.realizedPnlUsd != null ? round(c.realizedPnlUsd, 2) : null,
+      realizedPnlPct: c.realizedPnlUsd != null && c.capitalUsedUsd > 0 ? round((c.realizedPnlUsd / c.capitalUsedUsd) * 100, 4) : null,
+      maxDrawdownPct: round(c.maxDrawdownPct, 4),
+      durationHours: c.closedAt != null ? round((c.closedAt - c.openedAt) / 3600000, 2) : null,
+      marketScore: c.marketScore,
+      sizeProfile: c.sizeProfile,
+      orders: c.orders,
+    };
+  }
+}
+
+function round(v: number, decimals: number): number {
+  const f = 10 ** decimals;
+  return Math.round(v * f) / f;
+}
+
+/**
+ * Pure replay: no DB access. `candles` must be ascending and include the
+ * warm-up window before params.fromMs.
+ */
+export async function replayIdcaCandles(
+  candles: TimestampedCandle[],
+  params: IdcaReplayParams,
+): Promise<IdcaBacktestResults> {
+  return new IdcaBacktestReplay(params).run(candles);
+}
+
+// ─── Runner ────────────────────────────────────────────────────────
+
+function toDate(value: string | Date): Date {
+  const d = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(d.getTime())) throw new Error(`Invalid date: ${String(value)}`);
+  return d;
+}
+
+/**
+ * Load config + cached OHLCV, replay, and persist the run to
+ * institutional_dca_backtests (summary columns + results_json).
+ */
+export async function runIdcaBacktest(
+  request: IdcaBacktestRequest,
+): Promise<{ backtest: InstitutionalDcaBacktest | null; results: IdcaBacktestResults }> {
+  const from = toDate(request.fromDate);
+  const to = toDate(request.toDate);
+  if (from.getTime() >= to.getTime()) throw new Error("fromDate must be before toDate");
+
+  const timeframe = request.timeframe ?? "1h";
+  const lookbackCandles = request.lookbackCandles ?? DEFAULT_LOOKBACK_CANDLES;
+  const liveConfig = await repo.getIdcaConfig();
+  const liveAsset = await repo.getAssetConfig(request.pair);
+  if (!liveAsset) throw new Error(`No asset config for ${request.pair}`);
+
+  const config = { ...liveConfig, ...(request.config ?? {}) } as InstitutionalDcaConfigRow;
+  const assetConfig = { ...liveAsset, ...(request.assetConfig ?? {}) } as InstitutionalDcaAssetConfigRow;
+  const initialBalanceUsd = request.initialBalanceUsd ?? n(config.simulationInitialBalanceUsd, 10000);
+
+  const warmupFrom = new Date(from.getTime() - lookbackCandles * IDCA_BACKTEST_TIMEFRAME_MS[timeframe]);
+  const rows = await repo.getOhlcvRange(request.pair, timeframe, warmupFrom, to);
+  const candles: TimestampedCandle[] = rows.map(r => ({
+    time: new Date(r.ts).getTime(),
+    open: n(r.open),
+    high: n(r.high),
+    low: n(r.low),
+    close: n(r.close),
+    volume: n(r.volume),
+  }));
+  if (!candles.some(c => c.time >= from.getTime())) {
+    throw new Error(`No ${timeframe} OHLCV cached for ${request.pair} between ${from.toISOString()} and ${to.toISOString()}`);
+  }
+
+  console.log(`${TAG} ${request.pair} ${timeframe} ${from.toISOString()} → ${to.toISOString()} | candles=${candles.length}`);
+  const results = await replayIdcaCandles(candles, {
+    pair: request.pair,
+    timeframe,
+    fromMs: from.getTime(),
+    lookbackCandles,
+    initialBalanceUsd,
+    config,
+    assetConfig,
+  });
+  const s = results.summary;
+  console.log(
+    `${TAG} ${request.pair} done | cycles=${s.cyclesCount} winRate=${s.winRatePct}%` +
+    ` return=${s.totalReturnPct}% maxDD=${s.maxDrawdownPct}%`
+  );
+
+  if (request.persist === false) return { backtest: null, results };
+
+  const backtest = await repo.createBacktest({
+    pair: request.pair,
+    fromDate: from,
+    toDate: to,
+    configSnapshotJson: { timeframe, lookbackCandles, initialBalanceUsd, config, assetConfig },
+    totalReturnPct: s.totalReturnPct.toFixed(4),
+    totalReturnUsd: s.totalReturnUsd.toFixed(2),
+    maxDrawdownPct: s.maxDrawdownPct.toFixed(4),
+    winRatePct: s.winRatePct.toFixed(4),
+    profitFactor: s.profitFactor != null ? s.profitFactor.toFixed(4) : null,
+    cyclesCount: s.cyclesCount,
+    avgCycleDurationHours: s.avgCycleDurationHours.toFixed(2),
+    resultsJson: results,
+  });
+  return { backtest, results };
+}
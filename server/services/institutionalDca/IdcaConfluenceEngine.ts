@@ -12,6 +12,7 @@
  *  8. Dynamic distance   — para dynamic_intelligent_entry usa confidence para ajustar distancia
  *
  * Sprint 1b default: smartAdjustmentEnabled=false → solo diagnóstico, sin cambio de distancia.
+ * oscillatorBlendEnabled=false (IDCA_OSCILLATOR_BLEND_ENABLED) → oscillatorScore solo informativo.
  * NO modifica sizing real, avgEntryPrice, anclas ni fills.
  */
 
@@ -25,7 +26,9 @@ import type {
   IdcaConfidenceGrade,
   IdcaHardBlockerCode,
   IdcaDegradingBlockerCode,
+  IdcaAssetProfile,
 } from "./IdcaTypes";
+import { resolveAssetProfile } from "./IdcaCycleConfig";
 
 const TAG = "[IDCA]";
 
@@ -37,6 +40,11 @@ const CLAMP_ETH_SMART_ADJ_MIN = -0.50;
 const CLAMP_ETH_SMART_ADJ_MAX =  1.00;
 const CLAMP_GENERIC_SMART_ADJ_MIN = -0.40;
 const CLAMP_GENERIC_SMART_ADJ_MAX =  0.80;
+const SMART_ADJ_CLAMPS: Record<IdcaAssetProfile, [number, number]> = {
+  btc:     [CLAMP_BTC_SMART_ADJ_MIN, CLAMP_BTC_SMART_ADJ_MAX],
+  eth:     [CLAMP_ETH_SMART_ADJ_MIN, CLAMP_ETH_SMART_ADJ_MAX],
+  generic: [CLAMP_GENERIC_SMART_ADJ_MIN, CLAMP_GENERIC_SMART_ADJ_MAX],
+};
 
 // ─── Market Regime Classifier ─────────────────────────────────────────────────
 
@@ -139,8 +147,39 @@ function computeValueScore(input: IdcaConfluenceInput): {
   return { score, distanceScore, vwapZoneScore, referenceQualityScore };
 }
 
+/** Mezcla de osciladores en el momentumScore (por defecto desactivada: solo diagnóstico). */
+export function getIdcaOscillatorBlendEnabled(): boolean {
+  return String(process.env.IDCA_OSCILLATOR_BLEND_ENABLED ?? "false").toLowerCase() === "true";
+}
+
+/**
+ * Score 0-100 de los osciladores incrementales, o null si no hay ninguno listo.
+ * Para compras en caída: Stoch RSI sobrevendido girando al alza es lo mejor;
+ * Supertrend alcista y OBV creciente confirman que el rebote tiene apoyo.
+ */
+function computeOscillatorScore(conf: IdcaConfluenceInput["indicatorConfirmation"]): number | null {
+  if (!conf) return null;
+  const parts: number[] = [];
+
+  if (conf.stochRsiK !== null) {
+    const turningUp = conf.stochRsiD !== null && conf.stochRsiK > conf.stochRsiD;
+    parts.push(conf.stochRsiK < 20 ? (turningUp ? 85 : 65)
+      : conf.stochRsiK > 80 ? 30
+      : 50);
+  }
+  if (conf.supertrendDirection !== null) {
+    parts.push(conf.supertrendDirection === "up" ? 70 : 40);
+  }
+  if (conf.obvTrend !== null) {
+    parts.push(conf.obvTrend === "up" ? 70 : conf.obvTrend === "down" ? 35 : 50);
+  }
+
+  return parts.length > 0 ? parts.reduce((a, b) => a + b, 0) / parts.length : null;
+}
+
 function computeConfirmationScore(input: IdcaConfluenceInput): {
   score: number; reboundScore: number; momentumScore: number; structureScore: number;
+  oscillatorScore: number | null;
 } {
   const { reboundConfirmed, requireReboundConfirmation, trailingBuyArmed, priceInActivationZone,
           shortMomentum, hasRecoveryCandle } = input;
@@ -157,11 +196,15 @@ function computeConfirmationScore(input: IdcaConfluenceInput): {
     reboundScore = 30;
   }
 
-  // 2. momentum score
-  const momentumScore = shortMomentum === "positive" ? 80
+  // 2. momentum score — mezcla 50/50 con los osciladores solo con oscillatorBlendEnabled
+  const baseMomentumScore = shortMomentum === "positive" ? 80
     : shortMomentum === "flat" ? 55
     : shortMomentum === "negative" ? 25
     : 50;
+  const oscillatorScore = computeOscillatorScore(input.indicatorConfirmation);
+  const momentumScore = input.oscillatorBlendEnabled && oscillatorScore !== null
+    ? 0.5 * baseMomentumScore + 0.5 * oscillatorScore
+    : baseMomentumScore;
 
   // 3. structure score
   const structureScore = hasRecoveryCandle === true ? 80
@@ -173,7 +216,7 @@ function computeConfirmationScore(input: IdcaConfluenceInput): {
     0, 100
   );
 
-  return { score, reboundScore, momentumScore, structureScore };
+  return { score, reboundScore, momentumScore, structureScore, oscillatorScore };
 }
 
 function computeRiskScore(input: IdcaConfluenceInput): {
@@ -461,10 +504,7 @@ function computeSmartAdjustment(
   const raw = riskAdjustment + dataAdjustment + regimeAdjustment + vwapAdjustment - confidenceDiscount;
 
   // Clamp by pair
-  const isBtc = pair === "BTC/USD";
-  const isEth = pair === "ETH/USD";
-  const adjMin = isBtc ? CLAMP_BTC_SMART_ADJ_MIN : isEth ? CLAMP_ETH_SMART_ADJ_MIN : CLAMP_GENERIC_SMART_ADJ_MIN;
-  const adjMax = isBtc ? CLAMP_BTC_SMART_ADJ_MAX : isEth ? CLAMP_ETH_SMART_ADJ_MAX : CLAMP_GENERIC_SMART_ADJ_MAX;
+  const [adjMin, adjMax] = SMART_ADJ_CLAMPS[resolveAssetProfile(pair)];
 
   const smartAdjustmentPct = clamp(raw, adjMin, adjMax);
 
@@ -569,7 +609,7 @@ export function evaluateIdcaEntryConfluence(input: IdcaConfluenceInput): IdcaCon
   const { score: valueScore, distanceScore, vwapZoneScore, referenceQualityScore } =
     computeValueScore(input);
 
-  const { score: confirmationScore, reboundScore, momentumScore, structureScore } =
+  const { score: confirmationScore, reboundScore, momentumScore, structureScore, oscillatorScore } =
     computeConfirmationScore(input);
 
   const { score: riskScore, exposurePenalty, cyclePressurePenalty, volatilityPenalty, btcContextPenalty } =
@@ -658,6 +698,7 @@ export function evaluateIdcaEntryConfluence(input: IdcaConfluenceInput): IdcaCon
     candlesScore, freshnessScore, sourceScore, indicatorScore,
     riskMultiplier, dataMultiplier, regimeMultiplier,
     baseOpportunity,
+    ...(oscillatorScore !== null ? { oscillatorScore } : {}),
     ...smartBreakdown,
     ...dynamicBreakdown,
   };
@@ -0,0 +1,169 @@
+/**
+ * IdcaCycleConfig — Pure config helpers shared by the live engine and the
+ * backtest replay: JSON config defaults (dynamic TP, Plus, Recovery), per-asset
+ * guardrails, safety order parsing and the simulation fee resolver.
+ */
+import type { InstitutionalDcaAssetConfigRow, InstitutionalDcaConfigRow } from "@shared/schema";
+import type { DynamicTpConfig, IdcaAssetBounds, IdcaAssetProfile, PlusConfig, RecoveryConfig, SafetyOrderLevel } from "./IdcaTypes";
+
+// ─── Dynamic TP ────────────────────────────────────────────────────
+
+export const DEFAULT_DYNAMIC_TP_CONFIG: DynamicTpConfig = {
+  baseTpPctBtc: 4.0, baseTpPctEth: 5.0,
+  reductionPerExtraBuyMain: 0.3, reductionPerExtraBuyPlus: 0.2,
+  weakReboundReductionMain: 0.5, weakReboundReductionPlus: 0.3,
+  strongReboundBonusMain: 0.3, strongReboundBonusPlus: 0.2,
+  highVolatilityAdjustMain: 0.3, highVolatilityAdjustPlus: 0.2,
+  lowVolatilityAdjustMain: -0.2, lowVolatilityAdjustPlus: -0.1,
+  mainMinTpPctBtc: 2.0, mainMaxTpPctBtc: 6.0,
+  mainMinTpPctEth: 2.5, mainMaxTpPctEth: 8.0,
+  plusMinTpPctBtc: 2.5, plusMaxTpPctBtc: 5.0,
+  plusMinTpPctEth: 3.0, plusMaxTpPctEth: 6.0,
+};
+
+export function getDynamicTpConfig(config: InstitutionalDcaConfigRow): DynamicTpConfig {
+  const raw = config.dynamicTpConfigJson as any;
+  if (!raw || typeof raw !== "object") return DEFAULT_DYNAMIC_TP_CONFIG;
+  return { ...DEFAULT_DYNAMIC_TP_CONFIG, ...raw };
+}
+
+// ─── Plus Cycle ────────────────────────────────────────────────────
+
+export const DEFAULT_PLUS_CONFIG: PlusConfig = {
+  enabled: false, maxPlusCyclesPerMain: 2, maxPlusEntries: 3,
+  capitalAllocationPct: 15, activationExtraDipPct: 4.0,
+  requireMainExhausted: true, requireReboundConfirmation: true,
+  cooldownMinutesBetweenBuys: 60, autoCloseIfMainClosed: true,
+  maxExposurePctPerAsset: 20, entryDipSteps: [2.0, 3.5, 5.0],
+  entrySizingMode: "fixed", baseTpPctBtc: 4.0, baseTpPctEth: 4.5,
+  trailingPctBtc: 1.0, trailingPctEth: 1.2,
+};
+
+export function getPlusConfig(config: InstitutionalDcaConfigRow): PlusConfig {
+  const raw = config.plusConfigJson as any;
+  if (!raw || typeof raw !== "object") return DEFAULT_PLUS_CONFIG;
+  return { ...DEFAULT_PLUS_CONFIG, ...raw };
+}
+
+// ─── Recovery Cycle ────────────────────────────────────────────────
+
+export const DEFAULT_RECOVERY_CONFIG: RecoveryConfig = {
+  enabled: false,
+  activationDrawdownPct: 25,
+  maxRecoveryCyclesPerMain: 1,
+  maxTotalCyclesPerPair: 3,
+  maxPairExposurePct: 40,
+  capitalAllocationPct: 10,
+  maxRecoveryCapitalUsd: 500,
+  cooldownMinutesAfterMainBuy: 120,
+  cooldownMinutesBetweenRecovery: 360,
+  minMarketScoreForRecovery: 40,
+  requireReboundConfirmation: true,
+  recoveryTpPctBtc: 2.5,
+  recoveryTpPctEth: 3.0,
+  maxRecoveryEntries: 2,
+  recoveryEntryDipSteps: [2.0, 4.0],
+  recoveryTrailingPctBtc: 0.8,
+  recoveryTrailingPctEth: 1.0,
+  autoCloseIfMainClosed: true,
+  autoCloseIfMainRecovers: false,
+  maxRecoveryDurationHours: 168,
+};
+
+export function getRecoveryConfig(config: InstitutionalDcaConfigRow): RecoveryConfig {
+  const raw = config.recoveryConfigJson as any;
+  if (!raw || typeof raw !== "object") return DEFAULT_RECOVERY_CONFIG;
+  return { ...DEFAULT_RECOVERY_CONFIG, ...raw };
+}
+
+// ─── Per-asset guardrails ──────────────────────────────────────────
+// The global config and the Plus/Recovery JSON carry *Btc / *Eth values.
+// BTC/USD keeps the BTC profile; every other pair (ETH, SOL, XRP…) uses the
+// ETH profile as the generic altcoin default unless its asset row overrides.
+// Tables tuned per pair (slider curves, confluence clamps, near-zone) also
+// have a "generic" row for pairs other than BTC and ETH.
+
+export function resolveAssetProfile(pair: string): IdcaAssetProfile {
+  if (pair === "BTC/USD") return "btc";
+  if (pair === "ETH/USD") return "eth";
+  return "generic";
+}
+
+export function isBtcProfilePair(pair: string): boolean {
+  return resolveAssetProfile(pair) === "btc";
+}
+
+function decimalOr(value: unknown, fallback: unknown): number {
+  const own = parseFloat(String(value ?? ""));
+  return Number.isFinite(own) ? own : parseFloat(String(fallback));
+}
+
+export function resolveAssetBounds(
+  config: InstitutionalDcaConfigRow,
+  assetConfig: InstitutionalDcaAssetConfigRow,
+): IdcaAssetBounds {
+  const isBtc = isBtcProfilePair(assetConfig.pair);
+  const dtp = getDynamicTpConfig(config);
+  return {
+    minTrailingPct: decimalOr(assetConfig.minTrailingPct, isBtc ? config.minTrailingPctBtc : config.minTrailingPctEth),
+    maxTrailingPct: decimalOr(assetConfig.maxTrailingPct, isBtc ? config.maxTrailingPctBtc : config.maxTrailingPctEth),
+    minTpPct: decimalOr(assetConfig.minTpPct, isBtc ? dtp.mainMinTpPctBtc : dtp.mainMinTpPctEth),
+    maxTpPct: decimalOr(assetConfig.maxTpPct, isBtc ? dtp.mainMaxTpPctBtc : dtp.mainMaxTpPctEth),
+    maxAssetExposurePct: decimalOr(assetConfig.maxAssetExposurePct, config.maxAssetExposurePct || "25"),
+    // BTC cannot gate itself; legacy toggle only ever covered ETH
+    btcGateEnabled: !isBtc && (assetConfig.btcGateEnabled ?? (resolveAssetProfile(assetConfig.pair) === "eth" && config.btcMarketGateForEthEnabled)),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Plus TP/trailing for the asset; trailing stays inside the asset's trailing guardrails. */
+export function resolvePlusExitParams(
+  plusCfg: PlusConfig,
+  config: InstitutionalDcaConfigRow,
+  assetConfig: InstitutionalDcaAssetConfigRow,
+): { tpPct: number; trailingPct: number } {
+  const isBtc = isBtcProfilePair(assetConfig.pair);
+  const bounds = resolveAssetBounds(config, assetConfig);
+  return {
+    tpPct: isBtc ? plusCfg.baseTpPctBtc : plusCfg.baseTpPctEth,
+    trailingPct: clamp(isBtc ? plusCfg.trailingPctBtc : plusCfg.trailingPctEth, bounds.minTrailingPct, bounds.maxTrailingPct),
+  };
+}
+
+/** Recovery TP/trailing for the asset; trailing stays inside the asset's trailing guardrails. */
+export function resolveRecoveryExitParams(
+  rcfg: RecoveryConfig,
+  config: InstitutionalDcaConfigRow,
+  assetConfig: InstitutionalDcaAssetConfigRow,
+): { tpPct: number; trailingPct: number } {
+  const isBtc = isBtcProfilePair(assetConfig.pair);
+  const bounds = resolveAssetBounds(config, assetConfig);
+  return {
+    tpPct: isBtc ? rcfg.recoveryTpPctBtc : rcfg.recoveryTpPctEth,
+    trailingPct: clamp(isBtc ? rcfg.recoveryTrailingPctBtc : rcfg.recoveryTrailingPctEth, bounds.minTrailingPct, bounds.maxTrailingPct),
+  };
+}
+
+// ─── Safety Orders / Fees ──────────────────────────────────────────
+
+export function parseSafetyOrders(json: unknown): SafetyOrderLevel[] {
+  if (Array.isArray(json)) {
+    return json.map((o: any) => ({
+      dipPct: parseFloat(String(o.dipPct || o.dip_pct || 0)),
+      sizePctOfAssetBudget: parseFloat(String(o.sizePctOfAssetBudget || o.size_pct || 25)),
+    }));
+  }
+  return [];
+}
+
+export function resolveSimulationFeePct(config: InstitutionalDcaConfigRow): number {
+  const execFees = (config as any).executionFeesJson as any;
+  if (execFees && typeof execFees.takerFeePct === "number") {
+    return execFees.takerFeePct;
+  }
+  const legacy = parseFloat(String(config.simulationFeePct));
+  return Number.isFinite(legacy) && legacy >= 0 ? legacy : 0.09;
+}
@@ -17,11 +17,10 @@ import { OhlcCandle, computeATRPct } from "./IdcaSmartLayer";
 import { formatIdcaMessage, formatOrderReason, type FormatContext } from "./IdcaMessageFormatter";
 import { idcaMigrationService } from "./IdcaMigrationService";
 import { idcaExitManager } from "./IdcaExitManager";
-import { idcaExecutionManager } from "./IdcaExecutionManager";
+import { idcaExecutionManager, getIdcaExecutionStrategy, getIdcaSlicedMinUsd } from "./IdcaExecutionManager";
 import * as exitRepo from "./IdcaExitInstructionRepository";
 import { processTriggeredExitInstructions } from "./IdcaExitExecutor";
 import {
-  INSTITUTIONAL_DCA_ALLOWED_PAIRS,
   type InstitutionalDcaCycle,
   type InstitutionalDcaConfigRow,
   type InstitutionalDcaAssetConfigRow,
@@ -45,18 +44,33 @@ import type {
   IdcaConfluenceResult,
 } from "./IdcaTypes";
 import { normalizeDipReferenceMethod } from "./IdcaTypes";
+import {
+  getDynamicTpConfig,
+  getPlusConfig,
+  getRecoveryConfig,
+  isBtcProfilePair,
+  parseSafetyOrders,
+  resolveAssetBounds,
+  resolvePlusExitParams,
+  resolveRecoveryExitParams,
+  resolveSimulationFeePct,
+} from "./IdcaCycleConfig";
 import { parseDynamicDistanceConfig } from "./IdcaDynamicDistanceService";
 import { resolveIdcaRequiredDistance, logDistanceResolution } from "./IdcaDistanceResolver";
-import { evaluateIdcaEntryConfluence, logIdcaConfluence } from "./IdcaConfluenceEngine";
+import { evaluateIdcaEntryConfluence, logIdcaConfluence, getIdcaOscillatorBlendEnabled } from "./IdcaConfluenceEngine";
 import type { TimestampedCandle } from "./IdcaSmartLayer";
 import { ExchangeFactory } from "../exchanges/ExchangeFactory";
+import { portfolioIntegrationAdapter } from "../portfolio/PortfolioIntegrationAdapter";
 import { MarketDataService } from "../MarketDataService";
+import { incrementalIndicatorStore } from "../incrementalIndicators";
+import { OrderBookDepthService } from "../marketData/OrderBookDepthService";
 import { resolveDynamicAnchor, type DynamicAnchorResult } from "./IdcaDynamicAnchorService";
 import * as liveGuard from "./IdcaLiveExecutionGuard";
 import { runStartupReconciliation, isSafeToStartAfterReconciliation } from "./IdcaStartupReconciliationService";
 import { tradeSnapshotService, type IdcaCycleContext } from "../TradeSnapshotService";
 import { tradeMetricsTracker } from "../TradeMetricsTracker";
 import { idcaHybridDecisionService } from "./IdcaHybridDecisionService";
+import { observeEngineTick } from "../metrics/appMetrics";
 
 const TAG = "[IDCA]";
 
@@ -470,25 +484,6 @@ function buildReviewConclusion(d: CycleReviewDiagnosis, pnlPct: number, maxDD: n
   return `Ciclo revisado: ${parts.join(", ")}`;
 }
 
-const DEFAULT_DYNAMIC_TP_CONFIG: DynamicTpConfig = {
-  baseTpPctBtc: 4.0, baseTpPctEth: 5.0,
-  reductionPerExtraBuyMain: 0.3, reductionPerExtraBuyPlus: 0.2,
-  weakReboundReductionMain: 0.5, weakReboundReductionPlus: 0.3,
-  strongReboundBonusMain: 0.3, strongReboundBonusPlus: 0.2,
-  highVolatilityAdjustMain: 0.3, highVolatilityAdjustPlus: 0.2,
-  lowVolatilityAdjustMain: -0.2, lowVolatilityAdjustPlus: -0.1,
-  mainMinTpPctBtc: 2.0, mainMaxTpPctBtc: 6.0,
-  mainMinTpPctEth: 2.5, mainMaxTpPctEth: 8.0,
-  plusMinTpPctBtc: 2.5, plusMaxTpPctBtc: 5.0,
-  plusMinTpPctEth: 3.0, plusMaxTpPctEth: 6.0,
-};
-
-function getDynamicTpConfig(config: InstitutionalDcaConfigRow): DynamicTpConfig {
-  const raw = config.dynamicTpConfigJson as any;
-  if (!raw || typeof raw !== "object") return DEFAULT_DYNAMIC_TP_CONFIG;
-  return { ...DEFAULT_DYNAMIC_TP_CONFIG, ...raw };
-}
-
 function getReboundStrength(pair: string): "none" | "weak" | "strong" {
   const candles = ohlcCache.get(pair) || [];
   if (candles.length < 3) return "none";
@@ -525,6 +520,13 @@ const ENTRY_EVENT_THROTTLE_MS = 5 * 60 * 1000;                 // 5 minutes
 const lastObservedEventMs = new Map<string, number>();          // throttle: max 1 entry_observed event per 30min per pair
 const OBSERVE_EVENT_THROTTLE_MS = 30 * 60 * 1000;              // 30 minutes
 const migrationWarnedPairs = new Set<string>();                 // only warn ONCE per pair per process lifetime
+
+// Sliced (TWAP/participation) buys run for minutes: the pair evaluation that
+// started one is detached from the tick and tracked here until it settles, so
+// exits, safety checks and the other pairs keep running. The pair is skipped
+// by later ticks while its job is in flight.
+const backgroundPairJobs = new Map<string, { startedAt: Date; promise: Promise<void> }>();
+const pairDetachSignals = new Map<string, () => void>();
 // TODO: persistir en DB si se quiere sobrevivir reinicios (actualmente en memoria con TTL)
 const lastDigestSentAt = new Map<string, number>();             // por modo: last time digest was sent
 
@@ -611,6 +613,7 @@ export function getHealthStatus() {
     tickCount,
     schedulerActive: schedulerTimeout !== null,
     schedulerState: lastSchedulerState,
+    backgroundExecutions: Array.from(backgroundPairJobs.entries()).map(([pair, job]) => ({ pair, startedAt: job.startedAt })),
   };
 }
 
@@ -620,7 +623,7 @@ export async function importPosition(req: import("./IdcaTypes").ImportPositionRe
   if (mode === "disabled") throw new Error("El módulo IDCA está deshabilitado.");
 
   const pair = req.pair;
-  if (!INSTITUTIONAL_DCA_ALLOWED_PAIRS.includes(pair as any)) {
+  if (!(await repo.getAssetConfig(pair))) {
     throw new Error(`Par no permitido: ${pair}`);
   }
 
@@ -809,14 +812,14 @@ async function scheduleNext(): Promise<void> {
       lastSchedulerState = state;
     }
     schedulerTimeout = setTimeout(() => {
-      runTick()
+      observeEngineTick("idca", runTick)
         .catch(e => console.error(`${TAG}[ERROR]`, e.message))
         .finally(() => { void scheduleNext(); });
     }, delay);
   } catch (e: any) {
     console.error(`${TAG}[SCHED_ERR] scheduleNext failed: ${e?.message}. Falling back to 60s.`);
     schedulerTimeout = setTimeout(() => {
-      runTick()
+      observeEngineTick("idca", runTick)
         .catch(er => console.error(`${TAG}[ERROR]`, er.message))
         .finally(() => { void scheduleNext(); });
     }, 60_000);
@@ -908,7 +911,7 @@ export async function startScheduler(): Promise<void> {
   );
   await loadAnchorsFromDb();
   // Reconstruct anti-spam Trailing Buy state from DB so ARMED is not re-sent after restart
-  for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+  for (const pair of await repo.getConfiguredPairs()) {
     for (const mode of ["simulation", "live"]) {
       void tbState.loadStateFromDb(pair, mode);
     }
@@ -917,7 +920,7 @@ export async function startScheduler(): Promise<void> {
 
   // Initial tick after 2s; subsequent ticks are scheduled by scheduleNext().
   schedulerTimeout = setTimeout(() => {
-    runTick()
+    observeEngineTick("idca", runTick)
       .catch(e => console.error(`${TAG}[ERROR]`, e.message))
       .finally(() => { void scheduleNext(); });
   }, 2000);
@@ -931,6 +934,11 @@ export function stopScheduler(): void {
   isRunning = false;
   lastSchedulerState = "init";
   console.log(`${TAG} Scheduler stopped`);
+  // Detached sliced buys are not cut mid-order: they settle and persist their
+  // fills, and no new tick picks the pair up until the scheduler restarts.
+  for (const [pair, job] of backgroundPairJobs) {
+    console.warn(`${TAG}[BACKGROUND_EXEC][STILL_RUNNING] ${pair} desde ${job.startedAt.toISOString()} — se deja terminar`);
+  }
 }
 
 export function getMacroContext(pair: string): IdcaMacroContext | undefined {
@@ -945,27 +953,38 @@ export async function emergencyCloseAll(): Promise<number> {
   console.log(`${TAG}[EMERGENCY_CLOSE] Closing all positions for mode=${mode}`);
 
   // Get current prices
+  const pairs = await repo.getConfiguredPairs();
   const prices: Record<string, number> = {};
-  for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+  for (const pair of pairs) {
     prices[pair] = await getCurrentPrice(pair);
   }
 
+  // A pair with a sliced buy in flight is left alone: its cycle quantity is
+  // not final until the buy settles. The operator repeats the close afterwards.
+  const skippedPairs = Array.from(backgroundPairJobs.keys());
+  for (const pair of skippedPairs) {
+    console.warn(`${TAG}[EMERGENCY_CLOSE][SKIP] ${pair} — compra troceada en curso, repetir el cierre al terminar`);
+  }
+  const skipped = new Set(skippedPairs);
+
   // ─── Lote 4: Cancel all pending exit instructions before bulk close ───
   try {
     const activeCyclesBefore = await repo.getAllActiveCycles(mode);
     for (const c of activeCyclesBefore) {
+      if (skipped.has(c.pair)) continue;
       await exitRepo.cancelActiveExitInstructionForCycle(c.id, "emergency_close_all");
     }
   } catch (cancelErr: any) {
     console.error(`${TAG}[EMERGENCY_CLOSE] Failed to cancel exit instructions: ${cancelErr.message}`);
   }
 
-  const closed = await repo.closeCyclesBulk(mode, "emergency_close_all", prices);
+  const closed = await repo.closeCyclesBulk(mode, "emergency_close_all", prices, skipped);
 
   // If live mode, attempt market sells
   if (mode === "live") {
     const activeCycles = await repo.getAllActiveCycles("live");
     for (const cycle of activeCycles) {
+      if (skipped.has(cycle.pair)) continue;
       if (parseFloat(String(cycle.totalQuantity)) > 0) {
         try {
           await executeRealSell(cycle, "emergency_sell", parseFloat(String(cycle.totalQuantity)), true);
@@ -981,13 +1000,13 @@ export async function emergencyCloseAll(): Promise<number> {
     severity: "critical",
     mode,
     message: `Emergency close: ${closed} cycles closed`,
-    payloadJson: { closedCount: closed },
+    payloadJson: { closedCount: closed, skippedPairs },
   }, { eventType: "emergency_close_all", mode, closedCount: closed, triggerSource: "manual" });
 
   await telegram.alertEmergencyClose(mode, closed);
   
   // Limpiar todos los estados de trailing buy para este modo
-  for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+  for (const pair of pairs) {
     if (TrailingBuyManager.isArmed(pair)) {
       TrailingBuyManager.disarm(pair);
     }
@@ -1029,13 +1048,25 @@ async function runTick(): Promise<void> {
     const drawdownOk = await checkModuleDrawdown(config, mode);
     if (!drawdownOk) return;
 
-    // Update OHLCV cache
-    await updateOhlcvCache();
+    // Pairs come from institutional_dca_asset_configs, not a fixed list
+    const pairs = await repo.getConfiguredPairs();
+
+    // Update OHLCV cache — BTC/USD too when an asset gates on it without trading it
+    const assetConfigs = await repo.getAssetConfigs();
+    const needsBtcReference = !pairs.includes("BTC/USD")
+      && assetConfigs.some(a => resolveAssetBounds(config, a).btcGateEnabled);
+    await updateOhlcvCache(needsBtcReference ? [...pairs, "BTC/USD"] : pairs);
 
     // ─── Lote 4: Process triggered exit instructions ───────────────
+    // Pairs with a sliced buy in flight get no price, so their instructions
+    // stay pending until the buy settles and the cycle quantity is final.
     try {
       const currentPrices: Record<string, number> = {};
-      for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+      for (const pair of pairs) {
+        if (backgroundPairJobs.has(pair)) {
+          console.log(`${TAG}[EXIT_INSTR][DEFERRED] ${pair} — compra troceada en curso`);
+          continue;
+        }
         currentPrices[pair] = await getCurrentPrice(pair);
       }
       await processTriggeredExitInstructions(mode, currentPrices);
@@ -1043,11 +1074,19 @@ async function runTick(): Promise<void> {
       console.error(`${TAG}[EXIT_INSTR_ERR] ${exitErr.message}`);
     }
 
-    // Evaluate each allowed pair
+    // Evaluate each configured pair
     const pairResults: string[] = [];
-    for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+    for (const pair of pairs) {
+      if (backgroundPairJobs.has(pair)) {
+        pairResults.push(`${pair}:executing`);
+        continue;
+      }
       try {
-        await evaluatePair(pair, config, mode);
+        const detached = await evaluatePairDetachable(pair, config, mode);
+        if (detached) {
+          pairResults.push(`${pair}:executing`);
+          continue;
+        }
         const cycle = await repo.getActiveCycle(pair, mode);
         if (cycle) {
           const pnl = parseFloat(String(cycle.unrealizedPnlPct || "0"));
@@ -1071,7 +1110,7 @@ async function runTick(): Promise<void> {
       );
       if (shouldSendDigest(lastDigestSentAt.get(mode) ?? 0, tbPolicy)) {
         lastDigestSentAt.set(mode, Date.now());
-        const digestEntries = (INSTITUTIONAL_DCA_ALLOWED_PAIRS
+        const digestEntries = (pairs
           .map(p => {
             const tbManagerState = TrailingBuyManager.getState(p);
             if (!tbManagerState) return null;
@@ -1113,6 +1152,48 @@ async function runTick(): Promise<void> {
   }
 }
 
+/**
+ * Runs evaluatePair; if it starts a sliced buy (detachPairEvaluation), the
+ * rest of the evaluation continues as a tracked background job and this
+ * resolves true without waiting for it.
+ */
+async function evaluatePairDetachable(pair: string, config: InstitutionalDcaConfigRow, mode: IdcaMode): Promise<boolean> {
+  let signalDetach!: () => void;
+  const detachedSignal = new Promise<true>((resolve) => { signalDetach = () => resolve(true); });
+  pairDetachSignals.set(pair, signalDetach);
+
+  const evaluation = evaluatePair(pair, config, mode).finally(() => pairDetachSignals.delete(pair));
+  const detached = await Promise.race([evaluation.then(() => false), detachedSignal]);
+  if (!detached) return false;
+
+  const job = evaluation
+    .catch((e: any) => {
+      console.error(`${TAG}[BACKGROUND_EXEC][ERROR] ${pair}:`, e.message);
+      lastError = `${pair}: ${e.message}`;
+    })
+    .finally(() => {
+      backgroundPairJobs.delete(pair);
+      console.log(`${TAG}[BACKGROUND_EXEC][DONE] ${pair}`);
+    });
+  backgroundPairJobs.set(pair, { startedAt: new Date(), promise: job });
+  console.log(`${TAG}[BACKGROUND_EXEC][START] ${pair} — evaluación separada del tick`);
+  return true;
+}
+
+/** Test hook: registers an in-flight sliced buy for a pair without running evaluatePair. */
+export function _trackBackgroundPairJobForTesting(pair: string, promise: Promise<void>): void {
+  const job = promise.finally(() => backgroundPairJobs.delete(pair));
+  backgroundPairJobs.set(pair, { startedAt: new Date(), promise: job });
+}
+
+/** Called before a long-running order: lets runTick move on without awaiting it. */
+function detachPairEvaluation(pair: string): void {
+  const signal = pairDetachSignals.get(pair);
+  if (!signal) return;
+  pairDetachSignals.delete(pair);
+  signal();
+}
+
 // ─── Pair Disabled Log (throttled: 1 per 4 hours per pair) ──────────
 const pairDisabledLastLogAt = new Map<string, number>();
 const PAIR_DISABLED_LOG_INTERVAL_MS = 4 * 60 * 60 * 1000; // 4 hours
@@ -2070,7 +2151,7 @@ async function checkEntry(
 
   // Calculate capital for this cycle
   const allocatedCapital = parseFloat(String(config.allocatedCapitalUsd));
-  const maxAssetPct = parseFloat(String(config.maxAssetExposurePct));
+  const maxAssetPct = resolveAssetBounds(config, assetConfig).maxAssetExposurePct;
   const capitalForCycle = allocatedCapital * (maxAssetPct / 100);
 
   // Create cycle
@@ -2096,6 +2177,7 @@ async function checkEntry(
       volatilityPct: getVolatility(pair),
       reboundStrength: getReboundStrength(pair),
       config: dtpConfig,
+      mainTpBounds: resolveAssetBounds(config, assetConfig),
     });
     tpPct = breakdown.finalTpPct;
     tpBreakdown = breakdown;
@@ -2108,11 +2190,12 @@ async function checkEntry(
   // Compute trailing — trailingMarginPct is the single source of truth (UI slider)
   let trailingPct = parseFloat(String(assetConfig.trailingMarginPct));
   if (config.volatilityTrailingEnabled) {
+    const bounds = resolveAssetBounds(config, assetConfig);
     trailingPct = smart.computeDynamicTrailing({
       atrPct: getVolatility(pair),
       baseTrailingPct: trailingPct,
-      minTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.minTrailingPctBtc : config.minTrailingPctEth)),
-      maxTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.maxTrailingPctBtc : config.maxTrailingPctEth)),
+      minTrailingPct: bounds.minTrailingPct,
+      maxTrailingPct: bounds.maxTrailingPct,
     });
   }
 
@@ -2815,11 +2898,12 @@ async function handleActiveState(
     // Compute trailing pct — use slider value, optionally adapt with ATR
     let effectiveTrailingPct = trailingMarginPct;
     if (config.volatilityTrailingEnabled) {
+      const bounds = resolveAssetBounds(config, assetConfig);
       effectiveTrailingPct = smart.computeDynamicTrailing({
         atrPct: getVolatility(pair),
         baseTrailingPct: trailingMarginPct,
-        minTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.minTrailingPctBtc : config.minTrailingPctEth)),
-        maxTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.maxTrailingPctBtc : config.maxTrailingPctEth)),
+        minTrailingPct: bounds.minTrailingPct,
+        maxTrailingPct: bounds.maxTrailingPct,
       });
     }
 
@@ -2924,7 +3008,7 @@ async function checkSafetyBuy(
   const allocatedCapital = parseFloat(String(config.allocatedCapitalUsd));
   const totalCapitalUsed = parseFloat(String(cycle.capitalUsedUsd));
   const maxModulePct = parseFloat(String(config.maxModuleExposurePct));
-  const maxAssetPct = parseFloat(String(config.maxAssetExposurePct));
+  const maxAssetPct = resolveAssetBounds(config, assetConfig).maxAssetExposurePct;
   const capitalReserved = parseFloat(String(cycle.capitalReservedUsd));
 
   if (totalCapitalUsed / allocatedCapital * 100 >= maxModulePct) {
@@ -3103,6 +3187,7 @@ async function checkSafetyBuy(
       volatilityPct: getVolatility(pair),
       reboundStrength: getReboundStrength(pair),
       config: dtpConfig,
+      mainTpBounds: resolveAssetBounds(config, assetConfig),
     });
     tpPct = breakdown.finalTpPct;
     tpBreakdownSafety = breakdown;
@@ -3259,11 +3344,12 @@ async function armTakeProfit(
   // Get trailing pct — prefer cycle-stored value, fallback to trailingMarginPct (UI slider)
   let trailingPct = parseFloat(String(cycle.trailingPct || assetConfig.trailingMarginPct));
   if (config.volatilityTrailingEnabled) {
+    const bounds = resolveAssetBounds(config, assetConfig);
     trailingPct = smart.computeDynamicTrailing({
       atrPct: getVolatility(pair),
       baseTrailingPct: trailingPct,
-      minTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.minTrailingPctBtc : config.minTrailingPctEth)),
-      maxTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.maxTrailingPctBtc : config.maxTrailingPctEth)),
+      minTrailingPct: bounds.minTrailingPct,
+      maxTrailingPct: bounds.maxTrailingPct,
     });
   }
 
@@ -3737,8 +3823,8 @@ async function performEntryCheck(
   const blocks: IdcaBlockReason[] = [];
   const now = new Date();
 
-  // Check pair allowed
-  if (!INSTITUTIONAL_DCA_ALLOWED_PAIRS.includes(pair as any)) {
+  // Check pair allowed — any pair with an asset config row is tradeable
+  if (assetConfig.pair !== pair) {
     blocks.push({ code: "pair_not_allowed", message: `${pair} not allowed`, timestamp: now });
     return { allowed: false, blockReasons: blocks };
   }
@@ -4255,8 +4341,8 @@ async function performEntryCheck(
     }
   }
 
-  // BTC gate for ETH
-  if (pair === "ETH/USD" && config.btcMarketGateForEthEnabled) {
+  // BTC gate for altcoins (per asset; legacy global toggle covers ETH)
+  if (resolveAssetBounds(config, assetConfig).btcGateEnabled) {
     const btcPrice = await getCurrentPrice("BTC/USD");
     const btcCandles = ohlcCache.get("BTC/USD") || [];
     const btcBasePrice = smart.computeBasePrice({
@@ -4293,9 +4379,9 @@ async function performEntryCheck(
       // Use basePriceResult as the reference high for score computation
       const scoreLocalHigh = basePriceResult.price > 0 ? basePriceResult.price : Math.max(...closes.slice(-60));
 
-      // Get BTC score for ETH
+      // Get BTC score for altcoins
       let btcScore: number | undefined;
-      if (pair === "ETH/USD") {
+      if (!isBtcProfilePair(pair)) {
         const btcScoreCandles = ohlcCache.get("BTC/USD") || [];
         if (btcScoreCandles.length >= 20) {
           const btcCloses = btcScoreCandles.map(c => c.close);
@@ -4379,6 +4465,8 @@ async function performEntryCheck(
     const recentForMomentum = allCandles.slice(-6);
     const shortMomentum = _deriveShortMomentum(recentForMomentum);
     const hasRecoveryCandle = _deriveHasRecoveryCandle(recentForMomentum);
+    // La última vela 1h puede estar aún abierta: el store sólo recibe cerradas
+    const ext = incrementalIndicatorStore.sync(`${pair}:idca_1h`, allCandles.slice(0, -1));
     const btcContextForPair = _deriveBtcContext(btcScoreForConfluence);
     const confluenceProfile = entryMode === "dynamic_intelligent_entry" ? "full" : "assisted";
 
@@ -4402,6 +4490,13 @@ async function performEntryCheck(
       priceInActivationZone: entryDipPct >= minDip,
       shortMomentum,
       hasRecoveryCandle,
+      indicatorConfirmation: {
+        stochRsiK: ext.stochRsi?.k ?? null,
+        stochRsiD: ext.stochRsi?.d ?? null,
+        supertrendDirection: ext.supertrend?.direction ?? null,
+        obvTrend: ext.obv?.trend ?? null,
+      },
+      oscillatorBlendEnabled: getIdcaOscillatorBlendEnabled(),
       capitalUsedUsd: 0,
       capitalReservedUsd: 0,
       buyCount: 0,
@@ -4553,22 +4648,6 @@ async function checkModuleDrawdown(config: InstitutionalDcaConfigRow, mode: Idca
   return true;
 }
 
-// ─── Fee Helpers ────────────────────────────────────────────────────
-
-/**
- * Resolve the simulation fee percentage.
- * Priority: executionFeesJson.takerFeePct > config.simulationFeePct > 0.09 (Revolut X default).
- * NOTE: Live mode fees are handled by the exchange — never applied here.
- */
-function resolveSimulationFeePct(config: InstitutionalDcaConfigRow): number {
-  const execFees = (config as any).executionFeesJson as any;
-  if (execFees && typeof execFees.takerFeePct === "number") {
-    return execFees.takerFeePct;
-  }
-  const legacy = parseFloat(String(config.simulationFeePct));
-  return Number.isFinite(legacy) && legacy >= 0 ? legacy : 0.09;
-}
-
 // ─── Market Data Helpers ───────────────────────────────────────────
 
 async function getCurrentPrice(pair: string): Promise<number> {
@@ -4753,8 +4832,8 @@ function computeBucketContext(
   return { bucket: bucketLabel, highMax, lowMin, p95High, avgClose, drawdownFromHighPct, rangePosition, candleCount: slice.length };
 }
 
-async function updateOhlcvCache(): Promise<void> {
-  for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+async function updateOhlcvCache(pairs: string[]): Promise<void> {
+  for (const pair of pairs) {
     try {
       const dataExchange = ExchangeFactory.getDataExchange();
       if (!dataExchange.isInitialized()) continue;
@@ -4910,6 +4989,11 @@ async function executeRealBuyWithGuard(
 ): Promise<BuyExecutionResult> {
   const intendedUsd = intendedQty * price;
 
+  // Slippage estimado por profundidad L2 (null si no hay libro disponible)
+  const depth = mode === "live"
+    ? await OrderBookDepthService.estimateSlippage(pair, "buy", intendedUsd, "IDCA_GUARD").catch(() => null)
+    : null;
+
   // ─── FASE 1: Validar intención con ExecutionGuard ───
   const validation = await liveGuard.validateLiveBuyIntention({
     pair,
@@ -4919,9 +5003,11 @@ async function executeRealBuyWithGuard(
     intendedQty,
     currentPrice: price,
     feePct: 0.1, // Default: asset config doesn't have makerFeePct field
-    slippagePct: 0.1, // Default: asset config doesn't have slippage field
+    slippagePct: Math.max(0.1, depth?.slippagePct ?? 0), // Default 0.1: asset config doesn't have slippage field
     mode,
     buyLevel,
+    depthSlippagePct: depth?.slippagePct ?? null,
+    depthExhausted: depth?.exhausted ?? false,
   });
 
   if (!validation.allowed) {
@@ -4946,6 +5032,32 @@ async function executeRealBuyWithGuard(
     console.log(`${TAG}[LIVE][BUY][ADJUSTED] ${pair} ${buyType}: ${intendedQty.toFixed(8)} → ${finalQty.toFixed(8)} (${finalUsd.toFixed(2)} USD)`);
   }
 
+  // Límites de exposición / VaR cross-estrategia (portfolio_risk_limits)
+  const risk = await portfolioIntegrationAdapter.checkRisk({
+    mode: "IDCA",
+    exchange: ExchangeFactory.getTradingExchangeType(),
+    asset: pair.split("/")[0],
+    amountUsd: finalUsd,
+  });
+  if (!risk.allowed) {
+    console.error(`${TAG}[LIVE][BUY][BLOCKED] ${risk.reason}`);
+    return {
+      success: false,
+      executedQty: 0,
+      executedUsd: 0,
+      avgPrice: 0,
+      feeUsd: 0,
+      wasAdjusted: false,
+      originalQty: intendedQty,
+      rejectionReason: risk.reason ?? "RISK_LIMIT",
+    };
+  }
+
+  // Compras grandes: ejecución troceada (TWAP / participation / maker-first)
+  if (getIdcaExecutionStrategy() !== "simple" && finalUsd >= getIdcaSlicedMinUsd()) {
+    return executeSlicedLiveBuy(pair, finalQty, finalUsd, cycleId, buyType, intendedQty, validation.reduced ?? false, assetConfig);
+  }
+
   // ─── FASE 2: Enviar orden al exchange ───
   let exchangeOrderId: string | undefined;
   try {
@@ -5039,6 +5151,95 @@ async function executeRealBuyWithGuard(
   };
 }
 
+/**
+ * Compra LIVE troceada vía IdcaExecutionManager → SlicedExecutionEngine.
+ * orderId = parent_id de execution_parent_orders (las hijas cuelgan de él).
+ * Un fill parcial cuenta como éxito con la cantidad realmente ejecutada.
+ */
+async function executeSlicedLiveBuy(
+  pair: string,
+  finalQty: number,
+  finalUsd: number,
+  cycleId: number,
+  buyType: "initial" | "safety" | "plus" | "recovery",
+  intendedQty: number,
+  wasAdjusted: boolean,
+  assetConfig?: InstitutionalDcaAssetConfigRow
+): Promise<BuyExecutionResult> {
+  const config = idcaExecutionManager.createExecutionConfig(assetConfig);
+  console.log(`${TAG}[LIVE][BUY][SLICED] ${pair} ${buyType} qty=${finalQty.toFixed(8)} usd=${finalUsd.toFixed(2)} strategy=${config.strategy}`);
+  // The parent order may take EXECUTION_DURATION_SEC: don't hold the tick
+  detachPairEvaluation(pair);
+
+  const result = await idcaExecutionManager.executeOrder({
+    cycleId,
+    pair,
+    side: "buy",
+    totalQuantity: finalQty,
+    totalValueUsd: finalUsd,
+    urgency: buyType === "initial" ? "medium" : "low",
+    reason: `idca_${buyType}`,
+    config,
+  });
+
+  if (!result.success || result.executedQuantity <= 0) {
+    console.error(`${TAG}[LIVE][BUY][SLICED][NO_FILL] ${pair} parent=${result.parentOrderId ?? "n/a"} ${result.warnings.join("; ")}`);
+    return {
+      success: false,
+      orderId: result.parentOrderId,
+      executedQty: 0,
+      executedUsd: 0,
+      avgPrice: 0,
+      feeUsd: 0,
+      wasAdjusted,
+      originalQty: intendedQty,
+      rejectionReason: result.parent?.status === "unconfirmed"
+        ? `execution_unknown: sliced ${result.parent.error ?? "unconfirmed"}`
+        : `no_fill: sliced ${result.parent?.status ?? "failed"}`,
+    };
+  }
+
+  if (result.parent?.status === "unconfirmed") {
+    console.error(`${TAG}[LIVE][BUY][SLICED][UNCONFIRMED] ${pair} parent=${result.parentOrderId} ${result.parent.error} — se registra sólo lo confirmado, revisar en el exchange`);
+  }
+
+  const executedQty = result.executedQuantity;
+  let netBaseQty = executedQty;
+  let feeAsset: string | undefined;
+  let feeAmount: number | undefined;
+  let feeSource: BuyExecutionResult["feeSource"] = result.totalFeesUsd > 0 ? "exchange_api" : null;
+
+  // Revolut X cobra el fee en base y no lo reporta: inferir 0.09% sobre la parte taker (maker = 0%)
+  if (ExchangeFactory.getTradingExchangeType() === "revolutx" && result.totalFeesUsd === 0) {
+    const takerQty = result.parent?.takerFilledQty ?? executedQty;
+    feeAmount = takerQty * 0.0009;
+    netBaseQty = executedQty - feeAmount;
+    feeAsset = pair.split("/")[0];
+    feeSource = "inferred_from_default_pct";
+  }
+
+  console.log(
+    `${TAG}[LIVE][BUY][SLICED][CONFIRMED] ${pair} parent=${result.parentOrderId} status=${result.parent?.status} ` +
+    `qty=${executedQty.toFixed(8)}/${finalQty.toFixed(8)} avg=${result.avgPrice.toFixed(2)} children=${result.parent?.children.length ?? 0}`
+  );
+
+  return {
+    success: true,
+    orderId: result.parentOrderId,
+    executedQty,
+    executedUsd: result.executedValueUsd,
+    avgPrice: result.avgPrice,
+    feeUsd: result.totalFeesUsd,
+    wasAdjusted: wasAdjusted || result.parent?.status === "partial",
+    originalQty: wasAdjusted || result.parent?.status === "partial" ? intendedQty : undefined,
+    grossBaseQty: executedQty,
+    netBaseQty,
+    feeAsset,
+    feeAmount,
+    feeSource,
+  };
+}
+
 /** @deprecated Usar executeRealBuyWithGuard que valida saldo y confirma fill */
 async function executeRealBuy(pair: string, quantity: number, price: number, assetConfig?: InstitutionalDcaAssetConfigRow): Promise<void> {
   // Mantener compatibilidad hacia atrás — llamar al nuevo método y lanzar error si falla
@@ -5280,23 +5481,6 @@ async function logTimeStopIgnoredOnce(
   lastTimeStopIgnoredLog.set(cycleId, now);
 }
 
-// ─── Plus Cycle Config Helper ─────────────────────────────────────
-
-const DEFAULT_PLUS_CONFIG: PlusConfig = {
-  enabled: false, maxPlusCyclesPerMain: 2, maxPlusEntries: 3,
-  capitalAllocationPct: 15, activationExtraDipPct: 4.0,
-  requireMainExhausted: true, requireReboundConfirmation: true,
-  cooldownMinutesBetweenBuys: 60, autoCloseIfMainClosed: true,
-  maxExposurePctPerAsset: 20, entryDipSteps: [2.0, 3.5, 5.0],
-  entrySizingMode: "fixed", baseTpPctBtc: 4.0, baseTpPctEth: 4.5,
-  trailingPctBtc: 1.0, trailingPctEth: 1.2,
-};
-
-function getPlusConfig(config: InstitutionalDcaConfigRow): PlusConfig {
-  const raw = config.plusConfigJson as any;
-  if (!raw || typeof raw !== "object") return DEFAULT_PLUS_CONFIG;
-  return { ...DEFAULT_PLUS_CONFIG, ...raw };
-}
 
 // ─── Plus Cycle Activation ────────────────────────────────────────
 
@@ -5379,6 +5563,7 @@ async function checkPlusActivation(
   const quantity = baseBuyUsd / currentPrice;
 
   // Compute TP for plus cycle
+  const plusExit = resolvePlusExitParams(plusCfg, config, assetConfig);
   let tpPct: number;
   let tpBreakdown: any = null;
   if (config.adaptiveTpEnabled) {
@@ -5395,13 +5580,11 @@ async function checkPlusActivation(
     tpPct = breakdown.finalTpPct;
     tpBreakdown = breakdown;
   } else {
-    const isBtc = pair === "BTC/USD";
-    tpPct = isBtc ? plusCfg.baseTpPctBtc : plusCfg.baseTpPctEth;
+    tpPct = plusExit.tpPct;
   }
 
   const tpPrice = currentPrice * (1 + tpPct / 100);
-  const isBtc = pair === "BTC/USD";
-  const trailingPct = isBtc ? plusCfg.trailingPctBtc : plusCfg.trailingPctEth;
+  const trailingPct = plusExit.trailingPct;
 
   // ─── HOTFIX: Flujo seguro LIVE vs SIMULATION ─────────────────────
 
@@ -5614,8 +5797,7 @@ async function managePlusCycle(
     const tpPct = parseFloat(String(plusCycle.tpTargetPct || "3"));
     if (unrealizedPnlPct >= tpPct) {
       // Transition to tp_armed → trailing (same as main cycle flow)
-      const isBtc = pair === "BTC/USD";
-      const trailingPct = isBtc ? plusCfg.trailingPctBtc : plusCfg.trailingPctEth;
+      const trailingPct = resolvePlusExitParams(plusCfg, config, assetConfig).trailingPct;
       await repo.updateCycle(plusCycle.id, {
         status: "tp_armed",
         tpArmedAt: new Date(),
@@ -5637,8 +5819,7 @@ async function managePlusCycle(
 
   } else if (plusCycle.status === "tp_armed" || plusCycle.status === "trailing_active") {
     // Use same trailing logic as main but with plus trailing pct
-    const isBtc = pair === "BTC/USD";
-    const trailingPct = isBtc ? plusCfg.trailingPctBtc : plusCfg.trailingPctEth;
+    const trailingPct = resolvePlusExitParams(plusCfg, config, assetConfig).trailingPct;
     const highestAfterTp = parseFloat(String(plusCycle.highestPriceAfterTp || "0"));
 
     if (currentPrice > highestAfterTp) {
@@ -5948,16 +6129,6 @@ async function closePlusCycle(
 
 // ─── Helpers ───────────────────────────────────────────────────────
 
-function parseSafetyOrders(json: unknown): SafetyOrderLevel[] {
-  if (Array.isArray(json)) {
-    return json.map((o: any) => ({
-      dipPct: parseFloat(String(o.dipPct || o.dip_pct || 0)),
-      sizePctOfAssetBudget: parseFloat(String(o.sizePctOfAssetBudget || o.size_pct || 25)),
-    }));
-  }
-  return [];
-}
-
 /**
  * Calculate effective safety level considering current price vs avgEntry.
  * When importing a position, if currentPrice is below avgEntry, some safety levels
@@ -6035,8 +6206,9 @@ export async function handleModeTransition(newMode: IdcaMode): Promise<void> {
   console.log(`${TAG}[MODE_TRANSITION] ${oldMode} -> ${newMode}`);
 
   // Get current prices for closing cycles
+  const pairs = await repo.getConfiguredPairs();
   const prices: Record<string, number> = {};
-  for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+  for (const pair of pairs) {
     prices[pair] = await getCurrentPrice(pair);
   }
 
@@ -6057,7 +6229,7 @@ export async function handleModeTransition(newMode: IdcaMode): Promise<void> {
   }
 
   // Limpiar todos los estados de trailing buy al cambiar de modo
-  for (const pair of INSTITUTIONAL_DCA_ALLOWED_PAIRS) {
+  for (const pair of pairs) {
     if (TrailingBuyManager.isArmed(pair)) {
       TrailingBuyManager.disarm(pair);
     }
@@ -6136,7 +6308,7 @@ export async function rehydrateImportedCycle(cycleId: number): Promise<import("@
 
   // ── 2. Capital reserved (budget for safety buys) ──────────
   const allocatedCapital = parseFloat(String(config.allocatedCapitalUsd || "0"));
-  const maxAssetPct = parseFloat(String(config.maxAssetExposurePct || "25"));
+  const maxAssetPct = resolveAssetBounds(config, assetConfig).maxAssetExposurePct;
   const assetBudget = allocatedCapital * (maxAssetPct / 100);
   // Reserve at least the current capital + room for safety buys
   const capitalReserved = Math.max(capitalUsed, assetBudget);
@@ -6156,6 +6328,7 @@ export async function rehydrateImportedCycle(cycleId: number): Promise<import("@
       volatilityPct: getVolatility(pair),
       reboundStrength: getReboundStrength(pair),
       config: dtpConfig,
+      mainTpBounds: resolveAssetBounds(config, assetConfig),
     });
     tpPct = breakdown.finalTpPct;
     tpBreakdown = breakdown;
@@ -6168,11 +6341,12 @@ export async function rehydrateImportedCycle(cycleId: number): Promise<import("@
   // ── 4. Dynamic trailing — trailingMarginPct is the single source of truth (UI slider)
   let trailingPct = parseFloat(String(assetConfig.trailingMarginPct));
   if (config.volatilityTrailingEnabled) {
+    const bounds = resolveAssetBounds(config, assetConfig);
     trailingPct = smart.computeDynamicTrailing({
       atrPct: getVolatility(pair),
       baseTrailingPct: trailingPct,
-      minTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.minTrailingPctBtc : config.minTrailingPctEth)),
-      maxTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.maxTrailingPctBtc : config.maxTrailingPctEth)),
+      minTrailingPct: bounds.minTrailingPct,
+      maxTrailingPct: bounds.maxTrailingPct,
     });
   }
 
@@ -6379,7 +6553,7 @@ export async function editImportedCycle(
 
   // Capital reserved
   const allocatedCapital = parseFloat(String(config.allocatedCapitalUsd || "0"));
-  const maxAssetPct = parseFloat(String(config.maxAssetExposurePct || "25"));
+  const maxAssetPct = resolveAssetBounds(config, assetConfig).maxAssetExposurePct;
   const assetBudget = allocatedCapital * (maxAssetPct / 100);
   const capitalReserved = Math.max(newCapitalUsed, assetBudget);
 
@@ -6398,6 +6572,7 @@ export async function editImportedCycle(
       volatilityPct: getVolatility(pair),
       reboundStrength: getReboundStrength(pair),
       config: dtpConfig,
+      mainTpBounds: resolveAssetBounds(config, assetConfig),
     });
     tpPct = breakdown.finalTpPct;
     tpBreakdown = breakdown;
@@ -6409,11 +6584,12 @@ export async function editImportedCycle(
   // Dynamic trailing — trailingMarginPct is the single source of truth (UI slider)
   let trailingPct = parseFloat(String(assetConfig.trailingMarginPct));
   if (config.volatilityTrailingEnabled) {
+    const bounds = resolveAssetBounds(config, assetConfig);
     trailingPct = smart.computeDynamicTrailing({
       atrPct: getVolatility(pair),
       baseTrailingPct: trailingPct,
-      minTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.minTrailingPctBtc : config.minTrailingPctEth)),
-      maxTrailingPct: parseFloat(String(pair === "BTC/USD" ? config.maxTrailingPctBtc : config.maxTrailingPctEth)),
+      minTrailingPct: bounds.minTrailingPct,
+      maxTrailingPct: bounds.maxTrailingPct,
     });
   }
 
@@ -6545,34 +6721,6 @@ export async function editImportedCycle(
 // RECOVERY CYCLE ENGINE — Deep Drawdown Multi-Cycle
 // ════════════════════════════════════════════════════════════════════
 
-const DEFAULT_RECOVERY_CONFIG: RecoveryConfig = {
-  enabled: false,
-  activationDrawdownPct: 25,
-  maxRecoveryCyclesPerMain: 1,
-  maxTotalCyclesPerPair: 3,
-  maxPairExposurePct: 40,
-  capitalAllocationPct: 10,
-  maxRecoveryCapitalUsd: 500,
-  cooldownMinutesAfterMainBuy: 120,
-  cooldownMinutesBetweenRecovery: 360,
-  minMarketScoreForRecovery: 40,
-  requireReboundConfirmation: true,
-  recoveryTpPctBtc: 2.5,
-  recoveryTpPctEth: 3.0,
-  maxRecoveryEntries: 2,
-  recoveryEntryDipSteps: [2.0, 4.0],
-  recoveryTrailingPctBtc: 0.8,
-  recoveryTrailingPctEth: 1.0,
-  autoCloseIfMainClosed: true,
-  autoCloseIfMainRecovers: false,
-  maxRecoveryDurationHours: 168,
-};
-
-function getRecoveryConfig(config: InstitutionalDcaConfigRow): RecoveryConfig {
-  const raw = config.recoveryConfigJson as any;
-  if (!raw || typeof raw !== "object") return DEFAULT_RECOVERY_CONFIG;
-  return { ...DEFAULT_RECOVERY_CONFIG, ...raw };
-}
 
 // ─── Recovery Activation Check ────────────────────────────────────
 
@@ -6729,7 +6877,6 @@ async function executeRecoveryEntry(
   mainDrawdown: number
 ): Promise<void> {
   const pair = mainCycle.pair;
-  const isBtc = pair === "BTC/USD";
 
   // Calculate first buy intention
   const entrySteps = rcfg.recoveryEntryDipSteps;
@@ -6806,7 +6953,7 @@ async function executeRecoveryEntry(
   }
 
   // TP
-  const tpPct = isBtc ? rcfg.recoveryTpPctBtc : rcfg.recoveryTpPctEth;
+  const tpPct = resolveRecoveryExitParams(rcfg, config, assetConfig).tpPct;
   const tpPrice = avgFillPrice * (1 + tpPct / 100);
 
   // Next safety buy
@@ -6968,22 +7115,22 @@ async function manageRecoveryCycle(
     maxDrawdownPct: Math.max(currentDD, prevMaxDD).toFixed(2),
   });
 
-  const isBtc = pair === "BTC/USD";
+  const recoveryExit = resolveRecoveryExitParams(rcfg, config, assetConfig);
 
   // Check by status
   if (recoveryCycle.status === "active") {
     // Check TP
-    const tpPct = parseFloat(String(recoveryCycle.tpTargetPct || (isBtc ? rcfg.recoveryTpPctBtc : rcfg.recoveryTpPctEth)));
+    const tpPct = parseFloat(String(recoveryCycle.tpTargetPct || recoveryExit.tpPct));
     if (unrealizedPnlPct >= tpPct) {
       await closeRecoveryCycle(recoveryCycle, currentPrice, config, mode, "tp_reached");
       return;
     }
 
     // Check safety buys
-    await checkRecoverySafetyBuy(recoveryCycle, currentPrice, config, mode, rcfg);
+    await checkRecoverySafetyBuy(recoveryCycle, currentPrice, config, assetConfig, mode, rcfg);
 
   } else if (recoveryCycle.status === "trailing_active") {
-    const trailingPct = isBtc ? rcfg.recoveryTrailingPctBtc : rcfg.recoveryTrailingPctEth;
+    const trailingPct = recoveryExit.trailingPct;
     const highestAfterTp = parseFloat(String(recoveryCycle.highestPriceAfterTp || "0"));
 
     if (currentPrice > highestAfterTp) {
@@ -7011,6 +7158,7 @@ async function checkRecoverySafetyBuy(
   recoveryCycle: InstitutionalDcaCycle,
   currentPrice: number,
   config: InstitutionalDcaConfigRow,
+  assetConfig: InstitutionalDcaAssetConfigRow,
   mode: IdcaMode,
   rcfg: RecoveryConfig
 ): Promise<void> {
@@ -7117,8 +7265,7 @@ async function checkRecoverySafetyBuy(
   const nextBuyPriceCalc = nextDipPct ? newAvgPrice * (1 - nextDipPct / 100) : null;
 
   // Recalculate TP
-  const isBtc = pair === "BTC/USD";
-  const tpPct = isBtc ? rcfg.recoveryTpPctBtc : rcfg.recoveryTpPctEth;
+  const tpPct = resolveRecoveryExitParams(rcfg, config, assetConfig).tpPct;
   const tpPrice = newAvgPrice * (1 + tpPct / 100);
 
   // Actualizar ciclo SOLO después de fill confirmado
@@ -5,15 +5,43 @@
  * - Simple: Market/Limit orders directas
  * - Child Orders: Órdenes hijas con gestión parcial
  * - TWAP: Time-Weighted Average Price
+ * - Participation: hijas limitadas a un % del volumen del mercado
+ * - Maker-first: hijas post-only con cancel/replace y fallback taker
  * - Adaptive: Ajuste dinámico según mercado
+ *
+ * Todas las estrategias troceadas delegan en SlicedExecutionEngine
+ * (orden padre + hijas persistidas en execution_parent_orders/child_orders).
  */
 import { InstitutionalDcaCycle, InstitutionalDcaAssetConfigRow } from "@shared/schema";
 import { idcaMarketContextService, MarketContext } from "./IdcaMarketContextService";
 import { ExchangeFactory } from "../exchanges/ExchangeFactory";
+import {
+  slicedExecutionEngine,
+  loadSlicedExecutionConfig,
+  type ExecutionAlgo,
+  type ParentOrderState,
+  type SlicedExecutionConfig,
+} from "../execution/SlicedExecutionEngine";
+
+export type ExecutionStrategy = "simple" | "child_orders" | "twap" | "participation" | "maker_first" | "adaptive";
+
+const EXECUTION_STRATEGIES: ExecutionStrategy[] = ["simple", "child_orders", "twap", "participation", "maker_first", "adaptive"];
+
+/** Estrategia LIVE de IDCA (IDCA_EXECUTION_STRATEGY, default simple = una orden de mercado). */
+export function getIdcaExecutionStrategy(): ExecutionStrategy {
+  const raw = String(process.env.IDCA_EXECUTION_STRATEGY ?? "simple").toLowerCase() as ExecutionStrategy;
+  return EXECUTION_STRATEGIES.includes(raw) ? raw : "simple";
+}
+
+/** Compras por debajo de este importe van siempre como una sola orden. */
+export function getIdcaSlicedMinUsd(): number {
+  const v = parseFloat(process.env.IDCA_SLICED_MIN_USD ?? "500");
+  return Number.isFinite(v) && v >= 0 ? v : 500;
+}
 
 export interface ExecutionConfig {
   // Estrategia de ejecución
-  strategy: "simple" | "child_orders" | "twap" | "adaptive";
+  strategy: ExecutionStrategy;
   
   // Parámetros generales
   orderType: "market" | "limit";
@@ -30,6 +58,13 @@ export interface ExecutionConfig {
   twapDurationMinutes: number;     // Duración total del TWAP
   twapSliceCount: number;          // Número de slices
   twapVariancePct: number;         // Varianza en tamaño de slices
+
+  // Participation / maker-first (ver SlicedExecutionEngine)
+  participationPct: number;        // % máximo del volumen esperado por intervalo
+  makerWaitMs: number;             // Espera por hija post-only antes de cancelar
+  makerMaxReplaces: number;        // Reposiciones post-only antes del fallback
+  takerFallback: boolean;          // Resto a mercado si el maker no llena
+  maxSliceUsd: number;             // Tamaño máximo por hija
   
   // Adaptive
   adaptiveEnabled: boolean;        // Activar ajuste adaptativo
@@ -58,6 +93,8 @@ export interface ExecutionResult {
   executionTimeMs: number;
   orders: OrderResult[];
   warnings: string[];
+  parentOrderId?: string;          // execution_parent_orders.parent_id (estrategias troceadas)
+  parent?: ParentOrderState;
 }
 
 export interface OrderResult {
@@ -92,9 +129,10 @@ class IdcaExecutionManager {
   /**
    * Crea configuración de ejecución desde asset config
    */
-  createExecutionConfig(assetConfig: InstitutionalDcaAssetConfigRow): ExecutionConfig {
+  createExecutionConfig(assetConfig?: InstitutionalDcaAssetConfigRow): ExecutionConfig {
+    const sliced = loadSlicedExecutionConfig("twap");
     return {
-      strategy: "simple", // Default por seguridad
+      strategy: getIdcaExecutionStrategy(), // Default "simple" por seguridad
       orderType: "market",
       slippageTolerancePct: 0.5,
       maxRetries: 3,
@@ -104,9 +142,15 @@ class IdcaExecutionManager {
       childOrderDelayMs: 500,
       minChildSizeUsd: 10,
       
-      twapDurationMinutes: 5,
+      twapDurationMinutes: sliced.durationMs / 60_000,
       twapSliceCount: 10,
       twapVariancePct: 20,
+
+      participationPct: sliced.participationPct,
+      makerWaitMs: sliced.makerWaitMs,
+      makerMaxReplaces: sliced.makerMaxReplaces,
+      takerFallback: sliced.takerFallback,
+      maxSliceUsd: sliced.maxSliceUsd,
       
       adaptiveEnabled: true,
       volatilityThreshold: 2.0,
@@ -132,7 +176,9 @@ class IdcaExecutionManager {
           result = await this.executeChildOrders(request, state);
           break;
         case "twap":
-          result = await this.executeTWAP(request, state);
+        case "participation":
+        case "maker_first":
+          result = await this.executeSliced(request, state, request.config.strategy);
           break;
         case "adaptive":
           result = await this.executeAdaptive(request, state);
@@ -205,102 +251,69 @@ class IdcaExecutionManager {
   }
 
   /**
-   * Estrategia child orders: divide en múltiples órdenes
+   * Estrategia child orders: N hijas de mercado separadas childOrderDelayMs
    */
   private async executeChildOrders(
     request: ExecutionRequest,
     state: ExecutionState
   ): Promise<ExecutionResult> {
-    const childSize = request.totalQuantity / request.config.childOrderCount;
-    const minValuePerChild = request.config.minChildSizeUsd;
-    
-    // Ajustar si el tamaño por child es muy pequeño
-    const actualChildCount = Math.min(
-      request.config.childOrderCount,
-      Math.floor(request.totalValueUsd / minValuePerChild)
-    );
-    
-    const adjustedChildSize = request.totalQuantity / actualChildCount;
-    
-    for (let i = 0; i < actualChildCount; i++) {
-      const remainingQuantity = request.totalQuantity - state.executedQuantity;
-      if (remainingQuantity <= 0) break;
-      
-      const currentChildSize = Math.min(adjustedChildSize, remainingQuantity);
-      
-      try {
-        const exchange = ExchangeFactory.getTradingExchange();
-        const order = await exchange.placeOrder({
-          pair: request.pair,
-          type: request.side as "buy" | "sell",
-          ordertype: "market",
-          volume: currentChildSize.toFixed(8),
-        });
-        
-        if (order) {
-          const orderResult = await this.parseOrderResult(order, request, 0);
-          state.orders.push(orderResult);
-          state.executedQuantity += orderResult.quantity;
-        }
-        
-        // Delay entre órdenes hijas
-        if (i < actualChildCount - 1) {
-          await this.delay(request.config.childOrderDelayMs);
-        }
-        
-      } catch (error) {
-        console.warn(`[IdcaExecutionManager] Child order ${i + 1} failed:`, error);
-        // Continuar con las siguientes órdenes hijas
-      }
-    }
-    
-    return this.buildExecutionResult(state, request);
+    const childCount = Math.max(1, request.config.childOrderCount);
+    return this.executeSliced(request, state, "twap", {
+      maxSliceUsd: request.totalValueUsd / childCount,
+      minSliceUsd: request.config.minChildSizeUsd,
+      durationMs: childCount * request.config.childOrderDelayMs,
+    });
   }
 
   /**
-   * Estrategia TWAP: ejecuta a lo largo del tiempo
+   * Estrategias troceadas (TWAP / participation / maker-first) vía SlicedExecutionEngine
    */
-  private async executeTWAP(
+  private async executeSliced(
     request: ExecutionRequest,
-    state: ExecutionState
+    state: ExecutionState,
+    algo: ExecutionAlgo,
+    overrides: Partial<SlicedExecutionConfig> = {}
   ): Promise<ExecutionResult> {
-    const sliceDuration = (request.config.twapDurationMinutes * 60 * 1000) / request.config.twapSliceCount;
-    const baseSliceSize = request.totalQuantity / request.config.twapSliceCount;
-    
-    for (let i = 0; i < request.config.twapSliceCount; i++) {
-      const remainingQuantity = request.totalQuantity - state.executedQuantity;
-      if (remainingQuantity <= 0) break;
-      
-      // Aplicar varianza al tamaño del slice
-      const variance = 1 + (Math.random() - 0.5) * 2 * (request.config.twapVariancePct / 100);
-      const sliceSize = Math.min(baseSliceSize * variance, remainingQuantity);
-      
-      try {
-        const exchange = ExchangeFactory.getTradingExchange();
-        const order = await exchange.placeOrder({
-          pair: request.pair,
-          type: request.side as "buy" | "sell",
-          ordertype: "market",
-          volume: sliceSize.toFixed(8),
-        });
-        
-        if (order) {
-          const orderResult = await this.parseOrderResult(order, request, 0);
-          state.orders.push(orderResult);
-          state.executedQuantity += orderResult.quantity;
-        }
-        
-      } catch (error) {
-        console.warn(`[IdcaExecutionManager] TWAP slice ${i + 1} failed:`, error);
-      }
-      
-      // Esperar hasta el siguiente slice
-      if (i < request.config.twapSliceCount - 1) {
-        await this.delay(sliceDuration);
-      }
+    const config = loadSlicedExecutionConfig(algo, {
+      maxSliceUsd: request.config.maxSliceUsd,
+      minSliceUsd: request.config.minChildSizeUsd,
+      durationMs: request.config.twapDurationMinutes * 60_000,
+      participationPct: request.config.participationPct,
+      makerWaitMs: request.config.makerWaitMs,
+      makerMaxReplaces: request.config.makerMaxReplaces,
+      takerFallback: request.config.takerFallback,
+      ...overrides,
+    });
+
+    const parent = await slicedExecutionEngine.execute({
+      source: "IDCA",
+      sourceRef: `cycle:${request.cycleId}`,
+      pair: request.pair,
+      side: request.side,
+      targetQty: request.totalQuantity,
+      referencePrice: request.totalQuantity > 0 ? request.totalValueUsd / request.totalQuantity : 0,
+      config,
+    });
+
+    for (const child of parent.children) {
+      if (child.filledQty <= 0 && child.status !== "rejected") continue;
+      state.orders.push({
+        orderId: child.childId,
+        exchangeOrderId: child.exchangeOrderId ?? undefined,
+        quantity: child.filledQty,
+        price: child.avgPrice ?? 0,
+        valueUsd: child.filledQty * (child.avgPrice ?? 0),
+        feesUsd: child.feeUsd,
+        status: child.status === "filled" ? "filled" : child.status === "rejected" ? "failed" : "partial",
+        executedAt: child.updatedAt,
+        retryCount: 0,
+      });
     }
-    
-    return this.buildExecutionResult(state, request);
+    state.executedQuantity = parent.filledQty;
+
+    const result = this.buildExecutionResult(state, request);
+    if (parent.error) result.warnings.push(`Execution error: ${parent.error}`);
+    return { ...result, parentOrderId: parent.parentId, parent };
   }
 
   /**
@@ -339,7 +352,7 @@ class IdcaExecutionManager {
       case "child_orders":
         return this.executeChildOrders(adaptiveRequest, state);
       case "twap":
-        return this.executeTWAP(adaptiveRequest, state);
+        return this.executeSliced(adaptiveRequest, state, "twap");
       default:
         throw new Error(`Invalid adaptive strategy: ${selectedStrategy}`);
     }
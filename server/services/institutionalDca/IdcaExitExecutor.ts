@@ -666,6 +666,63 @@ export async function sendInstructionCreatedTelegram(
   } catch { /* ignore */ }
 }
 
+export interface ExitInstructionInput {
+  type: exitRepo.ExitInstructionType;
+  closePct: number;
+  triggerPrice?: number;
+  triggerDirection?: "above" | "below";
+  triggerTime?: Date;
+  timezone?: string;
+  notes?: string;
+}
+
+/**
+ * Crea una instrucción ya validada (un ciclo abierto, sin otra activa), la
+ * anuncia por Telegram y, si es inmediata, la ejecuta en background al precio
+ * actual. Compartido por la ruta REST y el comando /idca_exit.
+ */
+export async function createAndDispatchExitInstruction(
+  cycle: InstitutionalDcaCycle,
+  input: ExitInstructionInput
+): Promise<IdcaExitInstruction> {
+  const timezone = input.timezone || "Europe/Madrid";
+  // Snapshot requested quantity
+  const totalQty = parseFloat(String(cycle.totalQuantity || "0"));
+  const requestedQuantity = totalQty * (input.closePct / 100);
+
+  const instruction = await exitRepo.createExitInstruction({
+    cycleId: cycle.id,
+    pair: cycle.pair,
+    mode: cycle.mode,
+    type: input.type,
+    closePct: input.closePct.toFixed(2),
+    triggerPrice: input.triggerPrice ? input.triggerPrice.toFixed(8) : undefined,
+    triggerDirection: input.triggerDirection ?? undefined,
+    triggerTime: input.triggerTime,
+    timezone,
+    requestedQuantity: requestedQuantity.toFixed(8),
+    notes: input.notes ?? undefined,
+  });
+
+  let triggerInfo = "inmediata";
+  if (input.type === "price_target") triggerInfo = `${input.triggerDirection === "above" ? "↑" : "↓"} $${(input.triggerPrice ?? 0).toFixed(2)}`;
+  if (input.type === "scheduled_time" && input.triggerTime) triggerInfo = input.triggerTime.toLocaleString("es-ES", { timeZone: timezone });
+
+  await sendInstructionCreatedTelegram(cycle, instruction.id, input.type, input.closePct, triggerInfo);
+
+  if (input.type === "immediate") {
+    const { MarketDataService } = await import("../MarketDataService");
+    const price = await MarketDataService.getPrice(cycle.pair);
+    if (price > 0) {
+      executeExitInstruction(instruction.id, price).catch((e: Error) => {
+        console.error(`${TAG} Immediate instruction #${instruction.id} failed: ${e.message}`);
+      });
+    }
+  }
+
+  return instruction;
+}
+
 export async function sendInstructionCancelledTelegram(
   cycle: InstitutionalDcaCycle,
   instructionId: number,
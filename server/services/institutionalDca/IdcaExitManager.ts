@@ -82,9 +82,14 @@ export interface ExitSignal {
   };
 }
 
-class IdcaExitManager {
+/** Source of MarketContext — live service by default, replay context in backtests. */
+export type ExitContextProvider = Pick<typeof idcaMarketContextService, "getMarketContext">;
+
+export class IdcaExitManager {
   private exitStates = new Map<number, ExitState>();
 
+  constructor(private readonly contextProvider: ExitContextProvider = idcaMarketContextService) {}
+
   /**
    * Crea configuración de salida desde asset config
    */
@@ -119,7 +124,7 @@ class IdcaExitManager {
     assetConfig: InstitutionalDcaAssetConfigRow
   ): Promise<ExitState> {
     const config = this.createExitConfig(assetConfig);
-    const context = await idcaMarketContextService.getMarketContext(cycle.pair);
+    const context = await this.contextProvider.getMarketContext(cycle.pair);
     
     const state: ExitState = {
       cycleId: cycle.id,
@@ -176,7 +181,7 @@ class IdcaExitManager {
     state.lastUpdated = new Date();
     
     const signals: ExitSignal[] = [];
-    const context = await idcaMarketContextService.getMarketContext(cycle.pair);
+    const context = await this.contextProvider.getMarketContext(cycle.pair);
     
     // 1. Evaluar Fail-Safe (prioridad máxima)
     if (config.failSafeEnabled) {
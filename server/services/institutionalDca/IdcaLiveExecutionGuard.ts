@@ -20,6 +20,9 @@ const DOWNSIZE_STEPS = [1.0, 0.8, 0.6, 0.5, 0.4, 0.3, 0.25, 0.2, 0.15, 0.1];
 /** Umbral mínimo de compra (ej: $10 USD mínimo para evitar micro-compras) */
 const MIN_BUY_USD = 10;
 
+/** Slippage máximo estimado por profundidad L2 antes de bloquear la compra */
+const MAX_DEPTH_SLIPPAGE_PCT = 1.0;
+
 export interface BuyIntention {
   pair: string;
   cycleId: number;
@@ -31,6 +34,9 @@ export interface BuyIntention {
   slippagePct: number;
   mode: string;
   buyLevel?: number;
+  // Estimación de profundidad L2 (null/undefined = no disponible → no bloquea)
+  depthSlippagePct?: number | null;
+  depthExhausted?: boolean;
 }
 
 export interface BalanceCheckResult {
@@ -204,6 +210,21 @@ async function checkBalanceWithDownsizing(
   };
 }
 
+/**
+ * Verifica que el libro tenga profundidad suficiente para la orden.
+ * Retorna el motivo de bloqueo, o null si procede (o no hay datos de profundidad).
+ */
+export function checkOrderBookDepth(intention: BuyIntention): string | null {
+  if (intention.depthExhausted) {
+    return `insufficient_orderbook_depth: book does not cover ${intention.intendedUsd.toFixed(2)} USD`;
+  }
+  const slip = intention.depthSlippagePct;
+  if (slip != null && slip > MAX_DEPTH_SLIPPAGE_PCT) {
+    return `insufficient_orderbook_depth: estimated slippage ${slip.toFixed(3)}% > max ${MAX_DEPTH_SLIPPAGE_PCT}%`;
+  }
+  return null;
+}
+
 /**
  * Valida intención de compra LIVE antes de enviar orden.
  * Retorna resultado con tamaño ajustado si procede.
@@ -218,6 +239,17 @@ export async function validateLiveBuyIntention(
     return { allowed: true };
   }
 
+  // Verificar profundidad del libro (fail-open sin datos)
+  const depthBlockReason = checkOrderBookDepth(intention);
+  if (depthBlockReason) {
+    console.warn(`${TAG}[BLOCKED] ${depthBlockReason}`);
+    return {
+      allowed: false,
+      blocked: true,
+      reason: depthBlockReason,
+    };
+  }
+
   // Verificar saldo con posible reducción
   const balanceCheck = await checkBalanceWithDownsizing(intention);
 
@@ -267,7 +299,7 @@ export async function confirmOrderFill(
   const startTime = Date.now();
 
   // Revolut X: estados finales confirmados (uppercase)
-  const FILLED_STATUSES = ["FILLED", "EXECUTED", "COMPLETED", "DONE", "FULLY_FILLED"];
+  const FILLED_STATUSES = ["FILLED", "EXECUTED", "COMPLETED", "DONE", "FULLY_FILLED", "CLOSED"];
   const PARTIAL_STATUSES = ["PARTIALLY_FILLED", "PARTIAL", "PART_FILLED"];
   const REJECTED_STATUSES = ["REJECTED", "CANCELED", "CANCELLED", "EXPIRED", "FAILED"];
 
@@ -278,10 +310,10 @@ export async function confirmOrderFill(
         return { confirmed: false, status: "unknown", filledQty: 0, filledUsd: 0, avgFillPrice: 0, feeUsd: 0 };
       }
 
-      // Usar getOrder (existe en RevolutXService) — getOrderStatus NO existe
-      // El status devuelto por getOrder está en UPPERCASE (normalizedStatus)
+      // Usar getOrder (RevolutXService, status en UPPERCASE); si no existe,
+      // getOrderStatus normalizado de IExchangeService (Kraken: "closed" → CLOSED)
       const orderData: any = await (exchange as any).getOrder?.(exchangeOrderId)
-        ?? await (exchange as any).getOrderStatus?.(pair, exchangeOrderId);
+        ?? await exchange.getOrderStatus?.(exchangeOrderId);
 
       if (!orderData) {
         await sleep(pollIntervalMs);
@@ -289,7 +321,7 @@ export async function confirmOrderFill(
       }
 
       const status = (orderData.status || '').toUpperCase();
-      const filledQty = parseFloat(String(orderData.filledSize ?? orderData.filledQty ?? orderData.volume ?? 0));
+      const filledQty = parseFloat(String(orderData.filledSize ?? orderData.filledVolume ?? orderData.filledQty ?? orderData.volume ?? 0));
       let filledUsd = parseFloat(String(orderData.executedValue ?? orderData.cost ?? orderData.value ?? 0));
       const avgFillPrice = parseFloat(String(orderData.averagePrice ?? orderData.avgPrice ?? orderData.price ?? 0));
       const feeUsd = parseFloat(String(orderData.fee ?? 0));
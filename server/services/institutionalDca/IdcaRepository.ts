@@ -116,6 +116,15 @@ export async function getAssetConfigs(): Promise<InstitutionalDcaAssetConfigRow[
   return db.select().from(institutionalDcaAssetConfigs);
 }
 
+/** Pairs IDCA trades: every asset config row, enabled or exit-only. */
+export async function getConfiguredPairs(): Promise<string[]> {
+  const rows = await db
+    .select({ pair: institutionalDcaAssetConfigs.pair })
+    .from(institutionalDcaAssetConfigs)
+    .orderBy(asc(institutionalDcaAssetConfigs.pair));
+  return rows.map(r => r.pair);
+}
+
 export async function getAssetConfig(pair: string): Promise<InstitutionalDcaAssetConfigRow | undefined> {
   const rows = await db
     .select()
@@ -630,11 +639,13 @@ export async function deleteCycleForce(cycleId: number): Promise<{
 export async function closeCyclesBulk(
   mode: string,
   reason: string,
-  currentPrices: Record<string, number>
+  currentPrices: Record<string, number>,
+  skipPairs: ReadonlySet<string> = new Set()
 ): Promise<number> {
   const activeCycles = await getAllActiveCycles(mode);
   let closed = 0;
   for (const cycle of activeCycles) {
+    if (skipPairs.has(cycle.pair)) continue;
     const price = currentPrices[cycle.pair] || 0;
     await updateCycle(cycle.id, {
       status: "closed",
@@ -979,7 +990,7 @@ export async function hasActiveCycleForPair(pair: string, mode: string): Promise
 
 export async function getImportableStatus(mode: string): Promise<Record<string, { canImport: boolean; hasActiveCycle: boolean; reason?: string }>> {
   const result: Record<string, { canImport: boolean; hasActiveCycle: boolean; reason?: string }> = {};
-  const allowedPairs = ["BTC/USD", "ETH/USD"];
+  const allowedPairs = await getConfiguredPairs();
   for (const pair of allowedPairs) {
     const hasActive = await hasActiveCycleForPair(pair, mode);
     if (hasActive) {
@@ -6,7 +6,7 @@
  * slider values using pair-specific interpolation curves.
  *
  * UI sliders: 0–100 integer range.
- * Pair-specific curves: BTC/USD, ETH/USD, generic fallback.
+ * Pair-specific curves: BTC/USD, ETH/USD, generic fallback (IdcaCycleConfig.resolveAssetProfile).
  *
  * Defaults:
  *   entryPatienceLevel       = 70   (prudente)
@@ -19,6 +19,9 @@
  *   telegramAlertGroupingLevel  = 85 (muy agrupado)
  */
 
+import { resolveAssetProfile } from "./IdcaCycleConfig";
+import type { IdcaAssetProfile } from "./IdcaTypes";
+
 // ─── Interfaces ────────────────────────────────────────────────────
 
 export interface EntryUiConfig {
@@ -109,6 +112,9 @@ const MIN_DIP_CURVE_ETH: [number, number][] = [
 const MIN_DIP_CURVE_GENERIC: [number, number][] = [
   [0, 3.80], [50, 4.40], [70, 5.00], [100, 6.20],
 ];
+const MIN_DIP_CURVES: Record<IdcaAssetProfile, [number, number][]> = {
+  btc: MIN_DIP_CURVE_BTC, eth: MIN_DIP_CURVE_ETH, generic: MIN_DIP_CURVE_GENERIC,
+};
 
 // ─── Curvas de reboundPct por par ────────────────────────────────────
 
@@ -121,6 +127,9 @@ const REBOUND_CURVE_ETH: [number, number][] = [
 const REBOUND_CURVE_GENERIC: [number, number][] = [
   [0, 0.30], [50, 0.50], [65, 0.60], [100, 0.95],
 ];
+const REBOUND_CURVES: Record<IdcaAssetProfile, [number, number][]> = {
+  btc: REBOUND_CURVE_BTC, eth: REBOUND_CURVE_ETH, generic: REBOUND_CURVE_GENERIC,
+};
 
 // ─── Derivación técnica de entry config ──────────────────────────────
 
@@ -138,16 +147,13 @@ export function deriveEntryConfigFromSliders(
   const q  = sliders.entryQualityLevel;        // 0–100
   const sz = sliders.entrySizeAggressiveness;  // 0–100
 
-  const isBtc = pair === "BTC/USD";
-  const isEth = pair === "ETH/USD";
+  const profile = resolveAssetProfile(pair);
 
   // 1. effectiveMinDipPct ─ cuánto debe bajar el precio para activar TB
-  const dipCurve = isBtc ? MIN_DIP_CURVE_BTC : isEth ? MIN_DIP_CURVE_ETH : MIN_DIP_CURVE_GENERIC;
-  const effectiveMinDipPct = lerp(p, dipCurve);
+  const effectiveMinDipPct = lerp(p, MIN_DIP_CURVES[profile]);
 
   // 2. reboundPct ─ % de rebote requerido desde localLow
-  const rebCurve = isBtc ? REBOUND_CURVE_BTC : isEth ? REBOUND_CURVE_ETH : REBOUND_CURVE_GENERIC;
-  const reboundPct = lerp(rb, rebCurve);
+  const reboundPct = lerp(rb, REBOUND_CURVES[profile]);
 
   // 3. maxExecutionOvershootPct ─ inversamente proporcional a paciencia
   //    (más paciencia → límite más estricto: acepta menos sobrepasar el buyThreshold)
@@ -14,6 +14,7 @@ import type {
   SafetyOrderLevel,
 } from "./IdcaTypes";
 import { SIZE_PROFILES } from "./IdcaTypes";
+import { isBtcProfilePair } from "./IdcaCycleConfig";
 
 // ─── Market Score (0-100) ──────────────────────────────────────────
 
@@ -197,7 +198,7 @@ export interface AdaptiveTpInput {
 }
 
 export function computeAdaptiveTp(input: AdaptiveTpInput): number {
-  const isBtc = input.pair === "BTC/USD";
+  const isBtc = isBtcProfilePair(input.pair);
   let baseTp: number;
 
   if (isBtc) {
@@ -220,7 +221,7 @@ export function computeAdaptiveTp(input: AdaptiveTpInput): number {
 // ─── Dynamic Take Profit (evolution of Adaptive TP) ─────────────────
 
 export function computeDynamicTakeProfit(input: DynamicTpInput): TpBreakdown {
-  const isBtc = input.pair === "BTC/USD";
+  const isBtc = isBtcProfilePair(input.pair);
   const isPlus = input.cycleType === "plus";
   const cfg = input.config;
 
@@ -261,6 +262,9 @@ export function computeDynamicTakeProfit(input: DynamicTpInput): TpBreakdown {
   if (isPlus) {
     minTp = isBtc ? cfg.plusMinTpPctBtc : cfg.plusMinTpPctEth;
     maxTp = isBtc ? cfg.plusMaxTpPctBtc : cfg.plusMaxTpPctEth;
+  } else if (input.mainTpBounds) {
+    minTp = input.mainTpBounds.minTpPct;
+    maxTp = input.mainTpBounds.maxTpPct;
   } else {
     minTp = isBtc ? cfg.mainMinTpPctBtc : cfg.mainMinTpPctEth;
     maxTp = isBtc ? cfg.mainMaxTpPctBtc : cfg.mainMaxTpPctEth;
@@ -434,6 +438,7 @@ export interface ComputeBasePriceInput {
   currentPrice: number;
   pivotN?: number; // candles each side for pivot confirmation, default 3
   pair?: string;   // e.g. "BTC/USD" — used for per-pair dynamic tolerances
+  now?: number;    // epoch ms — defaults to Date.now(); set by the backtest replay
 }
 
 // ─── Hybrid V2.1 algorithm constants ─────────────────────────────────────
@@ -452,18 +457,18 @@ const MIN_CANDLES = 7;
 
 function getDynamicSwingAlignmentTol(pair: string, atrPct: number): number {
   const raw = (atrPct / 100) * 3.0;
-  const isBtc = pair === "BTC/USD";
+  const isBtc = isBtcProfilePair(pair);
   return clamp(raw, isBtc ? 0.06 : 0.08, isBtc ? 0.18 : 0.25);
 }
 
 function getDynamicCap7dTol(pair: string, atrPct: number): number {
   const raw = (atrPct / 100) * 2.5;
-  const isBtc = pair === "BTC/USD";
+  const isBtc = isBtcProfilePair(pair);
   return clamp(raw, isBtc ? 0.06 : 0.08, isBtc ? 0.20 : 0.25);
 }
 
 function getCap30dTol(pair: string): number {
-  return pair === "BTC/USD" ? 0.20 : 0.25;
+  return isBtcProfilePair(pair) ? 0.20 : 0.25;
 }
 
 function computeP95(values: number[]): number {
@@ -662,7 +667,7 @@ function computeHybridV2(
 
 export function computeBasePrice(input: ComputeBasePriceInput): BasePriceResult {
   const { candles, lookbackMinutes, method, currentPrice, pivotN = 3, pair = "BTC/USD" } = input;
-  const now = Date.now();
+  const now = input.now ?? Date.now();
 
   // ── Hybrid V2.1 — primary method ──────────────────────────────────────
   if (method === "hybrid") {
@@ -859,6 +864,7 @@ const VWAP_MIN_CANDLES = 5;
 export function computeVwapAnchored(
   candles: TimestampedCandle[],
   anchorTimeMs?: number,
+  nowMs: number = Date.now(),
 ): VwapResult {
   // Filter candles from anchor (used for VWAP price computation)
   const anchor = anchorTimeMs ?? 0;
@@ -928,7 +934,6 @@ export function computeVwapAnchored(
   const stdDev = Math.sqrt(weightedSumSqDev / (sigmaVol || 1));
 
   // Compute VWAP weekly and monthly from full candle set
-  const nowMs = Date.now();
   const weekMs  = 7  * 24 * 60 * 60 * 1000;
   const monthMs = 30 * 24 * 60 * 60 * 1000;
 
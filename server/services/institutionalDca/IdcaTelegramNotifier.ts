@@ -6,7 +6,8 @@
 import { telegramService } from "../telegram";
 import * as repo from "./IdcaRepository";
 import { formatTelegramMessage, type FormatContext } from "./IdcaMessageFormatter";
-import type { TelegramAlertToggles } from "./IdcaTypes";
+import type { IdcaAssetProfile, TelegramAlertToggles } from "./IdcaTypes";
+import { resolveAssetProfile } from "./IdcaCycleConfig";
 import type { InstitutionalDcaCycle, InstitutionalDcaOrder } from "@shared/schema";
 import * as tbState from "./IdcaTrailingBuyTelegramState";
 import { buildDigestMessage, type TrailingBuyDigestEntry } from "./IdcaTelegramAlertPolicy";
@@ -44,11 +45,11 @@ export function computeReboundStatus(
 const lastApproachingBuyAlert = new Map<string, number>();
 const APPROACHING_BUY_COOLDOWN_MS = 2 * 60 * 60 * 1000;
 
+const NEAR_ZONE_THRESHOLD_PCT: Record<IdcaAssetProfile, number> = { btc: 0.75, eth: 1.00, generic: 1.50 };
+
 /** Umbral near-zone por par — exportado para uso en IdcaEngine */
 export function getNearZoneThresholdPct(pair: string): number {
-  if (pair === "BTC/USD") return 0.75;
-  if (pair === "ETH/USD") return 1.00;
-  return 1.50;
+  return NEAR_ZONE_THRESHOLD_PCT[resolveAssetProfile(pair)];
 }
 
 /** Prefijo de modo para títulos de alertas Telegram */
@@ -317,6 +317,20 @@ export interface DynamicTpInput {
   volatilityPct: number;
   reboundStrength: "none" | "weak" | "strong";
   config: DynamicTpConfig;
+  mainTpBounds?: { minTpPct: number; maxTpPct: number };  // per-asset guardrails (main cycles only)
+}
+
+/** Tuning profile of a pair — see IdcaCycleConfig.resolveAssetProfile. */
+export type IdcaAssetProfile = "btc" | "eth" | "generic";
+
+/** Guardrails resolved per asset — see IdcaCycleConfig.resolveAssetBounds. */
+export interface IdcaAssetBounds {
+  minTrailingPct: number;
+  maxTrailingPct: number;
+  minTpPct: number;
+  maxTpPct: number;
+  maxAssetExposurePct: number;
+  btcGateEnabled: boolean;
 }
 
 export interface PlusConfig {
@@ -688,6 +702,15 @@ export interface IdcaConfluenceBreakdown {
   dynamicConfidencePenalty?: number;
   dynamicRiskPenaltiesPct?: number;
   candidateDistancePct?: number;
+  oscillatorScore?: number;
+}
+
+/** Osciladores incrementales sobre velas 1h cerradas (incrementalIndicators) */
+export interface IdcaIndicatorConfirmation {
+  stochRsiK: number | null;
+  stochRsiD: number | null;
+  supertrendDirection: "up" | "down" | null;
+  obvTrend: "up" | "down" | "flat" | null;
 }
 
 export interface IdcaConfluenceInput {
@@ -710,6 +733,7 @@ export interface IdcaConfluenceInput {
   priceInActivationZone: boolean;
   shortMomentum?: "positive" | "flat" | "negative";
   hasRecoveryCandle?: boolean;
+  indicatorConfirmation?: IdcaIndicatorConfirmation;
   capitalUsedUsd: number;
   capitalReservedUsd: number;
   buyCount: number;
@@ -719,6 +743,8 @@ export interface IdcaConfluenceInput {
   candleCount: number;
   atrReliable: boolean;
   smartAdjustmentEnabled: boolean;
+  /** true → oscillatorScore pesa 50% del momentumScore; false/ausente → solo diagnóstico */
+  oscillatorBlendEnabled?: boolean;
   dynamicDistanceConfig?: DynamicDistanceConfig;
 }
 
@@ -890,3 +916,87 @@ export interface IdcaDynamicReboundResult {
   tbPath?: IdcaTbPath;
   breakdown: IdcaDynamicReboundBreakdown;
 }
+
+// ─── Backtest ──────────────────────────────────────────────────────
+
+export type IdcaBacktestTimeframe = "15m" | "1h" | "4h";
+
+export interface IdcaBacktestRequest {
+  pair: string;
+  fromDate: string | Date;
+  toDate: string | Date;
+  timeframe?: IdcaBacktestTimeframe;       // default "1h" (same series the live engine uses)
+  lookbackCandles?: number;                // rolling window fed to the smart layer, default 720
+  initialBalanceUsd?: number;              // default config.simulationInitialBalanceUsd
+  config?: Record<string, unknown>;        // overrides on top of institutional_dca_config
+  assetConfig?: Record<string, unknown>;   // overrides on top of the pair's asset config
+  persist?: boolean;                       // write a row to institutional_dca_backtests (default true)
+}
+
+export interface IdcaBacktestOrder {
+  orderType: IdcaOrderType;
+  time: string;
+  price: number;
+  quantity: number;
+  grossValueUsd: number;
+  feesUsd: number;
+  slippageUsd: number;
+  netValueUsd: number;
+  reason: string;
+}
+
+export interface IdcaBacktestCycle {
+  id: number;
+  cycleType: IdcaCycleType;
+  parentCycleId: number | null;
+  entrySource: "normal" | "trailing_buy";
+  openedAt: string;
+  closedAt: string | null;
+  closeReason: string | null;
+  buyCount: number;
+  avgEntryPrice: number;
+  exitPrice: number | null;
+  capitalUsedUsd: number;
+  realizedPnlUsd: number | null;
+  realizedPnlPct: number | null;
+  maxDrawdownPct: number;
+  durationHours: number | null;
+  marketScore: number | null;
+  sizeProfile: IdcaSizeProfile | null;
+  orders: IdcaBacktestOrder[];
+}
+
+export interface IdcaBacktestSummary {
+  candlesProcessed: number;
+  cyclesCount: number;
+  cyclesByType: Record<IdcaCycleType, number>;
+  wins: number;
+  losses: number;
+  winRatePct: number;
+  totalReturnUsd: number;
+  totalReturnPct: number;
+  maxDrawdownPct: number;
+  profitFactor: number | null;
+  avgCycleDurationHours: number;
+  totalFeesUsd: number;
+  initialBalanceUsd: number;
+  finalEquityUsd: number;
+  closeReasons: Record<string, number>;
+}
+
+export interface IdcaBacktestResults {
+  pair: string;
+  timeframe: IdcaBacktestTimeframe;
+  fromDate: string;
+  toDate: string;
+  summary: IdcaBacktestSummary;
+  cycles: IdcaBacktestCycle[];
+  entryBlocks: Record<string, number>;
+  equityCurve: Array<{ time: string; equityUsd: number }>;
+  assumptions: {
+    feePct: number;
+    slippagePct: number;
+    fillModel: string;
+    anchorModel: string;
+  };
+}
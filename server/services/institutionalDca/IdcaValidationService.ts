@@ -465,6 +465,11 @@ class IdcaValidationService {
           twapDurationMinutes: 5,
           twapSliceCount: 10,
           twapVariancePct: 20,
+          participationPct: 5,
+          makerWaitMs: 20000,
+          makerMaxReplaces: 2,
+          takerFallback: true,
+          maxSliceUsd: 250,
           adaptiveEnabled: true,
           volatilityThreshold: 2.0,
           volumeThreshold: 10000,
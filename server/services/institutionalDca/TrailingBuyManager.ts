@@ -67,9 +67,12 @@ export interface TrailingBuyTrigger {
 const DEFAULT_TRAILING_PCT = 0.5;       // 0.5% bounce from low triggers buy
 const DEFAULT_MAX_DURATION_MS = 4 * 60 * 60 * 1000; // 4 hours max
 
-class TrailingBuyManagerClass {
+export class TrailingBuyManagerClass {
   private states = new Map<string, TrailingBuyState>();
 
+  /** `now` is injectable so the backtest engine can replay candle time. */
+  constructor(private readonly now: () => number = Date.now) {}
+
   /**
    * Arm trailing buy for a pair. Called when entry conditions are met
    * but we want to wait for the best price.
@@ -88,7 +91,7 @@ class TrailingBuyManagerClass {
     vwapZone?: string;
     tbPath?: IdcaTbPath;
   }): void {
-    const now = Date.now();
+    const now = this.now();
     const entryMode = opts?.entryMode ?? "assisted_entry";
     let trailingPct = opts?.trailingPct ?? DEFAULT_TRAILING_PCT;
     let reboundTriggerPrice: number;
@@ -175,7 +178,7 @@ class TrailingBuyManagerClass {
       maxExecutionPrice?: number;
     }
   ): void {
-    const now = Date.now();
+    const now = this.now();
     const trailingPct = opts.trailingMode === "rebound_pct"
       ? opts.trailingValue
       : (opts.atrpMultiplier ? opts.trailingValue * opts.atrpMultiplier : opts.trailingValue);
@@ -227,7 +230,7 @@ class TrailingBuyManagerClass {
       return { triggered: false, buyPrice: 0, localLow: 0, bouncePct: 0, reason: "not_armed" };
     }
 
-    const now = Date.now();
+    const now = this.now();
     state.lastPrice = currentPrice;
     state.lastUpdateAt = now;
 
@@ -380,7 +383,7 @@ class TrailingBuyManagerClass {
       return { armed: false };
     }
 
-    const now = Date.now();
+    const now = this.now();
     const targetPrice = state.localLow * (1 + state.trailingPct / 100);
     
     return {
@@ -0,0 +1,120 @@
+/**
+ * Tests for per-asset guardrails (IdcaCycleConfig.resolveAssetBounds).
+ *
+ * Cases:
+ *   A. NULL columns fall back to the global BTC values for BTC/USD
+ *   B. NULL columns fall back to the global ETH values for any other pair
+ *   C. Asset columns override the globals
+ *   D. BTC gate: never for BTC, legacy toggle for ETH, explicit for the rest
+ *   E. Plus/Recovery exits follow the asset profile and its trailing guardrails
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PLUS_CONFIG,
+  DEFAULT_RECOVERY_CONFIG,
+  isBtcProfilePair,
+  resolveAssetBounds,
+  resolveAssetProfile,
+  resolvePlusExitParams,
+  resolveRecoveryExitParams,
+} from "../IdcaCycleConfig";
+
+function makeConfig(overrides: Record<string, unknown> = {}): any {
+  return {
+    minTrailingPctBtc: "0.80", maxTrailingPctBtc: "2.50",
+    minTrailingPctEth: "1.00", maxTrailingPctEth: "3.50",
+    maxAssetExposurePct: "40.00",
+    btcMarketGateForEthEnabled: true,
+    dynamicTpConfigJson: null,
+    ...overrides,
+  };
+}
+
+function makeAsset(pair: string, overrides: Record<string, unknown> = {}): any {
+  return {
+    pair,
+    minTrailingPct: null, maxTrailingPct: null,
+    minTpPct: null, maxTpPct: null,
+    maxAssetExposurePct: null,
+    btcGateEnabled: null,
+    ...overrides,
+  };
+}
+
+describe("isBtcProfilePair", () => {
+  it("only treats BTC/USD as the BTC profile", () => {
+    expect(isBtcProfilePair("BTC/USD")).toBe(true);
+    expect(isBtcProfilePair("ETH/USD")).toBe(false);
+    expect(isBtcProfilePair("SOL/USD")).toBe(false);
+  });
+});
+
+describe("resolveAssetProfile", () => {
+  it("maps BTC and ETH to their own profile and any other pair to generic", () => {
+    expect(resolveAssetProfile("BTC/USD")).toBe("btc");
+    expect(resolveAssetProfile("ETH/USD")).toBe("eth");
+    expect(resolveAssetProfile("XRP/USD")).toBe("generic");
+  });
+});
+
+describe("resolveAssetBounds", () => {
+  it("A. BTC/USD falls back to the BTC globals", () => {
+    const b = resolveAssetBounds(makeConfig(), makeAsset("BTC/USD"));
+    expect(b).toMatchObject({
+      minTrailingPct: 0.8, maxTrailingPct: 2.5,
+      minTpPct: 2.0, maxTpPct: 6.0,
+      maxAssetExposurePct: 40,
+    });
+  });
+
+  it("B. ETH/USD and new pairs fall back to the ETH globals", () => {
+    for (const pair of ["ETH/USD", "SOL/USD"]) {
+      const b = resolveAssetBounds(makeConfig(), makeAsset(pair));
+      expect(b).toMatchObject({
+        minTrailingPct: 1.0, maxTrailingPct: 3.5,
+        minTpPct: 2.5, maxTpPct: 8.0,
+        maxAssetExposurePct: 40,
+      });
+    }
+  });
+
+  it("C. asset columns override the globals", () => {
+    const b = resolveAssetBounds(makeConfig(), makeAsset("SOL/USD", {
+      minTrailingPct: "1.50", maxTrailingPct: "5.00",
+      minTpPct: "4.00", maxTpPct: "12.00",
+      maxAssetExposurePct: "10.00",
+    }));
+    expect(b).toMatchObject({
+      minTrailingPct: 1.5, maxTrailingPct: 5,
+      minTpPct: 4, maxTpPct: 12,
+      maxAssetExposurePct: 10,
+    });
+  });
+
+  it("D. BTC gate resolution", () => {
+    const config = makeConfig();
+    expect(resolveAssetBounds(config, makeAsset("BTC/USD", { btcGateEnabled: true })).btcGateEnabled).toBe(false);
+    expect(resolveAssetBounds(config, makeAsset("ETH/USD")).btcGateEnabled).toBe(true);
+    expect(resolveAssetBounds(makeConfig({ btcMarketGateForEthEnabled: false }), makeAsset("ETH/USD")).btcGateEnabled).toBe(false);
+    expect(resolveAssetBounds(config, makeAsset("ETH/USD", { btcGateEnabled: false })).btcGateEnabled).toBe(false);
+    expect(resolveAssetBounds(config, makeAsset("SOL/USD")).btcGateEnabled).toBe(false);
+    expect(resolveAssetBounds(config, makeAsset("SOL/USD", { btcGateEnabled: true })).btcGateEnabled).toBe(true);
+  });
+});
+
+describe("Plus/Recovery exit params", () => {
+  it("E. use the BTC values for BTC/USD and the ETH values for any other pair", () => {
+    const config = makeConfig();
+    expect(resolvePlusExitParams(DEFAULT_PLUS_CONFIG, config, makeAsset("BTC/USD"))).toEqual({ tpPct: 4.0, trailingPct: 1.0 });
+    expect(resolvePlusExitParams(DEFAULT_PLUS_CONFIG, config, makeAsset("SOL/USD"))).toEqual({ tpPct: 4.5, trailingPct: 1.2 });
+    expect(resolveRecoveryExitParams(DEFAULT_RECOVERY_CONFIG, config, makeAsset("BTC/USD"))).toEqual({ tpPct: 2.5, trailingPct: 0.8 });
+    expect(resolveRecoveryExitParams(DEFAULT_RECOVERY_CONFIG, config, makeAsset("XRP/USD"))).toEqual({ tpPct: 3.0, trailingPct: 1.0 });
+  });
+
+  it("E. keep the trailing inside the asset's trailing guardrails", () => {
+    const asset = makeAsset("SOL/USD", { minTrailingPct: "2.00", maxTrailingPct: "4.00" });
+    expect(resolvePlusExitParams(DEFAULT_PLUS_CONFIG, makeConfig(), asset).trailingPct).toBe(2.0);
+    expect(resolveRecoveryExitParams(DEFAULT_RECOVERY_CONFIG, makeConfig(), asset).trailingPct).toBe(2.0);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * IdcaEngine — compras troceadas en segundo plano.
+ * Un cierre de emergencia no toca el par que tiene una compra troceada en curso:
+ * ni cancela sus instrucciones de salida, ni cierra el ciclo, ni lanza la venta.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../../db", () => ({ db: {} }));
+vi.mock("../IdcaRepository", () => ({
+  getIdcaConfig: vi.fn(),
+  getConfiguredPairs: vi.fn(),
+  getAllActiveCycles: vi.fn(),
+  closeCyclesBulk: vi.fn(),
+  createEvent: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("../IdcaExitInstructionRepository", () => ({
+  cancelActiveExitInstructionForCycle: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("../IdcaTelegramNotifier", () => ({
+  alertEmergencyClose: vi.fn().mockResolvedValue(undefined),
+  getNearZoneThresholdPct: vi.fn(),
+}));
+vi.mock("../IdcaTrailingBuyTelegramState", () => ({
+  resetTrailingBuyTelegramState: vi.fn(),
+}));
+vi.mock("../IdcaLiveExecutionGuard", () => ({
+  validateSellQuantity: vi.fn().mockResolvedValue({ valid: false, reason: "test" }),
+}));
+vi.mock("../../MarketDataService", () => ({
+  MarketDataService: { getPrice: vi.fn().mockResolvedValue(100) },
+}));
+
+import { emergencyCloseAll, _trackBackgroundPairJobForTesting } from "../IdcaEngine";
+import * as repo from "../IdcaRepository";
+import * as exitRepo from "../IdcaExitInstructionRepository";
+import * as liveGuard from "../IdcaLiveExecutionGuard";
+
+const cycles = [
+  { id: 1, pair: "BTC/USD", totalQuantity: "0.01" },
+  { id: 2, pair: "ETH/USD", totalQuantity: "0.5" },
+];
+
+describe("IdcaEngine — emergency close during a sliced buy", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(repo.getIdcaConfig).mockResolvedValue({ mode: "live" } as any);
+    vi.mocked(repo.getConfiguredPairs).mockResolvedValue(["BTC/USD", "ETH/USD"] as any);
+    vi.mocked(repo.getAllActiveCycles).mockResolvedValue(cycles as any);
+    vi.mocked(repo.closeCyclesBulk).mockResolvedValue(1);
+  });
+
+  it("leaves the pair with a sliced buy in flight untouched", async () => {
+    let settle!: () => void;
+    _trackBackgroundPairJobForTesting("BTC/USD", new Promise<void>((resolve) => { settle = resolve; }));
+
+    await emergencyCloseAll();
+
+    expect(exitRepo.cancelActiveExitInstructionForCycle).toHaveBeenCalledTimes(1);
+    expect(exitRepo.cancelActiveExitInstructionForCycle).toHaveBeenCalledWith(2, "emergency_close_all");
+    const skipped = vi.mocked(repo.closeCyclesBulk).mock.calls[0][3];
+    expect(skipped && Array.from(skipped)).toEqual(["BTC/USD"]);
+    expect(liveGuard.validateSellQuantity).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(liveGuard.validateSellQuantity).mock.calls[0][0]).toBe("ETH/USD");
+
+    settle();
+  });
+
+  it("closes every pair once the sliced buy has settled", async () => {
+    const job = Promise.resolve();
+    _trackBackgroundPairJobForTesting("BTC/USD", job);
+    await job;
+    await Promise.resolve();
+
+    await emergencyCloseAll();
+
+    expect(exitRepo.cancelActiveExitInstructionForCycle).toHaveBeenCalledTimes(2);
+    const skipped = vi.mocked(repo.closeCyclesBulk).mock.calls[0][3];
+    expect(skipped && skipped.size).toBe(0);
+    expect(liveGuard.validateSellQuantity).toHaveBeenCalledTimes(2);
+  });
+});
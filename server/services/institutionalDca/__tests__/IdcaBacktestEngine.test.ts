@@ -0,0 +1,213 @@
+/**
+ * Tests for the IDCA candle replay (IdcaBacktestEngine).
+ *
+ * Cases:
+ *   A. Dip entry → TP/trailing exit on the rebound, fees charged both sides
+ *   B. Deeper dip fills a safety buy and lowers the average
+ *   C. maxCycleDurationHours closes a stuck cycle
+ *   D. TrailingBuyManager replays on candle time, not wall clock
+ *   E. runIdcaBacktest persists summary + results_json and validates the range
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../IdcaRepository", () => ({
+  getIdcaConfig: vi.fn(),
+  getAssetConfig: vi.fn(),
+  getOhlcvRange: vi.fn(),
+  createBacktest: vi.fn(async (data: any) => ({ id: 1, createdAt: new Date(), ...data })),
+  getVwapAnchor: vi.fn(),
+}));
+
+import * as repo from "../IdcaRepository";
+import { replayIdcaCandles, runIdcaBacktest } from "../IdcaBacktestEngine";
+import { TrailingBuyManagerClass } from "../TrailingBuyManager";
+import type { TimestampedCandle } from "../IdcaSmartLayer";
+
+const HOUR = 3600_000;
+const START = Date.UTC(2026, 0, 1);
+
+function makeConfig(overrides: Record<string, unknown> = {}): any {
+  return {
+    allocatedCapitalUsd: "10000",
+    maxModuleExposurePct: "80",
+    maxAssetExposurePct: "50",
+    simulationFeePct: "0.1",
+    simulationSlippagePct: "0",
+    simulationInitialBalanceUsd: "10000",
+    executionFeesJson: null,
+    smartModeEnabled: false,
+    adaptiveTpEnabled: false,
+    volatilityTrailingEnabled: false,
+    adaptivePositionSizingEnabled: false,
+    localHighLookbackMinutes: 1440,
+    plusConfigJson: { enabled: false },
+    recoveryConfigJson: { enabled: false },
+    dynamicTpConfigJson: {},
+    entryUiJson: null,
+    ...overrides,
+  };
+}
+
+function makeAsset(overrides: Record<string, unknown> = {}): any {
+  return {
+    pair: "BTC/USD",
+    enabled: true,
+    entryMode: "assisted_entry",
+    minDipPct: "3",
+    dipReference: "hybrid",
+    requireReboundConfirmation: false,
+    vwapEnabled: false,
+    safetyOrdersJson: [{ dipPct: 3, sizePctOfAssetBudget: 25 }, { dipPct: 5, sizePctOfAssetBudget: 25 }],
+    takeProfitPct: "4",
+    trailingMarginPct: "1.5",
+    protectionActivationPct: "1",
+    beNetBufferPct: "0.3",
+    trailingActivationPct: "3.5",
+    cooldownMinutesBetweenBuys: 60,
+    maxCycleDurationHours: "0",
+    ladderAtrpEnabled: false,
+    trailingBuyLevel1ConfigJson: null,
+    dynamicDistanceConfigJson: null,
+    ...overrides,
+  };
+}
+
+/** Flat warm-up at `base`, then one candle per price in `path`. */
+function buildCandles(base: number, warmup: number, path: number[]): TimestampedCandle[] {
+  const closes = [...Array(warmup).fill(base), ...path];
+  return closes.map((close, i) => {
+    const open = i > 0 ? closes[i - 1] : close;
+    return {
+      time: START + i * HOUR,
+      open,
+      high: Math.max(open, close) * 1.001,
+      low: Math.min(open, close) * 0.999,
+      close,
+      volume: 10,
+    };
+  });
+}
+
+function replay(candles: TimestampedCandle[], config = makeConfig(), assetConfig = makeAsset()) {
+  return replayIdcaCandles(candles, {
+    pair: "BTC/USD",
+    timeframe: "1h",
+    fromMs: START + 48 * HOUR,
+    lookbackCandles: 48,
+    initialBalanceUsd: 10000,
+    config,
+    assetConfig,
+  });
+}
+
+describe("IdcaBacktestEngine — replay", () => {
+  it("A. enters on the dip and exits on the rebound", async () => {
+    const path = [99, 98, 97, 96, 95.5, 96, 97, 98, 99, 100, 101, 102, 103, 104, 102, 100, 99];
+    const results = await replay(buildCandles(100, 48, path));
+
+    const main = results.cycles.filter(c => c.cycleType === "main");
+    expect(main.length).toBeGreaterThanOrEqual(1);
+    const first = main[0];
+    expect(first.orders[0].orderType).toBe("base_buy");
+    expect(first.avgEntryPrice).toBeLessThan(97.5);
+    expect(first.closeReason).not.toBe("end_of_data");
+    expect(first.realizedPnlUsd!).toBeGreaterThan(0);
+    expect(first.orders.every(o => o.feesUsd > 0)).toBe(true);
+    expect(results.summary.wins).toBeGreaterThanOrEqual(1);
+    expect(results.summary.totalReturnUsd).toBeGreaterThan(0);
+  });
+
+  it("B. fills a safety buy on a deeper dip and lowers the average", async () => {
+    const path = [99, 98, 97, 96.5, 96, 95, 94, 93, 92.5, 92, 92.5, 93];
+    const results = await replay(buildCandles(100, 48, path));
+
+    const first = results.cycles[0];
+    expect(first.buyCount).toBeGreaterThanOrEqual(2);
+    expect(first.orders[1].orderType).toBe("safety_buy");
+    expect(first.avgEntryPrice).toBeLessThan(first.orders[0].price);
+    expect(first.closeReason).toBe("end_of_data");
+  });
+
+  it("C. closes a cycle that exceeds maxCycleDurationHours", async () => {
+    const path = [99, 98, 97, 96, 95.5, ...Array(10).fill(95.5)];
+    const results = await replay(buildCandles(100, 48, path), makeConfig(), makeAsset({ maxCycleDurationHours: "4" }));
+
+    const first = results.cycles[0];
+    expect(first.closeReason).toBe("max_duration_reached");
+    expect(first.durationHours!).toBeGreaterThan(4);
+    expect(first.durationHours!).toBeLessThan(6);
+  });
+
+  it("builds a summary consistent with the cycles", async () => {
+    const path = [99, 98, 97, 96, 95.5, 96, 97, 98, 99, 100, 101, 102, 103, 104, 102, 100, 99];
+    const results = await replay(buildCandles(100, 48, path));
+
+    expect(results.summary.candlesProcessed).toBe(path.length);
+    expect(results.summary.cyclesCount).toBe(results.cycles.length);
+    expect(results.equityCurve.length).toBe(path.length);
+    expect(results.summary.finalEquityUsd).toBeCloseTo(10000 + results.summary.totalReturnUsd, 1);
+    expect(results.assumptions.anchorModel).toBe("legacy_vwap_anchor");
+  });
+});
+
+describe("TrailingBuyManagerClass — injectable clock", () => {
+  it("D. expires on replay time instead of wall clock", () => {
+    let now = START;
+    const tb = new TrailingBuyManagerClass(() => now);
+    tb.arm("BTC/USD", 100, 95, { trailingPct: 1, maxDurationMs: 2 * HOUR });
+    expect(tb.isArmed("BTC/USD")).toBe(true);
+    expect(tb.getState("BTC/USD")?.armedAt).toBe(START);
+
+    now = START + 3 * HOUR;
+    const result = tb.update("BTC/USD", 94);
+    expect(result.triggered).toBe(false);
+    expect(tb.isArmed("BTC/USD")).toBe(false);
+  });
+});
+
+describe("runIdcaBacktest", () => {
+  beforeEach(() => {
+    vi.mocked(repo.getIdcaConfig).mockResolvedValue(makeConfig());
+    vi.mocked(repo.getAssetConfig).mockResolvedValue(makeAsset());
+    vi.mocked(repo.createBacktest).mockClear();
+  });
+
+  it("E. persists the summary and results_json", async () => {
+    const candles = buildCandles(100, 48, [99, 98, 97, 96, 95.5, 96, 97, 98, 99, 100, 101, 102, 103, 104, 102, 100, 99]);
+    vi.mocked(repo.getOhlcvRange).mockResolvedValue(candles.map(c => ({
+      ts: new Date(c.time),
+      open: String(c.open),
+      high: String(c.high),
+      low: String(c.low),
+      close: String(c.close),
+      volume: String(c.volume),
+    })) as any);
+
+    const { backtest, results } = await runIdcaBacktest({
+      pair: "BTC/USD",
+      fromDate: new Date(START + 48 * HOUR).toISOString(),
+      toDate: new Date(START + 70 * HOUR).toISOString(),
+      lookbackCandles: 48,
+      assetConfig: { takeProfitPct: "4" },
+    });
+
+    expect(backtest).not.toBeNull();
+    const saved = vi.mocked(repo.createBacktest).mock.calls[0][0] as any;
+    expect(saved.pair).toBe("BTC/USD");
+    expect(saved.cyclesCount).toBe(results.summary.cyclesCount);
+    expect(saved.totalReturnPct).toBe(results.summary.totalReturnPct.toFixed(4));
+    expect(saved.resultsJson).toBe(results);
+    expect(saved.configSnapshotJson.assetConfig.takeProfitPct).toBe("4");
+  });
+
+  it("rejects an inverted range and empty cache", async () => {
+    await expect(runIdcaBacktest({ pair: "BTC/USD", fromDate: "2026-02-01", toDate: "2026-01-01" }))
+      .rejects.toThrow("fromDate must be before toDate");
+
+    vi.mocked(repo.getOhlcvRange).mockResolvedValue([]);
+    await expect(runIdcaBacktest({ pair: "BTC/USD", fromDate: "2026-01-01", toDate: "2026-02-01" }))
+      .rejects.toThrow("No 1h OHLCV cached");
+    expect(repo.createBacktest).not.toHaveBeenCalled();
+  });
+});
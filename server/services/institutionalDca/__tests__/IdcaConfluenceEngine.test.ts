@@ -390,3 +390,41 @@ describe("evaluateIdcaEntryConfluence — family scores clamp 0-100", () => {
     expect(result.confidenceScore).toBeLessThanOrEqual(100);
   });
 });
+
+describe("evaluateIdcaEntryConfluence — osciladores incrementales", () => {
+  it("sin indicatorConfirmation el momentumScore no cambia", () => {
+    const r = evaluateIdcaEntryConfluence(baseInput({ shortMomentum: "flat" }));
+    expect(r.breakdown.momentumScore).toBe(55);
+    expect(r.breakdown.oscillatorScore).toBeUndefined();
+  });
+
+  it("por defecto el oscillatorScore es solo informativo: no cambia el momentum", () => {
+    const r = evaluateIdcaEntryConfluence(baseInput({
+      shortMomentum: "flat",
+      indicatorConfirmation: { stochRsiK: 12, stochRsiD: 8, supertrendDirection: "up", obvTrend: "up" },
+    }));
+    expect(r.breakdown.oscillatorScore).toBeCloseTo(75, 6);
+    expect(r.breakdown.momentumScore).toBe(55);
+  });
+
+  it("con oscillatorBlendEnabled, Stoch RSI sobrevendido girando + Supertrend/OBV alcistas suben el momentum", () => {
+    const r = evaluateIdcaEntryConfluence(baseInput({
+      shortMomentum: "flat",
+      oscillatorBlendEnabled: true,
+      indicatorConfirmation: { stochRsiK: 12, stochRsiD: 8, supertrendDirection: "up", obvTrend: "up" },
+    }));
+    // osciladores = (85 + 70 + 70) / 3 = 75 → 0.5×55 + 0.5×75
+    expect(r.breakdown.oscillatorScore).toBeCloseTo(75, 6);
+    expect(r.breakdown.momentumScore).toBeCloseTo(65, 6);
+  });
+
+  it("con oscillatorBlendEnabled, osciladores bajistas restan y los null se ignoran", () => {
+    const r = evaluateIdcaEntryConfluence(baseInput({
+      shortMomentum: "flat",
+      oscillatorBlendEnabled: true,
+      indicatorConfirmation: { stochRsiK: null, stochRsiD: null, supertrendDirection: "down", obvTrend: "down" },
+    }));
+    expect(r.breakdown.oscillatorScore).toBeCloseTo(37.5, 6);
+    expect(r.breakdown.momentumScore).toBeCloseTo(46.25, 6);
+  });
+});
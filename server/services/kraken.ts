@@ -2,10 +2,11 @@ import * as KrakenAPI from "node-kraken-api";
 import { telegramService } from "./telegram";
 import { storage } from "../storage";
 import { krakenRateLimiter } from "../utils/krakenRateLimiter";
-import { IExchangeService, ExchangeConfig, Ticker, OHLC, OrderResult } from "./exchanges/IExchangeService";
+import { IExchangeService, ExchangeConfig, Ticker, OHLC, OrderResult, OrderBook, StopOrderParams, ExchangeOrderStatus, ExchangeOrderState } from "./exchanges/IExchangeService";
 import type { PairMetadata } from "./exchanges/IExchangeService";
 import { krakenNonceManager } from "./exchanges/NonceManager";
 import { balanceCache } from "./exchanges/BalanceCache";
+import { observeOrder } from "./metrics/appMetrics";
 
 const { Kraken } = KrakenAPI as any;
 
@@ -218,6 +219,20 @@ export class KrakenService implements IExchangeService {
     };
   }
 
+  async getOrderBook(pair: string, depth: number = 100): Promise<OrderBook> {
+    const krakenPair = this.formatPair(pair);
+    const response = await this.callKraken(() => this.publicClient.depth({ pair: krakenPair, count: depth }), `kraken.getOrderBook:${pair}`) as any;
+    const bookData = response[krakenPair] || Object.values(response)[0] as any;
+    const toLevels = (rows: any[] | undefined) => (rows || [])
+      .map((row: any[]) => ({ price: parseFloat(row[0]), qty: parseFloat(row[1]) }))
+      .filter(l => Number.isFinite(l.price) && l.price > 0 && Number.isFinite(l.qty) && l.qty > 0);
+    return {
+      bids: toLevels(bookData?.bids).sort((a, b) => b.price - a.price),
+      asks: toLevels(bookData?.asks).sort((a, b) => a.price - b.price),
+      timestamp: Date.now(),
+    };
+  }
+
   async getTickerRaw(pair: string): Promise<any> {
     const krakenPair = this.formatPair(pair);
     const response = await this.callKraken(() => this.publicClient.ticker({ pair: krakenPair }), `kraken.getTickerRaw:${pair}`) as any;
@@ -228,12 +243,17 @@ export class KrakenService implements IExchangeService {
     return await this.callKraken(() => this.publicClient.assetPairs(), "kraken.assetPairs");
   }
 
-  async placeOrder(params: {
+  async placeOrder(params: Parameters<IExchangeService["placeOrder"]>[0]): Promise<OrderResult> {
+    return observeOrder("kraken", params.type, () => this.submitOrder(params));
+  }
+
+  private async submitOrder(params: {
     pair: string;
     type: "buy" | "sell";
     ordertype: string;
     price?: string;
     volume: string;
+    executionInstruction?: "post_only" | "allow_taker";
   }): Promise<OrderResult> {
     if (!this.client) throw new Error("Kraken client not initialized");
     
@@ -249,6 +269,11 @@ export class KrakenService implements IExchangeService {
       orderParams.price = params.price;
     }
 
+    // post_only → oflags=post (Kraken rechaza la orden si cruzaría el libro)
+    if (params.executionInstruction === "post_only" && params.ordertype === "limit") {
+      orderParams.oflags = "post";
+    }
+
     try {
       balanceCache.invalidate('kraken');
       const result = await this.executeWithNonceRetry("addOrder", () => this.client.addOrder(orderParams), `kraken.placeOrder:${params.pair}:${params.type}`) as { txid?: string[] };
@@ -304,6 +329,81 @@ export class KrakenService implements IExchangeService {
     }
   }
 
+  /**
+   * Orden stop-loss / stop-loss-limit de VENTA residente en Kraken.
+   * price = trigger, price2 = límite (solo stop-loss-limit).
+   */
+  async placeStopOrder(params: StopOrderParams): Promise<OrderResult> {
+    if (!this.client) throw new Error("Kraken client not initialized");
+    const orderParams: any = {
+      pair: this.formatPair(params.pair),
+      type: "sell",
+      ordertype: params.limitPrice ? "stop-loss-limit" : "stop-loss",
+      price: params.triggerPrice,
+      volume: params.volume,
+    };
+    if (params.limitPrice) {
+      orderParams.price2 = params.limitPrice;
+    }
+
+    try {
+      const result = await this.executeWithNonceRetry("addOrder", () => this.client.addOrder(orderParams), `kraken.placeStopOrder:${params.pair}`) as { txid?: string[] };
+      const txids = result?.txid || [];
+      return {
+        success: txids.length > 0,
+        orderId: txids[0],
+        txid: txids[0],
+        volume: parseFloat(params.volume),
+        price: parseFloat(params.triggerPrice),
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /** Modifica trigger/límite/volumen de una orden stop in-place (AmendOrder conserva el txid). */
+  async amendStopOrder(txid: string, params: Omit<StopOrderParams, "pair">): Promise<OrderResult> {
+    if (!this.client) throw new Error("Kraken client not initialized");
+    const amendParams: any = { txid, order_qty: params.volume, trigger_price: params.triggerPrice };
+    if (params.limitPrice) {
+      amendParams.limit_price = params.limitPrice;
+    }
+
+    try {
+      await this.executeWithNonceRetry("amendOrder", () => this.client.request("AmendOrder", amendParams, "private"), `kraken.amendStopOrder:${txid.slice(0, 8)}`);
+      return {
+        success: true,
+        orderId: txid,
+        txid,
+        volume: parseFloat(params.volume),
+        price: parseFloat(params.triggerPrice),
+      };
+    } catch (error: any) {
+      return { success: false, orderId: txid, error: error.message };
+    }
+  }
+
+  async getOrderStatus(txid: string): Promise<ExchangeOrderStatus | null> {
+    if (!this.client) throw new Error("Kraken client not initialized");
+    const response = await this.executeWithNonceRetry("queryOrders", () => this.client.queryOrders({ txid }), `kraken.queryOrders:${txid.slice(0, 8)}`) as any;
+    const order = response?.[txid];
+    if (!order) return null;
+    const knownStates: ExchangeOrderState[] = ["pending", "open", "closed", "canceled", "expired"];
+    const filledVolume = parseFloat(order.vol_exec || "0");
+    const cost = parseFloat(order.cost || "0");
+    const avgPrice = parseFloat(order.price || "0");
+    return {
+      orderId: txid,
+      status: knownStates.includes(order.status) ? order.status : "unknown",
+      volume: parseFloat(order.vol || "0"),
+      filledVolume,
+      avgPrice: avgPrice > 0 ? avgPrice : (filledVolume > 0 ? cost / filledVolume : null),
+      cost,
+      fee: parseFloat(order.fee || "0"),
+      closedAt: order.closetm ? new Date(Number(order.closetm) * 1000) : null,
+    };
+  }
+
   async getOpenOrders() {
     if (!this.client) throw new Error("Kraken client not initialized");
     return await this.executeWithNonceRetry("openOrders", () => this.client.openOrders(), "kraken.openOrders");
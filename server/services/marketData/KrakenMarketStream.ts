@@ -0,0 +1,350 @@
+/**
+ * KrakenMarketStream
+ *
+ * Capa de datos de mercado en streaming sobre el WebSocket público v2 de Kraken
+ * (canales ticker, trade y ohlc). Mantiene al día en tiempo real las cachés de
+ * MarketDataService y, a través de éste, MarketCandleRepository.
+ *
+ * Reglas:
+ * - REST sigue siendo la semilla de histórico y el camino de backfill
+ * - Reconexión con backoff exponencial; watchdog por falta de mensajes/heartbeat
+ * - Tras reconectar, o si llega una vela que salta intervalos, se rellena el hueco por REST
+ * - Nunca lanza hacia los consumidores: errores → log + reconexión
+ * - La URL es inyectable para testear contra un servidor WS local
+ */
+
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+import { MarketDataService, type Timeframe } from "../MarketDataService";
+import type { OHLC, Ticker } from "../exchanges/IExchangeService";
+
+export const KRAKEN_WS_URL = "wss://ws.kraken.com/v2";
+
+const TIMEFRAME_BY_INTERVAL: Record<number, Timeframe> = {
+  1: "1m", 5: "5m", 15: "15m", 30: "30m", 60: "1h", 240: "4h", 1440: "1d", 10080: "1w", 21600: "15d",
+};
+
+/** Kraken asset codes that differ from the bot's ("XBT/USD" → "BTC/USD"). */
+const KRAKEN_ASSET_ALIASES: Record<string, string> = { XBT: "BTC", XDG: "DOGE" };
+
+/**
+ * WS symbol → bot pair, the key MarketDataService consumers read
+ * (TradingEngine, IDCA, Grid all use "BTC/USD", never REST names like XXBTZUSD).
+ */
+export function normalizeStreamPair(symbol: unknown): string {
+  const raw = String(symbol ?? "").toUpperCase();
+  const [base, quote] = raw.split("/");
+  if (!base || !quote) return "";
+  return `${KRAKEN_ASSET_ALIASES[base] ?? base}/${KRAKEN_ASSET_ALIASES[quote] ?? quote}`;
+}
+
+export interface KrakenMarketStreamOptions {
+  url?: string;
+  pairs: string[];
+  ohlcIntervals?: number[];   // minutos; por defecto 5/15/60 (los que usan los motores)
+  reconnectBaseMs?: number;
+  reconnectMaxMs?: number;
+  staleAfterMs?: number;      // sin mensajes durante este tiempo → forzar reconexión
+}
+
+export interface KrakenMarketStreamStatus {
+  url: string;
+  connected: boolean;
+  pairs: string[];
+  ohlcIntervals: number[];
+  connectedAt: string | null;
+  lastMessageAt: string | null;
+  reconnects: number;
+  backfills: number;
+  messages: { ticker: number; trade: number; ohlc: number };
+  lastError: string | null;
+}
+
+export interface StreamTrade {
+  pair: string;
+  price: number;
+  qty: number;
+  side: "buy" | "sell";
+  timestamp: string;
+}
+
+/**
+ * Eventos: "ticker" (pair, Ticker), "trade" (StreamTrade), "candle" (pair, tf, OHLC),
+ * "connected", "disconnected". `pair` siempre en formato bot ("BTC/USD").
+ * TradingEngine.attachMarketStream escucha "ticker" para evaluar SL/TP/trailing entre ciclos.
+ */
+export class KrakenMarketStream extends EventEmitter {
+  private readonly url: string;
+  private pairs: string[];
+  private readonly ohlcIntervals: number[];
+  private readonly reconnectBaseMs: number;
+  private readonly reconnectMaxMs: number;
+  private readonly staleAfterMs: number;
+
+  private ws: WebSocket | null = null;
+  private stopped = true;
+  private hasConnectedBefore = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingBackfills = new Set<string>();
+
+  private connectedAt: number | null = null;
+  private lastMessageAt: number | null = null;
+  private reconnects = 0;
+  private backfills = 0;
+  private counts = { ticker: 0, trade: 0, ohlc: 0 };
+  private lastError: string | null = null;
+
+  constructor(options: KrakenMarketStreamOptions) {
+    super();
+    this.url = options.url ?? KRAKEN_WS_URL;
+    this.pairs = Array.from(new Set(options.pairs));
+    this.ohlcIntervals = (options.ohlcIntervals ?? [5, 15, 60]).filter(i => TIMEFRAME_BY_INTERVAL[i]);
+    this.reconnectBaseMs = options.reconnectBaseMs ?? 1_000;
+    this.reconnectMaxMs = options.reconnectMaxMs ?? 60_000;
+    this.staleAfterMs = options.staleAfterMs ?? 30_000;
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.connect();
+    this.watchdogTimer = setInterval(() => this.checkStale(), Math.max(1_000, Math.floor(this.staleAfterMs / 2)));
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) { clearTimeout(this.reconnectTimer); this.reconnectTimer = null; }
+    if (this.watchdogTimer) { clearInterval(this.watchdogTimer); this.watchdogTimer = null; }
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.removeAllListeners();
+      ws.on("error", () => {});
+      ws.terminate();
+    }
+    this.connectedAt = null;
+  }
+
+  /** Cambia los pares suscritos sin reconectar. */
+  setPairs(pairs: string[]): void {
+    const next = Array.from(new Set(pairs));
+    const added = next.filter(p => !this.pairs.includes(p));
+    const removed = this.pairs.filter(p => !next.includes(p));
+    this.pairs = next;
+    if (!this.isConnected()) return;
+    if (removed.length) this.sendSubscriptions("unsubscribe", removed);
+    if (added.length) {
+      this.sendSubscriptions("subscribe", added);
+      for (const pair of added) this.backfillPair(pair);
+    }
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  getStatus(): KrakenMarketStreamStatus {
+    return {
+      url: this.url,
+      connected: this.isConnected(),
+      pairs: [...this.pairs],
+      ohlcIntervals: [...this.ohlcIntervals],
+      connectedAt: this.connectedAt ? new Date(this.connectedAt).toISOString() : null,
+      lastMessageAt: this.lastMessageAt ? new Date(this.lastMessageAt).toISOString() : null,
+      reconnects: this.reconnects,
+      backfills: this.backfills,
+      messages: { ...this.counts },
+      lastError: this.lastError,
+    };
+  }
+
+  // ── Connection lifecycle ──────────────────────────────────────
+
+  private connect(): void {
+    if (this.stopped) return;
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
+
+    ws.on("open", () => {
+      const isReconnect = this.hasConnectedBefore;
+      this.hasConnectedBefore = true;
+      this.reconnectAttempt = 0;
+      this.connectedAt = Date.now();
+      this.lastMessageAt = Date.now();
+      console.log(`[kraken-ws] connected ${this.url} pairs=${this.pairs.join(",")}`);
+      this.sendSubscriptions("subscribe", this.pairs);
+      if (isReconnect) {
+        for (const pair of this.pairs) this.backfillPair(pair);
+      }
+      this.emit("connected");
+    });
+
+    ws.on("message", (raw: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      try {
+        this.handleMessage(JSON.parse(raw.toString()));
+      } catch (e: any) {
+        console.debug(`[kraken-ws] unparseable message: ${e?.message}`);
+      }
+    });
+
+    ws.on("error", (err: Error) => {
+      this.lastError = err.message;
+      console.warn(`[kraken-ws] socket error: ${err.message}`);
+    });
+
+    ws.on("close", () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.connectedAt = null;
+      this.emit("disconnected");
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+    const delay = Math.min(this.reconnectMaxMs, this.reconnectBaseMs * 2 ** this.reconnectAttempt);
+    this.reconnectAttempt++;
+    this.reconnects++;
+    console.warn(`[kraken-ws] disconnected — reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private checkStale(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.lastMessageAt) return;
+    if (Date.now() - this.lastMessageAt > this.staleAfterMs) {
+      this.lastError = `no messages for ${this.staleAfterMs}ms`;
+      console.warn(`[kraken-ws] stale stream (${this.lastError}) — forcing reconnect`);
+      this.ws.terminate();
+    }
+  }
+
+  private sendSubscriptions(method: "subscribe" | "unsubscribe", pairs: string[]): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || pairs.length === 0) return;
+    const send = (params: Record<string, unknown>) =>
+      this.ws!.send(JSON.stringify({ method, params: { ...params, symbol: pairs } }));
+    send({ channel: "ticker" });
+    send({ channel: "trade", snapshot: false });
+    for (const interval of this.ohlcIntervals) send({ channel: "ohlc", interval });
+  }
+
+  // ── Message routing ───────────────────────────────────────────
+
+  private handleMessage(msg: any): void {
+    if (msg?.method && msg.success === false) {
+      this.lastError = msg.error ?? "subscription failed";
+      console.warn(`[kraken-ws] ${msg.method} rejected: ${this.lastError}`);
+      return;
+    }
+    const data: any[] = Array.isArray(msg?.data) ? msg.data : [];
+    switch (msg?.channel) {
+      case "ticker":
+        for (const t of data) this.onTicker(t);
+        break;
+      case "trade":
+        for (const t of data) this.onTrade(t);
+        break;
+      case "ohlc":
+        for (const c of data) this.onCandle(c);
+        break;
+      default:
+        // heartbeat / status: only refresh lastMessageAt
+        break;
+    }
+  }
+
+  private onTicker(t: any): void {
+    const pair = normalizeStreamPair(t?.symbol);
+    const last = Number(t?.last);
+    if (!pair || !Number.isFinite(last) || last <= 0) return;
+    const ticker: Ticker = {
+      bid: Number(t.bid) || last,
+      ask: Number(t.ask) || last,
+      last,
+      volume24h: t.volume != null ? Number(t.volume) : undefined,
+    };
+    this.counts.ticker++;
+    MarketDataService.applyStreamTicker(pair, ticker);
+    this.emit("ticker", pair, ticker);
+  }
+
+  private onTrade(t: any): void {
+    const pair = normalizeStreamPair(t?.symbol);
+    const price = Number(t?.price);
+    if (!pair || !Number.isFinite(price) || price <= 0) return;
+    this.counts.trade++;
+    MarketDataService.applyStreamTrade(pair, price);
+    const trade: StreamTrade = {
+      pair,
+      price,
+      qty: Number(t.qty) || 0,
+      side: t.side === "sell" ? "sell" : "buy",
+      timestamp: String(t.timestamp ?? new Date().toISOString()),
+    };
+    this.emit("trade", trade);
+  }
+
+  private onCandle(c: any): void {
+    const pair = normalizeStreamPair(c?.symbol);
+    const tf = TIMEFRAME_BY_INTERVAL[Number(c?.interval)];
+    const beginMs = Date.parse(String(c?.interval_begin ?? ""));
+    if (!pair || !tf || !Number.isFinite(beginMs)) return;
+    const candle: OHLC = {
+      time: Math.floor(beginMs / 1000),
+      open: Number(c.open),
+      high: Number(c.high),
+      low: Number(c.low),
+      close: Number(c.close),
+      volume: Number(c.volume) || 0,
+    };
+    this.counts.ohlc++;
+    const result = MarketDataService.applyStreamCandle(pair, tf, candle);
+    if (result === "gap") this.backfill(pair, tf);
+    else if (result !== "ignored") this.emit("candle", pair, tf, candle);
+  }
+
+  // ── Gap backfill (REST) ───────────────────────────────────────
+
+  private backfillPair(pair: string): void {
+    for (const interval of this.ohlcIntervals) this.backfill(pair, TIMEFRAME_BY_INTERVAL[interval]);
+  }
+
+  private backfill(pair: string, tf: Timeframe): void {
+    const key = `${pair}::${tf}`;
+    if (this.pendingBackfills.has(key)) return;
+    this.pendingBackfills.add(key);
+    this.backfills++;
+    MarketDataService.refreshCandles(pair, tf)
+      .catch((e: any) => console.warn(`[kraken-ws] backfill ${key} failed: ${e?.message}`))
+      .finally(() => this.pendingBackfills.delete(key));
+  }
+}
+
+// ─── Singleton (arrancado desde routes.ts) ────────────────────────
+
+let activeStream: KrakenMarketStream | null = null;
+
+export function startKrakenMarketStream(options: KrakenMarketStreamOptions): KrakenMarketStream {
+  if (activeStream) {
+    activeStream.setPairs(options.pairs);
+    return activeStream;
+  }
+  activeStream = new KrakenMarketStream(options);
+  activeStream.start();
+  return activeStream;
+}
+
+export function getKrakenMarketStream(): KrakenMarketStream | null {
+  return activeStream;
+}
+
+export function stopKrakenMarketStream(): void {
+  activeStream?.stop();
+  activeStream = null;
+}
@@ -0,0 +1,329 @@
+/**
+ * OrderBookDepthService
+ *
+ * Profundidad L2 del libro de órdenes (Kraken Depth vía data exchange) para
+ * alimentar decisiones de ejecución:
+ * - SmartExit: orderbookBias (imbalance bid/ask en ±25 bps)
+ * - SpreadFilter: slippage estimado más allá del top of book
+ * - IDCA LIVE guard y Grid planning: profundidad suficiente para el tamaño de orden
+ *
+ * Reglas:
+ * - Caché corta por par + single-flight (un fetch compartido entre consumidores)
+ * - Fail-open: si no hay libro disponible devuelve null y el consumidor sigue como antes
+ * - Durante un rebuild FISCO no se llama a Kraken (sólo caché)
+ * - Snapshots de auditoría en orderbook_depth_snapshots, throttled por par+motivo
+ */
+
+import { db } from "../../db";
+import { sql } from "drizzle-orm";
+import { ExchangeFactory } from "../exchanges/ExchangeFactory";
+import type { OrderBook, OrderBookLevel } from "../exchanges/IExchangeService";
+import { isFiscoRebuildActive } from "../fisco/rebuild-state";
+
+// ─── Tipos ────────────────────────────────────────────────────────────────────
+
+export type DepthSnapshotReason = "SMART_EXIT" | "SPREAD_CHECK" | "IDCA_GUARD" | "GRID_GUARD";
+
+export interface DepthBand {
+  bps: number;
+  bidUsd: number;
+  askUsd: number;
+  imbalance: number; // (bid − ask) / (bid + ask), −1..1
+}
+
+export interface SlippageEstimate {
+  side: "buy" | "sell";
+  notionalUsd: number;
+  avgPrice: number | null;
+  slippageBps: number;  // VWAP vs best bid/ask
+  slippagePct: number;
+  filledUsd: number;
+  exhausted: boolean;   // el libro recibido no cubre el nocional completo
+}
+
+export interface OrderBookDepthMetrics {
+  pair: string;
+  exchange: string;
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  spreadBps: number;
+  bands: DepthBand[];
+  orderbookBias: number;
+  slippage: SlippageEstimate[];
+  bidLevels: number;
+  askLevels: number;
+  fetchedAt: number;
+}
+
+export interface DepthMetricsOptions {
+  bandsBps?: number[];
+  biasBandBps?: number;
+  notionalsUsd?: number[];
+}
+
+// ─── Configuración ────────────────────────────────────────────────────────────
+
+export const DEFAULT_BANDS_BPS = [10, 25, 50, 100];
+export const BIAS_BAND_BPS = 25;
+const BOOK_LEVELS = 100;
+const DEFAULT_MAX_AGE_MS = 10_000;
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+const SNAPSHOT_LEVELS = 25;
+const SNAPSHOT_RETENTION_DAYS = 30;
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function isOrderBookDepthEnabled(): boolean {
+  return String(process.env.ORDERBOOK_DEPTH_ENABLED ?? "true").toLowerCase() === "true";
+}
+
+/** Nocional de referencia (USD) para el slippage que suma SpreadFilter. */
+export function getReferenceNotionalUsd(): number {
+  const n = parseFloat(process.env.ORDERBOOK_REFERENCE_NOTIONAL_USD ?? "1000");
+  return Number.isFinite(n) && n > 0 ? n : 1000;
+}
+
+// ─── Funciones puras ──────────────────────────────────────────────────────────
+
+export function computeImbalance(bidUsd: number, askUsd: number): number {
+  const total = bidUsd + askUsd;
+  return total > 0 ? (bidUsd - askUsd) / total : 0;
+}
+
+/** USD acumulado en un lado del libro dentro de ±bps del mid. */
+export function depthWithinBps(levels: OrderBookLevel[], mid: number, bps: number, side: "bid" | "ask"): number {
+  const limit = side === "bid" ? mid * (1 - bps / 10_000) : mid * (1 + bps / 10_000);
+  let usd = 0;
+  for (const l of levels) {
+    if (side === "bid" ? l.price < limit : l.price > limit) break;
+    usd += l.price * l.qty;
+  }
+  return usd;
+}
+
+/**
+ * Recorre el libro para ejecutar `notionalUsd` a mercado.
+ * buy consume asks, sell consume bids; slippage = VWAP vs mejor precio.
+ */
+export function estimateSlippage(book: OrderBook, side: "buy" | "sell", notionalUsd: number): SlippageEstimate {
+  const levels = side === "buy" ? book.asks : book.bids;
+  const best = levels[0]?.price ?? 0;
+  let filledUsd = 0;
+  let filledQty = 0;
+  for (const l of levels) {
+    if (filledUsd >= notionalUsd) break;
+    const levelUsd = l.price * l.qty;
+    const takeUsd = Math.min(levelUsd, notionalUsd - filledUsd);
+    filledUsd += takeUsd;
+    filledQty += takeUsd / l.price;
+  }
+  const avgPrice = filledQty > 0 ? filledUsd / filledQty : null;
+  const slippageBps = avgPrice && best > 0
+    ? Math.max(0, (side === "buy" ? avgPrice - best : best - avgPrice) / best * 10_000)
+    : 0;
+  return {
+    side,
+    notionalUsd,
+    avgPrice,
+    slippageBps,
+    slippagePct: slippageBps / 100,
+    filledUsd,
+    exhausted: filledUsd + 1e-9 < notionalUsd,
+  };
+}
+
+export function computeDepthMetrics(
+  pair: string,
+  exchange: string,
+  book: OrderBook,
+  options: DepthMetricsOptions = {},
+): OrderBookDepthMetrics | null {
+  const bestBid = book.bids[0]?.price ?? 0;
+  const bestAsk = book.asks[0]?.price ?? 0;
+  if (bestBid <= 0 || bestAsk <= 0 || bestAsk < bestBid) return null;
+
+  const mid = (bestBid + bestAsk) / 2;
+  const bandsBps = options.bandsBps ?? DEFAULT_BANDS_BPS;
+  const biasBandBps = options.biasBandBps ?? BIAS_BAND_BPS;
+  const notionals = options.notionalsUsd ?? [getReferenceNotionalUsd()];
+
+  const bandFor = (bps: number): DepthBand => {
+    const bidUsd = depthWithinBps(book.bids, mid, bps, "bid");
+    const askUsd = depthWithinBps(book.asks, mid, bps, "ask");
+    return { bps, bidUsd, askUsd, imbalance: computeImbalance(bidUsd, askUsd) };
+  };
+  const bands = bandsBps.map(bandFor);
+  const biasBand = bands.find(b => b.bps === biasBandBps) ?? bandFor(biasBandBps);
+
+  return {
+    pair,
+    exchange,
+    bestBid,
+    bestAsk,
+    mid,
+    spreadBps: (bestAsk - bestBid) / mid * 10_000,
+    bands,
+    orderbookBias: biasBand.imbalance,
+    slippage: notionals.flatMap(n => [estimateSlippage(book, "buy", n), estimateSlippage(book, "sell", n)]),
+    bidLevels: book.bids.length,
+    askLevels: book.asks.length,
+    fetchedAt: book.timestamp,
+  };
+}
+
+// ─── Servicio ─────────────────────────────────────────────────────────────────
+
+interface CachedDepth {
+  book: OrderBook;
+  metrics: OrderBookDepthMetrics;
+}
+
+class OrderBookDepthServiceClass {
+  private cache = new Map<string, CachedDepth>();
+  private pending = new Map<string, Promise<CachedDepth | null>>();
+  private lastSnapshotAt = new Map<string, number>();
+  private lastCleanupAt = 0;
+  private counters = { fetches: 0, errors: 0, snapshots: 0 };
+
+  /**
+   * Métricas de profundidad del par (caché de `maxAgeMs`).
+   * Con `reason`, registra un snapshot de auditoría (throttled).
+   */
+  async getDepth(
+    pair: string,
+    opts: { maxAgeMs?: number; reason?: DepthSnapshotReason } = {},
+  ): Promise<OrderBookDepthMetrics | null> {
+    const entry = await this.resolve(pair, opts.maxAgeMs ?? DEFAULT_MAX_AGE_MS);
+    if (!entry) return null;
+    if (opts.reason) this.persistSnapshot(entry, opts.reason).catch(() => {});
+    return entry.metrics;
+  }
+
+  /** Imbalance −1..1 en ±25 bps (SmartExit: < −0.3 = presión vendedora). */
+  async getOrderbookBias(pair: string): Promise<number | null> {
+    const metrics = await this.getDepth(pair, { reason: "SMART_EXIT" });
+    return metrics ? metrics.orderbookBias : null;
+  }
+
+  /** Slippage estimado para un nocional concreto a mercado. */
+  async estimateSlippage(
+    pair: string,
+    side: "buy" | "sell",
+    notionalUsd: number,
+    reason?: DepthSnapshotReason,
+  ): Promise<SlippageEstimate | null> {
+    if (!(notionalUsd > 0)) return null;
+    const entry = await this.resolve(pair, DEFAULT_MAX_AGE_MS);
+    if (!entry) return null;
+    if (reason) this.persistSnapshot(entry, reason).catch(() => {});
+    return estimateSlippage(entry.book, side, notionalUsd);
+  }
+
+  getCachedDepth(pair: string): OrderBookDepthMetrics | null {
+    return this.cache.get(pair)?.metrics ?? null;
+  }
+
+  getStatus() {
+    return {
+      enabled: isOrderBookDepthEnabled(),
+      referenceNotionalUsd: getReferenceNotionalUsd(),
+      cachedPairs: Array.from(this.cache.keys()),
+      ...this.counters,
+    };
+  }
+
+  async getRecentSnapshots(pair?: string, limit = 50): Promise<any[]> {
+    const n = Math.min(Math.max(1, limit), 500);
+    const result = pair
+      ? await db.execute(sql`
+          SELECT * FROM orderbook_depth_snapshots WHERE pair = ${pair}
+          ORDER BY captured_at DESC LIMIT ${n}
+        `)
+      : await db.execute(sql`
+          SELECT * FROM orderbook_depth_snapshots ORDER BY captured_at DESC LIMIT ${n}
+        `);
+    return result.rows as any[];
+  }
+
+  clearAll(): void {
+    this.cache.clear();
+    this.pending.clear();
+    this.lastSnapshotAt.clear();
+    this.counters = { fetches: 0, errors: 0, snapshots: 0 };
+  }
+
+  // ── Internals ─────────────────────────────────────────────────
+
+  private async resolve(pair: string, maxAgeMs: number): Promise<CachedDepth | null> {
+    if (!isOrderBookDepthEnabled()) return null;
+
+    const cached = this.cache.get(pair);
+    if (cached && Date.now() - cached.metrics.fetchedAt < maxAgeMs) return cached;
+
+    // During FISCO rebuild: stale cache only, no Kraken calls
+    if (isFiscoRebuildActive()) return cached ?? null;
+
+    const pending = this.pending.get(pair);
+    if (pending) return pending;
+
+    const fetch = (async (): Promise<CachedDepth | null> => {
+      try {
+        const exchange = ExchangeFactory.getDataExchange();
+        if (!exchange.isInitialized() || !exchange.getOrderBook) return cached ?? null;
+        this.counters.fetches++;
+        const book = await exchange.getOrderBook(pair, BOOK_LEVELS);
+        const metrics = computeDepthMetrics(pair, ExchangeFactory.getDataExchangeType(), book);
+        if (!metrics) return cached ?? null;
+        const entry = { book, metrics };
+        this.cache.set(pair, entry);
+        return entry;
+      } catch (e: any) {
+        this.counters.errors++;
+        console.warn(`[OrderBookDepth] getOrderBook(${pair}) error: ${e?.message}`);
+        return cached ?? null;
+      }
+    })();
+
+    this.pending.set(pair, fetch);
+    fetch.finally(() => this.pending.delete(pair));
+    return fetch;
+  }
+
+  private async persistSnapshot(entry: CachedDepth, reason: DepthSnapshotReason): Promise<void> {
+    const { metrics, book } = entry;
+    const key = `${metrics.pair}::${reason}`;
+    const last = this.lastSnapshotAt.get(key) ?? 0;
+    if (Date.now() - last < SNAPSHOT_INTERVAL_MS) return;
+    this.lastSnapshotAt.set(key, Date.now());
+
+    try {
+      await db.execute(sql`
+        INSERT INTO orderbook_depth_snapshots (
+          pair, exchange, reason, best_bid, best_ask, mid, spread_bps,
+          orderbook_bias, bands, slippage, top_levels, book_ts
+        ) VALUES (
+          ${metrics.pair}, ${metrics.exchange}, ${reason}, ${metrics.bestBid}, ${metrics.bestAsk},
+          ${metrics.mid}, ${metrics.spreadBps}, ${metrics.orderbookBias},
+          ${JSON.stringify(metrics.bands)}::jsonb, ${JSON.stringify(metrics.slippage)}::jsonb,
+          ${JSON.stringify({ bids: book.bids.slice(0, SNAPSHOT_LEVELS), asks: book.asks.slice(0, SNAPSHOT_LEVELS) })}::jsonb,
+          ${new Date(metrics.fetchedAt)}
+        )
+      `);
+      this.counters.snapshots++;
+      await this.cleanupOldSnapshots();
+    } catch (e: any) {
+      console.warn(`[OrderBookDepth] snapshot ${key} failed: ${e?.message}`);
+    }
+  }
+
+  private async cleanupOldSnapshots(): Promise<void> {
+    if (Date.now() - this.lastCleanupAt < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanupAt = Date.now();
+    await db.execute(sql`
+      DELETE FROM orderbook_depth_snapshots
+      WHERE captured_at < NOW() - (${SNAPSHOT_RETENTION_DAYS} * INTERVAL '1 day')
+    `);
+  }
+}
+
+export const OrderBookDepthService = new OrderBookDepthServiceClass();
@@ -0,0 +1,288 @@
+/**
+ * appMetrics — métricas del bot sobre metricsRegistry, expuestas en GET /api/metrics.
+ *
+ * Instrumentación en caliente (se actualiza en el propio flujo):
+ *   trading_engine_tick_duration_seconds{engine}      spot | idca | grid | ama
+ *   trading_engine_tick_errors{engine}
+ *   trading_exchange_orders{exchange,side,outcome}    success | rejected | error
+ *   trading_alert_deliveries{transport,status}        telegram + canales externos
+ *   trading_portfolio_reconciliation_*                tras cada reconciliación global
+ *
+ * Collectors de scrape (se leen de otros servicios al pedir /api/metrics):
+ *   posiciones Spot abiertas, ciclos activos por motor/modo/estado,
+ *   cola del rate limiter de Kraken, caché de MarketDataService,
+ *   pool de PostgreSQL + latencia de un SELECT 1, memoria del proceso.
+ *
+ * Los collectors importan sus dependencias de forma dinámica para que este
+ * módulo pueda importarse desde los motores sin crear ciclos.
+ */
+
+import { metricsRegistry, type MetricsRegistry } from "./metricsRegistry";
+import type { OrderResult } from "../exchanges/IExchangeService";
+import type { ReconciliationReport } from "../portfolio/PortfolioReconciliationService";
+
+export type EngineName = "spot" | "idca" | "grid" | "ama";
+
+const TICK_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+// ─── Motores ───────────────────────────────────────────────────────
+
+export const engineTickDuration = metricsRegistry.histogram({
+  name: "trading_engine_tick_duration_seconds",
+  help: "Duración de cada tick de los motores de trading",
+  labelNames: ["engine"],
+  buckets: TICK_BUCKETS,
+});
+
+export const engineTickErrors = metricsRegistry.counter({
+  name: "trading_engine_tick_errors",
+  help: "Ticks de motor que terminaron lanzando una excepción",
+  labelNames: ["engine"],
+});
+
+export const engineLastTick = metricsRegistry.gauge({
+  name: "trading_engine_last_tick_timestamp_seconds",
+  help: "Momento (epoch) en que terminó el último tick de cada motor",
+  labelNames: ["engine"],
+});
+
+/** Mide un tick de motor; los errores se cuentan y se relanzan al llamador. */
+export async function observeEngineTick<T>(engine: EngineName, tick: () => Promise<T>): Promise<T> {
+  const stop = engineTickDuration.startTimer({ engine });
+  try {
+    return await tick();
+  } catch (err) {
+    engineTickErrors.inc({ engine });
+    throw err;
+  } finally {
+    stop();
+    engineLastTick.set({ engine }, Date.now() / 1000);
+  }
+}
+
+// ─── Órdenes por exchange ──────────────────────────────────────────
+
+export const exchangeOrders = metricsRegistry.counter({
+  name: "trading_exchange_orders",
+  help: "Órdenes enviadas al exchange por resultado (rejected = respuesta sin éxito, error = excepción)",
+  labelNames: ["exchange", "side", "outcome"],
+});
+
+/** Cuenta el resultado de un placeOrder sin alterarlo. */
+export async function observeOrder(exchange: string, side: string, place: () => Promise<OrderResult>): Promise<OrderResult> {
+  try {
+    const result = await place();
+    exchangeOrders.inc({ exchange, side, outcome: result.success ? "success" : "rejected" });
+    return result;
+  } catch (err) {
+    exchangeOrders.inc({ exchange, side, outcome: "error" });
+    throw err;
+  }
+}
+
+// ─── Alertas ───────────────────────────────────────────────────────
+
+export const alertDeliveries = metricsRegistry.counter({
+  name: "trading_alert_deliveries",
+  help: "Alertas auditadas por transporte y estado (sent, failed_send, blocked_by_*)",
+  labelNames: ["transport", "status"],
+});
+
+export function recordAlertDelivery(transport: string, status: string): void {
+  alertDeliveries.inc({ transport, status });
+}
+
+// ─── Reconciliación de cartera ─────────────────────────────────────
+
+export const reconciliationDrift = metricsRegistry.gauge({
+  name: "trading_portfolio_reconciliation_drift",
+  help: "Diferencia efectiva (saldo físico - atribuido - órdenes abiertas) por exchange y asset, en unidades del asset",
+  labelNames: ["exchange", "asset"],
+});
+
+export const reconciliationDiscrepancies = metricsRegistry.gauge({
+  name: "trading_portfolio_reconciliation_discrepancies",
+  help: "Pares exchange/asset en DISCREPANCY_DETECTED en la última reconciliación",
+});
+
+export const reconciliationLastRun = metricsRegistry.gauge({
+  name: "trading_portfolio_reconciliation_last_run_timestamp_seconds",
+  help: "Momento (epoch) de la última reconciliación global",
+});
+
+export function recordReconciliation(report: ReconciliationReport): void {
+  reconciliationDrift.reset();
+  for (const r of report.results) {
+    reconciliationDrift.set({ exchange: r.exchange, asset: r.asset }, r.effectiveDifference);
+  }
+  reconciliationDiscrepancies.set({}, report.criticalDiscrepancies.length);
+  reconciliationLastRun.set({}, Date.parse(report.generatedAt) / 1000);
+}
+
+// ─── Collectors de scrape ──────────────────────────────────────────
+
+const openPositions = metricsRegistry.gauge({
+  name: "trading_open_positions",
+  help: "Lotes Spot abiertos por exchange",
+  labelNames: ["exchange"],
+});
+
+const activeCycles = metricsRegistry.gauge({
+  name: "trading_active_cycles",
+  help: "Ciclos no cerrados por motor, modo y estado",
+  labelNames: ["engine", "mode", "status"],
+});
+
+const rateLimiterQueue = metricsRegistry.gauge({
+  name: "trading_kraken_rate_limiter_queue_length",
+  help: "Llamadas a Kraken esperando turno en el rate limiter",
+});
+
+const rateLimiterRunning = metricsRegistry.gauge({
+  name: "trading_kraken_rate_limiter_running",
+  help: "Llamadas a Kraken en curso",
+});
+
+const rateLimiterDegraded = metricsRegistry.gauge({
+  name: "trading_kraken_rate_limiter_degraded",
+  help: "1 si el rate limiter de Kraken está en estado degradado",
+});
+
+const rateLimiterCalls = metricsRegistry.counter({
+  name: "trading_kraken_rate_limiter_calls",
+  help: "Llamadas a Kraken pasadas por el rate limiter desde el arranque",
+});
+
+const rateLimiterErrors = metricsRegistry.counter({
+  name: "trading_kraken_rate_limiter_errors",
+  help: "Llamadas a Kraken que fallaron desde el arranque",
+});
+
+const marketDataCacheRequests = metricsRegistry.counter({
+  name: "trading_market_data_cache_requests",
+  help: "Consultas a la caché de MarketDataService por resultado (hit | miss)",
+  labelNames: ["result"],
+});
+
+const marketDataCacheHitRatio = metricsRegistry.gauge({
+  name: "trading_market_data_cache_hit_ratio",
+  help: "hits / (hits + misses) de MarketDataService desde el arranque",
+});
+
+const marketDataCacheEntries = metricsRegistry.gauge({
+  name: "trading_market_data_cache_entries",
+  help: "Entradas en caché de MarketDataService por tipo",
+  labelNames: ["cache"],
+});
+
+const dbPoolConnections = metricsRegistry.gauge({
+  name: "trading_db_pool_connections",
+  help: "Conexiones del pool de PostgreSQL por estado (total | idle | waiting)",
+  labelNames: ["state"],
+});
+
+const dbUp = metricsRegistry.gauge({
+  name: "trading_db_up",
+  help: "1 si el SELECT 1 de salud respondió",
+});
+
+const dbPingSeconds = metricsRegistry.gauge({
+  name: "trading_db_ping_seconds",
+  help: "Latencia del SELECT 1 de salud",
+});
+
+const processMemory = metricsRegistry.gauge({
+  name: "trading_process_memory_bytes",
+  help: "Memoria del proceso Node por tipo",
+  labelNames: ["type"],
+});
+
+const processUptime = metricsRegistry.gauge({
+  name: "trading_process_uptime_seconds",
+  help: "Segundos desde el arranque del proceso",
+});
+
+const IDCA_CYCLES_SQL = `
+  SELECT mode, status, COUNT(*)::int AS n
+    FROM institutional_dca_cycles
+   WHERE status <> 'closed'
+   GROUP BY mode, status`;
+
+const GRID_CYCLES_SQL = `
+  SELECT COALESCE((SELECT c.mode FROM grid_isolated_configs c WHERE c.pair = g.pair ORDER BY c.id DESC LIMIT 1), 'unknown') AS mode,
+         g.status, COUNT(*)::int AS n
+    FROM grid_isolated_cycles g
+   WHERE g.status NOT IN ('completed', 'stop_loss_hit', 'trailing_closed', 'cancelled')
+   GROUP BY 1, 2`;
+
+const AMA_CYCLES_SQL = `
+  SELECT mode, state AS status, COUNT(*)::int AS n
+    FROM ama_cycles
+   WHERE closed_at IS NULL
+   GROUP BY mode, state`;
+
+function registerAppCollectors(registry: MetricsRegistry): void {
+  registry.registerCollector("positions_and_cycles", async () => {
+    const { pool } = await import("../../db");
+    const [spot, idca, grid, ama] = await Promise.all([
+      pool.query(`SELECT exchange, COUNT(*)::int AS n FROM open_positions GROUP BY exchange`),
+      pool.query(IDCA_CYCLES_SQL),
+      pool.query(GRID_CYCLES_SQL),
+      pool.query(AMA_CYCLES_SQL),
+    ]);
+    openPositions.reset();
+    for (const row of spot.rows) openPositions.set({ exchange: row.exchange }, row.n);
+    activeCycles.reset();
+    for (const [engine, res] of [["idca", idca], ["grid", grid], ["ama", ama]] as const) {
+      for (const row of res.rows) activeCycles.set({ engine, mode: row.mode, status: row.status }, row.n);
+    }
+  });
+
+  registry.registerCollector("kraken_rate_limiter", async () => {
+    const { krakenRateLimiter } = await import("../../utils/krakenRateLimiter");
+    const state = krakenRateLimiter.getState();
+    rateLimiterQueue.set({}, state.queueLength);
+    rateLimiterRunning.set({}, state.running);
+    rateLimiterDegraded.set({}, state.degraded ? 1 : 0);
+    rateLimiterCalls.setTotal({}, state.totalCalls);
+    rateLimiterErrors.setTotal({}, state.totalErrors);
+  });
+
+  registry.registerCollector("market_data_cache", async () => {
+    const { MarketDataService } = await import("../MarketDataService");
+    const stats = MarketDataService.getStats();
+    marketDataCacheRequests.setTotal({ result: "hit" }, stats.hits);
+    marketDataCacheRequests.setTotal({ result: "miss" }, stats.misses);
+    const lookups = stats.hits + stats.misses;
+    marketDataCacheHitRatio.set({}, lookups > 0 ? stats.hits / lookups : 0);
+    marketDataCacheEntries.set({ cache: "candles" }, stats.candleCacheSize);
+    marketDataCacheEntries.set({ cache: "prices" }, stats.priceCacheSize);
+  });
+
+  registry.registerCollector("db", async () => {
+    const { pool } = await import("../../db");
+    dbPoolConnections.set({ state: "total" }, pool.totalCount);
+    dbPoolConnections.set({ state: "idle" }, pool.idleCount);
+    dbPoolConnections.set({ state: "waiting" }, pool.waitingCount);
+    const start = process.hrtime.bigint();
+    try {
+      await pool.query("SELECT 1");
+      dbUp.set({}, 1);
+      dbPingSeconds.set({}, Number(process.hrtime.bigint() - start) / 1e9);
+    } catch (err) {
+      dbUp.set({}, 0);
+      throw err;
+    }
+  });
+
+  registry.registerCollector("process", () => {
+    const mem = process.memoryUsage();
+    processMemory.set({ type: "rss" }, mem.rss);
+    processMemory.set({ type: "heap_used" }, mem.heapUsed);
+    processMemory.set({ type: "heap_total" }, mem.heapTotal);
+    processMemory.set({ type: "external" }, mem.external);
+    processUptime.set({}, process.uptime());
+  });
+}
+
+registerAppCollectors(metricsRegistry);
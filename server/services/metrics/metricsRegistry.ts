@@ -0,0 +1,303 @@
+/**
+ * metricsRegistry — registro de métricas propio (sin dependencias) con
+ * exposición en OpenMetrics 1.0 y en el formato de texto clásico de
+ * Prometheus (0.0.4).
+ *
+ * Tipos soportados:
+ *   Counter    monotónico; la familia se nombra sin "_total" y la muestra lo añade
+ *   Gauge      valor instantáneo
+ *   Histogram  buckets acumulados + _sum + _count (segundos por convención)
+ *
+ * Los collectors registrados con registerCollector() se ejecutan en cada
+ * scrape antes de renderizar: sirven para gauges que se leen de otros
+ * servicios (cola del rate limiter, pool de BD, ciclos abiertos...). Un
+ * collector que falla o tarda más de COLLECTOR_TIMEOUT_MS no rompe el scrape.
+ */
+
+export type MetricsFormat = "openmetrics" | "prometheus";
+export type LabelValues = Record<string, string | number | boolean | undefined>;
+
+export const OPENMETRICS_CONTENT_TYPE = "application/openmetrics-text; version=1.0.0; charset=utf-8";
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const COLLECTOR_TIMEOUT_MS = 5_000;
+const METRIC_NAME_RE = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_RE = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export const DEFAULT_SECONDS_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+interface HistogramOptions extends MetricOptions {
+  buckets?: number[];
+}
+
+interface Sample {
+  suffix: string;
+  labels: [string, string][];
+  value: number;
+}
+
+export type MetricsCollector = () => void | Promise<void>;
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"");
+}
+
+function escapeHelp(help: string, format: MetricsFormat): string {
+  const escaped = help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+  return format === "openmetrics" ? escaped.replace(/"/g, "\\\"") : escaped;
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  constructor(opts: MetricOptions) {
+    if (!METRIC_NAME_RE.test(opts.name)) throw new Error(`Nombre de métrica inválido: ${opts.name}`);
+    for (const label of opts.labelNames ?? []) {
+      if (!LABEL_NAME_RE.test(label) || label.startsWith("__")) throw new Error(`Label inválido en ${opts.name}: ${label}`);
+    }
+    this.name = opts.name;
+    this.help = opts.help;
+    this.labelNames = opts.labelNames ?? [];
+  }
+
+  /** Clave estable del juego de labels; valida que coincida con labelNames. */
+  protected keyFor(labels: LabelValues = {}): string {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) throw new Error(`Label desconocido en ${this.name}: ${name}`);
+    }
+    return JSON.stringify(this.labelNames.map(name => String(labels[name] ?? "")));
+  }
+
+  protected labelPairs(key: string): [string, string][] {
+    const values = JSON.parse(key) as string[];
+    return this.labelNames.map((name, i) => [name, values[i]] as [string, string]);
+  }
+
+  abstract samples(format: MetricsFormat): Sample[];
+
+  /** Borra todas las series (los collectors lo usan antes de repoblar label sets variables). */
+  abstract reset(): void;
+
+  render(format: MetricsFormat): string {
+    const familyName = this.type === "counter" && format === "prometheus" ? `${this.name}_total` : this.name;
+    const lines = [
+      `# HELP ${familyName} ${escapeHelp(this.help, format)}`,
+      `# TYPE ${familyName} ${this.type}`,
+    ];
+    for (const sample of this.samples(format)) {
+      const labels = sample.labels.length > 0
+        ? `{${sample.labels.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(",")}}`
+        : "";
+      lines.push(`${this.name}${sample.suffix}${labels} ${formatValue(sample.value)}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = "counter" as const;
+  private values = new Map<string, number>();
+
+  constructor(opts: MetricOptions) {
+    super(opts);
+    if (opts.name.endsWith("_total")) throw new Error(`Los counters se nombran sin _total: ${opts.name}`);
+  }
+
+  inc(labels: LabelValues = {}, value = 1): void {
+    if (!(value >= 0)) throw new Error(`Un counter sólo puede crecer (${this.name}: ${value})`);
+    const key = this.keyFor(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  /**
+   * Fija el total de una serie mantenida fuera del registro (p.ej. los
+   * contadores hit/miss de MarketDataService, copiados en cada scrape).
+   */
+  setTotal(labels: LabelValues, value: number): void {
+    this.values.set(this.keyFor(labels), value);
+  }
+
+  get(labels: LabelValues = {}): number {
+    return this.values.get(this.keyFor(labels)) ?? 0;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  samples(): Sample[] {
+    return Array.from(this.values, ([key, value]) => ({ suffix: "_total", labels: this.labelPairs(key), value }));
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = "gauge" as const;
+  private values = new Map<string, number>();
+
+  set(labels: LabelValues, value: number): void {
+    this.values.set(this.keyFor(labels), value);
+  }
+
+  inc(labels: LabelValues = {}, value = 1): void {
+    const key = this.keyFor(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: LabelValues = {}): number | undefined {
+    return this.values.get(this.keyFor(labels));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  samples(): Sample[] {
+    return Array.from(this.values, ([key, value]) => ({ suffix: "", labels: this.labelPairs(key), value }));
+  }
+}
+
+interface HistogramSeries {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = "histogram" as const;
+  readonly buckets: number[];
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(opts: HistogramOptions) {
+    super(opts);
+    if (this.labelNames.includes("le")) throw new Error(`"le" está reservado en histogramas (${opts.name})`);
+    this.buckets = [...(opts.buckets ?? DEFAULT_SECONDS_BUCKETS)].filter(b => Number.isFinite(b)).sort((a, b) => a - b);
+  }
+
+  observe(labels: LabelValues, value: number): void {
+    if (!Number.isFinite(value)) return;
+    const key = this.keyFor(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) s.counts[i]++;
+    }
+    s.sum += value;
+    s.count++;
+  }
+
+  /** Arranca un cronómetro; la función devuelta registra y devuelve los segundos transcurridos. */
+  startTimer(labels: LabelValues = {}): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  getCount(labels: LabelValues = {}): number {
+    return this.series.get(this.keyFor(labels))?.count ?? 0;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  samples(): Sample[] {
+    const out: Sample[] = [];
+    for (const [key, s] of this.series) {
+      const labels = this.labelPairs(key);
+      this.buckets.forEach((bound, i) => {
+        out.push({ suffix: "_bucket", labels: [...labels, ["le", formatValue(bound)]], value: s.counts[i] });
+      });
+      out.push({ suffix: "_bucket", labels: [...labels, ["le", "+Inf"]], value: s.count });
+      out.push({ suffix: "_sum", labels, value: s.sum });
+      out.push({ suffix: "_count", labels, value: s.count });
+    }
+    return out;
+  }
+}
+
+/** Elige el formato según la cabecera Accept (Prometheus ≥2.5 pide OpenMetrics). */
+export function negotiateMetricsFormat(accept: string | undefined): MetricsFormat {
+  return accept && /application\/openmetrics-text/i.test(accept) ? "openmetrics" : "prometheus";
+}
+
+export function contentTypeFor(format: MetricsFormat): string {
+  return format === "openmetrics" ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE;
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectors: { name: string; fn: MetricsCollector }[] = [];
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) throw new Error(`Métrica duplicada: ${metric.name}`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(opts: MetricOptions): Counter {
+    return this.register(new Counter(opts));
+  }
+
+  gauge(opts: MetricOptions): Gauge {
+    return this.register(new Gauge(opts));
+  }
+
+  histogram(opts: HistogramOptions): Histogram {
+    return this.register(new Histogram(opts));
+  }
+
+  registerCollector(name: string, fn: MetricsCollector): void {
+    this.collectors.push({ name, fn });
+  }
+
+  /** Ejecuta los collectors en paralelo; devuelve los nombres de los que fallaron. */
+  async collect(): Promise<string[]> {
+    const results = await Promise.allSettled(this.collectors.map(({ fn }) => {
+      let timer: NodeJS.Timeout | undefined;
+      return Promise.race([
+        Promise.resolve().then(fn),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`timeout ${COLLECTOR_TIMEOUT_MS}ms`)), COLLECTOR_TIMEOUT_MS);
+        }),
+      ]).finally(() => clearTimeout(timer));
+    }));
+    const failed: string[] = [];
+    results.forEach((r, i) => {
+      if (r.status === "rejected") {
+        failed.push(this.collectors[i].name);
+        console.warn(`[metrics] Collector ${this.collectors[i].name} failed: ${r.reason?.message || r.reason}`);
+      }
+    });
+    return failed;
+  }
+
+  async render(format: MetricsFormat = "prometheus"): Promise<string> {
+    await this.collect();
+    const body = Array.from(this.metrics.values(), m => m.render(format)).join("\n");
+    return format === "openmetrics" ? `${body}\n# EOF\n` : `${body}\n`;
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
@@ -1,54 +1,190 @@
 #!/usr/bin/env python3
 """
 AI Filter Model Trainer for KrakenBot
-Uses RandomForest with walk-forward validation
+Uses RandomForest with walk-forward validation.
+
+Training only: the fitted forest is exported as a portable JSON tree ensemble
+(format tree_ensemble_v1) that server/services/ai/treeEnsemble.ts scores
+in-process. Python is not needed at runtime for predictions.
+
+Besides the pooled forest, per-pair / per-regime segment forests are trained
+when a segment has enough samples of both classes; the export also carries
+feature importances and out-of-fold calibration for each forest.
 """
 
 import sys
 import json
 import os
-import pickle
+from datetime import datetime, timezone
 
 MODEL_DIR = os.environ.get("AI_MODEL_DIR", "/tmp/models")
-MODEL_PATH = f"{MODEL_DIR}/ai_filter.joblib"
 STATUS_PATH = f"{MODEL_DIR}/ai_status.json"
 
+# Legacy base features — must match AI_BASE_FEATURES in server/services/ai/featureSet.ts.
+# Feature store samples send their own (versioned) order in the "features" key.
+FEATURE_ORDER = [
+    "rsi14", "macdLine", "macdSignal", "macdHist",
+    "bbUpper", "bbMiddle", "bbLower", "atr14",
+    "ema12", "ema26", "volume24hChange",
+    "priceChange1h", "priceChange4h", "priceChange24h",
+    "spreadPct", "confidence",
+]
+FEATURE_DEFAULTS = {"rsi14": 50, "confidence": 50}
+
+FOREST_PARAMS = dict(
+    n_estimators=100,
+    max_depth=10,
+    min_samples_split=5,
+    min_samples_leaf=2,
+    random_state=42,
+    class_weight='balanced',
+)
+
+MIN_POOLED_SAMPLES = 50
+CALIBRATION_BINS = 5
+
 def ensure_model_dir():
     if not os.path.exists(MODEL_DIR):
         os.makedirs(MODEL_DIR, exist_ok=True)
 
-def extract_features_from_sample(sample):
+def extract_features_from_sample(sample, feature_order):
     """Extract feature vector from a sample's featuresJson"""
     features = sample.get("featuresJson", {})
     if isinstance(features, str):
         features = json.loads(features)
-    
-    return [
-        float(features.get("rsi14", 50)),
-        float(features.get("macdLine", 0)),
-        float(features.get("macdSignal", 0)),
-        float(features.get("macdHist", 0)),
-        float(features.get("bbUpper", 0)),
-        float(features.get("bbMiddle", 0)),
-        float(features.get("bbLower", 0)),
-        float(features.get("atr14", 0)),
-        float(features.get("ema12", 0)),
-        float(features.get("ema26", 0)),
-        float(features.get("volume24hChange", 0)),
-        float(features.get("priceChange1h", 0)),
-        float(features.get("priceChange4h", 0)),
-        float(features.get("priceChange24h", 0)),
-        float(features.get("spreadPct", 0)),
-        float(features.get("confidence", 50)),
-    ]
-
-def train(samples_path):
-    """Train RandomForest model on samples"""
+
+    return [float(features.get(name, FEATURE_DEFAULTS.get(name, 0))) for name in feature_order]
+
+def win_proba(model, X):
+    """P(class 1) — 0 when the fold never saw a win"""
+    classes = [int(c) for c in model.classes_]
+    if 1 not in classes:
+        return [0.0] * len(X)
+    return model.predict_proba(X)[:, classes.index(1)]
+
+def export_trees(model):
+    """RandomForestClassifier -> list of flat trees with per-node P(win)"""
+    classes = [int(c) for c in model.classes_]
+    win_idx = classes.index(1) if 1 in classes else None
+    trees = []
+    for est in model.estimators_:
+        t = est.tree_
+        value = t.value[:, 0, :]
+        totals = value.sum(axis=1)
+        proba = [
+            float(value[i, win_idx] / totals[i]) if win_idx is not None and totals[i] > 0 else 0.0
+            for i in range(t.node_count)
+        ]
+        trees.append({
+            "feature": [int(f) for f in t.feature],
+            "threshold": [float(v) for v in t.threshold],
+            "left": [int(c) for c in t.children_left],
+            "right": [int(c) for c in t.children_right],
+            "value": proba,
+        })
+    return trees
+
+def calibration_report(y_true, y_proba):
+    """Brier score + reliability bins over out-of-fold predictions"""
+    bins = []
+    for b in range(CALIBRATION_BINS):
+        lo = b / CALIBRATION_BINS
+        hi = (b + 1) / CALIBRATION_BINS
+        idx = [i for i, p in enumerate(y_proba) if lo <= p < hi or (b == CALIBRATION_BINS - 1 and p == 1.0)]
+        bins.append({
+            "lo": lo,
+            "hi": hi,
+            "count": len(idx),
+            "meanPredicted": float(sum(y_proba[i] for i in idx) / len(idx)) if idx else None,
+            "winRate": float(sum(y_true[i] for i in idx) / len(idx)) if idx else None,
+        })
+    n = len(y_true)
+    brier = float(sum((y_proba[i] - y_true[i]) ** 2 for i in range(n)) / n) if n else 0.0
+    return {"brier": brier, "bins": bins}
+
+def fit_forest(X, y, feature_order):
+    """Walk-forward metrics + calibration, then a final fit on all samples"""
+    from sklearn.ensemble import RandomForestClassifier
+    from sklearn.model_selection import TimeSeriesSplit
+    from sklearn.metrics import accuracy_score, precision_score, recall_score, f1_score
+    import numpy as np
+
+    tscv = TimeSeriesSplit(n_splits=max(2, min(5, len(X) // 20)))
+
+    accuracies = []
+    precisions = []
+    recalls = []
+    f1s = []
+    oof_true = []
+    oof_proba = []
+
+    for train_idx, test_idx in tscv.split(X):
+        X_train, X_test = X[train_idx], X[test_idx]
+        y_train, y_test = y[train_idx], y[test_idx]
+
+        model = RandomForestClassifier(**FOREST_PARAMS)
+        model.fit(X_train, y_train)
+        y_pred = model.predict(X_test)
+
+        accuracies.append(accuracy_score(y_test, y_pred))
+        precisions.append(precision_score(y_test, y_pred, zero_division=0))
+        recalls.append(recall_score(y_test, y_pred, zero_division=0))
+        f1s.append(f1_score(y_test, y_pred, zero_division=0))
+        oof_true.extend(int(v) for v in y_test)
+        oof_proba.extend(float(p) for p in win_proba(model, X_test))
+
+    final_model = RandomForestClassifier(**FOREST_PARAMS)
+    final_model.fit(X, y)
+
+    metrics = {
+        "accuracy": float(np.mean(accuracies)),
+        "precision": float(np.mean(precisions)),
+        "recall": float(np.mean(recalls)),
+        "f1": float(np.mean(f1s)),
+        "nSamples": int(len(y)),
+        "winRate": float(np.mean(y)),
+    }
+    importance = {
+        name: round(float(v), 6)
+        for name, v in zip(feature_order, final_model.feature_importances_)
+    }
+    return final_model, metrics, calibration_report(oof_true, oof_proba), importance
+
+def segment_groups(samples, min_samples, min_class):
+    """pair|regime, pair|* and *|regime groups with enough data of both classes"""
+    groups = {}
+    for i, s in enumerate(samples):
+        pair = s.get("pair") or None
+        regime = s.get("regime") or None
+        if pair and regime:
+            groups.setdefault((pair, regime), []).append(i)
+        if pair:
+            groups.setdefault((pair, None), []).append(i)
+        if regime:
+            groups.setdefault((None, regime), []).append(i)
+
+    total = len(samples)
+    selected = []
+    for (pair, regime), idx in groups.items():
+        if len(idx) < min_samples:
+            continue
+        wins = sum(int(samples[i]["labelWin"]) for i in idx)
+        if min(wins, len(idx) - wins) < min_class:
+            continue
+        # A group identical to its parent would just duplicate that forest
+        if regime is not None and pair is not None and len(idx) == len(groups[(pair, None)]):
+            continue
+        if len(idx) == total:
+            continue
+        selected.append((pair, regime, idx))
+    selected.sort(key=lambda g: (g[0] or "~", g[1] or ""))
+    return selected
+
+def train(samples_path, out_path, version):
+    """Train pooled + segment RandomForests on samples and export them to out_path as JSON"""
     try:
-        from sklearn.ensemble import RandomForestClassifier
-        from sklearn.model_selection import TimeSeriesSplit
-        from sklearn.metrics import accuracy_score, precision_score, recall_score, f1_score
         import numpy as np
+        import sklearn  # noqa: F401
     except ImportError:
         print(json.dumps({"success": False, "error": "sklearn not installed"}))
         sys.exit(1)
@@ -59,142 +195,97 @@ def train(samples_path):
         raw = json.load(f)
     
     # Support both {train:[...], val:[...]} (new TS format) and flat array (legacy)
+    options = {}
     if isinstance(raw, dict):
         samples = raw.get("train", []) + raw.get("val", [])
+        options = raw
     elif isinstance(raw, list):
         samples = raw
     else:
         print(json.dumps({"success": False, "error": "Unexpected samples format"}))
         sys.exit(1)
     
-    complete_samples = [s for s in samples if s.get("labelWin") is not None]
-    
-    if len(complete_samples) < 50:
-        print(json.dumps({"success": False, "error": f"Not enough samples: {len(complete_samples)}"}))
-        sys.exit(1)
+    feature_order = options.get("features") or FEATURE_ORDER
+    segment_min_samples = int(options.get("segmentMinSamples", 0) or 0)
+    segment_min_class = int(options.get("segmentMinClass", 0) or 0)
     
+    complete_samples = []
     X = []
     y = []
     
-    for sample in complete_samples:
+    for sample in samples:
+        if sample.get("labelWin") is None:
+            continue
         try:
-            features = extract_features_from_sample(sample)
+            features = extract_features_from_sample(sample, feature_order)
             label = int(sample["labelWin"])
-            X.append(features)
-            y.append(label)
-        except Exception as e:
+        except Exception:
             continue
+        complete_samples.append(sample)
+        X.append(features)
+        y.append(label)
+    
+    if len(complete_samples) < MIN_POOLED_SAMPLES:
+        print(json.dumps({"success": False, "error": f"Not enough samples: {len(complete_samples)}"}))
+        sys.exit(1)
     
     X = np.array(X)
     y = np.array(y)
     
-    tscv = TimeSeriesSplit(n_splits=min(5, len(X) // 20))
-    
-    accuracies = []
-    precisions = []
-    recalls = []
-    f1s = []
-    
-    for train_idx, test_idx in tscv.split(X):
-        X_train, X_test = X[train_idx], X[test_idx]
-        y_train, y_test = y[train_idx], y[test_idx]
-        
-        model = RandomForestClassifier(
-            n_estimators=100,
-            max_depth=10,
-            min_samples_split=5,
-            min_samples_leaf=2,
-            random_state=42,
-            class_weight='balanced'
-        )
-        
-        model.fit(X_train, y_train)
-        y_pred = model.predict(X_test)
-        
-        accuracies.append(accuracy_score(y_test, y_pred))
-        precisions.append(precision_score(y_test, y_pred, zero_division=0))
-        recalls.append(recall_score(y_test, y_pred, zero_division=0))
-        f1s.append(f1_score(y_test, y_pred, zero_division=0))
-    
-    final_model = RandomForestClassifier(
-        n_estimators=100,
-        max_depth=10,
-        min_samples_split=5,
-        min_samples_leaf=2,
-        random_state=42,
-        class_weight='balanced'
-    )
-    final_model.fit(X, y)
+    pooled_model, metrics, calibration, importance = fit_forest(X, y, feature_order)
+    metrics["trainedAt"] = datetime.now(timezone.utc).strftime("%Y-%m-%dT%H:%M:%SZ")
+    metrics["modelVersion"] = version
     
-    with open(MODEL_PATH, 'wb') as f:
-        pickle.dump(final_model, f)
+    segments = []
+    if segment_min_samples > 0:
+        for pair, regime, idx in segment_groups(complete_samples, segment_min_samples, segment_min_class):
+            seg_model, seg_metrics, seg_calibration, seg_importance = fit_forest(X[idx], y[idx], feature_order)
+            segments.append({
+                "key": f"{pair or '*'}|{regime or '*'}",
+                "pair": pair,
+                "regime": regime,
+                "trees": export_trees(seg_model),
+                "metrics": seg_metrics,
+                "calibration": seg_calibration,
+                "featureImportance": seg_importance,
+            })
+    metrics["segments"] = len(segments)
     
-    metrics = {
-        "accuracy": float(np.mean(accuracies)),
-        "precision": float(np.mean(precisions)),
-        "recall": float(np.mean(recalls)),
-        "f1": float(np.mean(f1s)),
-        "nSamples": len(complete_samples),
-        "trainedAt": str(os.popen('date -u +"%Y-%m-%dT%H:%M:%SZ"').read().strip())
+    exported = {
+        "format": "tree_ensemble_v1",
+        "version": version,
+        "createdAt": metrics["trainedAt"],
+        "features": list(feature_order),
+        "trees": export_trees(pooled_model),
+        "metrics": metrics,
+        "calibration": calibration,
+        "featureImportance": importance,
+        "segments": segments,
+        "params": dict(FOREST_PARAMS, segmentMinSamples=segment_min_samples, segmentMinClass=segment_min_class),
     }
+    if options.get("featureSetVersion"):
+        exported["featureSetVersion"] = options["featureSetVersion"]
+    
+    # Write to a temp file first so a half-written model is never picked up
+    tmp_path = f"{out_path}.tmp"
+    with open(tmp_path, 'w') as f:
+        json.dump(exported, f)
+    os.replace(tmp_path, out_path)
     
     with open(STATUS_PATH, 'w') as f:
         json.dump(metrics, f, indent=2)
     
     print(json.dumps({"success": True, "metrics": metrics}))
 
-def predict(features_json):
-    """Predict approval probability for given features"""
-    ensure_model_dir()
-    
-    if not os.path.exists(MODEL_PATH):
-        print(json.dumps({"score": 0.5, "error": "Model not found"}))
-        return
-    
-    try:
-        with open(MODEL_PATH, 'rb') as f:
-            model = pickle.load(f)
-        
-        features = json.loads(features_json)
-        
-        X = [[
-            float(features.get("rsi14", 50)),
-            float(features.get("macdLine", 0)),
-            float(features.get("macdSignal", 0)),
-            float(features.get("macdHist", 0)),
-            float(features.get("bbUpper", 0)),
-            float(features.get("bbMiddle", 0)),
-            float(features.get("bbLower", 0)),
-            float(features.get("atr14", 0)),
-            float(features.get("ema12", 0)),
-            float(features.get("ema26", 0)),
-            float(features.get("volume24hChange", 0)),
-            float(features.get("priceChange1h", 0)),
-            float(features.get("priceChange4h", 0)),
-            float(features.get("priceChange24h", 0)),
-            float(features.get("spreadPct", 0)),
-            float(features.get("confidence", 50)),
-        ]]
-        
-        proba = model.predict_proba(X)[0]
-        score = float(proba[1]) if len(proba) > 1 else 0.5
-        
-        print(json.dumps({"score": score}))
-        
-    except Exception as e:
-        print(json.dumps({"score": 0.5, "error": str(e)}))
-
 if __name__ == "__main__":
     if len(sys.argv) < 2:
-        print(json.dumps({"error": "Usage: mlTrainer.py <train|predict> <arg>"}))
+        print(json.dumps({"error": "Usage: mlTrainer.py train <samples.json> <model.json> <version>"}))
         sys.exit(1)
     
     command = sys.argv[1]
     
-    if command == "train" and len(sys.argv) >= 3:
-        train(sys.argv[2])
-    elif command == "predict" and len(sys.argv) >= 3:
-        predict(sys.argv[2])
+    if command == "train" and len(sys.argv) >= 5:
+        train(sys.argv[2], sys.argv[3], sys.argv[4])
     else:
         print(json.dumps({"error": f"Unknown command: {command}"}))
         sys.exit(1)
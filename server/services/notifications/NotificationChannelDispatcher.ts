@@ -0,0 +1,205 @@
+/**
+ * NotificationChannelDispatcher — reparto de alertas a canales no-Telegram.
+ *
+ * TelegramNotificationCenter.send() lo invoca una vez superados los filtros
+ * comunes (kill switch, silent mode, severidad, quiet hours, regla, dedupe,
+ * rate limit). Cada canal de notification_channels decide por sí mismo:
+ *   - is_active
+ *   - enabled_modes (AlertMode; vacío = todos)
+ *   - min_severity
+ *   - only_on_telegram_failure: canal de respaldo, sólo si Telegram no entregó
+ *
+ * Cada entrega (sent / failed_send) se audita en telegram_alert_events con
+ * transport = tipo de canal. Nunca lanza: un canal caído no afecta a los demás
+ * ni al llamador.
+ */
+
+import { storage } from "../../storage";
+import { log } from "../../utils/logger";
+import { NOTIFICATION_CHANNEL_TYPES, type NotificationChannel, type NotificationChannelType } from "@shared/schema";
+import type { AlertSeverity, NormalizedAlert } from "../TelegramNotificationCenter";
+import { sendSmtpMail } from "./smtpClient";
+import { recordAlertDelivery } from "../metrics/appMetrics";
+import {
+  NOTIFICATION_TRANSPORTS,
+  htmlToPlainText,
+  type NotificationPayload,
+  type TransportDeps,
+} from "./notificationTransports";
+
+const SEVERITY_LEVELS: Record<string, number> = { LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 };
+const SECRET_MASK = "••••";
+const CHANNEL_CACHE_MS = 30_000;
+
+export interface DispatchContext {
+  environment: string;
+  telegramDelivered: boolean;
+}
+
+export function isNotificationChannelType(type: unknown): type is NotificationChannelType {
+  return NOTIFICATION_CHANNEL_TYPES.includes(type as NotificationChannelType);
+}
+
+export function buildNotificationPayload(alert: NormalizedAlert, environment: string, now: Date = new Date()): NotificationPayload {
+  const severity = alert.severity || "LOW";
+  return {
+    title: `[${environment}] ${severity} · ${alert.sourceModule}${alert.pair ? ` ${alert.pair}` : ""} · ${alert.alertType}`,
+    text: htmlToPlainText(alert.message),
+    html: alert.message,
+    severity,
+    environment,
+    sourceModule: alert.sourceModule,
+    mode: alert.mode,
+    alertType: alert.alertType,
+    pair: alert.pair,
+    cycleId: alert.cycleId,
+    timestamp: now.toISOString(),
+  };
+}
+
+export function channelAcceptsAlert(channel: NotificationChannel, alert: NormalizedAlert, telegramDelivered: boolean): boolean {
+  if (!channel.isActive || !isNotificationChannelType(channel.type)) return false;
+  if (channel.onlyOnTelegramFailure && telegramDelivered) return false;
+  const modes = channel.enabledModes ?? [];
+  if (modes.length > 0 && !modes.some(m => m.toLowerCase() === alert.mode)) return false;
+  const severity: AlertSeverity = alert.severity || "LOW";
+  return (SEVERITY_LEVELS[severity] ?? 1) >= (SEVERITY_LEVELS[channel.minSeverity] ?? 1);
+}
+
+/** Claves obligatorias de config_json que faltan para el tipo de canal. */
+export function missingConfigKeys(type: NotificationChannelType, config: Record<string, any>): string[] {
+  return NOTIFICATION_TRANSPORTS[type].required.filter(k => config[k] === undefined || config[k] === null || String(config[k]).trim() === "");
+}
+
+/** Config apta para la UI: los secretos se sustituyen por "••••" + 4 últimos caracteres. */
+export function maskChannelConfig(type: string, config: Record<string, any>): Record<string, any> {
+  if (!isNotificationChannelType(type)) return {};
+  const masked = { ...config };
+  for (const key of NOTIFICATION_TRANSPORTS[type].secrets) {
+    if (masked[key]) masked[key] = `${SECRET_MASK}${String(masked[key]).slice(-4)}`;
+  }
+  return masked;
+}
+
+/** Fusiona una config recibida de la UI: los secretos que siguen enmascarados conservan el valor guardado. */
+export function mergeChannelConfig(type: NotificationChannelType, existing: Record<string, any>, incoming: Record<string, any>): Record<string, any> {
+  const merged = { ...existing, ...incoming };
+  for (const key of NOTIFICATION_TRANSPORTS[type].secrets) {
+    if (typeof incoming[key] === "string" && incoming[key].startsWith(SECRET_MASK)) merged[key] = existing[key];
+  }
+  return merged;
+}
+
+export class NotificationChannelDispatcher {
+  private channels: NotificationChannel[] = [];
+  private loadedAt = 0;
+  private readonly deps: TransportDeps;
+
+  constructor(deps: Partial<TransportDeps> = {}) {
+    this.deps = {
+      fetch: deps.fetch ?? ((...args) => fetch(...args)),
+      sendMail: deps.sendMail ?? sendSmtpMail,
+      timeoutMs: deps.timeoutMs ?? 10_000,
+    };
+  }
+
+  /** Forzar recarga tras cambios desde la UI */
+  invalidateCache(): void {
+    this.loadedAt = 0;
+  }
+
+  private async loadChannels(): Promise<NotificationChannel[]> {
+    const now = Date.now();
+    if (now - this.loadedAt < CHANNEL_CACHE_MS) return this.channels;
+    this.channels = await storage.getNotificationChannels();
+    this.loadedAt = now;
+    return this.channels;
+  }
+
+  /**
+   * Entrega la alerta a todos los canales que la aceptan.
+   * Devuelve cuántos canales la entregaron con éxito.
+   */
+  async dispatch(alert: NormalizedAlert, ctx: DispatchContext): Promise<number> {
+    let channels: NotificationChannel[];
+    try {
+      channels = (await this.loadChannels()).filter(c => channelAcceptsAlert(c, alert, ctx.telegramDelivered));
+    } catch (err: any) {
+      console.error("[NotificationChannels] Failed to load channels:", err?.message || err);
+      return 0;
+    }
+    if (channels.length === 0) return 0;
+
+    const payload = buildNotificationPayload(alert, ctx.environment);
+    const results = await Promise.all(channels.map(async (channel) => {
+      try {
+        await this.deliver(channel, payload);
+        await this.audit(alert, channel, ctx.environment, null);
+        return true;
+      } catch (err: any) {
+        const message = err?.message || String(err);
+        await this.audit(alert, channel, ctx.environment, message);
+        log(`[NotificationChannels] ${channel.type}#${channel.id} (${channel.name}) failed: ${message}`, "trading");
+        return false;
+      }
+    }));
+    return results.filter(Boolean).length;
+  }
+
+  /** Envía un mensaje de prueba a un canal concreto (ignora filtros). Lanza si falla. */
+  async sendTest(channel: NotificationChannel, environment: string): Promise<void> {
+    const payload = buildNotificationPayload({
+      sourceModule: "NOTIFICATIONS",
+      mode: "system",
+      alertType: "channel_test",
+      severity: "LOW",
+      message: `<b>Prueba de canal</b>\nCanal <b>${channel.name}</b> (${channel.type}) configurado correctamente.`,
+    }, environment);
+    try {
+      await this.deliver(channel, payload);
+      await storage.updateNotificationChannel(channel.id, { lastSentAt: new Date(), lastError: null });
+    } catch (err: any) {
+      await storage.updateNotificationChannel(channel.id, { lastError: err?.message || String(err) }).catch(() => undefined);
+      throw err;
+    }
+  }
+
+  private async deliver(channel: NotificationChannel, payload: NotificationPayload): Promise<void> {
+    if (!isNotificationChannelType(channel.type)) throw new Error(`Tipo de canal desconocido: ${channel.type}`);
+    const config = (channel.configJson ?? {}) as Record<string, any>;
+    const missing = missingConfigKeys(channel.type, config);
+    if (missing.length > 0) throw new Error(`Configuración incompleta: ${missing.join(", ")}`);
+    await NOTIFICATION_TRANSPORTS[channel.type].send(config, payload, this.deps);
+  }
+
+  private async audit(alert: NormalizedAlert, channel: NotificationChannel, env: string, error: string | null): Promise<void> {
+    const now = new Date();
+    recordAlertDelivery(channel.type, error ? "failed_send" : "sent");
+    try {
+      await storage.insertTelegramAlertEvent({
+        environment: env,
+        sourceModule: alert.sourceModule,
+        mode: alert.mode,
+        alertType: alert.alertType,
+        severity: alert.severity || "LOW",
+        pair: alert.pair,
+        cycleId: alert.cycleId,
+        positionId: alert.positionId,
+        dryRunId: alert.dryRunId,
+        dedupeKey: alert.dedupeKey || null,
+        status: error ? "failed_send" : "sent",
+        sentAt: error ? null : now,
+        failedAt: error ? now : null,
+        errorMessage: error,
+        naturalMessage: alert.message,
+        transport: channel.type,
+        notificationChannelId: channel.id,
+      });
+      await storage.updateNotificationChannel(channel.id, error ? { lastError: error } : { lastSentAt: now, lastError: null });
+    } catch (err) {
+      console.error("[NotificationChannels] Audit insert failed:", err);
+    }
+  }
+}
+
+export const notificationChannelDispatcher = new NotificationChannelDispatcher();
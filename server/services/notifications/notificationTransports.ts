@@ -0,0 +1,180 @@
+/**
+ * notificationTransports — entrega de una alerta por canales distintos de Telegram.
+ *
+ * Cada transporte recibe el NotificationPayload ya renderizado (título + texto
+ * plano + HTML original) y la configuración del canal (config_json). Lanza si
+ * la entrega falla; el dispatcher audita el resultado.
+ *
+ *   webhook  POST JSON firmado con HMAC-SHA256 (X-Signature-256 sobre "timestamp.body")
+ *   email    SMTP (smtpClient) a uno o varios destinatarios
+ *   ntfy     POST JSON al servidor ntfy (topic, prioridad 1-5)
+ *   gotify   POST /message con X-Gotify-Key (prioridad 0-10)
+ *   discord  webhook con un embed coloreado por severidad
+ */
+
+import { createHmac } from "crypto";
+import type { NotificationChannelType } from "@shared/schema";
+import type { AlertSeverity } from "../TelegramNotificationCenter";
+import { sendSmtpMail } from "./smtpClient";
+
+export interface NotificationPayload {
+  title: string;
+  text: string;
+  html: string;
+  severity: AlertSeverity;
+  environment: string;
+  sourceModule: string;
+  mode: string;
+  alertType: string;
+  pair?: string;
+  cycleId?: string;
+  timestamp: string;
+}
+
+export interface TransportDeps {
+  fetch: typeof fetch;
+  sendMail: typeof sendSmtpMail;
+  timeoutMs: number;
+}
+
+export interface NotificationTransport {
+  /** Claves de config_json obligatorias */
+  required: string[];
+  /** Claves de config_json que nunca se devuelven en claro a la UI */
+  secrets: string[];
+  send(config: Record<string, any>, payload: NotificationPayload, deps: TransportDeps): Promise<void>;
+}
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": "\"", "&#39;": "'", "&nbsp;": " " };
+
+/** Convierte el HTML de Telegram a texto; con markdown=true conserva negritas/cursivas/código (Discord). */
+export function htmlToPlainText(html: string, markdown = false): string {
+  let s = html.replace(/<br\s*\/?>/gi, "\n");
+  if (markdown) {
+    s = s
+      .replace(/<\/?(b|strong)>/gi, "**")
+      .replace(/<\/?(i|em)>/gi, "*")
+      .replace(/<\/?(code|pre)>/gi, "`");
+  }
+  s = s.replace(/<a\s+href="([^"]*)"[^>]*>(.*?)<\/a>/gi, "$2 ($1)").replace(/<[^>]+>/g, "");
+  return s.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (m) => ENTITIES[m] ?? m).replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/** Firma de los webhooks: hex(HMAC-SHA256(secret, `${timestamp}.${body}`)). */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+const NTFY_PRIORITY: Record<AlertSeverity, number> = { LOW: 2, MEDIUM: 3, HIGH: 4, CRITICAL: 5 };
+const GOTIFY_PRIORITY: Record<AlertSeverity, number> = { LOW: 2, MEDIUM: 5, HIGH: 8, CRITICAL: 10 };
+const DISCORD_COLOR: Record<AlertSeverity, number> = { LOW: 0x3b82f6, MEDIUM: 0xeab308, HIGH: 0xf97316, CRITICAL: 0xef4444 };
+const NTFY_TAGS: Record<AlertSeverity, string[]> = { LOW: ["information_source"], MEDIUM: ["warning"], HIGH: ["rotating_light"], CRITICAL: ["rotating_light", "skull"] };
+
+async function postJson(deps: TransportDeps, url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const res = await deps.fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+    signal: AbortSignal.timeout(deps.timeoutMs),
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`HTTP ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+export const NOTIFICATION_TRANSPORTS: Record<NotificationChannelType, NotificationTransport> = {
+  webhook: {
+    required: ["url"],
+    secrets: ["secret"],
+    async send(config, payload, deps) {
+      const body = JSON.stringify({
+        title: payload.title,
+        text: payload.text,
+        html: payload.html,
+        severity: payload.severity,
+        environment: payload.environment,
+        sourceModule: payload.sourceModule,
+        mode: payload.mode,
+        alertType: payload.alertType,
+        pair: payload.pair ?? null,
+        cycleId: payload.cycleId ?? null,
+        timestamp: payload.timestamp,
+      });
+      const headers: Record<string, string> = {};
+      if (config.secret) {
+        const ts = String(Math.floor(Date.parse(payload.timestamp) / 1000));
+        headers["X-Signature-Timestamp"] = ts;
+        headers["X-Signature-256"] = `sha256=${signWebhookBody(config.secret, ts, body)}`;
+      }
+      await postJson(deps, config.url, body, headers);
+    },
+  },
+
+  email: {
+    required: ["host", "from", "to"],
+    secrets: ["password"],
+    async send(config, payload, deps) {
+      const port = parseInt(String(config.port ?? 587), 10);
+      await deps.sendMail({
+        host: config.host,
+        port,
+        secure: config.secure ?? port === 465,
+        username: config.username || undefined,
+        password: config.password || undefined,
+        timeoutMs: deps.timeoutMs,
+      }, {
+        from: config.from,
+        to: String(config.to).split(",").map(s => s.trim()).filter(Boolean),
+        subject: payload.title,
+        text: `${payload.text}\n\n— ${payload.sourceModule} · ${payload.environment} · ${payload.timestamp}`,
+      });
+    },
+  },
+
+  ntfy: {
+    required: ["topic"],
+    secrets: ["token"],
+    async send(config, payload, deps) {
+      const headers: Record<string, string> = config.token ? { Authorization: `Bearer ${config.token}` } : {};
+      await postJson(deps, trimSlash(config.serverUrl || "https://ntfy.sh"), JSON.stringify({
+        topic: config.topic,
+        title: payload.title,
+        message: payload.text,
+        priority: NTFY_PRIORITY[payload.severity],
+        tags: NTFY_TAGS[payload.severity],
+      }), headers);
+    },
+  },
+
+  gotify: {
+    required: ["serverUrl", "appToken"],
+    secrets: ["appToken"],
+    async send(config, payload, deps) {
+      await postJson(deps, `${trimSlash(config.serverUrl)}/message`, JSON.stringify({
+        title: payload.title,
+        message: payload.text,
+        priority: GOTIFY_PRIORITY[payload.severity],
+      }), { "X-Gotify-Key": config.appToken });
+    },
+  },
+
+  discord: {
+    required: ["webhookUrl"],
+    secrets: ["webhookUrl"],
+    async send(config, payload, deps) {
+      await postJson(deps, config.webhookUrl, JSON.stringify({
+        username: config.username || undefined,
+        embeds: [{
+          title: payload.title.slice(0, 256),
+          description: htmlToPlainText(payload.html, true).slice(0, 4000),
+          color: DISCORD_COLOR[payload.severity],
+          timestamp: payload.timestamp,
+          footer: { text: `${payload.sourceModule} · ${payload.environment}` },
+        }],
+      }));
+    },
+  },
+};
@@ -0,0 +1,210 @@
+/**
+ * smtpClient — cliente SMTP mínimo (sin dependencias) para alertas por email.
+ *
+ * Soporta TLS implícito (465), STARTTLS (587) y AUTH PLAIN (sólo sobre TLS). Envía un único
+ * mensaje text/plain UTF-8 por conexión; pensado para el volumen de alertas
+ * (pocas por hora), no para envío masivo.
+ */
+
+import net from "net";
+import tls from "tls";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** true → TLS desde el primer byte (465); false → STARTTLS si el servidor lo anuncia */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  /** Nombre anunciado en EHLO */
+  clientName?: string;
+  timeoutMs?: number;
+  /** Sólo para tests / servidores con certificado propio */
+  rejectUnauthorized?: boolean;
+}
+
+export interface SmtpMail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+/** Codifica cabeceras con caracteres no ASCII (RFC 2047). */
+export function encodeHeaderWord(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/** Construye el mensaje RFC 5322 (cuerpo en base64 para evitar problemas de 8 bits / dot-stuffing). */
+export function buildMimeMessage(mail: SmtpMail, date: Date = new Date()): string {
+  const body = Buffer.from(mail.text, "utf8").toString("base64").replace(/.{1,76}/g, "$&\r\n");
+  return [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(", ")}`,
+    `Subject: ${encodeHeaderWord(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `MIME-Version: 1.0`,
+    `Content-Type: text/plain; charset=utf-8`,
+    `Content-Transfer-Encoding: base64`,
+    ``,
+    body,
+  ].join("\r\n");
+}
+
+const addressOf = (mailbox: string) => {
+  const m = mailbox.match(/<([^>]+)>/);
+  return (m ? m[1] : mailbox).trim();
+};
+
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiter: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (err) => this.fail(err));
+    socket.on("close", () => this.fail(new SmtpError("Conexión SMTP cerrada")));
+  }
+
+  private fail(err: Error) {
+    if (!this.failure) this.failure = err;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(err);
+    }
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let idx: number;
+    while ((idx = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      this.lines.push(line);
+      // "250-..." continúa; "250 ..." cierra la respuesta
+      if (/^\d{3}(?: |$)/.test(line) && this.waiter) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines };
+        this.lines = [];
+        const { resolve } = this.waiter;
+        this.waiter = null;
+        resolve(reply);
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiter = { resolve, reject }; });
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    const pending = this.read();
+    this.socket.write(`${line}\r\n`);
+    const reply = await pending;
+    if (!expected.includes(reply.code)) {
+      const shown = line.startsWith("AUTH") ? "AUTH" : line.split(" ")[0];
+      throw new SmtpError(`${shown} → ${reply.lines.join(" | ")}`, reply.code);
+    }
+    return reply;
+  }
+
+  async upgradeToTls(host: string, rejectUnauthorized: boolean): Promise<void> {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("close");
+    this.socket.removeAllListeners("error");
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const s = tls.connect({ socket: this.socket, servername: host, rejectUnauthorized }, () => resolve(s));
+      s.once("error", reject);
+    });
+    this.socket = secure;
+    this.buffer = "";
+    this.attach(secure);
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+function connect(opts: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = opts.secure
+      ? tls.connect({ host: opts.host, port: opts.port, servername: opts.host, rejectUnauthorized: opts.rejectUnauthorized ?? true }, () => resolve(socket))
+      : net.connect({ host: opts.host, port: opts.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+/** Envía un email. Lanza SmtpError con la respuesta del servidor si algún paso falla. */
+export async function sendSmtpMail(opts: SmtpOptions, mail: SmtpMail): Promise<void> {
+  if (mail.to.length === 0) throw new SmtpError("Sin destinatarios");
+  const timeoutMs = opts.timeoutMs ?? 15_000;
+  const clientName = opts.clientName || "localhost";
+  let conn: SmtpConnection | null = null;
+  let timer: NodeJS.Timeout | null = null;
+
+  const session = async () => {
+    const socket = await connect(opts);
+    conn = new SmtpConnection(socket);
+    const greeting = await conn.read();
+    if (greeting.code !== 220) throw new SmtpError(`Saludo inesperado: ${greeting.lines.join(" | ")}`, greeting.code);
+
+    const ehlo = await conn.command(`EHLO ${clientName}`, [250]);
+    let encrypted = opts.secure;
+    if (!opts.secure && ehlo.lines.some(l => /^250[ -]STARTTLS/i.test(l))) {
+      await conn.command("STARTTLS", [220]);
+      await conn.upgradeToTls(opts.host, opts.rejectUnauthorized ?? true);
+      await conn.command(`EHLO ${clientName}`, [250]);
+      encrypted = true;
+    }
+
+    if (opts.username) {
+      // Nunca credenciales en claro: sin TLS implícito ni STARTTLS (o si un MITM lo elimina) se aborta
+      if (!encrypted) {
+        throw new SmtpError(`El servidor ${opts.host}:${opts.port} no ofrece STARTTLS; no se envían credenciales sin cifrar (usa el puerto 465 o un servidor con STARTTLS)`);
+      }
+      const token = Buffer.from(`\0${opts.username}\0${opts.password ?? ""}`, "utf8").toString("base64");
+      await conn.command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    await conn.command(`MAIL FROM:<${addressOf(mail.from)}>`, [250]);
+    for (const rcpt of mail.to) {
+      await conn.command(`RCPT TO:<${addressOf(rcpt)}>`, [250, 251]);
+    }
+    await conn.command("DATA", [354]);
+    await conn.command(`${buildMimeMessage(mail)}\r\n.`, [250]);
+    await conn.command("QUIT", [221]).catch(() => undefined);
+  };
+
+  try {
+    await Promise.race([
+      session(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new SmtpError(`Timeout SMTP (${timeoutMs}ms)`)), timeoutMs);
+      }),
+    ]);
+  } finally {
+    if (timer) clearTimeout(timer);
+    (conn as SmtpConnection | null)?.close();
+  }
+}
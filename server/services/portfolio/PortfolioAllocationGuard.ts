@@ -53,6 +53,18 @@ export interface BudgetModificationCheck {
   reason: string | null;
 }
 
+export interface GridReservationCheck {
+  exchange: string;
+  pair: string;
+  requestedUsd: number;
+  otherInstancesReservedUsd: number;
+  combinedReservedUsd: number;
+  gridBudgetUsd: number | null;
+  shortfallUsd: number;
+  passed: boolean;
+  reason: string | null;
+}
+
 export interface ExchangeBalanceResult {
   exchange: string;
   balances: Record<string, number>;
@@ -317,6 +329,70 @@ class PortfolioAllocationGuardService {
     return check;
   }
 
+  /**
+   * Valida el budget combinado de las instancias Grid Isolated (una por par).
+   *
+   * Invariante por exchange + USD:
+   *   SUM(reservas GRID_ISOLATED activas de otros pares) + requestedUsd <= budget GRID
+   *
+   * La reserva vigente del mismo par no cuenta porque se sustituye.
+   * Sin budget GRID configurado no hay tope combinado. Si no se pueden leer
+   * las reservas, la validación falla: nunca se asume que están a $0.
+   */
+  async validateGridReservation(
+    exchange: string,
+    pair: string,
+    requestedUsd: number,
+  ): Promise<GridReservationCheck> {
+    let otherInstancesReservedUsd: number;
+    try {
+      const res = await pool.query(
+        `SELECT COALESCE(SUM(reserved_usd), 0) AS reserved
+         FROM strategy_capital_reservations
+         WHERE strategy_type = 'GRID_ISOLATED'
+           AND released_at IS NULL
+           AND exchange = $1
+           AND pair <> $2`,
+        [exchange, pair],
+      );
+      otherInstancesReservedUsd = parseFloat(res.rows[0]?.reserved ?? "0");
+    } catch (e: any) {
+      return {
+        exchange,
+        pair,
+        requestedUsd,
+        otherInstancesReservedUsd: 0,
+        combinedReservedUsd: requestedUsd,
+        gridBudgetUsd: null,
+        shortfallUsd: 0,
+        passed: false,
+        reason: `PORTFOLIO_GRID_RESERVATIONS_UNAVAILABLE: ${e?.message ?? e}`,
+      };
+    }
+
+    const budget = await portfolioGlobalService.getBudget("GRID", exchange, "USD");
+    const gridBudgetUsd = budget?.budgetedUsd ?? null;
+    const combinedReservedUsd = otherInstancesReservedUsd + requestedUsd;
+    const shortfallUsd = gridBudgetUsd === null
+      ? 0
+      : Math.max(0, combinedReservedUsd - gridBudgetUsd);
+    const passed = shortfallUsd === 0;
+
+    return {
+      exchange,
+      pair,
+      requestedUsd,
+      otherInstancesReservedUsd,
+      combinedReservedUsd,
+      gridBudgetUsd,
+      shortfallUsd,
+      passed,
+      reason: passed
+        ? null
+        : `PORTFOLIO_GRID_BUDGET_EXCEEDED: combined=${combinedReservedUsd} > budget=${gridBudgetUsd} shortfall=${shortfallUsd}`,
+    };
+  }
+
   /**
    * Verifica si hay bloqueos por discrepancia para un mode + asset.
    * Si hay una reconciliación con DISCREPANCY_DETECTED, bloquea nuevas reservas.
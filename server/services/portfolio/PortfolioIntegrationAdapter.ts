@@ -5,7 +5,8 @@
  * to interact with the Global Portfolio.
  *
  * Flow per mode:
- *   beforeOrder: reserve() + acquireLock()
+ *   checkRisk:   risk limits only (Spot, IDCA and Grid live buy paths)
+ *   beforeOrder: risk limits + reserve() + acquireLock()
  *   onFill:      convertReservation() + ledger PURCHASE + addAttribution()
  *   onSell:      ledger SALE + reduceAttribution() + updateBudget
  *   onFailure:   releaseReservation() + releaseLock()
@@ -15,7 +16,8 @@
 
 import { portfolioGlobalService } from "./portfolioGlobalService";
 import { portfolioAllocationGuard } from "./PortfolioAllocationGuard";
-import type { OperationalMode, LedgerEntry, LedgerEnvironment } from "./portfolioTypes";
+import { portfolioRiskService } from "./PortfolioRiskService";
+import type { OperationalMode, LedgerEntry, LedgerEnvironment, RiskCheckResult } from "./portfolioTypes";
 
 export interface ReserveParams {
   mode: OperationalMode;
@@ -27,6 +29,8 @@ export interface ReserveParams {
   trancheId?: string;
 }
 
+export type RiskParams = Pick<ReserveParams, "mode" | "exchange" | "asset" | "amountUsd">;
+
 export interface FillParams {
   mode: OperationalMode;
   exchange: string;
@@ -68,6 +72,19 @@ export interface FailureParams {
 
 class PortfolioIntegrationAdapterService {
 
+  /**
+   * Cross-strategy exposure / VaR limits (portfolio_risk_limits) for a buy.
+   * The engines call it right before sending a live buy; a deny blocks the order.
+   */
+  async checkRisk(params: RiskParams): Promise<RiskCheckResult> {
+    const { mode, exchange, asset, amountUsd } = params;
+    const risk = await portfolioRiskService.checkOrder({ mode, asset, amountUsd });
+    if (!risk.allowed) {
+      console.warn(`[PortfolioIntegration] ${mode} ${exchange}:${asset} amount=${amountUsd} blocked — ${risk.reason}`);
+    }
+    return risk;
+  }
+
   /**
    * R2.17-R2.20: Before an order, reserve capital and acquire lock.
    * Returns reservationId + lockId on success, null on failure.
@@ -85,6 +102,10 @@ class PortfolioIntegrationAdapterService {
       return null;
     }
 
+    // Cross-strategy exposure / VaR limits (portfolio_risk_limits)
+    const risk = await this.checkRisk({ mode, exchange, asset, amountUsd });
+    if (!risk.allowed) return null;
+
     // Create persistent reservation
     const reservationId = `res-${mode}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
     const idempotencyKey = `idemp-${mode}-${exchange}-${asset}-${amountUsd}-${Date.now()}`;
@@ -18,6 +18,7 @@ import { pool } from "../../db";
 import { portfolioGlobalService } from "./portfolioGlobalService";
 import { portfolioAllocationGuard } from "./PortfolioAllocationGuard";
 import type { ReconciliationStatus, OperationalMode } from "./portfolioTypes";
+import { recordReconciliation } from "../metrics/appMetrics";
 
 export interface AssetReconciliationResult {
   exchange: string;
@@ -185,13 +186,15 @@ class PortfolioReconciliationService {
       overallStatus = "DISCREPANCY_DETECTED";
     }
 
-    return {
+    const report: ReconciliationReport = {
       generatedAt,
       results,
       overallStatus,
       criticalDiscrepancies,
       blockedModeAssets,
     };
+    recordReconciliation(report);
+    return report;
   }
 
   /**
@@ -0,0 +1,283 @@
+/**
+ * PortfolioRiskService — cross-strategy exposure and VaR limits.
+ *
+ * Sits on top of portfolioGlobalService:
+ *   exposure = real inventory of SPOT_NORMAL + IDCA + GRID + AMA per asset,
+ *              marked to market, plus PENDING/CONFIRMED reservations
+ *   risk     = 1-day historical VaR / CVaR from stored 1d candles (market_candles),
+ *              per asset and for the portfolio (correlation-aware via the joint P&L series),
+ *              plus a variance-covariance VaR for comparison
+ *   limits   = portfolio_risk_limits (migration 095), per asset or "*" for the portfolio
+ *
+ * checkOrder() is called through PortfolioIntegrationAdapter.checkRisk (live buy
+ * paths of Spot, IDCA and Grid, and beforeOrder) with the order added pro-forma. No enabled limits → always allowed. If the check itself
+ * fails while limits exist, the order is blocked (fail-closed).
+ *
+ * Assets without enough candle history (< MIN_RISK_OBSERVATIONS aligned days)
+ * are left out of VaR, never out of exposure.
+ */
+
+import { portfolioGlobalService } from "./portfolioGlobalService";
+import {
+  PORTFOLIO_RISK_SCOPE,
+  type AssetRiskExposure,
+  type ModeExposure,
+  type OperationalMode,
+  type PortfolioRiskReport,
+  type RiskBreach,
+  type RiskCheckResult,
+  type RiskLimit,
+} from "./portfolioTypes";
+import {
+  MIN_RISK_OBSERVATIONS,
+  commonDays,
+  correlationMatrix,
+  dailyReturns,
+  historicalVarCvar,
+  parametricVar,
+  stdDev,
+  type DailyClose,
+} from "./portfolioRiskMath";
+
+const RETURNS_CACHE_TTL_MS = 5 * 60_000;
+
+export interface RiskDataSource {
+  getExposures(): Promise<ModeExposure[]>;
+  /** USD not yet deployed but already committed (PENDING / CONFIRMED reservations) */
+  getPendingUsd(): Promise<{ mode: OperationalMode; asset: string; amountUsd: number }[]>;
+  getLimits(): Promise<RiskLimit[]>;
+  getPriceUsd(asset: string): Promise<number | null>;
+  getDailyCloses(asset: string, days: number): Promise<DailyClose[]>;
+  getPortfolioValueUsd(): Promise<number | null>;
+}
+
+export interface RiskOrder {
+  mode: OperationalMode;
+  asset: string;
+  amountUsd: number;
+}
+
+const defaultDataSource: RiskDataSource = {
+  getExposures: () => portfolioGlobalService.getModeExposures(),
+
+  async getPendingUsd() {
+    const [pending, confirmed] = await Promise.all([
+      portfolioGlobalService.getReservations("PENDING"),
+      portfolioGlobalService.getReservations("CONFIRMED"),
+    ]);
+    return [...pending, ...confirmed].map((r) => ({ mode: r.mode, asset: r.asset, amountUsd: r.amountUsd }));
+  },
+
+  getLimits: () => portfolioGlobalService.getRiskLimits(),
+
+  async getPriceUsd(asset) {
+    try {
+      const { MarketDataService } = await import("../MarketDataService");
+      const price = await MarketDataService.getPrice(`${asset}/USD`);
+      return price > 0 ? price : null;
+    } catch {
+      return null;
+    }
+  },
+
+  async getDailyCloses(asset, days) {
+    const { MarketCandleRepository } = await import("../marketData/MarketCandleRepository");
+    const candles = await MarketCandleRepository.getRecentCandles(`${asset}/USD`, "1d", days + 1);
+    return candles.map((c) => ({ time: c.time, close: c.close }));
+  },
+
+  async getPortfolioValueUsd() {
+    const summary = await portfolioGlobalService.getSummary();
+    return summary.totalValueUsd > 0 ? summary.totalValueUsd : null;
+  },
+};
+
+export function getRiskConfig(): { confidence: number; lookbackDays: number } {
+  const confidence = parseFloat(process.env.PORTFOLIO_RISK_VAR_CONFIDENCE ?? "0.95");
+  const lookbackDays = parseInt(process.env.PORTFOLIO_RISK_LOOKBACK_DAYS ?? "365", 10);
+  return {
+    confidence: confidence > 0.5 && confidence < 1 ? confidence : 0.95,
+    lookbackDays: lookbackDays >= MIN_RISK_OBSERVATIONS + 1 ? lookbackDays : 365,
+  };
+}
+
+export class PortfolioRiskService {
+  private returnsCache = new Map<string, { fetchedAt: number; returns: Map<number, number> }>();
+
+  constructor(private readonly source: RiskDataSource = defaultDataSource) {}
+
+  /** Current risk picture; `order` is added to the exposure pro-forma. */
+  async getRiskReport(order?: RiskOrder): Promise<PortfolioRiskReport> {
+    const { confidence, lookbackDays } = getRiskConfig();
+    const [exposures, pending, limits, portfolioValueUsd] = await Promise.all([
+      this.source.getExposures(),
+      this.source.getPendingUsd(),
+      this.source.getLimits(),
+      this.source.getPortfolioValueUsd(),
+    ]);
+
+    const committed = order ? [...pending, { ...order, asset: order.asset.toUpperCase() }] : pending;
+    const assetNames = Array.from(new Set([
+      ...exposures.map((e) => e.asset),
+      ...committed.map((p) => p.asset.toUpperCase()),
+    ])).sort();
+
+    const assets: AssetRiskExposure[] = [];
+    for (const asset of assetNames) {
+      const held = exposures.filter((e) => e.asset === asset);
+      const quantity = held.reduce((s, e) => s + e.quantity, 0);
+      const costBasisUsd = held.reduce((s, e) => s + e.costBasisUsd, 0);
+      const priceUsd = await this.source.getPriceUsd(asset);
+      const markPrice = priceUsd ?? (quantity > 0 ? costBasisUsd / quantity : 0);
+
+      const byModeUsd: Partial<Record<OperationalMode, number>> = {};
+      for (const e of held) byModeUsd[e.mode] = (byModeUsd[e.mode] ?? 0) + e.quantity * markPrice;
+      let pendingUsd = 0;
+      for (const p of committed.filter((c) => c.asset.toUpperCase() === asset)) {
+        pendingUsd += p.amountUsd;
+        byModeUsd[p.mode] = (byModeUsd[p.mode] ?? 0) + p.amountUsd;
+      }
+
+      const exposureUsd = quantity * markPrice + pendingUsd;
+      assets.push({
+        asset,
+        priceUsd,
+        quantity,
+        exposureUsd,
+        pendingUsd,
+        byModeUsd,
+        sharePct: portfolioValueUsd ? (exposureUsd / portfolioValueUsd) * 100 : null,
+        dailyVolatilityPct: null,
+        varUsd: null,
+        cvarUsd: null,
+        observations: 0,
+      });
+    }
+
+    // Per-asset historical VaR
+    const returnsByAsset = new Map<string, Map<number, number>>();
+    for (const a of assets) {
+      const returns = await this.getReturns(a.asset, lookbackDays);
+      const values = Array.from(returns.values());
+      a.observations = values.length;
+      const vol = stdDev(values);
+      a.dailyVolatilityPct = vol !== null ? vol * 100 : null;
+      const tail = historicalVarCvar(values.map((r) => r * a.exposureUsd), confidence);
+      if (tail) {
+        a.varUsd = tail.varUsd;
+        a.cvarUsd = tail.cvarUsd;
+        if (a.exposureUsd > 0) returnsByAsset.set(a.asset, returns);
+      }
+    }
+
+    // Portfolio: joint P&L over the days every covered asset has a return
+    const covered = assets.filter((a) => returnsByAsset.has(a.asset));
+    const days = commonDays(covered.map((a) => returnsByAsset.get(a.asset)!));
+    const aligned = covered.map((a) => days.map((t) => returnsByAsset.get(a.asset)!.get(t)!));
+    const portfolioPnl = days.map((_, i) => covered.reduce((s, a, k) => s + a.exposureUsd * aligned[k][i], 0));
+    const portfolioTail = covered.length > 0 ? historicalVarCvar(portfolioPnl, confidence) : null;
+    const undiversifiedVarUsd = covered.length > 0 ? covered.reduce((s, a) => s + (a.varUsd ?? 0), 0) : null;
+
+    const totalExposureUsd = assets.reduce((s, a) => s + a.exposureUsd, 0);
+    const report: PortfolioRiskReport = {
+      generatedAt: new Date().toISOString(),
+      confidence,
+      lookbackDays,
+      portfolioValueUsd,
+      totalExposureUsd,
+      assets,
+      portfolio: {
+        varUsd: portfolioTail?.varUsd ?? null,
+        cvarUsd: portfolioTail?.cvarUsd ?? null,
+        undiversifiedVarUsd,
+        diversificationBenefitUsd: portfolioTail && undiversifiedVarUsd !== null
+          ? undiversifiedVarUsd - portfolioTail.varUsd
+          : null,
+        parametricVarUsd: portfolioTail
+          ? parametricVar(covered.map((a) => a.exposureUsd), aligned, confidence)
+          : null,
+        observations: portfolioTail ? days.length : 0,
+      },
+      correlations: {
+        assets: covered.map((a) => a.asset),
+        matrix: days.length >= MIN_RISK_OBSERVATIONS ? correlationMatrix(aligned) : [],
+      },
+      limits,
+      breaches: [],
+    };
+    report.breaches = evaluateLimits(report);
+    return report;
+  }
+
+  /**
+   * Pre-trade check: would this buy leave any limit of its asset, or of the
+   * whole portfolio, breached?
+   */
+  async checkOrder(order: RiskOrder): Promise<RiskCheckResult> {
+    const asset = order.asset.toUpperCase();
+    try {
+      const limits = await this.source.getLimits();
+      const relevant = limits.filter((l) => l.enabled && (l.asset === asset || l.asset === PORTFOLIO_RISK_SCOPE));
+      if (relevant.length === 0) return { allowed: true, breaches: [], reason: null };
+
+      const report = await this.getRiskReport({ ...order, asset });
+      const breaches = report.breaches.filter((b) => b.asset === asset || b.asset === PORTFOLIO_RISK_SCOPE);
+      if (breaches.length === 0) return { allowed: true, breaches: [], reason: null };
+      return { allowed: false, breaches, reason: `RISK_LIMIT: ${breaches.map(describeBreach).join("; ")}` };
+    } catch (err: any) {
+      return { allowed: false, breaches: [], reason: `RISK_CHECK_FAILED: ${err.message}` };
+    }
+  }
+
+  clearCache(): void {
+    this.returnsCache.clear();
+  }
+
+  private async getReturns(asset: string, lookbackDays: number): Promise<Map<number, number>> {
+    const key = `${asset}:${lookbackDays}`;
+    const cached = this.returnsCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < RETURNS_CACHE_TTL_MS) return cached.returns;
+    const returns = dailyReturns(await this.source.getDailyCloses(asset, lookbackDays));
+    this.returnsCache.set(key, { fetchedAt: Date.now(), returns });
+    return returns;
+  }
+}
+
+/** Every enabled limit that the report exceeds. VaR limits are skipped when VaR is unknown. */
+export function evaluateLimits(report: PortfolioRiskReport): RiskBreach[] {
+  const breaches: RiskBreach[] = [];
+  for (const limit of report.limits.filter((l) => l.enabled)) {
+    let exposureUsd: number;
+    let varUsd: number | null;
+    let cvarUsd: number | null;
+    if (limit.asset === PORTFOLIO_RISK_SCOPE) {
+      exposureUsd = report.totalExposureUsd;
+      varUsd = report.portfolio.varUsd;
+      cvarUsd = report.portfolio.cvarUsd;
+    } else {
+      const a = report.assets.find((x) => x.asset === limit.asset);
+      if (!a) continue;
+      exposureUsd = a.exposureUsd;
+      varUsd = a.varUsd;
+      cvarUsd = a.cvarUsd;
+    }
+    const pct = report.portfolioValueUsd ? (exposureUsd / report.portfolioValueUsd) * 100 : null;
+
+    const check = (metric: RiskBreach["metric"], value: number | null, max: number | null) => {
+      if (value !== null && max !== null && value > max) {
+        breaches.push({ asset: limit.asset, metric, value, limit: max });
+      }
+    };
+    check("EXPOSURE_USD", exposureUsd, limit.maxExposureUsd);
+    check("EXPOSURE_PCT", pct, limit.maxExposurePct);
+    check("VAR", varUsd, limit.maxVarUsd);
+    check("CVAR", cvarUsd, limit.maxCvarUsd);
+  }
+  return breaches;
+}
+
+function describeBreach(b: RiskBreach): string {
+  return `${b.asset} ${b.metric} ${b.value.toFixed(2)} > ${b.limit.toFixed(2)}`;
+}
+
+export const portfolioRiskService = new PortfolioRiskService();
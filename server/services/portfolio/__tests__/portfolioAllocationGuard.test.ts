@@ -231,4 +231,56 @@ describe("PortfolioAllocationGuard", () => {
       expect(health.blockedModeAssets).toEqual([]);
     });
   });
+
+  describe("validateGridReservation", () => {
+    it("passes when other instances + requested fit the GRID budget", async () => {
+      vi.mocked(pool.query).mockResolvedValue({ rows: [{ reserved: "600" }] } as any);
+      vi.mocked(portfolioGlobalService.getBudget).mockResolvedValue({ budgetedUsd: 1000 } as any);
+
+      const check = await portfolioAllocationGuard.validateGridReservation("revolutx", "ETH/USD", 400);
+      expect(check.passed).toBe(true);
+      expect(check.otherInstancesReservedUsd).toBe(600);
+      expect(check.combinedReservedUsd).toBe(1000);
+      expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual(["revolutx", "ETH/USD"]);
+    });
+
+    it("fails when the combined grid reservations exceed the budget", async () => {
+      vi.mocked(pool.query).mockResolvedValue({ rows: [{ reserved: "800" }] } as any);
+      vi.mocked(portfolioGlobalService.getBudget).mockResolvedValue({ budgetedUsd: 1000 } as any);
+
+      const check = await portfolioAllocationGuard.validateGridReservation("revolutx", "ETH/USD", 300);
+      expect(check.passed).toBe(false);
+      expect(check.shortfallUsd).toBe(100);
+      expect(check.reason).toContain("PORTFOLIO_GRID_BUDGET_EXCEEDED");
+    });
+
+    it("passes without limit when no GRID budget is configured", async () => {
+      vi.mocked(pool.query).mockResolvedValue({ rows: [{ reserved: "5000" }] } as any);
+      vi.mocked(portfolioGlobalService.getBudget).mockResolvedValue(null as any);
+
+      const check = await portfolioAllocationGuard.validateGridReservation("revolutx", "BTC/USD", 300);
+      expect(check.passed).toBe(true);
+      expect(check.gridBudgetUsd).toBeNull();
+    });
+
+    it("only counts reservations made on the same exchange", async () => {
+      vi.mocked(pool.query).mockResolvedValue({ rows: [{ reserved: "0" }] } as any);
+      vi.mocked(portfolioGlobalService.getBudget).mockResolvedValue({ budgetedUsd: 1000 } as any);
+
+      await portfolioAllocationGuard.validateGridReservation("kraken", "BTC/USD", 300);
+      const [query, params] = vi.mocked(pool.query).mock.calls[0] as [string, unknown[]];
+      expect(query).toContain("exchange = $1");
+      expect(params).toEqual(["kraken", "BTC/USD"]);
+      expect(portfolioGlobalService.getBudget).toHaveBeenCalledWith("GRID", "kraken", "USD");
+    });
+
+    it("fails closed when the reservations cannot be read", async () => {
+      vi.mocked(pool.query).mockRejectedValue(new Error("connection lost"));
+      vi.mocked(portfolioGlobalService.getBudget).mockResolvedValue({ budgetedUsd: 1000 } as any);
+
+      const check = await portfolioAllocationGuard.validateGridReservation("revolutx", "ETH/USD", 100);
+      expect(check.passed).toBe(false);
+      expect(check.reason).toContain("PORTFOLIO_GRID_RESERVATIONS_UNAVAILABLE");
+    });
+  });
 });
@@ -23,8 +23,15 @@ vi.mock("../PortfolioAllocationGuard", () => ({
   },
 }));
 
+vi.mock("../PortfolioRiskService", () => ({
+  portfolioRiskService: {
+    checkOrder: vi.fn(async () => ({ allowed: true, breaches: [], reason: null })),
+  },
+}));
+
 import { portfolioGlobalService } from "../portfolioGlobalService";
 import { portfolioAllocationGuard } from "../PortfolioAllocationGuard";
+import { portfolioRiskService } from "../PortfolioRiskService";
 import { portfolioIntegrationAdapter } from "../PortfolioIntegrationAdapter";
 
 describe("PortfolioIntegrationAdapter", () => {
@@ -81,6 +88,26 @@ describe("PortfolioIntegrationAdapter", () => {
       expect(portfolioGlobalService.createReservation).not.toHaveBeenCalled();
     });
 
+    it("returns null when a portfolio risk limit would be breached", async () => {
+      vi.mocked(portfolioAllocationGuard.isModeAssetBlocked).mockResolvedValue(false);
+      vi.mocked(portfolioRiskService.checkOrder).mockResolvedValueOnce({
+        allowed: false,
+        breaches: [{ asset: "BTC", metric: "EXPOSURE_USD", value: 5500, limit: 5000 }],
+        reason: "RISK_LIMIT: BTC EXPOSURE_USD 5500.00 > 5000.00",
+      });
+
+      const result = await portfolioIntegrationAdapter.beforeOrder({
+        mode: "IDCA",
+        exchange: "kraken",
+        asset: "BTC",
+        amountUsd: 500,
+      });
+
+      expect(result).toBeNull();
+      expect(portfolioRiskService.checkOrder).toHaveBeenCalledWith({ mode: "IDCA", asset: "BTC", amountUsd: 500 });
+      expect(portfolioGlobalService.createReservation).not.toHaveBeenCalled();
+    });
+
     it("returns null and releases reservation when lock fails", async () => {
       vi.mocked(portfolioAllocationGuard.isModeAssetBlocked).mockResolvedValue(false);
       vi.mocked(portfolioGlobalService.createReservation).mockResolvedValue({
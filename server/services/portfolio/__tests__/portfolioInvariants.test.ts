@@ -49,6 +49,12 @@ vi.mock("../PortfolioReconciliationService", () => ({
   },
 }));
 
+vi.mock("../PortfolioRiskService", () => ({
+  portfolioRiskService: {
+    checkOrder: vi.fn(async () => ({ allowed: true, breaches: [], reason: null })),
+  },
+}));
+
 import { pool } from "../../../db";
 import { portfolioGlobalService } from "../portfolioGlobalService";
 import { portfolioAllocationGuard } from "../PortfolioAllocationGuard";
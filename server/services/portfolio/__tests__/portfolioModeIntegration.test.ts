@@ -36,6 +36,12 @@ vi.mock("../PortfolioAllocationGuard", () => ({
   },
 }));
 
+vi.mock("../PortfolioRiskService", () => ({
+  portfolioRiskService: {
+    checkOrder: vi.fn(async () => ({ allowed: true, breaches: [], reason: null })),
+  },
+}));
+
 import { portfolioGlobalService } from "../portfolioGlobalService";
 import { portfolioAllocationGuard } from "../PortfolioAllocationGuard";
 import { portfolioIntegrationAdapter } from "../PortfolioIntegrationAdapter";
@@ -0,0 +1,164 @@
+/**
+ * Portfolio Risk — exposure aggregation, VaR/CVaR math and pre-trade limits
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../../../db", () => ({
+  pool: { query: vi.fn() },
+}));
+
+import {
+  MIN_RISK_OBSERVATIONS,
+  correlationMatrix,
+  dailyReturns,
+  historicalVarCvar,
+  inverseNormalCdf,
+  parametricVar,
+} from "../portfolioRiskMath";
+import { PortfolioRiskService, type RiskDataSource } from "../PortfolioRiskService";
+import type { RiskLimit } from "../portfolioTypes";
+
+const DAY = 86_400_000;
+
+/** Closes that replay the given daily returns starting at 100. */
+function closesFrom(returns: number[]) {
+  const out = [{ time: 0, close: 100 }];
+  returns.forEach((r, i) => out.push({ time: (i + 1) * DAY, close: out[i].close * (1 + r) }));
+  return out;
+}
+
+/** 100 returns: -5%, -4%, ..., alternating with small gains. */
+const BTC_RETURNS = Array.from({ length: 100 }, (_, i) => (i < 5 ? -(i + 1) / 100 : (i % 2 ? 0.01 : -0.005)));
+
+function limit(asset: string, patch: Partial<RiskLimit>): RiskLimit {
+  return {
+    asset, maxExposureUsd: null, maxExposurePct: null, maxVarUsd: null, maxCvarUsd: null,
+    enabled: true, updatedBy: null, updatedAt: null, ...patch,
+  };
+}
+
+function source(overrides: Partial<RiskDataSource> = {}): RiskDataSource {
+  return {
+    getExposures: async () => [
+      { mode: "IDCA", asset: "BTC", quantity: 0.05, costBasisUsd: 2500 },
+      { mode: "GRID", asset: "BTC", quantity: 0.05, costBasisUsd: 2400 },
+      { mode: "AMA", asset: "ETH", quantity: 1, costBasisUsd: 3000 },
+    ],
+    getPendingUsd: async () => [{ mode: "SPOT_NORMAL", asset: "BTC", amountUsd: 1000 }],
+    getLimits: async () => [],
+    getPriceUsd: async (asset) => (asset === "BTC" ? 60_000 : null),
+    getDailyCloses: async (asset) => closesFrom(asset === "BTC" ? BTC_RETURNS : BTC_RETURNS.map((r) => r * 2)),
+    getPortfolioValueUsd: async () => 20_000,
+    ...overrides,
+  };
+}
+
+describe("Portfolio Risk — math", () => {
+  it("computes daily simple returns keyed by candle time", () => {
+    const r = dailyReturns([{ time: DAY, close: 110 }, { time: 0, close: 100 }]);
+    expect(r.get(DAY)).toBeCloseTo(0.1);
+    expect(r.size).toBe(1);
+  });
+
+  it("historical VaR is the tail quantile loss and CVaR the tail mean", () => {
+    const pnl = BTC_RETURNS.map((r) => r * 10_000);
+    const result = historicalVarCvar(pnl, 0.95)!;
+    expect(result.varUsd).toBeCloseTo(100);   // 5th worst: -1%
+    expect(result.cvarUsd).toBeCloseTo(300);  // mean of -5..-1%
+  });
+
+  it("returns null with too few observations", () => {
+    expect(historicalVarCvar(new Array(MIN_RISK_OBSERVATIONS - 1).fill(-1), 0.95)).toBeNull();
+  });
+
+  it("correlation matrix and parametric VaR", () => {
+    const a = [0.01, -0.02, 0.03, -0.01];
+    const m = correlationMatrix([a, a.map((x) => -x)]);
+    expect(m[0][0]).toBe(1);
+    expect(m[0][1]).toBeCloseTo(-1);
+    // Perfectly hedged book has no parametric risk
+    expect(parametricVar([1000, 1000], [a, a.map((x) => -x)], 0.95)).toBeCloseTo(0);
+    expect(inverseNormalCdf(0.95)).toBeCloseTo(1.644854, 5);
+    expect(inverseNormalCdf(0.01)).toBeCloseTo(-2.326348, 5);
+  });
+});
+
+describe("Portfolio Risk — report", () => {
+  it("aggregates exposure per asset across modes and reservations", async () => {
+    const report = await new PortfolioRiskService(source()).getRiskReport();
+    const btc = report.assets.find((a) => a.asset === "BTC")!;
+    expect(btc.exposureUsd).toBeCloseTo(0.1 * 60_000 + 1000);
+    expect(btc.byModeUsd).toEqual({ IDCA: 3000, GRID: 3000, SPOT_NORMAL: 1000 });
+    expect(btc.sharePct).toBeCloseTo(35);
+
+    // No live price → marked at cost basis
+    const eth = report.assets.find((a) => a.asset === "ETH")!;
+    expect(eth.exposureUsd).toBeCloseTo(3000);
+    expect(report.totalExposureUsd).toBeCloseTo(10_000);
+  });
+
+  it("portfolio VaR of perfectly correlated assets equals the sum of standalone VaRs", async () => {
+    const report = await new PortfolioRiskService(source()).getRiskReport();
+    expect(report.portfolio.varUsd).not.toBeNull();
+    expect(report.portfolio.varUsd!).toBeCloseTo(report.portfolio.undiversifiedVarUsd!);
+    expect(report.correlations.assets).toEqual(["BTC", "ETH"]);
+    expect(report.correlations.matrix[0][1]).toBeCloseTo(1);
+  });
+
+  it("negatively correlated history yields a diversification benefit", async () => {
+    const report = await new PortfolioRiskService(source({
+      getDailyCloses: async (asset) => closesFrom(asset === "BTC" ? BTC_RETURNS : BTC_RETURNS.map((r) => -r)),
+    })).getRiskReport();
+    expect(report.portfolio.diversificationBenefitUsd!).toBeGreaterThan(0);
+    expect(report.correlations.matrix[0][1]).toBeCloseTo(-1);
+  });
+});
+
+describe("Portfolio Risk — checkOrder", () => {
+  it("allows everything when no limits are configured", async () => {
+    const getExposures = vi.fn(source().getExposures);
+    const result = await new PortfolioRiskService(source({ getExposures }))
+      .checkOrder({ mode: "IDCA", asset: "BTC", amountUsd: 1_000_000 });
+    expect(result.allowed).toBe(true);
+    expect(getExposures).not.toHaveBeenCalled();
+  });
+
+  it("blocks an order that pushes the asset over its exposure limit", async () => {
+    const svc = new PortfolioRiskService(source({ getLimits: async () => [limit("BTC", { maxExposureUsd: 7500 })] }));
+    expect((await svc.checkOrder({ mode: "AMA", asset: "btc", amountUsd: 400 })).allowed).toBe(true);
+
+    const blocked = await svc.checkOrder({ mode: "AMA", asset: "BTC", amountUsd: 600 });
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.breaches[0]).toMatchObject({ asset: "BTC", metric: "EXPOSURE_USD", limit: 7500 });
+    expect(blocked.reason).toContain("RISK_LIMIT");
+  });
+
+  it("enforces portfolio-wide VaR and ignores limits of other assets", async () => {
+    const ethOnly = new PortfolioRiskService(source({ getLimits: async () => [limit("ETH", { maxExposureUsd: 1 })] }));
+    expect((await ethOnly.checkOrder({ mode: "IDCA", asset: "BTC", amountUsd: 100 })).allowed).toBe(true);
+
+    const portfolio = new PortfolioRiskService(source({ getLimits: async () => [limit("*", { maxVarUsd: 50 })] }));
+    const result = await portfolio.checkOrder({ mode: "IDCA", asset: "BTC", amountUsd: 100 });
+    expect(result.allowed).toBe(false);
+    expect(result.breaches[0].metric).toBe("VAR");
+  });
+
+  it("skips VaR limits when history is insufficient and ignores disabled limits", async () => {
+    const svc = new PortfolioRiskService(source({
+      getDailyCloses: async () => closesFrom([0.01, -0.01]),
+      getLimits: async () => [limit("BTC", { maxVarUsd: 1 }), limit("*", { maxExposurePct: 1, enabled: false })],
+    }));
+    expect((await svc.checkOrder({ mode: "GRID", asset: "BTC", amountUsd: 100 })).allowed).toBe(true);
+  });
+
+  it("fails closed when the risk computation throws", async () => {
+    const svc = new PortfolioRiskService(source({
+      getLimits: async () => [limit("BTC", { maxExposureUsd: 1e9 })],
+      getExposures: async () => { throw new Error("db down"); },
+    }));
+    const result = await svc.checkOrder({ mode: "IDCA", asset: "BTC", amountUsd: 100 });
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain("RISK_CHECK_FAILED");
+  });
+});
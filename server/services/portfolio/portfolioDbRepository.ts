@@ -27,6 +27,8 @@ import type {
   OrderLock,
   LockStatus,
   ReconciliationRun,
+  ModeExposure,
+  RiskLimit,
 } from "./portfolioTypes";
 
 // ─── Budgets (portfolio_mode_budgets) ────────────────────────────────
@@ -593,6 +595,90 @@ export async function dbGetPortfolioSummary(): Promise<PortfolioSummary> {
   };
 }
 
+// ─── Risk (engine exposure + portfolio_risk_limits) ──────────────────
+
+const SPOT_EXPOSURE_SQL = `
+  SELECT pair, COALESCE(SUM(COALESCE(qty_remaining, amount)), 0) AS quantity,
+         COALESCE(SUM(COALESCE(qty_remaining, amount) * entry_price), 0) AS cost_usd
+    FROM open_positions
+   GROUP BY pair`;
+
+const IDCA_EXPOSURE_SQL = `
+  SELECT pair, COALESCE(SUM(total_quantity), 0) AS quantity,
+         COALESCE(SUM(capital_used_usd), 0) AS cost_usd
+    FROM institutional_dca_cycles
+   WHERE mode = 'live' AND status <> 'closed'
+   GROUP BY pair`;
+
+const GRID_EXPOSURE_SQL = `
+  SELECT g.pair, COALESCE(SUM(g.quantity), 0) AS quantity,
+         COALESCE(SUM(g.quantity * COALESCE(g.buy_price, 0)), 0) AS cost_usd
+    FROM grid_isolated_cycles g
+   WHERE g.status IN ('buy_filled', 'sell_placed', 'hodl_recovery')
+     AND (SELECT c.mode FROM grid_isolated_configs c WHERE c.pair = g.pair ORDER BY c.id DESC LIMIT 1)
+         IN ('REAL_LIMITED', 'REAL_FULL')
+   GROUP BY g.pair`;
+
+const AMA_EXPOSURE_SQL = `
+  SELECT pair, COALESCE(SUM(accumulated_quantity), 0) AS quantity,
+         COALESCE(SUM(deployed_usd), 0) AS cost_usd
+    FROM ama_cycles
+   WHERE closed_at IS NULL AND mode IN ('REAL_LIMITED', 'REAL_FULL')
+   GROUP BY pair`;
+
+/**
+ * Real (non-simulated) inventory held by each engine, per base asset.
+ * A missing engine table contributes nothing instead of failing the whole read.
+ */
+export async function dbGetModeExposures(): Promise<ModeExposure[]> {
+  const sources: [OperationalMode, string][] = [
+    ["SPOT_NORMAL", SPOT_EXPOSURE_SQL],
+    ["IDCA", IDCA_EXPOSURE_SQL],
+    ["GRID", GRID_EXPOSURE_SQL],
+    ["AMA", AMA_EXPOSURE_SQL],
+  ];
+  const results = await Promise.all(sources.map(async ([mode, sql]) => {
+    try {
+      const res = await pool.query(sql);
+      return res.rows.map((row: any): ModeExposure => ({
+        mode,
+        asset: String(row.pair).split("/")[0].toUpperCase(),
+        quantity: parseFloat(row.quantity) || 0,
+        costBasisUsd: parseFloat(row.cost_usd) || 0,
+      }));
+    } catch (err: any) {
+      console.warn(`[portfolio] exposure read failed for ${mode}: ${err.message}`);
+      return [];
+    }
+  }));
+  return results.flat().filter((e) => e.quantity > 0);
+}
+
+export async function dbGetRiskLimits(): Promise<RiskLimit[]> {
+  const res = await pool.query(`SELECT * FROM portfolio_risk_limits ORDER BY asset`);
+  return res.rows.map(rowToRiskLimit);
+}
+
+export async function dbUpsertRiskLimit(limit: Omit<RiskLimit, "updatedAt">): Promise<RiskLimit> {
+  const res = await pool.query(
+    `INSERT INTO portfolio_risk_limits
+       (asset, max_exposure_usd, max_exposure_pct, max_var_usd, max_cvar_usd, enabled, updated_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (asset) DO UPDATE SET
+       max_exposure_usd = $2, max_exposure_pct = $3, max_var_usd = $4, max_cvar_usd = $5,
+       enabled = $6, updated_by = $7, updated_at = NOW()
+     RETURNING *`,
+    [limit.asset, limit.maxExposureUsd, limit.maxExposurePct, limit.maxVarUsd,
+     limit.maxCvarUsd, limit.enabled, limit.updatedBy],
+  );
+  return rowToRiskLimit(res.rows[0]);
+}
+
+export async function dbDeleteRiskLimit(asset: string): Promise<boolean> {
+  const res = await pool.query(`DELETE FROM portfolio_risk_limits WHERE asset = $1 RETURNING asset`, [asset]);
+  return res.rows.length > 0;
+}
+
 // ─── Row Mappers ─────────────────────────────────────────────────────
 
 function rowToBudget(row: any): ModeBudget {
@@ -728,3 +814,17 @@ function rowToReconciliationRun(row: any): ReconciliationRun {
     createdAt: row.created_at,
   };
 }
+
+function rowToRiskLimit(row: any): RiskLimit {
+  const num = (v: any) => (v === null || v === undefined ? null : parseFloat(v));
+  return {
+    asset: row.asset,
+    maxExposureUsd: num(row.max_exposure_usd),
+    maxExposurePct: num(row.max_exposure_pct),
+    maxVarUsd: num(row.max_var_usd),
+    maxCvarUsd: num(row.max_cvar_usd),
+    enabled: row.enabled !== false,
+    updatedBy: row.updated_by ?? null,
+    updatedAt: row.updated_at ?? null,
+  };
+}
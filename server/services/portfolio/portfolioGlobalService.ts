@@ -24,6 +24,8 @@ import type {
   ReservationStatus,
   OrderLock,
   ReconciliationRun,
+  ModeExposure,
+  RiskLimit,
 } from "./portfolioTypes";
 import {
   validateModeBudget,
@@ -293,6 +295,24 @@ class PortfolioGlobalService {
     return dbRepo.dbGetPortfolioSummary();
   }
 
+  // ─── Risk ─────────────────────────────────────────────────────────
+
+  async getModeExposures(): Promise<ModeExposure[]> {
+    return dbRepo.dbGetModeExposures();
+  }
+
+  async getRiskLimits(): Promise<RiskLimit[]> {
+    return dbRepo.dbGetRiskLimits();
+  }
+
+  async setRiskLimit(limit: Omit<RiskLimit, "updatedAt">): Promise<RiskLimit> {
+    return dbRepo.dbUpsertRiskLimit(limit);
+  }
+
+  async deleteRiskLimit(asset: string): Promise<boolean> {
+    return dbRepo.dbDeleteRiskLimit(asset);
+  }
+
   // ─── Validation ───────────────────────────────────────────────────
 
   async validateAllBudgets(): Promise<{ mode: OperationalMode; errors: string[] }[]> {
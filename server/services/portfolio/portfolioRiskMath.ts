@@ -0,0 +1,118 @@
+/**
+ * Portfolio risk math — pure functions, no I/O.
+ *
+ * Conventions:
+ *   - Returns are daily simple returns keyed by the candle open time (ms).
+ *   - P&L series are in USD; a loss is a negative value.
+ *   - VaR / CVaR are reported as positive USD losses (0 when the tail is a gain).
+ */
+
+/** Fewer aligned daily observations than this and VaR is not reported. */
+export const MIN_RISK_OBSERVATIONS = 30;
+
+export interface DailyClose {
+  time: number;
+  close: number;
+}
+
+export function dailyReturns(closes: DailyClose[]): Map<number, number> {
+  const sorted = [...closes]
+    .filter((c) => Number.isFinite(c.close) && c.close > 0)
+    .sort((a, b) => a.time - b.time);
+  const out = new Map<number, number>();
+  for (let i = 1; i < sorted.length; i++) {
+    out.set(sorted[i].time, sorted[i].close / sorted[i - 1].close - 1);
+  }
+  return out;
+}
+
+/** Days present in every series, ascending. */
+export function commonDays(series: Map<number, number>[]): number[] {
+  if (series.length === 0) return [];
+  const [first, ...rest] = series;
+  return Array.from(first.keys())
+    .filter((t) => rest.every((s) => s.has(t)))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Historical VaR / CVaR of a P&L sample.
+ * VaR is the loss at the (1 - confidence) quantile; CVaR the mean of the losses at or beyond it.
+ */
+export function historicalVarCvar(
+  pnl: number[],
+  confidence: number,
+): { varUsd: number; cvarUsd: number } | null {
+  if (pnl.length < MIN_RISK_OBSERVATIONS) return null;
+  const sorted = [...pnl].sort((a, b) => a - b);
+  // epsilon: (1 - 0.95) * 100 is 5.000000000000004 in floating point
+  const tail = Math.max(1, Math.ceil((1 - confidence) * sorted.length - 1e-9));
+  const varUsd = Math.max(0, -sorted[tail - 1]);
+  const tailMean = sorted.slice(0, tail).reduce((s, v) => s + v, 0) / tail;
+  return { varUsd, cvarUsd: Math.max(0, -tailMean) };
+}
+
+export function stdDev(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+export function covariance(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const ma = a.slice(0, n).reduce((s, v) => s + v, 0) / n;
+  const mb = b.slice(0, n).reduce((s, v) => s + v, 0) / n;
+  let acc = 0;
+  for (let i = 0; i < n; i++) acc += (a[i] - ma) * (b[i] - mb);
+  return acc / (n - 1);
+}
+
+/** Pearson correlation matrix; a constant series correlates 0 with others and 1 with itself. */
+export function correlationMatrix(series: number[][]): number[][] {
+  const sd = series.map((s) => Math.sqrt(covariance(s, s)));
+  return series.map((a, i) =>
+    series.map((b, j) => {
+      if (i === j) return 1;
+      if (sd[i] === 0 || sd[j] === 0) return 0;
+      return clamp(covariance(a, b) / (sd[i] * sd[j]), -1, 1);
+    }),
+  );
+}
+
+/** Variance-covariance VaR: z · sqrt(eᵀ Σ e) with exposures e in USD. */
+export function parametricVar(exposuresUsd: number[], returns: number[][], confidence: number): number {
+  let variance = 0;
+  for (let i = 0; i < exposuresUsd.length; i++) {
+    for (let j = 0; j < exposuresUsd.length; j++) {
+      variance += exposuresUsd[i] * exposuresUsd[j] * covariance(returns[i], returns[j]);
+    }
+  }
+  return inverseNormalCdf(confidence) * Math.sqrt(Math.max(0, variance));
+}
+
+/** Acklam's rational approximation of the standard normal quantile (|error| < 1.15e-9). */
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error(`inverseNormalCdf: p must be in (0, 1), got ${p}`);
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -inverseNormalCdf(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, v));
+}
@@ -371,3 +371,78 @@ export function detectDoubleCounting(
 
   return issues;
 }
+
+// ─── Portfolio Risk ──────────────────────────────────────────────────
+
+/** Live position of one mode in one asset, read from the engine tables. */
+export interface ModeExposure {
+  mode: OperationalMode;
+  asset: string;
+  quantity: number;
+  costBasisUsd: number;
+}
+
+/** asset = "BTC", "ETH"... or PORTFOLIO_RISK_SCOPE for the whole portfolio. null = no limit. */
+export interface RiskLimit {
+  asset: string;
+  maxExposureUsd: number | null;
+  maxExposurePct: number | null;
+  maxVarUsd: number | null;
+  maxCvarUsd: number | null;
+  enabled: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export const PORTFOLIO_RISK_SCOPE = "*";
+
+export type RiskMetric = "EXPOSURE_USD" | "EXPOSURE_PCT" | "VAR" | "CVAR";
+
+export interface RiskBreach {
+  asset: string;
+  metric: RiskMetric;
+  value: number;
+  limit: number;
+}
+
+export interface AssetRiskExposure {
+  asset: string;
+  priceUsd: number | null;
+  quantity: number;
+  exposureUsd: number;
+  pendingUsd: number;
+  byModeUsd: Partial<Record<OperationalMode, number>>;
+  sharePct: number | null;
+  dailyVolatilityPct: number | null;
+  varUsd: number | null;
+  cvarUsd: number | null;
+  observations: number;
+}
+
+export interface PortfolioRiskReport {
+  generatedAt: string;
+  confidence: number;
+  lookbackDays: number;
+  portfolioValueUsd: number | null;
+  totalExposureUsd: number;
+  assets: AssetRiskExposure[];
+  portfolio: {
+    varUsd: number | null;
+    cvarUsd: number | null;
+    /** Sum of standalone VaRs (perfect correlation) */
+    undiversifiedVarUsd: number | null;
+    diversificationBenefitUsd: number | null;
+    /** Variance-covariance VaR (normal) using the sample correlation */
+    parametricVarUsd: number | null;
+    observations: number;
+  };
+  correlations: { assets: string[]; matrix: number[][] };
+  limits: RiskLimit[];
+  breaches: RiskBreach[];
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  breaches: RiskBreach[];
+  reason: string | null;
+}
@@ -11,6 +11,7 @@
 import { WebSocketServer, WebSocket } from "ws";
 import type { Server } from "http";
 import { log } from "../utils/logger";
+import { authenticateUpgrade } from "./auth/authMiddleware";
 
 const WS_PATH = "/ws/positions";
 const HEARTBEAT_INTERVAL = 30000;
@@ -50,14 +51,10 @@ class PositionsWebSocketServer {
       const client = ws as WsClient;
       const clientIp = req.socket.remoteAddress || "unknown";
       
-      // Simple auth check (same as eventsWebSocket)
-      const url = new URL(req.url || "", `http://${req.headers.host}`);
-      const token = url.searchParams.get("token") || 
-                    req.headers.authorization?.replace("Bearer ", "");
-      const expectedToken = process.env.WS_ADMIN_TOKEN;
-
-      if (expectedToken && token !== expectedToken) {
-        log(`[WS/positions] Rejected - invalid token from ${clientIp}`, "websocket");
+      // Same users/tokens as the REST API (viewer or above)
+      const auth = await authenticateUpgrade(req, "viewer");
+      if (auth.reason) {
+        log(`[WS/positions] Rejected - ${auth.reason} from ${clientIp}`, "websocket");
         client.close(4001, "Unauthorized");
         return;
       }
@@ -29,6 +29,25 @@ export function getSpreadThresholdForRegime(regime: string | null, config: any):
   return Math.min(raw, capPct);
 }
 
+/**
+ * Floor/threshold decision for an already-computed effective spread.
+ * Shared by SpreadFilter.checkSpreadForBuy and the candle backtester.
+ */
+export function classifyEffectiveSpread(
+  spreadEffectivePct: number,
+  regime: string | null,
+  config: any,
+): { decision: "ALLOW" | "REJECT"; belowFloor: boolean; thresholdPct: number; floorPct: number; capPct: number } {
+  const floorPct = parseFloat(config?.spreadFloorPct?.toString() || "0.30");
+  const capPct = parseFloat(config?.spreadCapPct?.toString() || "3.50");
+  const thresholdPct = getSpreadThresholdForRegime(regime, config);
+  if (spreadEffectivePct < floorPct) {
+    return { decision: "ALLOW", belowFloor: true, thresholdPct, floorPct, capPct };
+  }
+  const decision = spreadEffectivePct > thresholdPct ? "REJECT" : "ALLOW";
+  return { decision, belowFloor: false, thresholdPct, floorPct, capPct };
+}
+
 // === Result type ===
 
 export interface SpreadCheckDetails {
@@ -36,6 +55,7 @@ export interface SpreadCheckDetails {
   spreadKrakenPct: number; spreadEffectivePct: number;
   thresholdPct: number; floorPct: number; capPct: number;
   revolutxMarkupPct: number;
+  depthSlippagePct: number;
   markupSource: "dynamic" | "fixed" | "none";
   markupSamples: number;
   markupEma: number;
@@ -73,6 +93,7 @@ export class SpreadFilter {
     ticker: { bid: number; ask: number; last: number },
     regime: string | null,
     config: any,
+    depthSlippagePct: number | null = null,
   ): Promise<SpreadCheckResult> {
     const tradingExchange = this.host.getTradingExchangeType();
     const dataExchange = this.host.getDataExchangeType();
@@ -82,7 +103,7 @@ export class SpreadFilter {
       return { ok: true, details: {
         bid: ticker.bid, ask: ticker.ask, mid: (ticker.bid + ticker.ask) / 2,
         spreadKrakenPct: 0, spreadEffectivePct: 0,
-        thresholdPct: 0, floorPct: 0, capPct: 0, revolutxMarkupPct: 0,
+        thresholdPct: 0, floorPct: 0, capPct: 0, revolutxMarkupPct: 0, depthSlippagePct: 0,
         markupSource: "none", markupSamples: 0, markupEma: 0,
         tradingExchange, dataExchange,
         decision: "ALLOW", reason: "Spread filter disabled in config",
@@ -102,7 +123,7 @@ export class SpreadFilter {
       return { ok: false, details: {
         bid, ask, mid: 0,
         spreadKrakenPct: 0, spreadEffectivePct: 0,
-        thresholdPct: 0, floorPct: 0, capPct: 0, revolutxMarkupPct: 0,
+        thresholdPct: 0, floorPct: 0, capPct: 0, revolutxMarkupPct: 0, depthSlippagePct: 0,
         markupSource: "none", markupSamples: 0, markupEma: 0,
         tradingExchange, dataExchange,
         decision: "SKIP_MISSING_DATA", reason: "bid/ask data invalid or missing",
@@ -135,16 +156,18 @@ export class SpreadFilter {
       markupSource = "none";
     }
 
-    const spreadEffectivePct = spreadKrakenPct + revolutxMarkupPct;
-    const floorPct = parseFloat(config?.spreadFloorPct?.toString() || "0.30");
-    const capPct = parseFloat(config?.spreadCapPct?.toString() || "3.50");
-    const thresholdPct = getSpreadThresholdForRegime(regime, config);
+    // Order-book depth: slippage beyond top of book for the reference notional
+    const depthSlippage = depthSlippagePct != null && depthSlippagePct > 0 ? depthSlippagePct : 0;
+
+    const spreadEffectivePct = spreadKrakenPct + revolutxMarkupPct + depthSlippage;
+    const classification = classifyEffectiveSpread(spreadEffectivePct, regime, config);
+    const { floorPct, capPct, thresholdPct } = classification;
 
     // FLOOR: if effective spread < floor, always allow (micro-noise)
-    if (spreadEffectivePct < floorPct) {
+    if (classification.belowFloor) {
       return { ok: true, details: {
         bid, ask, mid, spreadKrakenPct, spreadEffectivePct,
-        thresholdPct, floorPct, capPct, revolutxMarkupPct,
+        thresholdPct, floorPct, capPct, revolutxMarkupPct, depthSlippagePct: depthSlippage,
         markupSource, markupSamples, markupEma,
         tradingExchange, dataExchange,
         decision: "ALLOW", reason: `Spread ${spreadEffectivePct.toFixed(3)}% < floor ${floorPct}%`,
@@ -152,8 +175,8 @@ export class SpreadFilter {
     }
 
     // Decision: block if effective spread > threshold
-    const blocked = spreadEffectivePct > thresholdPct;
-    const decision = blocked ? "REJECT" as const : "ALLOW" as const;
+    const blocked = classification.decision === "REJECT";
+    const decision = classification.decision;
     const reason = blocked
       ? `Spread ${spreadEffectivePct.toFixed(3)}% > threshold ${thresholdPct.toFixed(2)}% (regime=${regime || "NONE"})`
       : `Spread ${spreadEffectivePct.toFixed(3)}% <= threshold ${thresholdPct.toFixed(2)}%`;
@@ -167,6 +190,7 @@ export class SpreadFilter {
         bid, ask, mid,
         spreadKrakenPct: parseFloat(spreadKrakenPct.toFixed(4)),
         revolutxMarkupPct,
+        depthSlippagePct: parseFloat(depthSlippage.toFixed(4)),
         spreadEffectivePct: parseFloat(spreadEffectivePct.toFixed(4)),
         thresholdPct, capPct, floorPct,
         decision: "REJECT",
@@ -182,7 +206,7 @@ export class SpreadFilter {
 
     return { ok: !blocked, details: {
       bid, ask, mid, spreadKrakenPct, spreadEffectivePct,
-      thresholdPct, floorPct, capPct, revolutxMarkupPct,
+      thresholdPct, floorPct, capPct, revolutxMarkupPct, depthSlippagePct: depthSlippage,
       markupSource, markupSamples, markupEma,
       tradingExchange, dataExchange, decision, reason,
     }};
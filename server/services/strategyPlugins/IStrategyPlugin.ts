@@ -0,0 +1,80 @@
+/**
+ * IStrategyPlugin — contract for Spot entry strategies.
+ *
+ * A plugin is a stateless signal producer plus the metadata the engine and the
+ * UI need to run it: which signal mode it works in, required timeframes,
+ * warm-up length, the regime it is meant for and the exit profile it was
+ * designed around.
+ *
+ * Implementations:
+ *   builtinStrategies.ts → momentum, mean_reversion, scalping, grid (cycle)
+ *                          momentum_candles, mean_reversion_simple (candles)
+ *   STRATEGY_PLUGIN_MODULES → extra modules loaded at startup (see StrategyRegistry)
+ *
+ * Contract:
+ *   - analyze() MUST be pure: no I/O, no orders, no engine state.
+ *   - Gates, sizing and exits stay in TradingEngine; the plugin only emits TradeSignal.
+ */
+
+import type { OHLCCandle, PriceData } from "../indicators";
+import type { MarketRegime } from "../regimeDetection";
+import type { TradeSignal } from "../strategies";
+
+/**
+ * cycle   → evaluated every engine cycle on the rolling ticker history
+ * candles → evaluated on each closed candle of bot_config.signalTimeframe
+ */
+export type StrategySignalMode = "cycle" | "candles";
+
+export type StrategyTimeframe = "5m" | "15m" | "1h";
+
+export interface StrategyParamSchema {
+  key: string;
+  label: string;
+  type: "number" | "boolean";
+  default: number | boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  description: string;
+}
+
+/** SMART_GUARD exit parameters the strategy was tuned with (percent values). */
+export interface StrategyExitProfile {
+  sgBeAtPct: number;
+  sgTrailDistancePct: number;
+  sgTrailStepPct: number;
+  sgTpFixedPct: number;
+}
+
+export interface StrategyContext {
+  pair: string;
+  currentPrice: number;
+  /** Rolling ticker history (cycle mode). Empty in candle mode. */
+  history: PriceData[];
+  /** Closed candles, oldest first (candle mode). Empty in cycle mode. */
+  candles: OHLCCandle[];
+  /** Regime-adjusted minimum signals, when the engine computed one. */
+  minSignals?: number;
+  regime?: MarketRegime | null;
+  /** Values for the keys declared in paramsSchema; missing keys use their default. */
+  params: Record<string, number | boolean>;
+}
+
+export interface IStrategyPlugin {
+  id: string;
+  name: string;
+  description: string;
+  signalMode: StrategySignalMode;
+  /** Candle timeframes the strategy supports (empty for cycle strategies). Other timeframes → hold. */
+  timeframes: StrategyTimeframe[];
+  /** Minimum history (ticks or closed candles); the engine holds without calling analyze() below it. */
+  warmupLength: number;
+  /** Scan interval when this is the global cycle-mode strategy. */
+  cycleIntervalMs: number;
+  preferredRegimes: MarketRegime[];
+  /** SMART_GUARD base for positions this plugin opens through a per-pair assignment. */
+  defaultExitProfile: StrategyExitProfile;
+  paramsSchema: StrategyParamSchema[];
+  analyze(ctx: StrategyContext): TradeSignal;
+}
@@ -0,0 +1,143 @@
+/**
+ * StrategyRegistry — catalogue of Spot strategy plugins.
+ *
+ * Built-in strategies are registered on construction. Extra strategies are
+ * plain modules listed in STRATEGY_PLUGIN_MODULES (comma-separated paths,
+ * relative to the process cwd) that export an IStrategyPlugin as default or
+ * an array as `strategies`; they are loaded once at startup.
+ *
+ * Per-pair assignment lives in bot_config.pair_strategies ({ "BTC/USD": "grid" }).
+ * An assignment only applies when the plugin's signalMode matches the mode the
+ * engine is running in; otherwise the global strategy / router is used.
+ */
+
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { log } from "../../utils/logger";
+import type { MarketRegime } from "../regimeDetection";
+import { BUILTIN_STRATEGIES, MOMENTUM_CANDLES_ID } from "./builtinStrategies";
+import type { IStrategyPlugin, StrategySignalMode, StrategyTimeframe } from "./IStrategyPlugin";
+
+export type StrategyDescriptor = Omit<IStrategyPlugin, "analyze"> & { builtin: boolean; source: string };
+
+const STRATEGY_ID_RE = /^[a-z][a-z0-9_]{1,47}$/;
+
+/**
+ * Why the plugin cannot run yet on this input, or null when it can: the signal
+ * timeframe must be one it declares (candle mode) and `available` ticks/closed
+ * candles must cover its warm-up.
+ */
+export function pluginNotReadyReason(plugin: IStrategyPlugin, available: number, timeframe?: string): string | null {
+  if (plugin.signalMode === "candles" && !plugin.timeframes.includes(timeframe as StrategyTimeframe)) {
+    return `${plugin.id} no soporta timeframe ${timeframe ?? "N/A"} (${plugin.timeframes.join(", ") || "ninguno"})`;
+  }
+  if (available < plugin.warmupLength) {
+    return `Warm-up ${plugin.id}: ${available}/${plugin.warmupLength} ${plugin.signalMode === "candles" ? "velas" : "ticks"}`;
+  }
+  return null;
+}
+
+export class StrategyRegistry {
+  private plugins = new Map<string, { plugin: IStrategyPlugin; builtin: boolean; source: string }>();
+  private externalLoaded = false;
+
+  constructor(builtins: IStrategyPlugin[] = BUILTIN_STRATEGIES) {
+    for (const plugin of builtins) this.register(plugin, { builtin: true, source: "builtin" });
+  }
+
+  register(plugin: IStrategyPlugin, opts: { builtin?: boolean; source?: string } = {}): void {
+    if (!plugin || typeof plugin.analyze !== "function") {
+      throw new Error("Strategy plugin must implement analyze()");
+    }
+    if (!STRATEGY_ID_RE.test(plugin.id)) {
+      throw new Error(`Invalid strategy id "${plugin.id}" (lowercase, digits and _; 2-48 chars)`);
+    }
+    if (this.plugins.has(plugin.id)) {
+      throw new Error(`Strategy "${plugin.id}" is already registered`);
+    }
+    if (plugin.signalMode !== "cycle" && plugin.signalMode !== "candles") {
+      throw new Error(`Strategy "${plugin.id}" has invalid signalMode "${plugin.signalMode}"`);
+    }
+    this.plugins.set(plugin.id, { plugin, builtin: !!opts.builtin, source: opts.source ?? "runtime" });
+  }
+
+  get(id: string | null | undefined): IStrategyPlugin | undefined {
+    return id ? this.plugins.get(id)?.plugin : undefined;
+  }
+
+  has(id: string): boolean {
+    return this.plugins.has(id);
+  }
+
+  list(mode?: StrategySignalMode): IStrategyPlugin[] {
+    return Array.from(this.plugins.values())
+      .map(e => e.plugin)
+      .filter(p => !mode || p.signalMode === mode);
+  }
+
+  /** Metadata for the API/UI (no functions). */
+  describe(): StrategyDescriptor[] {
+    return Array.from(this.plugins.values()).map(({ plugin, builtin, source }) => {
+      const { analyze: _analyze, ...meta } = plugin;
+      return { ...meta, builtin, source };
+    });
+  }
+
+  /**
+   * First registered candle-mode plugin (other than momentum_candles, the
+   * router's default) that prefers the given regime. Built-ins come first.
+   */
+  findForRegime(regime: MarketRegime, mode: StrategySignalMode): IStrategyPlugin | undefined {
+    return this.list(mode).find(p => p.id !== MOMENTUM_CANDLES_ID && p.preferredRegimes.includes(regime));
+  }
+
+  /** Plugin assigned to the pair in bot_config.pair_strategies, if it runs in `mode`. */
+  resolveForPair(pairStrategies: unknown, pair: string, mode: StrategySignalMode): IStrategyPlugin | undefined {
+    const assigned = pairStrategies && typeof pairStrategies === "object"
+      ? (pairStrategies as Record<string, unknown>)[pair]
+      : undefined;
+    if (typeof assigned !== "string") return undefined;
+    const plugin = this.get(assigned);
+    return plugin?.signalMode === mode ? plugin : undefined;
+  }
+
+  /** Returns an error message, or null when the assignment map is valid. */
+  validatePairStrategies(value: unknown): string | null {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      return "pairStrategies debe ser un objeto { par: estrategia }";
+    }
+    for (const [pair, id] of Object.entries(value as Record<string, unknown>)) {
+      if (typeof id !== "string" || !this.has(id)) {
+        return `Estrategia desconocida para ${pair}: ${String(id)}`;
+      }
+    }
+    return null;
+  }
+
+  /** Loads STRATEGY_PLUGIN_MODULES once. A broken module is logged and skipped. */
+  async loadExternalModules(spec = process.env.STRATEGY_PLUGIN_MODULES ?? ""): Promise<string[]> {
+    if (this.externalLoaded) return [];
+    this.externalLoaded = true;
+
+    const loaded: string[] = [];
+    for (const modulePath of spec.split(",").map(s => s.trim()).filter(Boolean)) {
+      try {
+        const mod = await import(pathToFileURL(path.resolve(modulePath)).href);
+        const plugins: IStrategyPlugin[] = Array.isArray(mod.strategies)
+          ? mod.strategies
+          : mod.default ? [mod.default] : [];
+        if (plugins.length === 0) throw new Error("no default export or `strategies` array");
+        for (const plugin of plugins) {
+          this.register(plugin, { source: modulePath });
+          loaded.push(plugin.id);
+        }
+        log(`[STRATEGY_REGISTRY] ${modulePath}: registered ${plugins.map(p => p.id).join(", ")}`, "trading");
+      } catch (e: any) {
+        log(`[STRATEGY_REGISTRY] Failed to load ${modulePath}: ${e?.message ?? String(e)}`, "trading");
+      }
+    }
+    return loaded;
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
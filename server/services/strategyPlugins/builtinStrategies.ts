@@ -0,0 +1,140 @@
+/**
+ * builtinStrategies.ts — the strategies shipped with the bot, wrapped as plugins.
+ *
+ * Signal logic stays in strategies.ts; this file only adds the metadata.
+ */
+
+import { REGIME_PRESETS, type MarketRegime } from "../regimeDetection";
+import {
+  momentumStrategy,
+  meanReversionStrategy,
+  scalpingStrategy,
+  gridStrategy,
+  momentumCandlesStrategy,
+  meanReversionSimpleStrategy,
+} from "../strategies";
+import type { IStrategyPlugin, StrategyExitProfile } from "./IStrategyPlugin";
+
+export const MOMENTUM_CANDLES_ID = "momentum_candles";
+
+function exitProfileFor(regime: MarketRegime): StrategyExitProfile {
+  const { sgBeAtPct, sgTrailDistancePct, sgTrailStepPct, sgTpFixedPct } = REGIME_PRESETS[regime];
+  return { sgBeAtPct, sgTrailDistancePct, sgTrailStepPct, sgTpFixedPct };
+}
+
+const momentum: IStrategyPlugin = {
+  id: "momentum",
+  name: "Momentum",
+  description: "Sigue tendencias fuertes del mercado",
+  signalMode: "cycle",
+  timeframes: [],
+  warmupLength: 26,
+  cycleIntervalMs: 30000,
+  preferredRegimes: ["TREND"],
+  defaultExitProfile: exitProfileFor("TREND"),
+  paramsSchema: [],
+  analyze: (ctx) => momentumStrategy(ctx.pair, ctx.history, ctx.currentPrice),
+};
+
+const meanReversion: IStrategyPlugin = {
+  id: "mean_reversion",
+  name: "Reversión a la Media",
+  description: "Opera cuando el precio se aleja de promedios",
+  signalMode: "cycle",
+  timeframes: [],
+  warmupLength: 20,
+  cycleIntervalMs: 30000,
+  preferredRegimes: ["RANGE"],
+  defaultExitProfile: exitProfileFor("RANGE"),
+  paramsSchema: [],
+  analyze: (ctx) => meanReversionStrategy(ctx.pair, ctx.history, ctx.currentPrice),
+};
+
+const scalping: IStrategyPlugin = {
+  id: "scalping",
+  name: "Scalping",
+  description: "Operaciones rápidas con pequeñas ganancias",
+  signalMode: "cycle",
+  timeframes: [],
+  warmupLength: 15,
+  cycleIntervalMs: 10000,
+  preferredRegimes: ["RANGE"],
+  defaultExitProfile: exitProfileFor("RANGE"),
+  paramsSchema: [],
+  analyze: (ctx) => scalpingStrategy(ctx.pair, ctx.history, ctx.currentPrice),
+};
+
+const grid: IStrategyPlugin = {
+  id: "grid",
+  name: "Grid Trading",
+  description: "Órdenes escalonadas en rangos de precio",
+  signalMode: "cycle",
+  timeframes: [],
+  warmupLength: 15,
+  cycleIntervalMs: 15000,
+  preferredRegimes: ["RANGE"],
+  defaultExitProfile: exitProfileFor("RANGE"),
+  paramsSchema: [],
+  analyze: (ctx) => gridStrategy(ctx.pair, ctx.history, ctx.currentPrice),
+};
+
+const momentumCandles: IStrategyPlugin = {
+  id: MOMENTUM_CANDLES_ID,
+  name: "Momentum Velas",
+  description: "EMA, RSI, MACD, Bollinger y patrones de vela al cierre de cada vela",
+  signalMode: "candles",
+  timeframes: ["5m", "15m", "1h"],
+  warmupLength: 28,
+  cycleIntervalMs: 30000,
+  preferredRegimes: ["TREND", "TRANSITION"],
+  defaultExitProfile: exitProfileFor("TREND"),
+  paramsSchema: [
+    {
+      key: "minSignals",
+      label: "Señales mínimas",
+      type: "number",
+      default: 5,
+      min: 1,
+      max: 10,
+      step: 1,
+      description: "Señales a favor necesarias para comprar; el motor la ajusta por régimen (config de señales)",
+    },
+    {
+      key: "signalScoringEnabled",
+      label: "Scoring ponderado",
+      type: "boolean",
+      default: false,
+      description: "Usa la puntuación ponderada de indicadores además del conteo (feature flag signalScoringEnabled)",
+    },
+  ],
+  analyze: (ctx) => momentumCandlesStrategy(
+    ctx.pair,
+    ctx.candles,
+    ctx.currentPrice,
+    ctx.minSignals ?? Number(ctx.params.minSignals ?? 5),
+    Boolean(ctx.params.signalScoringEnabled),
+  ),
+};
+
+const meanReversionSimple: IStrategyPlugin = {
+  id: "mean_reversion_simple",
+  name: "Reversión Simple (Velas)",
+  description: "Toque de Bollinger inferior + RSI sobrevendido; la usa el router en régimen RANGE",
+  signalMode: "candles",
+  timeframes: ["5m", "15m", "1h"],
+  warmupLength: 20,
+  cycleIntervalMs: 30000,
+  preferredRegimes: ["RANGE"],
+  defaultExitProfile: exitProfileFor("RANGE"),
+  paramsSchema: [],
+  analyze: (ctx) => meanReversionSimpleStrategy(ctx.pair, ctx.candles, ctx.currentPrice),
+};
+
+export const BUILTIN_STRATEGIES: IStrategyPlugin[] = [
+  momentum,
+  meanReversion,
+  scalping,
+  grid,
+  momentumCandles,
+  meanReversionSimple,
+];
@@ -35,6 +35,8 @@ import {
   buildErrorAlertHTMLSimple,
   buildTradePendingHTML,
   buildHeader,
+  buildGridStatusHTML,
+  buildAmaStatusHTML,
   escapeHtml,
   formatSpanishDate,
   formatDuration,
@@ -45,6 +47,15 @@ import {
   type SimpleTradeSellContext,
 } from "./telegram/templates";
 import { messageDeduplicator } from "./telegram/deduplication";
+import {
+  ACTION_COMMANDS,
+  ACTION_CALLBACK_CONFIRM,
+  ACTION_CALLBACK_CANCEL,
+  ActionCommandError,
+  actionConfirmationStore,
+  isActionChatAllowed,
+  planActionCommand,
+} from "./telegram/actionCommands";
 
 // escapeHtml, formatSpanishDate, formatDuration → imported from ./telegram/templates
 
@@ -644,6 +655,13 @@ type EngineController = {
     sgBreakEvenActivated?: boolean;
     sgTrailingActivated?: boolean;
   }>;
+  forceClosePosition?: (
+    pair: string,
+    currentPrice: number,
+    correlationId: string,
+    reason: string,
+    lotId?: string,
+  ) => Promise<{ success: boolean; pnlUsd?: number; dryRun?: boolean; error?: string; isDust?: boolean }>;
 };
 
 export class TelegramService {
@@ -882,6 +900,21 @@ export class TelegramService {
     this.bot.onText(/\/audit\b/, async (msg) => {
       await guard(msg.chat.id, "/audit", () => this.handleAuditCommand(msg.chat.id));
     });
+    this.bot.onText(/\/grid\b/, async (msg) => {
+      await guard(msg.chat.id, "/grid", () => this.handleGridCommand(msg.chat.id));
+    });
+    this.bot.onText(/\/ama\b/, async (msg) => {
+      await guard(msg.chat.id, "/ama", () => this.handleAmaCommand(msg.chat.id));
+    });
+
+    // Comandos de acción: validan, piden confirmación inline y sólo ejecutan tras ✅
+    for (const cmd of ACTION_COMMANDS) {
+      const escaped = cmd.replace("/", "\\/");
+      this.bot.onText(new RegExp(`^${escaped}(?:@\\w+)?(?:\\s+(.*))?$`), async (msg, match) => {
+        const args = (match?.[1] ?? "").trim().split(/\s+/).filter(Boolean);
+        await this.handleActionCommand(msg, cmd, args);
+      });
+    }
 
     // Comandos con implementación pendiente (registrados en catálogo, responden sin fallar)
     const pendingCommands = [
@@ -889,7 +922,7 @@ export class TelegramService {
       "/idca_status", "/idca_cycles", "/idca_active", "/idca_summary",
       "/grid_status", "/grid_observer", "/grid_cycles", "/grid_proposals",
       "/fisco_status", "/errors",
-      "/spot_pause", "/spot_resume", "/idca_pause", "/idca_resume",
+      "/spot_pause", "/spot_resume",
       "/grid_pause", "/grid_resume", "/telegram_mute", "/telegram_unmute",
     ];
     for (const cmd of pendingCommands) {
@@ -1075,6 +1108,186 @@ export class TelegramService {
     }
   }
 
+  /** /grid — resumen read-only de Grid Isolated (runtime o snapshot de BD, nunca arranca el motor). */
+  private async handleGridCommand(chatId: number) {
+    try {
+      const { gridIsolatedEngine } = await import("./gridIsolated/gridIsolatedEngine");
+      const status = await gridIsolatedEngine.getStatusSafe();
+      const message = buildGridStatusHTML({
+        pair: gridIsolatedEngine.getPair(),
+        mode: status.mode,
+        configLoaded: status.configLoaded,
+        activeRangeVersionNumber: status.activeRangeVersionNumber,
+        openLevels: status.openLevels,
+        plannedLevelsCount: status.plannedLevelsCount,
+        activeOpenCyclesCount: status.activeOpenCyclesCount,
+        waitingSellCyclesCount: status.waitingSellCyclesCount,
+        reviewRequiredCyclesCount: status.reviewRequiredCyclesCount,
+        circuitBreakerOpen: status.circuitBreakerOpen,
+        pumpDumpState: status.pumpDumpState ?? "normal",
+        capitalReservedUsd: status.capitalReservedUsd,
+        capitalAvailableUsd: status.capitalAvailableUsd,
+        totalNetPnlUsd: status.totalNetPnlUsd,
+        totalCyclesCompleted: status.totalCyclesCompleted,
+      });
+      await this.bot?.sendMessage(chatId, message, { parse_mode: "HTML" });
+    } catch (error: any) {
+      await this.bot?.sendMessage(chatId, `❌ Error obteniendo estado Grid: ${escapeHtml(error.message)}`);
+    }
+  }
+
+  /** /ama — resumen read-only de AMA: estado runtime, ciclo activo, capital y plan de tramos. */
+  private async handleAmaCommand(chatId: number) {
+    try {
+      const ama = await import("./ama/amaRuntimeService");
+      const [status, portfolio, plan] = await Promise.all([
+        ama.getStatus(),
+        ama.getPortfolioSummary(),
+        ama.getTranchePlan(),
+      ]);
+      const message = buildAmaStatusHTML({
+        pair: status.pair,
+        mode: status.mode,
+        state: status.state,
+        killSwitchActive: status.killSwitchActive,
+        cycleId: status.cycleId,
+        budgetUsd: portfolio.budgetUsd,
+        deployedUsd: portfolio.deployedUsd,
+        reservedUsd: portfolio.reservedUsd,
+        freeUsd: portfolio.freeUsd,
+        accumulatedQuantity: portfolio.accumulatedQuantity,
+        averageCostBasis: portfolio.averageCostBasis,
+        plannedPurchaseCount: plan?.plannedPurchaseCount ?? null,
+        eligibleTranches: plan ? plan.candidateTranches.filter(t => t.eligible).length : null,
+      });
+      await this.bot?.sendMessage(chatId, message, { parse_mode: "HTML" });
+    } catch (error: any) {
+      await this.bot?.sendMessage(chatId, `❌ Error obteniendo estado AMA: ${escapeHtml(error.message)}`);
+    }
+  }
+
+  /** Comandos de acción (ACTION_COMMANDS): autoriza, valida y pide confirmación inline antes de ejecutar. */
+  private async handleActionCommand(msg: TelegramBot.Message, command: string, args: string[]) {
+    const chatId = msg.chat.id;
+    const userId = msg.from?.id ?? null;
+    const commandText = [command, ...args].join(" ");
+    const { telegramNotificationCenter } = await import("./TelegramNotificationCenter");
+    const logBase = { chatId: String(chatId), command: commandText };
+
+    try {
+      const auth = await telegramNotificationCenter.authorizeCommand(String(chatId), command);
+      if (!auth.authorized || !isActionChatAllowed(chatId, userId)) {
+        await this.bot?.sendMessage(chatId, `⛔ No autorizado para ejecutar ${escapeHtml(command)}.`, { parse_mode: "HTML" });
+        await telegramNotificationCenter.logCommand({
+          ...logBase,
+          status: "unauthorized",
+          isAuthorized: false,
+          permissionLevel: auth.permission || undefined,
+          errorMessage: auth.authorized ? "not_in_action_allowlist" : `permission:${auth.permission}`,
+        });
+        return;
+      }
+
+      let plan;
+      try {
+        plan = await planActionCommand(command, args, { forceClosePosition: this.engineController?.forceClosePosition });
+      } catch (err: any) {
+        if (!(err instanceof ActionCommandError)) throw err;
+        await this.bot?.sendMessage(chatId, `⚠️ ${escapeHtml(err.message)}`, { parse_mode: "HTML" });
+        await telegramNotificationCenter.logCommand({
+          ...logBase, status: "rejected", isAuthorized: true, permissionLevel: auth.permission || undefined, errorMessage: err.message,
+        });
+        return;
+      }
+
+      const pending = actionConfirmationStore.create(chatId, userId, commandText, plan);
+      await this.bot?.sendMessage(chatId, [
+        getBotBranding(),
+        `━━━━━━━━━━━━━━━━━━━`,
+        `⚠️ <b>Confirmar acción</b>`,
+        ``,
+        plan.summary,
+        ``,
+        `<i>Caduca en 2 minutos.</i>`,
+      ].join("\n"), {
+        parse_mode: "HTML",
+        reply_markup: {
+          inline_keyboard: [[
+            { text: "✅ Confirmar", callback_data: `${ACTION_CALLBACK_CONFIRM}${pending.id}` },
+            { text: "❌ Cancelar", callback_data: `${ACTION_CALLBACK_CANCEL}${pending.id}` },
+          ]],
+        },
+      });
+      await telegramNotificationCenter.logCommand({
+        ...logBase, status: "pending_confirmation", isAuthorized: true, permissionLevel: auth.permission || undefined,
+      });
+    } catch (err: any) {
+      await telegramNotificationCenter.logCommand({
+        ...logBase, status: "failed", isAuthorized: true, errorMessage: err?.message || String(err),
+      });
+      console.error(`[telegram] Action command ${command} failed:`, err);
+      await this.bot?.sendMessage(chatId, `❌ Error: ${escapeHtml(err?.message || String(err))}`, { parse_mode: "HTML" });
+    }
+  }
+
+  private async handleActionCallback(query: TelegramBot.CallbackQuery) {
+    const chatId = query.message!.chat.id;
+    const data = query.data!;
+    const confirm = data.startsWith(ACTION_CALLBACK_CONFIRM);
+    const id = data.slice((confirm ? ACTION_CALLBACK_CONFIRM : ACTION_CALLBACK_CANCEL).length);
+    const { telegramNotificationCenter } = await import("./TelegramNotificationCenter");
+
+    // Quitar los botones: la confirmación es de un solo uso
+    await this.bot?.editMessageReplyMarkup({ inline_keyboard: [] }, {
+      chat_id: chatId,
+      message_id: query.message!.message_id,
+    }).catch(() => undefined);
+
+    if (!isActionChatAllowed(chatId, query.from.id)) {
+      await this.bot?.sendMessage(chatId, "⛔ No autorizado para confirmar acciones.");
+      await telegramNotificationCenter.logCommand({
+        chatId: String(chatId), command: data, status: "unauthorized", isAuthorized: false, errorMessage: "not_in_action_allowlist",
+      });
+      return;
+    }
+
+    const taken = actionConfirmationStore.take(id, chatId, query.from.id);
+    if (!taken.ok) {
+      const text = taken.reason === "expired" ? "⌛ La confirmación ha caducado. Repite el comando." :
+                   taken.reason === "wrong_user" ? "⛔ Sólo quien lanzó el comando puede confirmarlo." :
+                   "⚠️ Acción no encontrada o ya procesada.";
+      await this.bot?.sendMessage(chatId, text);
+      await telegramNotificationCenter.logCommand({
+        chatId: String(chatId), command: data, status: "rejected", isAuthorized: true, errorMessage: taken.reason,
+      });
+      return;
+    }
+
+    const { action } = taken;
+    const logBase = { chatId: String(chatId), command: action.commandText, isAuthorized: true, permissionLevel: "action" };
+    if (!confirm) {
+      await this.bot?.sendMessage(chatId, `❌ Acción cancelada: <code>${escapeHtml(action.commandText)}</code>`, { parse_mode: "HTML" });
+      await telegramNotificationCenter.logCommand({ ...logBase, status: "cancelled" });
+      return;
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await action.plan.execute();
+      await this.bot?.sendMessage(chatId, result, { parse_mode: "HTML" });
+      await telegramNotificationCenter.logCommand({
+        ...logBase, status: "executed", responseMessage: result, executionTimeMs: Date.now() - startTime,
+      });
+    } catch (err: any) {
+      const message = err?.message || String(err);
+      await this.bot?.sendMessage(chatId, `❌ Acción fallida: ${escapeHtml(message)}`, { parse_mode: "HTML" });
+      await telegramNotificationCenter.logCommand({
+        ...logBase, status: "failed", errorMessage: message, executionTimeMs: Date.now() - startTime,
+      });
+      console.error(`[telegram] Action ${action.commandText} failed:`, err);
+    }
+  }
+
   /** FASE I: Comandos registrados en catálogo pero con implementación pendiente (SPOT/IDCA/Grid status y pause/resume). */
   private async handlePendingCommand(chatId: number, command: string) {
     const message = [
@@ -2045,6 +2258,8 @@ ${b} Balance | ${h} Heartbeat
             if (!isNaN(page)) {
               await this.handleLogs(chatId, [`page=${page}`]);
             }
+          } else if (data.startsWith(ACTION_CALLBACK_CONFIRM) || data.startsWith(ACTION_CALLBACK_CANCEL)) {
+            await this.handleActionCallback(query);
           } else if (data === "logs_info") {
             // Do nothing — just dismiss the loading state
           } else {
@@ -0,0 +1,323 @@
+/**
+ * Telegram Action Commands - comandos operativos con confirmación en dos pasos
+ *
+ * Flujo:
+ *   1. /comando args → authorizeCommand (chat activo + token) + allowlist
+ *      TELEGRAM_ACTION_CHAT_IDS → planActionCommand valida y describe la acción
+ *   2. El bot responde con un teclado inline [Confirmar] [Cancelar]
+ *   3. Confirmar (mismo chat y mismo usuario, antes de ACTION_CONFIRM_TTL_MS)
+ *      ejecuta plan.execute(); cada paso queda en telegram_command_log
+ *
+ * Nada se ejecuta sin confirmación y una confirmación sólo se puede usar una vez.
+ */
+import { randomBytes } from "crypto";
+import { escapeHtml } from "./templates";
+
+export const ACTION_CONFIRM_TTL_MS = 2 * 60 * 1000;
+export const ACTION_CALLBACK_CONFIRM = "ACT_OK:";
+export const ACTION_CALLBACK_CANCEL = "ACT_NO:";
+
+// ============================================================
+// ALLOWLIST
+// ============================================================
+/** IDs de chat o de usuario autorizados para acciones (coma-separados). Vacío = ninguno. */
+export function getActionAllowlist(): Set<string> {
+  return new Set(
+    String(process.env.TELEGRAM_ACTION_CHAT_IDS ?? "")
+      .split(",")
+      .map(s => s.trim())
+      .filter(Boolean)
+  );
+}
+
+export function isActionChatAllowed(chatId: string | number, userId?: string | number | null): boolean {
+  const allowlist = getActionAllowlist();
+  if (allowlist.has(String(chatId))) return true;
+  return userId != null && allowlist.has(String(userId));
+}
+
+// ============================================================
+// PLANNERS
+// ============================================================
+export class ActionCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActionCommandError";
+  }
+}
+
+export interface ActionPlan {
+  /** Descripción HTML de lo que se va a hacer (se muestra antes de confirmar). */
+  summary: string;
+  /** Ejecuta la acción y devuelve el mensaje HTML de resultado. */
+  execute: () => Promise<string>;
+}
+
+/** Capacidades del host que no son módulos importables (motor Spot). */
+export interface ActionCommandContext {
+  forceClosePosition?: (
+    pair: string,
+    currentPrice: number,
+    correlationId: string,
+    reason: string,
+    lotId?: string,
+  ) => Promise<{ success: boolean; pnlUsd?: number; dryRun?: boolean; error?: string; isDust?: boolean }>;
+}
+
+type Planner = (args: string[], ctx: ActionCommandContext) => Promise<ActionPlan>;
+
+const IDCA_EXIT_PCTS = [25, 50, 75, 100];
+const TUNING_FINAL_STATUSES = ["APPROVED", "ACTIVE", "REJECTED", "ROLLBACK"];
+
+function parsePair(raw: string | undefined, usage: string): string {
+  if (!raw) throw new ActionCommandError(usage);
+  const pair = raw.trim().toUpperCase().replace("-", "/");
+  if (!/^[A-Z0-9]{2,10}\/[A-Z]{3,4}$/.test(pair)) throw new ActionCommandError(`Par inválido: ${raw}. ${usage}`);
+  return pair;
+}
+
+function parseId(raw: string | undefined, usage: string): number {
+  const id = parseInt(String(raw ?? ""), 10);
+  if (!Number.isInteger(id) || id <= 0) throw new ActionCommandError(usage);
+  return id;
+}
+
+async function getIdcaEffectiveMode(): Promise<string> {
+  const repo = await import("../institutionalDca/IdcaRepository");
+  const config = await repo.getIdcaConfig();
+  return config.mode === "disabled" ? "simulation" : config.mode;
+}
+
+function idcaPausePlanner(enabled: boolean): Planner {
+  const usage = `Uso: ${enabled ? "/idca_resume" : "/idca_pause"} BTC/USD`;
+  return async (args) => {
+    const pair = parsePair(args[0], usage);
+    const repo = await import("../institutionalDca/IdcaRepository");
+    const assetConfig = await repo.getAssetConfig(pair);
+    if (!assetConfig) throw new ActionCommandError(`${pair} no está configurado en IDCA.`);
+    if (assetConfig.enabled === enabled) {
+      throw new ActionCommandError(`IDCA ${pair} ya está ${enabled ? "activo" : "pausado"}.`);
+    }
+    return {
+      summary: enabled
+        ? `▶️ Reanudar compras IDCA en <b>${escapeHtml(pair)}</b>`
+        : `⏸️ Pausar compras IDCA en <b>${escapeHtml(pair)}</b> (exit-only: las salidas siguen gestionándose)`,
+      execute: async () => {
+        await repo.upsertAssetConfig(pair, { enabled });
+        return enabled
+          ? `✅ IDCA ${escapeHtml(pair)} reanudado.`
+          : `✅ IDCA ${escapeHtml(pair)} pausado (exit-only).`;
+      },
+    };
+  };
+}
+
+const idcaExitPlanner: Planner = async (args) => {
+  const usage = "Uso: /idca_exit BTC/USD 25|50|75|100 [precio]";
+  const pair = parsePair(args[0], usage);
+  const pct = parseFloat(String(args[1] ?? ""));
+  if (!IDCA_EXIT_PCTS.includes(pct)) throw new ActionCommandError(usage);
+  const triggerPrice = args[2] !== undefined ? parseFloat(args[2]) : undefined;
+  if (triggerPrice !== undefined && !(triggerPrice > 0)) throw new ActionCommandError(`Precio inválido: ${args[2]}. ${usage}`);
+
+  const repo = await import("../institutionalDca/IdcaRepository");
+  const exitRepo = await import("../institutionalDca/IdcaExitInstructionRepository");
+  const mode = await getIdcaEffectiveMode();
+  const cycle = await repo.getActiveCycle(pair, mode);
+  if (!cycle) throw new ActionCommandError(`No hay ciclo IDCA activo en ${pair} (${mode}).`);
+  if (await exitRepo.getActiveExitInstruction(cycle.id)) {
+    throw new ActionCommandError(`El ciclo #${cycle.id} ya tiene una instrucción de salida activa.`);
+  }
+
+  let triggerDirection: "above" | "below" | undefined;
+  if (triggerPrice !== undefined) {
+    const { MarketDataService } = await import("../MarketDataService");
+    const current = await MarketDataService.getPrice(pair);
+    if (!(current > 0)) throw new ActionCommandError(`Sin precio actual para ${pair}.`);
+    triggerDirection = triggerPrice >= current ? "above" : "below";
+  }
+  const when = triggerPrice !== undefined
+    ? `cuando el precio cruce ${triggerDirection === "above" ? "↑" : "↓"} <b>$${triggerPrice.toFixed(2)}</b>`
+    : `<b>ahora</b> a mercado`;
+
+  return {
+    summary: `📤 Salida IDCA <b>${escapeHtml(pair)}</b> ciclo #${cycle.id} (${escapeHtml(mode)}): vender <b>${pct}%</b> ${when}`,
+    execute: async () => {
+      if (await exitRepo.getActiveExitInstruction(cycle.id)) {
+        throw new Error(`El ciclo #${cycle.id} ya tiene una instrucción de salida activa`);
+      }
+      const { createAndDispatchExitInstruction } = await import("../institutionalDca/IdcaExitExecutor");
+      const instruction = await createAndDispatchExitInstruction(cycle, {
+        type: triggerPrice !== undefined ? "price_target" : "immediate",
+        closePct: pct,
+        triggerPrice,
+        triggerDirection,
+        notes: "telegram_command",
+      });
+      return `✅ Instrucción de salida #${instruction.id} creada para ${escapeHtml(pair)} (ciclo #${cycle.id}).`;
+    },
+  };
+};
+
+const gridModePlanner: Planner = async (args) => {
+  const { GRID_MODE_VALUES } = await import("../gridIsolated/gridIsolatedTypes");
+  const usage = `Uso: /grid_mode ${GRID_MODE_VALUES.join("|")} [PAR]`;
+  const mode = String(args[0] ?? "").toUpperCase() as (typeof GRID_MODE_VALUES)[number];
+  if (!GRID_MODE_VALUES.includes(mode)) throw new ActionCommandError(usage);
+  const pair = args[1] ? parsePair(args[1], usage) : null;
+
+  const { gridIsolatedRegistry, GridInstanceError } = await import("../gridIsolated/gridIsolatedRegistry");
+  let engine;
+  try {
+    engine = await gridIsolatedRegistry.resolve(pair);
+  } catch (err) {
+    if (err instanceof GridInstanceError) throw new ActionCommandError(err.message);
+    throw err;
+  }
+  if (!engine.getConfig()) await engine.loadConfig();
+  const current = engine.getConfig()?.mode ?? "OFF";
+  if (current === mode) throw new ActionCommandError(`Grid ${engine.getPair()} ya está en ${mode}.`);
+
+  return {
+    summary: `🧱 Cambiar modo Grid <b>${escapeHtml(engine.getPair())}</b>: <code>${current}</code> → <code>${mode}</code>`,
+    execute: async () => {
+      const result = await engine.changeMode(mode);
+      if (!result.success) throw new Error(result.reason || "Transición de modo bloqueada");
+      return `✅ Grid ${escapeHtml(engine.getPair())} en modo ${mode}.`;
+    },
+  };
+};
+
+const spotClosePlanner: Planner = async (args, ctx) => {
+  const usage = "Uso: /spot_close LOT_ID";
+  const lotId = String(args[0] ?? "").trim();
+  if (!lotId) throw new ActionCommandError(usage);
+  if (!ctx.forceClosePosition) throw new ActionCommandError("Motor de trading no inicializado");
+
+  const { storage } = await import("../../storage");
+  const position = (await storage.getOpenPositions()).find(p => p.lotId === lotId && p.status === "OPEN");
+  if (!position) throw new ActionCommandError(`No hay lote OPEN con id ${lotId}.`);
+  const pair = position.pair;
+
+  return {
+    summary: `🛑 Cerrar lote Spot <code>${escapeHtml(lotId)}</code> de <b>${escapeHtml(pair)}</b> (${escapeHtml(position.amount)} @ $${parseFloat(position.entryPrice).toFixed(2)}) a mercado`,
+    execute: async () => {
+      const { MarketDataService } = await import("../MarketDataService");
+      const price = await MarketDataService.getPrice(pair);
+      if (!(price > 0)) throw new Error(`Sin precio actual para ${pair}`);
+      const correlationId = `TG-CLOSE-${Date.now()}-${randomBytes(3).toString("hex")}`;
+      const result = await ctx.forceClosePosition!(pair, price, correlationId, "Cierre manual vía Telegram", lotId);
+      if (!result.success) {
+        throw new Error(result.isDust ? "Posición DUST: no se puede cerrar en el exchange" : (result.error || "Cierre fallido"));
+      }
+      const pnl = result.pnlUsd != null ? ` PnL: $${result.pnlUsd.toFixed(2)}.` : "";
+      return `✅ ${result.dryRun ? "[DRY_RUN] " : ""}Lote ${escapeHtml(lotId)} cerrado a $${price.toFixed(2)}.${pnl}`;
+    },
+  };
+};
+
+function tuningPlanner(approve: boolean): Planner {
+  const usage = approve ? "Uso: /tuning_approve ID" : "Uso: /tuning_reject ID [motivo]";
+  return async (args) => {
+    const id = parseId(args[0], usage);
+    const reason = args.slice(1).join(" ").trim() || "Rechazada vía Telegram";
+    const { storage } = await import("../../storage");
+    const proposal = (await storage.getTuningProposals()).find(p => p.id === id);
+    if (!proposal) throw new ActionCommandError(`Propuesta #${id} no encontrada.`);
+    if (TUNING_FINAL_STATUSES.includes(proposal.status)) {
+      throw new ActionCommandError(`La propuesta #${id} ya está en ${proposal.status}.`);
+    }
+    const scope = `${escapeHtml(proposal.strategyType)}${proposal.pair ? ` ${escapeHtml(proposal.pair)}` : ""}`;
+    return {
+      summary: approve
+        ? `👍 Aprobar propuesta de tuning #${id} (${scope}, ${proposal.status})`
+        : `👎 Rechazar propuesta de tuning #${id} (${scope}, ${proposal.status}): ${escapeHtml(reason)}`,
+      execute: async () => {
+        const updated = approve
+          ? await storage.updateTuningProposalStatus(id, "APPROVED", { approvedBy: "telegram", approvedAt: new Date() })
+          : await storage.updateTuningProposalStatus(id, "REJECTED", { rejectionReason: reason });
+        if (!updated) throw new Error(`Propuesta #${id} no encontrada`);
+        return `✅ Propuesta #${id} ${approve ? "aprobada" : "rechazada"}.`;
+      },
+    };
+  };
+}
+
+const PLANNERS: Record<string, Planner> = {
+  "/idca_pause": idcaPausePlanner(false),
+  "/idca_resume": idcaPausePlanner(true),
+  "/idca_exit": idcaExitPlanner,
+  "/grid_mode": gridModePlanner,
+  "/spot_close": spotClosePlanner,
+  "/tuning_approve": tuningPlanner(true),
+  "/tuning_reject": tuningPlanner(false),
+};
+
+export const ACTION_COMMANDS = Object.keys(PLANNERS);
+
+/** Valida los argumentos y describe la acción. Lanza ActionCommandError con el uso correcto. */
+export async function planActionCommand(command: string, args: string[], ctx: ActionCommandContext = {}): Promise<ActionPlan> {
+  const planner = PLANNERS[command];
+  if (!planner) throw new ActionCommandError(`Comando de acción desconocido: ${command}`);
+  return planner(args, ctx);
+}
+
+// ============================================================
+// CONFIRMATION STORE
+// ============================================================
+export interface PendingAction {
+  id: string;
+  chatId: string;
+  userId: string | null;
+  commandText: string;
+  plan: ActionPlan;
+  expiresAt: number;
+}
+
+export type TakeActionResult =
+  | { ok: true; action: PendingAction }
+  | { ok: false; reason: "not_found" | "expired" | "wrong_chat" | "wrong_user" };
+
+export class ActionConfirmationStore {
+  private pending = new Map<string, PendingAction>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  create(chatId: string | number, userId: string | number | null | undefined, commandText: string, plan: ActionPlan): PendingAction {
+    this.purgeExpired();
+    const action: PendingAction = {
+      id: randomBytes(6).toString("hex"),
+      chatId: String(chatId),
+      userId: userId != null ? String(userId) : null,
+      commandText,
+      plan,
+      expiresAt: this.now() + ACTION_CONFIRM_TTL_MS,
+    };
+    this.pending.set(action.id, action);
+    return action;
+  }
+
+  /** Retira la acción pendiente (un solo uso) si la pide el mismo chat y usuario antes de expirar. */
+  take(id: string, chatId: string | number, userId: string | number | null | undefined): TakeActionResult {
+    const action = this.pending.get(id);
+    if (!action) return { ok: false, reason: "not_found" };
+    if (action.chatId !== String(chatId)) return { ok: false, reason: "wrong_chat" };
+    if (action.userId && action.userId !== String(userId ?? "")) return { ok: false, reason: "wrong_user" };
+    this.pending.delete(id);
+    if (this.now() > action.expiresAt) return { ok: false, reason: "expired" };
+    return { ok: true, action };
+  }
+
+  size(): number {
+    return this.pending.size;
+  }
+
+  private purgeExpired(): void {
+    const now = this.now();
+    for (const [id, action] of this.pending) {
+      if (now > action.expiresAt) this.pending.delete(id);
+    }
+  }
+}
+
+export const actionConfirmationStore = new ActionConfirmationStore();
@@ -952,6 +952,311 @@ export function buildFiscoAutoSyncAllFailedHTML(context: FiscoAutoSyncAllFailedC
   ].join("\n");
 }
 
+// ============================================================
+// GRID ISOLATED / AMA TEMPLATES
+// ============================================================
+export type GridCycleFillKind = "BUY_FILLED" | "COMPLETED" | "TRAILING_CLOSED" | "STOP_LOSS_HIT";
+
+export interface GridCycleFillContext {
+  kind: GridCycleFillKind;
+  pair: string;
+  mode: string;
+  cycleId?: string | null;
+  buyPrice?: number | null;
+  sellPrice?: number | null;
+  targetSellPrice?: number | null;
+  quantity?: number | null;
+  netPnlUsd?: number | null;
+  netPnlPct?: number | null;
+  timestamp?: Date;
+}
+
+export interface GridCircuitBreakerContext {
+  state: "OPEN" | "RESOLVED";
+  pair: string;
+  mode: string;
+  reason: string;
+  currentPrice?: number | null;
+  reviewAfter?: Date | string | null;
+  resolvedBy?: string | null;
+  timestamp?: Date;
+}
+
+export interface GridPumpDumpGuardContext {
+  direction: "PUMP" | "DUMP";
+  pair: string;
+  mode: string;
+  deviationPct: number;
+  currentPrice: number;
+  midPrice: number;
+  timestamp?: Date;
+}
+
+export interface GridRangeRebuildContext {
+  pair: string;
+  mode: string;
+  trigger: string;
+  levelsCount?: number | null;
+  centerDriftPct?: number | null;
+  regime?: string | null;
+  oldRangeVersionId?: string | null;
+  newRangeVersionId?: string | null;
+  timestamp?: Date;
+}
+
+export interface GridStatusContext {
+  pair: string;
+  mode: string;
+  configLoaded: boolean;
+  activeRangeVersionNumber: number | null;
+  openLevels: number;
+  plannedLevelsCount: number;
+  activeOpenCyclesCount: number;
+  waitingSellCyclesCount: number;
+  reviewRequiredCyclesCount: number;
+  circuitBreakerOpen: boolean;
+  pumpDumpState: string;
+  capitalReservedUsd: number;
+  capitalAvailableUsd: number;
+  totalNetPnlUsd: number;
+  totalCyclesCompleted: number;
+}
+
+export interface AmaTranchePlanContext {
+  pair: string;
+  mode: string;
+  cycleId: string;
+  planId: string;
+  version: number;
+  plannedPurchaseCount: number;
+  deployableCycleCapitalUsd: number;
+  mandatoryReserveUsd: number;
+  hwmPrice: number;
+  asOfConfirmedClosePrice: number;
+  tranches: { type: string; activationDropPct: number; amountUsd: number; eligible: boolean }[];
+  timestamp?: Date;
+}
+
+export interface AmaRealGateFailedContext {
+  pair: string;
+  mode: string;
+  cycleId: string;
+  trancheId: string;
+  reason: string;
+  blockers?: string[];
+  amountUsd: number;
+  timestamp?: Date;
+}
+
+export interface AmaStatusContext {
+  pair: string;
+  mode: string;
+  state: string;
+  killSwitchActive: boolean;
+  cycleId: string | null;
+  budgetUsd: number;
+  deployedUsd: number;
+  reservedUsd: number;
+  freeUsd: number;
+  accumulatedQuantity: number;
+  averageCostBasis: number | null;
+  plannedPurchaseCount?: number | null;
+  eligibleTranches?: number | null;
+}
+
+const fmtUsd = (v: number | null | undefined) =>
+  v == null || !Number.isFinite(v) ? "N/D" : `$${v.toFixed(2)}`;
+const fmtPrice = (v: number | null | undefined) =>
+  v == null || !Number.isFinite(v) ? "N/D" : `$${v.toLocaleString("en-US", { maximumFractionDigits: 8 })}`;
+const fmtPct = (v: number | null | undefined, digits = 2) =>
+  v == null || !Number.isFinite(v) ? "N/D" : `${v >= 0 ? "+" : ""}${v.toFixed(digits)}%`;
+
+export function buildGridCycleFillHTML(ctx: GridCycleFillContext): string {
+  const titles: Record<GridCycleFillKind, string> = {
+    BUY_FILLED: "🟢 <b>GRID: COMPRA EJECUTADA</b>",
+    COMPLETED: "✅ <b>GRID: CICLO CERRADO</b>",
+    TRAILING_CLOSED: "📈 <b>GRID: CICLO CERRADO POR TRAILING</b>",
+    STOP_LOSS_HIT: "🛑 <b>GRID: CICLO CERRADO POR PROTECCIÓN</b>",
+  };
+  const lines: string[] = [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    titles[ctx.kind],
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+  ];
+  if (ctx.cycleId) lines.push(`🔁 Ciclo: <code>${escapeHtml(ctx.cycleId.slice(0, 8))}</code>`);
+  lines.push(`💵 Compra: <b>${fmtPrice(ctx.buyPrice)}</b>`);
+
+  if (ctx.kind === "BUY_FILLED") {
+    lines.push(`🎯 Venta objetivo: <b>${fmtPrice(ctx.targetSellPrice)}</b>`);
+  } else {
+    lines.push(`💰 Venta: <b>${fmtPrice(ctx.sellPrice)}</b>`);
+    if (ctx.quantity != null) lines.push(`📦 Cantidad: <code>${ctx.quantity}</code>`);
+    const pnlIcon = (ctx.netPnlUsd ?? 0) >= 0 ? "📈" : "📉";
+    lines.push(`${pnlIcon} PnL neto: <b>${fmtUsd(ctx.netPnlUsd)}</b> (${fmtPct(ctx.netPnlPct, 3)})`);
+  }
+
+  lines.push(``, `━━━━━━━━━━━━━━━━━━━`, `🕐 ${formatSpanishDate(ctx.timestamp)}`);
+  return lines.join("\n");
+}
+
+export function buildGridCircuitBreakerHTML(ctx: GridCircuitBreakerContext): string {
+  const open = ctx.state === "OPEN";
+  const lines: string[] = [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    open ? `🚨 <b>GRID: CIRCUIT BREAKER ABIERTO</b>` : `✅ <b>GRID: CIRCUIT BREAKER RESUELTO</b>`,
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+    `📝 Motivo: ${escapeHtml(ctx.reason)}`,
+  ];
+  if (ctx.currentPrice != null) lines.push(`💵 Precio: <b>${fmtPrice(ctx.currentPrice)}</b>`);
+  if (open) {
+    if (ctx.reviewAfter) lines.push(`⏳ Revisión a partir de: ${formatSpanishDate(ctx.reviewAfter)}`);
+    lines.push(``, `⛔ Nuevas compras Grid bloqueadas hasta revisión.`);
+  } else if (ctx.resolvedBy) {
+    lines.push(`👤 Resuelto por: <code>${escapeHtml(ctx.resolvedBy)}</code>`);
+  }
+  lines.push(``, `━━━━━━━━━━━━━━━━━━━`, `🕐 ${formatSpanishDate(ctx.timestamp)}`);
+  return lines.join("\n");
+}
+
+export function buildGridPumpDumpGuardHTML(ctx: GridPumpDumpGuardContext): string {
+  const pump = ctx.direction === "PUMP";
+  return [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    pump ? `🚀 <b>GRID: PUMP GUARD ACTIVADO</b>` : `🪂 <b>GRID: DUMP GUARD ACTIVADO</b>`,
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+    `💵 Precio: <b>${fmtPrice(ctx.currentPrice)}</b> · Mid: ${fmtPrice(ctx.midPrice)}`,
+    `📐 Desviación: <b>${fmtPct(pump ? ctx.deviationPct : -ctx.deviationPct)}</b>`,
+    ``,
+    `⏸️ El Grid pausa nuevas entradas durante el cooldown.`,
+    ``,
+    `━━━━━━━━━━━━━━━━━━━`,
+    `🕐 ${formatSpanishDate(ctx.timestamp)}`,
+  ].join("\n");
+}
+
+export function buildGridRangeRebuildHTML(ctx: GridRangeRebuildContext): string {
+  const lines: string[] = [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    `🔧 <b>GRID: RANGO RECONSTRUIDO</b>`,
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+    `⚙️ Disparador: <code>${escapeHtml(ctx.trigger)}</code>`,
+  ];
+  if (ctx.levelsCount != null) lines.push(`📶 Niveles planificados: <b>${ctx.levelsCount}</b>`);
+  if (ctx.centerDriftPct != null) lines.push(`↔️ Deriva del centro: ${fmtPct(ctx.centerDriftPct)}`);
+  if (ctx.regime) lines.push(`🧭 Régimen: <code>${escapeHtml(ctx.regime)}</code>`);
+  if (ctx.oldRangeVersionId && ctx.newRangeVersionId) {
+    lines.push(`🗂️ Rango: <code>${escapeHtml(ctx.oldRangeVersionId.slice(0, 8))}</code> → <code>${escapeHtml(ctx.newRangeVersionId.slice(0, 8))}</code>`);
+  }
+  lines.push(``, `━━━━━━━━━━━━━━━━━━━`, `🕐 ${formatSpanishDate(ctx.timestamp)}`);
+  return lines.join("\n");
+}
+
+export function buildGridStatusHTML(ctx: GridStatusContext): string {
+  if (!ctx.configLoaded) {
+    return [
+      buildHeader(),
+      `━━━━━━━━━━━━━━━━━━━`,
+      `🧱 <b>Grid Isolated</b>`,
+      ``,
+      `Sin configuración cargada (modo <code>${escapeHtml(ctx.mode)}</code>).`,
+    ].join("\n");
+  }
+  return [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    `🧱 <b>Grid Isolated</b>`,
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+    `🗂️ Rango activo: ${ctx.activeRangeVersionNumber != null ? `v${ctx.activeRangeVersionNumber}` : "ninguno"}`,
+    `📶 Niveles: ${ctx.openLevels} abiertos · ${ctx.plannedLevelsCount} planificados`,
+    `🔁 Ciclos: ${ctx.activeOpenCyclesCount} abiertos · ${ctx.waitingSellCyclesCount} esperando venta · ${ctx.reviewRequiredCyclesCount} en revisión`,
+    `🚨 Circuit breaker: ${ctx.circuitBreakerOpen ? "🔴 ABIERTO" : "🟢 cerrado"}`,
+    `🛡️ Pump/Dump guard: <code>${escapeHtml(ctx.pumpDumpState)}</code>`,
+    ``,
+    `💼 Capital: ${fmtUsd(ctx.capitalReservedUsd)} reservado · ${fmtUsd(ctx.capitalAvailableUsd)} disponible`,
+    `💰 PnL neto: <b>${fmtUsd(ctx.totalNetPnlUsd)}</b> en ${ctx.totalCyclesCompleted} ciclos cerrados`,
+    ``,
+    `🕐 ${formatSpanishDate()}`,
+  ].join("\n");
+}
+
+export function buildAmaTranchePlanHTML(ctx: AmaTranchePlanContext): string {
+  const trancheLines = ctx.tranches.slice(0, 8).map(t =>
+    `• ${t.eligible ? "✅" : "⏸️"} ${escapeHtml(t.type)} a -${t.activationDropPct.toFixed(1)}% → ${fmtUsd(t.amountUsd)}`
+  );
+  return [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    `🧮 <b>AMA: NUEVO PLAN DE TRAMOS</b>`,
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+    `🔁 Ciclo: <code>${escapeHtml(ctx.cycleId.slice(0, 8))}</code> · Plan v${ctx.version}`,
+    `🏔️ HWM: ${fmtPrice(ctx.hwmPrice)} · Cierre confirmado: ${fmtPrice(ctx.asOfConfirmedClosePrice)}`,
+    `💼 Desplegable: <b>${fmtUsd(ctx.deployableCycleCapitalUsd)}</b> · Reserva: ${fmtUsd(ctx.mandatoryReserveUsd)}`,
+    `🛒 Compras planificadas: <b>${ctx.plannedPurchaseCount}</b>`,
+    ``,
+    ...trancheLines,
+    ...(ctx.tranches.length > 8 ? [`… y ${ctx.tranches.length - 8} tramos más`] : []),
+    ``,
+    `━━━━━━━━━━━━━━━━━━━`,
+    `🕐 ${formatSpanishDate(ctx.timestamp)}`,
+  ].join("\n");
+}
+
+export function buildAmaRealGateFailedHTML(ctx: AmaRealGateFailedContext): string {
+  const lines: string[] = [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    `⛔ <b>AMA REAL_LIMITED: ORDEN BLOQUEADA</b>`,
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+    `🔁 Ciclo: <code>${escapeHtml(ctx.cycleId.slice(0, 8))}</code> · Tramo: <code>${escapeHtml(ctx.trancheId)}</code>`,
+    `💵 Importe: <b>${fmtUsd(ctx.amountUsd)}</b>`,
+    `❌ Motivo: <code>${escapeHtml(ctx.reason)}</code>`,
+  ];
+  if (ctx.blockers && ctx.blockers.length > 0) {
+    lines.push(``, `📋 <b>Gates fallidos:</b>`, ...ctx.blockers.map(b => `• ${escapeHtml(b)}`));
+  }
+  lines.push(``, `No se envió ninguna orden al exchange.`, ``, `━━━━━━━━━━━━━━━━━━━`, `🕐 ${formatSpanishDate(ctx.timestamp)}`);
+  return lines.join("\n");
+}
+
+export function buildAmaStatusHTML(ctx: AmaStatusContext): string {
+  const lines: string[] = [
+    buildHeader(),
+    `━━━━━━━━━━━━━━━━━━━`,
+    `🏦 <b>AMA</b>`,
+    ``,
+    `📊 Par: <code>${escapeHtml(ctx.pair)}</code> · Modo: <code>${escapeHtml(ctx.mode)}</code>`,
+    `⚙️ Estado: <code>${escapeHtml(ctx.state)}</code>`,
+    `🛑 Kill switch: ${ctx.killSwitchActive ? "🔴 ACTIVO" : "🟢 inactivo"}`,
+  ];
+  if (!ctx.cycleId) {
+    lines.push(``, `Sin ciclo activo.`);
+  } else {
+    lines.push(
+      `🔁 Ciclo: <code>${escapeHtml(ctx.cycleId.slice(0, 8))}</code>`,
+      ``,
+      `💼 Presupuesto: ${fmtUsd(ctx.budgetUsd)} · Desplegado: <b>${fmtUsd(ctx.deployedUsd)}</b>`,
+      `🔒 Reservado: ${fmtUsd(ctx.reservedUsd)} · Libre: ${fmtUsd(ctx.freeUsd)}`,
+      `📦 Acumulado: <code>${ctx.accumulatedQuantity}</code> · Coste medio: ${fmtPrice(ctx.averageCostBasis)}`,
+    );
+    if (ctx.plannedPurchaseCount != null) {
+      lines.push(`🧮 Plan: ${ctx.plannedPurchaseCount} compras · ${ctx.eligibleTranches ?? 0} tramos elegibles`);
+    }
+  }
+  lines.push(``, `🕐 ${formatSpanishDate()}`);
+  return lines.join("\n");
+}
+
 // ============================================================
 // EXPORT ALL TEMPLATES
 // ============================================================
@@ -977,4 +1282,12 @@ export const telegramTemplates = {
   buildFiscoAutoSyncWarningsHTML,
   buildFiscoAutoSyncErrorHTML,
   buildFiscoAutoSyncAllFailedHTML,
+  buildGridCycleFillHTML,
+  buildGridCircuitBreakerHTML,
+  buildGridPumpDumpGuardHTML,
+  buildGridRangeRebuildHTML,
+  buildGridStatusHTML,
+  buildAmaTranchePlanHTML,
+  buildAmaRealGateFailedHTML,
+  buildAmaStatusHTML,
 };
@@ -2,6 +2,7 @@ import { WebSocketServer, WebSocket } from "ws";
 import type { Server } from "http";
 import { spawn, ChildProcess } from "child_process";
 import { log } from "../utils/logger";
+import { authenticateUpgrade } from "./auth/authMiddleware";
 import { logStreamService } from "./logStreamService";
 import { serverLogsService } from "./serverLogsService";
 
@@ -91,38 +92,18 @@ class TerminalWebSocketServer {
       const clientIp = req.socket.remoteAddress || "unknown";
       const origin = req.headers.origin || "no-origin";
       
-      const url = new URL(req.url || "", `http://${req.headers.host}`);
-      const queryToken = url.searchParams.get("token");
-      const authHeader = req.headers.authorization;
-      const headerToken = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
-      const token = queryToken || headerToken;
-      const tokenSource = queryToken ? "query" : (headerToken ? "header" : "none");
-      
-      const expectedToken = process.env.TERMINAL_TOKEN;
-
-      // TERMINAL_TOKEN is required for terminal websocket (security: can execute commands and view sensitive logs)
-      if (!expectedToken) {
-        log(`[WS-LOGS] TERMINAL_TOKEN no configurado - conexión rechazada. Configura TERMINAL_TOKEN en variables de entorno. (ip: ${clientIp})`, "websocket");
-        this.sendMessage(client, { type: "ERROR", payload: { message: "TERMINAL_TOKEN no configurado en el servidor", reason: "TOKEN_NOT_CONFIGURED" } });
-        client.close(4001, "Unauthorized - Token not configured on server");
-        return;
-      }
-
-      if (!token) {
-        log(`[WS-LOGS] Conexión rechazada - token ausente (path: ${WS_PATH}, source: ${tokenSource}, origin: ${origin}, ip: ${clientIp})`, "websocket");
-        this.sendMessage(client, { type: "ERROR", payload: { message: "Token ausente", reason: "MISSING_TOKEN", path: WS_PATH } });
-        client.close(4001, "Unauthorized - Missing Token");
-        return;
-      }
-
-      if (token !== expectedToken) {
-        log(`[WS-LOGS] Conexión rechazada - token incorrecto (path: ${WS_PATH}, source: ${tokenSource}, origin: ${origin}, ip: ${clientIp})`, "websocket");
-        this.sendMessage(client, { type: "ERROR", payload: { message: "Token incorrecto", reason: "INVALID_TOKEN", path: WS_PATH } });
-        client.close(4001, "Unauthorized - Invalid Token");
+      // Admin only: the terminal can stream container logs and sensitive output.
+      // Accepts an admin session/API key or the legacy TERMINAL_TOKEN.
+      const auth = await authenticateUpgrade(req, "admin");
+      if (auth.reason) {
+        const message = auth.reason === "MISSING_TOKEN" ? "Token ausente" : auth.reason === "FORBIDDEN" ? "Se requiere rol admin" : "Token incorrecto";
+        log(`[WS-LOGS] Conexión rechazada - ${auth.reason} (path: ${WS_PATH}, source: ${auth.source}, origin: ${origin}, ip: ${clientIp})`, "websocket");
+        this.sendMessage(client, { type: "ERROR", payload: { message, reason: auth.reason, path: WS_PATH } });
+        client.close(4001, `Unauthorized - ${message}`);
         return;
       }
 
-      log(`[WS-LOGS] Token válido (path: ${WS_PATH}, source: ${tokenSource}, ip: ${clientIp})`, "websocket");
+      log(`[WS-LOGS] Autenticado ${auth.principal?.username} (path: ${WS_PATH}, source: ${auth.source}, ip: ${clientIp})`, "websocket");
 
       client.isAlive = true;
       client.connectedAt = new Date();
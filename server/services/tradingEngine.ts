@@ -4,7 +4,7 @@ import { krakenRateLimiter } from "../utils/krakenRateLimiter";
 import { botLogger } from "./botLogger";
 import { storage } from "../storage";
 import { log } from "../utils/logger";
-import { aiService, AiFeatures } from "./aiService";
+import { aiService, AiFeatures, type AiPrediction } from "./aiService";
 import { environment } from "./environment";
 import { fifoMatcher } from "./fifoMatcher";
 import { toConfidencePct, toConfidenceUnit } from "../utils/confidence";
@@ -14,8 +14,10 @@ import { eq, and, desc, lt } from "drizzle-orm";
 import { buildTradeId } from "../utils/tradeId";
 import { classifyExitReason } from "../utils/exitReasonClassifier";
 import { ExchangeFactory, type ExchangeType } from "./exchanges/ExchangeFactory";
-import type { IExchangeService, OHLC } from "./exchanges/IExchangeService";
+import type { IExchangeService, OHLC, Ticker } from "./exchanges/IExchangeService";
 import { MarketDataService, type Timeframe } from "./MarketDataService";
+import { OrderBookDepthService, getReferenceNotionalUsd } from "./marketData/OrderBookDepthService";
+import { ExchangeStopManager, type IExchangeStopHost, type ProtectiveStopFill } from "./ExchangeStopManager";
 import { configService } from "./ConfigService";
 import type { TradingConfig } from "@shared/config-schema";
 import { defaultFeatureFlags, type FeatureFlags } from "@shared/config-schema";
@@ -61,15 +63,14 @@ import {
   type TrendAnalysis,
 } from "./mtfAnalysis";
 import {
-  momentumStrategy as _momentumStrategy,
-  meanReversionStrategy as _meanReversionStrategy,
-  scalpingStrategy as _scalpingStrategy,
-  gridStrategy as _gridStrategy,
   momentumCandlesStrategy as _momentumCandlesStrategy,
-  meanReversionSimpleStrategy as _meanReversionSimpleStrategy,
   applyMTFFilter as _applyMTFFilter,
   type TradeSignal,
 } from "./strategies";
+import { strategyRegistry, pluginNotReadyReason } from "./strategyPlugins/StrategyRegistry";
+import { incrementalIndicatorStore } from "./incrementalIndicators";
+import { MOMENTUM_CANDLES_ID } from "./strategyPlugins/builtinStrategies";
+import type { IStrategyPlugin } from "./strategyPlugins/IStrategyPlugin";
 import {
   evaluateMomentumExpansion,
   type MomentumExpansionContext,
@@ -93,6 +94,16 @@ import {
 } from "./alertBuilder";
 import { marketMetricsService, marketMetricsEngine } from "./marketMetrics";
 import { buildEffectiveDecisionContext } from "./ai/EffectiveDecisionContextBuilder";
+import {
+  AI_FEATURE_SET_VERSION,
+  buildAiFeatureRecord,
+  normalizeAiRegime,
+  type AiDecisionContext,
+  type AiFeatureRecord,
+} from "./ai/featureSet";
+import { observeEngineTick } from "./metrics/appMetrics";
+import { portfolioIntegrationAdapter } from "./portfolio/PortfolioIntegrationAdapter";
+import type { KrakenMarketStream } from "./marketData/KrakenMarketStream";
 
 // TradeSignal imported from ./strategies
 
@@ -461,6 +472,19 @@ export class TradingEngine {
   private mtfAnalyzer!: MtfAnalyzer;
   private readonly PRICE_HISTORY_LENGTH = 50;
   private readonly MIN_TRADE_INTERVAL_MS = 60000;
+
+  // Kraken WS stream: live price reads + SL/TP/trailing between cycles
+  private readonly STREAM_PRICE_MAX_AGE_MS = 5000;
+  private readonly STREAM_EXIT_CHECK_MIN_INTERVAL_MS = 1000;
+  private lastExitCheckParams: {
+    stopLossPercent: number;
+    takeProfitPercent: number;
+    trailingStopEnabled: boolean;
+    trailingStopPercent: number;
+    balances: any;
+  } | null = null;
+  private streamExitCheckAt: Map<string, number> = new Map();
+  private streamExitInFlight: Set<string> = new Set();
   
   private dailyPnL: number = 0;
   private dailyStartBalance: number = 0;
@@ -501,6 +525,9 @@ export class TradingEngine {
   private readonly SELL_BLOCKED_TELEGRAM_COOLDOWN_MS = 15 * 60 * 1000; // 15 min
   // Contexto único de decisión de entrada — fuente de verdad para métricas e indicadores
   private lastEntryContext: Map<string, EntryDecisionContext> = new Map();
+  // Feature store: última fila registrada por par, pendiente de asociar al lote que abra el BUY
+  private pendingAiFeatureRows: Map<string, { id: number; ts: number }> = new Map();
+  private readonly AI_FEATURE_ATTACH_WINDOW_MS = 10 * 60 * 1000; // 10 min
   
   // Fallback minimums (only used if Kraken API fails)
   private readonly FALLBACK_MINIMUMS: Record<string, number> = {
@@ -796,12 +823,18 @@ export class TradingEngine {
   // Exit management delegated to ExitManager
   private exitManager: ExitManager;
 
+  // Exchange-resident protective stops (EXCHANGE_STOPS_ENABLED)
+  private exchangeStopManager: ExchangeStopManager;
+
   constructor(krakenService: KrakenService, telegramService: TelegramService) {
     this.krakenService = krakenService;
     this.telegramService = telegramService;
     
     // Initialize ExitManager with host adapter
     this.exitManager = new ExitManager(this.createExitHost());
+
+    // Initialize ExchangeStopManager with host adapter
+    this.exchangeStopManager = new ExchangeStopManager(this.createExchangeStopHost());
     
     // Initialize RegimeManager with host adapter (via MarketDataService cache)
     this.regimeManager = new RegimeManager({
@@ -848,6 +881,7 @@ export class TradingEngine {
       updatePositionHighestPriceByLotId: (lotId, price) => this.updatePositionHighestPriceByLotId(lotId, price),
       getTradingExchange: () => this.getTradingExchange(),
       getDataExchange: () => this.getDataExchange(),
+      getLiveTicker: (pair) => this.getLiveTicker(pair),
       getTradingExchangeType: () => this.getTradingExchangeType(),
       getTradingFees: () => this.getTradingFees(),
       getOrderMin: (pair) => this.getOrderMin(pair),
@@ -878,14 +912,22 @@ export class TradingEngine {
     };
   }
 
+  private createExchangeStopHost(): IExchangeStopHost {
+    return {
+      getOpenPositions: () => this.openPositions as Map<string, ExitOpenPosition>,
+      getTradingExchange: () => this.getTradingExchange(),
+      getTradingExchangeType: () => this.getTradingExchangeType(),
+      isDryRunMode: () => this.dryRunMode,
+      onProtectiveStopFilled: (lotId, fill) => this.handleProtectiveStopFilled(lotId, fill),
+    };
+  }
+
   private createAlertHost(): IAlertBuilderHost {
     return {
       isTelegramInitialized: () => this.telegramService.isInitialized(),
       sendTelegramAlert: (msg, cat, sub) => this.telegramService.sendAlertWithSubtype(msg, cat as any, sub as any),
       getCurrentPrice: async (pair) => {
-        const krakenPair = this.formatKrakenPair(pair);
-        // Direct call justified: exit decisions need the freshest possible price, not cached
-        const ticker = await this.getDataExchange().getTicker(krakenPair);
+        const ticker = await this.getLiveTicker(pair);
         return Number((ticker as any)?.last ?? 0) || null;
       },
       calculateMinCloseNetPct: (e, x, b) => this.calculateMinCloseNetPct(e, x, b),
@@ -900,6 +942,53 @@ export class TradingEngine {
     return ExchangeFactory.getTradingExchange();
   }
 
+  /**
+   * Real-time ticker for exit and spread decisions: the Kraken WS stream when it
+   * pushed this pair within STREAM_PRICE_MAX_AGE_MS, otherwise a direct REST call
+   * (never the REST cache, whose TTL would make stops and spreads stale).
+   */
+  private async getLiveTicker(pair: string): Promise<Ticker> {
+    const streamed = MarketDataService.getStreamTicker(pair, this.STREAM_PRICE_MAX_AGE_MS);
+    if (streamed) return streamed;
+    return this.getDataExchange().getTicker(this.formatKrakenPair(pair));
+  }
+
+  /**
+   * Subscribe to the Kraken market stream: every ticker for a pair with open
+   * positions re-runs SL/TP/trailing with the parameters of the last cycle, so
+   * stops react to the stream instead of waiting for the next cycle.
+   */
+  attachMarketStream(stream: KrakenMarketStream): void {
+    stream.on("ticker", (pair: string) => {
+      void this.onStreamTicker(pair);
+    });
+  }
+
+  private async onStreamTicker(pair: string): Promise<void> {
+    const params = this.lastExitCheckParams;
+    if (!this.isRunning || !params) return;
+    if (this.streamExitInFlight.has(pair)) return;
+    if (Date.now() - (this.streamExitCheckAt.get(pair) ?? 0) < this.STREAM_EXIT_CHECK_MIN_INTERVAL_MS) return;
+    if (this.getPositionsByPair(pair).length === 0) return;
+
+    this.streamExitInFlight.add(pair);
+    this.streamExitCheckAt.set(pair, Date.now());
+    try {
+      await this.exitManager.checkStopLossTakeProfit(
+        pair,
+        params.stopLossPercent,
+        params.takeProfitPercent,
+        params.trailingStopEnabled,
+        params.trailingStopPercent,
+        params.balances,
+      );
+    } catch (error: any) {
+      log(`[STREAM_EXIT] Error evaluando SL/TP para ${pair}: ${error.message}`, "trading");
+    } finally {
+      this.streamExitInFlight.delete(pair);
+    }
+  }
+
   private getDataExchange(): IExchangeService {
     return ExchangeFactory.getDataExchange();
   }
@@ -1308,6 +1397,61 @@ export class TradingEngine {
     } catch (error: any) {
       log(`[PENDING_FILL_RECOVERY] Error recovering pending fill positions: ${error.message}`, "trading");
     }
+
+    // Exchange-resident protective stops: adopt live stops, close lots whose stop fired while we were down
+    try {
+      await this.exchangeStopManager.reconcileOnStartup();
+    } catch (error: any) {
+      log(`[EXCHANGE_STOP] Error reconciling protective stops on startup: ${error.message}`, "trading");
+    }
+  }
+
+  getExchangeStopStatus() {
+    return this.exchangeStopManager.getStatus();
+  }
+
+  /**
+   * The exchange-resident stop fired (detected by FillWatcher, on release or at startup).
+   * The SELL trade is already persisted by FillWatcher; here we close (or shrink) the lot.
+   */
+  private async handleProtectiveStopFilled(lotId: string, fill: ProtectiveStopFill): Promise<void> {
+    const position = this.openPositions.get(lotId);
+    if (!position) {
+      await this.deletePositionFromDBByLotId(lotId);
+      return;
+    }
+    const pair = position.pair;
+
+    const remaining = position.amount - fill.filledVolume;
+    if (remaining > position.amount * 0.01) {
+      position.entryFee = position.entryFee * (remaining / position.amount);
+      position.amount = remaining;
+      this.openPositions.set(lotId, position);
+      await this.savePositionToDB(pair, position);
+    } else {
+      this.openPositions.delete(lotId);
+      await this.deletePositionFromDBByLotId(lotId);
+    }
+    this.setStopLossCooldown(pair);
+    this.lastTradeTime.set(pair, Date.now());
+
+    if (this.telegramService.isInitialized()) {
+      await this.telegramService.sendAlertWithSubtype(`🤖 <b>KRAKEN BOT</b> 🇪🇸
+━━━━━━━━━━━━━━━━━━━
+🛡️ <b>Stop protector ejecutado en exchange</b>
+
+📦 <b>Detalles:</b>
+   • Par: <code>${pair}</code>
+   • Lote: <code>${lotId.substring(0, 12)}</code>
+   • Cantidad: <code>${fill.filledVolume.toFixed(8)}</code>
+   • Precio medio: <code>$${fill.avgPrice.toFixed(2)}</code>
+   • Entrada: <code>$${position.entryPrice.toFixed(2)}</code>
+
+📊 <b>Resultado:</b>
+   • P&L: <code>${fill.pnlUsd >= 0 ? '+' : ''}$${fill.pnlUsd.toFixed(2)} (${fill.pnlPct >= 0 ? '+' : ''}${fill.pnlPct.toFixed(2)}%)</code>
+   • Orden: <code>${fill.stopOrderId}</code>
+━━━━━━━━━━━━━━━━━━━`, "trades", "trade_sell");
+    }
   }
 
   async manualBuyForTest(
@@ -1627,7 +1771,11 @@ export class TradingEngine {
 
   // === SPREAD FILTER (delegated to SpreadFilter) ===
   private async checkSpreadForBuy(pair: string, ticker: { bid: number; ask: number; last: number }, regime: string | null, config: any) {
-    return this.spreadFilter.checkSpreadForBuy(pair, ticker, regime, config);
+    // L2 depth: slippage beyond top of book for the reference notional (null → top-of-book only)
+    const depthSlippage = await OrderBookDepthService
+      .estimateSlippage(pair, "buy", getReferenceNotionalUsd(), "SPREAD_CHECK")
+      .catch(() => null);
+    return this.spreadFilter.checkSpreadForBuy(pair, ticker, regime, config, depthSlippage?.slippagePct ?? null);
   }
 
   // === MEJORA 2: Horarios de Trading ===
@@ -1957,10 +2105,12 @@ export class TradingEngine {
       regime?.toString() ?? null,
       closedCandles,
       candle.close,
-      mtfAnalysis?.alignment ?? null
+      mtfAnalysis?.alignment ?? null,
+      incrementalIndicatorStore.sync(`${pair}:${timeframe}`, closedCandles)
     );
     this.lastEntryContext.set(pair, entryCtx);
-    log(`[ENTRY_CONTEXT_BUILT] ${pair}: ema10=${entryCtx.ema10?.toFixed(4) ?? 'N/A'} ema20=${entryCtx.ema20?.toFixed(4) ?? 'N/A'} volRatio=${entryCtx.volumeRatio?.toFixed(2) ?? 'N/A'}x macdSlope=${entryCtx.macdHistSlope?.toFixed(6) ?? 'N/A'} complete=${entryCtx.dataComplete} id=${entryCtx.decisionId}`, "trading");
+    const ext = entryCtx.indicators;
+    log(`[ENTRY_CONTEXT_BUILT] ${pair}: ema10=${entryCtx.ema10?.toFixed(4) ?? 'N/A'} ema20=${entryCtx.ema20?.toFixed(4) ?? 'N/A'} volRatio=${entryCtx.volumeRatio?.toFixed(2) ?? 'N/A'}x macdSlope=${entryCtx.macdHistSlope?.toFixed(6) ?? 'N/A'} st=${ext?.supertrend?.direction ?? 'N/A'} stochK=${ext?.stochRsi?.k.toFixed(1) ?? 'N/A'} vsVwap=${ext?.priceVsVwapPct != null ? ext.priceVsVwapPct.toFixed(2) + '%' : 'N/A'} complete=${entryCtx.dataComplete} id=${entryCtx.decisionId}`, "trading");
 
     // Expansion detector — usa valores del contexto (sin recalcular)
     let expansionResult: MomentumExpansionResult | null = null;
@@ -1985,11 +2135,15 @@ export class TradingEngine {
         prevHigh: entryCtx.prevCandle?.high ?? 0,
         macdHist: entryCtx.macdHist,
         prevMacdHist: entryCtx.prevMacdHist,
+        vwap: ext?.vwap?.vwap ?? null,
+        supertrendUp: ext?.supertrend ? ext.supertrend.direction === "up" : null,
+        obvChange: ext?.obv?.change ?? null,
+        keltnerUpper: ext?.keltner?.upper ?? null,
       };
       expansionResult = evaluateMomentumExpansion(expansionCtxObj);
       entryCtx.expansionResult = expansionResult;
       signal.momentumExpansion = expansionResult;
-      log(`[MED_EXPANSION] ${pair}: score=${expansionResult.score} isExpansion=${expansionResult.isExpansion} confidence=${expansionResult.confidence} reasons=[${expansionResult.reasons.join(',')}]`, "trading");
+      log(`[MED_EXPANSION] ${pair}: score=${expansionResult.score} isExpansion=${expansionResult.isExpansion} confidence=${expansionResult.confidence} reasons=[${expansionResult.reasons.join(',')}] confirmations=[${expansionResult.confirmations.join(',')}]`, "trading");
     }
 
     // Hard guards estructurales — deben evaluarse antes del anti-cresta
@@ -2325,11 +2479,123 @@ export class TradingEngine {
     return _momentumCandlesStrategy(pair, candles, currentPrice, adjustedMinSignals, flags.signalScoringEnabled);
   }
 
-  private meanReversionSimpleStrategy(pair: string, candles: OHLCCandle[], currentPrice: number): TradeSignal {
-    return _meanReversionSimpleStrategy(pair, candles, currentPrice);
+  /**
+   * Runs a candle-mode plugin (router RANGE pick or per-pair assignment) on the
+   * closed candles of the signal timeframe.
+   */
+  private async analyzeWithCandlePlugin(
+    plugin: IStrategyPlugin,
+    pair: string,
+    timeframe: string,
+    currentPrice: number,
+    regime?: MarketRegime | string | null,
+    adjustedMinSignals?: number
+  ): Promise<TradeSignal> {
+    const candles = await this.getCachedOHLC(pair, this.getTimeframeIntervalMinutes(timeframe));
+    const closedCandles = candles ? candles.slice(0, -1) : [];
+    const notReady = pluginNotReadyReason(plugin, closedCandles.length, timeframe);
+    if (notReady) {
+      return { action: "hold", pair, confidence: 0, reason: notReady };
+    }
+    return plugin.analyze({
+      pair,
+      currentPrice,
+      history: [],
+      candles: closedCandles,
+      minSignals: adjustedMinSignals,
+      regime: (regime as MarketRegime) ?? null,
+      params: { signalScoringEnabled: this.getFeatureFlags().signalScoringEnabled },
+    });
+  }
+
+  /**
+   * Overwrites the SMART_GUARD exit base with the defaultExitProfile of the plugin
+   * assigned to the pair (bot_config.pair_strategies), when that plugin produced
+   * the entry. Regime / adaptive exits, if enabled, still adjust on top.
+   */
+  private applyAssignedExitProfile(
+    pair: string,
+    snapshot: ConfigSnapshot,
+    config: { pairStrategies?: unknown } | null | undefined,
+    strategyMeta?: { strategyId: string; timeframe: string }
+  ): void {
+    if (!strategyMeta) return;
+    const mode = strategyMeta.timeframe === "cycle" ? "cycle" : "candles";
+    const plugin = strategyRegistry.resolveForPair(config?.pairStrategies, pair, mode);
+    // Candle mode: the router or momentum_candles may have produced this entry instead
+    if (!plugin || (mode === "candles" && strategyMeta.strategyId !== plugin.id)) return;
+    Object.assign(snapshot, plugin.defaultExitProfile);
+    const p = plugin.defaultExitProfile;
+    log(`[STRATEGY_ASSIGN] ${pair}: exit profile ${plugin.id} → BE=${p.sgBeAtPct}% Trail=${p.sgTrailDistancePct}% Step=${p.sgTrailStepPct}% TP=${p.sgTpFixedPct}%`, "trading");
+  }
+
+  /** fs_v2 feature vector: base indicators + decision context (regime, MTF alignment, momentum expansion). */
+  private async buildAiFeatures(
+    pair: string,
+    timeframe: string,
+    confidence: number,
+    spreadPct: number,
+    ctx: Pick<AiDecisionContext, "regime" | "expansion">,
+  ): Promise<AiFeatureRecord> {
+    let mtfAlignment: number | null = null;
+    try {
+      const mtfData = await this.getMultiTimeframeData(pair);
+      mtfAlignment = mtfData ? this.analyzeMultiTimeframe(mtfData).alignment : null;
+    } catch {
+      mtfAlignment = null;
+    }
+    const base = await this.buildBaseAiFeatures(pair, timeframe, confidence, spreadPct);
+    return buildAiFeatureRecord(base, { ...ctx, mtfAlignment });
+  }
+
+  /** Guarda el vector de features de la decisión en ai_feature_store (no bloquea la entrada si falla). */
+  private async recordAiFeatureVector(
+    pair: string,
+    timeframe: string,
+    strategyId: string | null,
+    regime: string | null,
+    features: AiFeatureRecord,
+    prediction: AiPrediction | null,
+  ): Promise<void> {
+    try {
+      const row = await storage.saveAiFeatureVector({
+        pair,
+        regime: normalizeAiRegime(regime),
+        strategyId,
+        timeframe,
+        mode: this.dryRunMode ? "DRY_RUN" : "LIVE",
+        featureSetVersion: AI_FEATURE_SET_VERSION,
+        featuresJson: features,
+        aiScore: prediction ? prediction.score.toFixed(4) : null,
+        aiThreshold: prediction ? prediction.threshold.toFixed(4) : null,
+        wouldBlock: prediction ? !prediction.approve : null,
+        modelVersion: prediction?.modelVersion ?? null,
+        modelSegment: prediction?.segment ?? null,
+      });
+      this.pendingAiFeatureRows.set(pair, { id: row.id, ts: Date.now() });
+    } catch (e: any) {
+      log(`[AI] feature store save error (non-fatal): ${e.message}`, "trading");
+    }
+  }
+
+  /** Asocia la última decisión registrada del par al lote recién abierto. */
+  private attachAiFeatureRow(pair: string, lotId: string): void {
+    const pending = this.pendingAiFeatureRows.get(pair);
+    if (!pending) return;
+    this.pendingAiFeatureRows.delete(pair);
+    if (Date.now() - pending.ts > this.AI_FEATURE_ATTACH_WINDOW_MS) return;
+    storage.attachAiFeatureLot(pending.id, lotId)
+      .catch((e: any) => log(`[AI] feature store attach error (non-fatal): ${e.message}`, "trading"));
+  }
+
+  /** Etiqueta (win/loss) las filas del feature store asociadas al lote vendido. */
+  private labelAiFeatureRow(lotId: string | null | undefined, pnlNet: number, pnlPct: number): void {
+    if (!lotId || !Number.isFinite(pnlNet)) return;
+    storage.labelAiFeatureLot(lotId, pnlNet, Number.isFinite(pnlPct) ? pnlPct : 0)
+      .catch((e: any) => log(`[AI] feature store label error (non-fatal): ${e.message}`, "trading"));
   }
 
-  private async buildAiFeatures(pair: string, timeframe: string, confidence: number, spreadPct: number): Promise<AiFeatures> {
+  private async buildBaseAiFeatures(pair: string, timeframe: string, confidence: number, spreadPct: number): Promise<AiFeatures> {
     try {
       const intervalMinutes = this.getTimeframeIntervalMinutes(timeframe);
       const candles = await this.getCachedOHLC(pair, intervalMinutes);
@@ -2475,12 +2741,12 @@ export class TradingEngine {
     }
     
     const intervalMs = this.getIntervalForStrategy(config.strategy, config.signalTimeframe);
-    this.intervalId = setInterval(() => this.runTradingCycle(), intervalMs);
+    this.intervalId = setInterval(() => observeEngineTick("spot", () => this.runTradingCycle()), intervalMs);
     
     // Iniciar tick interval para ENGINE_TICK cada 60s
     this.tickIntervalId = setInterval(() => this.emitEngineTick(), this.TICK_INTERVAL_MS);
     
-    this.runTradingCycle();
+    observeEngineTick("spot", () => this.runTradingCycle());
   }
 
   async stop() {
@@ -2518,13 +2784,7 @@ El motor de trading ha sido desactivado.
       log(`[FEATURE_FLAG] candleCloseTriggerEnabled=true → intervalo 5s (modo vela ${signalTimeframe})`, "trading");
       return 5000;
     }
-    switch (strategy) {
-      case "scalping": return 10000;
-      case "grid": return 15000;
-      case "momentum": return 30000;
-      case "mean_reversion": return 30000;
-      default: return 30000;
-    }
+    return strategyRegistry.get(strategy)?.cycleIntervalMs ?? 30000;
   }
 
   private async loadOpenPositionsFromDB() {
@@ -2877,6 +3137,7 @@ ${positionsList}
     const pairPriceCache = new Map<string, number>();
     const pairMtfCache = new Map<string, string | null>();
     const pairVolumeRatioCache = new Map<string, number | undefined>();
+    const pairOrderbookBiasCache = new Map<string, number | null>();
 
     for (const [lotId, position] of positionEntries) {
       try {
@@ -2940,6 +3201,13 @@ ${positionsList}
           pairVolumeRatioCache.set(pair, volumeRatio);
         }
 
+        // Order-book imbalance (cached per pair, null when depth unavailable)
+        let orderbookBias = pairOrderbookBiasCache.get(pair);
+        if (orderbookBias === undefined) {
+          orderbookBias = await OrderBookDepthService.getOrderbookBias(pair).catch(() => null);
+          pairOrderbookBiasCache.set(pair, orderbookBias);
+        }
+
         const marketData: SmartExitMarketData = {
           pair: position.pair,
           currentPrice,
@@ -2948,7 +3216,7 @@ ${positionsList}
           mtfTrend,
           mtfValid,
           volumeRatio,
-          orderbookBias: null,
+          orderbookBias,
           exchangeNetflow: null,
         };
 
@@ -3229,6 +3497,7 @@ El bot ha pausado las operaciones de COMPRA.
       const trailingStopPercent = parseFloat(config.trailingStopPercent?.toString() || "2");
 
       // Stop-Loss y Take-Profit siempre se verifican (incluso con límite alcanzado)
+      this.lastExitCheckParams = { stopLossPercent, takeProfitPercent, trailingStopEnabled, trailingStopPercent, balances };
       for (const pair of config.activePairs) {
         await this.exitManager.checkStopLossTakeProfit(pair, stopLossPercent, takeProfitPercent, trailingStopEnabled, trailingStopPercent, balances);
       }
@@ -3236,6 +3505,9 @@ El bot ha pausado las operaciones de COMPRA.
       // Smart Exit Engine: evaluate open positions if enabled
       await this.evaluateOpenPositionsWithSmartExit(config, balances);
 
+      // Mirror each lot's current stop as an exchange-resident stop order (no-op unless EXCHANGE_STOPS_ENABLED)
+      await this.exchangeStopManager.syncAll({ stopLossPercent, trailingStopEnabled, trailingStopPercent });
+
       // Safety: if trading disabled, do not open new positions
       if (!tradingEnabled || positionsInconsistent) {
         const skipReason = !tradingEnabled ? "TRADING_DISABLED" : `POSITIONS_INCONSISTENT(dbPos=${dbOpenPositionsCount},memPos=${this.openPositions.size})`;
@@ -3601,7 +3873,8 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
               // Modo ciclo = siempre análisis completo
               isIntermediateCycle = false;
               this.initPairTrace(pair, expDefault.maxAllowed, false);
-              await this.analyzePairAndTrade(pair, config.strategy, riskConfig, balances);
+              const pairStrategy = strategyRegistry.resolveForPair(config.pairStrategies, pair, "cycle")?.id ?? config.strategy;
+              await this.analyzePairAndTrade(pair, pairStrategy, riskConfig, balances);
             }
             
             // Emitir decision trace para diagnóstico
@@ -3659,8 +3932,8 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
       }
 
       const krakenPair = this.formatKrakenPair(pair);
-      // Use MarketDataService for cached ticker with exchange fallback
-      let ticker = await MarketDataService.getTicker(krakenPair);
+      // MarketDataService is keyed by bot pair (shared with IDCA/Grid and fed by the WS stream)
+      let ticker = await MarketDataService.getTicker(pair);
       if (!ticker) ticker = await this.getDataExchange().getTicker(krakenPair);
       const currentPrice = Number((ticker as any)?.last ?? 0);
       const high24h = 0;
@@ -3942,8 +4215,8 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
         }
 
         // SPREAD FILTER v2: Single decision point (Kraken proxy + RevolutX markup)
-        // Direct call justified: spread check requires real-time bid/ask, cache TTL would cause stale spread decisions
-        const spreadTicker = await this.getDataExchange().getTicker(krakenPair);
+        // Spread check requires real-time bid/ask: stream or direct call, never the cache TTL
+        const spreadTicker = await this.getLiveTicker(pair);
         const spreadResult = await this.checkSpreadForBuy(pair, spreadTicker, earlyRegime, botConfigCheck);
         if (!spreadResult.ok) {
           const sd = spreadResult.details;
@@ -4761,22 +5034,26 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
       let selectedStrategyId = `momentum_candles_${timeframe}`;
       let signal: TradeSignal;
       let routerApplied = false;
+      const rangePlugin = earlyRegime === "RANGE" ? strategyRegistry.findForRegime("RANGE", "candles") : undefined;
+      // Per-pair assignment (bot_config.pair_strategies) takes precedence over the router
+      const assignedPlugin = strategyRegistry.resolveForPair(botConfigForScan?.pairStrategies, pair, "candles");
       
-      if (routerEnabled && regimeEnabledEarly && earlyRegime) {
-        const intervalMinutes = this.getTimeframeIntervalMinutes(timeframe);
-        const candles = await this.getCachedOHLC(pair, intervalMinutes);
-        const closedCandles = candles ? candles.slice(0, -1) : [];
-        const currentPrice = candle.close;
-        
-        if (earlyRegime === "RANGE") {
-          // RANGE: Use Mean Reversion Simple strategy
-          selectedStrategyId = "mean_reversion_simple";
-          signal = this.meanReversionSimpleStrategy(pair, closedCandles, currentPrice);
+      if (assignedPlugin && assignedPlugin.id !== MOMENTUM_CANDLES_ID) {
+        selectedStrategyId = assignedPlugin.id;
+        signal = await this.analyzeWithCandlePlugin(assignedPlugin, pair, timeframe, candle.close, earlyRegime, adjustedMinSignalsForStrategy);
+        // Plugins other than momentum_candles do not build an EntryDecisionContext
+        this.lastEntryContext.delete(pair);
+        log(`[STRATEGY_ASSIGN] ${pair}: pair_strategies → ${assignedPlugin.id} (regime=${earlyRegime ?? "N/A"})`, "trading");
+      } else if (routerEnabled && regimeEnabledEarly && earlyRegime) {
+        if (earlyRegime === "RANGE" && rangePlugin) {
+          // RANGE: first candle plugin preferring RANGE (built-in: mean_reversion_simple)
+          selectedStrategyId = rangePlugin.id;
+          signal = await this.analyzeWithCandlePlugin(rangePlugin, pair, timeframe, candle.close, earlyRegime, adjustedMinSignalsForStrategy);
           routerApplied = true;
           // Clear stale EntryDecisionContext — mean_reversion does not build one.
           // Prevents snapshot from showing old momentum indicators as if they were valid.
           this.lastEntryContext.delete(pair);
-          log(`[ROUTER] ${pair}: RANGE regime → mean_reversion_simple (context cleared)`, "trading");
+          log(`[ROUTER] ${pair}: RANGE regime → ${rangePlugin.id} (context cleared)`, "trading");
         } else if (earlyRegime === "TRANSITION") {
           // TRANSITION: Use momentum with overrides (handled later in sizing/exits)
           selectedStrategyId = `momentum_candles_${timeframe}`;
@@ -4898,8 +5175,8 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
       }
 
       const krakenPair = this.formatKrakenPair(pair);
-      // Use MarketDataService for cached ticker with exchange fallback
-      let ticker = await MarketDataService.getTicker(krakenPair);
+      // MarketDataService is keyed by bot pair (shared with IDCA/Grid and fed by the WS stream)
+      let ticker = await MarketDataService.getTicker(pair);
       if (!ticker) ticker = await this.getDataExchange().getTicker(krakenPair);
       const currentPrice = Number((ticker as any)?.last ?? 0);
       
@@ -5109,7 +5386,7 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
         }
 
         // SPREAD FILTER v2: Single decision point (Kraken proxy + RevolutX markup)
-        const spreadTicker2 = await this.getDataExchange().getTicker(krakenPair);
+        const spreadTicker2 = await this.getLiveTicker(pair);
         const spreadResult2 = await this.checkSpreadForBuy(pair, spreadTicker2, earlyRegime, botConfigCheck);
         if (!spreadResult2.ok) {
           const sd2 = spreadResult2.details;
@@ -5472,10 +5749,17 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
           const aiCfg = await storage.getAiConfig();
           const aiFilterOn = aiCfg?.filterEnabled ?? false;
           const aiShadowOn = aiCfg?.shadowEnabled ?? false;
+          const aiFeatures = await this.buildAiFeatures(pair, timeframe, signal.confidence, sd2ForTrace.spreadEffectivePct, {
+            regime: earlyRegime,
+            expansion: signal.momentumExpansion ?? null,
+          });
           if (aiFilterOn || aiShadowOn) {
-            const aiFeatures = await this.buildAiFeatures(pair, timeframe, signal.confidence, sd2ForTrace.spreadEffectivePct);
-            const prediction = await aiService.predict(aiFeatures);
-            log(`[AI] ${pair}: score=${prediction.score.toFixed(3)} thr=${prediction.threshold} approve=${prediction.approve} filter=${aiFilterOn} shadow=${aiShadowOn}`, "trading");
+            const prediction = await aiService.predict(aiFeatures, { compare: aiShadowOn, pair, regime: earlyRegime });
+            const aiCompareLog = prediction.compare
+              ? ` prev=${prediction.compare.modelVersion}:${prediction.compare.score.toFixed(3)}`
+              : "";
+            log(`[AI] ${pair}: score=${prediction.score.toFixed(3)} thr=${prediction.threshold} approve=${prediction.approve} model=${prediction.modelVersion ?? "none"} segment=${prediction.segment ?? "none"}${aiCompareLog} filter=${aiFilterOn} shadow=${aiShadowOn}`, "trading");
+            await this.recordAiFeatureVector(pair, timeframe, selectedStrategyId, earlyRegime, aiFeatures, prediction);
             if (aiShadowOn) {
               const _effectiveCtx = buildEffectiveDecisionContext({
                 pair,
@@ -5559,7 +5843,10 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
                 reason: !prediction.approve
                   ? `Confianza insuficiente: ${(prediction.score * 100).toFixed(1)}% calculado, mínimo ${(prediction.threshold * 100).toFixed(0)}% exigido.`
                   : null,
-                modelVersion: aiService.getModelVersion(),
+                modelVersion: prediction.modelVersion ?? aiService.getModelVersion(),
+                compareModelVersion: prediction.compare?.modelVersion ?? null,
+                compareScore: prediction.compare ? prediction.compare.score.toFixed(4) : null,
+                compareWouldBlock: prediction.compare ? !prediction.compare.approve : null,
                 metadataJson: {
                   signal: "BUY",
                   strategy: selectedStrategyId ?? null,
@@ -5588,6 +5875,8 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
               });
               return;
             }
+          } else {
+            await this.recordAiFeatureVector(pair, timeframe, selectedStrategyId, earlyRegime, aiFeatures, null);
           }
         } catch (aiErr: any) {
           log(`[AI] filtro ML error (non-fatal): ${aiErr.message}`, "trading");
@@ -5854,23 +6143,15 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
     const mtfData = await this.getMultiTimeframeData(pair);
     const mtfAnalysis = mtfData ? this.analyzeMultiTimeframe(mtfData) : null;
 
-    let signal: TradeSignal;
-    switch (strategy) {
-      case "momentum":
-        signal = this.momentumStrategy(pair, history, currentPrice);
-        break;
-      case "mean_reversion":
-        signal = this.meanReversionStrategy(pair, history, currentPrice);
-        break;
-      case "scalping":
-        signal = this.scalpingStrategy(pair, history, currentPrice);
-        break;
-      case "grid":
-        signal = this.gridStrategy(pair, history, currentPrice);
-        break;
-      default:
-        return { action: "hold", pair, confidence: 0, reason: "Estrategia desconocida" };
+    const plugin = strategyRegistry.get(strategy);
+    if (!plugin || plugin.signalMode !== "cycle") {
+      return { action: "hold", pair, confidence: 0, reason: "Estrategia desconocida" };
+    }
+    const notReady = pluginNotReadyReason(plugin, history.length);
+    if (notReady) {
+      return { action: "hold", pair, confidence: 0, reason: notReady };
     }
+    const signal = plugin.analyze({ pair, currentPrice, history, candles: [], params: {} });
 
     if (mtfAnalysis && signal.action !== "hold") {
       const mtfBoost = this.applyMTFFilter(signal, mtfAnalysis);
@@ -5890,23 +6171,6 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
     return _applyMTFFilter(signal, mtf, regime, adx, atrPct, flags.dynamicMtfEnabled);
   }
 
-  // === CYCLE-MODE STRATEGIES (delegated to strategies.ts) ===
-  private momentumStrategy(pair: string, history: PriceData[], currentPrice: number): TradeSignal {
-    return _momentumStrategy(pair, history, currentPrice);
-  }
-
-  private meanReversionStrategy(pair: string, history: PriceData[], currentPrice: number): TradeSignal {
-    return _meanReversionStrategy(pair, history, currentPrice);
-  }
-
-  private scalpingStrategy(pair: string, history: PriceData[], currentPrice: number): TradeSignal {
-    return _scalpingStrategy(pair, history, currentPrice);
-  }
-
-  private gridStrategy(pair: string, history: PriceData[], currentPrice: number): TradeSignal {
-    return _gridStrategy(pair, history, currentPrice);
-  }
-
   // === TECHNICAL INDICATORS (delegated to indicators.ts) ===
   private calculateEMA(prices: number[], period: number): number { return _calculateEMA(prices, period); }
   private calculateRSI(prices: number[]): number { return _calculateRSI(prices); }
@@ -6457,6 +6721,7 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
                 drSnapshot.sgScaleOutPct = sgP.sgScaleOutPct;
                 drSnapshot.sgMinPartUsd = sgP.sgMinPartUsd;
                 drSnapshot.sgScaleOutThreshold = sgP.sgScaleOutThreshold;
+                this.applyAssignedExitProfile(pair, drSnapshot, drCfg, strategyMeta);
               }
               const dryPos: OpenPosition = {
                 lotId: simTxid,
@@ -6477,6 +6742,7 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
                 sgScaleOutDone: false,
               };
               this.openPositions.set(simTxid, dryPos);
+              this.attachAiFeatureRow(pair, simTxid);
               log(`${envPrefixLog} Posición DRY_RUN añadida al tracker: ${simTxid} (${pair} ${volumeNum.toFixed(8)} @ $${price.toFixed(2)})`, "trading");
             } catch (posErr: any) {
               log(`${envPrefixLog} Error añadiendo posición DRY_RUN al tracker: ${posErr?.message}`, "trading");
@@ -6535,6 +6801,7 @@ Compra bloqueada en <code>${pair}</code> por datos de mercado degradados.
                 pnlUsd, pnlPct,
               });
             }
+            this.labelAiFeatureRow(matchedBuy?.simTxid ?? sellLotId, pnlUsd, pnlPct);
 
             // Insert the sell record
             await db.insert(dryRunTrades).values({
@@ -6617,6 +6884,36 @@ ${emoji} <b>SEÑAL: ${tipoLabel} ${pair}</b> ${emoji}
         }
         log(`[WARN] Emergency SELL sin sellContext para ${pair} - permitido. Razón: ${reason}`, "trading");
       }
+
+      // Exchange-resident stop must be cancelled first (Kraken reserves the balance of open orders)
+      if (type === "sell") {
+        const lotId = sellContext?.lotId;
+        const release = await this.exchangeStopManager.releaseForExit(pair, lotId);
+        if (!release.proceed) {
+          log(`[EXCHANGE_STOP] SELL ${pair} abortado: ${release.reason}`, "trading");
+          await botLogger.warn("EXCHANGE_STOP_RELEASE_BLOCKED", `SELL abortado por stop protector en exchange`, {
+            pair, lotId: lotId ?? null, volume, reason: release.reason,
+          });
+          return false;
+        }
+      }
+
+      // Límites de exposición / VaR cross-estrategia (portfolio_risk_limits)
+      if (type === "buy") {
+        const risk = await portfolioIntegrationAdapter.checkRisk({
+          mode: "SPOT_NORMAL",
+          exchange: this.getTradingExchangeType(),
+          asset: pair.split("/")[0],
+          amountUsd: totalUSD,
+        });
+        if (!risk.allowed) {
+          log(`[PORTFOLIO_RISK] BUY ${pair} bloqueado: ${risk.reason}`, "trading");
+          await botLogger.warn("PORTFOLIO_RISK_BLOCKED", `BUY bloqueado por límite de riesgo de cartera`, {
+            pair, volume, totalUsd: totalUSD, reason: risk.reason,
+          });
+          return false;
+        }
+      }
       
       // CRITICAL: Generate correlation_id for full traceability
       const correlationId = `${Date.now()}-${pair.replace('/', '')}-${type}-${Math.random().toString(36).slice(2, 8)}`;
@@ -6744,6 +7041,7 @@ ${emoji} <b>SEÑAL: ${tipoLabel} ${pair}</b> ${emoji}
               configSnapshot.sgBeAtPct = sgParams.sgBeAtPct;
               configSnapshot.sgTrailStartPct = sgParams.sgTrailStartPct;
               configSnapshot.sgTrailDistancePct = sgParams.sgTrailDistancePct;
+              this.applyAssignedExitProfile(pair, configSnapshot, currentConfig, strategyMeta);
             }
             const lotId = `engine-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
             
@@ -7130,6 +7428,7 @@ ${emoji} <b>SEÑAL: ${tipoLabel} ${pair}</b> ${emoji}
                 configSnapshot.sgScaleOutPct = sgParams.sgScaleOutPct;
                 configSnapshot.sgMinPartUsd = sgParams.sgMinPartUsd;
                 configSnapshot.sgScaleOutThreshold = sgParams.sgScaleOutThreshold;
+                this.applyAssignedExitProfile(pair, configSnapshot, currentConfig, strategyMeta);
 
                 const regimeEnabled = currentConfig?.regimeDetectionEnabled ?? false;
                 const adaptiveExitEnabled = currentConfig?.adaptiveExitEnabled ?? false;
@@ -7233,6 +7532,7 @@ ${emoji} <b>SEÑAL: ${tipoLabel} ${pair}</b> ${emoji}
                 entryContext,
               };
               this.openPositions.set(lotId, newPosition);
+              this.attachAiFeatureRow(pair, lotId);
               
               // Clean up pending exposure now that position is confirmed OPEN
               this.removePendingExposure(lotId);
@@ -7302,6 +7602,8 @@ ${emoji} <b>SEÑAL: ${tipoLabel} ${pair}</b> ${emoji}
                   log(`[AI] Error actualizando sample: ${aiErr.message}`, "trading");
                 }
               }
+              const entryCost = sellContext.entryPrice * volumeNum;
+              this.labelAiFeatureRow(sellContext.lotId, pnlNet, entryCost > 0 ? (pnlNet / entryCost) * 100 : 0);
             } else {
               log(`[WARN] Emergency SELL completado sin sellContext para ${pair} - P&L no registrado.`, "trading");
             }
@@ -7766,6 +8068,22 @@ ${pnlEmoji} <b>PnL:</b> <code>${pnlUsd >= 0 ? "+" : ""}$${pnlUsd.toFixed(2)} (${
       const actualPnlUsd = grossPnlUsd - entryFeeUsd - exitFeeUsd;
       const actualPnlPct = (actualPnlUsd / entryValueUsd) * 100;
 
+      // Exchange-resident stop must be cancelled first (Kraken reserves the balance of open orders)
+      const release = await this.exchangeStopManager.releaseForExit(pair, positionLotId);
+      if (!release.proceed) {
+        log(`[MANUAL_CLOSE] SELL ${pair} (${positionLotId}) abortado: ${release.reason}`, "trading");
+        await botLogger.warn("EXCHANGE_STOP_RELEASE_BLOCKED", `Cierre manual abortado por stop protector en exchange`, {
+          pair, lotId: positionLotId, volume: sellAmountFinal, reason: release.reason,
+        });
+        return {
+          success: false,
+          error: release.reason === "EXCHANGE_STOP_ALREADY_FILLED"
+            ? "El stop protector en el exchange ya ejecutó la venta de este lote"
+            : "No se pudo cancelar el stop protector en el exchange; cierre abortado",
+          lotId: positionLotId,
+        };
+      }
+
       // PRODUCCIÓN: Ejecutar orden real de venta via exchange activo
       const order = await this.getTradingExchange().placeOrder({
         pair,
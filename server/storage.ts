@@ -24,6 +24,8 @@ import {
   type InsertAiShadowDecision,
   type InsertAiConfig,
   type InsertTrainingTrade,
+  type AiFeatureStoreRow,
+  type InsertAiFeatureStoreRow,
   type InsertHybridReentryWatch,
   type TradeFill,
   type LotMatch,
@@ -56,6 +58,7 @@ import {
   aiTradeSamples as aiTradeSamplesTable,
   aiShadowDecisions as aiShadowDecisionsTable,
   aiConfig as aiConfigTable,
+  aiFeatureStore as aiFeatureStoreTable,
   trainingTrades as trainingTradesTable,
   orderIntents as orderIntentsTable,
   hybridReentryWatches as hybridReentryWatchesTable,
@@ -81,6 +84,9 @@ import {
   telegramGlobalConfig as telegramGlobalConfigTable,
   telegramAlertEvents as telegramAlertEventsTable,
   telegramCommandLog as telegramCommandLogTable,
+  notificationChannels as notificationChannelsTable,
+  type NotificationChannel,
+  type InsertNotificationChannel,
   type TelegramGlobalConfig,
   type InsertTelegramAlertEvent,
   type InsertTelegramCommandLog,
@@ -88,6 +94,7 @@ import {
 import { db } from "./db";
 import { eq, desc, and, gt, lt, sql, isNull, ne, or, inArray } from "drizzle-orm";
 import { errorAlertService, ErrorAlertService } from "./services/ErrorAlertService";
+import { summarizeShadowComparison, type ShadowModelComparison } from "./services/ai/shadowComparison";
 
 type ExchangeSyncScope = 'ALL' | string;
 
@@ -101,6 +108,46 @@ export type ExchangeSyncStateRow = {
   lastError: string | null;
 };
 
+/** Closed trade joined ENTRY/EXIT (BOT_SPOT) or CYCLE_START/CYCLE_CLOSED (IDCA) with MFE/MAE peaks. */
+export type AutotuningTradeSampleRow = {
+  sourceTradeId: string;
+  sourceMode: string;
+  strategyType: string;
+  pair: string;
+  evidenceWeight: number;
+  regime: string | null;
+  signalScore: number | null;
+  spreadPct: number | null;
+  exitCategory: string | null;
+  pnlPct: number;
+  pnlNetUsd: number | null;
+  mfePct: number | null;
+  maePct: number | null;
+  exitTs: Date | null;
+};
+
+/** ai_feature_store totals + per-pair decision stats over the last `days`. */
+export type AiFeatureStoreSummary = {
+  tableExists: boolean;
+  total: number;
+  labeled: number;
+  labeledCurrentVersion: number;
+  featureSetVersion: string;
+  days: number;
+  byPair: Array<{
+    pair: string;
+    decisions: number;
+    scored: number;
+    blocked: number;
+    blockRate: number | null;
+    avgScore: number | null;
+    labeled: number;
+    winRate: number | null;
+    /** Model segment that scored most of the pair's decisions */
+    topSegment: string | null;
+  }>;
+};
+
 export interface IStorage {
   getBotConfig(): Promise<BotConfig | undefined>;
   updateBotConfig(config: Partial<InsertBotConfig>): Promise<BotConfig>;
@@ -190,6 +237,13 @@ export interface IStorage {
   // Telegram command log
   insertTelegramCommandLog(entry: InsertTelegramCommandLog): Promise<void>;
   getRecentTelegramCommandLogs(limit: number): Promise<any[]>;
+
+  // Notification channels (webhook, email, ntfy, Gotify, Discord)
+  getNotificationChannels(): Promise<NotificationChannel[]>;
+  getNotificationChannelById(id: number): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(id: number, channel: Partial<NotificationChannel>): Promise<NotificationChannel | undefined>;
+  deleteNotificationChannel(id: number): Promise<void>;
   
   getOpenPositions(): Promise<OpenPosition[]>;
   getOpenPosition(pair: string): Promise<OpenPosition | undefined>;
@@ -244,10 +298,18 @@ export interface IStorage {
     passedLosers: number;
     tableExists: boolean;
     recent: AiShadowDecision[];
+    modelComparison: ShadowModelComparison | null;
   }>;
   
   getAiConfig(): Promise<AiConfig | undefined>;
   updateAiConfig(config: Partial<InsertAiConfig>): Promise<AiConfig>;
+
+  saveAiFeatureVector(row: InsertAiFeatureStoreRow): Promise<AiFeatureStoreRow>;
+  attachAiFeatureLot(id: number, lotId: string): Promise<void>;
+  labelAiFeatureLot(lotId: string, pnlNet: number, pnlPct: number): Promise<number>;
+  getAiFeatureStoreTrainingRows(featureSetVersion: string): Promise<AiFeatureStoreRow[]>;
+  countAiFeatureStoreLabeled(featureSetVersion: string): Promise<number>;
+  getAiFeatureStoreSummary(featureSetVersion: string, days?: number): Promise<AiFeatureStoreSummary>;
   
   saveTrainingTrade(trade: InsertTrainingTrade): Promise<TrainingTrade>;
   updateTrainingTrade(id: number, updates: Partial<InsertTrainingTrade>): Promise<TrainingTrade | undefined>;
@@ -270,6 +332,8 @@ export interface IStorage {
   saveTradeMetric(metric: InsertTradeMetric): Promise<TradeMetric>;
   getTradeMetricsBySource(sourceTradeId: string, sourceMode: string, limit?: number): Promise<TradeMetric[]>;
   cleanupTradeMetrics(retentionDays?: number): Promise<number>;
+  getAutotuningTradeSamples(options?: { strategyType?: string; pair?: string; sinceDays?: number; limit?: number }): Promise<AutotuningTradeSampleRow[]>;
+  getAiShadowOutcomes(options?: { pair?: string; sinceDays?: number }): Promise<Array<{ pair: string | null; score: number; threshold: number; finalPnlNet: number }>>;
 
   // Autotuning: StrategyProfiles
   getStrategyProfiles(options?: { strategyType?: string; mode?: string; isActive?: boolean }): Promise<StrategyProfile[]>;
@@ -1303,6 +1367,39 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // ============================================================
+  // Notification Channels
+  // ============================================================
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return await db.select().from(notificationChannelsTable).orderBy(notificationChannelsTable.id);
+  }
+
+  async getNotificationChannelById(id: number): Promise<NotificationChannel | undefined> {
+    const rows = await db.select().from(notificationChannelsTable).where(eq(notificationChannelsTable.id, id)).limit(1);
+    return rows[0];
+  }
+
+  async createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const [created] = await db.insert(notificationChannelsTable).values({
+      ...channel,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return created;
+  }
+
+  async updateNotificationChannel(id: number, channel: Partial<NotificationChannel>): Promise<NotificationChannel | undefined> {
+    const [updated] = await db.update(notificationChannelsTable)
+      .set({ ...channel, updatedAt: new Date() })
+      .where(eq(notificationChannelsTable.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteNotificationChannel(id: number): Promise<void> {
+    await db.delete(notificationChannelsTable).where(eq(notificationChannelsTable.id, id));
+  }
+
   // ============================================================
   // Telegram Command Log
   // ============================================================
@@ -1646,8 +1743,9 @@ export class DatabaseStorage implements IStorage {
     passedLosers: number;
     tableExists: boolean;
     recent: AiShadowDecision[];
+    modelComparison: ShadowModelComparison | null;
   }> {
-    const empty = { total: 0, pending: 0, evaluated: 0, blocked: 0, allowed: 0, blockedLosers: 0, passedLosers: 0, tableExists: false, recent: [] as AiShadowDecision[] };
+    const empty = { total: 0, pending: 0, evaluated: 0, blocked: 0, allowed: 0, blockedLosers: 0, passedLosers: 0, tableExists: false, recent: [] as AiShadowDecision[], modelComparison: null };
     // Check table existence first — table may not exist yet (migration pending)
     try {
       const tableCheck = await db.execute(sql`
@@ -1676,7 +1774,9 @@ export class DatabaseStorage implements IStorage {
       const passedLosers = allDecisions.filter(d => !d.wouldBlock && d.finalPnlNet !== null && parseFloat(d.finalPnlNet) < 0).length;
       const recent = allDecisions.slice(0, 10);
 
-      return { total, pending, evaluated, blocked, allowed, blockedLosers, passedLosers, tableExists: true, recent };
+      const modelComparison = summarizeShadowComparison(allDecisions);
+
+      return { total, pending, evaluated, blocked, allowed, blockedLosers, passedLosers, tableExists: true, recent, modelComparison };
     } catch (e: any) {
       // If table doesn't exist or any other DB error, return empty report gracefully
       if (e?.message?.includes('does not exist') || e?.code === '42P01') {
@@ -1708,6 +1808,105 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async saveAiFeatureVector(row: InsertAiFeatureStoreRow): Promise<AiFeatureStoreRow> {
+    const [saved] = await db.insert(aiFeatureStoreTable).values(row).returning();
+    return saved;
+  }
+
+  async attachAiFeatureLot(id: number, lotId: string): Promise<void> {
+    await db.update(aiFeatureStoreTable)
+      .set({ lotId })
+      .where(and(eq(aiFeatureStoreTable.id, id), isNull(aiFeatureStoreTable.lotId)));
+  }
+
+  /** Adds a (partial) sell result to the lot's feature rows; the label follows the cumulative PnL. */
+  async labelAiFeatureLot(lotId: string, pnlNet: number, pnlPct: number): Promise<number> {
+    const result = await db.execute(sql`
+      UPDATE ai_feature_store
+      SET pnl_net    = COALESCE(pnl_net, 0) + ${pnlNet},
+          pnl_pct    = ${pnlPct},
+          label_win  = CASE WHEN COALESCE(pnl_net, 0) + ${pnlNet} > 0 THEN 1 ELSE 0 END,
+          labeled_at = NOW()
+      WHERE lot_id = ${lotId}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async getAiFeatureStoreTrainingRows(featureSetVersion: string): Promise<AiFeatureStoreRow[]> {
+    return db.select().from(aiFeatureStoreTable)
+      .where(and(
+        eq(aiFeatureStoreTable.featureSetVersion, featureSetVersion),
+        sql`${aiFeatureStoreTable.labelWin} IS NOT NULL`,
+      ))
+      .orderBy(aiFeatureStoreTable.createdAt);
+  }
+
+  async countAiFeatureStoreLabeled(featureSetVersion: string): Promise<number> {
+    try {
+      const result = await db.select({ count: sql<number>`count(*)` }).from(aiFeatureStoreTable)
+        .where(and(
+          eq(aiFeatureStoreTable.featureSetVersion, featureSetVersion),
+          sql`${aiFeatureStoreTable.labelWin} IS NOT NULL`,
+        ));
+      return Number(result[0]?.count || 0);
+    } catch (e: any) {
+      if (e?.message?.includes('does not exist') || e?.code === '42P01') return 0;
+      throw e;
+    }
+  }
+
+  async getAiFeatureStoreSummary(featureSetVersion: string, days = 30): Promise<AiFeatureStoreSummary> {
+    const empty: AiFeatureStoreSummary = { tableExists: false, total: 0, labeled: 0, labeledCurrentVersion: 0, featureSetVersion, days, byPair: [] };
+    try {
+      const totals = await db.execute(sql`
+        SELECT COUNT(*)::int AS total,
+               COUNT(label_win)::int AS labeled,
+               COUNT(*) FILTER (WHERE label_win IS NOT NULL AND feature_set_version = ${featureSetVersion})::int AS labeled_current
+        FROM ai_feature_store
+      `);
+      const byPair = await db.execute(sql`
+        SELECT pair,
+               COUNT(*)::int                                 AS decisions,
+               COUNT(ai_score)::int                          AS scored,
+               COUNT(*) FILTER (WHERE would_block)::int      AS blocked,
+               AVG(ai_score)::float                          AS avg_score,
+               COUNT(label_win)::int                         AS labeled,
+               AVG(label_win)::float                         AS win_rate,
+               MODE() WITHIN GROUP (ORDER BY model_segment)  AS top_segment
+        FROM ai_feature_store
+        WHERE created_at >= NOW() - make_interval(days => ${days})
+        GROUP BY pair
+        ORDER BY decisions DESC
+      `);
+      const t = (totals.rows?.[0] ?? {}) as any;
+      return {
+        tableExists: true,
+        total: Number(t.total ?? 0),
+        labeled: Number(t.labeled ?? 0),
+        labeledCurrentVersion: Number(t.labeled_current ?? 0),
+        featureSetVersion,
+        days,
+        byPair: (byPair.rows as any[]).map(r => ({
+          pair: r.pair,
+          decisions: Number(r.decisions),
+          scored: Number(r.scored),
+          blocked: Number(r.blocked),
+          blockRate: Number(r.scored) > 0 ? Number(r.blocked) / Number(r.scored) : null,
+          avgScore: r.avg_score != null ? Number(r.avg_score) : null,
+          labeled: Number(r.labeled),
+          winRate: r.win_rate != null ? Number(r.win_rate) : null,
+          topSegment: r.top_segment ?? null,
+        })),
+      };
+    } catch (e: any) {
+      // Migration 099 pending
+      if (e?.message?.includes('does not exist') || e?.code === '42P01') {
+        return empty;
+      }
+      throw e;
+    }
+  }
+
   async saveTrainingTrade(trade: InsertTrainingTrade): Promise<TrainingTrade> {
     const [newTrade] = await db.insert(trainingTradesTable).values(trade).returning();
     return newTrade;
@@ -2123,6 +2322,7 @@ export class DatabaseStorage implements IStorage {
       { column: 'events_retention_enabled', table: 'bot_config' },
       { column: 'events_retention_days', table: 'bot_config' },
       { column: 'smart_exit_config', table: 'bot_config' },
+      { column: 'pair_strategies', table: 'bot_config' },
     ];
     
     const requiredOpenPositionsColumns = [
@@ -2196,6 +2396,7 @@ export class DatabaseStorage implements IStorage {
         { table: 'bot_config', column: 'last_events_purge_at', sql: 'ALTER TABLE bot_config ADD COLUMN IF NOT EXISTS last_events_purge_at TIMESTAMP' },
         { table: 'bot_config', column: 'last_events_purge_count', sql: 'ALTER TABLE bot_config ADD COLUMN IF NOT EXISTS last_events_purge_count INTEGER DEFAULT 0' },
         { table: 'bot_config', column: 'smart_exit_config', sql: "ALTER TABLE bot_config ADD COLUMN IF NOT EXISTS smart_exit_config jsonb NOT NULL DEFAULT '{}'::jsonb" },
+        { table: 'bot_config', column: 'pair_strategies', sql: "ALTER TABLE bot_config ADD COLUMN IF NOT EXISTS pair_strategies jsonb NOT NULL DEFAULT '{}'::jsonb" },
         
         // institutional_dca_cycles — all import + manual cycle + exchange + fees columns
         { table: 'institutional_dca_cycles', column: 'cycle_type', sql: "ALTER TABLE institutional_dca_cycles ADD COLUMN IF NOT EXISTS cycle_type TEXT NOT NULL DEFAULT 'main'" },
@@ -2242,6 +2443,20 @@ export class DatabaseStorage implements IStorage {
         // institutional_dca_config — recovery cycle config
         { table: 'institutional_dca_config', column: 'recovery_config_json', sql: `ALTER TABLE institutional_dca_config ADD COLUMN IF NOT EXISTS recovery_config_json JSONB NOT NULL DEFAULT '{"enabled":false,"activationDrawdownPct":25,"maxRecoveryCyclesPerMain":1,"maxTotalCyclesPerPair":3,"maxPairExposurePct":40,"capitalAllocationPct":10,"maxRecoveryCapitalUsd":500,"cooldownMinutesAfterMainBuy":120,"cooldownMinutesBetweenRecovery":360,"minMarketScoreForRecovery":40,"requireReboundConfirmation":true,"recoveryTpPctBtc":2.5,"recoveryTpPctEth":3.0,"maxRecoveryEntries":2,"recoveryEntryDipSteps":[2.0,4.0],"recoveryTrailingPctBtc":0.8,"recoveryTrailingPctEth":1.0,"autoCloseIfMainClosed":true,"autoCloseIfMainRecovers":false,"maxRecoveryDurationHours":168}'::jsonb` },
 
+        // institutional_dca_backtests — cycle-level replay results (086)
+        { table: 'institutional_dca_backtests', column: 'results_json', sql: 'ALTER TABLE institutional_dca_backtests ADD COLUMN IF NOT EXISTS results_json JSONB' },
+        // institutional_dca_asset_configs — per-asset guardrails for pairs beyond BTC/ETH (087)
+        { table: 'institutional_dca_asset_configs', column: 'min_trailing_pct', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS min_trailing_pct DECIMAL(5,2)' },
+        { table: 'institutional_dca_asset_configs', column: 'max_trailing_pct', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS max_trailing_pct DECIMAL(5,2)' },
+        { table: 'institutional_dca_asset_configs', column: 'min_tp_pct', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS min_tp_pct DECIMAL(5,2)' },
+        { table: 'institutional_dca_asset_configs', column: 'max_tp_pct', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS max_tp_pct DECIMAL(5,2)' },
+        { table: 'institutional_dca_asset_configs', column: 'max_asset_exposure_pct', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS max_asset_exposure_pct DECIMAL(5,2)' },
+        { table: 'institutional_dca_asset_configs', column: 'btc_gate_enabled', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS btc_gate_enabled BOOLEAN' },
+        // api_config — Binance Spot credentials (088)
+        { table: 'api_config', column: 'binance_api_key', sql: 'ALTER TABLE api_config ADD COLUMN IF NOT EXISTS binance_api_key TEXT' },
+        { table: 'api_config', column: 'binance_api_secret', sql: 'ALTER TABLE api_config ADD COLUMN IF NOT EXISTS binance_api_secret TEXT' },
+        { table: 'api_config', column: 'binance_connected', sql: 'ALTER TABLE api_config ADD COLUMN IF NOT EXISTS binance_connected BOOLEAN NOT NULL DEFAULT false' },
+        { table: 'api_config', column: 'binance_enabled', sql: 'ALTER TABLE api_config ADD COLUMN IF NOT EXISTS binance_enabled BOOLEAN NOT NULL DEFAULT false' },
         // institutional_dca_asset_configs — IDCA exit slider config
         { table: 'institutional_dca_asset_configs', column: 'protection_activation_pct', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS protection_activation_pct DECIMAL(5,2) NOT NULL DEFAULT 1.00' },
         { table: 'institutional_dca_asset_configs', column: 'trailing_activation_pct', sql: 'ALTER TABLE institutional_dca_asset_configs ADD COLUMN IF NOT EXISTS trailing_activation_pct DECIMAL(5,2) NOT NULL DEFAULT 3.50' },
@@ -2270,12 +2485,18 @@ export class DatabaseStorage implements IStorage {
         { table: 'open_positions', column: 'sg_current_stop_price', sql: 'ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS sg_current_stop_price DECIMAL(18,8)' },
         { table: 'open_positions', column: 'sg_scale_out_done', sql: 'ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS sg_scale_out_done BOOLEAN DEFAULT false' },
         { table: 'open_positions', column: 'config_snapshot_json', sql: 'ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS config_snapshot_json JSONB' },
+        // open_positions — exchange-resident protective stop (092)
+        { table: 'open_positions', column: 'exchange_stop_order_id', sql: 'ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS exchange_stop_order_id TEXT' },
+        { table: 'open_positions', column: 'exchange_stop_price', sql: 'ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS exchange_stop_price DECIMAL(18,8)' },
+        { table: 'open_positions', column: 'exchange_stop_updated_at', sql: 'ALTER TABLE open_positions ADD COLUMN IF NOT EXISTS exchange_stop_updated_at TIMESTAMP' },
         // grid_isolated_configs — allocation mode fields
         { table: 'grid_isolated_configs', column: 'grid_allocation_mode', sql: "ALTER TABLE grid_isolated_configs ADD COLUMN IF NOT EXISTS grid_allocation_mode TEXT NOT NULL DEFAULT 'uniform'" },
         { table: 'grid_isolated_configs', column: 'grid_capital_deployment_mode', sql: "ALTER TABLE grid_isolated_configs ADD COLUMN IF NOT EXISTS grid_capital_deployment_mode TEXT NOT NULL DEFAULT 'capped'" },
         { table: 'grid_isolated_configs', column: 'grid_progressive_intensity', sql: 'ALTER TABLE grid_isolated_configs ADD COLUMN IF NOT EXISTS grid_progressive_intensity DECIMAL(5,2) NOT NULL DEFAULT 0.30' },
         { table: 'grid_isolated_configs', column: 'grid_max_level_pct', sql: 'ALTER TABLE grid_isolated_configs ADD COLUMN IF NOT EXISTS grid_max_level_pct DECIMAL(5,2) NOT NULL DEFAULT 40.00' },
         { table: 'grid_isolated_configs', column: 'grid_min_level_usd', sql: 'ALTER TABLE grid_isolated_configs ADD COLUMN IF NOT EXISTS grid_min_level_usd DECIMAL(10,2) NOT NULL DEFAULT 30.00' },
+        // strategy_capital_reservations — trading exchange of the reservation (100)
+        { table: 'strategy_capital_reservations', column: 'exchange', sql: "ALTER TABLE strategy_capital_reservations ADD COLUMN IF NOT EXISTS exchange TEXT NOT NULL DEFAULT 'revolutx'" },
       ];
       
       for (const migration of migrations) {
@@ -2438,6 +2659,230 @@ export class DatabaseStorage implements IStorage {
         columnsAdded.push('idca_trailing_buy_telegram_state (table)');
       } catch (e) { /* already exists — idempotent */ }
 
+      // === 089: Auth users, tokens and audit log ===
+      try {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS auth_users (
+            id             SERIAL PRIMARY KEY,
+            username       TEXT        NOT NULL UNIQUE,
+            password_hash  TEXT        NOT NULL,
+            role           TEXT        NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+            is_active      BOOLEAN     NOT NULL DEFAULT TRUE,
+            last_login_at  TIMESTAMP,
+            created_at     TIMESTAMP   NOT NULL DEFAULT NOW(),
+            updated_at     TIMESTAMP   NOT NULL DEFAULT NOW()
+          )
+        `);
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS auth_tokens (
+            id             SERIAL PRIMARY KEY,
+            user_id        INTEGER     NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+            kind           TEXT        NOT NULL CHECK (kind IN ('session', 'api_key')),
+            label          TEXT,
+            token_hash     TEXT        NOT NULL UNIQUE,
+            token_prefix   TEXT        NOT NULL,
+            created_at     TIMESTAMP   NOT NULL DEFAULT NOW(),
+            expires_at     TIMESTAMP,
+            last_used_at   TIMESTAMP,
+            revoked_at     TIMESTAMP
+          )
+        `);
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS auth_audit_log (
+            id             BIGSERIAL PRIMARY KEY,
+            timestamp      TIMESTAMP   NOT NULL DEFAULT NOW(),
+            user_id        INTEGER,
+            username       TEXT,
+            role           TEXT,
+            auth_method    TEXT,
+            method         TEXT        NOT NULL,
+            path           TEXT        NOT NULL,
+            status_code    INTEGER,
+            ip             TEXT,
+            duration_ms    INTEGER,
+            request_body   JSONB
+          )
+        `);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_auth_tokens_user ON auth_tokens (user_id, kind)`);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_auth_audit_log_ts ON auth_audit_log (timestamp DESC)`);
+        columnsAdded.push('auth_users/auth_tokens/auth_audit_log (tables)');
+      } catch (e) { /* already exists — idempotent */ }
+
+      // === 091: Order-book depth snapshots (audit) ===
+      try {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS orderbook_depth_snapshots (
+            id              BIGSERIAL PRIMARY KEY,
+            pair            TEXT        NOT NULL,
+            exchange        TEXT        NOT NULL,
+            reason          TEXT        NOT NULL,
+            best_bid        DECIMAL(18,8) NOT NULL,
+            best_ask        DECIMAL(18,8) NOT NULL,
+            mid             DECIMAL(18,8) NOT NULL,
+            spread_bps      DECIMAL(10,4) NOT NULL,
+            orderbook_bias  DECIMAL(6,4)  NOT NULL,
+            bands           JSONB       NOT NULL DEFAULT '[]'::jsonb,
+            slippage        JSONB       NOT NULL DEFAULT '[]'::jsonb,
+            top_levels      JSONB,
+            book_ts         TIMESTAMP   NOT NULL,
+            captured_at     TIMESTAMP   NOT NULL DEFAULT NOW()
+          )
+        `);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_orderbook_depth_snapshots_pair_ts ON orderbook_depth_snapshots (pair, captured_at DESC)`);
+        columnsAdded.push('orderbook_depth_snapshots (table)');
+      } catch (e) { /* already exists — idempotent */ }
+
+      // === 093: Sliced execution parent/child orders ===
+      try {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS execution_parent_orders (
+            parent_id     TEXT PRIMARY KEY,
+            source        TEXT          NOT NULL,
+            source_ref    TEXT,
+            exchange      TEXT          NOT NULL,
+            pair          TEXT          NOT NULL,
+            side          TEXT          NOT NULL,
+            algo          TEXT          NOT NULL,
+            status        TEXT          NOT NULL,
+            target_qty    DECIMAL(18,8) NOT NULL,
+            filled_qty    DECIMAL(18,8) NOT NULL DEFAULT 0,
+            filled_usd    DECIMAL(18,8) NOT NULL DEFAULT 0,
+            avg_price     DECIMAL(18,8),
+            fee_usd       DECIMAL(18,8) NOT NULL DEFAULT 0,
+            child_count   INTEGER       NOT NULL DEFAULT 0,
+            config_json   JSONB,
+            error         TEXT,
+            started_at    TIMESTAMP     NOT NULL DEFAULT NOW(),
+            finished_at   TIMESTAMP
+          )
+        `);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_execution_parent_orders_source ON execution_parent_orders (source, source_ref)`);
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS execution_child_orders (
+            child_id          TEXT PRIMARY KEY,
+            parent_id         TEXT          NOT NULL REFERENCES execution_parent_orders(parent_id),
+            child_index       INTEGER       NOT NULL,
+            exchange_order_id TEXT,
+            order_type        TEXT          NOT NULL,
+            post_only         BOOLEAN       NOT NULL DEFAULT FALSE,
+            limit_price       DECIMAL(18,8),
+            requested_qty     DECIMAL(18,8) NOT NULL,
+            filled_qty        DECIMAL(18,8) NOT NULL DEFAULT 0,
+            avg_price         DECIMAL(18,8),
+            fee_usd           DECIMAL(18,8) NOT NULL DEFAULT 0,
+            status            TEXT          NOT NULL,
+            replaced_by       TEXT,
+            error             TEXT,
+            created_at        TIMESTAMP     NOT NULL DEFAULT NOW(),
+            updated_at        TIMESTAMP     NOT NULL DEFAULT NOW()
+          )
+        `);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_execution_child_orders_parent ON execution_child_orders (parent_id, child_index)`);
+        columnsAdded.push('execution_parent_orders + execution_child_orders (tables)');
+      } catch (e) { /* already exists — idempotent */ }
+
+      // === 094: Notification channels (webhook/email/ntfy/Gotify/Discord) ===
+      try {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS notification_channels (
+            id                        SERIAL PRIMARY KEY,
+            name                      TEXT      NOT NULL,
+            type                      TEXT      NOT NULL,
+            is_active                 BOOLEAN   NOT NULL DEFAULT TRUE,
+            config_json               JSONB     NOT NULL DEFAULT '{}'::jsonb,
+            enabled_modes             TEXT[]    NOT NULL DEFAULT '{}',
+            min_severity              TEXT      NOT NULL DEFAULT 'HIGH',
+            only_on_telegram_failure  BOOLEAN   NOT NULL DEFAULT FALSE,
+            last_sent_at              TIMESTAMP,
+            last_error                TEXT,
+            created_at                TIMESTAMP NOT NULL DEFAULT NOW(),
+            updated_at                TIMESTAMP NOT NULL DEFAULT NOW()
+          )
+        `);
+        await db.execute(sql`ALTER TABLE telegram_alert_events ADD COLUMN IF NOT EXISTS transport TEXT NOT NULL DEFAULT 'telegram'`);
+        await db.execute(sql`ALTER TABLE telegram_alert_events ADD COLUMN IF NOT EXISTS notification_channel_id INTEGER`);
+        columnsAdded.push('notification_channels (table) + telegram_alert_events.transport');
+      } catch (e) { /* already exists — idempotent */ }
+
+      // === 095: Portfolio risk limits (exposure / VaR / CVaR) ===
+      try {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS portfolio_risk_limits (
+            asset             TEXT PRIMARY KEY,
+            max_exposure_usd  NUMERIC(18, 2) CHECK (max_exposure_usd IS NULL OR max_exposure_usd >= 0),
+            max_exposure_pct  NUMERIC(6, 2)  CHECK (max_exposure_pct IS NULL OR (max_exposure_pct >= 0 AND max_exposure_pct <= 100)),
+            max_var_usd       NUMERIC(18, 2) CHECK (max_var_usd IS NULL OR max_var_usd >= 0),
+            max_cvar_usd      NUMERIC(18, 2) CHECK (max_cvar_usd IS NULL OR max_cvar_usd >= 0),
+            enabled           BOOLEAN        NOT NULL DEFAULT TRUE,
+            updated_by        TEXT,
+            created_at        TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+            updated_at        TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+          )
+        `);
+        columnsAdded.push('portfolio_risk_limits (table)');
+      } catch (e) { /* already exists — idempotent */ }
+
+      // === 096: Backup runs (scheduled backups + restore drills) ===
+      try {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS backup_runs (
+            id           SERIAL PRIMARY KEY,
+            kind         TEXT        NOT NULL CHECK (kind IN ('daily', 'weekly', 'drill')),
+            backup_name  TEXT,
+            status       TEXT        NOT NULL CHECK (status IN ('running', 'ok', 'warning', 'failed')),
+            error        TEXT,
+            details      JSONB       NOT NULL DEFAULT '{}'::jsonb,
+            started_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            finished_at  TIMESTAMPTZ
+          )
+        `);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_backup_runs_kind_started ON backup_runs (kind, started_at DESC)`);
+        columnsAdded.push('backup_runs (table)');
+      } catch (e) { /* already exists — idempotent */ }
+
+      // === 098: AI model versioning (previous model + side-by-side shadow scores) ===
+      try {
+        await db.execute(sql`ALTER TABLE ai_config ADD COLUMN IF NOT EXISTS previous_model_version TEXT`);
+        await db.execute(sql`
+          ALTER TABLE ai_shadow_decisions
+            ADD COLUMN IF NOT EXISTS compare_model_version TEXT,
+            ADD COLUMN IF NOT EXISTS compare_score DECIMAL(5, 4),
+            ADD COLUMN IF NOT EXISTS compare_would_block BOOLEAN
+        `);
+        columnsAdded.push('ai_config.previous_model_version', 'ai_shadow_decisions.compare_*');
+      } catch (e) { /* already exists — idempotent */ }
+
+      // === 099: AI feature store (versioned feature vectors + outcome labels) ===
+      try {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS ai_feature_store (
+            id                   SERIAL PRIMARY KEY,
+            pair                 TEXT          NOT NULL,
+            regime               TEXT,
+            strategy_id          TEXT,
+            timeframe            TEXT,
+            mode                 TEXT          NOT NULL DEFAULT 'LIVE' CHECK (mode IN ('LIVE', 'DRY_RUN')),
+            feature_set_version  TEXT          NOT NULL,
+            features_json        JSONB         NOT NULL,
+            ai_score             DECIMAL(5, 4),
+            ai_threshold         DECIMAL(5, 4),
+            would_block          BOOLEAN,
+            model_version        TEXT,
+            model_segment        TEXT,
+            lot_id               TEXT,
+            pnl_net              DECIMAL(18, 8),
+            pnl_pct              DECIMAL(10, 4),
+            label_win            INTEGER,
+            labeled_at           TIMESTAMPTZ,
+            created_at           TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+          )
+        `);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_ai_feature_store_version_label ON ai_feature_store (feature_set_version, label_win)`);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_ai_feature_store_lot ON ai_feature_store (lot_id) WHERE lot_id IS NOT NULL`);
+        await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_ai_feature_store_pair_created ON ai_feature_store (pair, created_at DESC)`);
+        columnsAdded.push('ai_feature_store (table)');
+      } catch (e) { /* already exists — idempotent */ }
+
       console.log(`[schema] Migration completed. Columns added: ${columnsAdded.join(', ') || 'none (all exist)'}`);
       return { success: true, columnsAdded };
     } catch (error) {
@@ -3571,6 +4016,77 @@ export class DatabaseStorage implements IStorage {
     return (result as any).rowCount ?? 0;
   }
 
+  // ============================================================
+  // AUTOTUNING — CLOSED TRADE SAMPLES (proposal generator input)
+  // ============================================================
+  async getAutotuningTradeSamples(options?: { strategyType?: string; pair?: string; sinceDays?: number; limit?: number }): Promise<AutotuningTradeSampleRow[]> {
+    const sinceDays = options?.sinceDays ?? 90;
+    const limit = options?.limit ?? 5000;
+    const rows = await db.execute(sql`
+      WITH closed AS (
+        SELECT x.source_trade_id, x.source_mode, x.strategy_type,
+               COALESCE(NULLIF(e.pair, ''), NULLIF(x.pair, ''), 'UNKNOWN') AS pair,
+               x.evidence_weight, COALESCE(e.regime, x.regime) AS regime,
+               COALESCE(e.signal_score, x.signal_score) AS signal_score,
+               e.spread_pct, x.exit_category, x.pnl_pct, x.pnl_net_usd,
+               x.mfe_pct AS snap_mfe, x.mae_pct AS snap_mae, x.exit_ts_utc
+        FROM trade_snapshots x
+        LEFT JOIN trade_snapshots e
+          ON e.source_trade_id = x.source_trade_id
+         AND e.source_mode = x.source_mode
+         AND e.snapshot_type = CASE WHEN x.strategy_type = 'IDCA' THEN 'CYCLE_START' ELSE 'ENTRY' END
+        WHERE x.snapshot_type IN ('EXIT', 'CYCLE_CLOSED')
+          AND x.pnl_pct IS NOT NULL
+          AND x.created_at >= NOW() - (${sinceDays} || ' days')::interval
+          ${options?.strategyType ? sql`AND x.strategy_type = ${options.strategyType}` : sql``}
+      )
+      SELECT c.*, m.max_mfe, m.min_mae
+      FROM closed c
+      LEFT JOIN LATERAL (
+        SELECT MAX(tm.mfe_pct::numeric) AS max_mfe, MIN(tm.mae_pct::numeric) AS min_mae
+        FROM trade_metrics tm
+        WHERE tm.source_trade_id = c.source_trade_id AND tm.source_mode = c.source_mode
+      ) m ON true
+      ${options?.pair ? sql`WHERE c.pair = ${options.pair}` : sql``}
+      ORDER BY c.exit_ts_utc DESC NULLS LAST
+      LIMIT ${limit}
+    `);
+    const num = (v: unknown): number | null => (v == null ? null : parseFloat(String(v)));
+    return (rows.rows as any[]).map(r => ({
+      sourceTradeId:  r.source_trade_id,
+      sourceMode:     r.source_mode,
+      strategyType:   r.strategy_type,
+      pair:           r.pair,
+      evidenceWeight: num(r.evidence_weight) ?? 1,
+      regime:         r.regime ?? null,
+      signalScore:    num(r.signal_score),
+      spreadPct:      num(r.spread_pct),
+      exitCategory:   r.exit_category ?? null,
+      pnlPct:         num(r.pnl_pct) ?? 0,
+      pnlNetUsd:      num(r.pnl_net_usd),
+      mfePct:         num(r.max_mfe) ?? num(r.snap_mfe),
+      maePct:         num(r.min_mae) ?? num(r.snap_mae),
+      exitTs:         r.exit_ts_utc ? new Date(r.exit_ts_utc) : null,
+    }));
+  }
+
+  async getAiShadowOutcomes(options?: { pair?: string; sinceDays?: number }): Promise<Array<{ pair: string | null; score: number; threshold: number; finalPnlNet: number }>> {
+    const sinceDays = options?.sinceDays ?? 90;
+    const rows = await db.execute(sql`
+      SELECT pair, score, threshold, final_pnl_net
+      FROM ai_shadow_decisions
+      WHERE final_pnl_net IS NOT NULL
+        AND ts >= NOW() - (${sinceDays} || ' days')::interval
+        ${options?.pair ? sql`AND pair = ${options.pair}` : sql``}
+    `);
+    return (rows.rows as any[]).map(r => ({
+      pair:        r.pair ?? null,
+      score:       parseFloat(r.score),
+      threshold:   parseFloat(r.threshold),
+      finalPnlNet: parseFloat(r.final_pnl_net),
+    }));
+  }
+
   // ============================================================
   // PHASE 10 — STRATEGY PROFILES
   // ============================================================
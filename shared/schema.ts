@@ -189,6 +189,8 @@ export const botConfig = pgTable("bot_config", {
   idcaHybridConfig: jsonb("idca_hybrid_config"),
   // IDCA Hybrid alert config (JSONB) — verbosity, dedupe, event toggles
   idcaHybridAlertConfig: jsonb("idca_hybrid_alert_config"),
+  // Per-pair strategy assignment (JSONB) — { "BTC/USD": "grid" }; ids from StrategyRegistry
+  pairStrategies: jsonb("pair_strategies").notNull().default({}),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
@@ -204,6 +206,11 @@ export const apiConfig = pgTable("api_config", {
   revolutxPrivateKey: text("revolutx_private_key"),
   revolutxConnected: boolean("revolutx_connected").notNull().default(false),
   revolutxEnabled: boolean("revolutx_enabled").notNull().default(false),
+  // Binance Spot configuration
+  binanceApiKey: text("binance_api_key"),
+  binanceApiSecret: text("binance_api_secret"),
+  binanceConnected: boolean("binance_connected").notNull().default(false),
+  binanceEnabled: boolean("binance_enabled").notNull().default(false),
   // Exchange mode: which exchange is used for what purpose
   // 'tradingExchange' executes orders (BUY/SELL)
   tradingExchange: text("trading_exchange").notNull().default("kraken"),
@@ -429,6 +436,15 @@ export const alertPreferencesSchema = z.object({
   fisco_error_sync: z.boolean().optional(),
   // Entry intent / signal
   entry_intent: z.boolean().optional(),
+  // Grid Isolated
+  grid_cycle_fill: z.boolean().optional(),
+  grid_cycle_closed: z.boolean().optional(),
+  grid_circuit_breaker: z.boolean().optional(),
+  grid_pump_dump_guard: z.boolean().optional(),
+  grid_range_rebuild: z.boolean().optional(),
+  // AMA
+  ama_tranche_plan: z.boolean().optional(),
+  ama_real_gate_failed: z.boolean().optional(),
 });
 
 export type AlertPreferences = z.infer<typeof alertPreferencesSchema>;
@@ -579,6 +595,10 @@ export const openPositions = pgTable("open_positions", {
   beProgressiveLevel: integer("be_progressive_level").default(0),
   // Smart Exit Engine: entry context snapshot (signals at entry time)
   entryContextJson: jsonb("entry_context_json"),
+  // Exchange-resident protective stop (stop-loss nativo en el exchange, espejo del stop del bot)
+  exchangeStopOrderId: text("exchange_stop_order_id"),
+  exchangeStopPrice: decimal("exchange_stop_price", { precision: 18, scale: 8 }),
+  exchangeStopUpdatedAt: timestamp("exchange_stop_updated_at"),
   // === NEW: Instant Position & Average Entry Price ===
   // Position lifecycle status: PENDING_FILL → OPEN (or FAILED/CANCELLED)
   status: text("status").default("OPEN"),
@@ -671,6 +691,10 @@ export const aiShadowDecisions = pgTable("ai_shadow_decisions", {
   modelVersion: text("model_version"),
   metadataJson: jsonb("metadata_json"),
   effectiveDecisionContextJson: jsonb("effective_decision_context_json"),
+  // Previous model scored on the same signal (migration 098)
+  compareModelVersion: text("compare_model_version"),
+  compareScore: decimal("compare_score", { precision: 5, scale: 4 }),
+  compareWouldBlock: boolean("compare_would_block"),
 });
 
 export const trainingTrades = pgTable("training_trades", {
@@ -726,6 +750,7 @@ export const aiConfig = pgTable("ai_config", {
   shadowEnabled: boolean("shadow_enabled").default(false),
   modelPath: text("model_path"),
   modelVersion: text("model_version"),
+  previousModelVersion: text("previous_model_version"), // rollback target / shadow comparison (migration 098)
   lastTrainTs: timestamp("last_train_ts"),
   lastBackfillTs: timestamp("last_backfill_ts"),
   lastBackfillError: text("last_backfill_error"),
@@ -737,6 +762,29 @@ export const aiConfig = pgTable("ai_config", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Versioned feature vectors captured at AI decision time (migration 099)
+export const aiFeatureStore = pgTable("ai_feature_store", {
+  id: serial("id").primaryKey(),
+  pair: text("pair").notNull(),
+  regime: text("regime"),
+  strategyId: text("strategy_id"),
+  timeframe: text("timeframe"),
+  mode: text("mode").notNull().default("LIVE"), // LIVE | DRY_RUN
+  featureSetVersion: text("feature_set_version").notNull(),
+  featuresJson: jsonb("features_json").notNull(),
+  aiScore: decimal("ai_score", { precision: 5, scale: 4 }),
+  aiThreshold: decimal("ai_threshold", { precision: 5, scale: 4 }),
+  wouldBlock: boolean("would_block"),
+  modelVersion: text("model_version"),
+  modelSegment: text("model_segment"), // pooled | "PAIR|REGIME" | "PAIR|*" | "*|REGIME"
+  lotId: text("lot_id"), // set when the BUY opens a lot
+  pnlNet: decimal("pnl_net", { precision: 18, scale: 8 }),
+  pnlPct: decimal("pnl_pct", { precision: 10, scale: 4 }),
+  labelWin: integer("label_win"),
+  labeledAt: timestamp("labeled_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
 // Regime state for anti-spam and stabilization (Phase 1)
 export const regimeState = pgTable("regime_state", {
   pair: text("pair").primaryKey(),
@@ -773,6 +821,7 @@ export const insertOpenPositionSchema = createInsertSchema(openPositions).omit({
 export const insertAiTradeSampleSchema = createInsertSchema(aiTradeSamples).omit({ id: true, createdAt: true });
 export const insertAiShadowDecisionSchema = createInsertSchema(aiShadowDecisions).omit({ id: true, ts: true });
 export const insertAiConfigSchema = createInsertSchema(aiConfig).omit({ id: true, updatedAt: true });
+export const insertAiFeatureStoreSchema = createInsertSchema(aiFeatureStore).omit({ id: true, createdAt: true });
 export const insertTrainingTradeSchema = createInsertSchema(trainingTrades).omit({ id: true, createdAt: true });
 export const insertTradeFillSchema = createInsertSchema(tradeFills).omit({ id: true, createdAt: true });
 export const insertLotMatchSchema = createInsertSchema(lotMatches).omit({ id: true, createdAt: true });
@@ -796,6 +845,7 @@ export type LotMatch = typeof lotMatches.$inferSelect;
 export type AiTradeSample = typeof aiTradeSamples.$inferSelect;
 export type AiShadowDecision = typeof aiShadowDecisions.$inferSelect;
 export type AiConfig = typeof aiConfig.$inferSelect;
+export type AiFeatureStoreRow = typeof aiFeatureStore.$inferSelect;
 export type TrainingTrade = typeof trainingTrades.$inferSelect;
 
 export type InsertBotConfig = z.infer<typeof insertBotConfigSchema>;
@@ -811,6 +861,7 @@ export type InsertLotMatch = z.infer<typeof insertLotMatchSchema>;
 export type InsertAiTradeSample = z.infer<typeof insertAiTradeSampleSchema>;
 export type InsertAiShadowDecision = z.infer<typeof insertAiShadowDecisionSchema>;
 export type InsertAiConfig = z.infer<typeof insertAiConfigSchema>;
+export type InsertAiFeatureStoreRow = z.infer<typeof insertAiFeatureStoreSchema>;
 export type InsertTrainingTrade = z.infer<typeof insertTrainingTradeSchema>;
 export type AppliedTrade = typeof appliedTrades.$inferSelect;
 export type InsertAppliedTrade = typeof appliedTrades.$inferInsert;
@@ -1018,9 +1069,12 @@ export type FiscoSyncRetryRow = typeof fiscoSyncRetry.$inferSelect;
 // INSTITUTIONAL DCA MODULE — Complete isolation from main bot
 // ============================================================
 
-// Allowed pairs for Institutional DCA v1
-export const INSTITUTIONAL_DCA_ALLOWED_PAIRS = ["BTC/USD", "ETH/USD"] as const;
-export type InstitutionalDcaPair = typeof INSTITUTIONAL_DCA_ALLOWED_PAIRS[number];
+// Pairs seeded by migration 019. The traded universe is every row in
+// institutional_dca_asset_configs (IdcaRepository.getConfiguredPairs).
+export const INSTITUTIONAL_DCA_DEFAULT_PAIRS = ["BTC/USD", "ETH/USD"] as const;
+// IDCA capital is accounted in USD, so only */USD spot pairs can be configured
+export const INSTITUTIONAL_DCA_PAIR_PATTERN = /^[A-Z0-9]{2,10}\/USD$/;
+export type InstitutionalDcaPair = string;
 
 // 10.1 Trading Engine Controls — independent toggles for normal bot and IDCA
 export const tradingEngineControls = pgTable("trading_engine_controls", {
@@ -1194,6 +1248,13 @@ export const institutionalDcaAssetConfigs = pgTable("institutional_dca_asset_con
   trailingMarginPct: decimal("trailing_margin_pct", { precision: 5, scale: 2 }).notNull().default("1.50"),
   cooldownMinutesBetweenBuys: integer("cooldown_minutes_between_buys").notNull().default(180),
   maxCycleDurationHours: integer("max_cycle_duration_hours").notNull().default(720),
+  // Per-asset guardrails — NULL falls back to the global BTC (BTC/USD) or ETH (every other pair) values
+  minTrailingPct: decimal("min_trailing_pct", { precision: 5, scale: 2 }),
+  maxTrailingPct: decimal("max_trailing_pct", { precision: 5, scale: 2 }),
+  minTpPct: decimal("min_tp_pct", { precision: 5, scale: 2 }),
+  maxTpPct: decimal("max_tp_pct", { precision: 5, scale: 2 }),
+  maxAssetExposurePct: decimal("max_asset_exposure_pct", { precision: 5, scale: 2 }),
+  btcGateEnabled: boolean("btc_gate_enabled"), // NULL → config.btcMarketGateForEthEnabled for ETH/USD, off otherwise
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -1414,6 +1475,7 @@ export const institutionalDcaBacktests = pgTable("institutional_dca_backtests",
   profitFactor: decimal("profit_factor", { precision: 10, scale: 4 }),
   cyclesCount: integer("cycles_count"),
   avgCycleDurationHours: decimal("avg_cycle_duration_hours", { precision: 10, scale: 2 }),
+  resultsJson: jsonb("results_json"), // IdcaBacktestResults — cycles, orders, equity curve, entry blocks
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -1904,6 +1966,7 @@ export const strategyCapitalReservations = pgTable("strategy_capital_reservation
   id:                      text("id").primaryKey(),
   strategyType:            text("strategy_type").notNull(),
   pair:                    text("pair").notNull(),
+  exchange:                text("exchange").notNull().default("revolutx"),
   reservedUsd:             decimal("reserved_usd", { precision: 18, scale: 2 }).notNull(),
   availableUsd:            decimal("available_usd", { precision: 18, scale: 2 }).notNull(),
   reservedAt:              timestamp("reserved_at", { withTimezone: true }).notNull().defaultNow(),
@@ -1974,6 +2037,9 @@ export const telegramAlertEvents = pgTable("telegram_alert_events", {
   naturalMessage: text("natural_message"),
   technicalDetailsJson: jsonb("technical_details_json"),
   rawPayloadJson: jsonb("raw_payload_json"),
+  // "telegram" o el tipo de notification_channels que entregó la alerta
+  transport: text("transport").notNull().default("telegram"),
+  notificationChannelId: integer("notification_channel_id"),
 });
 
 export type TelegramAlertEvent = typeof telegramAlertEvents.$inferSelect;
@@ -1997,3 +2063,83 @@ export const telegramCommandLog = pgTable("telegram_command_log", {
 
 export type TelegramCommandLog = typeof telegramCommandLog.$inferSelect;
 export type InsertTelegramCommandLog = typeof telegramCommandLog.$inferInsert;
+
+// ============================================================
+// Notification Channels — transportes además de Telegram
+// (webhook firmado, email SMTP, ntfy, Gotify, Discord)
+// ============================================================
+export const NOTIFICATION_CHANNEL_TYPES = ["webhook", "email", "ntfy", "gotify", "discord"] as const;
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+export const notificationChannels = pgTable("notification_channels", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  configJson: jsonb("config_json").notNull().default({}),
+  enabledModes: text("enabled_modes").array().notNull().default([]), // AlertMode[]; vacío = todos
+  minSeverity: text("min_severity").notNull().default("HIGH"),
+  onlyOnTelegramFailure: boolean("only_on_telegram_failure").notNull().default(false),
+  lastSentAt: timestamp("last_sent_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type InsertNotificationChannel = typeof notificationChannels.$inferInsert;
+
+// ============================================================
+// Auth — users, session/API-key tokens and audit of mutating calls
+// ============================================================
+export const AUTH_ROLES = ["viewer", "operator", "admin"] as const;
+export type AuthRole = typeof AUTH_ROLES[number];
+
+export const authUsers = pgTable("auth_users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull().default("viewer"),
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type AuthUser = typeof authUsers.$inferSelect;
+export type InsertAuthUser = typeof authUsers.$inferInsert;
+
+// Only the SHA-256 of each token is stored; token_prefix is kept for display.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => authUsers.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // 'session' | 'api_key'
+  label: text("label"),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = typeof authTokens.$inferInsert;
+
+export const authAuditLog = pgTable("auth_audit_log", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  userId: integer("user_id"),
+  username: text("username"),
+  role: text("role"),
+  authMethod: text("auth_method"), // 'session' | 'api_key' | 'legacy_token' | 'disabled' | null (rejected)
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code"),
+  ip: text("ip"),
+  durationMs: integer("duration_ms"),
+  requestBody: jsonb("request_body"),
+});
+
+export type AuthAuditEntry = typeof authAuditLog.$inferSelect;
+export type InsertAuthAuditEntry = typeof authAuditLog.$inferInsert;